@@ -13,19 +13,50 @@ export {
   MiniToolsClient,
   MiniToolsMCP,
   miniToolsMCP,
+  // Errors, input validation, tool policy and configuration
+  abortError,
+  applyEnvDefaults,
+  applyToolPolicy,
+  ConfigError,
+  createToolFilter,
+  globToRegExp,
+  InputValidator,
+  isToolError,
+  loadConfig,
+  parseConfig,
+  ToolError,
+  toToolError,
+  ToolValidationError,
   // Tools
   allTools,
   getCategories,
   getToolByName,
   getToolsByCategory,
   toolsByCategory,
+  // Registry checks
+  findDuplicateTools,
+  namespaceDuplicates,
+  ToolRegistryError,
+  validateRegistry,
+  // Result pagination
+  RESULT_PAGE_TOOL,
+  ResultPager,
 } from "./src/client.ts";
 
 // Re-export client types
 export type {
+  ExecuteOptions,
   MCPClientBase,
   MCPTool,
   MiniToolsClientOptions,
+  PageInfo,
+  PaginationOptions,
+  ServerConfig,
+  ToolErrorCode,
+  ToolErrorPayload,
+  ToolNameCollision,
+  ToolPolicy,
+  ValidationIssue,
 } from "./src/client.ts";
 
 // Re-export types
@@ -33,7 +64,13 @@ export type {
   MiniTool,
   MiniToolHandler,
   MiniToolResult,
+  ProgressReporter,
+  ResourceContents,
+  ResourceInfo,
+  ResourceProvider,
+  ToolAnnotations,
   ToolCategory,
+  ToolContext,
 } from "./src/client.ts";
 
 // Re-export individual tool arrays for direct access
@@ -80,6 +117,39 @@ export {
   stateTools,
   stringTools,
   utilTools,
+  // State storage
+  createStateBackend,
+  JsonFileStateBackend,
+  MemoryStateBackend,
+  onStateChange,
+  PgliteStateBackend,
+  setStateBackend,
+  SqliteStateBackend,
+  stateResources,
+  stateResourceUri,
+  // Virtual filesystem
+  setVfsHostRoots,
+  setVfsLimits,
+  vfsResources,
+  vfsResourceUri,
+  VirtualFileSystem,
+  // Algorithm instances
+  setAlgoLimits,
+  // Named database connections, the SQL guard and parameter binding
+  bindSql,
+  classifySql,
+  closeDbConnections,
+  guardSql,
+  setDbConnections,
+  // Schema migrations
+  loadMigrations,
+  migrateDown,
+  migrateUp,
+  migrationStatus,
+  pgliteMigrationDb,
+  postgresMigrationDb,
+  // MCP resources
+  resourceProviders,
   // Agent tools
   agentTools,
   createAgenticSamplingClient,
@@ -90,5 +160,30 @@ export {
   runCommand,
 } from "./src/tools/mod.ts";
 
+export type {
+  AlgoLimits,
+  AlgoSnapshot,
+  DbConnectionConfig,
+  DbConnectionInfo,
+  DbDriver,
+  Migration,
+  MigrationDb,
+  MigrationState,
+  MigrationStatus,
+  MigrationStep,
+  SqlDialect,
+  SqlParams,
+  SqlStatement,
+  SqlStatementKind,
+  StateBackend,
+  StateBackendConfig,
+  StateChange,
+  StateChangeListener,
+  StateEntry,
+  VfsLimits,
+  VfsSnapshot,
+  VfsStat,
+} from "./src/tools/mod.ts";
+
 /** Alias for backward compatibility */
 export { allTools as systemTools } from "./src/tools/mod.ts";
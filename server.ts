@@ -22,43 +22,190 @@
  *   deno run --allow-all jsr:@casys/mcp-std/server --http --port=3008
  *   deno run --allow-all jsr:@casys/mcp-std/server --http --port=4000 --hostname=127.0.0.1
  *
+ * Config file (YAML or JSON, see src/config.ts for the schema):
+ *   deno run --allow-all jsr:@casys/mcp-std/server --config=mcp-std.yaml
+ * Command-line flags take precedence over values from the file.
+ *
+ * Tool policy (applied after --categories):
+ *   --allow=git_*,docker_ps     only expose tools matching these globs
+ *   --deny=*_rm,kill_process    hide tools matching these globs (wins over --allow)
+ *   --read-only                 only expose tools annotated as read-only
+ *
+ * Tool names must be unique; startup fails on duplicates unless
+ * --namespace-duplicates renames them to <category>_<name>.
+ *
+ * Tool arguments are validated against each tool's inputSchema before the
+ * handler runs. Pass --no-validate to disable.
+ *
+ * Cancelled requests abort the running tool (child processes are killed,
+ * fetches aborted). Per-tool timeouts come from the config file.
+ *
+ * Results larger than 100 KB are cut to their first page with a `_page`
+ * marker; the result_page tool returns the rest. --max-result-bytes=N
+ * changes the budget (0 disables it).
+ *
+ * Vfs files and state keys are exposed as vfs:///<path> and
+ * state://<namespace>/<key> resources; changes made through the vfs_* and
+ * state_* tools are announced with notifications/resources/updated to
+ * clients that subscribed to the URI (or a parent of it).
+ *
+ * Tool failures are reported as MCP `isError` results whose text is a JSON
+ * ToolErrorPayload: { code, message, details? }.
+ *
  * @module lib/std/server
  */
 
 import { ConcurrentMCPServer, MCP_APP_MIME_TYPE, SamplingBridge } from "@casys/mcp-server";
-import { MiniToolsClient } from "./src/client.ts";
+import {
+  applyEnvDefaults,
+  loadConfig,
+  MiniToolsClient,
+  type ProgressReporter,
+  type ServerConfig,
+  toToolError,
+} from "./src/client.ts";
 import { createAgenticSamplingClient, setSamplingClient } from "./src/tools/agent.ts";
+import { setAlgoLimits } from "./src/tools/algo.ts";
+import { setDbConnections } from "./src/tools/database.ts";
+import { setStateBackend } from "./src/tools/state.ts";
+import { createStateBackend } from "./src/tools/statestore.ts";
+import { setVfsLimits } from "./src/tools/vfs.ts";
+import { setVfsHostRoots } from "./src/tools/vfshost.ts";
+import { registerResourceProviders } from "./src/resources.ts";
 import { loadUiHtml, UI_RESOURCES } from "./src/ui/mod.ts";
 
 const DEFAULT_HTTP_PORT = 3008;
+const DEFAULT_MAX_CONCURRENT = 10;
+const DEFAULT_SAMPLING_TIMEOUT = 120000;
+const DEFAULT_MAX_RESULT_BYTES = 100000;
+
+/** Per-request extras the framework passes to tool handlers */
+interface ToolCallExtra {
+  signal?: AbortSignal;
+  sessionId?: string;
+  _meta?: { progressToken?: string | number };
+  sendNotification?: (notification: {
+    method: string;
+    params: Record<string, unknown>;
+  }) => Promise<void>;
+}
+
+/**
+ * Forward tool progress as MCP notifications/progress, or undefined when the
+ * caller did not ask for progress
+ */
+function progressNotifier(extra: ToolCallExtra | undefined): ProgressReporter | undefined {
+  const progressToken = extra?._meta?.progressToken;
+  const send = extra?.sendNotification;
+  if (progressToken === undefined || !send) return undefined;
+  return (progress, total, message) => {
+    send({
+      method: "notifications/progress",
+      params: { progressToken, progress, total, message },
+    }).catch((error) => console.error(`[mcp-std] Failed to send progress: ${error}`));
+  };
+}
 
 async function main() {
   // Parse command line arguments
   const args = Deno.args;
 
+  // Config file: --config=path (YAML or JSON). Command-line flags override it.
+  const configArg = args.find((arg) => arg.startsWith("--config="));
+  const config: ServerConfig = configArg ? await loadConfig(configArg.split("=")[1]) : {};
+  const appliedEnv = applyEnvDefaults(config.env);
+  if (configArg) {
+    console.error(
+      `[mcp-std] Loaded config ${configArg.split("=")[1]}${
+        appliedEnv.length ? ` (env defaults: ${appliedEnv.join(", ")})` : ""
+      }`,
+    );
+  }
+
   // Category filtering
   const categoriesArg = args.find((arg) => arg.startsWith("--categories="));
-  const categories = categoriesArg
-    ? categoriesArg.split("=")[1].split(",")
-    : undefined;
+  const categories = categoriesArg ? categoriesArg.split("=")[1].split(",") : config.categories;
+
+  // Tool policy: --allow=<globs> --deny=<globs> --read-only
+  const allowArg = args.find((arg) => arg.startsWith("--allow="));
+  const allow = allowArg ? allowArg.split("=")[1].split(",") : config.allow;
+  const denyArg = args.find((arg) => arg.startsWith("--deny="));
+  const deny = denyArg ? denyArg.split("=")[1].split(",") : config.deny;
+  const readOnly = args.includes("--read-only") || config.readOnly === true;
 
   // HTTP mode: --http [--port=XXXX] [--hostname=X.X.X.X]
-  const httpFlag = args.includes("--http");
+  const httpFlag = args.includes("--http") || config.http?.enabled === true;
   const portArg = args.find((arg) => arg.startsWith("--port="));
-  const httpPort = portArg ? parseInt(portArg.split("=")[1], 10) : DEFAULT_HTTP_PORT;
+  const httpPort = portArg
+    ? parseInt(portArg.split("=")[1], 10)
+    : config.http?.port ?? DEFAULT_HTTP_PORT;
   const hostnameArg = args.find((arg) => arg.startsWith("--hostname="));
-  const hostname = hostnameArg ? hostnameArg.split("=")[1] : "0.0.0.0";
+  const hostname = hostnameArg ? hostnameArg.split("=")[1] : config.http?.hostname ?? "0.0.0.0";
+  const cors = config.http?.cors ?? true;
+
+  // Input validation is on unless explicitly disabled
+  const validateInput = !args.includes("--no-validate") && config.validateInput !== false;
+
+  // Duplicate tool names fail startup unless --namespace-duplicates is given
+  const duplicates = args.includes("--namespace-duplicates") ? "namespace" : config.duplicates;
+
+  // Result budget: --max-result-bytes=N (0 disables pagination)
+  const maxResultBytesArg = args.find((arg) => arg.startsWith("--max-result-bytes="));
+  const maxResultBytes = maxResultBytesArg
+    ? parseInt(maxResultBytesArg.split("=")[1], 10)
+    : config.maxResultBytes ?? DEFAULT_MAX_RESULT_BYTES;
+
+  const maxConcurrent = config.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+  const samplingTimeout = config.samplingTimeout ?? DEFAULT_SAMPLING_TIMEOUT;
 
   // Initialize tools client
-  const toolsClient = new MiniToolsClient(
-    categories ? { categories } : undefined,
-  );
+  const toolsClient = new MiniToolsClient({
+    categories,
+    allow,
+    deny,
+    readOnly,
+    validateInput,
+    timeouts: config.toolTimeouts,
+    duplicates,
+    maxResultBytes,
+    maxResultItems: config.maxResultItems,
+  });
+
+  // Persistent state_* storage, if configured (default: in memory)
+  if (config.state) {
+    await setStateBackend(await createStateBackend(config.state));
+    console.error(
+      `[mcp-std] State backend: ${config.state.backend}${
+        config.state.path ? ` (${config.state.path})` : ""
+      }`,
+    );
+  }
+
+  // vfs_* quotas and the host directories vfs_import/vfs_export may use, if configured
+  if (config.vfs) {
+    const { hostRoots, ...limits } = config.vfs;
+    setVfsLimits(limits);
+    if (hostRoots) setVfsHostRoots(hostRoots);
+  }
+
+  // algo_* instance count, size and idle-eviction limits, if configured
+  if (config.algo) {
+    setAlgoLimits(config.algo);
+  }
+
+  // Named psql_*/mysql_query connections, if configured
+  if (config.databases) {
+    await setDbConnections(config.databases);
+    console.error(
+      `[mcp-std] Database connections: ${Object.keys(config.databases).join(", ")}`,
+    );
+  }
 
   // Create agentic sampling client and wrap with SamplingBridge
   // The bridge adds timeout handling, request tracking, and cancellation support
   const underlyingSamplingClient = createAgenticSamplingClient();
   const samplingBridge = new SamplingBridge(underlyingSamplingClient, {
-    timeout: 120000, // 2 minute timeout for agentic loops
+    timeout: samplingTimeout, // default 2 minutes for agentic loops
   });
 
   // Use the bridge as the sampling client - it implements createMessage()
@@ -66,14 +213,14 @@ async function main() {
   setSamplingClient(samplingBridge);
 
   console.error(
-    "[mcp-std] Sampling bridge initialized (timeout: 120s, tracking enabled)",
+    `[mcp-std] Sampling bridge initialized (timeout: ${samplingTimeout / 1000}s, tracking enabled)`,
   );
 
   // Create concurrent MCP server with framework
   const server = new ConcurrentMCPServer({
     name: "mcp-std",
     version: "0.2.1",
-    maxConcurrent: 10,
+    maxConcurrent,
     backpressureStrategy: "sleep",
     enableSampling: true,
     samplingClient: samplingBridge,
@@ -84,12 +231,36 @@ async function main() {
   const mcpTools = toolsClient.toMCPFormat();
   const handlers = new Map();
 
+  // Route calls through the client so arguments are validated first.
+  // ConcurrentMCPServer turns a thrown error into an isError result carrying
+  // its message, so every failure is normalized to a ToolError payload.
+  // The request's abort signal (fired on notifications/cancelled) is passed
+  // on so runCommand and fetch-based tools stop their work. When the caller
+  // sent a progressToken, reportProgress() becomes notifications/progress.
+  // The session id scopes `session: true` state namespaces.
   for (const tool of toolsClient.listTools()) {
-    handlers.set(tool.name, tool.handler);
+    handlers.set(
+      tool.name,
+      async (toolArgs: Record<string, unknown>, extra?: ToolCallExtra) => {
+        try {
+          return await toolsClient.execute(tool.name, toolArgs, {
+            signal: extra?.signal,
+            onProgress: progressNotifier(extra),
+            sessionId: extra?.sessionId,
+          });
+        } catch (error) {
+          const toolError = toToolError(error);
+          throw new Error(JSON.stringify(toolError.toJSON()), { cause: toolError });
+        }
+      },
+    );
   }
 
   server.registerTools(mcpTools, handlers);
 
+  // vfs:// and state:// resources, with update notifications for vfs_write, state_set, ...
+  registerResourceProviders(server, toolsClient.listResourceProviders());
+
   // Collect and register UI resources from tools with _meta.ui
   const registeredUris = new Set<string>();
   for (const tool of toolsClient.listTools()) {
@@ -117,12 +288,19 @@ async function main() {
     }
   }
 
+  const summary = [
+    categories && `categories: ${categories.join(", ")}`,
+    allow && `allow: ${allow.join(", ")}`,
+    deny && `deny: ${deny.join(", ")}`,
+    readOnly && "read-only",
+  ].filter(Boolean).map((part) => ` - ${part}`).join("");
+
   // Start server (HTTP or stdio mode)
   if (httpFlag) {
     const httpServer = await server.startHttp({
       port: httpPort,
       hostname,
-      cors: true,
+      cors,
       onListen: (info) => {
         console.error(
           `[mcp-std] HTTP server listening on http://${info.hostname}:${info.port}`,
@@ -131,9 +309,7 @@ async function main() {
     });
 
     console.error(
-      `[mcp-std] Server ready (${toolsClient.count} tools) - HTTP mode${
-        categories ? ` - categories: ${categories.join(", ")}` : ""
-      }`,
+      `[mcp-std] Server ready (${toolsClient.count} tools) - HTTP mode${summary}`,
     );
 
     // Keep server running until interrupted
@@ -146,9 +322,7 @@ async function main() {
     await server.start();
 
     console.error(
-      `[mcp-std] Server ready (${toolsClient.count} tools) - stdio mode${
-        categories ? ` - categories: ${categories.join(", ")}` : ""
-      }`,
+      `[mcp-std] Server ready (${toolsClient.count} tools) - stdio mode${summary}`,
     );
 
     Deno.addSignalListener("SIGINT", () => {
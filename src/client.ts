@@ -11,9 +11,24 @@ import {
   getCategories,
   getToolByName,
   getToolsByCategory,
+  namespaceDuplicates,
+  resourceProviders,
   toolsByCategory,
+  validateRegistry,
 } from "./tools/mod.ts";
-import type { MCPClientBase, MCPTool, MCPToolWireFormat, MiniTool } from "./tools/types.ts";
+import { abortError, ToolError } from "./tools/errors.ts";
+import type {
+  MCPClientBase,
+  MCPTool,
+  MCPToolWireFormat,
+  MiniTool,
+  ProgressReporter,
+  ResourceProvider,
+  ToolContext,
+} from "./tools/types.ts";
+import { createToolFilter, globToRegExp, type ToolPolicy } from "./policy.ts";
+import { RESULT_PAGE_TOOL, ResultPager } from "./pagination.ts";
+import { InputValidator } from "./validator.ts";
 
 // Re-export from tools
 export {
@@ -21,8 +36,12 @@ export {
   getCategories,
   getToolByName,
   getToolsByCategory,
+  namespaceDuplicates,
   toolsByCategory,
+  validateRegistry,
 };
+export { findDuplicateTools, ToolRegistryError } from "./tools/mod.ts";
+export type { ToolNameCollision } from "./tools/mod.ts";
 export type { MiniTool };
 export type {
   MCPClientBase,
@@ -32,15 +51,99 @@ export type {
   MCPToolMeta,
   MiniToolHandler,
   MiniToolResult,
+  ProgressReporter,
+  ResourceContents,
+  ResourceInfo,
+  ResourceProvider,
+  ToolAnnotations,
   ToolCategory,
+  ToolContext,
 } from "./tools/types.ts";
+export { abortError, isToolError, ToolError, toToolError } from "./tools/errors.ts";
+export type { ToolErrorCode, ToolErrorPayload } from "./tools/errors.ts";
+export { InputValidator, ToolValidationError } from "./validator.ts";
+export { applyToolPolicy, createToolFilter, globToRegExp } from "./policy.ts";
+export type { ToolPolicy } from "./policy.ts";
+export { applyEnvDefaults, ConfigError, loadConfig, parseConfig } from "./config.ts";
+export type { ServerConfig } from "./config.ts";
+export { RESULT_PAGE_TOOL, ResultPager } from "./pagination.ts";
+export type { PageInfo, PaginationOptions } from "./pagination.ts";
+export type { ValidationIssue } from "./validator.ts";
 
 // ============================================================================
 // MiniToolsClient Class
 // ============================================================================
 
-export interface MiniToolsClientOptions {
+/**
+ * Options for MiniToolsClient
+ *
+ * `allow`, `deny` and `readOnly` (see ToolPolicy) further narrow the tools
+ * selected by `categories`.
+ */
+export interface MiniToolsClientOptions extends ToolPolicy {
   categories?: string[];
+  /**
+   * Validate arguments against each tool's inputSchema before calling its
+   * handler, applying schema defaults (default: true)
+   */
+  validateInput?: boolean;
+  /**
+   * Per-tool timeouts in ms, keyed by tool name or glob (e.g. "docker_*").
+   * Exact names take precedence over globs. When a call exceeds its timeout
+   * the handler's `ctx.signal` aborts and the call rejects with TIMEOUT.
+   */
+  timeouts?: Record<string, number>;
+  /**
+   * How to handle tools that share a name: "error" (default) throws
+   * ToolRegistryError from the constructor, "namespace" renames the
+   * colliding tools to `<category>_<name>`
+   */
+  duplicates?: "error" | "namespace";
+  /**
+   * Result budget in bytes. Larger results are cut to their first page,
+   * marked with `_page`, and the `result_page` tool is added to fetch the
+   * rest (default: no limit)
+   */
+  maxResultBytes?: number;
+  /** Maximum array items per result page (requires maxResultBytes) */
+  maxResultItems?: number;
+}
+
+/** Options for a single MiniToolsClient.execute call */
+export interface ExecuteOptions {
+  /** Cancels the call; the handler sees it as `ctx.signal` */
+  signal?: AbortSignal;
+  /** Timeout in ms, overriding any per-tool timeout from the client options */
+  timeout?: number;
+  /** Receives progress reported by the handler, only ever moving forward */
+  onProgress?: ProgressReporter;
+  /** Session the call belongs to; the handler sees it as `ctx.sessionId` */
+  sessionId?: string;
+}
+
+/**
+ * Wrap a progress listener so it only sees updates that advance `current`
+ * (MCP requires progress to increase with every notification)
+ */
+function forwardProgress(listener: ProgressReporter | undefined): ProgressReporter {
+  let last = -Infinity;
+  return (current, total, message) => {
+    if (!listener || !Number.isFinite(current) || current <= last) return;
+    last = current;
+    listener(current, total, message);
+  };
+}
+
+/**
+ * Settle with `promise`, or reject as soon as `signal` aborts so handlers
+ * that ignore the signal do not hold up the caller
+ */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
 }
 
 /**
@@ -48,13 +151,43 @@ export interface MiniToolsClientOptions {
  */
 export class MiniToolsClient {
   private tools: MiniTool[];
+  private validator?: InputValidator;
+  private isAllowed?: (tool: MiniTool) => boolean;
+  private timeouts: Array<{ pattern: RegExp; ms: number }> = [];
+  private pager?: ResultPager;
 
   constructor(options?: MiniToolsClientOptions) {
     if (options?.categories) {
-      this.tools = options.categories.flatMap((cat) => getToolsByCategory(cat));
+      const categories = [...new Set(options.categories)];
+      this.tools = categories.flatMap((cat) => getToolsByCategory(cat));
     } else {
       this.tools = allTools;
     }
+    if (options?.allow || options?.deny || options?.readOnly) {
+      this.isAllowed = createToolFilter(options);
+      this.tools = this.tools.filter(this.isAllowed);
+    }
+    if (options?.duplicates === "namespace") {
+      this.tools = namespaceDuplicates(this.tools);
+    } else {
+      validateRegistry(this.tools);
+    }
+    if (options?.validateInput !== false) {
+      this.validator = new InputValidator();
+    }
+    if (options?.timeouts) {
+      const isGlob = (key: string) => /[*?]/.test(key);
+      this.timeouts = Object.entries(options.timeouts)
+        .sort(([a], [b]) => Number(isGlob(a)) - Number(isGlob(b)))
+        .map(([key, ms]) => ({ pattern: globToRegExp(key), ms }));
+    }
+    if (options?.maxResultBytes) {
+      this.pager = new ResultPager({
+        maxBytes: options.maxResultBytes,
+        maxItems: options.maxResultItems,
+      });
+      this.tools = [...this.tools, this.pager.tool()];
+    }
   }
 
   /**
@@ -65,26 +198,78 @@ export class MiniToolsClient {
   }
 
   /**
-   * Convert tools to MCP format (includes _meta for MCP Apps UI support)
+   * Resource providers (vfs://, state://) of the loaded tool categories
+   */
+  listResourceProviders(): ResourceProvider[] {
+    return resourceProviders.filter((provider) =>
+      this.tools.some((tool) => tool.category === provider.category)
+    );
+  }
+
+  /**
+   * Convert tools to MCP format (includes annotations and _meta for MCP Apps UI support)
    */
   toMCPFormat(): MCPToolWireFormat[] {
     return this.tools.map((t) => ({
       name: t.name,
       description: t.description,
       inputSchema: t.inputSchema,
+      ...(t.annotations && { annotations: t.annotations }),
       ...(t._meta && { _meta: t._meta }),
     }));
   }
 
   /**
    * Execute a tool by name
+   *
+   * @throws ToolError with code NOT_FOUND for unknown tools, PERMISSION_DENIED
+   *   for tools excluded by allow/deny/readOnly, or
+   *   ToolValidationError (INVALID_ARGUMENT) if input validation is enabled
+   *   and args do not match the tool's inputSchema, TIMEOUT if the call's
+   *   timeout elapses, or CANCELLED if `options.signal` aborts
    */
-  async execute(name: string, args: Record<string, unknown>): Promise<unknown> {
+  async execute(
+    name: string,
+    args: Record<string, unknown>,
+    options?: ExecuteOptions,
+  ): Promise<unknown> {
     const tool = this.tools.find((t) => t.name === name);
     if (!tool) {
-      throw new Error(`Tool not found: ${name}`);
+      const known = getToolByName(name);
+      if (known && this.isAllowed && !this.isAllowed(known)) {
+        throw new ToolError("PERMISSION_DENIED", `Tool disabled by policy: ${name}`);
+      }
+      throw new ToolError("NOT_FOUND", `Tool not found: ${name}`);
+    }
+    const input = this.validator ? this.validator.validate(tool, args) : args;
+
+    const timeoutMs = options?.timeout ?? this.timeouts.find((t) => t.pattern.test(name))?.ms;
+    const controller = new AbortController();
+    const signal = options?.signal
+      ? AbortSignal.any([options.signal, controller.signal])
+      : controller.signal;
+    const ctx: ToolContext = {
+      signal,
+      reportProgress: forwardProgress(options?.onProgress),
+      progressRequested: options?.onProgress !== undefined,
+      sessionId: options?.sessionId,
+    };
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    if (timeoutMs) {
+      ctx.deadline = Date.now() + timeoutMs;
+      timer = setTimeout(() => {
+        const message = `${name} timed out after ${timeoutMs}ms`;
+        controller.abort(new ToolError("TIMEOUT", message, { details: { timeoutMs } }));
+      }, timeoutMs);
+    }
+
+    try {
+      if (signal.aborted) throw abortError(signal);
+      const result = await untilAborted(Promise.resolve(tool.handler(input, ctx)), signal);
+      return this.pager && name !== RESULT_PAGE_TOOL ? this.pager.page(result) : result;
+    } finally {
+      clearTimeout(timer);
     }
-    return await tool.handler(args);
   }
 
   /**
@@ -112,8 +297,8 @@ export class MiniToolsMCP implements MCPClientBase {
   private client: MiniToolsClient;
   private connected = false;
 
-  constructor() {
-    this.client = new MiniToolsClient();
+  constructor(options?: MiniToolsClientOptions) {
+    this.client = new MiniToolsClient(options);
   }
 
   async connect(): Promise<void> {
@@ -0,0 +1,275 @@
+/**
+ * Server Configuration
+ *
+ * Loads an mcp-std config file (YAML or JSON) for `server.ts --config=path`.
+ * The file is validated against CONFIG_SCHEMA; unknown keys are rejected so
+ * typos surface as errors instead of being silently ignored.
+ *
+ * Example (mcp-std.yaml):
+ *
+ *   categories: [git, docker, text]
+ *   deny: ["*_rm", docker_prune]
+ *   maxConcurrent: 20
+ *   samplingTimeout: 300000
+ *   toolTimeouts:
+ *     docker_build: 600000
+ *     "kubectl_*": 60000
+ *   maxResultBytes: 50000
+ *   http:
+ *     enabled: true
+ *     port: 4000
+ *     hostname: 127.0.0.1
+ *     cors: false
+ *   state:
+ *     backend: sqlite
+ *     path: ./data/state.db
+ *   vfs:
+ *     maxBytes: 104857600
+ *     hostRoots: [./fixtures, ./out]
+ *   algo:
+ *     maxInstances: 200
+ *     idleTimeout: 600000
+ *   databases:
+ *     analytics:
+ *       urlEnv: ANALYTICS_DATABASE_URL
+ *       poolSize: 10
+ *       readOnly: true
+ *     legacy:
+ *       driver: mysql
+ *       host: db.internal
+ *       database: shop
+ *       user: reporter
+ *   env:
+ *     DATABASE_URL: postgres://localhost/dev
+ *
+ * @module lib/std/src/config
+ */
+
+import { Ajv } from "ajv";
+import { parse as parseYaml } from "@std/yaml";
+import type { AlgoLimits } from "./tools/algostore.ts";
+import type { DbConnectionConfig } from "./tools/dbconnections.ts";
+import type { StateBackendConfig } from "./tools/statestore.ts";
+import type { VfsLimits } from "./tools/vfstree.ts";
+import { toValidationIssue, type ValidationIssue } from "./validator.ts";
+
+/** Contents of an mcp-std config file */
+export interface ServerConfig {
+  /** Tool categories to load (default: all) */
+  categories?: string[];
+  /** Tool-name globs to expose */
+  allow?: string[];
+  /** Tool-name globs to hide */
+  deny?: string[];
+  /** Only expose read-only tools */
+  readOnly?: boolean;
+  /** Validate tool arguments against their inputSchema (default: true) */
+  validateInput?: boolean;
+  /** Maximum concurrent tool calls (default: 10) */
+  maxConcurrent?: number;
+  /** Sampling bridge timeout in ms for agent tools (default: 120000) */
+  samplingTimeout?: number;
+  /** Duplicate tool names: fail at startup ("error", default) or rename by category */
+  duplicates?: "error" | "namespace";
+  /** Per-tool timeouts in ms, keyed by tool name or glob */
+  toolTimeouts?: Record<string, number>;
+  /** Result budget in bytes before pagination kicks in (default: 100000, 0 disables) */
+  maxResultBytes?: number;
+  /** Maximum array items per result page */
+  maxResultItems?: number;
+  /** HTTP transport settings */
+  http?: {
+    /** Serve over HTTP instead of stdio (default: false) */
+    enabled?: boolean;
+    /** Port (default: 3008) */
+    port?: number;
+    /** Bind address (default: 0.0.0.0) */
+    hostname?: string;
+    /** Enable CORS (default: true) */
+    cors?: boolean;
+  };
+  /** Where state_* tools keep their data (default: in memory) */
+  state?: StateBackendConfig;
+  /** Size quotas for the vfs_* sandbox (defaults: 64 MiB, 10000 files, 16 MiB per file) */
+  vfs?: Partial<VfsLimits> & {
+    /** Host directories vfs_import/vfs_export may use (default: the working directory) */
+    hostRoots?: string[];
+  };
+  /** Limits for algo_* instances (defaults: 1000 instances, 100000 items each, 1 hour idle) */
+  algo?: Partial<AlgoLimits>;
+  /** Named connections for the psql_* tools and mysql_query, keyed by connection name */
+  databases?: Record<string, DbConnectionConfig>;
+  /** Environment variable defaults, applied only when the variable is unset */
+  env?: Record<string, string>;
+}
+
+const stringList = { type: "array", items: { type: "string", minLength: 1 } };
+
+/** JSON Schema for ServerConfig */
+export const CONFIG_SCHEMA: Record<string, unknown> = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    categories: stringList,
+    allow: stringList,
+    deny: stringList,
+    readOnly: { type: "boolean" },
+    validateInput: { type: "boolean" },
+    maxConcurrent: { type: "integer", minimum: 1 },
+    samplingTimeout: { type: "integer", minimum: 1 },
+    duplicates: { type: "string", enum: ["error", "namespace"] },
+    toolTimeouts: {
+      type: "object",
+      additionalProperties: { type: "integer", minimum: 1 },
+    },
+    maxResultBytes: { type: "integer", minimum: 0 },
+    maxResultItems: { type: "integer", minimum: 1 },
+    http: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        enabled: { type: "boolean" },
+        port: { type: "integer", minimum: 1, maximum: 65535 },
+        hostname: { type: "string", minLength: 1 },
+        cors: { type: "boolean" },
+      },
+    },
+    state: {
+      type: "object",
+      additionalProperties: false,
+      required: ["backend"],
+      properties: {
+        backend: { type: "string", enum: ["memory", "json", "sqlite", "pglite"] },
+        path: { type: "string", minLength: 1 },
+      },
+      if: { properties: { backend: { not: { const: "memory" } } } },
+      then: { required: ["backend", "path"] },
+    },
+    vfs: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        maxBytes: { type: "integer", minimum: 0 },
+        maxFiles: { type: "integer", minimum: 0 },
+        maxDirectories: { type: "integer", minimum: 0 },
+        maxFileBytes: { type: "integer", minimum: 0 },
+        hostRoots: stringList,
+      },
+    },
+    algo: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        maxInstances: { type: "integer", minimum: 1 },
+        maxItems: { type: "integer", minimum: 1 },
+        idleTimeout: { type: "integer", minimum: 0 },
+      },
+    },
+    databases: {
+      type: "object",
+      propertyNames: { pattern: "^[A-Za-z0-9_.-]+$" },
+      additionalProperties: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          driver: { type: "string", enum: ["postgres", "mysql"] },
+          url: { type: "string", minLength: 1 },
+          urlEnv: { type: "string", minLength: 1 },
+          host: { type: "string", minLength: 1 },
+          port: { type: "integer", minimum: 1, maximum: 65535 },
+          database: { type: "string", minLength: 1 },
+          user: { type: "string", minLength: 1 },
+          password: { type: "string" },
+          poolSize: { type: "integer", minimum: 1 },
+          idleTimeout: { type: "integer", minimum: 0 },
+          readOnly: { type: "boolean" },
+        },
+      },
+    },
+    env: {
+      type: "object",
+      additionalProperties: { type: "string" },
+    },
+  },
+};
+
+/**
+ * Thrown when a config file cannot be read, parsed or validated
+ */
+export class ConfigError extends Error {
+  readonly path: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(path: string, message: string, issues: ValidationIssue[] = [], cause?: unknown) {
+    super(`Invalid config ${path}: ${message}`, cause !== undefined ? { cause } : undefined);
+    this.name = "ConfigError";
+    this.path = path;
+    this.issues = issues;
+  }
+}
+
+const validateConfig = new Ajv({ strict: false, allErrors: true }).compile(CONFIG_SCHEMA);
+
+/**
+ * Validate an already-parsed config object.
+ *
+ * @param source - File path used in error messages
+ * @throws ConfigError listing every invalid field
+ */
+export function parseConfig(data: unknown, source = "<inline>"): ServerConfig {
+  if (data === null || data === undefined) return {};
+  if (!validateConfig(data)) {
+    const issues = (validateConfig.errors ?? []).map((error) => {
+      const issue = toValidationIssue(error);
+      return issue.keyword === "additionalProperties"
+        ? { ...issue, message: "is not a recognized option" }
+        : issue;
+    });
+    throw new ConfigError(
+      source,
+      issues.map((i) => `${i.field || "(root)"} ${i.message}`).join("; "),
+      issues,
+    );
+  }
+  return data as ServerConfig;
+}
+
+/**
+ * Read and validate a config file. `.json` files are parsed as JSON,
+ * everything else as YAML.
+ *
+ * @throws ConfigError if the file is missing, malformed or invalid
+ */
+export async function loadConfig(path: string): Promise<ServerConfig> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (error) {
+    const reason = error instanceof Deno.errors.NotFound ? "file not found" : String(error);
+    throw new ConfigError(path, reason, [], error);
+  }
+
+  let data: unknown;
+  try {
+    data = path.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(path, `parse error: ${reason}`, [], error);
+  }
+  return parseConfig(data, path);
+}
+
+/**
+ * Set each variable in `env` that is not already defined in the process
+ * environment. Returns the names that were applied.
+ */
+export function applyEnvDefaults(env: Record<string, string> | undefined): string[] {
+  const applied: string[] = [];
+  for (const [name, value] of Object.entries(env ?? {})) {
+    if (Deno.env.get(name) === undefined) {
+      Deno.env.set(name, value);
+      applied.push(name);
+    }
+  }
+  return applied;
+}
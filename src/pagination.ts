@@ -0,0 +1,286 @@
+/**
+ * Result Pagination
+ *
+ * Keeps tool results within a byte/item budget so a single call (git_log,
+ * kubectl_get, sqlite_query, ...) cannot flood the model's context. An
+ * oversized result is cut down to its first page and marked with `_page`;
+ * the full result stays in memory so `result_page` can return the following
+ * pages from the opaque `nextCursor`.
+ *
+ * What gets paged is the result itself when it is an array or string, or
+ * else its largest array/string property (e.g. `commits`, `rows`, `logs`),
+ * looking into nested objects too (`data.rows`). Other results, and results
+ * whose remaining properties alone exceed the budget, are paged as their
+ * JSON text.
+ *
+ * @module lib/std/src/pagination
+ */
+
+import { READ_ONLY } from "./tools/annotations.ts";
+import { ToolError } from "./tools/errors.ts";
+import type { MiniTool } from "./tools/types.ts";
+
+/** Result budget for MiniToolsClient */
+export interface PaginationOptions {
+  /** Maximum serialized size of a result in bytes */
+  maxBytes: number;
+  /** Maximum number of array items per page (default: unlimited) */
+  maxItems?: number;
+  /** Stored results kept for continuation (default: 50) */
+  maxStored?: number;
+  /** How long a cursor stays valid, in ms (default: 10 minutes) */
+  ttl?: number;
+}
+
+/** Marker added to a result that was cut down to one page */
+export interface PageInfo {
+  /** Always true: this is one page of a larger result */
+  truncated: boolean;
+  /**
+   * Property that was paged, as a dotted path when nested, or undefined
+   * when the whole result was
+   */
+  field?: string;
+  /** Index of the first item (or character) in this page */
+  offset: number;
+  /** Items (or characters) in this page */
+  count: number;
+  /** Items (or characters) in the full result */
+  total: number;
+  /** Pass to result_page for the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/** Name of the continuation tool */
+export const RESULT_PAGE_TOOL = "result_page";
+
+const encoder = new TextEncoder();
+const byteLength = (value: unknown) => encoder.encode(JSON.stringify(value) ?? "").length;
+
+/** Room left in each page for the `_page` marker */
+const MARKER_BYTES = 256;
+
+/** The part of a result that gets paged */
+interface Target {
+  data: unknown[] | string;
+  /** Keys leading from the result to `data` */
+  path?: string[];
+  /** Everything except `data`; undefined when the result is `data` itself */
+  rest?: Record<string, unknown>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Find the largest array/string property at any depth of nested objects */
+function largestProperty(
+  value: Record<string, unknown>,
+  path: string[] = [],
+): { path: string[]; size: number } | undefined {
+  let best: { path: string[]; size: number } | undefined;
+  for (const [key, child] of Object.entries(value)) {
+    const candidate = isPlainObject(child)
+      ? largestProperty(child, [...path, key])
+      : Array.isArray(child) || typeof child === "string"
+      ? { path: [...path, key], size: byteLength(child) }
+      : undefined;
+    if (candidate && (!best || candidate.size > best.size)) best = candidate;
+  }
+  return best;
+}
+
+/** `value` without the property at `path`, copying only the objects along it */
+function withoutPath(value: Record<string, unknown>, path: string[]): Record<string, unknown> {
+  const [key, ...tail] = path;
+  if (tail.length === 0) {
+    const { [key]: _removed, ...rest } = value;
+    return rest;
+  }
+  return { ...value, [key]: withoutPath(value[key] as Record<string, unknown>, tail) };
+}
+
+/** `value` with the property at `path` set to `data` */
+function withPath(
+  value: Record<string, unknown>,
+  path: string[],
+  data: unknown,
+): Record<string, unknown> {
+  const [key, ...tail] = path;
+  if (tail.length === 0) return { ...value, [key]: data };
+  return { ...value, [key]: withPath(value[key] as Record<string, unknown>, tail, data) };
+}
+
+function findTarget(result: unknown, maxBytes: number): Target {
+  if (Array.isArray(result) || typeof result === "string") {
+    return { data: result };
+  }
+  if (isPlainObject(result)) {
+    const largest = largestProperty(result);
+    if (largest) {
+      const rest = withoutPath(result, largest.path);
+      // Paging one property is no use when the rest is over budget already
+      if (byteLength(rest) + MARKER_BYTES < maxBytes) {
+        let data: unknown = result;
+        for (const key of largest.path) data = (data as Record<string, unknown>)[key];
+        return { data: data as unknown[] | string, path: largest.path, rest };
+      }
+    }
+  }
+  return { data: JSON.stringify(result) ?? "" };
+}
+
+/** Take items from `offset` until the byte or item budget is used up (at least one) */
+function sliceItems(items: unknown[], offset: number, budget: number, maxItems: number): unknown[] {
+  const page: unknown[] = [];
+  let used = 2;
+  for (let i = offset; i < items.length && page.length < maxItems; i++) {
+    const size = byteLength(items[i]) + 1;
+    if (page.length > 0 && used + size > budget) break;
+    page.push(items[i]);
+    used += size;
+  }
+  return page;
+}
+
+/** Take text from `offset` within the byte budget, preferring to end on a line break */
+function sliceText(text: string, offset: number, budget: number): string {
+  let end = Math.min(text.length, offset + Math.max(budget, 1));
+  let size = byteLength(text.slice(offset, end));
+  while (size > budget && end > offset + 1) {
+    end = Math.max(offset + 1, end - Math.ceil((size - budget) / 3));
+    size = byteLength(text.slice(offset, end));
+  }
+  if (end < text.length) {
+    // Do not split a surrogate pair; prefer a line boundary in the second half
+    if (/[\uD800-\uDBFF]/.test(text[end - 1]) && end > offset + 1) end--;
+    const newline = text.lastIndexOf("\n", end - 1);
+    if (newline >= offset + (end - offset) / 2) end = newline + 1;
+  }
+  return text.slice(offset, end);
+}
+
+/**
+ * Pages oversized results and serves continuation pages
+ */
+export class ResultPager {
+  private readonly maxBytes: number;
+  private readonly maxItems: number;
+  private readonly maxStored: number;
+  private readonly ttl: number;
+  private stored = new Map<string, { target: Target; expires: number }>();
+
+  constructor(options: PaginationOptions) {
+    this.maxBytes = options.maxBytes;
+    this.maxItems = options.maxItems ?? Infinity;
+    this.maxStored = options.maxStored ?? 50;
+    this.ttl = options.ttl ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * Return `result` unchanged if it fits the budget, otherwise its first page
+   */
+  page(result: unknown): unknown {
+    if (result === undefined || result === null) return result;
+    const target = findTarget(result, this.maxBytes);
+    const fitsItems = !Array.isArray(target.data) || target.data.length <= this.maxItems;
+    if (fitsItems && byteLength(result) <= this.maxBytes) return result;
+    return this.build(target, 0);
+  }
+
+  /**
+   * Return the page a cursor points to
+   *
+   * @throws ToolError INVALID_ARGUMENT for a malformed cursor or one whose
+   *   offset is out of range, NOT_FOUND if the stored result has expired or
+   *   been evicted
+   */
+  next(cursor: string): unknown {
+    let id: unknown;
+    let offset: unknown;
+    try {
+      ({ id, offset } = JSON.parse(atob(cursor)));
+    } catch {
+      throw new ToolError("INVALID_ARGUMENT", "Malformed cursor");
+    }
+    if (typeof id !== "string" || !Number.isSafeInteger(offset) || (offset as number) < 0) {
+      throw new ToolError("INVALID_ARGUMENT", "Malformed cursor");
+    }
+    this.evictExpired();
+    const entry = this.stored.get(id);
+    if (!entry) {
+      throw new ToolError("NOT_FOUND", "Cursor expired or unknown; call the tool again");
+    }
+    if ((offset as number) >= entry.target.data.length) {
+      throw new ToolError("INVALID_ARGUMENT", "Cursor offset is past the end of the result", {
+        details: { offset, total: entry.target.data.length },
+      });
+    }
+    return this.build(entry.target, offset as number, id);
+  }
+
+  /**
+   * The `result_page` tool, bound to this pager
+   */
+  tool(): MiniTool {
+    return {
+      name: RESULT_PAGE_TOOL,
+      description:
+        "Fetch the next page of a tool result that was truncated to fit the size budget. Pass the nextCursor from the truncated result's _page marker. Keywords: next page, continue, pagination, truncated result, cursor.",
+      category: "util",
+      annotations: READ_ONLY,
+      inputSchema: {
+        type: "object",
+        properties: {
+          cursor: { type: "string", description: "nextCursor from a truncated result's _page" },
+        },
+        required: ["cursor"],
+      },
+      handler: ({ cursor }) => this.next(cursor as string),
+    };
+  }
+
+  private build(target: Target, offset: number, id?: string): unknown {
+    const field = target.path?.join(".");
+    const key = target.path?.[target.path.length - 1];
+    const overhead = target.rest ? byteLength(target.rest) + (key?.length ?? 0) + 4 : 0;
+    const budget = Math.max(this.maxBytes - overhead - MARKER_BYTES, 1);
+    const page = Array.isArray(target.data)
+      ? sliceItems(target.data, offset, budget, this.maxItems)
+      : sliceText(target.data, offset, budget);
+
+    const next = offset + page.length;
+    const info: PageInfo = {
+      truncated: true,
+      ...(field !== undefined && { field }),
+      offset,
+      count: page.length,
+      total: target.data.length,
+    };
+    if (next < target.data.length) {
+      info.nextCursor = btoa(JSON.stringify({ id: id ?? this.store(target), offset: next }));
+    }
+
+    if (target.rest) {
+      return { ...withPath(target.rest, target.path!, page), _page: info };
+    }
+    return Array.isArray(page) ? { items: page, _page: info } : { text: page, _page: info };
+  }
+
+  private store(target: Target): string {
+    this.evictExpired();
+    while (this.stored.size >= this.maxStored) {
+      this.stored.delete(this.stored.keys().next().value!);
+    }
+    const id = crypto.randomUUID();
+    this.stored.set(id, { target, expires: Date.now() + this.ttl });
+    return id;
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.stored) {
+      if (entry.expires <= now) this.stored.delete(id);
+    }
+  }
+}
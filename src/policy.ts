@@ -0,0 +1,57 @@
+/**
+ * Tool Policy
+ *
+ * Narrows the exposed tool set by name patterns and annotations, on top of
+ * category filtering. Patterns are globs over tool names where `*` matches
+ * any run of characters and `?` a single character.
+ *
+ * @module lib/std/src/policy
+ */
+
+import type { MiniTool } from "./tools/types.ts";
+
+/** Which tools a client or server exposes */
+export interface ToolPolicy {
+  /** Only expose tools matching at least one pattern (e.g. ["git_*", "docker_ps"]) */
+  allow?: string[];
+  /** Never expose tools matching any pattern; takes precedence over allow */
+  deny?: string[];
+  /** Only expose tools annotated with readOnlyHint: true */
+  readOnly?: boolean;
+}
+
+/** Convert a tool-name glob to an anchored regular expression */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${source}$`);
+}
+
+function compile(patterns: string[] | undefined): RegExp[] | undefined {
+  const cleaned = patterns?.map((p) => p.trim()).filter(Boolean);
+  return cleaned?.length ? cleaned.map(globToRegExp) : undefined;
+}
+
+/**
+ * Build a predicate that reports whether a tool passes the policy
+ */
+export function createToolFilter(policy: ToolPolicy): (tool: MiniTool) => boolean {
+  const allow = compile(policy.allow);
+  const deny = compile(policy.deny);
+
+  return (tool) => {
+    if (policy.readOnly && tool.annotations?.readOnlyHint !== true) return false;
+    if (deny?.some((re) => re.test(tool.name))) return false;
+    if (allow && !allow.some((re) => re.test(tool.name))) return false;
+    return true;
+  };
+}
+
+/**
+ * Return the tools that pass the policy
+ */
+export function applyToolPolicy(tools: MiniTool[], policy: ToolPolicy): MiniTool[] {
+  return tools.filter(createToolFilter(policy));
+}
@@ -0,0 +1,123 @@
+/**
+ * Resource subscriptions
+ *
+ * Tracks the resource URIs clients subscribed to (resources/subscribe) so
+ * server.ts only sends notifications/resources/updated for those. A
+ * subscription to a directory-like URI also covers everything below it:
+ * vfs:///docs covers vfs:///docs/a.txt.
+ *
+ * @module lib/std/src/resources
+ */
+
+import { toToolError } from "./tools/errors.ts";
+import type { ResourceContents, ResourceInfo, ResourceProvider } from "./tools/types.ts";
+
+/** Subscribed resource URIs, counted per subscriber */
+export class ResourceSubscriptions {
+  private counts = new Map<string, number>();
+
+  /** Number of distinct subscribed URIs */
+  get size(): number {
+    return this.counts.size;
+  }
+
+  subscribe(uri: string): void {
+    this.counts.set(uri, (this.counts.get(uri) ?? 0) + 1);
+  }
+
+  /** Drop one subscription to `uri`; the URI stays covered while others remain */
+  unsubscribe(uri: string): void {
+    const count = this.counts.get(uri) ?? 0;
+    if (count <= 1) this.counts.delete(uri);
+    else this.counts.set(uri, count - 1);
+  }
+
+  /** Whether `uri` or one of its ancestors is subscribed */
+  covers(uri: string): boolean {
+    const root = uri.indexOf("://") + 3;
+    for (let end = uri.length; end >= root; end = uri.lastIndexOf("/", end - 1)) {
+      const candidate = uri.slice(0, end);
+      if (this.counts.has(candidate) || this.counts.has(candidate + "/")) return true;
+    }
+    return false;
+  }
+}
+
+/** Resource-template, subscription and update hooks the server framework must provide */
+export interface ResourceHost {
+  registerResourceTemplate(
+    template: { uriTemplate: string; name: string; description: string },
+    handlers: {
+      list: () => Promise<ResourceInfo[]>;
+      read: (uri: URL | string) => Promise<ResourceContents>;
+    },
+  ): void;
+  onResourceSubscription(handlers: {
+    subscribe: (uri: string) => void;
+    unsubscribe: (uri: string) => void;
+  }): void;
+  sendResourceUpdated(params: { uri: string }): Promise<void>;
+}
+
+const RESOURCE_HOST_METHODS = [
+  "registerResourceTemplate",
+  "onResourceSubscription",
+  "sendResourceUpdated",
+] as const;
+
+/** ResourceHost methods that `server` does not implement */
+function missingHostMethods(server: unknown): string[] {
+  return RESOURCE_HOST_METHODS.filter(
+    (method) => typeof (server as Record<string, unknown>)?.[method] !== "function",
+  );
+}
+
+/**
+ * Register resource templates (vfs://, state://) on the server and send
+ * notifications/resources/updated for changed URIs that a client subscribed
+ * to (or to an ancestor of). On a framework version that is not a
+ * ResourceHost, the resources are skipped with a warning naming the
+ * missing methods.
+ */
+export function registerResourceProviders(server: unknown, providers: ResourceProvider[]): void {
+  if (providers.length === 0) return;
+  const missing = missingHostMethods(server);
+  if (missing.length > 0) {
+    console.error(
+      `[mcp-std] Warning: server framework does not support resource templates and updates ` +
+        `(missing: ${missing.join(", ")}); skipping ` +
+        providers.map((p) => p.uriTemplate).join(", "),
+    );
+    return;
+  }
+  const host = server as ResourceHost;
+
+  const subscriptions = new ResourceSubscriptions();
+  host.onResourceSubscription({
+    subscribe: (uri) => subscriptions.subscribe(uri),
+    unsubscribe: (uri) => subscriptions.unsubscribe(uri),
+  });
+
+  for (const provider of providers) {
+    host.registerResourceTemplate(
+      { uriTemplate: provider.uriTemplate, name: provider.name, description: provider.description },
+      {
+        list: async () => await provider.list(),
+        read: async (uri) => {
+          try {
+            return await provider.read(String(uri));
+          } catch (error) {
+            const toolError = toToolError(error);
+            throw new Error(JSON.stringify(toolError.toJSON()), { cause: toolError });
+          }
+        },
+      },
+    );
+    provider.watch((uri) => {
+      if (!subscriptions.covers(uri)) return;
+      host.sendResourceUpdated({ uri })
+        .catch((error) => console.error(`[mcp-std] Failed to send resource update: ${error}`));
+    });
+    console.error(`[mcp-std] Registered resource template: ${provider.uriTemplate}`);
+  }
+}
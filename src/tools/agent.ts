@@ -8,6 +8,8 @@
  * @module lib/std/agent
  */
 
+import { DESTRUCTIVE_OPEN_WORLD, READ_ONLY_OPEN_WORLD } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 // =============================================================================
@@ -58,7 +60,8 @@ export function setSamplingClient(client: SamplingClient): void {
  */
 function getSamplingClient(): SamplingClient {
   if (!_samplingClient) {
-    throw new Error(
+    throw new ToolError(
+      "UPSTREAM_ERROR",
       "Sampling client not available. " +
         "Configure SAMPLING_PROVIDER in mcp-servers.json or use Claude Code.",
     );
@@ -203,7 +206,7 @@ async function runAnthropicAgenticLoop(params: {
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Anthropic API error: ${response.status} ${error}`);
+      throw new ToolError("UPSTREAM_ERROR", `Anthropic API error: ${response.status} ${error}`);
     }
 
     const data = await response.json();
@@ -307,7 +310,7 @@ async function runOpenAIAgenticLoop(params: {
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${error}`);
+      throw new ToolError("UPSTREAM_ERROR", `OpenAI API error: ${response.status} ${error}`);
     }
 
     const data = await response.json();
@@ -400,7 +403,7 @@ export function createAgenticSamplingClient(): SamplingClient {
               messages: params.messages,
             }),
           });
-          if (!response.ok) throw new Error(`Anthropic API error: ${response.status}`);
+          if (!response.ok) throw new ToolError("UPSTREAM_ERROR", `Anthropic API error: ${response.status}`);
           const data = await response.json();
           return { content: data.content, stopReason: data.stop_reason === "end_turn" ? "end_turn" : "max_tokens" };
         }
@@ -414,14 +417,14 @@ export function createAgenticSamplingClient(): SamplingClient {
               messages: params.messages,
             }),
           });
-          if (!response.ok) throw new Error(`OpenAI API error: ${response.status}`);
+          if (!response.ok) throw new ToolError("UPSTREAM_ERROR", `OpenAI API error: ${response.status}`);
           const data = await response.json();
           return {
             content: [{ type: "text", text: data.choices[0].message.content }],
             stopReason: data.choices[0].finish_reason === "stop" ? "end_turn" : "max_tokens",
           };
         }
-        throw new Error("No LLM API key configured. Set ANTHROPIC_API_KEY or OPENAI_API_KEY.");
+        throw new ToolError("PERMISSION_DENIED", "No LLM API key configured. Set ANTHROPIC_API_KEY or OPENAI_API_KEY.");
       }
 
       // Tools requested - run agentic loop
@@ -445,7 +448,7 @@ export function createAgenticSamplingClient(): SamplingClient {
         });
       }
 
-      throw new Error("No LLM API key configured. Set ANTHROPIC_API_KEY or OPENAI_API_KEY.");
+      throw new ToolError("PERMISSION_DENIED", "No LLM API key configured. Set ANTHROPIC_API_KEY or OPENAI_API_KEY.");
     },
   };
 }
@@ -499,6 +502,7 @@ export const agentTools: MiniTool[] = [
     description:
       "Delegate a complex sub-task to an autonomous agent. The agent can make multiple decisions and call tools to accomplish the goal. Use for multi-step tasks requiring reasoning and tool use. The MCP client handles the agentic loop and tool execution. Keywords: agent, delegate, autonomous, sub-task, agentic, loop, multi-step, spawn, subprocess, llm, ai, assistant, worker, task, orchestrate, subagent.",
     category: "agent" as any,
+    annotations: DESTRUCTIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -605,6 +609,7 @@ ${
     description:
       "Ask an LLM to make a decision based on context. Returns a boolean or choice from options. Use for conditional branching based on complex criteria that can't be expressed in simple code. Keywords: agent, decide, decision, condition, evaluate, branch, if-else, choose, llm, ai, boolean, yes-no, choice, select, pick.",
     category: "agent" as any,
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -674,6 +679,7 @@ Respond with ONLY your choice, no explanation.`;
     description:
       "Analyze data or content and return structured insights. Use for understanding patterns, identifying issues, or generating reports. Keywords: agent, analyze, analysis, insights, patterns, review, examine, assess, llm, ai, understand, inspect, audit, report.",
     category: "agent" as any,
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -728,6 +734,7 @@ Provide your analysis in ${format} format.${
     description:
       "Extract structured data from unstructured text or content. Define a schema and the LLM will populate it. Keywords: agent, extract, parse, structure, schema, entities, fields, data, llm, ai, scrape, ner, named-entity, json, populate.",
     category: "agent" as any,
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -781,6 +788,7 @@ ${JSON.stringify(schema, null, 2)}`;
     description:
       "Classify content into predefined categories. Returns the category and confidence. Keywords: agent, classify, categorize, label, tag, type, sentiment, intent, llm, ai, category, bucket, sort, triage.",
     category: "agent" as any,
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -829,6 +837,7 @@ Respond with JSON: { "categories": [...], "confidence": 0.0-1.0, "reasoning": ".
     description:
       "Summarize long content into a shorter form. Control length and style. Keywords: agent, summarize, summary, condense, brief, tldr, abstract, digest, llm, ai, shorten, compress, synopsis.",
     category: "agent" as any,
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -891,6 +900,7 @@ ${content}`;
     description:
       "Generate content based on instructions. Can generate code, text, documentation, etc. Keywords: agent, generate, create, write, compose, produce, synthesize, llm, ai, content, text, code, docs, author.",
     category: "agent" as any,
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -967,6 +977,7 @@ ${content}`;
     description:
       "Compare multiple items and rank them or pick the best. Use for selecting between options based on criteria. Keywords: agent, compare, rank, best, winner, evaluate, choose, select, llm, ai, versus, pros-cons, tradeoff, decision.",
     category: "agent" as any,
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -1034,6 +1045,7 @@ Respond with JSON: { "result": ..., "reasoning": "..." }`;
       "Takes a user message (with optional history and context), calls sampling, returns a response. " +
       "Keywords: agent, help, chat, conversation, dialogue, assistant, talk, discuss, question, support, sampling, multi-turn.",
     category: "agent" as any,
+    annotations: READ_ONLY_OPEN_WORLD,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/agent-chat",
@@ -1,7 +1,9 @@
 /**
  * Algorithm and data structure tools
  *
- * Uses mnemonist for advanced data structures.
+ * Uses mnemonist for advanced data structures. Instances live in an
+ * AlgoStore (see algostore.ts) that caps their number and size, evicts idle
+ * ones, and serializes them for algo_snapshot/algo_restore.
  *
  * @module lib/std/algo
  */
@@ -12,12 +14,9 @@ import {
   CircularBuffer,
   DefaultMap,
   FibonacciHeap,
-  Heap,
   LinkedList,
   LRUCache,
   LRUMap,
-  MaxHeap,
-  MinHeap,
   MultiSet,
   Queue,
   Stack,
@@ -25,10 +24,119 @@ import {
   SuffixArray,
   Trie,
 } from "mnemonist";
-import type { MiniTool } from "./types.ts";
+import {
+  ADDITIVE,
+  ADDITIVE_IDEMPOTENT,
+  DESTRUCTIVE,
+  DESTRUCTIVE_IDEMPOTENT,
+  READ_ONLY,
+} from "./annotations.ts";
+import {
+  type AlgoKinds,
+  type AlgoLimits,
+  type AlgoSnapshot,
+  AlgoStore,
+  createHeap,
+} from "./algostore.ts";
+import { ToolError } from "./errors.ts";
+import {
+  connectedComponents,
+  Graph,
+  type GraphInput,
+  graphInputFrom,
+  minimumSpanningTree,
+  pageRank,
+  parseEdges,
+  shortestPath,
+  stronglyConnectedComponents,
+  toDot,
+  toMermaid,
+  topologicalSort,
+} from "./graph.ts";
+import type { MiniTool, ToolContext } from "./types.ts";
 
 // Instances for stateful operations
-const instances = new Map<string, unknown>();
+const algoStore = new AlgoStore();
+
+/** Change the instance limits (called by server.ts from the `algo` config) */
+export function setAlgoLimits(limits: Partial<AlgoLimits>): void {
+  algoStore.setLimits(limits);
+}
+
+/**
+ * Queue or stack `id` once it has items, waiting at most `timeout` seconds
+ * for another call to push some (and never past the call's own deadline)
+ */
+async function waitForItems<K extends "queue" | "stack">(
+  id: string,
+  kind: K,
+  timeout: number,
+  ctx?: ToolContext,
+): Promise<AlgoKinds[K]> {
+  let waitMs = timeout * 1000;
+  if (ctx?.deadline) waitMs = Math.max(0, Math.min(waitMs, ctx.deadline - Date.now() - 100));
+  const until = Date.now() + waitMs;
+  let structure = algoStore.get(id, kind);
+  while (structure.size === 0 && Date.now() < until) {
+    await algoStore.waitForChange(id, until - Date.now(), ctx?.signal);
+    structure = algoStore.get(id, kind);
+  }
+  return structure;
+}
+
+/** Start positions of `pattern` in the text of a suffix array, ascending */
+function suffixSearch(sa: SuffixArray, pattern: string): number[] {
+  const text = sa.string as string;
+  const suffixes = sa.array;
+  // Suffixes starting with the pattern are adjacent in sorted order: find the first one
+  let lo = 0;
+  let hi = suffixes.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (text.slice(suffixes[mid], suffixes[mid] + pattern.length) < pattern) lo = mid + 1;
+    else hi = mid;
+  }
+  const positions: number[] = [];
+  for (let i = lo; i < suffixes.length && text.startsWith(pattern, suffixes[i]); i++) {
+    positions.push(suffixes[i]);
+  }
+  return positions.sort((a, b) => a - b);
+}
+
+/** Nodes and edges from the `nodes`, `edges` and `data` arguments of the graph tools */
+function graphInput(args: Record<string, unknown>): GraphInput {
+  const nodes = ((args.nodes as unknown[]) ?? []).map(String);
+  const edges = parseEdges((args.edges as unknown[]) ?? []);
+  if (args.data) {
+    const imported = graphInputFrom(args.data as Record<string, unknown>);
+    nodes.push(...imported.nodes);
+    edges.push(...imported.edges);
+  }
+  return { nodes, edges };
+}
+
+const GRAPH_INPUT_PROPERTIES = {
+  nodes: { type: "array", items: { type: "string" }, description: "Nodes (edges add theirs)" },
+  edges: {
+    type: "array",
+    description: "Edges as [from, to, weight?] or { from, to, weight? } (weight default: 1)",
+  },
+  data: {
+    type: "object",
+    description:
+      "Result of psql_erd (foreign keys), git_graph (commit parents) or dependency_analyze (dependencies) to take edges from",
+  },
+};
+
+const POP_PROPERTIES = {
+  count: { type: "number", minimum: 1, description: "Number of items to pop (default: 1)" },
+  timeout: {
+    type: "number",
+    minimum: 0,
+    maximum: 300,
+    description: "Seconds to wait for an item when empty (default: 0, return at once)",
+  },
+};
 
 export const algoTools: MiniTool[] = [
   // Priority Queue / Heap operations
@@ -37,6 +145,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Create a min-heap or max-heap data structure (priority queue). Efficiently get minimum/maximum element. Use for task scheduling, event processing, dijkstra's algorithm, or top-K problems. Keywords: heap, priority queue, min heap, max heap, priority scheduling.",
     category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -47,13 +156,8 @@ export const algoTools: MiniTool[] = [
       required: ["id", "type"],
     },
     handler: ({ id, type, items }) => {
-      const heap = type === "min" ? new MinHeap<unknown>() : new MaxHeap<unknown>();
-      if (items) {
-        for (const item of items as unknown[]) {
-          heap.push(item);
-        }
-      }
-      instances.set(id as string, heap);
+      const heap = createHeap(type === "max" ? "max" : "min", (items as unknown[]) ?? []);
+      algoStore.create(id as string, "heap", heap);
       return { created: id, size: heap.size };
     },
   },
@@ -62,6 +166,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Add items to an existing heap/priority queue. Maintains heap property automatically. Use to insert new elements for processing in priority order. Keywords: heap push, enqueue priority, add to heap.",
     category: "algo",
+    annotations: ADDITIVE,
     inputSchema: {
       type: "object",
       properties: {
@@ -71,8 +176,7 @@ export const algoTools: MiniTool[] = [
       required: ["id", "items"],
     },
     handler: ({ id, items }) => {
-      const heap = instances.get(id as string) as Heap<unknown>;
-      if (!heap) return { error: "Heap not found" };
+      const heap = algoStore.get(id as string, "heap", (items as unknown[]).length);
       for (const item of items as unknown[]) {
         heap.push(item);
       }
@@ -84,6 +188,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Remove and return the top element (min or max) from heap. Extract highest/lowest priority item. Use to process elements in order or get next scheduled task. Keywords: heap pop, dequeue, extract min max, get priority item.",
     category: "algo",
+    annotations: DESTRUCTIVE,
     inputSchema: {
       type: "object",
       properties: {
@@ -93,8 +198,7 @@ export const algoTools: MiniTool[] = [
       required: ["id"],
     },
     handler: ({ id, count = 1 }) => {
-      const heap = instances.get(id as string) as Heap<unknown>;
-      if (!heap) return { error: "Heap not found" };
+      const heap = algoStore.get(id as string, "heap");
       const items: unknown[] = [];
       for (let i = 0; i < (count as number) && heap.size > 0; i++) {
         items.push(heap.pop());
@@ -109,6 +213,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Create a trie (prefix tree) for efficient string operations. Store words for fast prefix search, autocomplete, or spell checking. O(k) lookup where k is word length. Keywords: trie, prefix tree, autocomplete, word search, dictionary structure.",
     category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -124,7 +229,7 @@ export const algoTools: MiniTool[] = [
           trie.add(word);
         }
       }
-      instances.set(id as string, trie);
+      algoStore.create(id as string, "trie", trie);
       return { created: id, size: trie.size };
     },
   },
@@ -133,6 +238,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Add words to an existing trie. Build up your prefix tree with new entries. Use for growing dictionaries or adding searchable terms. Keywords: trie insert, add word, dictionary add.",
     category: "algo",
+    annotations: ADDITIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -142,8 +248,7 @@ export const algoTools: MiniTool[] = [
       required: ["id", "words"],
     },
     handler: ({ id, words }) => {
-      const trie = instances.get(id as string) as Trie<string>;
-      if (!trie) return { error: "Trie not found" };
+      const trie = algoStore.get(id as string, "trie", (words as string[]).length);
       for (const word of words as string[]) {
         trie.add(word);
       }
@@ -155,6 +260,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Find all words matching a prefix in trie. Power autocomplete suggestions, search-as-you-type, or prefix matching. Returns all words starting with the given prefix. Keywords: trie search, prefix match, autocomplete, find by prefix.",
     category: "algo",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -164,8 +270,7 @@ export const algoTools: MiniTool[] = [
       required: ["id", "prefix"],
     },
     handler: ({ id, prefix }) => {
-      const trie = instances.get(id as string) as Trie<string>;
-      if (!trie) return { error: "Trie not found" };
+      const trie = algoStore.get(id as string, "trie");
       return { matches: trie.find(prefix as string) };
     },
   },
@@ -176,6 +281,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Create an LRU (Least Recently Used) cache with fixed capacity. Automatically evicts oldest unused entries when full. Essential for caching, memoization, or memory-bounded storage. Keywords: LRU cache, least recently used, cache eviction, memoization cache.",
     category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -185,8 +291,9 @@ export const algoTools: MiniTool[] = [
       required: ["id"],
     },
     handler: ({ id, capacity = 100 }) => {
+      algoStore.checkItems(id as string, "lru", capacity as number);
       const lru = new LRUCache<string, unknown>(capacity as number);
-      instances.set(id as string, lru);
+      algoStore.create(id as string, "lru", lru);
       return { created: id, capacity };
     },
   },
@@ -195,6 +302,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Store a key-value pair in LRU cache. Entry becomes most recently used. May evict oldest entry if at capacity. Keywords: cache set, store in cache, LRU put.",
     category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -205,8 +313,7 @@ export const algoTools: MiniTool[] = [
       required: ["id", "key", "value"],
     },
     handler: ({ id, key, value }) => {
-      const lru = instances.get(id as string) as LRUCache<string, unknown>;
-      if (!lru) return { error: "LRU cache not found" };
+      const lru = algoStore.get(id as string, "lru");
       lru.set(key as string, value);
       return { size: lru.size };
     },
@@ -216,6 +323,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Retrieve value from LRU cache by key. Marks entry as recently used. Returns undefined if not found or evicted. Keywords: cache get, retrieve from cache, LRU lookup.",
     category: "algo",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -225,8 +333,7 @@ export const algoTools: MiniTool[] = [
       required: ["id", "key"],
     },
     handler: ({ id, key }) => {
-      const lru = instances.get(id as string) as LRUCache<string, unknown>;
-      if (!lru) return { error: "LRU cache not found" };
+      const lru = algoStore.get(id as string, "lru");
       const value = lru.get(key as string);
       return { value, found: value !== undefined };
     },
@@ -238,6 +345,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Create a Bloom filter for memory-efficient probabilistic set membership. May have false positives but never false negatives. Ideal for checking if element was definitely NOT seen. Keywords: bloom filter, probabilistic set, membership test, space efficient.",
     category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -247,8 +355,9 @@ export const algoTools: MiniTool[] = [
       required: ["id"],
     },
     handler: ({ id, capacity = 1000 }) => {
+      algoStore.checkItems(id as string, "bloom", capacity as number);
       const bloom = new BloomFilter(capacity as number);
-      instances.set(id as string, bloom);
+      algoStore.create(id as string, "bloom", bloom);
       return { created: id, capacity };
     },
   },
@@ -257,6 +366,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Add items to Bloom filter. Elements cannot be removed. Use for tracking seen items, duplicate detection, or cache existence checks. Keywords: bloom add, mark as seen, bloom insert.",
     category: "algo",
+    annotations: ADDITIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -266,8 +376,7 @@ export const algoTools: MiniTool[] = [
       required: ["id", "items"],
     },
     handler: ({ id, items }) => {
-      const bloom = instances.get(id as string) as BloomFilter;
-      if (!bloom) return { error: "Bloom filter not found" };
+      const bloom = algoStore.get(id as string, "bloom");
       for (const item of items as string[]) {
         bloom.add(item);
       }
@@ -279,6 +388,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Test if item might exist in Bloom filter. Returns true if 'possibly in set', false if 'definitely not in set'. Use for quick negative checks before expensive lookups. Keywords: bloom test, check membership, exists check.",
     category: "algo",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -288,8 +398,7 @@ export const algoTools: MiniTool[] = [
       required: ["id", "item"],
     },
     handler: ({ id, item }) => {
-      const bloom = instances.get(id as string) as BloomFilter;
-      if (!bloom) return { error: "Bloom filter not found" };
+      const bloom = algoStore.get(id as string, "bloom");
       return { mightExist: bloom.test(item as string) };
     },
   },
@@ -300,6 +409,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Create a circular/ring buffer with fixed capacity. New items overwrite oldest when full. Perfect for sliding windows, recent history, or bounded logging. Keywords: circular buffer, ring buffer, bounded queue, sliding window.",
     category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -309,8 +419,9 @@ export const algoTools: MiniTool[] = [
       required: ["id", "capacity"],
     },
     handler: ({ id, capacity }) => {
+      algoStore.checkItems(id as string, "circular", capacity as number);
       const buffer = new CircularBuffer<unknown>(Array, capacity as number);
-      instances.set(id as string, buffer);
+      algoStore.create(id as string, "circular", buffer);
       return { created: id, capacity };
     },
   },
@@ -319,6 +430,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Add items to circular buffer. Overwrites oldest entries when at capacity. Use for streaming data or fixed-size history. Keywords: ring buffer push, circular add, append to ring.",
     category: "algo",
+    annotations: DESTRUCTIVE,
     inputSchema: {
       type: "object",
       properties: {
@@ -328,8 +440,7 @@ export const algoTools: MiniTool[] = [
       required: ["id", "items"],
     },
     handler: ({ id, items }) => {
-      const buffer = instances.get(id as string) as CircularBuffer<unknown>;
-      if (!buffer) return { error: "Buffer not found" };
+      const buffer = algoStore.get(id as string, "circular");
       for (const item of items as unknown[]) {
         buffer.push(item);
       }
@@ -341,6 +452,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Export circular buffer contents as array in insertion order. Get current state of ring buffer. Use for inspection, serialization, or processing. Keywords: ring buffer export, get buffer contents, circular to array.",
     category: "algo",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -349,8 +461,7 @@ export const algoTools: MiniTool[] = [
       required: ["id"],
     },
     handler: ({ id }) => {
-      const buffer = instances.get(id as string) as CircularBuffer<unknown>;
-      if (!buffer) return { error: "Buffer not found" };
+      const buffer = algoStore.get(id as string, "circular");
       return { items: buffer.toArray(), size: buffer.size };
     },
   },
@@ -361,6 +472,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Create a Union-Find (disjoint set) data structure. Track connected components, detect cycles in graphs. Essential for Kruskal's algorithm, network connectivity, or clustering. Keywords: union find, disjoint set, connected components, cycle detection.",
     category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -370,8 +482,9 @@ export const algoTools: MiniTool[] = [
       required: ["id", "size"],
     },
     handler: ({ id, size }) => {
+      algoStore.checkItems(id as string, "unionfind", size as number);
       const ds = new StaticDisjointSet(size as number);
-      instances.set(id as string, ds);
+      algoStore.create(id as string, "unionfind", ds);
       return { created: id, size };
     },
   },
@@ -380,6 +493,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Merge two elements into the same set/component. Connect nodes in a graph. Use for building connected components or grouping related items. Keywords: union operation, merge sets, connect nodes.",
     category: "algo",
+    annotations: ADDITIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -390,8 +504,7 @@ export const algoTools: MiniTool[] = [
       required: ["id", "a", "b"],
     },
     handler: ({ id, a, b }) => {
-      const ds = instances.get(id as string) as StaticDisjointSet;
-      if (!ds) return { error: "Disjoint set not found" };
+      const ds = algoStore.get(id as string, "unionfind");
       ds.union(a as number, b as number);
       return { dimension: ds.dimension };
     },
@@ -401,6 +514,7 @@ export const algoTools: MiniTool[] = [
     description:
       "Check if two elements belong to the same set/component. Test connectivity between nodes. Use for graph connectivity queries or equivalence class checks. Keywords: find connected, same component, connectivity test.",
     category: "algo",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -411,18 +525,682 @@ export const algoTools: MiniTool[] = [
       required: ["id", "a", "b"],
     },
     handler: ({ id, a, b }) => {
-      const ds = instances.get(id as string) as StaticDisjointSet;
-      if (!ds) return { error: "Disjoint set not found" };
+      const ds = algoStore.get(id as string, "unionfind");
       return { connected: ds.connected(a as number, b as number) };
     },
   },
 
+  // Queue (FIFO) operations
+  {
+    name: "algo_queue_create",
+    description:
+      "Create a FIFO queue. Items come out in the order they were pushed. Use as a work queue shared between agent steps or agents, with algo_queue_pop waiting for new work. Keywords: queue, FIFO, work queue, task queue, job queue, enqueue.",
+    category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Unique identifier" },
+        items: { type: "array", description: "Initial items" },
+      },
+      required: ["id"],
+    },
+    handler: ({ id, items }) => {
+      const queue = new Queue<unknown>();
+      for (const item of (items as unknown[]) ?? []) queue.enqueue(item);
+      algoStore.create(id as string, "queue", queue);
+      return { created: id, size: queue.size };
+    },
+  },
+  {
+    name: "algo_queue_push",
+    description:
+      "Add items to the back of a queue. Wakes callers blocked in algo_queue_pop. Keywords: enqueue, queue push, add job, submit task.",
+    category: "algo",
+    annotations: ADDITIVE,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Queue ID" },
+        items: { type: "array", description: "Items to push" },
+      },
+      required: ["id", "items"],
+    },
+    handler: ({ id, items }) => {
+      const queue = algoStore.get(id as string, "queue", (items as unknown[]).length);
+      for (const item of items as unknown[]) queue.enqueue(item);
+      algoStore.changed(id as string);
+      return { size: queue.size };
+    },
+  },
+  {
+    name: "algo_queue_pop",
+    description:
+      "Remove and return items from the front of a queue. With a timeout, an empty queue blocks until another call pushes items (blocking pop for agent work queues); returns an empty list if none arrive in time. Keywords: dequeue, queue pop, take job, blocking pop, wait for task.",
+    category: "algo",
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Queue ID" },
+        ...POP_PROPERTIES,
+      },
+      required: ["id"],
+    },
+    handler: async ({ id, count = 1, timeout = 0 }, ctx) => {
+      const queue = await waitForItems(id as string, "queue", timeout as number, ctx);
+      const items: unknown[] = [];
+      while (items.length < (count as number) && queue.size > 0) items.push(queue.dequeue());
+      return { items, remaining: queue.size };
+    },
+  },
+  {
+    name: "algo_queue_peek",
+    description:
+      "Look at the items at the front of a queue without removing them. Keywords: queue peek, next job, front of queue.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Queue ID" },
+        count: { type: "number", minimum: 1, description: "Number of items (default: 1)" },
+      },
+      required: ["id"],
+    },
+    handler: ({ id, count = 1 }) => {
+      const queue = algoStore.get(id as string, "queue");
+      return { items: queue.toArray().slice(0, count as number), size: queue.size };
+    },
+  },
+
+  // Stack (LIFO) operations
+  {
+    name: "algo_stack_create",
+    description:
+      "Create a LIFO stack. The last item pushed is the first popped. Use for depth-first work, undo history, or backtracking. Keywords: stack, LIFO, push pop, undo stack, depth first.",
+    category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Unique identifier" },
+        items: { type: "array", description: "Initial items, bottom first" },
+      },
+      required: ["id"],
+    },
+    handler: ({ id, items }) => {
+      const stack = new Stack<unknown>();
+      for (const item of (items as unknown[]) ?? []) stack.push(item);
+      algoStore.create(id as string, "stack", stack);
+      return { created: id, size: stack.size };
+    },
+  },
+  {
+    name: "algo_stack_push",
+    description:
+      "Push items onto a stack (the last one ends up on top). Wakes callers blocked in algo_stack_pop. Keywords: stack push, push item, add to top.",
+    category: "algo",
+    annotations: ADDITIVE,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Stack ID" },
+        items: { type: "array", description: "Items to push" },
+      },
+      required: ["id", "items"],
+    },
+    handler: ({ id, items }) => {
+      const stack = algoStore.get(id as string, "stack", (items as unknown[]).length);
+      for (const item of items as unknown[]) stack.push(item);
+      algoStore.changed(id as string);
+      return { size: stack.size };
+    },
+  },
+  {
+    name: "algo_stack_pop",
+    description:
+      "Remove and return items from the top of a stack. With a timeout, an empty stack blocks until another call pushes items; returns an empty list if none arrive in time. Keywords: stack pop, take top, blocking pop, LIFO pop.",
+    category: "algo",
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Stack ID" },
+        ...POP_PROPERTIES,
+      },
+      required: ["id"],
+    },
+    handler: async ({ id, count = 1, timeout = 0 }, ctx) => {
+      const stack = await waitForItems(id as string, "stack", timeout as number, ctx);
+      const items: unknown[] = [];
+      while (items.length < (count as number) && stack.size > 0) items.push(stack.pop());
+      return { items, remaining: stack.size };
+    },
+  },
+  {
+    name: "algo_stack_peek",
+    description:
+      "Look at the items on top of a stack without removing them, top first. Keywords: stack peek, top of stack.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Stack ID" },
+        count: { type: "number", minimum: 1, description: "Number of items (default: 1)" },
+      },
+      required: ["id"],
+    },
+    handler: ({ id, count = 1 }) => {
+      const stack = algoStore.get(id as string, "stack");
+      return { items: stack.toArray().slice(0, count as number), size: stack.size };
+    },
+  },
+
+  // Multiset operations
+  {
+    name: "algo_multiset_create",
+    description:
+      "Create a multiset (bag) that counts how often each item was added. Use for tallies, frequency counts, votes, or finding the most common values with algo_multiset_top. Keywords: multiset, bag, counter, tally, frequency count, histogram.",
+    category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Unique identifier" },
+        items: { type: "array", items: { type: "string" }, description: "Initial items" },
+      },
+      required: ["id"],
+    },
+    handler: ({ id, items }) => {
+      const set = new MultiSet<string>();
+      for (const item of (items as string[]) ?? []) set.add(item);
+      algoStore.create(id as string, "multiset", set);
+      return { created: id, size: set.size, distinct: set.dimension };
+    },
+  },
+  {
+    name: "algo_multiset_add",
+    description:
+      "Add items to a multiset, each `count` times. Keywords: multiset add, increment count, tally item.",
+    category: "algo",
+    annotations: ADDITIVE,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Multiset ID" },
+        items: { type: "array", items: { type: "string" }, description: "Items to add" },
+        count: { type: "integer", minimum: 1, description: "Times to add each item (default: 1)" },
+      },
+      required: ["id", "items"],
+    },
+    handler: ({ id, items, count = 1 }) => {
+      const set = algoStore.get(id as string, "multiset", (items as string[]).length);
+      for (const item of items as string[]) set.add(item, count as number);
+      return { size: set.size, distinct: set.dimension };
+    },
+  },
+  {
+    name: "algo_multiset_remove",
+    description:
+      "Remove occurrences of items from a multiset (`count` each; items reaching zero are dropped). Keywords: multiset remove, decrement count, untally.",
+    category: "algo",
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Multiset ID" },
+        items: { type: "array", items: { type: "string" }, description: "Items to remove" },
+        count: {
+          type: "integer",
+          minimum: 1,
+          description: "Occurrences to remove per item (default: 1)",
+        },
+      },
+      required: ["id", "items"],
+    },
+    handler: ({ id, items, count = 1 }) => {
+      const set = algoStore.get(id as string, "multiset");
+      for (const item of items as string[]) set.remove(item, count as number);
+      return { size: set.size, distinct: set.dimension };
+    },
+  },
+  {
+    name: "algo_multiset_count",
+    description:
+      "Get how many times an item is in a multiset, and its share of all items. Keywords: multiset count, multiplicity, item frequency, how many times.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Multiset ID" },
+        item: { type: "string", description: "Item to count" },
+      },
+      required: ["id", "item"],
+    },
+    handler: ({ id, item }) => {
+      const set = algoStore.get(id as string, "multiset");
+      const count = set.count(item as string);
+      return { item, count, frequency: set.size > 0 ? count / set.size : 0 };
+    },
+  },
+  {
+    name: "algo_multiset_top",
+    description:
+      "Get the k most frequent items of a multiset with their counts, most frequent first. Use for top-k words, most common errors, or leaderboards. Keywords: top k, most frequent, most common, heavy hitters, ranking.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Multiset ID" },
+        k: { type: "number", minimum: 1, description: "Number of items (default: 10)" },
+      },
+      required: ["id"],
+    },
+    handler: ({ id, k = 10 }) => {
+      const set = algoStore.get(id as string, "multiset");
+      return {
+        top: set.top(k as number).map(([item, count]) => ({ item, count })),
+        size: set.size,
+        distinct: set.dimension,
+      };
+    },
+  },
+
+  // Bidirectional map operations
+  {
+    name: "algo_bimap_create",
+    description:
+      "Create a bidirectional map: a one-to-one mapping that can be looked up by key or by value. Use for ID translation, aliases, or code/name tables. Keywords: bimap, bidirectional map, two-way lookup, inverse map, reverse lookup.",
+    category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Unique identifier" },
+        entries: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: "Initial key-value pairs",
+        },
+      },
+      required: ["id"],
+    },
+    handler: ({ id, entries }) => {
+      const map = new BiMap<string, string>();
+      for (const [key, value] of Object.entries((entries as Record<string, string>) ?? {})) {
+        map.set(key, value);
+      }
+      algoStore.create(id as string, "bimap", map);
+      return { created: id, size: map.size };
+    },
+  },
+  {
+    name: "algo_bimap_set",
+    description:
+      "Set key-value pairs in a bimap. Mappings stay one-to-one: a pair replaces any existing pair with the same key or the same value. Keywords: bimap set, map pair, add mapping.",
+    category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Bimap ID" },
+        entries: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: "Key-value pairs to set",
+        },
+      },
+      required: ["id", "entries"],
+    },
+    handler: ({ id, entries }) => {
+      const pairs = Object.entries(entries as Record<string, string>);
+      const map = algoStore.get(id as string, "bimap", pairs.length);
+      for (const [key, value] of pairs) map.set(key, value);
+      return { size: map.size };
+    },
+  },
+  {
+    name: "algo_bimap_get",
+    description:
+      "Look up a bimap by key (returns the value) or by value (returns the key). Keywords: bimap get, reverse lookup, find key by value, translate id.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Bimap ID" },
+        key: { type: "string", description: "Key to look up" },
+        value: { type: "string", description: "Value to look up (instead of key)" },
+      },
+      required: ["id"],
+    },
+    handler: ({ id, key, value }) => {
+      const map = algoStore.get(id as string, "bimap");
+      if (key !== undefined) {
+        const found = map.get(key as string);
+        return { key, value: found, found: found !== undefined };
+      }
+      if (value === undefined) throw new ToolError("INVALID_ARGUMENT", "Pass key or value");
+      const found = map.inverse.get(value as string);
+      return { key: found, value, found: found !== undefined };
+    },
+  },
+  {
+    name: "algo_bimap_delete",
+    description:
+      "Delete a pair from a bimap by key or by value. Keywords: bimap delete, remove mapping, unmap.",
+    category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Bimap ID" },
+        key: { type: "string", description: "Key of the pair" },
+        value: { type: "string", description: "Value of the pair (instead of key)" },
+      },
+      required: ["id"],
+    },
+    handler: ({ id, key, value }) => {
+      const map = algoStore.get(id as string, "bimap");
+      if (key !== undefined) return { deleted: map.delete(key as string), size: map.size };
+      if (value === undefined) throw new ToolError("INVALID_ARGUMENT", "Pass key or value");
+      return { deleted: map.inverse.delete(value as string), size: map.size };
+    },
+  },
+
+  // Suffix array operations
+  {
+    name: "algo_suffix_create",
+    description:
+      "Build a suffix array over a text for fast substring search: every later search is a binary search instead of a scan. Use for repeated lookups in large documents, logs, or source files. Keywords: suffix array, substring index, full text index, fast search.",
+    category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Unique identifier" },
+        text: { type: "string", description: "Text to index" },
+      },
+      required: ["id", "text"],
+    },
+    handler: ({ id, text }) => {
+      algoStore.checkItems(id as string, "suffix", (text as string).length);
+      const sa = new SuffixArray(text as string);
+      algoStore.create(id as string, "suffix", sa);
+      return { created: id, length: sa.length };
+    },
+  },
+  {
+    name: "algo_suffix_search",
+    description:
+      "Find every occurrence of a substring in a text indexed with algo_suffix_create. Returns the total count and the positions in text order, each with surrounding context. Keywords: substring search, find occurrences, text index lookup, grep indexed text.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Suffix array ID" },
+        pattern: { type: "string", minLength: 1, description: "Substring to find" },
+        limit: { type: "number", minimum: 1, description: "Max matches returned (default: 100)" },
+        context: {
+          type: "number",
+          minimum: 0,
+          description: "Characters of context on each side (default: 20)",
+        },
+      },
+      required: ["id", "pattern"],
+    },
+    handler: ({ id, pattern, limit = 100, context = 20 }) => {
+      const sa = algoStore.get(id as string, "suffix");
+      const text = sa.string as string;
+      const positions = suffixSearch(sa, pattern as string);
+      const around = context as number;
+      return {
+        count: positions.length,
+        matches: positions.slice(0, limit as number).map((position) => ({
+          position,
+          context: text.slice(
+            Math.max(0, position - around),
+            position + (pattern as string).length + around,
+          ),
+        })),
+        truncated: positions.length > (limit as number),
+      };
+    },
+  },
+
+  // Graph operations
+  {
+    name: "algo_graph_create",
+    description:
+      "Create a directed or undirected weighted graph from nodes and edges, or straight from the result of psql_erd (table foreign keys), git_graph (commit history) or dependency_analyze (package dependencies). Then sort, route, cluster, rank or draw it with the other algo_graph_* tools. Keywords: graph, network, dependency graph, edge list, directed graph, build graph.",
+    category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Unique identifier" },
+        directed: { type: "boolean", description: "Directed edges (default: true)" },
+        ...GRAPH_INPUT_PROPERTIES,
+      },
+      required: ["id"],
+    },
+    handler: (args) => {
+      const input = graphInput(args);
+      algoStore.checkItems(args.id as string, "graph", input.nodes.length + input.edges.length);
+      const graph = new Graph(args.directed !== false);
+      graph.add(input);
+      algoStore.create(args.id as string, "graph", graph);
+      return {
+        created: args.id,
+        directed: graph.directed,
+        nodes: graph.nodeCount,
+        edges: graph.edgeCount,
+      };
+    },
+  },
+  {
+    name: "algo_graph_add",
+    description:
+      "Add nodes and edges to a graph, from an edge list or the result of psql_erd, git_graph or dependency_analyze. Adding an existing edge updates its weight. Keywords: add edge, add node, extend graph, merge graph.",
+    category: "algo",
+    annotations: ADDITIVE,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Graph ID" },
+        ...GRAPH_INPUT_PROPERTIES,
+      },
+      required: ["id"],
+    },
+    handler: (args) => {
+      const input = graphInput(args);
+      const graph = algoStore.get(
+        args.id as string,
+        "graph",
+        input.nodes.length + input.edges.length,
+      );
+      graph.add(input);
+      return { nodes: graph.nodeCount, edges: graph.edgeCount };
+    },
+  },
+  {
+    name: "algo_graph_toposort",
+    description:
+      "Topologically sort a directed graph: every node comes before the nodes it points to. When there are cycles, returns the nodes that could be ordered and each cycle (strongly connected component) that blocks the rest. Use for build order, migration order, task scheduling, or detecting circular dependencies. Keywords: topological sort, dependency order, cycle detection, circular dependency, DAG.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Graph ID" },
+      },
+      required: ["id"],
+    },
+    handler: ({ id }) => {
+      const { order, cycles } = topologicalSort(algoStore.get(id as string, "graph"));
+      return { sorted: cycles.length === 0, order, cycles };
+    },
+  },
+  {
+    name: "algo_graph_shortest_path",
+    description:
+      "Find the cheapest path between two nodes of a graph by total edge weight (Dijkstra). Pass node positions to search with A* instead, which explores fewer nodes when edge weights are at least the straight-line distances. Weights must not be negative. Keywords: shortest path, dijkstra, a star, route, cheapest path, distance between nodes.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Graph ID" },
+        from: { type: "string", description: "Start node" },
+        to: { type: "string", description: "Target node" },
+        positions: {
+          type: "object",
+          additionalProperties: { type: "array", items: { type: "number" } },
+          description: "Coordinates per node, e.g. { a: [0, 0], b: [3, 4] }, for the A* heuristic",
+        },
+      },
+      required: ["id", "from", "to"],
+    },
+    handler: ({ id, from, to, positions }) => {
+      const graph = algoStore.get(id as string, "graph");
+      const coordinates = positions as Record<string, number[]> | undefined;
+      const goal = coordinates?.[to as string];
+      // Straight-line distance to the target; 0 (plain Dijkstra) for nodes without a position
+      const heuristic = (node: string) => {
+        const at = coordinates?.[node];
+        if (!at || !goal) return 0;
+        return Math.hypot(...at.map((value, i) => value - (goal[i] ?? 0)));
+      };
+      const result = shortestPath(graph, from as string, to as string, heuristic);
+      return {
+        found: result !== undefined,
+        algorithm: goal ? "astar" : "dijkstra",
+        path: result?.path ?? [],
+        distance: result?.distance ?? null,
+        visited: result?.visited ?? 0,
+      };
+    },
+  },
+  {
+    name: "algo_graph_components",
+    description:
+      "Split a graph into connected components (nodes linked in either direction), or strongly connected components (nodes that can all reach each other along edge directions). Largest first. Use to find isolated clusters, independent subsystems, or groups of mutually dependent modules. Keywords: connected components, strongly connected, tarjan, clusters, islands, subgraphs.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Graph ID" },
+        strong: {
+          type: "boolean",
+          description: "Strongly connected components (default: false, weakly connected)",
+        },
+      },
+      required: ["id"],
+    },
+    handler: ({ id, strong = false }) => {
+      const graph = algoStore.get(id as string, "graph");
+      const components = strong ? stronglyConnectedComponents(graph) : connectedComponents(graph);
+      components.sort((a, b) => b.length - a.length);
+      return { count: components.length, components };
+    },
+  },
+  {
+    name: "algo_graph_mst",
+    description:
+      "Compute the minimum spanning tree of a graph (Kruskal): the cheapest set of edges connecting all nodes, treating edges as undirected. A disconnected graph gives one tree per component. Use for network design, clustering, or cheapest connections. Keywords: minimum spanning tree, MST, kruskal, spanning forest, cheapest connection.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Graph ID" },
+      },
+      required: ["id"],
+    },
+    handler: ({ id }) => {
+      const graph = algoStore.get(id as string, "graph");
+      const { edges, weight } = minimumSpanningTree(graph);
+      return { edges, weight, trees: graph.nodeCount - edges.length };
+    },
+  },
+  {
+    name: "algo_graph_pagerank",
+    description:
+      "Rank the nodes of a graph by PageRank: a node ranks high when important nodes point to it. Edges are weighted by their weight. Use to find central tables, core packages, or influential pages. Keywords: pagerank, centrality, node importance, ranking, influence.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Graph ID" },
+        damping: {
+          type: "number",
+          minimum: 0,
+          maximum: 1,
+          description: "Probability of following a link (default: 0.85)",
+        },
+        iterations: {
+          type: "number",
+          minimum: 1,
+          description: "Maximum power iterations (default: 100)",
+        },
+        top: { type: "number", minimum: 1, description: "Nodes to return (default: all)" },
+      },
+      required: ["id"],
+    },
+    handler: ({ id, damping = 0.85, iterations = 100, top }) => {
+      const graph = algoStore.get(id as string, "graph");
+      const result = pageRank(graph, {
+        damping: damping as number,
+        maxIterations: iterations as number,
+      });
+      const ranks = [...result.ranks]
+        .map(([node, rank]) => ({ node, rank }))
+        .sort((a, b) => b.rank - a.rank);
+      return {
+        ranks: top === undefined ? ranks : ranks.slice(0, top as number),
+        iterations: result.iterations,
+      };
+    },
+  },
+  {
+    name: "algo_graph_export",
+    description:
+      "Export a graph as Graphviz DOT or a Mermaid flowchart, with weights as edge labels. Render it with dot or paste it into Markdown. Keywords: graphviz, dot, mermaid, draw graph, visualize graph, diagram.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Graph ID" },
+        format: {
+          type: "string",
+          enum: ["dot", "mermaid"],
+          description: "Output format (default: dot)",
+        },
+      },
+      required: ["id"],
+    },
+    handler: ({ id, format = "dot" }) => {
+      const graph = algoStore.get(id as string, "graph");
+      const content = format === "mermaid" ? toMermaid(graph) : toDot(graph, id as string);
+      return { format, content };
+    },
+  },
+
   // General instance management
   {
     name: "algo_delete",
     description:
       "Delete an algorithm data structure instance by ID. Free memory when done with a heap, trie, cache, or other structure. Use for cleanup or resource management. Keywords: delete structure, remove instance, cleanup memory.",
     category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -431,7 +1209,7 @@ export const algoTools: MiniTool[] = [
       required: ["id"],
     },
     handler: ({ id }) => {
-      const deleted = instances.delete(id as string);
+      const deleted = algoStore.delete(id as string);
       return { deleted };
     },
   },
@@ -440,25 +1218,69 @@ export const algoTools: MiniTool[] = [
     description:
       "List all active algorithm data structure instances. See what heaps, tries, caches, and other structures are currently allocated. Use for debugging or inventory. Keywords: list instances, show structures, active data structures.",
     category: "algo",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {},
     },
     handler: () => {
-      return { instances: Array.from(instances.keys()) };
+      return { instances: algoStore.ids() };
+    },
+  },
+  {
+    name: "algo_inspect",
+    description:
+      "Inspect an algorithm data structure instance by ID with a type-aware summary: heap size and top-k items, trie word and node counts, LRU most recent keys, Bloom filter fill and estimated false-positive rate, union-find component sizes, multiset top items, graph node and edge counts. Use to debug or check the state of a structure without modifying it. Keywords: inspect structure, heap top k, trie stats, bloom false positive, instance details.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Instance ID" },
+        top: {
+          type: "number",
+          minimum: 1,
+          description: "Maximum elements to list (top of heap, sample words, ...; default: 10)",
+        },
+      },
+      required: ["id"],
     },
+    handler: ({ id, top = 10 }) => algoStore.inspect(id as string, top as number),
+  },
+  {
+    name: "algo_snapshot",
+    description:
+      "Serialize algorithm data structure instances (heaps, tries, queues, stacks, LRU caches, Bloom filters, multisets, bimaps, suffix arrays, graphs, ...) to a JSON snapshot. Store it (e.g. with state_set or vfs_write) and load it back with algo_restore after a restart. Keywords: serialize structure, save heap, export trie, snapshot instances, persist data structure.",
+    category: "algo",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Instances to include (default: all)",
+        },
+      },
+    },
+    handler: ({ ids }) => algoStore.snapshot(ids as string[] | undefined),
+  },
+  {
+    name: "algo_restore",
+    description:
+      "Restore algorithm data structure instances from a JSON snapshot made by algo_snapshot. Instances with the same IDs are replaced; nothing changes if any instance is invalid or over the limits. Keywords: deserialize structure, load heap, import trie, restore instances, load snapshot.",
+    category: "algo",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        snapshot: { type: "object", description: "Snapshot returned by algo_snapshot" },
+      },
+      required: ["snapshot"],
+    },
+    handler: ({ snapshot }) => ({ restored: algoStore.restore(snapshot as AlgoSnapshot) }),
   },
 ];
 
 // Re-export unused imports for potential future use
-export {
-  BiMap,
-  DefaultMap,
-  FibonacciHeap,
-  LinkedList,
-  LRUMap,
-  MultiSet,
-  Queue,
-  Stack,
-  SuffixArray,
-};
+export { DefaultMap, FibonacciHeap, LinkedList, LRUMap };
@@ -0,0 +1,597 @@
+/**
+ * Instance store behind the algo_* tools
+ *
+ * Holds the heaps, tries, queues, LRU caches, graphs, ... built by the algo_*_create tools,
+ * keyed by id. Each kind has a codec that turns an instance into plain JSON
+ * and back (algo_snapshot/algo_restore) and describes it for algo_inspect.
+ *
+ * The store is bounded by AlgoLimits: a cap on the number of instances, a
+ * cap on the items a single instance may hold, and an idle timeout after
+ * which unused instances are evicted (checked whenever the store is used).
+ *
+ * waitForChange()/changed() let a tool block until another call touches an
+ * instance, for blocking pops on queues and stacks.
+ *
+ * @module lib/std/algostore
+ */
+
+import {
+  BiMap,
+  BloomFilter,
+  CircularBuffer,
+  type Heap,
+  LRUCache,
+  MaxHeap,
+  MinHeap,
+  MultiSet,
+  Queue,
+  Stack,
+  StaticDisjointSet,
+  SuffixArray,
+  Trie,
+} from "mnemonist";
+import { abortError, ToolError } from "./errors.ts";
+import { Graph, parseEdges } from "./graph.ts";
+import { decodeBase64, encodeBase64 } from "./vfstree.ts";
+
+/** Bounds for the whole store */
+export interface AlgoLimits {
+  /** Number of instances */
+  maxInstances: number;
+  /** Items in one instance (elements, words, entries; capacity for fixed-size structures) */
+  maxItems: number;
+  /** Milliseconds an instance may stay unused before it is evicted (0: never) */
+  idleTimeout: number;
+}
+
+export const DEFAULT_ALGO_LIMITS: AlgoLimits = {
+  maxInstances: 1000,
+  maxItems: 100000,
+  idleTimeout: 60 * 60 * 1000,
+};
+
+/** Structure behind each instance kind */
+export interface AlgoKinds {
+  heap: Heap<unknown>;
+  trie: Trie<string>;
+  lru: LRUCache<string, unknown>;
+  bloom: BloomFilter;
+  circular: CircularBuffer<unknown>;
+  unionfind: StaticDisjointSet;
+  queue: Queue<unknown>;
+  stack: Stack<unknown>;
+  multiset: MultiSet<string>;
+  bimap: BiMap<string, string>;
+  suffix: SuffixArray;
+  graph: Graph;
+}
+
+export type AlgoKind = keyof AlgoKinds;
+
+/** One serialized instance; `data` is the kind-specific JSON from its codec */
+export interface AlgoInstanceData {
+  id: string;
+  kind: AlgoKind;
+  data: Record<string, unknown>;
+}
+
+/** Portable copy of some or all instances, as returned by algo_snapshot */
+export interface AlgoSnapshot {
+  format: "mcp-std-algo";
+  version: 1;
+  createdAt: string;
+  instances: AlgoInstanceData[];
+}
+
+/** Summary of an instance, as returned by list() */
+export interface AlgoInstanceInfo {
+  id: string;
+  kind: AlgoKind;
+  items: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+interface AlgoInstance<K extends AlgoKind = AlgoKind> {
+  kind: K;
+  value: AlgoKinds[K];
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+/** How one kind of structure is sized, serialized and described */
+interface AlgoCodec<T> {
+  /** Name used in error messages */
+  label: string;
+  /** Items counted against maxItems */
+  items(value: T): number;
+  save(value: T): Record<string, unknown>;
+  load(data: Record<string, unknown>): T;
+  inspect(value: T, top: number): Record<string, unknown>;
+}
+
+/** End-of-word marker in mnemonist's trie nodes */
+const TRIE_SENTINEL = String.fromCharCode(0);
+
+/** Node of mnemonist's trie: one property per next character, plus the end-of-word marker */
+type TrieNode = { [char: string]: TrieNode | true };
+
+/** Number of nodes (excluding the root) and the depth of the deepest one */
+function trieShape(root: TrieNode): { nodes: number; depth: number } {
+  let nodes = 0;
+  let depth = 0;
+  const stack: Array<[TrieNode, number]> = [[root, 0]];
+  while (stack.length > 0) {
+    const [node, level] = stack.pop()!;
+    depth = Math.max(depth, level);
+    for (const [char, child] of Object.entries(node)) {
+      if (char === TRIE_SENTINEL || child === true) continue;
+      nodes++;
+      stack.push([child, level + 1]);
+    }
+  }
+  return { nodes, depth };
+}
+
+function countBits(bytes: Uint8Array): number {
+  let count = 0;
+  for (let byte of bytes) {
+    for (; byte; byte &= byte - 1) count++;
+  }
+  return count;
+}
+
+/** Read a required property of serialized data */
+function field<T>(
+  data: Record<string, unknown>,
+  name: string,
+  type: "array" | "number" | "string",
+): T {
+  const value = data[name];
+  const actual = Array.isArray(value) ? "array" : typeof value;
+  if (actual !== type) {
+    throw new Error(`"${name}" must be ${type === "array" ? "an array" : `a ${type}`}`);
+  }
+  return value as T;
+}
+
+/** Heaps remember whether they are min or max heaps, which mnemonist does not expose */
+const maxHeaps = new WeakSet<Heap<unknown>>();
+
+/** Build a min or max heap */
+export function createHeap(type: "min" | "max", items: unknown[] = []): Heap<unknown> {
+  const heap = type === "max" ? new MaxHeap<unknown>() : new MinHeap<unknown>();
+  if (type === "max") maxHeaps.add(heap);
+  for (const item of items) heap.push(item);
+  return heap;
+}
+
+const CODECS: { [K in AlgoKind]: AlgoCodec<AlgoKinds[K]> } = {
+  heap: {
+    label: "Heap",
+    items: (heap) => heap.size,
+    save: (heap) => ({ type: maxHeaps.has(heap) ? "max" : "min", items: heap.toArray() }),
+    load: (data) =>
+      createHeap(data.type === "max" ? "max" : "min", field<unknown[]>(data, "items", "array")),
+    inspect: (heap, top) => ({
+      type: maxHeaps.has(heap) ? "max" : "min",
+      size: heap.size,
+      top: heap.toArray().slice(0, top),
+    }),
+  },
+  trie: {
+    label: "Trie",
+    items: (trie) => trie.size,
+    save: (trie) => ({ words: trie.find("") }),
+    load: (data) => {
+      const trie = new Trie<string>();
+      for (const word of field<string[]>(data, "words", "array")) trie.add(String(word));
+      return trie;
+    },
+    inspect: (trie, top) => {
+      const root = (trie as unknown as { toJSON(): TrieNode }).toJSON();
+      const { nodes, depth } = trieShape(root);
+      return { words: trie.size, nodes, maxDepth: depth, sample: trie.find("").slice(0, top) };
+    },
+  },
+  lru: {
+    label: "LRU cache",
+    items: (lru) => lru.capacity,
+    // Entries are saved least recently used first, so replaying them restores the order
+    save: (lru) => ({ capacity: lru.capacity, entries: [...lru.entries()].reverse() }),
+    load: (data) => {
+      const lru = new LRUCache<string, unknown>(field<number>(data, "capacity", "number"));
+      for (const [key, value] of field<Array<[string, unknown]>>(data, "entries", "array")) {
+        lru.set(String(key), value);
+      }
+      return lru;
+    },
+    inspect: (lru, top) => ({
+      capacity: lru.capacity,
+      size: lru.size,
+      mostRecent: [...lru.keys()].slice(0, top),
+    }),
+  },
+  bloom: {
+    label: "Bloom filter",
+    items: (bloom) => bloom.capacity,
+    // toJSON() returns the filter's own bit array
+    save: (bloom) => ({
+      capacity: bloom.capacity,
+      errorRate: bloom.errorRate,
+      bits: encodeBase64(bloom.toJSON()),
+    }),
+    load: (data) => {
+      const bloom = new BloomFilter({
+        capacity: field<number>(data, "capacity", "number"),
+        errorRate: field<number>(data, "errorRate", "number"),
+      });
+      const bits = decodeBase64(field<string>(data, "bits", "string"));
+      if (bits.length !== bloom.toJSON().length) {
+        throw new Error(`"bits" must hold ${bloom.toJSON().length} bytes for this capacity`);
+      }
+      bloom.toJSON().set(bits);
+      return bloom;
+    },
+    inspect: (bloom) => {
+      const bits = bloom.toJSON().length * 8;
+      const set = countBits(bloom.toJSON());
+      const k = bloom.hashFunctions;
+      return {
+        capacity: bloom.capacity,
+        errorRate: bloom.errorRate,
+        hashFunctions: k,
+        bits,
+        bitsSet: set,
+        // Swamidass & Baldi estimate of the number of items added (none once every bit is set)
+        ...(set < bits && { estimatedItems: Math.round((-bits / k) * Math.log(1 - set / bits)) }),
+        // Chance that an item never added still tests positive
+        falsePositiveRate: (set / bits) ** k,
+      };
+    },
+  },
+  circular: {
+    label: "Buffer",
+    items: (buffer) => buffer.capacity,
+    save: (buffer) => ({ capacity: buffer.capacity, items: buffer.toArray() }),
+    load: (data) => {
+      const buffer = new CircularBuffer<unknown>(Array, field(data, "capacity", "number"));
+      for (const item of field<unknown[]>(data, "items", "array")) buffer.push(item);
+      return buffer;
+    },
+    inspect: (buffer, top) => ({
+      capacity: buffer.capacity,
+      size: buffer.size,
+      newest: (buffer.toArray() as unknown[]).slice(-top),
+    }),
+  },
+  unionfind: {
+    label: "Disjoint set",
+    items: (ds) => ds.size,
+    save: (ds) => ({ size: ds.size, groups: ds.compile().filter((group) => group.length > 1) }),
+    load: (data) => {
+      const ds = new StaticDisjointSet(field(data, "size", "number"));
+      for (const [first, ...rest] of field<number[][]>(data, "groups", "array")) {
+        for (const other of rest) ds.union(first, other);
+      }
+      return ds;
+    },
+    inspect: (ds, top) => {
+      const groups = ds.compile().sort((a, b) => b.length - a.length);
+      return {
+        size: ds.size,
+        components: ds.dimension,
+        largest: groups.slice(0, top).map((group) => group.length),
+      };
+    },
+  },
+  queue: {
+    label: "Queue",
+    items: (queue) => queue.size,
+    save: (queue) => ({ items: queue.toArray() }),
+    load: (data) => {
+      const queue = new Queue<unknown>();
+      for (const item of field<unknown[]>(data, "items", "array")) queue.enqueue(item);
+      return queue;
+    },
+    inspect: (queue, top) => ({ size: queue.size, next: queue.toArray().slice(0, top) }),
+  },
+  stack: {
+    label: "Stack",
+    items: (stack) => stack.size,
+    // toArray() lists the top first; items are saved bottom first so pushing them rebuilds the stack
+    save: (stack) => ({ items: stack.toArray().reverse() }),
+    load: (data) => {
+      const stack = new Stack<unknown>();
+      for (const item of field<unknown[]>(data, "items", "array")) stack.push(item);
+      return stack;
+    },
+    inspect: (stack, top) => ({ size: stack.size, next: stack.toArray().slice(0, top) }),
+  },
+  multiset: {
+    label: "Multiset",
+    items: (set) => set.dimension,
+    save: (set) => ({ counts: [...set.multiplicities()] }),
+    load: (data) => {
+      const set = new MultiSet<string>();
+      for (const [item, count] of field<Array<[string, number]>>(data, "counts", "array")) {
+        set.add(String(item), Number(count));
+      }
+      return set;
+    },
+    inspect: (set, top) => ({
+      size: set.size,
+      distinct: set.dimension,
+      top: set.top(top).map(([item, count]) => ({ item, count })),
+    }),
+  },
+  bimap: {
+    label: "Bimap",
+    items: (map) => map.size,
+    save: (map) => ({ entries: [...map.entries()] }),
+    load: (data) => {
+      const map = new BiMap<string, string>();
+      for (const [key, value] of field<Array<[string, string]>>(data, "entries", "array")) {
+        map.set(String(key), String(value));
+      }
+      return map;
+    },
+    inspect: (map, top) => ({ size: map.size, sample: [...map.entries()].slice(0, top) }),
+  },
+  suffix: {
+    label: "Suffix array",
+    items: (sa) => sa.length,
+    // The sorted suffixes are rebuilt from the text on load
+    save: (sa) => ({ text: sa.string }),
+    load: (data) => new SuffixArray(field<string>(data, "text", "string")),
+    inspect: (sa, top) => ({
+      length: sa.length,
+      preview: (sa.string as string).slice(0, top * 10),
+    }),
+  },
+  graph: {
+    label: "Graph",
+    items: (graph) => graph.nodeCount + graph.edgeCount,
+    save: (graph) => ({
+      directed: graph.directed,
+      nodes: graph.nodes(),
+      edges: graph.edges().map(({ from, to, weight }) => [from, to, weight]),
+    }),
+    load: (data) => {
+      const graph = new Graph(data.directed !== false);
+      graph.add({
+        nodes: field<unknown[]>(data, "nodes", "array").map(String),
+        edges: parseEdges(field<unknown[]>(data, "edges", "array")),
+      });
+      return graph;
+    },
+    inspect: (graph, top) => ({
+      directed: graph.directed,
+      nodes: graph.nodeCount,
+      edges: graph.edgeCount,
+      sample: graph.edges().slice(0, top),
+    }),
+  },
+};
+
+/** Instances of the algo_* tools, bounded by AlgoLimits */
+export class AlgoStore {
+  private instances = new Map<string, AlgoInstance>();
+  private waiters = new Map<string, Set<() => void>>();
+  private limits: AlgoLimits;
+
+  constructor(limits: Partial<AlgoLimits> = {}) {
+    this.limits = { ...DEFAULT_ALGO_LIMITS, ...limits };
+  }
+
+  setLimits(limits: Partial<AlgoLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+  }
+
+  /**
+   * Add an instance, replacing any with the same id
+   *
+   * @throws ToolError INVALID_ARGUMENT when the instance or the store would exceed its limits
+   */
+  create<K extends AlgoKind>(id: string, kind: K, value: AlgoKinds[K]): void {
+    this.evictIdle();
+    this.checkItems(id, kind, CODECS[kind].items(value));
+    if (!this.instances.has(id) && this.instances.size >= this.limits.maxInstances) {
+      throw new ToolError(
+        "INVALID_ARGUMENT",
+        `Too many algo instances (maxInstances: ${this.limits.maxInstances}); delete some first`,
+      );
+    }
+    const now = Date.now();
+    this.instances.set(id, { kind, value, createdAt: now, lastUsedAt: now });
+    this.changed(id);
+  }
+
+  /**
+   * Get an instance of the given kind and mark it as used. Pass `adding` when
+   * the caller is about to add that many items.
+   *
+   * @throws ToolError NOT_FOUND for unknown ids, INVALID_ARGUMENT for another kind or a full instance
+   */
+  get<K extends AlgoKind>(id: string, kind: K, adding = 0): AlgoKinds[K] {
+    const instance = this.instance(id);
+    if (!instance) throw new ToolError("NOT_FOUND", `${CODECS[kind].label} not found: ${id}`);
+    if (instance.kind !== kind) {
+      throw new ToolError(
+        "INVALID_ARGUMENT",
+        `Instance ${id} is a ${instance.kind}, not a ${kind}`,
+      );
+    }
+    const value = instance.value as AlgoKinds[K];
+    if (adding > 0) this.checkItems(id, kind, CODECS[kind].items(value) + adding);
+    return value;
+  }
+
+  delete(id: string): boolean {
+    const deleted = this.instances.delete(id);
+    this.changed(id);
+    return deleted;
+  }
+
+  /** Ids of all live instances */
+  ids(): string[] {
+    this.evictIdle();
+    return [...this.instances.keys()];
+  }
+
+  list(): AlgoInstanceInfo[] {
+    this.evictIdle();
+    return [...this.instances].map(([id, { kind, value, createdAt, lastUsedAt }]) => ({
+      id,
+      kind,
+      items: (CODECS[kind] as AlgoCodec<unknown>).items(value),
+      createdAt: new Date(createdAt).toISOString(),
+      lastUsedAt: new Date(lastUsedAt).toISOString(),
+    }));
+  }
+
+  /** Kind-specific view of an instance; `top` bounds the listed elements */
+  inspect(id: string, top = 10): Record<string, unknown> {
+    const instance = this.instance(id);
+    if (!instance) throw new ToolError("NOT_FOUND", `Instance not found: ${id}`);
+    const { kind, value, createdAt, lastUsedAt } = instance;
+    return {
+      id,
+      kind,
+      createdAt: new Date(createdAt).toISOString(),
+      lastUsedAt: new Date(lastUsedAt).toISOString(),
+      ...(CODECS[kind] as AlgoCodec<unknown>).inspect(value, top),
+    };
+  }
+
+  /** Serialize the given instances (default: all) */
+  snapshot(ids?: string[]): AlgoSnapshot {
+    this.evictIdle();
+    const selected = ids ?? [...this.instances.keys()];
+    return {
+      format: "mcp-std-algo",
+      version: 1,
+      createdAt: new Date().toISOString(),
+      instances: selected.map((id) => {
+        const instance = this.instances.get(id);
+        if (!instance) throw new ToolError("NOT_FOUND", `Instance not found: ${id}`);
+        const codec = CODECS[instance.kind] as AlgoCodec<unknown>;
+        return { id, kind: instance.kind, data: codec.save(instance.value) };
+      }),
+    };
+  }
+
+  /**
+   * Load the instances of a snapshot, replacing those with the same ids.
+   * Nothing is changed unless every instance loads and fits the limits.
+   */
+  restore(snapshot: AlgoSnapshot): string[] {
+    if (snapshot?.format !== "mcp-std-algo" || !Array.isArray(snapshot.instances)) {
+      throw new ToolError("INVALID_ARGUMENT", "Not an algo snapshot (format: mcp-std-algo)");
+    }
+    this.evictIdle();
+    const loaded = snapshot.instances.map(({ id, kind, data }) => {
+      const codec = CODECS[kind] as AlgoCodec<unknown> | undefined;
+      if (typeof id !== "string" || !codec) {
+        throw new ToolError("INVALID_ARGUMENT", `Invalid snapshot instance: ${id} (${kind})`);
+      }
+      // Fixed-size structures would allocate their capacity (or size) while loading
+      const declared = Number(data?.capacity ?? data?.size ?? 0);
+      if (declared > 0) this.checkItems(id, kind, declared);
+      let value: unknown;
+      try {
+        value = codec.load(data ?? {});
+      } catch (e) {
+        throw new ToolError("INVALID_ARGUMENT", `Invalid snapshot instance ${id}: ${e}`, {
+          cause: e,
+        });
+      }
+      this.checkItems(id, kind, codec.items(value));
+      return { id, kind, value };
+    });
+
+    const ids = new Set([...this.instances.keys(), ...loaded.map(({ id }) => id)]);
+    if (ids.size > this.limits.maxInstances) {
+      throw new ToolError(
+        "INVALID_ARGUMENT",
+        `Restoring would exceed maxInstances (${this.limits.maxInstances})`,
+      );
+    }
+    const now = Date.now();
+    for (const { id, kind, value } of loaded) {
+      this.instances.set(id, { kind, value, createdAt: now, lastUsedAt: now } as AlgoInstance);
+      this.changed(id);
+    }
+    return loaded.map(({ id }) => id);
+  }
+
+  /** Wake the callers waiting on `id` (after items were added to it, ...) */
+  changed(id: string): void {
+    for (const wake of this.waiters.get(id) ?? []) wake();
+  }
+
+  /**
+   * Resolve on the next changed(id), or after `timeoutMs` if nothing changes.
+   * Rejects with abortError(signal) when the call is cancelled.
+   */
+  waitForChange(id: string, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(abortError(signal));
+
+    return new Promise((resolve, reject) => {
+      const waiters = this.waiters.get(id) ?? new Set();
+      this.waiters.set(id, waiters);
+      const finish = () => {
+        clearTimeout(timer);
+        waiters.delete(wake);
+        if (waiters.size === 0 && this.waiters.get(id) === waiters) this.waiters.delete(id);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const wake = () => {
+        finish();
+        resolve();
+      };
+      const timer = setTimeout(wake, timeoutMs);
+      const onAbort = () => {
+        finish();
+        reject(abortError(signal!));
+      };
+      waiters.add(wake);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /** Drop instances unused for longer than idleTimeout; returns their ids */
+  evictIdle(now = Date.now()): string[] {
+    const { idleTimeout } = this.limits;
+    if (idleTimeout <= 0) return [];
+    const evicted: string[] = [];
+    for (const [id, instance] of this.instances) {
+      if (now - instance.lastUsedAt > idleTimeout) {
+        this.instances.delete(id);
+        evicted.push(id);
+      }
+    }
+    return evicted;
+  }
+
+  /** Live instance by id, marked as used */
+  private instance(id: string): AlgoInstance | undefined {
+    this.evictIdle();
+    const instance = this.instances.get(id);
+    if (instance) instance.lastUsedAt = Date.now();
+    return instance;
+  }
+
+  /**
+   * Throw unless an instance of `items` items fits maxItems. Fixed-size
+   * structures allocate their capacity up front, so check before building them.
+   */
+  checkItems(id: string, kind: AlgoKind, items: number): void {
+    if (items > this.limits.maxItems) {
+      throw new ToolError(
+        "INVALID_ARGUMENT",
+        `${CODECS[kind].label} ${id} would hold ${items} items (maxItems: ${this.limits.maxItems})`,
+      );
+    }
+  }
+}
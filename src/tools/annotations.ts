@@ -0,0 +1,84 @@
+/**
+ * Tool annotation presets
+ *
+ * Every tool declares one of these as its `annotations`. Presets are named
+ * after the combination of hints they set; pick the one matching the worst
+ * case across all arguments (e.g. `sed` with `inPlace` rewrites files, so it
+ * is DESTRUCTIVE even though most calls only read).
+ *
+ * @module lib/std/tools/annotations
+ */
+
+import type { ToolAnnotations } from "./types.ts";
+
+/** Pure computation or inspection of local state */
+export const READ_ONLY: ToolAnnotations = Object.freeze({
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+});
+
+/** Reads from the network, remote hosts or clusters */
+export const READ_ONLY_OPEN_WORLD: ToolAnnotations = Object.freeze({
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: true,
+});
+
+/** Adds data without touching existing data; each call adds again */
+export const ADDITIVE: ToolAnnotations = Object.freeze({
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: false,
+});
+
+/** Adds data once; repeating the call changes nothing */
+export const ADDITIVE_IDEMPOTENT: ToolAnnotations = Object.freeze({
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+});
+
+/** Creates or sends something on an external system */
+export const ADDITIVE_OPEN_WORLD: ToolAnnotations = Object.freeze({
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+});
+
+/** May delete or overwrite local data, and repeating may do so again (e.g. code execution) */
+export const DESTRUCTIVE: ToolAnnotations = Object.freeze({
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: false,
+  openWorldHint: false,
+});
+
+/** Deletes or overwrites local data; repeating with the same arguments has no further effect */
+export const DESTRUCTIVE_IDEMPOTENT: ToolAnnotations = Object.freeze({
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: true,
+  openWorldHint: false,
+});
+
+/** Runs arbitrary operations against an external system */
+export const DESTRUCTIVE_OPEN_WORLD: ToolAnnotations = Object.freeze({
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: false,
+  openWorldHint: true,
+});
+
+/** Overwrites state on an external system to a declared target (e.g. apply, push, set) */
+export const DESTRUCTIVE_IDEMPOTENT_OPEN_WORLD: ToolAnnotations = Object.freeze({
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: true,
+  openWorldHint: true,
+});
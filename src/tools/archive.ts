@@ -4,7 +4,33 @@
  * @module lib/std/tools/archive
  */
 
-import { type MiniTool, runCommand } from "./common.ts";
+import { DESTRUCTIVE_IDEMPOTENT } from "./annotations.ts";
+import { commandFailed, type MiniTool, runCommand } from "./common.ts";
+
+/**
+ * Count files and directories under `paths` (what `tar -v` lists), or
+ * undefined if any of them cannot be read
+ */
+async function countEntries(paths: string[], cwd?: string): Promise<number | undefined> {
+  const count = async (path: string): Promise<number> => {
+    const info = await Deno.lstat(path);
+    if (!info.isDirectory) return 1;
+    let total = 1;
+    for await (const entry of Deno.readDir(path)) {
+      total += await count(`${path}/${entry.name}`);
+    }
+    return total;
+  };
+  try {
+    let total = 0;
+    for (const path of paths) {
+      total += await count(cwd && !path.startsWith("/") ? `${cwd}/${path}` : path);
+    }
+    return total;
+  } catch {
+    return undefined;
+  }
+}
 
 export const archiveTools: MiniTool[] = [
   {
@@ -12,6 +38,7 @@ export const archiveTools: MiniTool[] = [
     description:
       "Create compressed tar archives (tar.gz, tar.bz2, tar.xz) from files and directories. Package multiple files for backup, distribution, or transfer. Supports gzip, bzip2, and xz compression. Keywords: tar create, archive files, compress folder, tar.gz, tarball, backup archive, package files.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -30,7 +57,7 @@ export const archiveTools: MiniTool[] = [
       },
       required: ["output", "files"],
     },
-    handler: async ({ output, files, compress = "gzip", cwd }) => {
+    handler: async ({ output, files, compress = "gzip", cwd }, ctx) => {
       const args = ["-c"];
       switch (compress) {
         case "gzip":
@@ -43,11 +70,27 @@ export const archiveTools: MiniTool[] = [
           args.push("-J");
           break;
       }
+      // With a progress listener, list each archived entry (-v) and count
+      // them against the number of entries under the inputs. Without one,
+      // neither the listing nor the walk over the inputs is worth doing.
+      let onLine: ((line: string, stream: "stdout" | "stderr") => void) | undefined;
+      if (ctx?.progressRequested) {
+        args.push("-v");
+        const total = await countEntries(files as string[], cwd as string | undefined);
+        let archived = 0;
+        onLine = (line, stream) => {
+          if (stream === "stdout") ctx.reportProgress(++archived, total, line);
+        };
+      }
       args.push("-f", output as string, ...(files as string[]));
 
-      const result = await runCommand("tar", args, { cwd: cwd as string });
+      const result = await runCommand("tar", args, {
+        cwd: cwd as string,
+        signal: ctx?.signal,
+        onLine,
+      });
       if (result.code !== 0) {
-        throw new Error(`tar create failed: ${result.stderr}`);
+        throw commandFailed("tar create", result);
       }
       return { success: true, archive: output, files: files };
     },
@@ -57,6 +100,7 @@ export const archiveTools: MiniTool[] = [
     description:
       "Extract tar archives including compressed formats (tar.gz, tar.bz2, tar.xz). Unpack to specific directory or list contents without extracting. Auto-detects compression type. Keywords: tar extract, untar, decompress, extract tar.gz, unpack archive, list archive contents.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -73,15 +117,15 @@ export const archiveTools: MiniTool[] = [
         accepts: ["filter"],
       },
     },
-    handler: async ({ archive, destination, list = false }) => {
+    handler: async ({ archive, destination, list = false }, ctx) => {
       const args = list ? ["-tvf", archive as string] : ["-xf", archive as string];
       if (destination && !list) {
         args.push("-C", destination as string);
       }
 
-      const result = await runCommand("tar", args);
+      const result = await runCommand("tar", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`tar extract failed: ${result.stderr}`);
+        throw commandFailed("tar extract", result);
       }
 
       if (list) {
@@ -95,6 +139,7 @@ export const archiveTools: MiniTool[] = [
     description:
       "Create ZIP archives from files and directories. Widely compatible format for Windows, Mac, and Linux. Recursive directory compression supported. Use for file sharing, backups, or packaging for distribution. Keywords: zip create, compress to zip, zip folder, create archive, package zip, zip files.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -104,13 +149,13 @@ export const archiveTools: MiniTool[] = [
       },
       required: ["output", "files"],
     },
-    handler: async ({ output, files, recursive = true }) => {
+    handler: async ({ output, files, recursive = true }, ctx) => {
       const args = recursive ? ["-r", output as string] : [output as string];
       args.push(...(files as string[]));
 
-      const result = await runCommand("zip", args);
+      const result = await runCommand("zip", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`zip failed: ${result.stderr}`);
+        throw commandFailed("zip", result);
       }
       return { success: true, archive: output };
     },
@@ -120,6 +165,7 @@ export const archiveTools: MiniTool[] = [
     description:
       "Extract ZIP archives to specified directory or list contents without extracting. Handles standard ZIP format compatible with Windows, Mac, and Linux. Use for unpacking downloaded archives or viewing ZIP contents. Keywords: unzip, extract zip, decompress zip, list zip contents, unpack archive.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -136,15 +182,15 @@ export const archiveTools: MiniTool[] = [
         accepts: ["filter"],
       },
     },
-    handler: async ({ archive, destination, list = false }) => {
+    handler: async ({ archive, destination, list = false }, ctx) => {
       const args = list ? ["-l", archive as string] : [archive as string];
       if (destination && !list) {
         args.push("-d", destination as string);
       }
 
-      const result = await runCommand("unzip", args);
+      const result = await runCommand("unzip", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`unzip failed: ${result.stderr}`);
+        throw commandFailed("unzip", result);
       }
 
       return list
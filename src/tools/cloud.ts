@@ -4,7 +4,8 @@
  * @module lib/std/tools/cloud
  */
 
-import { type MiniTool, runCommand } from "./common.ts";
+import { DESTRUCTIVE, DESTRUCTIVE_OPEN_WORLD } from "./annotations.ts";
+import { commandFailed, type MiniTool, runCommand } from "./common.ts";
 
 export const cloudTools: MiniTool[] = [
   {
@@ -12,6 +13,7 @@ export const cloudTools: MiniTool[] = [
     description:
       "Execute AWS CLI commands for cloud infrastructure management. Access S3, EC2, Lambda, RDS, IAM and all AWS services. List resources, manage instances, deploy infrastructure. Use for cloud automation, DevOps, or AWS administration. Keywords: aws cli, amazon web services, s3 bucket, ec2 instance, lambda function, cloud management, aws command.",
     category: "system",
+    annotations: DESTRUCTIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -23,15 +25,15 @@ export const cloudTools: MiniTool[] = [
       },
       required: ["service", "command"],
     },
-    handler: async ({ service, command, args = [], region, profile }) => {
+    handler: async ({ service, command, args = [], region, profile }, ctx) => {
       const cmdArgs = [service as string, command as string, ...(args as string[])];
       if (region) cmdArgs.push("--region", region as string);
       if (profile) cmdArgs.push("--profile", profile as string);
       cmdArgs.push("--output", "json");
 
-      const result = await runCommand("aws", cmdArgs);
+      const result = await runCommand("aws", cmdArgs, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`aws cli failed: ${result.stderr}`);
+        throw commandFailed("aws cli", result);
       }
 
       try {
@@ -46,6 +48,7 @@ export const cloudTools: MiniTool[] = [
     description:
       "Execute Google Cloud CLI commands for GCP infrastructure management. Access Compute Engine, Cloud Storage, Cloud Functions, BigQuery and all GCP services. Use for cloud automation, DevOps workflows, or GCP administration. Keywords: gcloud cli, google cloud, gcp command, compute engine, cloud storage, cloud functions, gcp management.",
     category: "system",
+    annotations: DESTRUCTIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -56,13 +59,13 @@ export const cloudTools: MiniTool[] = [
       },
       required: ["group", "command"],
     },
-    handler: async ({ group, command, args = [], project }) => {
+    handler: async ({ group, command, args = [], project }, ctx) => {
       const cmdArgs = [group as string, command as string, ...(args as string[]), "--format=json"];
       if (project) cmdArgs.push("--project", project as string);
 
-      const result = await runCommand("gcloud", cmdArgs);
+      const result = await runCommand("gcloud", cmdArgs, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`gcloud failed: ${result.stderr}`);
+        throw commandFailed("gcloud", result);
       }
 
       try {
@@ -77,6 +80,7 @@ export const cloudTools: MiniTool[] = [
     description:
       "Manage Linux systemd services and units. Start, stop, restart, enable, disable services. Check service status, list running units, manage system daemons. Essential for Linux server administration and service management. Keywords: systemctl, systemd service, start stop restart, service status, enable disable, linux daemon, unit management.",
     category: "system",
+    annotations: DESTRUCTIVE,
     inputSchema: {
       type: "object",
       properties: {
@@ -90,12 +94,12 @@ export const cloudTools: MiniTool[] = [
       },
       required: ["action"],
     },
-    handler: async ({ action, service, type }) => {
+    handler: async ({ action, service, type }, ctx) => {
       const args = [action as string];
       if (service) args.push(service as string);
       if (action === "list-units" && type) args.push("--type", type as string);
 
-      const result = await runCommand("systemctl", args);
+      const result = await runCommand("systemctl", args, { signal: ctx?.signal });
       return {
         action,
         service,
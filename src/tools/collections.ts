@@ -34,6 +34,7 @@ import {
   zip,
   zipObject,
 } from "lodash-es";
+import { READ_ONLY } from "./annotations.ts";
 import type { MiniTool } from "./types.ts";
 
 export const collectionsTools: MiniTool[] = [
@@ -42,6 +43,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Transform array by extracting a property from each object. Pluck values using dot notation paths (e.g., 'user.name'). Use to extract specific fields from array of objects. Keywords: array map, pluck property, extract field, lodash map.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -60,6 +62,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Filter array elements that match specific property values. Select objects where properties equal given values (e.g., {active: true}). Use for querying and filtering datasets. Keywords: array filter, find matching, select where, filter by property.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -78,6 +81,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Sort array by one or more property keys with ascending/descending order. Multi-key sorting for complex ordering needs. Use for ordering data by multiple criteria. Keywords: array sort, order by, sort by key, ascending descending, multi-key sort.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -109,6 +113,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Remove duplicate values from array. For objects, can dedupe by specific key. Use for data cleaning, eliminating redundant entries. Keywords: array unique, dedupe, remove duplicates, distinct values, uniq by.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -127,6 +132,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Group array elements into object by property value. Create buckets based on a key (e.g., group users by role). Use for categorization, aggregation prep, or data organization. Keywords: group by, categorize, bucket by key, aggregate grouping.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -149,6 +155,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Flatten nested arrays into single-level array. Option for shallow (one level) or deep (recursive) flattening. Use to simplify nested structures or merge array of arrays. Keywords: flatten array, unnest, deep flatten, merge nested arrays.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -165,6 +172,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Split array into smaller arrays of specified size. Use for pagination, batch processing, or breaking large datasets into manageable pieces. Keywords: chunk array, split into batches, paginate, batch array, partition size.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -180,6 +188,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Remove all falsy values from array (null, undefined, 0, '', false, NaN). Clean up arrays with empty or invalid entries. Use for data sanitization. Keywords: compact array, remove falsy, clean nulls, filter empty, remove undefined.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -194,6 +203,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Get values present in first array but not in second. Find what's missing or removed between two sets. Use for change detection, finding deletions. Keywords: array difference, set subtract, find missing, exclude values, not in array.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -209,6 +219,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Find values that exist in ALL given arrays. Get common elements across multiple sets. Use for finding shared items, overlap detection. Keywords: array intersection, common elements, shared values, find overlap, set intersection.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -226,6 +237,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Merge multiple arrays into one with duplicates removed. Combine sets keeping unique values only. Use for merging datasets without redundancy. Keywords: array union, merge unique, combine arrays, set union, dedupe merge.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -243,6 +255,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Convert array of objects to object keyed by a property. Transform list to lookup dictionary (e.g., users by ID). Use for fast lookups, indexing data. Keywords: key by, index by, array to object, create dictionary, lookup table.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -258,6 +271,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Split array into two groups: elements matching predicate and those that don't. Separate data into truthy/falsy buckets. Use for binary categorization. Keywords: partition array, split by condition, separate groups, filter both, binary split.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -276,6 +290,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Randomly reorder array elements using Fisher-Yates shuffle. Create random permutation of items. Use for randomizing lists, card games, random selection order. Keywords: shuffle array, randomize order, random permutation, mix up array.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -290,6 +305,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Get one or more random elements from array without replacement. Sample random items for testing, previews, or randomization. Keywords: random sample, pick random, random element, sample from array, random selection.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -308,6 +324,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Get first N or last N elements from array. Slice beginning or end of array. Use for pagination, previews, or limiting results. Keywords: take first, take last, head tail, array slice, limit results, top N.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -327,6 +344,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Remove first N or last N elements from array. Skip elements from beginning or end. Use for pagination offsets, removing headers/footers. Keywords: drop first, drop last, skip elements, remove from start, offset array.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -346,6 +364,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Combine multiple arrays element-wise into array of tuples. Pair up corresponding elements from parallel arrays. Use for combining related data streams. Keywords: zip arrays, pair elements, combine parallel, interleave arrays, tuple array.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -360,6 +379,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Create object from separate arrays of keys and values. Pair up keys array with values array into single object. Use for constructing objects from CSV headers/rows. Keywords: zip object, keys values to object, create from arrays, combine key value.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -375,6 +395,7 @@ export const collectionsTools: MiniTool[] = [
     description:
       "Count occurrences of each unique value for a property. Group and count elements by key. Use for frequency analysis, histograms, or distribution stats. Keywords: count by, frequency count, group count, histogram, occurrence count.",
     category: "collections",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
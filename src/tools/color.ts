@@ -9,6 +9,8 @@
  * @module lib/std/color
  */
 
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 // Type definitions
@@ -134,6 +136,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Convert hex color code to RGB values. Parse #RRGGBB or #RGB format to red, green, blue components (0-255). Use for color manipulation, CSS processing, or design tools. Keywords: hex to RGB, color convert, parse hex, hex color, RGB values, color code.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -150,7 +153,7 @@ export const colorTools: MiniTool[] = [
     },
     handler: ({ hex }) => {
       const rgb = hexToRgb(hex as string);
-      if (!rgb) throw new Error(`Invalid hex color: ${hex}`);
+      if (!rgb) throw new ToolError("INVALID_ARGUMENT", `Invalid hex color: ${hex}`);
       return { ...rgb, css: `rgb(${rgb.r}, ${rgb.g}, ${rgb.b})` };
     },
   },
@@ -159,6 +162,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Convert RGB values to hex color code. Transform red, green, blue components to #RRGGBB format for CSS or design. Use for color formatting, CSS generation, or palette export. Keywords: RGB to hex, color convert, hex color, generate hex, color code, format color.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -185,6 +189,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Convert RGB to HSL (Hue, Saturation, Lightness). Transform RGB color model to HSL for easier color manipulation and adjustment. Use for color adjustments, theme generation, or color theory. Keywords: RGB to HSL, color convert, HSL color, hue saturation, color model, transform color.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -211,6 +216,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Convert HSL to RGB values. Transform Hue (0-360), Saturation (0-100), Lightness (0-100) to RGB. Use for generating colors from HSL adjustments or color wheel operations. Keywords: HSL to RGB, color convert, RGB from HSL, hue to RGB, color transform.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -241,6 +247,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Convert RGB to HSV (Hue, Saturation, Value). Transform RGB to HSV for color picker interfaces or brightness adjustments. Use for color pickers, image processing, or color matching. Keywords: RGB to HSV, HSB, color convert, value brightness, color picker, saturation.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -282,6 +289,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Convert HSV to RGB values. Transform Hue, Saturation, Value (Brightness) to RGB. Use for color picker output, HSB color handling, or brightness-based color generation. Keywords: HSV to RGB, HSB to RGB, color convert, brightness to RGB, color picker output.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -352,6 +360,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Convert RGB to CMYK (Cyan, Magenta, Yellow, Key/Black). Transform screen colors to print color model. Use for print design, color proofing, or prepress work. Keywords: RGB to CMYK, print color, color convert, cyan magenta, screen to print, prepress.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -389,6 +398,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Convert CMYK to RGB values. Transform print colors (Cyan, Magenta, Yellow, Key) to screen RGB. Use for importing print colors, design conversion, or color matching. Keywords: CMYK to RGB, print to screen, color convert, cyan magenta, import print.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -425,6 +435,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Parse any color format to RGB values. Accepts hex (#fff, #ffffff), rgb(), hsl(), named colors. Universal color input handler. Use for accepting user color input or normalizing color formats. Keywords: parse color, color input, any format, named color, detect format, universal color.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -473,7 +484,7 @@ export const colorTools: MiniTool[] = [
         return { ...rgb, hex: rgbToHex(rgb.r, rgb.g, rgb.b), format: "hsl" };
       }
 
-      return { error: "Unable to parse color" };
+      throw new ToolError("INVALID_ARGUMENT", "Unable to parse color");
     },
   },
   {
@@ -481,6 +492,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Lighten a color by percentage. Increase lightness in HSL color space. Use for hover states, highlights, or creating lighter variants. Keywords: lighten color, tint, increase brightness, lighter shade, color variant, hover color.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -500,7 +512,7 @@ export const colorTools: MiniTool[] = [
       const c = (color as string).trim().toLowerCase();
       const hex = c.startsWith("#") ? c : namedColors[c] || `#${c}`;
       const rgb = hexToRgb(hex);
-      if (!rgb) return { error: "Unable to parse color" };
+      if (!rgb) throw new ToolError("INVALID_ARGUMENT", "Unable to parse color");
 
       const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
       hsl.l = Math.min(100, hsl.l + (amount as number));
@@ -514,6 +526,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Darken a color by percentage. Decrease lightness in HSL color space. Use for pressed states, shadows, or creating darker variants. Keywords: darken color, shade, decrease brightness, darker variant, color variant, pressed color.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -533,7 +546,7 @@ export const colorTools: MiniTool[] = [
       const c = (color as string).trim().toLowerCase();
       const hex = c.startsWith("#") ? c : namedColors[c] || `#${c}`;
       const rgb = hexToRgb(hex);
-      if (!rgb) return { error: "Unable to parse color" };
+      if (!rgb) throw new ToolError("INVALID_ARGUMENT", "Unable to parse color");
 
       const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
       hsl.l = Math.max(0, hsl.l - (amount as number));
@@ -547,6 +560,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Increase color saturation by percentage. Make colors more vivid and intense. Use for emphasis, highlighting, or vibrancy adjustment. Keywords: saturate color, increase saturation, vivid color, color intensity, vibrant, color boost.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -566,7 +580,7 @@ export const colorTools: MiniTool[] = [
       const c = (color as string).trim().toLowerCase();
       const hex = c.startsWith("#") ? c : namedColors[c] || `#${c}`;
       const rgb = hexToRgb(hex);
-      if (!rgb) return { error: "Unable to parse color" };
+      if (!rgb) throw new ToolError("INVALID_ARGUMENT", "Unable to parse color");
 
       const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
       hsl.s = Math.min(100, hsl.s + (amount as number));
@@ -580,6 +594,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Decrease color saturation by percentage. Make colors more muted and gray. Use for disabled states, backgrounds, or subtle variants. Keywords: desaturate color, muted color, gray out, reduce saturation, subtle color, mute.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -599,7 +614,7 @@ export const colorTools: MiniTool[] = [
       const c = (color as string).trim().toLowerCase();
       const hex = c.startsWith("#") ? c : namedColors[c] || `#${c}`;
       const rgb = hexToRgb(hex);
-      if (!rgb) return { error: "Unable to parse color" };
+      if (!rgb) throw new ToolError("INVALID_ARGUMENT", "Unable to parse color");
 
       const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
       hsl.s = Math.max(0, hsl.s - (amount as number));
@@ -613,6 +628,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Invert a color to its complement. Create opposite color on the color wheel for high contrast. Use for dark mode, contrast effects, or visual highlighting. Keywords: invert color, complement, opposite color, negate, color flip, contrast.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -631,7 +647,7 @@ export const colorTools: MiniTool[] = [
       const c = (color as string).trim().toLowerCase();
       const hex = c.startsWith("#") ? c : namedColors[c] || `#${c}`;
       const rgb = hexToRgb(hex);
-      if (!rgb) return { error: "Unable to parse color" };
+      if (!rgb) throw new ToolError("INVALID_ARGUMENT", "Unable to parse color");
 
       const inverted = { r: 255 - rgb.r, g: 255 - rgb.g, b: 255 - rgb.b };
       return { hex: rgbToHex(inverted.r, inverted.g, inverted.b), rgb: inverted };
@@ -642,6 +658,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Convert color to grayscale equivalent. Remove all color leaving only luminance. Use for print preview, disabled states, or accessibility testing. Keywords: grayscale, black white, desaturate full, monochrome, luminance, gray.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -660,7 +677,7 @@ export const colorTools: MiniTool[] = [
       const c = (color as string).trim().toLowerCase();
       const hex = c.startsWith("#") ? c : namedColors[c] || `#${c}`;
       const rgb = hexToRgb(hex);
-      if (!rgb) return { error: "Unable to parse color" };
+      if (!rgb) throw new ToolError("INVALID_ARGUMENT", "Unable to parse color");
 
       const gray = Math.round(0.299 * rgb.r + 0.587 * rgb.g + 0.114 * rgb.b);
       return {
@@ -675,6 +692,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Generate color palette from base color. Create complementary, analogous, triadic, or split-complementary schemes. Use for design systems, theme generation, or color harmony. Keywords: color palette, color scheme, complementary, analogous, triadic, color harmony.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -702,7 +720,7 @@ export const colorTools: MiniTool[] = [
       const c = (color as string).trim().toLowerCase();
       const hex = c.startsWith("#") ? c : namedColors[c] || `#${c}`;
       const rgb = hexToRgb(hex);
-      if (!rgb) return { error: "Unable to parse color" };
+      if (!rgb) throw new ToolError("INVALID_ARGUMENT", "Unable to parse color");
 
       const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
       const h = hsl.h / 360;
@@ -767,6 +785,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Blend two colors together with optional gradient steps. Mix colors for transitions, gradients, or intermediate colors. Use for creating color blends, gradients, or interpolation. Keywords: blend colors, mix colors, color gradient, interpolate colors, merge colors, gradient steps.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -792,7 +811,7 @@ export const colorTools: MiniTool[] = [
         (color2 as string).replace(/^#/, "").length === 6 ? (color2 as string) : `#${color2}`,
       );
 
-      if (!c1 || !c2) return { error: "Unable to parse colors" };
+      if (!c1 || !c2) throw new ToolError("INVALID_ARGUMENT", "Unable to parse colors");
 
       const blend = (r: number) => ({
         r: Math.round(c1.r + (c2.r - c1.r) * r),
@@ -819,6 +838,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Calculate WCAG contrast ratio between two colors. Measure accessibility compliance for text/background combinations. Returns ratio and WCAG level (AA, AAA). Use for accessibility testing, design validation, or a11y compliance. Keywords: contrast ratio, WCAG, accessibility, a11y, text contrast, background contrast.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -846,7 +866,7 @@ export const colorTools: MiniTool[] = [
           : `#${background}`,
       );
 
-      if (!fg || !bg) return { error: "Unable to parse colors" };
+      if (!fg || !bg) throw new ToolError("INVALID_ARGUMENT", "Unable to parse colors");
 
       const luminance = (c: RGB) => {
         const adjust = (v: number) => {
@@ -874,6 +894,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Generate random colors with optional constraints. Create random hex colors with saturation and lightness ranges. Use for placeholder colors, random themes, or generative design. Keywords: random color, generate color, random hex, color generator, random palette.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -922,6 +943,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Check WCAG color contrast accessibility between foreground and background colors. Verify text readability compliance for AA and AAA levels at normal and large text sizes. Suggests alternative colors when contrast fails. Use for accessibility audits, design validation, or a11y compliance. Keywords: WCAG, accessibility, a11y, contrast check, color accessibility, AA, AAA, text contrast, readability.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -1011,10 +1033,10 @@ export const colorTools: MiniTool[] = [
       const bgHex = parseColor(background as string);
 
       if (!fgHex) {
-        throw new Error(`Unable to parse foreground color: ${foreground}`);
+        throw new ToolError("INVALID_ARGUMENT", `Unable to parse foreground color: ${foreground}`);
       }
       if (!bgHex) {
-        throw new Error(`Unable to parse background color: ${background}`);
+        throw new ToolError("INVALID_ARGUMENT", `Unable to parse background color: ${background}`);
       }
 
       const fgRgb = hexToRgb(fgHex)!;
@@ -1155,6 +1177,7 @@ export const colorTools: MiniTool[] = [
     description:
       "Generate a color palette from a base color using various harmony rules. Create complementary, analogous, triadic, split-complementary, tetradic, or monochromatic palettes. Useful for design systems, UI theming, or brand color exploration. Keywords: palette, color scheme, harmony, complementary, analogous, triadic, color theory, design.",
     category: "color",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -1211,7 +1234,7 @@ export const colorTools: MiniTool[] = [
 
       const hsl = parseToHsl(baseColor as string);
       if (!hsl) {
-        throw new Error(`Unable to parse base color: ${baseColor}`);
+        throw new ToolError("INVALID_ARGUMENT", `Unable to parse base color: ${baseColor}`);
       }
 
       const n = Math.min(Math.max(count as number, 2), 10);
@@ -4,51 +4,367 @@
  * @module lib/std/tools/common
  */
 
-import type { MiniTool } from "./types.ts";
+import { abortError, ToolError } from "./errors.ts";
+import type { MiniTool, ToolContext } from "./types.ts";
 
 export type { MiniTool };
 
 /**
  * Run a command and return output
+ *
+ * A non-zero exit code is returned to the caller; failing to start the
+ * command throws COMMAND_MISSING or PERMISSION_DENIED, and exceeding the
+ * timeout throws TIMEOUT. If `signal` aborts, the process is terminated and
+ * the call rejects with CANCELLED (or TIMEOUT for deadline aborts).
+ *
+ * `onLine` is called with each line of output as it is produced (split on
+ * `\r` as well as `\n`, so progress bars yield one line per redraw); the
+ * full output is still returned at the end. `input` is written to the
+ * command's stdin.
  */
 export async function runCommand(
   cmd: string,
   args: string[],
-  options?: { cwd?: string; timeout?: number },
+  options?: {
+    cwd?: string;
+    timeout?: number;
+    signal?: AbortSignal;
+    onLine?: (line: string, stream: "stdout" | "stderr") => void;
+    input?: string;
+  },
 ): Promise<{ stdout: string; stderr: string; code: number }> {
+  const signal = options?.signal;
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
   try {
     const command = new Deno.Command(cmd, {
       args,
       cwd: options?.cwd,
+      stdin: options?.input === undefined ? undefined : "piped",
       stdout: "piped",
       stderr: "piped",
     });
 
     const timeoutMs = options?.timeout ?? 30000;
     const process = command.spawn();
+    if (options?.input !== undefined) {
+      // Write without awaiting: the command may exit before reading all of it
+      const writer = process.stdin.getWriter();
+      writer.write(new TextEncoder().encode(options.input))
+        .then(() => writer.close())
+        .catch(() => {});
+    }
 
-    // Create timeout promise
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
+    // Terminate the process on timeout or abort
+    const stopPromise = new Promise<never>((_, reject) => {
+      const stop = (error: ToolError) => {
         try {
           process.kill("SIGTERM");
         } catch { /* ignore */ }
-        reject(new Error(`Command timed out after ${timeoutMs}ms`));
+        reject(error);
+      };
+      timer = setTimeout(() => {
+        stop(new ToolError("TIMEOUT", `Command timed out after ${timeoutMs}ms`));
       }, timeoutMs);
+      if (signal) {
+        onAbort = () => stop(abortError(signal));
+        signal.addEventListener("abort", onAbort, { once: true });
+      }
+    });
+
+    const onLine = options?.onLine;
+    const completion = onLine
+      ? Promise.all([
+        readLines(process.stdout, (line) => onLine(line, "stdout")),
+        readLines(process.stderr, (line) => onLine(line, "stderr")),
+        process.status,
+      ]).then(([stdout, stderr, status]) => ({ stdout, stderr, code: status.code }))
+      : process.output().then((output) => ({
+        stdout: new TextDecoder().decode(output.stdout),
+        stderr: new TextDecoder().decode(output.stderr),
+        code: output.code,
+      }));
+
+    // Race between command completion and timeout/abort
+    return await Promise.race([completion, stopPromise]);
+  } catch (e) {
+    throw spawnError(cmd, e);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Map an error from spawning or running `cmd` to a ToolError
+ */
+function spawnError(cmd: string, e: unknown): ToolError {
+  if (e instanceof ToolError) {
+    return e;
+  }
+  if (e instanceof Deno.errors.NotFound) {
+    return new ToolError("COMMAND_MISSING", `Command not found: ${cmd}`, { cause: e });
+  }
+  if (e instanceof Deno.errors.PermissionDenied || e instanceof Deno.errors.NotCapable) {
+    return new ToolError("PERMISSION_DENIED", `Failed to execute ${cmd}: ${(e as Error).message}`, {
+      cause: e,
+    });
+  }
+  return new ToolError("UPSTREAM_ERROR", `Failed to execute ${cmd}: ${(e as Error).message}`, {
+    cause: e,
+  });
+}
+
+/** Result of streamCommand */
+export interface StreamResult {
+  /** The last `maxLines` lines of output, stdout and stderr interleaved */
+  lines: string[];
+  /** Number of lines seen in total */
+  lineCount: number;
+  /** True if earlier lines were dropped to stay within `maxLines` */
+  truncated: boolean;
+  /** Why streaming ended */
+  stoppedBy: "exit" | "duration" | "pattern";
+  /** The line that matched `until` */
+  match?: string;
+  /** Exit code, or null if the process was stopped */
+  code: number | null;
+  /** The last lines written to stderr */
+  stderr: string;
+}
+
+/**
+ * Run a command that may never exit on its own (`tail -f`, `docker logs -f`)
+ * and stream its output.
+ *
+ * The process is stopped after `duration` ms or once a line matches `until`;
+ * neither is an error. Each line goes to `onLine` as it arrives, and only
+ * the last `maxLines` (default 500) are kept for the result. Aborting
+ * `signal` stops the process and rejects like runCommand.
+ */
+export async function streamCommand(
+  cmd: string,
+  args: string[],
+  options: {
+    duration: number;
+    until?: RegExp;
+    maxLines?: number;
+    cwd?: string;
+    signal?: AbortSignal;
+    onLine?: (line: string, stream: "stdout" | "stderr") => void;
+  },
+): Promise<StreamResult> {
+  const { signal, until } = options;
+  const maxLines = options.maxLines ?? 500;
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+
+  const lines: string[] = [];
+  const stderrLines: string[] = [];
+  let lineCount = 0;
+  let stoppedBy: StreamResult["stoppedBy"] = "exit";
+  let match: string | undefined;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  try {
+    const process = new Deno.Command(cmd, {
+      args,
+      cwd: options.cwd,
+      stdout: "piped",
+      stderr: "piped",
+    }).spawn();
+
+    const kill = () => {
+      try {
+        process.kill("SIGTERM");
+      } catch { /* already exited */ }
+    };
+    const stop = (reason: StreamResult["stoppedBy"]) => {
+      if (stoppedBy !== "exit") return;
+      stoppedBy = reason;
+      kill();
+    };
+    const onLine = (line: string, stream: "stdout" | "stderr") => {
+      if (stoppedBy === "pattern") return;
+      lineCount++;
+      lines.push(line);
+      if (lines.length > maxLines) lines.shift();
+      if (stream === "stderr") {
+        stderrLines.push(line);
+        if (stderrLines.length > 20) stderrLines.shift();
+      }
+      options.onLine?.(line, stream);
+      if (until?.test(line)) {
+        match = line;
+        stop("pattern");
+      }
+    };
+
+    const abortPromise = new Promise<never>((_, reject) => {
+      if (signal) {
+        onAbort = () => {
+          kill();
+          reject(abortError(signal));
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+      }
     });
+    timer = setTimeout(() => stop("duration"), options.duration);
 
-    // Race between command completion and timeout
-    const output = await Promise.race([process.output(), timeoutPromise]);
+    const [, , status] = await Promise.race([
+      Promise.all([
+        readLines(process.stdout, (line) => onLine(line, "stdout"), false),
+        readLines(process.stderr, (line) => onLine(line, "stderr"), false),
+        process.status,
+      ]),
+      abortPromise,
+    ]);
 
     return {
-      stdout: new TextDecoder().decode(output.stdout),
-      stderr: new TextDecoder().decode(output.stderr),
-      code: output.code,
+      lines,
+      lineCount,
+      truncated: lineCount > lines.length,
+      stoppedBy,
+      ...(match !== undefined && { match }),
+      code: stoppedBy === "exit" ? status.code : null,
+      stderr: stderrLines.join("\n"),
     };
   } catch (e) {
-    if ((e as Error).message?.includes("timed out")) {
-      throw e;
+    throw spawnError(cmd, e);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/** Longest a log tool may follow its source, in seconds */
+export const FOLLOW_MAX_SECONDS = 300;
+
+/** Input schema properties for follow mode, shared by the log tools */
+export const FOLLOW_PROPERTIES = {
+  followSeconds: {
+    type: "number",
+    minimum: 0,
+    maximum: FOLLOW_MAX_SECONDS,
+    description:
+      `With follow: how long to follow, in seconds (default: 10, max: ${FOLLOW_MAX_SECONDS})`,
+  },
+  until: { type: "string", description: "With follow: stop once a line matches this regex" },
+  maxLines: { type: "number", description: "With follow: lines to return (default: 500)" },
+};
+
+/** Follow-mode arguments shared by the log tools */
+export interface FollowArgs {
+  /** How long to follow, in seconds (default 10, at most FOLLOW_MAX_SECONDS) */
+  followSeconds?: number;
+  /** Stop as soon as a line matches this regular expression */
+  until?: string;
+  /** Lines to keep for the result (default 500) */
+  maxLines?: number;
+}
+
+/**
+ * streamCommand for the log tools' follow mode: each line is reported as
+ * progress so MCP clients see output as it arrives. Following stops at
+ * `followSeconds` or just before the call's deadline, whichever comes first.
+ *
+ * The collected lines are returned joined under `outputKey` (default
+ * "logs"), alongside the streaming stats.
+ *
+ * @throws ToolError INVALID_ARGUMENT if `until` is not a valid regex
+ * @throws ToolError if the command exits non-zero
+ */
+export async function followCommand(
+  cmd: string,
+  args: string[],
+  follow: FollowArgs,
+  ctx: ToolContext | undefined,
+  options: { label: string; outputKey?: string; cwd?: string },
+): Promise<Record<string, unknown>> {
+  let until: RegExp | undefined;
+  if (follow.until) {
+    try {
+      until = new RegExp(follow.until);
+    } catch (e) {
+      throw new ToolError("INVALID_ARGUMENT", `Invalid until pattern: ${(e as Error).message}`, {
+        cause: e,
+      });
+    }
+  }
+  let duration = Math.min(follow.followSeconds ?? 10, FOLLOW_MAX_SECONDS) * 1000;
+  if (ctx?.deadline !== undefined) {
+    // Leave time to return the collected lines before the call times out
+    duration = Math.min(duration, ctx.deadline - Date.now() - 250);
+  }
+  let seen = 0;
+  const result = await streamCommand(cmd, args, {
+    duration: Math.max(duration, 0),
+    until,
+    maxLines: follow.maxLines,
+    cwd: options.cwd,
+    signal: ctx?.signal,
+    onLine: ctx?.progressRequested
+      ? (line) => ctx.reportProgress(++seen, undefined, line)
+      : undefined,
+  });
+  if (result.code) {
+    throw commandFailed(options.label, { stderr: result.stderr, code: result.code });
+  }
+  return {
+    [options.outputKey ?? "logs"]: result.lines.join("\n"),
+    lineCount: result.lineCount,
+    truncated: result.truncated,
+    stoppedBy: result.stoppedBy,
+    match: result.match,
+  };
+}
+
+/**
+ * Decode a stream, passing each non-empty line to `onLine`, and return the
+ * whole text (or "" when `collect` is false)
+ */
+async function readLines(
+  stream: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void,
+  collect = true,
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = "";
+  let pending = "";
+  const emit = (chunk: string) => {
+    if (collect) text += chunk;
+    const lines = (pending + chunk).split(/\r\n|\r|\n/);
+    pending = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line) onLine(line);
     }
-    throw new Error(`Failed to execute ${cmd}: ${(e as Error).message}`);
+  };
+  for await (const chunk of stream) {
+    emit(decoder.decode(chunk, { stream: true }));
   }
+  emit(decoder.decode());
+  if (pending) onLine(pending);
+  return text;
+}
+
+/**
+ * Build the error for a command that ran but exited non-zero
+ */
+export function commandFailed(
+  label: string,
+  result: { stderr: string; code: number },
+): ToolError {
+  const stderr = result.stderr.trim();
+  const code = /permission denied|access denied|operation not permitted/i.test(stderr)
+    ? "PERMISSION_DENIED"
+    : "UPSTREAM_ERROR";
+  return new ToolError(code, `${label} failed: ${result.stderr}`, {
+    details: { exitCode: result.code, stderr },
+  });
 }
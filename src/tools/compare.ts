@@ -8,6 +8,8 @@
 
 import * as Diff from "diff";
 import { create, type Delta } from "jsondiffpatch";
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 const jsonDiffer = create({
@@ -21,6 +23,7 @@ export const compareTools: MiniTool[] = [
     name: "diff_text",
     description: "Compare two text strings and show differences",
     category: "compare",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -67,6 +70,7 @@ export const compareTools: MiniTool[] = [
     name: "diff_json",
     description: "Compare two JSON objects and show structural differences",
     category: "compare",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -99,6 +103,7 @@ export const compareTools: MiniTool[] = [
     name: "diff_arrays",
     description: "Compare two arrays and find added/removed/common elements",
     category: "compare",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -148,6 +153,7 @@ export const compareTools: MiniTool[] = [
     name: "diff_apply",
     description: "Apply a patch/delta to text or JSON",
     category: "compare",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -166,7 +172,7 @@ export const compareTools: MiniTool[] = [
       // Text patch
       const result = Diff.applyPatch(original as string, patch as string);
       if (result === false) {
-        return { error: "Failed to apply patch" };
+        throw new ToolError("INVALID_ARGUMENT", "Failed to apply patch");
       }
       return result;
     },
@@ -175,6 +181,7 @@ export const compareTools: MiniTool[] = [
     name: "compare_semantic",
     description: "Compare values with semantic understanding (numbers, dates, etc.)",
     category: "compare",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -254,6 +261,7 @@ export const compareTools: MiniTool[] = [
     name: "compare_deep_equal",
     description: "Deep equality check for objects/arrays",
     category: "compare",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
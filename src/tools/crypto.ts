@@ -11,6 +11,8 @@
  */
 
 import * as bcrypt from "npm:bcryptjs@2.4.3";
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 // BIP39 wordlist (English - 2048 words)
@@ -426,6 +428,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Generate cryptographic hash of text using SHA algorithms. Support SHA-256 (default), SHA-1, SHA-384, SHA-512. Use for checksums, data integrity, or content addressing. Keywords: SHA hash, SHA-256, hash text, cryptographic digest, checksum, content hash.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -458,6 +461,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Generate cryptographically random UUID v4 identifiers. Create unique IDs for records, sessions, or tracking. Generate multiple UUIDs at once. Keywords: UUID, unique ID, GUID, random identifier, generate UUID, v4 UUID.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -482,6 +486,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Encode text to Base64 or decode Base64 back to text. Use for data URLs, embedding binary in JSON, or API payload encoding. Keywords: base64 encode, base64 decode, btoa atob, binary to text, data URI encoding.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -509,6 +514,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Convert text to hexadecimal representation or decode hex back to text. Useful for viewing raw bytes, encoding binary data, or protocol debugging. Keywords: hex encode, hex decode, hexadecimal, text to hex, bytes to hex.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -543,6 +549,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Generate cryptographically secure random bytes as hex string. Use for tokens, keys, nonces, or salts. Specify number of bytes needed. Keywords: random bytes, secure random, crypto random, generate nonce, random hex.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -569,6 +576,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "URL encode or decode text (percent encoding). Handle special characters for URLs safely. Use component mode for query params or full URI mode. Keywords: URL encode, URL decode, percent encoding, encodeURIComponent, query string escape.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -600,6 +608,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Encode or decode HTML entities for XSS prevention and safe display. Convert < > & \" ' to HTML entities. Essential for sanitizing user input in HTML. Keywords: HTML encode, HTML entities, escape HTML, XSS prevention, sanitize HTML.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -646,6 +655,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Generate strong random passwords with customizable options. Include/exclude uppercase, lowercase, numbers, symbols. Option to exclude similar characters (0O, 1lI). Keywords: password generator, random password, strong password, secure password, generate credentials.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/status-badge",
@@ -698,6 +708,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Decode JWT tokens to inspect header, payload, and check expiration. Does NOT verify signature - for inspection only. See claims, expiry time, issuer. Keywords: JWT decode, decode token, inspect JWT, JWT payload, token contents, check expiry.",
     category: "crypto",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -723,7 +734,7 @@ export const cryptoTools: MiniTool[] = [
           payload: {},
           signature: "",
           isExpired: false,
-          error: "Invalid JWT format: expected 3 parts separated by dots",
+          reason: "Invalid JWT format: expected 3 parts separated by dots",
         };
       }
 
@@ -769,7 +780,7 @@ export const cryptoTools: MiniTool[] = [
           payload: {},
           signature: parts[2] || "",
           isExpired: false,
-          error: `Failed to decode JWT: ${(e as Error).message}`,
+          reason: `Failed to decode JWT: ${(e as Error).message}`,
         };
       }
     },
@@ -779,6 +790,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Generate ULIDs - time-sortable unique identifiers. Better than UUID for databases as they sort chronologically. Combines timestamp with randomness. Keywords: ULID, sortable ID, time-based ID, lexicographic sort, unique identifier.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -830,6 +842,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Generate HMAC for message authentication. Combine message with secret key for tamper-proof signatures. Use for webhooks, API signing, or data integrity. Keywords: HMAC, message authentication, webhook signature, API signing, keyed hash.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -873,6 +886,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Generate TOTP codes for two-factor authentication. Compatible with Google Authenticator, Authy. Returns current code and time remaining. Keywords: TOTP, 2FA code, authenticator code, two-factor, OTP generator, Google Authenticator.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -968,6 +982,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Convert text to binary (0s and 1s) representation. Each character becomes 8-bit binary code. Use for visualizing data or educational purposes. Keywords: text to binary, binary conversion, bits representation, ASCII binary.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -995,6 +1010,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Convert binary (0s and 1s) string back to text. Decode binary representation to readable characters. Handles space-separated or continuous binary. Keywords: binary to text, decode binary, binary string, bits to text.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -1012,7 +1028,7 @@ export const cryptoTools: MiniTool[] = [
     handler: ({ binary }) => {
       const cleaned = (binary as string).replace(/\s/g, "");
       if (!/^[01]+$/.test(cleaned) || cleaned.length % 8 !== 0) {
-        throw new Error("Invalid binary string");
+        throw new ToolError("INVALID_ARGUMENT", "Invalid binary string");
       }
       const bytes = new Uint8Array(cleaned.length / 8);
       for (let i = 0; i < cleaned.length; i += 8) {
@@ -1026,6 +1042,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Convert text to Unicode code points. Show U+XXXX format, decimal values, or escaped sequences. Useful for debugging unicode, emoji analysis, or character inspection. Keywords: unicode code points, text to unicode, U+ format, character codes, emoji codes.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -1067,6 +1084,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Generate secure random tokens in hex, base64, or base64url format. Use for API keys, session tokens, or security tokens. Specify length in bytes. Keywords: generate token, API key, session token, secure token, random token, bearer token.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -1109,6 +1127,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Generate or decode HTTP Basic Authentication headers. Encode username:password to 'Basic xxx' header or decode to extract credentials. Keywords: basic auth, HTTP authentication, authorization header, decode basic, encode credentials.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -1131,7 +1150,7 @@ export const cryptoTools: MiniTool[] = [
     },
     handler: ({ username, password, header, action = "encode" }) => {
       if (action === "decode") {
-        if (!header) throw new Error("Header required for decode");
+        if (!header) throw new ToolError("INVALID_ARGUMENT", "Header required for decode");
         const h = (header as string).replace(/^Basic\s+/i, "");
         const decoded = atob(h);
         const colonIndex = decoded.indexOf(":");
@@ -1144,7 +1163,7 @@ export const cryptoTools: MiniTool[] = [
         };
       }
 
-      if (!username) throw new Error("Username required for encode");
+      if (!username) throw new ToolError("INVALID_ARGUMENT", "Username required for encode");
       const credentials = `${username}:${password || ""}`;
       const encoded = btoa(credentials);
       return {
@@ -1159,6 +1178,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Hash passwords with bcrypt or verify hashed passwords. Industry-standard password hashing with configurable cost factor. Never store plain passwords! Keywords: bcrypt, password hash, verify password, secure password, hash compare.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -1184,7 +1204,7 @@ export const cryptoTools: MiniTool[] = [
       const r = Math.min(12, Math.max(4, rounds as number)); // Limit rounds for performance
 
       if (action === "verify") {
-        if (!hash) throw new Error("Hash required for verify action");
+        if (!hash) throw new ToolError("INVALID_ARGUMENT", "Hash required for verify action");
         const valid = await bcrypt.compare(password as string, hash as string);
         return { valid, password: password as string };
       }
@@ -1203,6 +1223,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Generate BIP39 mnemonic seed phrases for cryptocurrency wallets. Create 12, 15, 18, 21, or 24 word recovery phrases. For wallet backups and key derivation. Keywords: BIP39, mnemonic phrase, seed phrase, wallet recovery, crypto wallet, word list.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -1264,6 +1285,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Generate MD5 hash of text. Legacy algorithm - NOT secure for passwords or cryptographic use. Still useful for checksums, cache keys, or non-security hashing. Keywords: MD5, md5 hash, legacy hash, checksum, non-secure hash.",
     category: "crypto",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -1427,6 +1449,7 @@ export const cryptoTools: MiniTool[] = [
     description:
       "Analyze and detect encoding type of a string. Automatically identifies base64, hex, JWT, URL-encoded, HTML entities, binary, and more. Returns the detected type and decoded content when possible. Use for decoding unknown strings, inspecting encoded data, or reverse-engineering payloads. Keywords: detect encoding, analyze string, decode unknown, encoding detection, base64 detect, hex detect, JWT detect.",
     category: "crypto",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
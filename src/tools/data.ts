@@ -7,6 +7,7 @@
  */
 
 import { faker } from "@faker-js/faker";
+import { READ_ONLY } from "./annotations.ts";
 import type { MiniTool } from "./types.ts";
 
 // Note: In faker v9, locale is set via seed or at import time
@@ -17,6 +18,7 @@ export const dataTools: MiniTool[] = [
     name: "data_person",
     description: "Generate fake person data (name, email, phone, job, etc.)",
     category: "data",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -41,6 +43,7 @@ export const dataTools: MiniTool[] = [
     name: "data_address",
     description: "Generate fake address data",
     category: "data",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {},
@@ -62,6 +65,7 @@ export const dataTools: MiniTool[] = [
     name: "data_company",
     description: "Generate fake company data",
     category: "data",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {},
@@ -79,6 +83,7 @@ export const dataTools: MiniTool[] = [
     name: "data_lorem",
     description: "Generate lorem ipsum text",
     category: "data",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -110,6 +115,7 @@ export const dataTools: MiniTool[] = [
     name: "data_internet",
     description: "Generate fake internet data (username, url, ip, etc.)",
     category: "data",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -148,6 +154,7 @@ export const dataTools: MiniTool[] = [
     name: "data_finance",
     description: "Generate fake financial data",
     category: "data",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -186,6 +193,7 @@ export const dataTools: MiniTool[] = [
     name: "data_date",
     description: "Generate fake dates",
     category: "data",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -224,6 +232,7 @@ export const dataTools: MiniTool[] = [
     name: "data_image",
     description: "Generate fake image URLs",
     category: "data",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -261,6 +270,7 @@ export const dataTools: MiniTool[] = [
     name: "data_svg_placeholder",
     description: "Generate SVG placeholder image with custom dimensions and text",
     category: "data",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -306,6 +316,7 @@ export const dataTools: MiniTool[] = [
     name: "data_qr_code",
     description: "Generate QR code as SVG (uses Google Charts API URL or generates simple pattern)",
     category: "data",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -390,6 +401,7 @@ export const dataTools: MiniTool[] = [
     name: "data_barcode",
     description: "Generate barcode URL (Code128/EAN13) via public API",
     category: "data",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
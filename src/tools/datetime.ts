@@ -37,6 +37,7 @@ import {
   parse,
   parseISO,
 } from "date-fns";
+import { READ_ONLY } from "./annotations.ts";
 import type { MiniTool } from "./types.ts";
 
 export const datetimeTools: MiniTool[] = [
@@ -45,6 +46,7 @@ export const datetimeTools: MiniTool[] = [
     description:
       "Get current date and time in various formats. Returns ISO, Unix timestamp, date-only, time-only, or custom pattern. Essential for timestamps, logging, or time-based operations. Keywords: current time, now, today date, timestamp, current datetime.",
     category: "datetime",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -83,6 +85,7 @@ export const datetimeTools: MiniTool[] = [
     description:
       "Format a date using date-fns patterns. Use yyyy for year, MM for month, dd for day, HH for hours, mm for minutes. Create custom date displays like 'EEEE, MMMM do yyyy'. Keywords: format date, date pattern, date display, custom date format, date-fns.",
     category: "datetime",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -104,6 +107,7 @@ export const datetimeTools: MiniTool[] = [
     description:
       "Calculate time difference between two dates in any unit. Get difference in seconds, minutes, hours, days, weeks, months, or years. Use for age calculation, duration, or elapsed time. Keywords: date difference, time between, days since, duration, elapsed time, age calculation.",
     category: "datetime",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -146,6 +150,7 @@ export const datetimeTools: MiniTool[] = [
     description:
       "Add or subtract time from a date. Add days, hours, months, or any unit to calculate future/past dates. Use negative values to subtract. Essential for scheduling and date calculations. Keywords: add days, add months, subtract time, date arithmetic, future date, past date.",
     category: "datetime",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -197,6 +202,7 @@ export const datetimeTools: MiniTool[] = [
     description:
       "Parse a date string and extract all components. Returns year, month, day, hour, minute, second, day of week, and both ISO and Unix formats. Use for date validation or component extraction. Keywords: parse date, extract date parts, date components, validate date, date breakdown.",
     category: "datetime",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -253,6 +259,7 @@ export const datetimeTools: MiniTool[] = [
     description:
       "Parse a cron expression and explain it in human-readable format. Shows field breakdown, natural language description, and calculates next scheduled runs. Supports standard 5-field cron (minute hour dayOfMonth month dayOfWeek). Keywords: cron parse, cron expression, cron schedule, cron explain, scheduled tasks, crontab.",
     category: "datetime",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -290,7 +297,7 @@ export const datetimeTools: MiniTool[] = [
           parts: { minute: "", hour: "", dayOfMonth: "", month: "", dayOfWeek: "" },
           nextRuns: [],
           isValid: false,
-          error: `Expected 5 fields (minute hour dayOfMonth month dayOfWeek), got ${parts.length}`,
+          reason: `Expected 5 fields (minute hour dayOfMonth month dayOfWeek), got ${parts.length}`,
         };
       }
 
@@ -420,7 +427,7 @@ export const datetimeTools: MiniTool[] = [
           },
           nextRuns: [],
           isValid: false,
-          error: "One or more fields contain invalid values",
+          reason: "One or more fields contain invalid values",
         };
       }
 
@@ -560,6 +567,7 @@ export const datetimeTools: MiniTool[] = [
     description:
       "Convert between Unix timestamp (seconds since 1970) and ISO date string. Handle both seconds and milliseconds. Essential for API timestamps and epoch time. Keywords: unix timestamp, epoch time, timestamp convert, from unix, to unix, seconds since 1970.",
     category: "datetime",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -604,6 +612,7 @@ export const datetimeTools: MiniTool[] = [
     description:
       "Parse a human-readable duration string into various formats. Supports formats like '2h 30m', '1d 12h', '90s', '1w2d', ISO 8601 durations 'P1DT2H30M'. Returns milliseconds, breakdown by unit, human-readable string, and ISO 8601 duration. Keywords: parse duration, time duration, human duration, ISO 8601 duration, convert duration.",
     category: "datetime",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -698,7 +707,7 @@ export const datetimeTools: MiniTool[] = [
           breakdown: { weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0, milliseconds: 0 },
           human: "",
           iso: "",
-          error: `Unable to parse duration: "${input}". Supported formats: "2h 30m", "1d 12h", "90s", "P1DT2H30M", "1w2d"`,
+          reason: `Unable to parse duration: "${input}". Supported formats: "2h 30m", "1d 12h", "90s", "P1DT2H30M", "1w2d"`,
         };
       }
 
@@ -763,6 +772,7 @@ export const datetimeTools: MiniTool[] = [
     description:
       "Calculate the duration between two dates. Returns the duration in various units with a breakdown. Supports ISO date strings and Unix timestamps. Keywords: time between dates, duration between, date difference, elapsed time, time span.",
     category: "datetime",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -827,7 +837,7 @@ export const datetimeTools: MiniTool[] = [
           breakdown: { weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0, milliseconds: 0 },
           human: "",
           iso: "",
-          error: `Invalid start date: "${start}". Provide an ISO date string or Unix timestamp.`,
+          reason: `Invalid start date: "${start}". Provide an ISO date string or Unix timestamp.`,
         };
       }
 
@@ -844,7 +854,7 @@ export const datetimeTools: MiniTool[] = [
           breakdown: { weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0, milliseconds: 0 },
           human: "",
           iso: "",
-          error: `Invalid end date: "${end}". Provide an ISO date string or Unix timestamp.`,
+          reason: `Invalid end date: "${end}". Provide an ISO date string or Unix timestamp.`,
         };
       }
 
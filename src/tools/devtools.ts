@@ -7,6 +7,8 @@
  * @module lib/std/devtools
  */
 
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 // Semver regex (simplified but covers most cases)
@@ -72,6 +74,7 @@ export const devtoolsTools: MiniTool[] = [
     description:
       "Parse semantic version string into components. Extract major, minor, patch, prerelease, and build metadata. Validate semver format. Keywords: semver parse, version parse, semantic version, version components, parse version string.",
     category: "devtools",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -79,10 +82,17 @@ export const devtoolsTools: MiniTool[] = [
       },
       required: ["version"],
     },
+    _meta: {
+      ui: {
+        resourceUri: "ui://mcp-std/json-viewer",
+        emits: [],
+        accepts: [],
+      },
+    },
     handler: ({ version }) => {
       const parsed = parseSemver(version as string);
       if (!parsed) {
-        return { valid: false, error: "Invalid semver format" };
+        return { valid: false, reason: "Invalid semver format" };
       }
       return {
         valid: true,
@@ -97,6 +107,7 @@ export const devtoolsTools: MiniTool[] = [
     description:
       "Compare two semantic versions. Returns -1, 0, or 1 for less than, equal, or greater than. Handles prerelease versions correctly per semver spec. Keywords: semver compare, version compare, compare versions, version order, semver sort.",
     category: "devtools",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -110,7 +121,7 @@ export const devtoolsTools: MiniTool[] = [
       const v2 = parseSemver(version2 as string);
 
       if (!v1 || !v2) {
-        return { error: "Invalid semver format" };
+        throw new ToolError("INVALID_ARGUMENT", "Invalid semver format");
       }
 
       let result: number;
@@ -141,6 +152,7 @@ export const devtoolsTools: MiniTool[] = [
     description:
       "Check if a version satisfies a range constraint. Supports operators: ^, ~, >, <, >=, <=, =, -. Keywords: semver range, version constraint, satisfies range, npm version, version match.",
     category: "devtools",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -151,7 +163,7 @@ export const devtoolsTools: MiniTool[] = [
     },
     handler: ({ version, range }) => {
       const v = parseSemver(version as string);
-      if (!v) return { error: "Invalid version" };
+      if (!v) throw new ToolError("INVALID_ARGUMENT", "Invalid version");
 
       const rangeStr = (range as string).trim();
 
@@ -244,6 +256,7 @@ export const devtoolsTools: MiniTool[] = [
     description:
       "Bump a semantic version by major, minor, or patch. Optionally add prerelease suffix. Use for release automation. Keywords: semver bump, version bump, increment version, next version, release version.",
     category: "devtools",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -259,7 +272,7 @@ export const devtoolsTools: MiniTool[] = [
     },
     handler: ({ version, type, preid }) => {
       const v = parseSemver(version as string);
-      if (!v) return { error: "Invalid version" };
+      if (!v) throw new ToolError("INVALID_ARGUMENT", "Invalid version");
 
       let newVersion: string;
       switch (type) {
@@ -290,7 +303,7 @@ export const devtoolsTools: MiniTool[] = [
           }
           break;
         default:
-          return { error: "Invalid bump type" };
+          throw new ToolError("INVALID_ARGUMENT", "Invalid bump type");
       }
 
       return {
@@ -307,6 +320,7 @@ export const devtoolsTools: MiniTool[] = [
     description:
       "Convert between Roman numerals and decimal numbers. Supports numbers 1-3999. Use for display, document numbering, or novelty. Keywords: roman numerals, convert roman, decimal to roman, roman to decimal, XIV.",
     category: "devtools",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -329,7 +343,7 @@ export const devtoolsTools: MiniTool[] = [
       ];
 
       const toRoman = (num: number): string => {
-        if (num < 1 || num > 3999) throw new Error("Number must be 1-3999");
+        if (num < 1 || num > 3999) throw new ToolError("INVALID_ARGUMENT", "Number must be 1-3999");
         let result = "";
         let remaining = num;
         for (const [numeral, val] of romanValues) {
@@ -351,7 +365,7 @@ export const devtoolsTools: MiniTool[] = [
             i += numeral.length;
           }
         }
-        if (i !== upper.length) throw new Error("Invalid Roman numeral");
+        if (i !== upper.length) throw new ToolError("INVALID_ARGUMENT", "Invalid Roman numeral");
         return result;
       };
 
@@ -364,14 +378,14 @@ export const devtoolsTools: MiniTool[] = [
       try {
         if (direction === "toRoman") {
           const num = parseInt(input, 10);
-          if (isNaN(num)) return { error: "Invalid number" };
+          if (isNaN(num)) throw new ToolError("INVALID_ARGUMENT", "Invalid number");
           return { decimal: num, roman: toRoman(num) };
         } else {
           const num = toDecimal(input);
           return { roman: input.toUpperCase(), decimal: num };
         }
       } catch (e) {
-        return { error: (e as Error).message };
+        throw new ToolError("INVALID_ARGUMENT", (e as Error).message, { cause: e });
       }
     },
   },
@@ -382,6 +396,7 @@ export const devtoolsTools: MiniTool[] = [
     description:
       "Parse .env file content into key-value object. Handles comments, quoted values, multiline, and export prefix. Use for config parsing and validation. Keywords: parse env, dotenv, .env file, environment variables, config parse.",
     category: "devtools",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -466,6 +481,7 @@ export const devtoolsTools: MiniTool[] = [
     description:
       "Convert object to .env file format. Properly quote values with spaces or special characters. Use for generating config files. Keywords: generate env, create env file, object to env, dotenv generate.",
     category: "devtools",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -517,6 +533,7 @@ export const devtoolsTools: MiniTool[] = [
     description:
       "Generate cron expression from human-readable description. Create cron syntax for scheduling. Supports common patterns. Keywords: cron generate, create cron, cron expression, schedule cron, crontab create.",
     category: "devtools",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -583,6 +600,7 @@ export const devtoolsTools: MiniTool[] = [
     description:
       "Convert numbers between different bases (binary, octal, decimal, hex, base36). Supports bases 2-36. Use for debugging, encoding, or display. Keywords: base convert, binary convert, hex convert, radix, number base.",
     category: "devtools",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -597,13 +615,13 @@ export const devtoolsTools: MiniTool[] = [
       const to = toBase as number;
 
       if (from < 2 || from > 36 || to < 2 || to > 36) {
-        return { error: "Base must be between 2 and 36" };
+        throw new ToolError("INVALID_ARGUMENT", "Base must be between 2 and 36");
       }
 
       try {
         const decimal = parseInt((value as string).replace(/^0[xXbBoO]/, ""), from);
         if (isNaN(decimal)) {
-          return { error: "Invalid number for the given base" };
+          throw new ToolError("INVALID_ARGUMENT", "Invalid number for the given base");
         }
 
         const converted = decimal.toString(to);
@@ -616,8 +634,9 @@ export const devtoolsTools: MiniTool[] = [
           converted: to === 16 ? converted.toUpperCase() : converted,
           prefixed: to === 2 ? `0b${converted}` : to === 8 ? `0o${converted}` : to === 16 ? `0x${converted.toUpperCase()}` : converted,
         };
-      } catch {
-        return { error: "Conversion failed" };
+      } catch (e) {
+        if (e instanceof ToolError) throw e;
+        throw new ToolError("INVALID_ARGUMENT", "Conversion failed", { cause: e });
       }
     },
   },
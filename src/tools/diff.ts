@@ -6,6 +6,7 @@
  * @module lib/std/diff
  */
 
+import { READ_ONLY } from "./annotations.ts";
 import type { MiniTool } from "./types.ts";
 
 // Change types
@@ -59,6 +60,7 @@ export const diffTools: MiniTool[] = [
     description:
       "Compare two texts line by line and generate diff. Show added, removed, and unchanged lines with line numbers. Use for code review, version comparison, or change tracking. Keywords: line diff, text compare, code diff, version diff, compare lines, git diff.",
     category: "diff",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -203,6 +205,7 @@ export const diffTools: MiniTool[] = [
     description:
       "Compare two texts word by word. Show added and removed words inline for fine-grained comparison. Use for document editing, proofreading, or detailed change review. Keywords: word diff, inline diff, word compare, fine diff, text changes, edit distance.",
     category: "diff",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -307,6 +310,7 @@ export const diffTools: MiniTool[] = [
     description:
       "Compare two texts character by character. Show exact character-level differences for precise comparison. Use for debugging, password comparison hints, or precise editing. Keywords: char diff, character compare, exact diff, byte compare, precise diff.",
     category: "diff",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -394,6 +398,7 @@ export const diffTools: MiniTool[] = [
     description:
       "Generate unified diff format output. Create standard diff format compatible with patch command. Use for generating patches, version control, or standard diff output. Keywords: unified diff, patch format, git diff format, standard diff, diff output, create patch.",
     category: "diff",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -536,6 +541,7 @@ export const diffTools: MiniTool[] = [
     description:
       "Apply a unified diff patch to text. Transform original text using patch additions and deletions. Use for applying patches, version merging, or automated updates. Keywords: apply patch, patch text, merge diff, apply changes, unified patch, diff apply.",
     category: "diff",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -623,6 +629,7 @@ export const diffTools: MiniTool[] = [
     description:
       "Calculate text similarity score between two strings. Get percentage similarity using various algorithms. Use for duplicate detection, fuzzy matching, or content comparison. Keywords: text similarity, similarity score, compare percentage, fuzzy compare, content similarity, match score.",
     category: "diff",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -718,6 +725,7 @@ export const diffTools: MiniTool[] = [
     description:
       "Generate HTML-highlighted diff output. Create visual diff with colored additions/deletions for web display. Use for code review UIs, document comparison, or change visualization. Keywords: HTML diff, visual diff, highlight changes, colored diff, web diff, diff display.",
     category: "diff",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -4,7 +4,24 @@
  * @module lib/std/tools/docker
  */
 
-import { type MiniTool, runCommand } from "./common.ts";
+import {
+  ADDITIVE,
+  ADDITIVE_IDEMPOTENT,
+  ADDITIVE_OPEN_WORLD,
+  DESTRUCTIVE,
+  DESTRUCTIVE_IDEMPOTENT,
+  DESTRUCTIVE_IDEMPOTENT_OPEN_WORLD,
+  READ_ONLY,
+} from "./annotations.ts";
+import {
+  commandFailed,
+  FOLLOW_PROPERTIES,
+  type FollowArgs,
+  followCommand,
+  type MiniTool,
+  runCommand,
+} from "./common.ts";
+import { createDockerPullParser, parseBuildStep, reportLines } from "./progress.ts";
 
 /**
  * Parse a size string (e.g., "100MiB", "1.5GiB", "500kB") to bytes
@@ -110,6 +127,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "List running Docker containers. Shows container status, ports, names, images, and resource usage. Use to check what services are running, debug deployment issues, monitor container health, or find container IDs for other operations. Keywords: docker ps, container list, running services, container status.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -124,14 +142,14 @@ export const dockerTools: MiniTool[] = [
         accepts: ["highlight"],
       },
     },
-    handler: async ({ all = false, format = "json" }) => {
+    handler: async ({ all = false, format = "json" }, ctx) => {
       const args = ["ps"];
       if (all) args.push("-a");
       if (format === "json") args.push("--format", "{{json .}}");
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker ps failed: ${result.stderr}`);
+        throw commandFailed("docker ps", result);
       }
 
       if (format === "json") {
@@ -147,6 +165,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "List available Docker images on the system. Shows image repository, tags, sizes, and creation dates. Use to check available images before running containers, find unused images for cleanup, or verify image pulls. Keywords: docker images, image list, repository tags, container images.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -161,14 +180,14 @@ export const dockerTools: MiniTool[] = [
         accepts: ["filter", "sort"],
       },
     },
-    handler: async ({ all = false, format = "json" }) => {
+    handler: async ({ all = false, format = "json" }, ctx) => {
       const args = ["images"];
       if (all) args.push("-a");
       if (format === "json") args.push("--format", "{{json .}}");
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker images failed: ${result.stderr}`);
+        throw commandFailed("docker images", result);
       }
 
       if (format === "json") {
@@ -184,12 +203,15 @@ export const dockerTools: MiniTool[] = [
     description:
       "Fetch logs from a Docker container for debugging and monitoring. Retrieve stdout/stderr output, filter by time range, or tail recent lines. Essential for troubleshooting container issues, viewing application output, debugging crashes, and monitoring service behavior. Keywords: container logs, debug output, stderr stdout, application logs.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
         container: { type: "string", description: "Container ID or name" },
         tail: { type: "number", description: "Number of lines to show from end (default: 100)" },
         since: { type: "string", description: "Show logs since timestamp (e.g., '10m', '1h')" },
+        follow: { type: "boolean", description: "Stream new log lines instead of a snapshot" },
+        ...FOLLOW_PROPERTIES,
       },
       required: ["container"],
     },
@@ -200,14 +222,22 @@ export const dockerTools: MiniTool[] = [
         accepts: ["setFilter", "scrollTo"],
       },
     },
-    handler: async ({ container, tail = 100, since }) => {
+    handler: async ({ container, tail = 100, since, follow, ...followArgs }, ctx) => {
       const args = ["logs", "--tail", String(tail)];
       if (since) args.push("--since", since as string);
+
+      if (follow) {
+        args.push("-f", container as string);
+        return await followCommand("docker", args, followArgs as FollowArgs, ctx, {
+          label: "docker logs",
+        });
+      }
+
       args.push(container as string);
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker logs failed: ${result.stderr}`);
+        throw commandFailed("docker logs", result);
       }
       return { logs: result.stdout, stderr: result.stderr };
     },
@@ -217,6 +247,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "List docker-compose services and their status. Shows service name, status, ports, and health for multi-container applications. Use to monitor docker-compose deployments, check which services are running, verify orchestrated application state. Keywords: compose services, multi-container, stack status, docker-compose ps.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -237,14 +268,14 @@ export const dockerTools: MiniTool[] = [
         accepts: ["highlight"],
       },
     },
-    handler: async ({ path = ".", project }) => {
+    handler: async ({ path = ".", project }, ctx) => {
       const args = ["compose"];
       if (project) args.push("-p", project as string);
       args.push("ps", "--format", "json");
 
-      const result = await runCommand("docker", args, { cwd: path as string });
+      const result = await runCommand("docker", args, { cwd: path as string, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker compose ps failed: ${result.stderr}`);
+        throw commandFailed("docker compose ps", result);
       }
 
       try {
@@ -302,6 +333,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "Get real-time resource usage statistics for Docker containers. Shows CPU percentage, memory usage/limit, network I/O, and block I/O. Use for performance monitoring, identifying resource-hungry containers, capacity planning, and detecting memory leaks. Keywords: container metrics, CPU memory, resource usage, performance stats, resource monitor.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -322,14 +354,14 @@ export const dockerTools: MiniTool[] = [
         accepts: ["highlight", "setThreshold"],
       },
     },
-    handler: async ({ container, noStream = true }) => {
+    handler: async ({ container, noStream = true }, ctx) => {
       const args = ["stats", "--format", "{{json .}}"];
       if (noStream) args.push("--no-stream");
       if (container) args.push(container as string);
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker stats failed: ${result.stderr}`);
+        throw commandFailed("docker stats", result);
       }
 
       const lines = result.stdout.trim().split("\n").filter(Boolean);
@@ -346,6 +378,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "Run a new Docker container from an image. Start containers with port mappings, volume mounts, environment variables, and resource limits. Use for deploying services, running tasks, testing images, or spinning up dev environments. Keywords: docker run, start container, deploy image, container create, port mapping, volume mount.",
     category: "system",
+    annotations: ADDITIVE,
     inputSchema: {
       type: "object",
       properties: {
@@ -378,6 +411,7 @@ export const dockerTools: MiniTool[] = [
     },
     handler: async (
       { image, name, ports, volumes, env, detach = true, rm = false, network, command },
+      ctx,
     ) => {
       const args = ["run"];
       if (detach) args.push("-d");
@@ -404,9 +438,9 @@ export const dockerTools: MiniTool[] = [
       args.push(image as string);
       if (command) args.push(...(command as string).split(" "));
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker run failed: ${result.stderr}`);
+        throw commandFailed("docker run", result);
       }
       return { containerId: result.stdout.trim(), detached: detach };
     },
@@ -416,6 +450,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "Execute a command inside a running Docker container. Run shell commands, scripts, or interactive sessions in containers. Essential for debugging, maintenance, inspecting container state, or running one-off tasks. Keywords: docker exec, container shell, run command, container bash, execute in container, container access.",
     category: "system",
+    annotations: DESTRUCTIVE,
     inputSchema: {
       type: "object",
       properties: {
@@ -434,7 +469,7 @@ export const dockerTools: MiniTool[] = [
         accepts: ["setFilter", "scrollTo"],
       },
     },
-    handler: async ({ container, command, workdir, user, env }) => {
+    handler: async ({ container, command, workdir, user, env }, ctx) => {
       const args = ["exec"];
       if (workdir) args.push("-w", workdir as string);
       if (user) args.push("-u", user as string);
@@ -446,9 +481,9 @@ export const dockerTools: MiniTool[] = [
       args.push(container as string);
       args.push("sh", "-c", command as string);
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker exec failed: ${result.stderr}`);
+        throw commandFailed("docker exec", result);
       }
       return { stdout: result.stdout, stderr: result.stderr, exitCode: result.code };
     },
@@ -458,6 +493,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "Stop one or more running Docker containers gracefully. Sends SIGTERM then SIGKILL after timeout. Use for shutting down services, restarting containers, or cleaning up. Keywords: docker stop, stop container, shutdown container, halt service, container terminate.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -477,12 +513,12 @@ export const dockerTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ containers, timeout = 10 }) => {
+    handler: async ({ containers, timeout = 10 }, ctx) => {
       const args = ["stop", "-t", String(timeout), ...(containers as string[])];
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker stop failed: ${result.stderr}`);
+        throw commandFailed("docker stop", result);
       }
       return { stopped: result.stdout.trim().split("\n").filter(Boolean) };
     },
@@ -492,6 +528,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "Remove one or more Docker containers. Delete stopped containers to free resources. Use force option for running containers. Use for cleanup, removing old containers, or resetting state. Keywords: docker rm, remove container, delete container, container cleanup, container delete.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -512,15 +549,15 @@ export const dockerTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ containers, force = false, volumes = false }) => {
+    handler: async ({ containers, force = false, volumes = false }, ctx) => {
       const args = ["rm"];
       if (force) args.push("-f");
       if (volumes) args.push("-v");
       args.push(...(containers as string[]));
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker rm failed: ${result.stderr}`);
+        throw commandFailed("docker rm", result);
       }
       return { removed: result.stdout.trim().split("\n").filter(Boolean) };
     },
@@ -530,6 +567,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "Build a Docker image from a Dockerfile. Create custom images with build args, tags, and multi-stage builds. Use for CI/CD pipelines, creating deployable images, or packaging applications. Keywords: docker build, dockerfile, build image, create image, container build, image create.",
     category: "system",
+    annotations: ADDITIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -548,7 +586,7 @@ export const dockerTools: MiniTool[] = [
         accepts: ["setFilter", "scrollTo"],
       },
     },
-    handler: async ({ path = ".", dockerfile, tag, buildArgs, target, noCache = false }) => {
+    handler: async ({ path = ".", dockerfile, tag, buildArgs, target, noCache = false }, ctx) => {
       const args = ["build"];
       if (dockerfile) args.push("-f", dockerfile as string);
       if (tag) args.push("-t", tag as string);
@@ -561,9 +599,12 @@ export const dockerTools: MiniTool[] = [
       }
       args.push(path as string);
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, {
+        signal: ctx?.signal,
+        onLine: reportLines(parseBuildStep, ctx),
+      });
       if (result.code !== 0) {
-        throw new Error(`docker build failed: ${result.stderr}`);
+        throw commandFailed("docker build", result);
       }
       return { output: result.stdout, tag };
     },
@@ -573,6 +614,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "Pull a Docker image from a registry. Download images from Docker Hub, private registries, or cloud registries. Use for updating images, preparing deployments, or fetching base images. Keywords: docker pull, download image, fetch image, registry pull, image download.",
     category: "system",
+    annotations: ADDITIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -588,14 +630,17 @@ export const dockerTools: MiniTool[] = [
         accepts: ["scrollTo"],
       },
     },
-    handler: async ({ image, platform }) => {
+    handler: async ({ image, platform }, ctx) => {
       const args = ["pull"];
       if (platform) args.push("--platform", platform as string);
       args.push(image as string);
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, {
+        signal: ctx?.signal,
+        onLine: reportLines(createDockerPullParser(), ctx),
+      });
       if (result.code !== 0) {
-        throw new Error(`docker pull failed: ${result.stderr}`);
+        throw commandFailed("docker pull", result);
       }
       return { output: result.stdout, image };
     },
@@ -605,6 +650,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "Push a Docker image to a registry. Upload images to Docker Hub, private registries, or cloud registries. Use for publishing images, CI/CD deployments, or sharing images. Keywords: docker push, upload image, publish image, registry push, image upload.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -619,10 +665,10 @@ export const dockerTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ image }) => {
-      const result = await runCommand("docker", ["push", image as string]);
+    handler: async ({ image }, ctx) => {
+      const result = await runCommand("docker", ["push", image as string], { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker push failed: ${result.stderr}`);
+        throw commandFailed("docker push", result);
       }
       return { output: result.stdout, image };
     },
@@ -632,6 +678,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "Get detailed information about Docker containers or images. Returns full JSON config including network settings, mounts, environment, and metadata. Use for debugging, auditing, or scripting. Keywords: docker inspect, container info, image info, container details, metadata, configuration.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -651,14 +698,14 @@ export const dockerTools: MiniTool[] = [
         accepts: ["expandPath", "highlight"],
       },
     },
-    handler: async ({ target, type }) => {
+    handler: async ({ target, type }, ctx) => {
       const args = ["inspect"];
       if (type) args.push("--type", type as string);
       args.push(target as string);
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker inspect failed: ${result.stderr}`);
+        throw commandFailed("docker inspect", result);
       }
       return { data: JSON.parse(result.stdout) };
     },
@@ -668,6 +715,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "List Docker networks. Shows network drivers, scopes, and connected containers. Use for debugging connectivity, managing network isolation, or viewing network topology. Keywords: docker network, list networks, network info, bridge network, container networking.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -681,13 +729,13 @@ export const dockerTools: MiniTool[] = [
         accepts: ["filter"],
       },
     },
-    handler: async ({ format = "json" }) => {
+    handler: async ({ format = "json" }, ctx) => {
       const args = ["network", "ls"];
       if (format === "json") args.push("--format", "{{json .}}");
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker network ls failed: ${result.stderr}`);
+        throw commandFailed("docker network ls", result);
       }
 
       if (format === "json") {
@@ -703,6 +751,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "List Docker volumes. Shows volume names, drivers, and mount points for persistent data storage. Use for managing data persistence, backup planning, or cleanup. Keywords: docker volume, list volumes, persistent storage, data volumes, volume info.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -716,13 +765,13 @@ export const dockerTools: MiniTool[] = [
         accepts: ["filter"],
       },
     },
-    handler: async ({ format = "json" }) => {
+    handler: async ({ format = "json" }, ctx) => {
       const args = ["volume", "ls"];
       if (format === "json") args.push("--format", "{{json .}}");
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker volume ls failed: ${result.stderr}`);
+        throw commandFailed("docker volume ls", result);
       }
 
       if (format === "json") {
@@ -738,6 +787,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "Start Docker Compose services. Bring up all services defined in compose file, with optional build and detach. Use for starting multi-container applications, development environments, or microservices stacks. Keywords: docker-compose up, start services, compose start, stack deploy, multi-container.",
     category: "system",
+    annotations: ADDITIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -762,6 +812,7 @@ export const dockerTools: MiniTool[] = [
     },
     handler: async (
       { file, services, detach = true, build = false, forceRecreate = false, cwd },
+      ctx,
     ) => {
       const args = ["compose"];
       if (file) args.push("-f", file as string);
@@ -771,9 +822,9 @@ export const dockerTools: MiniTool[] = [
       if (forceRecreate) args.push("--force-recreate");
       if (services) args.push(...(services as string[]));
 
-      const result = await runCommand("docker", args, { cwd: cwd as string });
+      const result = await runCommand("docker", args, { cwd: cwd as string, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker compose up failed: ${result.stderr}`);
+        throw commandFailed("docker compose up", result);
       }
       return { output: result.stdout, detached: detach };
     },
@@ -783,6 +834,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "Stop and remove Docker Compose services. Tear down containers, networks, and optionally volumes. Use for cleanup, resetting state, or stopping development environments. Keywords: docker-compose down, stop services, compose stop, stack teardown, cleanup.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -799,16 +851,16 @@ export const dockerTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ file, volumes = false, removeOrphans = false, cwd }) => {
+    handler: async ({ file, volumes = false, removeOrphans = false, cwd }, ctx) => {
       const args = ["compose"];
       if (file) args.push("-f", file as string);
       args.push("down");
       if (volumes) args.push("-v");
       if (removeOrphans) args.push("--remove-orphans");
 
-      const result = await runCommand("docker", args, { cwd: cwd as string });
+      const result = await runCommand("docker", args, { cwd: cwd as string, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker compose down failed: ${result.stderr}`);
+        throw commandFailed("docker compose down", result);
       }
       return { output: result.stdout };
     },
@@ -818,6 +870,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "View logs from Docker Compose services. Stream or tail logs from multiple containers at once. Use for debugging multi-container apps, monitoring service output, or troubleshooting. Keywords: compose logs, service logs, multi-container logs, docker-compose logs, stream logs.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -826,6 +879,8 @@ export const dockerTools: MiniTool[] = [
         tail: { type: "number", description: "Number of lines (default: 100)" },
         since: { type: "string", description: "Show logs since timestamp" },
         cwd: { type: "string", description: "Working directory" },
+        follow: { type: "boolean", description: "Stream new log lines instead of a snapshot" },
+        ...FOLLOW_PROPERTIES,
       },
     },
     _meta: {
@@ -835,16 +890,24 @@ export const dockerTools: MiniTool[] = [
         accepts: ["setFilter", "scrollTo"],
       },
     },
-    handler: async ({ file, services, tail = 100, since, cwd }) => {
+    handler: async ({ file, services, tail = 100, since, cwd, follow, ...followArgs }, ctx) => {
       const args = ["compose"];
       if (file) args.push("-f", file as string);
       args.push("logs", "--tail", String(tail));
       if (since) args.push("--since", since as string);
+      if (follow) args.push("--follow");
       if (services) args.push(...(services as string[]));
 
-      const result = await runCommand("docker", args, { cwd: cwd as string });
+      if (follow) {
+        return await followCommand("docker", args, followArgs as FollowArgs, ctx, {
+          label: "docker compose logs",
+          cwd: cwd as string | undefined,
+        });
+      }
+
+      const result = await runCommand("docker", args, { cwd: cwd as string, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker compose logs failed: ${result.stderr}`);
+        throw commandFailed("docker compose logs", result);
       }
       return { logs: result.stdout };
     },
@@ -854,6 +917,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "Remove unused Docker resources to free disk space. Clean up stopped containers, dangling images, unused networks and volumes. Use for maintenance, disk cleanup, or resetting Docker state. Keywords: docker prune, cleanup, disk space, remove unused, garbage collection, docker clean.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -873,7 +937,7 @@ export const dockerTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ type = "all", force = true, all = false }) => {
+    handler: async ({ type = "all", force = true, all = false }, ctx) => {
       let args: string[];
 
       if (type === "all") {
@@ -886,9 +950,9 @@ export const dockerTools: MiniTool[] = [
 
       if (force) args.push("-f");
 
-      const result = await runCommand("docker", args);
+      const result = await runCommand("docker", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`docker prune failed: ${result.stderr}`);
+        throw commandFailed("docker prune", result);
       }
       return { output: result.stdout };
     },
@@ -898,6 +962,7 @@ export const dockerTools: MiniTool[] = [
     description:
       "Show filesystem changes in a Docker container. Lists files that were added (A), changed (C), or deleted (D) compared to the image. Use for debugging container modifications, auditing changes, inspecting state drift, or understanding what a container has modified. Keywords: docker diff, filesystem changes, container changes, file modifications, container audit.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -912,10 +977,12 @@ export const dockerTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ container }) => {
-      const result = await runCommand("docker", ["diff", container as string]);
+    handler: async ({ container }, ctx) => {
+      const result = await runCommand("docker", ["diff", container as string], {
+        signal: ctx?.signal,
+      });
       if (result.code !== 0) {
-        throw new Error(`docker diff failed: ${result.stderr}`);
+        throw commandFailed("docker diff", result);
       }
 
       const lines = result.stdout.trim().split("\n").filter(Boolean);
@@ -7,6 +7,8 @@
  * @module lib/std/encoding
  */
 
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 // Morse code mapping
@@ -47,6 +49,7 @@ export const encodingTools: MiniTool[] = [
     description:
       "Apply ROT13 cipher (rotate letters by 13 positions). Self-reversing: encode and decode use the same operation. Classic simple cipher for obfuscating text. Keywords: ROT13, Caesar cipher, rotate letters, simple cipher, obfuscate text.",
     category: "encoding",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -75,6 +78,7 @@ export const encodingTools: MiniTool[] = [
     description:
       "Apply Caesar cipher with custom shift value. Shift letters by N positions in the alphabet. Use negative shift to decode. Classic substitution cipher. Keywords: Caesar cipher, shift cipher, letter rotation, encrypt text, substitution.",
     category: "encoding",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -105,6 +109,7 @@ export const encodingTools: MiniTool[] = [
     description:
       "Convert text to Morse code or decode Morse code to text. Uses international Morse code standard. Words separated by ' / ', letters by spaces. Keywords: Morse code, encode morse, decode morse, dots dashes, telegraph.",
     category: "encoding",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -157,6 +162,7 @@ export const encodingTools: MiniTool[] = [
     description:
       "Convert text to NATO phonetic alphabet or decode back. Spell out letters using standard NATO/ICAO alphabet (Alpha, Bravo, Charlie...). Use for clear communication. Keywords: NATO phonetic, spell out, Alpha Bravo, ICAO alphabet, radio alphabet.",
     category: "encoding",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -213,6 +219,7 @@ export const encodingTools: MiniTool[] = [
     description:
       "Convert text to binary representation or decode binary to text. Each character becomes 8-bit binary. Use for learning, debugging, or encoding. Keywords: binary encode, text to binary, binary decode, 8-bit, ASCII binary.",
     category: "encoding",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -257,6 +264,7 @@ export const encodingTools: MiniTool[] = [
     description:
       "Convert text to hexadecimal encoding or decode hex to text. Each byte becomes two hex digits. Common for debugging and data representation. Keywords: hex encode, hexadecimal, text to hex, hex decode, byte encoding.",
     category: "encoding",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -310,6 +318,7 @@ export const encodingTools: MiniTool[] = [
     description:
       "Convert Unicode domain names to Punycode (IDN) or decode back. Handle internationalized domain names with non-ASCII characters. Keywords: Punycode, IDN, internationalized domain, Unicode domain, xn-- prefix.",
     category: "encoding",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -343,7 +352,7 @@ export const encodingTools: MiniTool[] = [
           isAscii: ascii === input.toLowerCase(),
         };
       } catch (e) {
-        return { error: (e as Error).message };
+        throw new ToolError("INVALID_ARGUMENT", (e as Error).message, { cause: e });
       }
     },
     _meta: {
@@ -359,6 +368,7 @@ export const encodingTools: MiniTool[] = [
     description:
       "Encode text to Base32 or decode Base32 to text. Uses RFC 4648 standard alphabet. Often used in TOTP secrets and file checksums. Keywords: Base32, encode base32, decode base32, RFC 4648, TOTP secret.",
     category: "encoding",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -446,6 +456,7 @@ export const encodingTools: MiniTool[] = [
     description:
       "URL encode or decode text. Handle special characters for safe URL inclusion. Supports full URL or component encoding. Keywords: URL encode, percent encoding, urlencode, decode URL, escape URL.",
     category: "encoding",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -471,7 +482,7 @@ export const encodingTools: MiniTool[] = [
           const decoded = decodeURIComponent(input);
           return { encoded: input, decoded };
         } catch {
-          return { error: "Invalid URL encoding" };
+          throw new ToolError("INVALID_ARGUMENT", "Invalid URL encoding");
         }
       }
 
@@ -503,6 +514,7 @@ export const encodingTools: MiniTool[] = [
     description:
       "Encode text to HTML entities or decode HTML entities to text. Handle all named and numeric entities. Essential for HTML safety. Keywords: HTML entities, encode HTML, decode entities, HTML escape, XSS prevention.",
     category: "encoding",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -611,6 +623,7 @@ export const encodingTools: MiniTool[] = [
     description:
       "Decode and analyze a base64-encoded image. Detects MIME type from magic bytes (PNG, JPEG, GIF, WebP), validates the image, extracts dimensions, and returns a data URI for display. Keywords: base64 image, decode image, image preview, image metadata, base64 decode, image analyze.",
     category: "encoding",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -657,7 +670,7 @@ export const encodingTools: MiniTool[] = [
             mimeType: "",
             size: 0,
             dataUri: "",
-            error: "Invalid base64 encoding",
+            reason: "Invalid base64 encoding",
           };
         }
 
@@ -669,7 +682,7 @@ export const encodingTools: MiniTool[] = [
             mimeType: declaredMimeType || "unknown",
             size: binaryData.length,
             dataUri: "",
-            error: "Not a recognized image format (PNG, JPEG, GIF, WebP)",
+            reason: "Not a recognized image format (PNG, JPEG, GIF, WebP)",
           };
         }
 
@@ -696,7 +709,7 @@ export const encodingTools: MiniTool[] = [
           mimeType: "",
           size: 0,
           dataUri: "",
-          error: (e as Error).message,
+          reason: (e as Error).message,
         };
       }
     },
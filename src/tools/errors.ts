@@ -0,0 +1,124 @@
+/**
+ * Structured tool errors
+ *
+ * Tools signal failure by throwing a ToolError with a stable code. A value
+ * returned from a handler is always a successful result, even when it
+ * describes a negative outcome (e.g. `{ valid: false, reason }`).
+ *
+ * @module lib/std/tools/errors
+ */
+
+/** Machine-readable failure category */
+export type ToolErrorCode =
+  /** Arguments are missing, malformed or out of range */
+  | "INVALID_ARGUMENT"
+  /** A referenced file, key, instance or resource does not exist */
+  | "NOT_FOUND"
+  /** The operation did not finish in time */
+  | "TIMEOUT"
+  /** The caller cancelled the operation */
+  | "CANCELLED"
+  /** A required host binary is not installed */
+  | "COMMAND_MISSING"
+  /** The OS or a remote service refused access */
+  | "PERMISSION_DENIED"
+  /** An external command, service or API reported a failure */
+  | "UPSTREAM_ERROR"
+  /** Unexpected failure inside the tool itself */
+  | "INTERNAL";
+
+/** JSON shape of a ToolError, as sent to MCP clients */
+export interface ToolErrorPayload {
+  code: ToolErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Error thrown by tool handlers
+ */
+export class ToolError extends Error {
+  readonly code: ToolErrorCode;
+  readonly details?: Record<string, unknown>;
+
+  constructor(
+    code: ToolErrorCode,
+    message: string,
+    options?: { details?: Record<string, unknown>; cause?: unknown },
+  ) {
+    super(message, options?.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = "ToolError";
+    this.code = code;
+    if (options?.details) {
+      this.details = options.details;
+    }
+  }
+
+  toJSON(): ToolErrorPayload {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.details && { details: this.details }),
+    };
+  }
+}
+
+/** Type guard for ToolError */
+export function isToolError(error: unknown): error is ToolError {
+  return error instanceof ToolError;
+}
+
+/**
+ * Normalize anything thrown by a handler into a ToolError.
+ *
+ * Deno runtime errors and database errors map to their closest code; other
+ * errors become INTERNAL.
+ */
+export function toToolError(error: unknown): ToolError {
+  if (error instanceof ToolError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof Deno.errors.NotFound) {
+    return new ToolError("NOT_FOUND", message, { cause: error });
+  }
+  if (error instanceof Deno.errors.PermissionDenied || error instanceof Deno.errors.NotCapable) {
+    return new ToolError("PERMISSION_DENIED", message, { cause: error });
+  }
+  if (
+    error instanceof Deno.errors.TimedOut ||
+    (error instanceof DOMException && error.name === "TimeoutError")
+  ) {
+    return new ToolError("TIMEOUT", message, { cause: error });
+  }
+  if (error instanceof DOMException && error.name === "AbortError") {
+    return new ToolError("CANCELLED", message, { cause: error });
+  }
+  // Database drivers (postgres, PGlite) attach a 5-character SQLSTATE code
+  const sqlState = (error as { code?: unknown })?.code;
+  if (typeof sqlState === "string" && /^[0-9A-Z]{5}$/.test(sqlState)) {
+    return new ToolError("UPSTREAM_ERROR", message, { details: { sqlState }, cause: error });
+  }
+  if (
+    error instanceof Deno.errors.ConnectionRefused ||
+    error instanceof Deno.errors.ConnectionReset ||
+    (error instanceof TypeError && message.includes("fetch"))
+  ) {
+    return new ToolError("UPSTREAM_ERROR", message, { cause: error });
+  }
+  return new ToolError("INTERNAL", message, { cause: error });
+}
+
+/**
+ * The ToolError to throw once `signal` has aborted.
+ *
+ * A ToolError abort reason is returned as-is; a TimeoutError reason (from
+ * AbortSignal.timeout) maps to TIMEOUT and anything else to CANCELLED.
+ */
+export function abortError(signal: AbortSignal): ToolError {
+  const reason = signal.reason;
+  if (reason instanceof ToolError) return reason;
+  if (reason instanceof DOMException && reason.name === "TimeoutError") {
+    return new ToolError("TIMEOUT", "Operation timed out", { cause: reason });
+  }
+  return new ToolError("CANCELLED", "Operation cancelled", { cause: reason });
+}
@@ -6,6 +6,7 @@
  * @module lib/std/faker
  */
 
+import { ADDITIVE_IDEMPOTENT, READ_ONLY } from "./annotations.ts";
 import type { MiniTool } from "./types.ts";
 
 // Seed-based random for reproducibility
@@ -279,6 +280,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Set random seed for reproducible fake data generation. Same seed produces identical sequence of random values. Use for deterministic tests, consistent fixtures, or reproducible demos. Keywords: random seed, reproducible, deterministic, seed random, consistent data, test fixtures.",
     category: "faker",
+    annotations: ADDITIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -296,6 +298,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate fake person data with name, email, phone, and optional details. Create realistic user profiles for testing user management, profiles, or contact systems. Use for test data, demos, or user simulation. Keywords: fake person, random user, test user, mock profile, generate name, fake identity.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -364,6 +367,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate realistic fake email addresses. Create random emails with various providers for testing email validation, signup flows, or contact forms. Use for form testing, user generation, or email validation. Keywords: fake email, random email, test email, mock email, generate email, email address.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -414,6 +418,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate fake phone numbers in various formats. Create random phone numbers for US, international, or custom formats. Use for form testing, contact data, or phone validation. Keywords: fake phone, random phone, test phone, mock phone, generate phone, phone number.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -454,6 +459,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate fake street addresses with city, state, zip. Create realistic US addresses for testing location forms, shipping, or address validation. Use for form testing, user profiles, or location data. Keywords: fake address, random address, test address, mock location, generate address, street address.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -490,6 +496,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate fake company data with name, industry, and details. Create realistic business entities for testing B2B features, CRM systems, or business directories. Use for test data, demos, or company simulation. Keywords: fake company, random business, test company, mock company, generate business, company name.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -558,6 +565,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate Lorem Ipsum placeholder text. Create paragraphs, sentences, or words of fake Latin text for UI mockups, content placeholders, or testing layouts. Use for wireframes, prototypes, or content testing. Keywords: lorem ipsum, placeholder text, fake text, dummy text, sample text, filler content.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -597,6 +605,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate random UUID v4 identifiers. Create unique identifiers for database records, API resources, or tracking. Use for test IDs, mock data, or unique identifiers. Keywords: UUID, GUID, unique ID, random ID, generate UUID, identifier.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -621,6 +630,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate random dates within a range. Create fake dates for testing date pickers, scheduling, or time-based features. Supports past, future, or custom date ranges. Use for test data, event simulation, or date validation. Keywords: fake date, random date, test date, mock date, generate date, date range.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -672,6 +682,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate random numbers within range with optional precision. Create fake numeric data for testing calculations, statistics, or numeric inputs. Use for test values, mock metrics, or random integers/floats. Keywords: random number, fake number, test number, mock number, generate number, random integer.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -702,6 +713,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate random boolean values with optional probability. Create true/false values for testing toggles, flags, or conditional logic. Use for feature flags, A/B testing, or random decisions. Keywords: random boolean, fake boolean, test flag, mock boolean, true false, coin flip.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -721,6 +733,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate random colors in various formats. Create fake colors as hex, RGB, HSL, or named colors for testing color pickers or UI themes. Use for design testing, random palettes, or color validation. Keywords: random color, fake color, hex color, RGB color, generate color, color picker.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -773,6 +786,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate fake URLs for websites, APIs, or resources. Create realistic URLs for testing link validation, web scraping, or URL parsing. Use for test links, mock APIs, or URL validation. Keywords: fake URL, random URL, test URL, mock link, generate URL, website URL.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -825,6 +839,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate random browser user agent strings. Create realistic UA strings for testing browser detection, responsive features, or device simulation. Use for web testing, crawling, or device emulation. Keywords: user agent, browser string, UA string, fake browser, device emulation, web testing.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -841,6 +856,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate random IP addresses (IPv4 or IPv6). Create fake IPs for testing network code, firewall rules, or IP validation. Use for network testing, log generation, or IP parsing. Keywords: fake IP, random IP, IPv4 IPv6, test IP, mock IP, generate IP address.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -867,6 +883,7 @@ export const fakerTools: MiniTool[] = [
     description:
       "Generate fake credit card numbers with valid Luhn checksum. Create test card numbers for payment form testing (NOT for fraud). Includes number, expiry, and CVV. Use for payment testing, form validation, or checkout flows. Keywords: fake credit card, test card, mock payment, card number, Luhn, payment testing.",
     category: "faker",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -11,6 +11,8 @@
 
 import * as yaml from "npm:yaml@2.3.4";
 import * as toml from "jsr:@std/toml@1.0.1";
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 export const formatTools: MiniTool[] = [
@@ -19,6 +21,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Format numbers with locale-aware formatting. Display as currency ($1,234.56), percentage, or with units. Control decimal places and grouping. Keywords: number format, currency format, locale number, decimal places, thousand separator.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -66,6 +69,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Convert bytes to human-readable file sizes (KB, MB, GB, TB). Support binary (KiB, MiB) or decimal (KB, MB) units. Use for displaying file sizes, storage capacity, or bandwidth. Keywords: file size format, bytes to MB GB, human readable size, storage size.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -94,6 +98,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Convert milliseconds to human-readable duration. Output as short (5m 30s), long (5 minutes, 30 seconds), or clock format (5:30). Use for elapsed time, countdowns, or time tracking. Keywords: duration format, time format, milliseconds to time, elapsed time, countdown.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -149,6 +154,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Format decimal number as percentage with locale formatting. Input 0.5 outputs '50%'. Control decimal precision. Use for displaying ratios, completion rates, or statistics. Keywords: percent format, percentage display, ratio to percent, decimal to percent.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -170,6 +176,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Convert number to ordinal format (1st, 2nd, 3rd, 4th). Handles special cases correctly. Use for rankings, positions, or ordered lists. Keywords: ordinal number, 1st 2nd 3rd, number suffix, position format.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -194,6 +201,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Format array as grammatically correct list string. Support 'and' (conjunction), 'or' (disjunction), or unit formatting. Locale-aware for international use. Keywords: list format, array to string, comma separated, and or list, join with commas.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -223,6 +231,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Format relative time in human terms (e.g., '2 days ago', 'in 3 hours'). Locale-aware formatting for internationalization. Use for activity feeds, timestamps, or schedules. Keywords: relative time, time ago, days ago, in hours, human readable time.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -251,6 +260,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Select correct plural form based on count. Handles complex pluralization rules for different locales. Use for dynamic text like '1 item' vs '3 items'. Keywords: plural form, pluralize, singular plural, count based text, i18n plural.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -275,6 +285,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Truncate long text with ellipsis. Option to break at word boundaries. Customize ending string. Use for previews, excerpts, or UI text limits. Keywords: truncate text, ellipsis, shorten text, text preview, max length.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -311,6 +322,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Convert YAML configuration to JSON format. Parse YAML syntax and output valid JSON. Use for config transformation or data interchange. Keywords: YAML to JSON, convert yaml, yaml parse, config convert.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -329,6 +341,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Convert JSON to YAML configuration format. Output human-readable YAML with configurable indentation. Use for config files or readable data. Keywords: JSON to YAML, convert json, yaml output, config format.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -347,6 +360,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Convert Markdown text to HTML. Supports headers, bold, italic, code blocks, links, images, lists. Use for rendering markdown content in web pages. Keywords: markdown to HTML, md convert, render markdown, markdown parse.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -407,6 +421,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Convert HTML back to Markdown format. Transform tags to markdown syntax. Use for content extraction or documentation. Keywords: HTML to markdown, convert html, extract text, html parse.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -467,6 +482,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Pretty print JSON with indentation or minify to single line. Make JSON readable or compact for storage. Configurable indent size. Keywords: pretty JSON, format JSON, minify JSON, JSON beautify, json indent.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -486,6 +502,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Convert JSON array to CSV spreadsheet format. Auto-generate headers from object keys. Handle escaping for special characters. Use for data export. Keywords: JSON to CSV, export CSV, convert to spreadsheet, data export.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -498,7 +515,7 @@ export const formatTools: MiniTool[] = [
     handler: ({ json, delimiter = ",", includeHeaders = true }) => {
       const data = JSON.parse(json as string);
       if (!Array.isArray(data) || data.length === 0) {
-        throw new Error("Input must be a non-empty JSON array");
+        throw new ToolError("INVALID_ARGUMENT", "Input must be a non-empty JSON array");
       }
 
       const delim = delimiter as string;
@@ -530,6 +547,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Format SQL queries for readability. Add newlines, indentation, and uppercase keywords. Make complex queries readable. Keywords: SQL format, beautify SQL, SQL pretty print, format query, SQL indent.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -666,6 +684,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Format phone numbers to standard formats. Output international (+1 xxx), national ((xxx) xxx-xxxx), or E.164 format. Handle various input formats. Keywords: phone format, format telephone, E.164, international phone, phone number.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -734,6 +753,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Convert TOML configuration to JSON. Parse Cargo.toml, pyproject.toml, or other TOML files. Use for config processing or migration. Keywords: TOML to JSON, parse toml, convert toml, config convert.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -752,6 +772,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Convert JSON to TOML configuration format. Generate valid TOML from JSON objects. Use for creating config files. Keywords: JSON to TOML, generate toml, create config, toml output.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -769,6 +790,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Escape or unescape XML special characters. Convert < > & \" ' to XML entities. Essential for XML safety. Keywords: XML escape, XML entities, escape xml, sanitize xml, xml encode.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -810,6 +832,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Parse or create Java-style .properties files. Convert between properties format and JSON. Use for Java config files or i18n. Keywords: properties file, java properties, config parse, key value file.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -861,6 +884,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Beautify or minify HTML code. Add proper indentation and formatting or compress for production. Keywords: HTML beautify, format HTML, minify HTML, HTML indent, pretty HTML.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -940,6 +964,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Beautify or minify JavaScript code. Add indentation and structure or compress for production. Basic formatting without AST parsing. Keywords: JS beautify, format JavaScript, minify JS, JS indent, prettify code.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -1033,6 +1058,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Beautify or minify XML documents. Add proper indentation or compress. Use for config files, data exchange, or SOAP messages. Keywords: XML beautify, format XML, minify XML, XML indent, pretty XML.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -1100,6 +1126,7 @@ export const formatTools: MiniTool[] = [
     description:
       "Format, validate, or reformat YAML documents. Check syntax validity and normalize indentation. Use for config file validation. Keywords: YAML format, validate YAML, YAML lint, format config, check yaml.",
     category: "format",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -6,6 +6,8 @@
  * @module lib/std/geo
  */
 
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 // Earth's radius in various units
@@ -27,6 +29,7 @@ export const geoTools: MiniTool[] = [
     description:
       "Calculate distance between two coordinates using Haversine formula. Get great-circle distance between latitude/longitude points. Supports km, miles, meters, nautical miles. Use for delivery routes, proximity search, or travel distance. Keywords: haversine, distance, coordinates, lat long, GPS distance, great circle.",
     category: "geo",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/map-viewer",
@@ -75,6 +78,7 @@ export const geoTools: MiniTool[] = [
     description:
       "Calculate initial bearing/heading between two coordinates. Get compass direction from point A to point B in degrees (0-360). Use for navigation, direction indicators, or route planning. Keywords: bearing, heading, compass, direction, azimuth, navigation.",
     category: "geo",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/map-viewer",
@@ -120,6 +124,7 @@ export const geoTools: MiniTool[] = [
     description:
       "Calculate geographic midpoint between two coordinates. Find the halfway point along the great circle path. Use for meeting point calculation, route waypoints, or center finding. Keywords: midpoint, center point, halfway, middle, geographic center, waypoint.",
     category: "geo",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/map-viewer",
@@ -165,6 +170,7 @@ export const geoTools: MiniTool[] = [
     description:
       "Calculate destination point given start, bearing, and distance. Find where you end up traveling a given direction and distance. Use for route planning, radar circles, or coverage areas. Keywords: destination point, travel to, bearing distance, endpoint, project point.",
     category: "geo",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/map-viewer",
@@ -219,6 +225,7 @@ export const geoTools: MiniTool[] = [
     description:
       "Calculate bounding box containing all given points. Get min/max lat/lon rectangle enclosing a set of coordinates. Use for map viewport, search bounds, or area calculation. Keywords: bounding box, bounds, extent, envelope, min max, viewport.",
     category: "geo",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/map-viewer",
@@ -247,7 +254,7 @@ export const geoTools: MiniTool[] = [
       const pts = points as Array<{ lat: number; lon: number }>;
 
       if (pts.length === 0) {
-        return { error: "No points provided" };
+        throw new ToolError("INVALID_ARGUMENT", "No points provided");
       }
 
       let minLat = pts[0].lat;
@@ -282,6 +289,7 @@ export const geoTools: MiniTool[] = [
     description:
       "Check if a coordinate point is inside a polygon. Test if lat/lon is within a bounded area using ray casting algorithm. Use for geofencing, zone detection, or area membership. Keywords: point in polygon, contains point, geofence, inside area, ray casting, zone.",
     category: "geo",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -319,7 +327,7 @@ export const geoTools: MiniTool[] = [
       const poly = polygon as Array<{ lat: number; lon: number }>;
 
       if (poly.length < 3) {
-        return { error: "Polygon must have at least 3 vertices" };
+        throw new ToolError("INVALID_ARGUMENT", "Polygon must have at least 3 vertices");
       }
 
       // Ray casting algorithm
@@ -351,6 +359,7 @@ export const geoTools: MiniTool[] = [
     description:
       "Convert DMS (degrees, minutes, seconds) to decimal degrees. Transform traditional coordinate format to decimal for GPS and mapping. Use for data import, coordinate conversion, or legacy data. Keywords: DMS to decimal, degrees minutes seconds, coordinate convert, GPS format, traditional coords.",
     category: "geo",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -391,6 +400,7 @@ export const geoTools: MiniTool[] = [
     description:
       "Convert decimal degrees to DMS (degrees, minutes, seconds). Transform GPS coordinates to traditional format for display or printing. Use for coordinate formatting, map labels, or human-readable output. Keywords: decimal to DMS, degrees minutes seconds, format coordinate, GPS to DMS, readable coords.",
     category: "geo",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -437,6 +447,7 @@ export const geoTools: MiniTool[] = [
     description:
       "Validate latitude and longitude coordinates. Check if coordinates are within valid ranges (-90 to 90 for lat, -180 to 180 for lon). Use for input validation, data cleaning, or error checking. Keywords: validate coordinates, check lat lon, coordinate range, valid GPS, bounds check.",
     category: "geo",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -461,12 +472,12 @@ export const geoTools: MiniTool[] = [
         lat: {
           value: lat,
           valid: latValid,
-          error: latValid ? null : "Latitude must be between -90 and 90",
+          reason: latValid ? null : "Latitude must be between -90 and 90",
         },
         lon: {
           value: lon,
           valid: lonValid,
-          error: lonValid ? null : "Longitude must be between -180 and 180",
+          reason: lonValid ? null : "Longitude must be between -180 and 180",
         },
       };
     },
@@ -476,6 +487,7 @@ export const geoTools: MiniTool[] = [
     description:
       "Calculate area of a polygon in square kilometers or miles. Compute surface area of closed geographic region using spherical excess formula. Use for land area, coverage zones, or territory sizing. Keywords: polygon area, surface area, land size, zone area, territory, square km.",
     category: "geo",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/map-viewer",
@@ -509,7 +521,7 @@ export const geoTools: MiniTool[] = [
       const poly = polygon as Array<{ lat: number; lon: number }>;
 
       if (poly.length < 3) {
-        return { error: "Polygon must have at least 3 vertices" };
+        throw new ToolError("INVALID_ARGUMENT", "Polygon must have at least 3 vertices");
       }
 
       // Shoelace formula with spherical correction
@@ -553,6 +565,7 @@ export const geoTools: MiniTool[] = [
     description:
       "Find the nearest point from a list to a reference point. Sort locations by distance and return closest. Use for store locator, nearest neighbor, or proximity search. Keywords: nearest point, closest location, proximity, store locator, find nearest, sort by distance.",
     category: "geo",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -631,6 +644,7 @@ export const geoTools: MiniTool[] = [
     description:
       "Calculate geographic center (centroid) of multiple points. Find the average location of a set of coordinates. Use for cluster center, meeting point, or average location. Keywords: centroid, center point, average location, geographic mean, cluster center.",
     category: "geo",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/map-viewer",
@@ -659,7 +673,7 @@ export const geoTools: MiniTool[] = [
       const pts = points as Array<{ lat: number; lon: number }>;
 
       if (pts.length === 0) {
-        return { error: "No points provided" };
+        throw new ToolError("INVALID_ARGUMENT", "No points provided");
       }
 
       // Convert to Cartesian, average, convert back
@@ -696,6 +710,7 @@ export const geoTools: MiniTool[] = [
     description:
       "Calculate distance matrix between multiple points. Get all pairwise distances for route optimization or clustering. Use for TSP, delivery optimization, or distance analysis. Keywords: distance matrix, all pairs, pairwise distance, route optimization, TSP, clustering.",
     category: "geo",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
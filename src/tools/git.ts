@@ -4,7 +4,9 @@
  * @module lib/std/tools/git
  */
 
-import { type MiniTool, runCommand } from "./common.ts";
+import { READ_ONLY } from "./annotations.ts";
+import { commandFailed, type MiniTool, runCommand } from "./common.ts";
+import { ToolError } from "./errors.ts";
 
 export const gitTools: MiniTool[] = [
   {
@@ -12,6 +14,7 @@ export const gitTools: MiniTool[] = [
     description:
       "Get git repository status showing working directory state. Shows current branch, tracked/untracked files, staged changes, and upstream tracking info. Use to check what files are modified, staged for commit, or need attention before committing. Keywords: git status, working tree, staged files, uncommitted changes, modified files.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -26,14 +29,14 @@ export const gitTools: MiniTool[] = [
         accepts: ["filter"],
       },
     },
-    handler: async ({ cwd, short = false }) => {
+    handler: async ({ cwd, short = false }, ctx) => {
       const args = ["status"];
       if (short) args.push("-s");
       args.push("--porcelain=v2", "--branch");
 
-      const result = await runCommand("git", args, { cwd: cwd as string });
+      const result = await runCommand("git", args, { cwd: cwd as string, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`git status failed: ${result.stderr}`);
+        throw commandFailed("git status", result);
       }
 
       const lines = result.stdout.trim().split("\n");
@@ -58,6 +61,7 @@ export const gitTools: MiniTool[] = [
     description:
       "Get git commit history with author, date, and message details. View recent commits, filter by author or date range, track project evolution. Use to review changes, find specific commits, audit code history, or understand what was changed and when. Keywords: commit history, git log, revision history, changelog, commit messages, author commits.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -75,7 +79,7 @@ export const gitTools: MiniTool[] = [
         accepts: ["filter", "sort"],
       },
     },
-    handler: async ({ cwd, count = 10, oneline = true, author, since }) => {
+    handler: async ({ cwd, count = 10, oneline = true, author, since }, ctx) => {
       const args = ["log", `-${count}`];
       if (oneline) {
         args.push("--format=%H|%an|%ae|%at|%s");
@@ -83,9 +87,9 @@ export const gitTools: MiniTool[] = [
       if (author) args.push(`--author=${author}`);
       if (since) args.push(`--since=${since}`);
 
-      const result = await runCommand("git", args, { cwd: cwd as string });
+      const result = await runCommand("git", args, { cwd: cwd as string, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`git log failed: ${result.stderr}`);
+        throw commandFailed("git log", result);
       }
 
       if (oneline) {
@@ -109,6 +113,7 @@ export const gitTools: MiniTool[] = [
     description:
       "Show git diff between commits, branches, or working directory changes. View line-by-line differences, staged vs unstaged changes, or file-specific diffs. Use to review code changes before committing, compare versions, or understand what was modified. Keywords: git diff, code changes, line differences, compare files, staged changes, patch.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -125,15 +130,15 @@ export const gitTools: MiniTool[] = [
         accepts: ["goToChange", "setMode"],
       },
     },
-    handler: async ({ cwd, staged = false, file, stat = false }) => {
+    handler: async ({ cwd, staged = false, file, stat = false }, ctx) => {
       const args = ["diff"];
       if (staged) args.push("--staged");
       if (stat) args.push("--stat");
       if (file) args.push(file as string);
 
-      const result = await runCommand("git", args, { cwd: cwd as string });
+      const result = await runCommand("git", args, { cwd: cwd as string, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`git diff failed: ${result.stderr}`);
+        throw commandFailed("git diff", result);
       }
       return { diff: result.stdout, hasChanges: result.stdout.length > 0 };
     },
@@ -143,6 +148,7 @@ export const gitTools: MiniTool[] = [
     description:
       "List git branches showing local and remote branches. Shows current branch, upstream tracking, and all available branches. Use to see available branches, check current branch, find feature branches, or verify remote tracking. Keywords: git branch, branch list, current branch, remote branches, feature branches, branch management.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -158,10 +164,11 @@ export const gitTools: MiniTool[] = [
         accepts: ["filter"],
       },
     },
-    handler: async ({ cwd, all = false, current = false }) => {
+    handler: async ({ cwd, all = false, current = false }, ctx) => {
       if (current) {
         const result = await runCommand("git", ["branch", "--show-current"], {
           cwd: cwd as string,
+          signal: ctx?.signal,
         });
         return { current: result.stdout.trim() };
       }
@@ -169,9 +176,9 @@ export const gitTools: MiniTool[] = [
       const args = ["branch", "--format=%(refname:short)|%(upstream:short)|%(HEAD)"];
       if (all) args.push("-a");
 
-      const result = await runCommand("git", args, { cwd: cwd as string });
+      const result = await runCommand("git", args, { cwd: cwd as string, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`git branch failed: ${result.stderr}`);
+        throw commandFailed("git branch", result);
       }
 
       const branches = result.stdout.trim().split("\n").filter(Boolean).map((line) => {
@@ -191,6 +198,7 @@ export const gitTools: MiniTool[] = [
     description:
       "Show git blame annotations for a file with per-line commit information. View who last modified each line, when, and in which commit. Use to understand code authorship, find who introduced specific changes, or trace the history of individual lines. Keywords: git blame, line history, code authorship, who changed, annotate, line-by-line history.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -208,9 +216,9 @@ export const gitTools: MiniTool[] = [
         accepts: ["goToLine", "highlight"],
       },
     },
-    handler: async ({ cwd, file, startLine, endLine }) => {
+    handler: async ({ cwd, file, startLine, endLine }, ctx) => {
       if (!file) {
-        throw new Error("file parameter is required");
+        throw new ToolError("INVALID_ARGUMENT", "file parameter is required");
       }
 
       const args = ["blame", "--porcelain"];
@@ -224,9 +232,9 @@ export const gitTools: MiniTool[] = [
 
       args.push(file as string);
 
-      const result = await runCommand("git", args, { cwd: cwd as string });
+      const result = await runCommand("git", args, { cwd: cwd as string, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`git blame failed: ${result.stderr}`);
+        throw commandFailed("git blame", result);
       }
 
       // Parse porcelain output
@@ -332,6 +340,7 @@ export const gitTools: MiniTool[] = [
     description:
       "Get git commit graph visualization showing branch history and merges. Shows commits as a DAG (directed acyclic graph) with branch/merge topology, refs (branches, tags), and commit messages. Use to visualize repository history, understand branching strategy, find merge points, or explore project evolution visually. Keywords: git graph, commit graph, branch visualization, git history, DAG, merge history, branch topology.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -347,7 +356,7 @@ export const gitTools: MiniTool[] = [
         accepts: ["scrollTo", "highlight", "filter"],
       },
     },
-    handler: async ({ cwd, maxCount = 50, all = true }) => {
+    handler: async ({ cwd, maxCount = 50, all = true }, ctx) => {
       // Get commit graph with format:
       // %H  = full hash
       // %h  = short hash
@@ -360,15 +369,18 @@ export const gitTools: MiniTool[] = [
       const args = ["log", format, `--max-count=${maxCount}`];
       if (all) args.push("--all");
 
-      const result = await runCommand("git", args, { cwd: cwd as string });
+      const result = await runCommand("git", args, { cwd: cwd as string, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`git log failed: ${result.stderr}`);
+        throw commandFailed("git log", result);
       }
 
       // Also get graph ASCII representation for topology
       const graphArgs = ["log", "--graph", "--oneline", `--max-count=${maxCount}`];
       if (all) graphArgs.push("--all");
-      const graphResult = await runCommand("git", graphArgs, { cwd: cwd as string });
+      const graphResult = await runCommand("git", graphArgs, {
+        cwd: cwd as string,
+        signal: ctx?.signal,
+      });
 
       // Parse commits
       const commitLines = result.stdout.trim().split("\n").filter(Boolean);
@@ -455,6 +467,7 @@ export const gitTools: MiniTool[] = [
       // Get all local branches
       const branchResult = await runCommand("git", ["branch", "--format=%(refname:short)"], {
         cwd: cwd as string,
+        signal: ctx?.signal,
       });
       const localBranches = branchResult.stdout.trim().split("\n").filter(Boolean);
       for (const b of localBranches) {
@@ -473,6 +486,7 @@ export const gitTools: MiniTool[] = [
     description:
       "Get git repository contributors with commit counts. Shows all contributors sorted by number of commits. Use to analyze team contributions, identify active contributors, or generate contribution reports. Keywords: git contributors, commit count, authors, team stats, contribution analysis, committers.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -494,15 +508,15 @@ export const gitTools: MiniTool[] = [
         accepts: ["filter", "sort"],
       },
     },
-    handler: async ({ cwd, since, until }) => {
+    handler: async ({ cwd, since, until }, ctx) => {
       const args = ["shortlog", "-sne", "--all"];
 
       if (since) args.push(`--since=${since}`);
       if (until) args.push(`--until=${until}`);
 
-      const result = await runCommand("git", args, { cwd: cwd as string });
+      const result = await runCommand("git", args, { cwd: cwd as string, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`git shortlog failed: ${result.stderr}`);
+        throw commandFailed("git shortlog", result);
       }
 
       // Parse output format: "   100\tJohn Doe <john@example.com>"
@@ -540,6 +554,7 @@ export const gitTools: MiniTool[] = [
     description:
       "List all git stashes in the repository. Shows stash index, branch where stash was created, and stash message. Use to see saved work-in-progress changes, find stashes to apply or drop, or review temporary saves. Keywords: git stash, stash list, saved changes, work in progress, WIP, temporary saves.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -556,7 +571,7 @@ export const gitTools: MiniTool[] = [
         accepts: ["filter"],
       },
     },
-    handler: async ({ path = "." }) => {
+    handler: async ({ path = "." }, ctx) => {
       // Use format to get structured stash info
       // %gd = reflog selector (stash@{0})
       // %gs = reflog subject (stash message)
@@ -567,9 +582,9 @@ export const gitTools: MiniTool[] = [
         "--format=%gd|%gs|%ci",
       ];
 
-      const result = await runCommand("git", args, { cwd: path as string });
+      const result = await runCommand("git", args, { cwd: path as string, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`git stash list failed: ${result.stderr}`);
+        throw commandFailed("git stash list", result);
       }
 
       const lines = result.stdout.trim().split("\n").filter(Boolean);
@@ -611,6 +626,7 @@ export const gitTools: MiniTool[] = [
     description:
       "Get commit history for a specific file, following renames across history. Shows all commits that modified the file with author, date, and message. Use to track file evolution, find when changes were introduced, or understand file-specific history. Keywords: file history, git log file, file commits, track changes, file evolution, rename tracking.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -636,9 +652,9 @@ export const gitTools: MiniTool[] = [
         accepts: ["filter", "sort"],
       },
     },
-    handler: async ({ path = ".", file, limit = 50 }) => {
+    handler: async ({ path = ".", file, limit = 50 }, ctx) => {
       if (!file) {
-        throw new Error("file parameter is required");
+        throw new ToolError("INVALID_ARGUMENT", "file parameter is required");
       }
 
       // Use --follow to track file across renames
@@ -652,9 +668,9 @@ export const gitTools: MiniTool[] = [
         file as string,
       ];
 
-      const result = await runCommand("git", args, { cwd: path as string });
+      const result = await runCommand("git", args, { cwd: path as string, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`git log failed: ${result.stderr}`);
+        throw commandFailed("git log", result);
       }
 
       const lines = result.stdout.trim().split("\n").filter(Boolean);
@@ -0,0 +1,438 @@
+/**
+ * Graph structure and algorithms behind the algo_graph_* tools
+ *
+ * Nodes are strings. A graph is either directed or undirected, and every
+ * edge has a numeric weight (default 1); adding an edge twice updates its
+ * weight. graphInputFrom() turns the output of psql_erd, git_graph and
+ * dependency_analyze into nodes and edges, so those results can be analyzed
+ * directly.
+ *
+ * @module lib/std/graph
+ */
+
+import { Heap } from "mnemonist";
+import { ToolError } from "./errors.ts";
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  weight: number;
+}
+
+/** Nodes and edges to add to a graph */
+export interface GraphInput {
+  nodes: string[];
+  edges: GraphEdge[];
+}
+
+export class Graph {
+  readonly directed: boolean;
+  /** Outgoing edges per node (both directions for undirected graphs) */
+  private out = new Map<string, Map<string, number>>();
+  /** Incoming edges per node (directed graphs only) */
+  private in = new Map<string, Map<string, number>>();
+  private edgeTotal = 0;
+
+  constructor(directed = true) {
+    this.directed = directed;
+  }
+
+  get nodeCount(): number {
+    return this.out.size;
+  }
+
+  get edgeCount(): number {
+    return this.edgeTotal;
+  }
+
+  hasNode(node: string): boolean {
+    return this.out.has(node);
+  }
+
+  addNode(node: string): void {
+    if (this.out.has(node)) return;
+    this.out.set(node, new Map());
+    if (this.directed) this.in.set(node, new Map());
+  }
+
+  addEdge(from: string, to: string, weight = 1): void {
+    this.addNode(from);
+    this.addNode(to);
+    if (!this.out.get(from)!.has(to)) this.edgeTotal++;
+    this.out.get(from)!.set(to, weight);
+    if (this.directed) this.in.get(to)!.set(from, weight);
+    else this.out.get(to)!.set(from, weight);
+  }
+
+  add({ nodes, edges }: GraphInput): void {
+    for (const node of nodes) this.addNode(node);
+    for (const { from, to, weight } of edges) this.addEdge(from, to, weight);
+  }
+
+  /** Nodes in insertion order */
+  nodes(): string[] {
+    return [...this.out.keys()];
+  }
+
+  /** Every edge once (undirected edges in the direction they were first seen) */
+  edges(): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+    const done = new Set<string>();
+    for (const [from, targets] of this.out) {
+      for (const [to, weight] of targets) {
+        if (this.directed || !done.has(to)) edges.push({ from, to, weight });
+      }
+      done.add(from);
+    }
+    return edges;
+  }
+
+  /** Nodes reachable over one edge, with the edge weights */
+  successors(node: string): Map<string, number> {
+    return this.out.get(node) ?? new Map();
+  }
+
+  /** Nodes with an edge to `node` (the neighbours, for undirected graphs) */
+  predecessors(node: string): Map<string, number> {
+    return (this.directed ? this.in : this.out).get(node) ?? new Map();
+  }
+
+  /** Throw NOT_FOUND unless `node` exists */
+  requireNode(node: string): void {
+    if (!this.out.has(node)) throw new ToolError("NOT_FOUND", `Node not found: ${node}`);
+  }
+}
+
+// ============================================================================
+// Input
+// ============================================================================
+
+/**
+ * Parse an edge list: [from, to, weight?] tuples or { from, to, weight? }
+ * objects (`source`/`target` are accepted for from/to)
+ */
+export function parseEdges(edges: unknown[]): GraphEdge[] {
+  return edges.map((edge, i) => {
+    const fields = (edge ?? {}) as Record<string, unknown>;
+    const [from, to, weight] = Array.isArray(edge)
+      ? edge
+      : [fields.from ?? fields.source, fields.to ?? fields.target, fields.weight];
+    if (from === undefined || from === null || to === undefined || to === null) {
+      throw new ToolError("INVALID_ARGUMENT", `Edge ${i} needs a from and a to node`);
+    }
+    if (weight !== undefined && typeof weight !== "number") {
+      throw new ToolError("INVALID_ARGUMENT", `Edge ${i} has a non-numeric weight`);
+    }
+    return { from: String(from), to: String(to), weight: weight ?? 1 };
+  });
+}
+
+/**
+ * Nodes and edges from the result of another tool:
+ * - psql_erd: tables, with an edge per foreign key (referencing -> referenced table)
+ * - git_graph: commits by short hash, with an edge from each commit to its parents
+ * - dependency_analyze: the package and its dependencies (dependent -> dependency)
+ */
+export function graphInputFrom(data: Record<string, unknown>): GraphInput {
+  const list = (value: unknown) => (Array.isArray(value) ? value : []) as Record<string, unknown>[];
+
+  if (Array.isArray(data.relationships)) {
+    return {
+      nodes: list(data.tables).map((table) => String(table.name)),
+      edges: list(data.relationships).map((r) => ({
+        from: String(r.fromTable),
+        to: String(r.toTable),
+        weight: 1,
+      })),
+    };
+  }
+
+  if (Array.isArray(data.commits)) {
+    const commits = list(data.commits);
+    const short = new Map(commits.map((c) => [String(c.hash), String(c.shortHash ?? c.hash)]));
+    const name = (hash: string) => short.get(hash) ?? hash.slice(0, 7);
+    return {
+      nodes: commits.map((c) => name(String(c.hash))),
+      edges: commits.flatMap((c) =>
+        list(c.parents).map((parent) => ({
+          from: name(String(c.hash)),
+          to: name(String(parent)),
+          weight: 1,
+        }))
+      ),
+    };
+  }
+
+  if (Array.isArray(data.dependencies)) {
+    const root = String(data.name ?? "root");
+    const deps = [...list(data.dependencies), ...list(data.devDependencies)];
+    return {
+      nodes: [root],
+      edges: deps.map((dep) => ({
+        from: String(dep.parent ?? root),
+        to: String(dep.name),
+        weight: 1,
+      })),
+    };
+  }
+
+  throw new ToolError(
+    "INVALID_ARGUMENT",
+    "Unrecognized graph data: expected the result of psql_erd, git_graph or dependency_analyze",
+  );
+}
+
+// ============================================================================
+// Algorithms
+// ============================================================================
+
+/**
+ * Strongly connected components (Tarjan), each in discovery order. For
+ * undirected graphs these are the connected components.
+ */
+export function stronglyConnectedComponents(graph: Graph): string[][] {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  for (const root of graph.nodes()) {
+    if (index.has(root)) continue;
+    // Iterative DFS: each frame is a node and the iterator over its successors
+    const frames: Array<[string, Iterator<string>]> = [];
+    const visit = (node: string) => {
+      index.set(node, index.size);
+      low.set(node, index.get(node)!);
+      stack.push(node);
+      onStack.add(node);
+      frames.push([node, graph.successors(node).keys()]);
+    };
+    visit(root);
+
+    while (frames.length > 0) {
+      const [node, successors] = frames[frames.length - 1];
+      const next = successors.next();
+      if (!next.done) {
+        if (!index.has(next.value)) visit(next.value);
+        else if (onStack.has(next.value)) {
+          low.set(node, Math.min(low.get(node)!, index.get(next.value)!));
+        }
+        continue;
+      }
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1][0];
+        low.set(parent, Math.min(low.get(parent)!, low.get(node)!));
+      }
+      if (low.get(node) === index.get(node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== node);
+        components.push(component.reverse());
+      }
+    }
+  }
+  return components;
+}
+
+/** Weakly connected components: nodes linked by edges in either direction */
+export function connectedComponents(graph: Graph): string[][] {
+  const seen = new Set<string>();
+  const components: string[][] = [];
+  for (const start of graph.nodes()) {
+    if (seen.has(start)) continue;
+    const component = [start];
+    seen.add(start);
+    for (let i = 0; i < component.length; i++) {
+      const node = component[i];
+      for (const next of [...graph.successors(node).keys(), ...graph.predecessors(node).keys()]) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          component.push(next);
+        }
+      }
+    }
+    components.push(component);
+  }
+  return components;
+}
+
+/**
+ * Topological order (Kahn's algorithm, ties in insertion order). When the
+ * graph has cycles, `order` holds only the nodes outside them and `cycles`
+ * lists each strongly connected component that contains a cycle.
+ */
+export function topologicalSort(graph: Graph): { order: string[]; cycles: string[][] } {
+  if (!graph.directed) {
+    throw new ToolError("INVALID_ARGUMENT", "Topological sort needs a directed graph");
+  }
+  const inDegree = new Map(graph.nodes().map((node) => [node, graph.predecessors(node).size]));
+  const order = graph.nodes().filter((node) => inDegree.get(node) === 0);
+  for (let i = 0; i < order.length; i++) {
+    for (const next of graph.successors(order[i]).keys()) {
+      const degree = inDegree.get(next)! - 1;
+      inDegree.set(next, degree);
+      if (degree === 0) order.push(next);
+    }
+  }
+  if (order.length === graph.nodeCount) return { order, cycles: [] };
+
+  const cycles = stronglyConnectedComponents(graph).filter((component) =>
+    component.length > 1 || graph.successors(component[0]).has(component[0])
+  );
+  return { order, cycles };
+}
+
+/**
+ * Cheapest path by edge weight (Dijkstra, or A* when a heuristic is given).
+ * The heuristic must never overestimate the remaining cost. Returns
+ * undefined when `to` is unreachable.
+ */
+export function shortestPath(
+  graph: Graph,
+  from: string,
+  to: string,
+  heuristic: (node: string) => number = () => 0,
+): { path: string[]; distance: number; visited: number } | undefined {
+  graph.requireNode(from);
+  graph.requireNode(to);
+  const distance = new Map([[from, 0]]);
+  const previous = new Map<string, string>();
+  const done = new Set<string>();
+  const open = new Heap<[number, string]>((a, b) => a[0] - b[0]);
+  open.push([heuristic(from), from]);
+
+  while (open.size > 0) {
+    const [, node] = open.pop()!;
+    if (done.has(node)) continue;
+    done.add(node);
+    if (node === to) break;
+    for (const [next, weight] of graph.successors(node)) {
+      if (weight < 0) {
+        throw new ToolError("INVALID_ARGUMENT", `Negative edge weight ${node} -> ${next}`);
+      }
+      const candidate = distance.get(node)! + weight;
+      if (candidate < (distance.get(next) ?? Infinity)) {
+        distance.set(next, candidate);
+        previous.set(next, node);
+        open.push([candidate + heuristic(next), next]);
+      }
+    }
+  }
+
+  if (!distance.has(to)) return undefined;
+  const path = [to];
+  while (path[0] !== from) path.unshift(previous.get(path[0])!);
+  return { path, distance: distance.get(to)!, visited: done.size };
+}
+
+/**
+ * Minimum spanning forest (Kruskal), treating directed edges as undirected:
+ * one tree per connected component
+ */
+export function minimumSpanningTree(graph: Graph): { edges: GraphEdge[]; weight: number } {
+  const parent = new Map(graph.nodes().map((node) => [node, node]));
+  const find = (node: string): string => {
+    while (parent.get(node) !== node) {
+      parent.set(node, parent.get(parent.get(node)!)!);
+      node = parent.get(node)!;
+    }
+    return node;
+  };
+
+  const edges: GraphEdge[] = [];
+  let weight = 0;
+  for (const edge of graph.edges().sort((a, b) => a.weight - b.weight)) {
+    const a = find(edge.from);
+    const b = find(edge.to);
+    if (a === b) continue;
+    parent.set(a, b);
+    edges.push(edge);
+    weight += edge.weight;
+  }
+  return { edges, weight };
+}
+
+/**
+ * PageRank by power iteration. Links are weighted by edge weight; nodes
+ * without outgoing edges spread their rank over all nodes.
+ */
+export function pageRank(
+  graph: Graph,
+  { damping = 0.85, maxIterations = 100, tolerance = 1e-6 } = {},
+): { ranks: Map<string, number>; iterations: number } {
+  const nodes = graph.nodes();
+  const n = nodes.length;
+  let ranks = new Map(nodes.map((node) => [node, 1 / n]));
+  let iterations = 0;
+
+  while (iterations < maxIterations && n > 0) {
+    iterations++;
+    let dangling = 0;
+    const next = new Map(nodes.map((node) => [node, (1 - damping) / n]));
+    for (const node of nodes) {
+      const rank = ranks.get(node)!;
+      const links = graph.successors(node);
+      let total = 0;
+      for (const weight of links.values()) total += Math.max(0, weight);
+      if (total === 0) {
+        dangling += rank;
+        continue;
+      }
+      for (const [target, weight] of links) {
+        next.set(target, next.get(target)! + (damping * rank * Math.max(0, weight)) / total);
+      }
+    }
+    let delta = 0;
+    for (const node of nodes) {
+      const rank = next.get(node)! + (damping * dangling) / n;
+      delta += Math.abs(rank - ranks.get(node)!);
+      next.set(node, rank);
+    }
+    ranks = next;
+    if (delta < tolerance) break;
+  }
+  return { ranks, iterations };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/** Nodes without any edge, which edge lists alone would not show */
+const isolatedNodes = (graph: Graph) =>
+  graph.nodes().filter((node) =>
+    graph.successors(node).size === 0 && graph.predecessors(node).size === 0
+  );
+
+/** Graphviz DOT source; weights other than 1 become edge labels */
+export function toDot(graph: Graph, name = "G"): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  const arrow = graph.directed ? "->" : "--";
+  const lines = [`${graph.directed ? "digraph" : "graph"} ${quote(name)} {`];
+  for (const node of isolatedNodes(graph)) lines.push(`  ${quote(node)};`);
+  for (const { from, to, weight } of graph.edges()) {
+    const label = weight === 1 ? "" : ` [label="${weight}"]`;
+    lines.push(`  ${quote(from)} ${arrow} ${quote(to)}${label};`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/** Mermaid flowchart source; weights other than 1 become edge labels */
+export function toMermaid(graph: Graph, direction = "LR"): string {
+  const ids = new Map(graph.nodes().map((node, i) => [node, `n${i}`]));
+  const lines = [`flowchart ${direction}`];
+  for (const [node, id] of ids) lines.push(`  ${id}["${node.replace(/"/g, "#quot;")}"]`);
+  const link = graph.directed ? "-->" : "---";
+  for (const { from, to, weight } of graph.edges()) {
+    const label = weight === 1 ? "" : `|${weight}|`;
+    lines.push(`  ${ids.get(from)} ${link}${label} ${ids.get(to)}`);
+  }
+  return lines.join("\n");
+}
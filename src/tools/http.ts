@@ -6,8 +6,21 @@
  * @module lib/std/http
  */
 
+import {
+  ADDITIVE_OPEN_WORLD,
+  DESTRUCTIVE_OPEN_WORLD,
+  READ_ONLY,
+  READ_ONLY_OPEN_WORLD,
+} from "./annotations.ts";
 import type { MiniTool } from "./types.ts";
 import { runCommand } from "./common.ts";
+import { abortError, ToolError } from "./errors.ts";
+
+/** Error for a failed fetch: the abort reason if the call was cancelled, else UPSTREAM_ERROR */
+function fetchFailed(e: unknown, signal?: AbortSignal): ToolError {
+  if (signal?.aborted) return abortError(signal);
+  return new ToolError("UPSTREAM_ERROR", (e as Error).message, { cause: e });
+}
 
 export const httpTools: MiniTool[] = [
   {
@@ -15,6 +28,7 @@ export const httpTools: MiniTool[] = [
     description:
       "Make HTTP GET request to fetch data from a URL. Retrieve API responses, download web content, or check endpoints. Supports custom headers and response types (json, text, blob). Use for REST API calls, data fetching, or web scraping. Keywords: HTTP GET, fetch API, REST GET, download URL, API request, web fetch.",
     category: "http",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -35,11 +49,12 @@ export const httpTools: MiniTool[] = [
         accepts: ["expandPath"],
       },
     },
-    handler: async ({ url, headers, responseType = "json" }) => {
+    handler: async ({ url, headers, responseType = "json" }, ctx) => {
       try {
         const response = await fetch(url as string, {
           method: "GET",
           headers: headers as HeadersInit | undefined,
+          signal: ctx?.signal,
         });
 
         const result = {
@@ -62,7 +77,7 @@ export const httpTools: MiniTool[] = [
         }
         return result;
       } catch (e) {
-        return { error: (e as Error).message };
+        throw fetchFailed(e, ctx?.signal);
       }
     },
   },
@@ -71,6 +86,7 @@ export const httpTools: MiniTool[] = [
     description:
       "Make HTTP POST request to send data to a server. Submit forms, create resources, or authenticate with APIs. Supports JSON, form-urlencoded, and plain text body formats. Use for REST API calls, form submissions, or data creation. Keywords: HTTP POST, send data, API post, submit form, create resource, REST POST.",
     category: "http",
+    annotations: ADDITIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -92,7 +108,7 @@ export const httpTools: MiniTool[] = [
         accepts: ["expandPath"],
       },
     },
-    handler: async ({ url, body, headers = {}, contentType = "json" }) => {
+    handler: async ({ url, body, headers = {}, contentType = "json" }, ctx) => {
       try {
         const hdrs = { ...(headers as Record<string, string>) };
         let bodyStr: string | undefined;
@@ -115,6 +131,7 @@ export const httpTools: MiniTool[] = [
           method: "POST",
           headers: hdrs,
           body: bodyStr,
+          signal: ctx?.signal,
         });
 
         return {
@@ -124,7 +141,7 @@ export const httpTools: MiniTool[] = [
           data: await response.json().catch(() => response.text()),
         };
       } catch (e) {
-        return { error: (e as Error).message };
+        throw fetchFailed(e, ctx?.signal);
       }
     },
   },
@@ -133,6 +150,7 @@ export const httpTools: MiniTool[] = [
     description:
       "Make HTTP request with any method (GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS). Full control over request configuration including headers and body. Use for REST APIs, custom HTTP operations, or when GET/POST shortcuts are insufficient. Keywords: HTTP request, fetch, PUT PATCH DELETE, REST API, custom request, HTTP method.",
     category: "http",
+    annotations: DESTRUCTIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -154,11 +172,12 @@ export const httpTools: MiniTool[] = [
         accepts: ["expandPath"],
       },
     },
-    handler: async ({ url, method, headers, body }) => {
+    handler: async ({ url, method, headers, body }, ctx) => {
       try {
         const options: RequestInit = {
           method: method as string,
           headers: headers as HeadersInit | undefined,
+          signal: ctx?.signal,
         };
 
         if (body && method !== "GET" && method !== "HEAD") {
@@ -188,7 +207,7 @@ export const httpTools: MiniTool[] = [
           data,
         };
       } catch (e) {
-        return { error: (e as Error).message };
+        throw fetchFailed(e, ctx?.signal);
       }
     },
   },
@@ -197,6 +216,7 @@ export const httpTools: MiniTool[] = [
     description:
       "Build URL by combining base URL with query parameters. Construct API URLs dynamically, add search params, or prepare request URLs. Properly encodes parameter values. Use for URL construction, API calls with filters, or pagination. Keywords: build URL, query params, URL encode, add parameters, construct URL, querystring.",
     category: "http",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -229,6 +249,7 @@ export const httpTools: MiniTool[] = [
     description:
       "Parse URL into its components (protocol, host, port, path, query params, hash). Extract parts of a URL for analysis or manipulation. Use for URL validation, extracting domains, or parsing API endpoints. Keywords: parse URL, URL components, extract domain, URL parts, hostname, query params.",
     category: "http",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -259,7 +280,7 @@ export const httpTools: MiniTool[] = [
           origin: parsed.origin,
         };
       } catch (e) {
-        return { error: (e as Error).message };
+        throw new ToolError("INVALID_ARGUMENT", (e as Error).message, { cause: e });
       }
     },
   },
@@ -268,6 +289,7 @@ export const httpTools: MiniTool[] = [
     description:
       "Encode or decode URI components and full URIs. Handle special characters in URLs, prepare strings for URL inclusion, or decode URL-encoded text. Use for URL safety, encoding query values, or decoding received URLs. Keywords: URL encode, URI encode, encodeURIComponent, decode URL, percent encoding, escape URL.",
     category: "http",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -301,6 +323,7 @@ export const httpTools: MiniTool[] = [
     description:
       "Fetch only HTTP headers from a URL using HEAD request. Retrieve response headers without downloading the body. Check content-type, content-length, cache headers, CORS, or server info efficiently. Use for header inspection, resource metadata, or pre-flight checks. Keywords: HTTP headers, HEAD request, response headers, content-type, cache-control, CORS headers, server info.",
     category: "http",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -315,10 +338,11 @@ export const httpTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ url }) => {
+    handler: async ({ url }, ctx) => {
       try {
         const response = await fetch(url as string, {
           method: "HEAD",
+          signal: ctx?.signal,
         });
 
         return {
@@ -329,7 +353,7 @@ export const httpTools: MiniTool[] = [
           headers: Object.fromEntries(response.headers.entries()),
         };
       } catch (e) {
-        return { error: (e as Error).message };
+        throw fetchFailed(e, ctx?.signal);
       }
     },
   },
@@ -338,6 +362,7 @@ export const httpTools: MiniTool[] = [
     description:
       "Measure HTTP request timing phases (DNS, connect, TLS, TTFB, download). Returns detailed timing breakdown similar to Chrome DevTools Network panel. Use for performance analysis, latency debugging, identifying slow phases, or network diagnostics. Keywords: HTTP timing, request latency, TTFB, time to first byte, network performance, DNS lookup time, TLS handshake, connection timing, waterfall chart.",
     category: "http",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -380,7 +405,7 @@ export const httpTools: MiniTool[] = [
       body,
       timeout = 30,
       followRedirects = true,
-    }) => {
+    }, ctx) => {
       // curl -w format string for timing metrics (all times in seconds)
       // time_namelookup: DNS lookup complete
       // time_connect: TCP connection complete
@@ -428,10 +453,11 @@ export const httpTools: MiniTool[] = [
 
       const result = await runCommand("curl", args, {
         timeout: (timeout as number) * 1000 + 5000,
+        signal: ctx?.signal,
       });
 
       if (result.code !== 0) {
-        throw new Error(`curl failed: ${result.stderr || "Unknown error"}`);
+        throw new ToolError("UPSTREAM_ERROR", `curl failed: ${result.stderr || "Unknown error"}`);
       }
 
       // Parse timing output: "dns:0.001 connect:0.002 tls:0.003 ttfb:0.004 total:0.005 status:200"
@@ -487,6 +513,7 @@ export const httpTools: MiniTool[] = [
     description:
       "Parse and analyze HTTP headers to extract security, caching, content, CORS, and authentication information. Provides security score based on best practices (HSTS, CSP, X-Frame-Options, etc.). Use for security audits, header analysis, or debugging HTTP responses. Keywords: HTTP headers, security headers, HSTS, CSP, Content-Security-Policy, X-Frame-Options, cache-control, CORS headers, Set-Cookie, parse headers.",
     category: "http",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -7,6 +7,8 @@
  * @module lib/std/iptools
  */
 
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 // Helper: Convert IP string to 32-bit number
@@ -77,6 +79,7 @@ export const iptoolsTools: MiniTool[] = [
     description:
       "Calculate subnet information from CIDR notation (e.g., 192.168.1.0/24). Returns network address, broadcast, usable range, host count, and wildcard mask. Essential for network planning. Keywords: CIDR calculator, subnet calculator, network address, broadcast address, IP range.",
     category: "network",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -94,12 +97,12 @@ export const iptoolsTools: MiniTool[] = [
     handler: ({ cidr }) => {
       const [ipStr, prefixStr] = (cidr as string).split("/");
       if (!isValidIPv4(ipStr)) {
-        return { error: "Invalid IPv4 address" };
+        throw new ToolError("INVALID_ARGUMENT", "Invalid IPv4 address");
       }
 
       const prefix = parseInt(prefixStr, 10);
       if (isNaN(prefix) || prefix < 0 || prefix > 32) {
-        return { error: "Invalid prefix length (must be 0-32)" };
+        throw new ToolError("INVALID_ARGUMENT", "Invalid prefix length (must be 0-32)");
       }
 
       const ip = ipToNum(ipStr);
@@ -160,6 +163,7 @@ export const iptoolsTools: MiniTool[] = [
     description:
       "Check if an IP address is within a CIDR range. Verify if an IP belongs to a subnet. Use for firewall rules, access control, or network validation. Keywords: IP in range, CIDR contains, subnet check, IP membership, network contains.",
     category: "network",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -178,12 +182,12 @@ export const iptoolsTools: MiniTool[] = [
     handler: ({ cidr, ip }) => {
       const [networkStr, prefixStr] = (cidr as string).split("/");
       if (!isValidIPv4(networkStr) || !isValidIPv4(ip as string)) {
-        return { error: "Invalid IP address" };
+        throw new ToolError("INVALID_ARGUMENT", "Invalid IP address");
       }
 
       const prefix = parseInt(prefixStr, 10);
       if (isNaN(prefix) || prefix < 0 || prefix > 32) {
-        return { error: "Invalid prefix length" };
+        throw new ToolError("INVALID_ARGUMENT", "Invalid prefix length");
       }
 
       const mask = prefixToMask(prefix);
@@ -206,6 +210,7 @@ export const iptoolsTools: MiniTool[] = [
     description:
       "Divide a network into smaller subnets. Split a CIDR block into N equal subnets or subnets of a specific size. Use for network planning and IP allocation. Keywords: subnet divide, split network, subnetting, divide CIDR, allocate subnets.",
     category: "network",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -228,28 +233,28 @@ export const iptoolsTools: MiniTool[] = [
     handler: ({ cidr, count, newPrefix }) => {
       const [networkStr, prefixStr] = (cidr as string).split("/");
       if (!isValidIPv4(networkStr)) {
-        return { error: "Invalid network address" };
+        throw new ToolError("INVALID_ARGUMENT", "Invalid network address");
       }
 
       const prefix = parseInt(prefixStr, 10);
       if (isNaN(prefix) || prefix < 0 || prefix > 32) {
-        return { error: "Invalid prefix length" };
+        throw new ToolError("INVALID_ARGUMENT", "Invalid prefix length");
       }
 
       let targetPrefix: number;
       if (newPrefix !== undefined) {
         targetPrefix = newPrefix as number;
         if (targetPrefix <= prefix || targetPrefix > 32) {
-          return { error: "New prefix must be greater than current prefix and <= 32" };
+          throw new ToolError("INVALID_ARGUMENT", "New prefix must be greater than current prefix and <= 32");
         }
       } else if (count !== undefined) {
         const bitsNeeded = Math.ceil(Math.log2(count as number));
         targetPrefix = prefix + bitsNeeded;
         if (targetPrefix > 32) {
-          return { error: `Cannot create ${count} subnets from /${prefix}` };
+          throw new ToolError("INVALID_ARGUMENT", `Cannot create ${count} subnets from /${prefix}`);
         }
       } else {
-        return { error: "Provide either count or newPrefix" };
+        throw new ToolError("INVALID_ARGUMENT", "Provide either count or newPrefix");
       }
 
       const mask = prefixToMask(prefix);
@@ -285,6 +290,7 @@ export const iptoolsTools: MiniTool[] = [
     description:
       "Convert IP address between different formats: dotted decimal, integer, binary, hexadecimal. Useful for debugging, firewall rules, and network programming. Keywords: IP convert, decimal to IP, IP to binary, IP to hex, IP formats.",
     category: "network",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -312,22 +318,22 @@ export const iptoolsTools: MiniTool[] = [
       if (from === "integer" || (!from && /^\d+$/.test(input) && !input.includes("."))) {
         num = parseInt(input, 10);
         if (num < 0 || num > 0xffffffff) {
-          return { error: "Integer out of range (0 to 4294967295)" };
+          throw new ToolError("INVALID_ARGUMENT", "Integer out of range (0 to 4294967295)");
         }
       } else if (from === "hex" || (!from && /^(0x)?[0-9a-fA-F]+$/.test(input))) {
         num = parseInt(input.replace(/^0x/, ""), 16);
         if (num < 0 || num > 0xffffffff) {
-          return { error: "Hex value out of range" };
+          throw new ToolError("INVALID_ARGUMENT", "Hex value out of range");
         }
       } else if (from === "binary" || (!from && /^[01.\s]+$/.test(input))) {
         const cleanBinary = input.replace(/[.\s]/g, "");
         if (cleanBinary.length !== 32) {
-          return { error: "Binary must be 32 bits" };
+          throw new ToolError("INVALID_ARGUMENT", "Binary must be 32 bits");
         }
         num = parseInt(cleanBinary, 2);
       } else {
         if (!isValidIPv4(input)) {
-          return { error: "Invalid IPv4 address" };
+          throw new ToolError("INVALID_ARGUMENT", "Invalid IPv4 address");
         }
         num = ipToNum(input);
       }
@@ -357,6 +363,7 @@ export const iptoolsTools: MiniTool[] = [
     description:
       "Expand compressed IPv6 address to full form and vice versa. Handle :: compression, leading zeros. Convert between short and long IPv6 formats. Keywords: IPv6 expand, IPv6 compress, IPv6 full form, IPv6 short form, expand address.",
     category: "network",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -382,7 +389,7 @@ export const iptoolsTools: MiniTool[] = [
       // Parse IPv6
       const values = parseIPv6(input);
       if (!values) {
-        return { error: "Invalid IPv6 address" };
+        throw new ToolError("INVALID_ARGUMENT", "Invalid IPv6 address");
       }
 
       // Expanded form (always compute both)
@@ -433,6 +440,7 @@ export const iptoolsTools: MiniTool[] = [
     description:
       "Format MAC address in different notations. Convert between colon, dash, dot, and plain formats. Normalize and validate MAC addresses. Keywords: MAC format, MAC address, format MAC, normalize MAC, EUI-48.",
     category: "network",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -457,7 +465,7 @@ export const iptoolsTools: MiniTool[] = [
       // Extract hex digits
       const input = (mac as string).replace(/[^0-9a-fA-F]/g, "");
       if (input.length !== 12) {
-        return { error: "Invalid MAC address (must be 12 hex digits)" };
+        throw new ToolError("INVALID_ARGUMENT", "Invalid MAC address (must be 12 hex digits)");
       }
 
       // Split into bytes
@@ -512,6 +520,7 @@ export const iptoolsTools: MiniTool[] = [
     description:
       "Calculate IP range from start and end addresses. Get CIDR blocks that cover the range, total IPs, and validate the range. Keywords: IP range, address range, CIDR from range, IP block, range to CIDR.",
     category: "network",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -529,14 +538,14 @@ export const iptoolsTools: MiniTool[] = [
     },
     handler: ({ start, end }) => {
       if (!isValidIPv4(start as string) || !isValidIPv4(end as string)) {
-        return { error: "Invalid IP address" };
+        throw new ToolError("INVALID_ARGUMENT", "Invalid IP address");
       }
 
       const startNum = ipToNum(start as string);
       const endNum = ipToNum(end as string);
 
       if (startNum > endNum) {
-        return { error: "Start IP must be less than or equal to end IP" };
+        throw new ToolError("INVALID_ARGUMENT", "Start IP must be less than or equal to end IP");
       }
 
       const totalIps = endNum - startNum + 1;
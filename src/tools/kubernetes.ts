@@ -4,7 +4,20 @@
  * @module lib/std/tools/kubernetes
  */
 
-import { type MiniTool, runCommand } from "./common.ts";
+import {
+  DESTRUCTIVE_IDEMPOTENT_OPEN_WORLD,
+  DESTRUCTIVE_OPEN_WORLD,
+  READ_ONLY_OPEN_WORLD,
+} from "./annotations.ts";
+import {
+  commandFailed,
+  FOLLOW_PROPERTIES,
+  type FollowArgs,
+  followCommand,
+  type MiniTool,
+  runCommand,
+} from "./common.ts";
+import { ToolError } from "./errors.ts";
 
 export const kubernetesTools: MiniTool[] = [
   {
@@ -12,6 +25,7 @@ export const kubernetesTools: MiniTool[] = [
     description:
       "List and retrieve Kubernetes resources (pods, services, deployments, configmaps, secrets, etc.). Query by name, namespace, or label selector. Get detailed resource status, configuration, and metadata. Use for cluster monitoring, debugging, or resource inspection. Keywords: kubectl get, kubernetes resources, list pods, get services, k8s objects, cluster state.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -40,6 +54,7 @@ export const kubernetesTools: MiniTool[] = [
     },
     handler: async (
       { resource, name, namespace, output = "json", selector, allNamespaces = false },
+      ctx,
     ) => {
       const args = ["get", resource as string];
       if (name) args.push(name as string);
@@ -48,9 +63,9 @@ export const kubernetesTools: MiniTool[] = [
       if (selector) args.push("-l", selector as string);
       args.push("-o", output as string);
 
-      const result = await runCommand("kubectl", args);
+      const result = await runCommand("kubectl", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`kubectl get failed: ${result.stderr}`);
+        throw commandFailed("kubectl get", result);
       }
 
       if (output === "json") {
@@ -68,6 +83,7 @@ export const kubernetesTools: MiniTool[] = [
     description:
       "Apply Kubernetes manifests to create or update resources. Deploy applications, services, configmaps from YAML/JSON files. Supports dry-run for validation. Use for deployments, infrastructure-as-code, GitOps workflows. Keywords: kubectl apply, deploy kubernetes, k8s manifest, create resource, update deployment, kubernetes yaml.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -84,14 +100,14 @@ export const kubernetesTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ file, namespace, dryRun = false }) => {
+    handler: async ({ file, namespace, dryRun = false }, ctx) => {
       const args = ["apply", "-f", file as string];
       if (namespace) args.push("-n", namespace as string);
       if (dryRun) args.push("--dry-run=client");
 
-      const result = await runCommand("kubectl", args);
+      const result = await runCommand("kubectl", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`kubectl apply failed: ${result.stderr}`);
+        throw commandFailed("kubectl apply", result);
       }
       return { success: true, output: result.stdout };
     },
@@ -101,6 +117,7 @@ export const kubernetesTools: MiniTool[] = [
     description:
       "Fetch logs from Kubernetes pods for debugging and monitoring. View container stdout/stderr, filter by time, tail recent lines, or stream live. Essential for troubleshooting pod issues, application debugging, and monitoring. Keywords: kubectl logs, pod logs, container output, k8s debugging, application logs, stream logs.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -109,7 +126,8 @@ export const kubernetesTools: MiniTool[] = [
         container: { type: "string", description: "Container name" },
         tail: { type: "number", description: "Lines to show from end" },
         since: { type: "string", description: "Show logs since (e.g., '1h', '10m')" },
-        follow: { type: "boolean", description: "Follow logs (stream)" },
+        follow: { type: "boolean", description: "Stream new log lines instead of a snapshot" },
+        ...FOLLOW_PROPERTIES,
       },
       required: ["pod"],
     },
@@ -120,15 +138,21 @@ export const kubernetesTools: MiniTool[] = [
         accepts: ["filter", "tail", "refresh"],
       },
     },
-    handler: async ({ pod, namespace, container, tail, since, follow }) => {
+    handler: async ({ pod, namespace, container, tail, since, follow, ...followArgs }, ctx) => {
       const args = ["logs", pod as string];
       if (namespace) args.push("-n", namespace as string);
       if (container) args.push("-c", container as string);
       if (tail) args.push("--tail", String(tail));
       if (since) args.push("--since", since as string);
-      if (follow) args.push("-f");
 
-      const result = await runCommand("kubectl", args, { timeout: 60000 });
+      if (follow) {
+        args.push("-f");
+        return await followCommand("kubectl", args, followArgs as FollowArgs, ctx, {
+          label: "kubectl logs",
+        });
+      }
+
+      const result = await runCommand("kubectl", args, { timeout: 60000, signal: ctx?.signal });
       return { logs: result.stdout, stderr: result.stderr };
     },
   },
@@ -137,6 +161,7 @@ export const kubernetesTools: MiniTool[] = [
     description:
       "Execute commands inside running Kubernetes pods. Run shell commands, debug containers, inspect filesystem, or troubleshoot applications directly. Essential for container debugging and interactive troubleshooting. Keywords: kubectl exec, pod shell, container exec, run command in pod, k8s debugging, interactive container.",
     category: "system",
+    annotations: DESTRUCTIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -154,13 +179,13 @@ export const kubernetesTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ pod, command, namespace, container }) => {
+    handler: async ({ pod, command, namespace, container }, ctx) => {
       const args = ["exec", pod as string];
       if (namespace) args.push("-n", namespace as string);
       if (container) args.push("-c", container as string);
       args.push("--", "sh", "-c", command as string);
 
-      const result = await runCommand("kubectl", args, { timeout: 60000 });
+      const result = await runCommand("kubectl", args, { timeout: 60000, signal: ctx?.signal });
       return {
         exitCode: result.code,
         stdout: result.stdout,
@@ -173,6 +198,7 @@ export const kubernetesTools: MiniTool[] = [
     description:
       "Get detailed information about a Kubernetes resource. Shows events, conditions, annotations, labels, and full configuration. Essential for debugging resource issues, understanding pod failures, or inspecting resource state. Keywords: kubectl describe, resource details, pod events, k8s debugging, resource inspection, kubernetes troubleshooting.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -203,14 +229,14 @@ export const kubernetesTools: MiniTool[] = [
         accepts: ["refresh"],
       },
     },
-    handler: async ({ resource, name, namespace = "default", context }) => {
+    handler: async ({ resource, name, namespace = "default", context }, ctx) => {
       const args = ["describe", resource as string, name as string];
       args.push("-n", namespace as string);
       if (context) args.push("--context", context as string);
 
-      const result = await runCommand("kubectl", args);
+      const result = await runCommand("kubectl", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`kubectl describe failed: ${result.stderr}`);
+        throw commandFailed("kubectl describe", result);
       }
 
       return {
@@ -226,6 +252,7 @@ export const kubernetesTools: MiniTool[] = [
     description:
       "List Kubernetes events for monitoring and troubleshooting. Events show what's happening in the cluster: pod scheduling, image pulls, container starts, failures, and warnings. Filter by namespace, resource, or event type. Essential for debugging deployments and understanding cluster activity. Keywords: kubectl events, kubernetes events, pod events, cluster events, k8s troubleshooting, event timeline, warning events.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -273,7 +300,7 @@ export const kubernetesTools: MiniTool[] = [
       limit = 100,
       context,
       allNamespaces = false,
-    }) => {
+    }, ctx) => {
       const args = ["get", "events", "-o", "json"];
 
       if (allNamespaces) {
@@ -286,16 +313,16 @@ export const kubernetesTools: MiniTool[] = [
         args.push("--context", context as string);
       }
 
-      const result = await runCommand("kubectl", args);
+      const result = await runCommand("kubectl", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`kubectl get events failed: ${result.stderr}`);
+        throw commandFailed("kubectl get events", result);
       }
 
       let eventsData: { items?: unknown[] };
       try {
         eventsData = JSON.parse(result.stdout);
       } catch {
-        throw new Error(`Failed to parse kubectl events output: ${result.stdout}`);
+        throw new ToolError("UPSTREAM_ERROR", `Failed to parse kubectl events output: ${result.stdout}`);
       }
 
       const rawEvents = eventsData.items || [];
@@ -389,6 +416,7 @@ export const kubernetesTools: MiniTool[] = [
     description:
       "Get resource usage (CPU/memory) for pods or nodes. Shows real-time resource consumption metrics from the Kubernetes metrics server. Essential for capacity planning, identifying resource-hungry pods, and performance monitoring. Keywords: kubectl top, resource usage, cpu memory, pod metrics, node metrics, kubernetes monitoring, resource consumption.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -415,7 +443,7 @@ export const kubernetesTools: MiniTool[] = [
         accepts: ["filter", "namespace"],
       },
     },
-    handler: async ({ resource, namespace, context }) => {
+    handler: async ({ resource, namespace, context }, ctx) => {
       const args = ["top", resource as string];
       if (namespace && resource === "pods") {
         args.push("-n", namespace as string);
@@ -424,9 +452,9 @@ export const kubernetesTools: MiniTool[] = [
         args.push("--context", context as string);
       }
 
-      const result = await runCommand("kubectl", args);
+      const result = await runCommand("kubectl", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`kubectl top failed: ${result.stderr}`);
+        throw commandFailed("kubectl top", result);
       }
 
       // Parse the output into structured data
@@ -458,6 +486,7 @@ export const kubernetesTools: MiniTool[] = [
     description:
       "Get rollout status of a deployment. Monitor deployment progress, check if a rollout has completed successfully, or diagnose stuck deployments. Essential for CI/CD pipelines and deployment verification. Keywords: kubectl rollout status, deployment status, rollout progress, deployment verification, k8s deploy, kubernetes rollout.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -483,14 +512,14 @@ export const kubernetesTools: MiniTool[] = [
         accepts: ["refresh"],
       },
     },
-    handler: async ({ deployment, namespace = "default", context }) => {
+    handler: async ({ deployment, namespace = "default", context }, ctx) => {
       const args = ["rollout", "status", `deployment/${deployment}`];
       args.push("-n", namespace as string);
       if (context) {
         args.push("--context", context as string);
       }
 
-      const result = await runCommand("kubectl", args, { timeout: 120000 });
+      const result = await runCommand("kubectl", args, { timeout: 120000, signal: ctx?.signal });
 
       // Determine status based on output
       const isComplete = result.code === 0 &&
@@ -12,6 +12,8 @@
 
 import { evaluate } from "mathjs";
 import * as ss from "simple-statistics";
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 export const mathTools: MiniTool[] = [
@@ -20,6 +22,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Evaluate mathematical expressions safely using mathjs. Supports arithmetic (+, -, *, /, %, ^), functions (sqrt, sin, cos, tan, log, exp), and constants (pi, e). Use for calculations, formula evaluation, or scientific computing. Keywords: math eval, calculate expression, mathjs, formula, scientific calculator, arithmetic.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -41,7 +44,7 @@ export const mathTools: MiniTool[] = [
       try {
         return evaluate(expression as string);
       } catch (e) {
-        throw new Error(`Invalid expression: ${(e as Error).message}`);
+        throw new ToolError("INVALID_ARGUMENT", `Invalid expression: ${(e as Error).message}`);
       }
     },
   },
@@ -50,6 +53,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Calculate comprehensive statistics for an array of numbers: min, max, sum, mean, median, standard deviation, and variance. Get count and all major statistical measures in one call. Use for data analysis, reporting, or understanding distributions. Keywords: statistics, mean average, median, stddev, variance, descriptive stats, data analysis.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -86,6 +90,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Round a number to specified decimal places with configurable rounding mode (round, floor, ceil). Control precision for currency, measurements, or display formatting. Use for financial calculations, formatting output, or precision control. Keywords: round number, decimal places, floor ceiling, truncate, precision, format number.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -124,6 +129,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Generate random numbers within a specified range. Create single or multiple random values, choose integer or decimal output. Use for testing, simulations, games, or sampling. Keywords: random number, generate random, random range, integer random, random generator, dice roll.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -154,6 +160,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Calculate percentage from value and total (value/total × 100) or calculate value from percentage and total. Bidirectional percentage calculations. Use for discounts, proportions, or statistical ratios. Keywords: percentage, percent of, calculate %, ratio, proportion, percent calculation.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -176,7 +183,7 @@ export const mathTools: MiniTool[] = [
       if (value !== undefined && total !== undefined) {
         return ((value as number) / (total as number)) * 100;
       }
-      throw new Error("Provide (value, total) or (percentage, total)");
+      throw new ToolError("INVALID_ARGUMENT", "Provide (value, total) or (percentage, total)");
     },
   },
   {
@@ -184,6 +191,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Calculate linear regression (y = mx + b) from data points. Get slope, intercept, R² correlation, and prediction function. Analyze trends, fit lines to data, or make predictions. Use for trend analysis, forecasting, or data science. Keywords: linear regression, slope intercept, R squared, trend line, fit line, predict, correlation.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -204,7 +212,7 @@ export const mathTools: MiniTool[] = [
     },
     handler: ({ points }) => {
       const data = points as [number, number][];
-      if (data.length < 2) throw new Error("Need at least 2 points");
+      if (data.length < 2) throw new ToolError("INVALID_ARGUMENT", "Need at least 2 points");
       const regression = ss.linearRegression(data);
       const line = ss.linearRegressionLine(regression);
       return {
@@ -220,6 +228,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Find the most frequent value(s) in an array of numbers. Identify the statistical mode for frequency analysis or categorical data. Use for finding common values, frequency analysis, or statistics. Keywords: mode, most frequent, frequency, common value, statistical mode, occurrence.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -245,6 +254,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Calculate percentiles for an array of numbers. Get the value below which a given percentage of data falls. Common percentiles: 25th (Q1), 50th (median), 75th (Q3), 90th, 95th, 99th. Use for statistical analysis, performance benchmarks, or data distribution. Keywords: percentile, quartile, quantile, P50, P90, P99, distribution, rank.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -273,7 +283,7 @@ export const mathTools: MiniTool[] = [
     handler: ({ numbers, percentile, percentiles }) => {
       const nums = numbers as number[];
       if (nums.length === 0) {
-        throw new Error("Cannot calculate percentile of empty array");
+        throw new ToolError("INVALID_ARGUMENT", "Cannot calculate percentile of empty array");
       }
 
       // If specific percentiles array is provided, calculate all
@@ -282,7 +292,7 @@ export const mathTools: MiniTool[] = [
         const results: Record<string, number> = {};
         for (const p of pcts) {
           if (p < 0 || p > 100) {
-            throw new Error(`Percentile must be between 0 and 100, got ${p}`);
+            throw new ToolError("INVALID_ARGUMENT", `Percentile must be between 0 and 100, got ${p}`);
           }
           results[`p${p}`] = ss.quantile(nums, p / 100);
         }
@@ -296,7 +306,7 @@ export const mathTools: MiniTool[] = [
       if (percentile !== undefined) {
         const p = percentile as number;
         if (p < 0 || p > 100) {
-          throw new Error(`Percentile must be between 0 and 100, got ${p}`);
+          throw new ToolError("INVALID_ARGUMENT", `Percentile must be between 0 and 100, got ${p}`);
         }
         return {
           count: nums.length,
@@ -324,6 +334,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Calculate correlation coefficient between two arrays of numbers. Measure the strength and direction of linear relationship. Returns Pearson correlation coefficient (-1 to 1). Use for data analysis, relationship discovery, or statistical testing. Keywords: correlation, Pearson, coefficient, relationship, covariance, statistical association, r-value.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -344,10 +355,10 @@ export const mathTools: MiniTool[] = [
       const yArr = y as number[];
 
       if (xArr.length !== yArr.length) {
-        throw new Error(`Arrays must have same length: x has ${xArr.length}, y has ${yArr.length}`);
+        throw new ToolError("INVALID_ARGUMENT", `Arrays must have same length: x has ${xArr.length}, y has ${yArr.length}`);
       }
       if (xArr.length < 2) {
-        throw new Error("Need at least 2 data points to calculate correlation");
+        throw new ToolError("INVALID_ARGUMENT", "Need at least 2 data points to calculate correlation");
       }
 
       const correlation = ss.sampleCorrelation(xArr, yArr);
@@ -379,6 +390,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Convert between common unit pairs: radians/degrees, Celsius/Fahrenheit, kilometers/miles. Quick conversion for everyday unit transformations. Use for unit conversion in calculations or display. Keywords: unit convert, radians degrees, celsius fahrenheit, km miles, temperature convert, angle convert.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -432,7 +444,7 @@ export const mathTools: MiniTool[] = [
         },
       };
       const fn = conversions[from as string]?.[to as string];
-      if (!fn) throw new Error(`Cannot convert from ${from} to ${to}`);
+      if (!fn) throw new ToolError("INVALID_ARGUMENT", `Cannot convert from ${from} to ${to}`);
       return fn(v);
     },
   },
@@ -442,6 +454,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Convert numbers between numeral bases: binary (2), octal (8), decimal (10), hexadecimal (16). Translate numbers between different representations. Use for programming, debugging, or educational purposes. Keywords: base convert, binary hex, decimal to hex, number base, radix, octal, hexadecimal.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -468,7 +481,7 @@ export const mathTools: MiniTool[] = [
     },
     handler: ({ value, from, to }) => {
       const num = parseInt(value as string, from as number);
-      if (isNaN(num)) throw new Error(`Invalid number for base ${from}: ${value}`);
+      if (isNaN(num)) throw new ToolError("INVALID_ARGUMENT", `Invalid number for base ${from}: ${value}`);
       return num.toString(to as number).toUpperCase();
     },
   },
@@ -477,6 +490,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Convert between Roman numerals and Arabic numbers (1-3999). Translate MCMXCIV to 1994 or vice versa. Use for document formatting, historical dates, or educational purposes. Keywords: Roman numeral, arabic number, numeral convert, MCMXCIV, Roman to number, number to Roman.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -518,7 +532,7 @@ export const mathTools: MiniTool[] = [
 
       if (action === "to_roman") {
         let num = typeof value === "string" ? parseInt(value, 10) : (value as number);
-        if (num < 1 || num > 3999) throw new Error("Number must be between 1 and 3999");
+        if (num < 1 || num > 3999) throw new ToolError("INVALID_ARGUMENT", "Number must be between 1 and 3999");
         let result = "";
         for (const [roman, arabic] of romanMap) {
           while (num >= arabic) {
@@ -547,6 +561,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Convert between all angle units: degrees, radians, gradians, turns, arcminutes, arcseconds. Comprehensive angle unit conversion for trigonometry or navigation. Use for scientific calculations, CAD, or astronomy. Keywords: angle convert, degrees radians, gradians, turns, arcminutes, arcseconds, trigonometry.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -592,9 +607,9 @@ export const mathTools: MiniTool[] = [
         arcseconds: (n) => n * 3600,
       };
       const degrees = toDegrees[from as string]?.(v);
-      if (degrees === undefined) throw new Error(`Unknown unit: ${from}`);
+      if (degrees === undefined) throw new ToolError("INVALID_ARGUMENT", `Unknown unit: ${from}`);
       const result = fromDegrees[to as string]?.(degrees);
-      if (result === undefined) throw new Error(`Unknown unit: ${to}`);
+      if (result === undefined) throw new ToolError("INVALID_ARGUMENT", `Unknown unit: ${to}`);
       return result;
     },
   },
@@ -603,6 +618,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Convert between energy units: joules, calories, kilocalories, kWh, BTU, electron volts, watt-hours, foot-pounds. Essential for physics, nutrition, or engineering calculations. Use for energy calculations or unit comparison. Keywords: energy convert, joules calories, kWh BTU, electron volt, watt hours, calorie joule.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -668,6 +684,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Convert between power units: watts, kilowatts, megawatts, horsepower, BTU/hour, foot-pounds/second. Essential for engineering, automotive, or HVAC calculations. Use for power ratings or equipment specs. Keywords: power convert, watts horsepower, kilowatt, megawatt, BTU per hour, power units.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -728,6 +745,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Convert between all temperature scales: Celsius, Fahrenheit, Kelvin, Rankine. Get precise temperature conversions for weather, science, or cooking. Use for international communication or scientific work. Keywords: temperature convert, Celsius Fahrenheit, Kelvin, Rankine, degrees convert, thermometer.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -771,7 +789,7 @@ export const mathTools: MiniTool[] = [
           celsius = (v - 491.67) * (5 / 9);
           break;
         default:
-          throw new Error(`Unknown unit: ${from}`);
+          throw new ToolError("INVALID_ARGUMENT", `Unknown unit: ${from}`);
       }
 
       // Then convert from Celsius to target
@@ -790,7 +808,7 @@ export const mathTools: MiniTool[] = [
           result = (celsius + 273.15) * (9 / 5);
           break;
         default:
-          throw new Error(`Unknown unit: ${to}`);
+          throw new ToolError("INVALID_ARGUMENT", `Unknown unit: ${to}`);
       }
 
       return {
@@ -804,6 +822,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Calculate various percentage operations: X% of Y, percentage change between values, increase/decrease by %, what percent is X of Y. Complete percentage calculator for business or analysis. Keywords: percentage calculator, percent change, increase decrease, percent of, markup markdown, growth rate.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -831,7 +850,7 @@ export const mathTools: MiniTool[] = [
         case "of":
           // What is X% of Y?
           if (percent === undefined || value === undefined) {
-            throw new Error("'of' requires 'percent' and 'value'");
+            throw new ToolError("INVALID_ARGUMENT", "'of' requires 'percent' and 'value'");
           }
           return {
             operation: `${percent}% of ${value}`,
@@ -841,7 +860,7 @@ export const mathTools: MiniTool[] = [
         case "change":
           // What is the percentage change from X to Y?
           if (from === undefined || to === undefined) {
-            throw new Error("'change' requires 'from' and 'to'");
+            throw new ToolError("INVALID_ARGUMENT", "'change' requires 'from' and 'to'");
           }
           const change = (((to as number) - (from as number)) / (from as number)) * 100;
           return {
@@ -853,7 +872,7 @@ export const mathTools: MiniTool[] = [
         case "increase":
           // Increase X by Y%
           if (value === undefined || percent === undefined) {
-            throw new Error("'increase' requires 'value' and 'percent'");
+            throw new ToolError("INVALID_ARGUMENT", "'increase' requires 'value' and 'percent'");
           }
           return {
             operation: `Increase ${value} by ${percent}%`,
@@ -863,7 +882,7 @@ export const mathTools: MiniTool[] = [
         case "decrease":
           // Decrease X by Y%
           if (value === undefined || percent === undefined) {
-            throw new Error("'decrease' requires 'value' and 'percent'");
+            throw new ToolError("INVALID_ARGUMENT", "'decrease' requires 'value' and 'percent'");
           }
           return {
             operation: `Decrease ${value} by ${percent}%`,
@@ -873,7 +892,7 @@ export const mathTools: MiniTool[] = [
         case "what_percent":
           // X is what percent of Y?
           if (value === undefined || from === undefined) {
-            throw new Error("'what_percent' requires 'value' (part) and 'from' (whole)");
+            throw new ToolError("INVALID_ARGUMENT", "'what_percent' requires 'value' (part) and 'from' (whole)");
           }
           return {
             operation: `${value} is what % of ${from}`,
@@ -881,7 +900,7 @@ export const mathTools: MiniTool[] = [
           };
 
         default:
-          throw new Error(`Unknown operation: ${operation}`);
+          throw new ToolError("INVALID_ARGUMENT", `Unknown operation: ${operation}`);
       }
     },
   },
@@ -891,6 +910,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Universal unit converter for length, weight, volume, area, speed, and data storage. Convert meters to feet, kg to lbs, liters to gallons, GB to MB, and more. Auto-detects unit category. Use for any measurement conversion. Keywords: unit converter, metric imperial, length weight volume, convert units, measurement, meters feet.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -1099,7 +1119,8 @@ export const mathTools: MiniTool[] = [
         }
       }
 
-      throw new Error(
+      throw new ToolError(
+        "INVALID_ARGUMENT",
         `Cannot convert between '${from}' and '${to}'. Ensure both units are in the same category.`,
       );
     },
@@ -1110,6 +1131,7 @@ export const mathTools: MiniTool[] = [
     description:
       "Financial calculator for compound/simple interest, loan payments, present/future value, NPV, and ROI. Calculate mortgage payments, investment growth, or project profitability. Use for financial planning, loans, or investment analysis. Keywords: compound interest, loan payment, NPV, ROI, mortgage calculator, future value, amortization.",
     category: "math",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -1163,7 +1185,7 @@ export const mathTools: MiniTool[] = [
         case "compound_interest": {
           // A = P(1 + r/n)^(nt)
           if (P === undefined || rate === undefined || t === undefined) {
-            throw new Error("compound_interest requires principal, rate, and time");
+            throw new ToolError("INVALID_ARGUMENT", "compound_interest requires principal, rate, and time");
           }
           const amount = P * Math.pow(1 + r / n, n * t);
           const interest = amount - P;
@@ -1181,7 +1203,7 @@ export const mathTools: MiniTool[] = [
         case "simple_interest": {
           // I = P * r * t
           if (P === undefined || rate === undefined || t === undefined) {
-            throw new Error("simple_interest requires principal, rate, and time");
+            throw new ToolError("INVALID_ARGUMENT", "simple_interest requires principal, rate, and time");
           }
           const interest = P * r * t;
           return {
@@ -1196,7 +1218,7 @@ export const mathTools: MiniTool[] = [
         case "loan_payment": {
           // Monthly payment = P * [r(1+r)^n] / [(1+r)^n - 1]
           if (P === undefined || rate === undefined || t === undefined) {
-            throw new Error("loan_payment requires principal, rate, and time");
+            throw new ToolError("INVALID_ARGUMENT", "loan_payment requires principal, rate, and time");
           }
           const monthlyRate = r / 12;
           const numPayments = t * 12;
@@ -1217,7 +1239,7 @@ export const mathTools: MiniTool[] = [
         case "present_value": {
           // PV = FV / (1 + r)^t
           if (finalValue === undefined || rate === undefined || t === undefined) {
-            throw new Error("present_value requires finalValue, rate, and time");
+            throw new ToolError("INVALID_ARGUMENT", "present_value requires finalValue, rate, and time");
           }
           const pv = (finalValue as number) / Math.pow(1 + r, t);
           return {
@@ -1231,7 +1253,7 @@ export const mathTools: MiniTool[] = [
         case "future_value": {
           // FV = PV * (1 + r)^t
           if (P === undefined || rate === undefined || t === undefined) {
-            throw new Error("future_value requires principal, rate, and time");
+            throw new ToolError("INVALID_ARGUMENT", "future_value requires principal, rate, and time");
           }
           const fv = P * Math.pow(1 + r, t);
           return {
@@ -1245,7 +1267,7 @@ export const mathTools: MiniTool[] = [
         case "npv": {
           // NPV = sum of [Ct / (1+r)^t] for each period
           if (!cashFlows || rate === undefined) {
-            throw new Error("npv requires cashFlows array and rate");
+            throw new ToolError("INVALID_ARGUMENT", "npv requires cashFlows array and rate");
           }
           const flows = cashFlows as number[];
           let npv = 0;
@@ -1263,7 +1285,7 @@ export const mathTools: MiniTool[] = [
         case "roi": {
           // ROI = (Final - Initial) / Initial * 100
           if (initialInvestment === undefined || finalValue === undefined) {
-            throw new Error("roi requires initialInvestment and finalValue");
+            throw new ToolError("INVALID_ARGUMENT", "roi requires initialInvestment and finalValue");
           }
           const roi = ((finalValue as number) - (initialInvestment as number)) /
             (initialInvestment as number) * 100;
@@ -1277,7 +1299,7 @@ export const mathTools: MiniTool[] = [
         }
 
         default:
-          throw new Error(`Unknown operation: ${operation}`);
+          throw new ToolError("INVALID_ARGUMENT", `Unknown operation: ${operation}`);
       }
     },
   },
@@ -4,7 +4,9 @@
  * @module lib/std/tools/media
  */
 
-import { type MiniTool, runCommand } from "./common.ts";
+import { DESTRUCTIVE_IDEMPOTENT, READ_ONLY } from "./annotations.ts";
+import { commandFailed, type MiniTool, runCommand } from "./common.ts";
+import { createFfmpegParser, parseTimestamp, reportLines } from "./progress.ts";
 
 export const mediaTools: MiniTool[] = [
   {
@@ -12,6 +14,7 @@ export const mediaTools: MiniTool[] = [
     description:
       "Convert, transcode, and process video/audio files with FFmpeg. Change formats (MP4, WebM, MP3, AAC), resize, trim clips, adjust bitrate/quality. The universal media conversion tool. Keywords: ffmpeg convert, video transcode, audio convert, change format, compress video, trim clip, media processing.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -39,6 +42,7 @@ export const mediaTools: MiniTool[] = [
         startTime,
         duration,
       },
+      ctx,
     ) => {
       const args = ["-i", input as string, "-y"];
       if (startTime) args.push("-ss", startTime as string);
@@ -50,9 +54,19 @@ export const mediaTools: MiniTool[] = [
       if (resolution) args.push("-s", resolution as string);
       args.push(output as string);
 
-      const result = await runCommand("ffmpeg", args, { timeout: 600000 });
+      const result = await runCommand("ffmpeg", args, {
+        timeout: 600000,
+        signal: ctx?.signal,
+        onLine: reportLines(
+          createFfmpegParser(
+            duration ? parseTimestamp(duration as string) : undefined,
+            startTime ? parseTimestamp(startTime as string) : undefined,
+          ),
+          ctx,
+        ),
+      });
       if (result.code !== 0) {
-        throw new Error(`ffmpeg failed: ${result.stderr}`);
+        throw commandFailed("ffmpeg", result);
       }
       return { success: true, output };
     },
@@ -62,6 +76,7 @@ export const mediaTools: MiniTool[] = [
     description:
       "Analyze media files to get detailed metadata. Shows duration, resolution, codecs, bitrate, frame rate, audio channels, and stream information. Use for video analysis, format detection, or debugging media issues. Keywords: ffprobe, media info, video metadata, file analysis, codec info, duration resolution, stream details.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -69,7 +84,7 @@ export const mediaTools: MiniTool[] = [
       },
       required: ["file"],
     },
-    handler: async ({ file }) => {
+    handler: async ({ file }, ctx) => {
       const args = [
         "-v",
         "quiet",
@@ -80,9 +95,9 @@ export const mediaTools: MiniTool[] = [
         file as string,
       ];
 
-      const result = await runCommand("ffprobe", args);
+      const result = await runCommand("ffprobe", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`ffprobe failed: ${result.stderr}`);
+        throw commandFailed("ffprobe", result);
       }
 
       try {
@@ -97,6 +112,7 @@ export const mediaTools: MiniTool[] = [
     description:
       "Process and transform images with ImageMagick. Resize, crop, rotate, change format (PNG, JPG, WebP, GIF), adjust quality, and apply effects. Powerful image manipulation for batch processing or single files. Keywords: imagemagick, image convert, resize image, crop rotate, change format, image processing, convert png jpg.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -110,7 +126,7 @@ export const mediaTools: MiniTool[] = [
       },
       required: ["input", "output"],
     },
-    handler: async ({ input, output, resize, quality, rotate, crop }) => {
+    handler: async ({ input, output, resize, quality, rotate, crop }, ctx) => {
       const args = [input as string];
       if (resize) args.push("-resize", resize as string);
       if (quality) args.push("-quality", String(quality));
@@ -118,9 +134,9 @@ export const mediaTools: MiniTool[] = [
       if (crop) args.push("-crop", crop as string);
       args.push(output as string);
 
-      const result = await runCommand("convert", args);
+      const result = await runCommand("convert", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`convert failed: ${result.stderr}`);
+        throw commandFailed("convert", result);
       }
       return { success: true, output };
     },
@@ -0,0 +1,351 @@
+/**
+ * Schema migrations behind db_migrate_status, db_migrate_up and db_migrate_down
+ *
+ * A migrations directory holds `<version>_<name>.up.sql` files, each with
+ * an optional `<version>_<name>.down.sql` that undoes it. Versions are
+ * digits (`0001`, `20260101120000`, ...) and run in numeric order.
+ *
+ * Applied migrations are recorded in a `schema_migrations` table with the
+ * SHA-256 of their up script, so a file edited after it ran is reported
+ * as `changed` and blocks further migrations until it is restored. Each
+ * migration runs in its own transaction together with its bookkeeping, so
+ * a failing script leaves neither its changes nor its record behind.
+ *
+ * The same code drives PGlite and PostgreSQL through MigrationDb.
+ *
+ * @module lib/std/tools/migrations
+ */
+
+import { join } from "node:path";
+import type { PGlite, Transaction } from "@electric-sql/pglite";
+import type postgres from "postgres";
+import { ToolError } from "./errors.ts";
+
+/** The slice of a PostgreSQL client that migrations need */
+export interface MigrationDb {
+  /** Run one statement with `params` bound to $1, $2, ... */
+  query(sql: string, params?: unknown[]): Promise<Record<string, unknown>[]>;
+  /** Run a script of any number of statements */
+  exec(sql: string): Promise<void>;
+  /** Run `fn` in a transaction, committing if it resolves */
+  transaction<T>(fn: (db: MigrationDb) => Promise<T>): Promise<T>;
+}
+
+/** A migration as found in the migrations directory */
+export interface Migration {
+  version: string;
+  name: string;
+  up: string;
+  down?: string;
+  /** SHA-256 of `up`, hex */
+  checksum: string;
+}
+
+/**
+ * Where a migration stands: `pending` (not run yet), `applied`, `changed`
+ * (applied, but the up file differs from what ran) or `missing` (applied,
+ * but its file is gone)
+ */
+export type MigrationState = "pending" | "applied" | "changed" | "missing";
+
+/** One row of db_migrate_status */
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  appliedAt?: string;
+  /** Whether a down script exists */
+  reversible: boolean;
+}
+
+/** A migration that was run, or would be in a dry run */
+export interface MigrationStep {
+  version: string;
+  name: string;
+  /** The script, in dry runs */
+  sql?: string;
+}
+
+const MIGRATION_FILE = /^(\d+)_(.+)\.(up|down)\.sql$/;
+
+const CREATE_TABLE = `CREATE TABLE IF NOT EXISTS schema_migrations (
+  version text PRIMARY KEY,
+  name text NOT NULL,
+  checksum text NOT NULL,
+  applied_at timestamptz NOT NULL DEFAULT now()
+)`;
+
+/** Migrate a PGlite database */
+export function pgliteMigrationDb(pglite: PGlite): MigrationDb {
+  const client = (conn: Pick<Transaction, "query" | "exec">) => ({
+    query: async (sql: string, params?: unknown[]) =>
+      (await conn.query<Record<string, unknown>>(sql, params)).rows,
+    exec: async (sql: string) => {
+      await conn.exec(sql);
+    },
+  });
+  return {
+    ...client(pglite),
+    transaction: (fn) =>
+      pglite.transaction((tx) => {
+        const db: MigrationDb = { ...client(tx), transaction: (inner) => inner(db) };
+        return fn(db);
+      }),
+  };
+}
+
+/** Migrate a PostgreSQL database through a postgres.js client */
+export function postgresMigrationDb(sql: postgres.Sql): MigrationDb {
+  const client = (conn: Pick<postgres.Sql, "unsafe">) => ({
+    query: async (text: string, params: unknown[] = []) =>
+      [...await conn.unsafe(text, params as postgres.ParameterOrJSON<never>[])]
+        .map((row) => ({ ...row })),
+    exec: async (text: string) => {
+      await conn.unsafe(text);
+    },
+  });
+  return {
+    ...client(sql),
+    transaction: async <T>(fn: (db: MigrationDb) => Promise<T>) =>
+      await sql.begin((tx) => {
+        const db: MigrationDb = {
+          ...client(tx),
+          transaction: (inner) => inner(db),
+        };
+        return fn(db);
+      }) as T,
+  };
+}
+
+/**
+ * Read the migrations in `dir`, sorted by version
+ *
+ * Files that do not follow the naming convention are ignored.
+ *
+ * @throws ToolError NOT_FOUND if `dir` does not exist
+ * @throws ToolError INVALID_ARGUMENT for a version used twice or a down file without an up file
+ */
+export async function loadMigrations(dir: string): Promise<Migration[]> {
+  const files = new Map<string, { name: string; up?: string; down?: string }>();
+  try {
+    for await (const entry of Deno.readDir(dir)) {
+      const match = entry.isFile ? MIGRATION_FILE.exec(entry.name) : null;
+      if (!match) continue;
+      const [, version, name, direction] = match;
+      const file = files.get(version) ?? { name };
+      if (file.name !== name || file[direction as "up" | "down"] !== undefined) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          `Migration version ${version} is used by more than one file`,
+        );
+      }
+      file[direction as "up" | "down"] = await Deno.readTextFile(join(dir, entry.name));
+      files.set(version, file);
+    }
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) {
+      throw new ToolError("NOT_FOUND", `Migrations directory not found: ${dir}`, { cause: e });
+    }
+    throw e;
+  }
+
+  const migrations: Migration[] = [];
+  for (const [version, { name, up, down }] of files) {
+    if (up === undefined) {
+      throw new ToolError("INVALID_ARGUMENT", `${version}_${name}.down.sql has no up migration`);
+    }
+    migrations.push({ version, name, up, down, checksum: await sha256(up) });
+  }
+  return migrations.sort((a, b) => compareVersions(a.version, b.version));
+}
+
+/**
+ * Compare each migration with what `schema_migrations` records
+ *
+ * Never creates the table, so it also works on read-only connections.
+ */
+export async function migrationStatus(
+  db: MigrationDb,
+  migrations: Migration[],
+): Promise<MigrationStatus[]> {
+  const applied = await appliedMigrations(db);
+  const status: MigrationStatus[] = migrations.map((migration) => {
+    const row = applied.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: !row ? "pending" : row.checksum === migration.checksum ? "applied" : "changed",
+      ...(row && { appliedAt: row.appliedAt }),
+      reversible: migration.down !== undefined,
+    };
+  });
+  const known = new Set(migrations.map((m) => m.version));
+  for (const [version, row] of applied) {
+    if (!known.has(version)) {
+      status.push({
+        version,
+        name: row.name,
+        state: "missing",
+        appliedAt: row.appliedAt,
+        reversible: false,
+      });
+    }
+  }
+  return status.sort((a, b) => compareVersions(a.version, b.version));
+}
+
+/**
+ * Apply pending migrations in order, up to and including `to`
+ *
+ * With `dryRun` nothing is run and the steps carry their scripts.
+ *
+ * @throws ToolError INVALID_ARGUMENT if an applied migration has changed
+ */
+export async function migrateUp(
+  db: MigrationDb,
+  migrations: Migration[],
+  options: { to?: string; dryRun?: boolean } = {},
+): Promise<MigrationStep[]> {
+  const status = await migrationStatus(db, migrations);
+  const changed = status.filter((s) => s.state === "changed");
+  if (changed.length > 0) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      `Applied migrations changed since they ran: ${changed.map(label).join(", ")}`,
+      { details: { changed: changed.map((s) => s.version) } },
+    );
+  }
+  const pending = new Set(status.filter((s) => s.state === "pending").map((s) => s.version));
+  const plan = migrations.filter((m) =>
+    pending.has(m.version) &&
+    (options.to === undefined || compareVersions(m.version, options.to) <= 0)
+  );
+  if (options.dryRun) {
+    return plan.map(({ version, name, up }) => ({ version, name, sql: up }));
+  }
+  if (plan.length === 0) return [];
+
+  await db.exec(CREATE_TABLE);
+  const steps: MigrationStep[] = [];
+  for (const migration of plan) {
+    await run(
+      db,
+      migration,
+      "up",
+      (tx) =>
+        tx.query("INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)", [
+          migration.version,
+          migration.name,
+          migration.checksum,
+        ]),
+    );
+    steps.push({ version: migration.version, name: migration.name });
+  }
+  return steps;
+}
+
+/**
+ * Roll back the last `steps` applied migrations (default 1), or every one
+ * after `to`, newest first
+ *
+ * @throws ToolError INVALID_ARGUMENT if a migration to roll back has no down script
+ */
+export async function migrateDown(
+  db: MigrationDb,
+  migrations: Migration[],
+  options: { steps?: number; to?: string; dryRun?: boolean } = {},
+): Promise<MigrationStep[]> {
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+  const applied = [...(await appliedMigrations(db)).keys()]
+    .sort(compareVersions)
+    .reverse();
+  const versions = options.to !== undefined
+    ? applied.filter((version) => compareVersions(version, options.to as string) > 0)
+    : applied.slice(0, options.steps ?? 1);
+
+  const plan = versions.map((version) => {
+    const migration = byVersion.get(version);
+    if (!migration?.down) {
+      throw new ToolError(
+        "INVALID_ARGUMENT",
+        migration
+          ? `${label(migration)} has no down migration`
+          : `Migration ${version} was applied but its files are missing`,
+      );
+    }
+    return migration;
+  });
+  if (options.dryRun) {
+    return plan.map(({ version, name, down }) => ({ version, name, sql: down }));
+  }
+
+  const steps: MigrationStep[] = [];
+  for (const migration of plan) {
+    await run(
+      db,
+      migration,
+      "down",
+      (tx) => tx.query("DELETE FROM schema_migrations WHERE version = $1", [migration.version]),
+    );
+    steps.push({ version: migration.version, name: migration.name });
+  }
+  return steps;
+}
+
+/**
+ * Run one migration script and `record` it in a single transaction
+ */
+async function run(
+  db: MigrationDb,
+  migration: Migration,
+  direction: "up" | "down",
+  record: (tx: MigrationDb) => Promise<unknown>,
+): Promise<void> {
+  try {
+    await db.transaction(async (tx) => {
+      await tx.exec(migration[direction] as string);
+      await record(tx);
+    });
+  } catch (e) {
+    if (e instanceof ToolError) throw e;
+    const message = e instanceof Error ? e.message : String(e);
+    throw new ToolError(
+      "UPSTREAM_ERROR",
+      `Migration ${label(migration)} (${direction}) failed: ${message}`,
+      { cause: e },
+    );
+  }
+}
+
+async function appliedMigrations(
+  db: MigrationDb,
+): Promise<Map<string, { name: string; checksum: string; appliedAt: string }>> {
+  const [{ present }] = await db.query(
+    "SELECT to_regclass('schema_migrations') IS NOT NULL AS present",
+  );
+  if (!present) {
+    return new Map();
+  }
+  const rows = await db.query(
+    "SELECT version, name, checksum, applied_at FROM schema_migrations",
+  );
+  return new Map(rows.map((row) => [String(row.version), {
+    name: String(row.name),
+    checksum: String(row.checksum),
+    appliedAt: new Date(row.applied_at as string | Date).toISOString(),
+  }]));
+}
+
+function compareVersions(a: string, b: string): number {
+  const diff = BigInt(a) - BigInt(b);
+  return diff === 0n ? a.localeCompare(b) : diff < 0n ? -1 : 1;
+}
+
+function label(migration: { version: string; name: string }): string {
+  return `${migration.version}_${migration.name}`;
+}
+
+async function sha256(text: string): Promise<string> {
+  const hash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(hash), (b) => b.toString(16).padStart(2, "0")).join("");
+}
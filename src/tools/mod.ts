@@ -4,8 +4,32 @@
  * @module lib/std/src/tools/mod
  */
 
-export { type MiniTool, runCommand } from "./common.ts";
-export type { MiniToolHandler, MiniToolResult, ToolCategory } from "./types.ts";
+export { commandFailed, type MiniTool, runCommand } from "./common.ts";
+export {
+  abortError,
+  isToolError,
+  ToolError,
+  type ToolErrorCode,
+  type ToolErrorPayload,
+  toToolError,
+} from "./errors.ts";
+export {
+  findDuplicateTools,
+  namespaceDuplicates,
+  type ToolNameCollision,
+  ToolRegistryError,
+} from "./registry.ts";
+export type {
+  MiniToolHandler,
+  MiniToolResult,
+  ProgressReporter,
+  ResourceContents,
+  ResourceInfo,
+  ResourceProvider,
+  ToolAnnotations,
+  ToolCategory,
+  ToolContext,
+} from "./types.ts";
 
 // System tools
 export { dockerTools } from "./docker.ts";
@@ -15,7 +39,32 @@ export { processTools } from "./process.ts";
 export { archiveTools } from "./archive.ts";
 export { sshTools } from "./ssh.ts";
 export { kubernetesTools } from "./kubernetes.ts";
-export { databaseTools } from "./database.ts";
+export {
+  bindSql,
+  classifySql,
+  closeDbConnections,
+  databaseTools,
+  guardSql,
+  setDbConnections,
+  type SqlDialect,
+  type SqlParams,
+  type SqlStatement,
+  type SqlStatementKind,
+} from "./database.ts";
+export type { DbConnectionConfig, DbConnectionInfo, DbDriver } from "./dbconnections.ts";
+export {
+  loadMigrations,
+  migrateDown,
+  migrateUp,
+  type Migration,
+  type MigrationDb,
+  type MigrationState,
+  type MigrationStatus,
+  migrationStatus,
+  type MigrationStep,
+  pgliteMigrationDb,
+  postgresMigrationDb,
+} from "./migrations.ts";
 export { closePgliteConnection, pgliteTools } from "./pglite.ts";
 export { mediaTools } from "./media.ts";
 export { cloudTools } from "./cloud.ts";
@@ -24,7 +73,15 @@ export { packagesTools } from "./packages.ts";
 export { textTools } from "./text.ts";
 
 // Data tools
-export { algoTools } from "./algo.ts";
+export { algoTools, setAlgoLimits } from "./algo.ts";
+export {
+  type AlgoKind,
+  type AlgoLimits,
+  type AlgoSnapshot,
+  AlgoStore,
+  DEFAULT_ALGO_LIMITS,
+} from "./algostore.ts";
+export { Graph, type GraphEdge, graphInputFrom } from "./graph.ts";
 export { collectionsTools } from "./collections.ts";
 export { cryptoTools } from "./crypto.ts";
 export { datetimeTools } from "./datetime.ts";
@@ -34,7 +91,16 @@ export { jsonTools } from "./json.ts";
 export { mathTools } from "./math.ts";
 export { transformTools } from "./transform.ts";
 export { validationTools } from "./validation.ts";
-export { vfsTools } from "./vfs.ts";
+export { setVfsLimits, vfsResourceUri, vfsResources, vfsTools } from "./vfs.ts";
+export {
+  normalizeVfsPath,
+  type VfsLimits,
+  type VfsNode,
+  type VfsSnapshot,
+  type VfsStat,
+  VirtualFileSystem,
+} from "./vfstree.ts";
+export { setVfsHostRoots } from "./vfshost.ts";
 
 // New tools
 export { stringTools } from "./string.ts";
@@ -58,7 +124,24 @@ export { pythonTools } from "./python.ts";
 
 // Legacy tools (backward compat)
 export { dataTools } from "./data.ts";
-export { stateTools } from "./state.ts";
+export {
+  onStateChange,
+  setStateBackend,
+  stateResources,
+  stateResourceUri,
+  stateTools,
+} from "./state.ts";
+export type { StateChange, StateChangeListener } from "./statelog.ts";
+export {
+  createStateBackend,
+  JsonFileStateBackend,
+  MemoryStateBackend,
+  PgliteStateBackend,
+  SqliteStateBackend,
+  type StateBackend,
+  type StateBackendConfig,
+  type StateEntry,
+} from "./statestore.ts";
 export { compareTools } from "./compare.ts";
 
 // Utility tools
@@ -97,7 +180,7 @@ import { jsonTools } from "./json.ts";
 import { mathTools } from "./math.ts";
 import { transformTools } from "./transform.ts";
 import { validationTools } from "./validation.ts";
-import { vfsTools } from "./vfs.ts";
+import { vfsResources, vfsTools } from "./vfs.ts";
 import { stringTools } from "./string.ts";
 import { pathTools } from "./path.ts";
 import { fakerTools } from "./faker.ts";
@@ -111,7 +194,7 @@ import { agentTools } from "./agent.ts";
 // pmlTools removed - capability management via pml:admin/pml:discover
 import { pythonTools } from "./python.ts";
 import { dataTools } from "./data.ts";
-import { stateTools } from "./state.ts";
+import { stateResources, stateTools } from "./state.ts";
 import { compareTools } from "./compare.ts";
 import { utilTools } from "./util.ts";
 import { encodingTools } from "./encoding.ts";
@@ -120,7 +203,8 @@ import { iptoolsTools } from "./iptools.ts";
 import { devtoolsTools } from "./devtools.ts";
 import { textanalysisTools } from "./textanalysis.ts";
 import { timezoneTools } from "./timezone.ts";
-import type { MiniTool } from "./types.ts";
+import { assertUniqueToolNames } from "./registry.ts";
+import type { MiniTool, ResourceProvider } from "./types.ts";
 
 /** All tools combined */
 export const allTools: MiniTool[] = [
@@ -222,6 +306,9 @@ export const toolsByCategory: Record<string, MiniTool[]> = {
   timezone: timezoneTools,
 };
 
+/** Categories whose data is also exposed as MCP resources */
+export const resourceProviders: ResourceProvider[] = [vfsResources, stateResources];
+
 /** Get tools by category */
 export function getToolsByCategory(category: string): MiniTool[] {
   return toolsByCategory[category] || [];
@@ -232,6 +319,15 @@ export function getToolByName(name: string): MiniTool | undefined {
   return allTools.find((t) => t.name === name);
 }
 
+/**
+ * Check that tool names are unique (defaults to every shipped tool)
+ *
+ * @throws ToolRegistryError listing each duplicated name and its categories
+ */
+export function validateRegistry(tools: MiniTool[] = allTools): void {
+  assertUniqueToolNames(tools);
+}
+
 /** Get all available categories */
 export function getCategories(): string[] {
   return Object.keys(toolsByCategory);
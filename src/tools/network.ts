@@ -4,7 +4,15 @@
  * @module lib/std/tools/network
  */
 
-import { type MiniTool, runCommand } from "./common.ts";
+import {
+  DESTRUCTIVE_IDEMPOTENT_OPEN_WORLD,
+  DESTRUCTIVE_OPEN_WORLD,
+  READ_ONLY,
+  READ_ONLY_OPEN_WORLD,
+} from "./annotations.ts";
+import { commandFailed, type MiniTool, runCommand } from "./common.ts";
+import { abortError, ToolError } from "./errors.ts";
+import { parsePercent, reportLines } from "./progress.ts";
 
 export const networkTools: MiniTool[] = [
   {
@@ -12,6 +20,7 @@ export const networkTools: MiniTool[] = [
     description:
       "Make HTTP request using curl for API calls, web scraping, and testing endpoints. Supports all HTTP methods, custom headers, request bodies, and SSL options. Use for REST API interactions, webhook testing, file downloads, or HTTP debugging. Keywords: HTTP request, API call, REST client, web fetch, curl command, HTTP GET POST.",
     category: "system",
+    annotations: DESTRUCTIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -46,6 +55,7 @@ export const networkTools: MiniTool[] = [
         followRedirects = true,
         insecure = false,
       },
+      ctx,
     ) => {
       const args = ["-s", "-w", "\n%{http_code}\n%{time_total}"];
 
@@ -66,7 +76,10 @@ export const networkTools: MiniTool[] = [
 
       args.push(url as string);
 
-      const result = await runCommand("curl", args, { timeout: (timeout as number) * 1000 + 5000 });
+      const result = await runCommand("curl", args, {
+        timeout: (timeout as number) * 1000 + 5000,
+        signal: ctx?.signal,
+      });
 
       const lines = result.stdout.trim().split("\n");
       const timeTotal = parseFloat(lines.pop() || "0");
@@ -86,6 +99,7 @@ export const networkTools: MiniTool[] = [
     description:
       "Perform DNS lookup to resolve domain names to IP addresses. Query A, AAAA, MX, NS, TXT, CNAME, and SOA records from any DNS server. Use for DNS debugging, verifying records, checking propagation, or troubleshooting domain issues. Keywords: DNS query, domain lookup, name resolution, dig command, DNS records, MX lookup.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -107,15 +121,15 @@ export const networkTools: MiniTool[] = [
         accepts: ["highlight"],
       },
     },
-    handler: async ({ domain, type = "A", server, short = true }) => {
+    handler: async ({ domain, type = "A", server, short = true }, ctx) => {
       const args = [];
       if (server) args.push(`@${server}`);
       args.push(domain as string, type as string);
       if (short) args.push("+short");
 
-      const result = await runCommand("dig", args);
+      const result = await runCommand("dig", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`dig failed: ${result.stderr}`);
+        throw commandFailed("dig", result);
       }
 
       if (short) {
@@ -130,6 +144,7 @@ export const networkTools: MiniTool[] = [
     description:
       "Perform structured DNS lookup returning parsed records with TTL, type, and value. Query A, AAAA, MX, TXT, CNAME, NS, or SOA records from any DNS server. Returns parsed record objects for programmatic use. Use for DNS automation, record verification, or when you need structured DNS data. Keywords: DNS lookup, structured DNS, parsed records, TTL, DNS automation, domain records.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -150,7 +165,7 @@ export const networkTools: MiniTool[] = [
         accepts: ["highlight"],
       },
     },
-    handler: async ({ domain, type = "A", server }) => {
+    handler: async ({ domain, type = "A", server }, ctx) => {
       const domainStr = domain as string;
       const typeStr = type as string;
       const serverStr = server as string | undefined;
@@ -160,9 +175,9 @@ export const networkTools: MiniTool[] = [
       if (serverStr) args.push(`@${serverStr}`);
       args.push(domainStr, typeStr, "+noall", "+answer");
 
-      const result = await runCommand("dig", args);
+      const result = await runCommand("dig", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`DNS lookup failed: ${result.stderr}`);
+        throw commandFailed("DNS lookup", result);
       }
 
       // Parse dig answer section output
@@ -207,6 +222,7 @@ export const networkTools: MiniTool[] = [
     description:
       "Ping a host using ICMP to check network connectivity and measure latency. Returns round-trip time (RTT) statistics, packet loss percentage, and reachability status. Use for network diagnostics, uptime monitoring, troubleshooting connectivity, or testing host availability. Keywords: ping test, network connectivity, latency check, host reachable, ICMP echo, network diagnostics.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -223,11 +239,12 @@ export const networkTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ host, count = 4, timeout = 5 }) => {
+    handler: async ({ host, count = 4, timeout = 5 }, ctx) => {
       const args = ["-c", String(count), "-W", String(timeout), host as string];
 
       const result = await runCommand("ping", args, {
         timeout: (count as number) * (timeout as number) * 1000 + 5000,
+        signal: ctx?.signal,
       });
 
       const lines = result.stdout.split("\n");
@@ -271,6 +288,7 @@ export const networkTools: MiniTool[] = [
     description:
       "Simple DNS lookup to resolve domain names to IP addresses. Easier alternative to dig for basic queries. Use for quick domain resolution, verifying DNS settings, or checking what IP a domain points to. Keywords: DNS lookup, nslookup, domain to IP, name server query, resolve hostname.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -286,11 +304,11 @@ export const networkTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ domain, server }) => {
+    handler: async ({ domain, server }, ctx) => {
       const args = [domain as string];
       if (server) args.push(server as string);
 
-      const result = await runCommand("nslookup", args);
+      const result = await runCommand("nslookup", args, { signal: ctx?.signal });
 
       const lines = result.stdout.split("\n");
       const addresses: string[] = [];
@@ -314,6 +332,7 @@ export const networkTools: MiniTool[] = [
     description:
       "Trace the network path to a destination showing each hop and latency. Identifies routers between source and destination, useful for diagnosing network routing issues, finding bottlenecks, or understanding network topology. Keywords: traceroute, network path, hops, routing, network topology, packet path, latency by hop.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -329,10 +348,10 @@ export const networkTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ host, maxHops = 30 }) => {
+    handler: async ({ host, maxHops = 30 }, ctx) => {
       const args = ["-m", String(maxHops), host as string];
 
-      const result = await runCommand("traceroute", args, { timeout: 60000 });
+      const result = await runCommand("traceroute", args, { timeout: 60000, signal: ctx?.signal });
       return { output: result.stdout, success: result.code === 0 };
     },
   },
@@ -341,6 +360,7 @@ export const networkTools: MiniTool[] = [
     description:
       "Swiss army knife for TCP/UDP networking. Check if ports are open, scan port ranges, test network services. Use for port scanning, service availability checks, firewall testing, or verifying that services are listening. Keywords: netcat, nc, port scan, port check, TCP connection, service test, open ports.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -359,7 +379,7 @@ export const networkTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ host, port, scan = false, portRange, timeout = 5 }) => {
+    handler: async ({ host, port, scan = false, portRange, timeout = 5 }, ctx) => {
       const args = ["-z", "-v", "-w", String(timeout)];
       args.push(host as string);
 
@@ -369,7 +389,10 @@ export const networkTools: MiniTool[] = [
         args.push(String(port));
       }
 
-      const result = await runCommand("nc", args, { timeout: (timeout as number) * 1000 + 5000 });
+      const result = await runCommand("nc", args, {
+        timeout: (timeout as number) * 1000 + 5000,
+        signal: ctx?.signal,
+      });
       return {
         host,
         port: port || portRange,
@@ -383,6 +406,7 @@ export const networkTools: MiniTool[] = [
     description:
       "Download files from URLs with wget. Supports resumable downloads, recursive website mirroring, and custom output paths. Use for downloading assets, mirroring sites, fetching remote files, or automated downloads with retry capability. Keywords: wget, file download, URL fetch, mirror website, resume download, recursive download.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -401,17 +425,21 @@ export const networkTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ url, output, recursive = false, depth, continueDownload = false }) => {
-      const args = ["-q"];
+    handler: async ({ url, output, recursive = false, depth, continueDownload = false }, ctx) => {
+      const args = ["-q", "--show-progress", "--progress=bar:force"];
       if (output) args.push("-O", output as string);
       if (recursive) args.push("-r");
       if (depth) args.push("-l", String(depth));
       if (continueDownload) args.push("-c");
       args.push(url as string);
 
-      const result = await runCommand("wget", args, { timeout: 600000 });
+      const result = await runCommand("wget", args, {
+        timeout: 600000,
+        signal: ctx?.signal,
+        onLine: reportLines(parsePercent, ctx),
+      });
       if (result.code !== 0) {
-        throw new Error(`wget failed: ${result.stderr}`);
+        throw commandFailed("wget", result);
       }
       return { success: true, url, output: output || "downloaded" };
     },
@@ -421,6 +449,7 @@ export const networkTools: MiniTool[] = [
     description:
       "Get network interface information including IP addresses, MAC addresses, and interface status. Shows all network adapters with IPv4/IPv6 addresses and subnet masks. Use to find your IP, check network configuration, or list available interfaces. Keywords: IP address, network interface, ifconfig, ip addr, local IP, network config, MAC address.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -434,13 +463,14 @@ export const networkTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ interface: iface }) => {
-      let result = await runCommand("ip", ["-j", "addr", "show"]);
+    handler: async ({ interface: iface }, ctx) => {
+      let result = await runCommand("ip", ["-j", "addr", "show"], { signal: ctx?.signal });
 
       if (result.code === 0) {
+        let interfaces: Array<{ name: string }>;
         try {
           const data = JSON.parse(result.stdout);
-          const interfaces = data.map((
+          interfaces = data.map((
             i: {
               ifname: string;
               flags: string[];
@@ -456,19 +486,20 @@ export const networkTools: MiniTool[] = [
                 prefixlen: a.prefixlen,
               })) || [],
           }));
-
-          if (iface) {
-            const found = interfaces.find((i: { name: string }) => i.name === iface);
-            return found || { error: `Interface ${iface} not found` };
-          }
-          return { interfaces };
         } catch {
           return { output: result.stdout };
         }
+
+        if (iface) {
+          const found = interfaces.find((i) => i.name === iface);
+          if (!found) throw new ToolError("NOT_FOUND", `Interface ${iface} not found`);
+          return found;
+        }
+        return { interfaces };
       }
 
       const ifArgs = iface ? [iface as string] : [];
-      result = await runCommand("ifconfig", ifArgs);
+      result = await runCommand("ifconfig", ifArgs, { signal: ctx?.signal });
       return { output: result.stdout };
     },
   },
@@ -477,6 +508,7 @@ export const networkTools: MiniTool[] = [
     description:
       "Analyze an IP address to determine its version (IPv4/IPv6), type (private, public, loopback, etc.), and extract detailed network information. Returns validation status, binary/decimal representations, CIDR blocks, and network class. Use for IP address validation, network classification, or understanding IP addressing schemes. Keywords: IP analysis, IPv4, IPv6, private IP, public IP, loopback, CIDR, network class, IP validation.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -859,7 +891,7 @@ export const networkTools: MiniTool[] = [
         return {
           ip: ipStr,
           valid: false,
-          error: "Invalid IP address format",
+          reason: "Invalid IP address format",
         };
       }
 
@@ -911,6 +943,7 @@ export const networkTools: MiniTool[] = [
     description:
       "Check SSL/TLS certificate for a host. Returns certificate details including subject, issuer, validity dates, days remaining, SANs (Subject Alternative Names), and chain information. Use for SSL certificate monitoring, expiration checking, or security audits. Keywords: SSL certificate, TLS check, HTTPS certificate, cert expiry, certificate chain, security audit, SSL validity.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -926,7 +959,7 @@ export const networkTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ host, port = 443 }) => {
+    handler: async ({ host, port = 443 }, ctx) => {
       const hostStr = host as string;
       const portNum = port as number;
 
@@ -934,22 +967,22 @@ export const networkTools: MiniTool[] = [
       const certTextResult = await runCommand("sh", [
         "-c",
         `echo | openssl s_client -connect ${hostStr}:${portNum} -servername ${hostStr} 2>/dev/null | openssl x509 -noout -text 2>/dev/null`,
-      ], { timeout: 30000 });
+      ], { timeout: 30000, signal: ctx?.signal });
 
       // Get specific fields for easier parsing
       const certFieldsResult = await runCommand("sh", [
         "-c",
         `echo | openssl s_client -connect ${hostStr}:${portNum} -servername ${hostStr} 2>/dev/null | openssl x509 -noout -subject -issuer -dates -serial -ext subjectAltName 2>/dev/null`,
-      ], { timeout: 30000 });
+      ], { timeout: 30000, signal: ctx?.signal });
 
       // Get certificate chain
       const chainResult = await runCommand("sh", [
         "-c",
         `echo | openssl s_client -connect ${hostStr}:${portNum} -servername ${hostStr} -showcerts 2>/dev/null | grep -E "s:|i:" | head -20`,
-      ], { timeout: 30000 });
+      ], { timeout: 30000, signal: ctx?.signal });
 
       if (certFieldsResult.code !== 0 && certTextResult.code !== 0) {
-        throw new Error(`Failed to retrieve SSL certificate for ${hostStr}:${portNum}`);
+        throw new ToolError("UPSTREAM_ERROR", `Failed to retrieve SSL certificate for ${hostStr}:${portNum}`);
       }
 
       // Parse certificate fields
@@ -1052,6 +1085,7 @@ export const networkTools: MiniTool[] = [
     description:
       "Lookup WHOIS information for a domain to find registration details, owner info, nameservers, and expiration dates. Returns parsed domain data including registrar, creation date, expiry date, and DNS servers. Use for domain research, ownership verification, or checking domain availability. Keywords: WHOIS, domain lookup, domain info, registrar, domain owner, nameservers, domain expiry.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -1066,7 +1100,7 @@ export const networkTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ domain }) => {
+    handler: async ({ domain }, ctx) => {
       const domainStr = domain as string;
 
       // Clean domain (remove protocol, www, paths)
@@ -1077,10 +1111,13 @@ export const networkTools: MiniTool[] = [
         .trim()
         .toLowerCase();
 
-      const result = await runCommand("whois", [cleanDomain], { timeout: 30000 });
+      const result = await runCommand("whois", [cleanDomain], {
+        timeout: 30000,
+        signal: ctx?.signal,
+      });
 
       if (result.code !== 0) {
-        throw new Error(`WHOIS lookup failed: ${result.stderr || "Unknown error"}`);
+        throw new ToolError("UPSTREAM_ERROR", `WHOIS lookup failed: ${result.stderr || "Unknown error"}`);
       }
 
       const output = result.stdout;
@@ -1171,6 +1208,7 @@ export const networkTools: MiniTool[] = [
     description:
       "List active network connections showing protocol, local/remote addresses, ports, and connection state. Filter by listening ports, established connections, or view all. Use for network debugging, security audits, finding open ports, or monitoring active connections. Keywords: netstat, network connections, open ports, listening ports, established connections, TCP UDP, socket connections, active connections.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -1188,7 +1226,7 @@ export const networkTools: MiniTool[] = [
         accepts: ["highlight", "refresh"],
       },
     },
-    handler: async ({ state = "all" }) => {
+    handler: async ({ state = "all" }, ctx) => {
       // Try using 'ss' first (modern replacement for netstat)
       const ssArgs = ["-tunapl"];
 
@@ -1199,15 +1237,15 @@ export const networkTools: MiniTool[] = [
         ssArgs.push("state", "established");
       }
 
-      let result = await runCommand("ss", ssArgs);
+      let result = await runCommand("ss", ssArgs, { signal: ctx?.signal });
 
       if (result.code !== 0) {
         // Fallback to netstat if ss is not available
         const netstatArgs = ["-tunapl"];
-        result = await runCommand("netstat", netstatArgs);
+        result = await runCommand("netstat", netstatArgs, { signal: ctx?.signal });
 
         if (result.code !== 0) {
-          throw new Error(`Failed to get network connections: ${result.stderr}`);
+          throw new ToolError("UPSTREAM_ERROR", `Failed to get network connections: ${result.stderr}`);
         }
       }
 
@@ -1325,6 +1363,7 @@ export const networkTools: MiniTool[] = [
     description:
       "Scan ports on a host to check which are open. Tests TCP connectivity to specified ports and identifies running services. Use for security audits, network diagnostics, service discovery, or verifying firewall rules. Keywords: port scan, open ports, TCP scan, service discovery, security audit, network scanner, port check.",
     category: "system",
+    annotations: READ_ONLY_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -1344,7 +1383,7 @@ export const networkTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ host, ports = "22,80,443,3000,5432,6379,8080", timeout = 1000 }) => {
+    handler: async ({ host, ports = "22,80,443,3000,5432,6379,8080", timeout = 1000 }, ctx) => {
       const hostStr = host as string;
       const portsStr = ports as string;
       const timeoutMs = timeout as number;
@@ -1445,24 +1484,39 @@ export const networkTools: MiniTool[] = [
         return result.sort((a, b) => a - b);
       };
 
+      // Rejects as soon as the call is cancelled, ending every pending connect
+      const signal = ctx?.signal;
+      const aborted = new Promise<never>((_, reject) => {
+        signal?.addEventListener("abort", () => reject(abortError(signal)), { once: true });
+      });
+      aborted.catch(() => {/* only raced against connects */});
+
       // Scan a single port using Deno.connect
       const scanPort = async (port: number): Promise<{ port: number; state: "open" | "closed"; service: string }> => {
         const service = serviceMap[port] || "unknown";
+        const connecting = Deno.connect({ hostname: hostStr, port });
+        let timer: ReturnType<typeof setTimeout> | undefined;
 
         try {
           const conn = await Promise.race([
-            Deno.connect({ hostname: hostStr, port }),
-            new Promise<never>((_, reject) =>
-              setTimeout(() => reject(new Error("timeout")), timeoutMs)
-            ),
+            connecting,
+            new Promise<never>((_, reject) => {
+              timer = setTimeout(() => reject(new Error("timeout")), timeoutMs);
+            }),
+            aborted,
           ]);
 
           // Connection succeeded, port is open
           (conn as Deno.Conn).close();
           return { port, state: "open", service };
         } catch {
+          // A connect that lost the race is closed once it settles
+          connecting.then((conn) => conn.close(), () => {});
+          if (signal?.aborted) throw abortError(signal);
           // Connection failed or timed out, port is closed/filtered
           return { port, state: "closed", service };
+        } finally {
+          clearTimeout(timer);
         }
       };
 
@@ -1474,9 +1528,15 @@ export const networkTools: MiniTool[] = [
       const results: Array<{ port: number; state: "open" | "closed"; service: string }> = [];
 
       for (let i = 0; i < portList.length; i += batchSize) {
+        if (signal?.aborted) throw abortError(signal);
         const batch = portList.slice(i, i + batchSize);
         const batchResults = await Promise.all(batch.map(scanPort));
         results.push(...batchResults);
+        ctx?.reportProgress(
+          results.length,
+          portList.length,
+          `Scanned ${results.length}/${portList.length} ports`,
+        );
       }
 
       const endTime = performance.now();
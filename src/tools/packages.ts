@@ -4,7 +4,9 @@
  * @module lib/std/tools/packages
  */
 
-import { type MiniTool, runCommand } from "./common.ts";
+import { ADDITIVE_OPEN_WORLD, DESTRUCTIVE_OPEN_WORLD, READ_ONLY } from "./annotations.ts";
+import { commandFailed, type MiniTool, runCommand } from "./common.ts";
+import { ToolError } from "./errors.ts";
 
 export const packagesTools: MiniTool[] = [
   {
@@ -12,6 +14,7 @@ export const packagesTools: MiniTool[] = [
     description:
       "Run npm commands for Node.js package management. Install dependencies, run scripts (test, build, start), check outdated packages, audit security. Essential for JavaScript/TypeScript project management. Keywords: npm install, npm run, package.json, node modules, npm test build, js dependencies.",
     category: "system",
+    annotations: DESTRUCTIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -32,9 +35,13 @@ export const packagesTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ command, args = [], cwd }) => {
+    handler: async ({ command, args = [], cwd }, ctx) => {
       const cmdArgs = [command as string, ...(args as string[])];
-      const result = await runCommand("npm", cmdArgs, { cwd: cwd as string, timeout: 300000 });
+      const result = await runCommand("npm", cmdArgs, {
+        cwd: cwd as string,
+        timeout: 300000,
+        signal: ctx?.signal,
+      });
       return {
         command: `npm ${cmdArgs.join(" ")}`,
         exitCode: result.code,
@@ -49,6 +56,7 @@ export const packagesTools: MiniTool[] = [
     description:
       "Run pip commands for Python package management. Install, uninstall, list, or freeze Python packages. Check installed versions, upgrade packages, or export requirements. Essential for Python project dependency management. Keywords: pip install, python packages, requirements.txt, pip freeze, python dependencies, pypi.",
     category: "system",
+    annotations: DESTRUCTIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -69,12 +77,12 @@ export const packagesTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ command, packages = [], upgrade = false }) => {
+    handler: async ({ command, packages = [], upgrade = false }, ctx) => {
       const args = [command as string];
       if (upgrade && command === "install") args.push("--upgrade");
       args.push(...(packages as string[]));
 
-      const result = await runCommand("pip", args, { timeout: 300000 });
+      const result = await runCommand("pip", args, { timeout: 300000, signal: ctx?.signal });
       return {
         command: `pip ${args.join(" ")}`,
         exitCode: result.code,
@@ -89,6 +97,7 @@ export const packagesTools: MiniTool[] = [
     description:
       "Install system packages on Debian/Ubuntu using apt package manager. Install software, libraries, development tools. Can optionally update package lists first. Use for system dependencies, build tools, or server software. Keywords: apt install, apt-get, debian packages, ubuntu install, system packages, linux software.",
     category: "system",
+    annotations: ADDITIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -104,16 +113,17 @@ export const packagesTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ packages, update }) => {
+    handler: async ({ packages, update }, ctx) => {
       if (update) {
-        await runCommand("apt", ["update"], { timeout: 120000 });
+        await runCommand("apt", ["update"], { timeout: 120000, signal: ctx?.signal });
       }
 
       const result = await runCommand("apt", ["install", "-y", ...(packages as string[])], {
         timeout: 300000,
+        signal: ctx?.signal,
       });
       if (result.code !== 0) {
-        throw new Error(`apt install failed: ${result.stderr}`);
+        throw commandFailed("apt install", result);
       }
       return { success: true, packages, output: result.stdout };
     },
@@ -123,6 +133,7 @@ export const packagesTools: MiniTool[] = [
     description:
       "Search for available packages in Debian/Ubuntu repositories. Find package names, discover what software is available, check package descriptions. Use before installing to find the right package name. Keywords: apt search, find package, debian search, ubuntu packages, available software, apt cache.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -137,8 +148,8 @@ export const packagesTools: MiniTool[] = [
         accepts: ["filter"],
       },
     },
-    handler: async ({ query }) => {
-      const result = await runCommand("apt", ["search", query as string]);
+    handler: async ({ query }, ctx) => {
+      const result = await runCommand("apt", ["search", query as string], { signal: ctx?.signal });
       return { output: result.stdout };
     },
   },
@@ -147,6 +158,7 @@ export const packagesTools: MiniTool[] = [
     description:
       "Install packages on macOS using Homebrew package manager. Install CLI tools, libraries, or full applications (casks). The standard way to install software on Mac. Keywords: brew install, homebrew, macos packages, mac software, cask install, brew formula.",
     category: "system",
+    annotations: ADDITIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -162,13 +174,13 @@ export const packagesTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ packages, cask }) => {
+    handler: async ({ packages, cask }, ctx) => {
       const args = cask ? ["install", "--cask"] : ["install"];
       args.push(...(packages as string[]));
 
-      const result = await runCommand("brew", args, { timeout: 300000 });
+      const result = await runCommand("brew", args, { timeout: 300000, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`brew install failed: ${result.stderr}`);
+        throw commandFailed("brew install", result);
       }
       return { success: true, packages, output: result.stdout };
     },
@@ -178,6 +190,7 @@ export const packagesTools: MiniTool[] = [
     description:
       "Analyze project dependencies from package.json or deno.json. Visualize dependency tree, detect outdated packages, and show dependency relationships. Useful for dependency audits, version tracking, or project analysis. Keywords: dependencies, package.json, npm, deno.json, dependency tree, outdated packages, project dependencies.",
     category: "packages",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -208,7 +221,7 @@ export const packagesTools: MiniTool[] = [
           manifest = JSON.parse(content);
           manifestType = "deno";
         } catch {
-          throw new Error(`No package.json or deno.json found at ${basePath}`);
+          throw new ToolError("NOT_FOUND", `No package.json or deno.json found at ${basePath}`);
         }
       }
 
@@ -6,6 +6,7 @@
  * @module lib/std/path
  */
 
+import { READ_ONLY } from "./annotations.ts";
 import type { MiniTool } from "./types.ts";
 import process from "node:process";
 
@@ -17,12 +18,56 @@ const isWindows = typeof Deno !== "undefined"
 const SEP = isWindows ? "\\" : "/";
 const SEP_PATTERN = isWindows ? /[\\/]+/ : /\/+/;
 
+/**
+ * Resolve . and .. segments and collapse repeated separators. `..` never
+ * climbs above the root of an absolute path (also used by the vfs tools).
+ */
+export function normalizePath(p: string, sep: string = SEP): string {
+  // Handle empty path
+  if (!p) return ".";
+
+  // Check for absolute path
+  const isAbsolute = p.startsWith("/") || p.startsWith("\\") || /^[a-zA-Z]:/.test(p);
+
+  // Split and filter
+  const parts = p.split(SEP_PATTERN).filter((s) => s.length > 0 && s !== ".");
+
+  // Resolve .. segments
+  const stack: string[] = [];
+  for (const part of parts) {
+    if (part === "..") {
+      if (stack.length > 0 && stack[stack.length - 1] !== "..") {
+        stack.pop();
+      } else if (!isAbsolute) {
+        stack.push(part);
+      }
+    } else {
+      stack.push(part);
+    }
+  }
+
+  let result = stack.join(sep);
+
+  // Handle Windows drive letters
+  if (/^[a-zA-Z]:/.test(p)) {
+    const drive = p.slice(0, 2);
+    if (!result.startsWith(drive)) {
+      result = drive + sep + result;
+    }
+  } else if (isAbsolute && !result.startsWith(sep)) {
+    result = sep + result;
+  }
+
+  return result || ".";
+}
+
 export const pathTools: MiniTool[] = [
   {
     name: "path_join",
     description:
       "Join multiple path segments into single normalized path. Combine directory names, filenames, and relative paths safely. Handles leading/trailing slashes, empty segments. Use for building file paths, URL paths, or directory structures. Keywords: join path, combine path, path concat, merge paths, build path, path segments.",
     category: "path",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -59,6 +104,7 @@ export const pathTools: MiniTool[] = [
     description:
       "Normalize path by resolving . and .. segments and removing redundant separators. Clean up messy paths from user input or concatenation. Use for path sanitization, comparison, or display. Keywords: normalize path, clean path, resolve dots, canonicalize, path cleanup, simplify path.",
     category: "path",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -67,53 +113,14 @@ export const pathTools: MiniTool[] = [
       },
       required: ["path"],
     },
-    handler: ({ path, separator }) => {
-      const sep = (separator as string) || SEP;
-      const p = path as string;
-
-      // Handle empty path
-      if (!p) return ".";
-
-      // Check for absolute path
-      const isAbsolute = p.startsWith("/") || p.startsWith("\\") || /^[a-zA-Z]:/.test(p);
-
-      // Split and filter
-      const parts = p.split(SEP_PATTERN).filter((s) => s.length > 0 && s !== ".");
-
-      // Resolve .. segments
-      const stack: string[] = [];
-      for (const part of parts) {
-        if (part === "..") {
-          if (stack.length > 0 && stack[stack.length - 1] !== "..") {
-            stack.pop();
-          } else if (!isAbsolute) {
-            stack.push(part);
-          }
-        } else {
-          stack.push(part);
-        }
-      }
-
-      let result = stack.join(sep);
-
-      // Handle Windows drive letters
-      if (/^[a-zA-Z]:/.test(p)) {
-        const drive = p.slice(0, 2);
-        if (!result.startsWith(drive)) {
-          result = drive + sep + result;
-        }
-      } else if (isAbsolute && !result.startsWith(sep)) {
-        result = sep + result;
-      }
-
-      return result || ".";
-    },
+    handler: ({ path, separator }) => normalizePath(path as string, (separator as string) || SEP),
   },
   {
     name: "path_basename",
     description:
       "Extract filename from path, optionally removing extension. Get the last segment of a path for display or processing. Use for extracting filenames, getting file names without extension, or path parsing. Keywords: basename, filename, file name, extract name, path end, strip directory.",
     category: "path",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -139,6 +146,7 @@ export const pathTools: MiniTool[] = [
     description:
       "Extract directory path from file path. Get parent directory by removing the last path segment. Use for navigating up directories, getting containing folder, or path manipulation. Keywords: dirname, directory name, parent path, folder path, strip filename, path parent.",
     category: "path",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -178,6 +186,7 @@ export const pathTools: MiniTool[] = [
     description:
       "Extract file extension from path including the dot. Get .txt, .js, .tar.gz etc. from filename. Use for file type detection, filtering by extension, or format handling. Keywords: extname, file extension, extension, file type, suffix, get extension.",
     category: "path",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -221,6 +230,7 @@ export const pathTools: MiniTool[] = [
     description:
       "Parse path into components: root, dir, base, name, ext. Decompose any path into its constituent parts for analysis or manipulation. Use for path analysis, file info extraction, or path transformation. Keywords: parse path, path components, decompose path, path parts, split path, path info.",
     category: "path",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -263,6 +273,7 @@ export const pathTools: MiniTool[] = [
     description:
       "Build path from components object (root, dir, base, name, ext). Reconstruct path from parsed components or create new paths programmatically. Use for path construction, modification, or rebuilding parsed paths. Keywords: format path, build path, construct path, assemble path, path from parts.",
     category: "path",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -304,6 +315,7 @@ export const pathTools: MiniTool[] = [
     description:
       "Calculate relative path from one location to another. Determine how to navigate from source to target using .. and subdirectories. Use for creating relative links, path comparison, or navigation. Keywords: relative path, path from to, path difference, navigate path, .. path, relative link.",
     category: "path",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -341,6 +353,7 @@ export const pathTools: MiniTool[] = [
     description:
       "Check if path is absolute (starts from root). Determine if path is absolute or relative for path resolution or validation. Use for path validation, security checks, or conditional processing. Keywords: is absolute, absolute path, root path, path type, check absolute, validate path.",
     category: "path",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -361,6 +374,7 @@ export const pathTools: MiniTool[] = [
     description:
       "Resolve sequence of paths to absolute path. Process paths from right to left until absolute path is formed, similar to cd operations. Use for resolving relative paths, building absolute paths, or path normalization. Keywords: resolve path, absolute path, path resolution, full path, complete path, cwd resolve.",
     category: "path",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -413,6 +427,7 @@ export const pathTools: MiniTool[] = [
     description:
       "Split path into array of individual segments. Break path into directory and file components for iteration or analysis. Use for path traversal, breadcrumb generation, or segment processing. Keywords: split path, path segments, path parts, tokenize path, break path, path array.",
     category: "path",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -436,6 +451,7 @@ export const pathTools: MiniTool[] = [
     description:
       "Find longest common path prefix among multiple paths. Determine shared directory ancestry for a set of paths. Use for finding common root, path grouping, or workspace detection. Keywords: common path, shared prefix, common ancestor, path intersection, common root, shared directory.",
     category: "path",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -480,6 +496,7 @@ export const pathTools: MiniTool[] = [
     description:
       "Change or add file extension to path. Replace existing extension or append new one to filename. Use for format conversion paths, output file naming, or extension manipulation. Keywords: change extension, replace ext, new extension, swap extension, modify extension, file extension.",
     category: "path",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
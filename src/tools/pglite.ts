@@ -1,14 +1,16 @@
 /**
  * PGlite tools - Direct access to the AgentCards embedded PostgreSQL database
  *
- * Unlike database.ts which uses CLI tools (psql, sqlite3, etc.), this module
- * connects directly to the PGlite database used by AgentCards.
+ * Unlike database.ts, which reaches external servers and database files, this
+ * module connects directly to the PGlite database used by AgentCards.
  *
  * @module lib/std/tools/pglite
  */
 
+import { DESTRUCTIVE, READ_ONLY } from "./annotations.ts";
 import type { MiniTool } from "./common.ts";
-import { PGlite } from "@electric-sql/pglite";
+import { bindSql, guardSql } from "./database.ts";
+import { PGlite, type Transaction } from "@electric-sql/pglite";
 import { vector } from "@electric-sql/pglite/vector";
 
 // Singleton database connection
@@ -25,7 +27,7 @@ function getDefaultDbPath(): string {
 /**
  * Get or create database connection
  */
-async function getDb(path?: string): Promise<PGlite> {
+export async function getDb(path?: string): Promise<PGlite> {
   const targetPath = path || getDefaultDbPath();
 
   // Return existing connection if path matches
@@ -58,6 +60,7 @@ export const pgliteTools: MiniTool[] = [
     description:
       "Execute SQL queries on the AgentCards PGlite database. Run SELECT, INSERT, UPDATE, DELETE operations. Returns JSON results with row limit for safety. Use for querying capabilities, workflows, traces, and all AgentCards data. Keywords: pglite query, agentcards database, embedded postgres, SQL query, capability query.",
     category: "database",
+    annotations: DESTRUCTIVE,
     inputSchema: {
       type: "object",
       properties: {
@@ -70,6 +73,10 @@ export const pgliteTools: MiniTool[] = [
           items: {},
           description: "Query parameters (optional, uses $1, $2, etc.)",
         },
+        namedParams: {
+          type: "object",
+          description: "Values for :name placeholders (instead of params)",
+        },
         limit: {
           type: "number",
           description: "Max rows to return (default: 100, max: 1000)",
@@ -78,6 +85,15 @@ export const pgliteTools: MiniTool[] = [
           type: "string",
           description: "Database path (optional, defaults to PGLITE_PATH env or ./data/pglite)",
         },
+        readOnly: {
+          type: "boolean",
+          description: "Refuse anything but reads and run in a read-only transaction",
+        },
+        confirm: {
+          type: "boolean",
+          description:
+            "Required for destructive statements (DROP, TRUNCATE, DELETE/UPDATE without WHERE)",
+        },
       },
       required: ["query"],
     },
@@ -88,12 +104,19 @@ export const pgliteTools: MiniTool[] = [
         accepts: ["setData", "highlight", "scrollTo"],
       },
     },
-    handler: async ({ query, params, limit = 100, dbPath: customPath }) => {
+    handler: async (
+      { query, params, namedParams, limit = 100, dbPath: customPath, readOnly, confirm },
+    ) => {
+      guardSql(String(query), { readOnly: readOnly as boolean, confirm: confirm as boolean });
+      const bound = bindSql(String(query), {
+        params: params as unknown[] | undefined,
+        namedParams: namedParams as Record<string, unknown> | undefined,
+      });
       const pglite = await getDb(customPath as string | undefined);
 
       // Enforce row limit
       const safeLimit = Math.min(Number(limit) || 100, 1000);
-      let safeQuery = String(query).trim();
+      let safeQuery = bound.sql.trim();
 
       // Add LIMIT if not present for SELECT queries
       if (
@@ -103,9 +126,14 @@ export const pgliteTools: MiniTool[] = [
         safeQuery = `${safeQuery} LIMIT ${safeLimit}`;
       }
 
-      const result = params && (params as unknown[]).length > 0
-        ? await (pglite as any).query(safeQuery, params)
-        : await (pglite as any).query(safeQuery);
+      const run = (db: Pick<Transaction, "query">) =>
+        bound.params.length > 0 ? db.query(safeQuery, bound.params) : db.query(safeQuery);
+      const result = readOnly
+        ? await pglite.transaction(async (tx) => {
+          await tx.query("SET TRANSACTION READ ONLY");
+          return await run(tx);
+        })
+        : await run(pglite);
 
       return {
         rows: result.rows,
@@ -122,6 +150,7 @@ export const pgliteTools: MiniTool[] = [
     description:
       "List all tables in the AgentCards PGlite database. Returns table names, types, and row counts. Use for exploring the database schema, discovering available data, or documentation. Keywords: pglite tables, list tables, agentcards schema, database structure.",
     category: "database",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -168,6 +197,7 @@ export const pgliteTools: MiniTool[] = [
     description:
       "Get detailed schema information for a table in the AgentCards database. Shows column names, types, nullability, defaults, and constraints. Use for understanding data structure or generating queries. Keywords: pglite schema, table columns, column types, table structure, describe table.",
     category: "database",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -238,6 +268,7 @@ export const pgliteTools: MiniTool[] = [
     description:
       "Get database statistics and health information. Shows table count, total rows, database size estimates, and extension status. Use for monitoring, debugging, or capacity planning. Keywords: pglite stats, database size, table count, health check.",
     category: "database",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -296,12 +327,22 @@ export const pgliteTools: MiniTool[] = [
     description:
       "Execute SQL statements without returning results (DDL, INSERT, UPDATE, DELETE). Use for data modifications or schema changes. Returns affected row count. Keywords: pglite exec, SQL execute, insert update delete, DDL, schema change.",
     category: "database",
+    annotations: DESTRUCTIVE,
     inputSchema: {
       type: "object",
       properties: {
         sql: { type: "string", description: "SQL statement to execute" },
         params: { type: "array", items: {}, description: "Statement parameters (optional)" },
+        namedParams: {
+          type: "object",
+          description: "Values for :name placeholders (instead of params)",
+        },
         dbPath: { type: "string", description: "Database path (optional)" },
+        confirm: {
+          type: "boolean",
+          description:
+            "Required for destructive statements (DROP, TRUNCATE, DELETE/UPDATE without WHERE)",
+        },
       },
       required: ["sql"],
     },
@@ -312,17 +353,22 @@ export const pgliteTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ sql, params, dbPath: customPath }) => {
+    handler: async ({ sql, params, namedParams, dbPath: customPath, confirm }) => {
+      const statements = guardSql(String(sql), { confirm: confirm as boolean });
+      const bound = bindSql(String(sql), {
+        params: params as unknown[] | undefined,
+        namedParams: namedParams as Record<string, unknown> | undefined,
+      });
       const pglite = await getDb(customPath as string | undefined);
 
-      const result = params && (params as unknown[]).length > 0
-        ? await (pglite as any).query(String(sql), params)
-        : await (pglite as any).query(String(sql));
+      const result = bound.params.length > 0
+        ? await pglite.query(bound.sql, bound.params)
+        : await pglite.query(bound.sql);
 
       return {
         success: true,
         affectedRows: result.affectedRows || 0,
-        command: result.command,
+        command: statements[0]?.command,
       };
     },
   },
@@ -331,6 +377,7 @@ export const pgliteTools: MiniTool[] = [
     description:
       "List indexes for a table or all tables in the database. Shows index name, columns, uniqueness, and type. Use for performance analysis or schema documentation. Keywords: pglite indexes, table indexes, database indexes, index info.",
     category: "database",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -387,6 +434,7 @@ export const pgliteTools: MiniTool[] = [
     description:
       "Search across multiple tables for a text pattern. Searches text columns and returns matching rows with context. Use for finding data across the database. Keywords: pglite search, full text search, find data, text search.",
     category: "database",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
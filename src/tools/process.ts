@@ -4,7 +4,9 @@
  * @module lib/std/tools/process
  */
 
-import { type MiniTool, runCommand } from "./common.ts";
+import { DESTRUCTIVE_IDEMPOTENT, READ_ONLY } from "./annotations.ts";
+import { commandFailed, type MiniTool, runCommand } from "./common.ts";
+import { ToolError } from "./errors.ts";
 
 export const processTools: MiniTool[] = [
   {
@@ -12,6 +14,7 @@ export const processTools: MiniTool[] = [
     description:
       "List running processes with detailed resource usage. Shows CPU%, memory%, PID, user, and command for each process. Filter by name or user, sort by resource consumption. Use for finding resource-hungry processes, debugging, or monitoring system load. Keywords: ps aux, process list, running programs, CPU usage, memory usage, task manager, top processes.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -28,14 +31,14 @@ export const processTools: MiniTool[] = [
         accepts: ["highlight"],
       },
     },
-    handler: async ({ filter, user, sort = "cpu", limit = 20 }) => {
+    handler: async ({ filter, user, sort = "cpu", limit = 20 }, ctx) => {
       const sortField = { cpu: "-%cpu", mem: "-%mem", pid: "pid", time: "-time" }[sort as string] ||
         "-%cpu";
       const args = ["aux", "--sort", sortField];
 
-      const result = await runCommand("ps", args);
+      const result = await runCommand("ps", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`ps failed: ${result.stderr}`);
+        throw commandFailed("ps", result);
       }
 
       const lines = result.stdout.trim().split("\n");
@@ -74,6 +77,7 @@ export const processTools: MiniTool[] = [
     description:
       "Find the full path of an executable command. Checks if a command exists and returns its location in PATH. Use to verify command availability, find binary locations, or debug PATH issues. Keywords: which, command path, binary location, executable path, find command, PATH lookup.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -81,8 +85,8 @@ export const processTools: MiniTool[] = [
       },
       required: ["command"],
     },
-    handler: async ({ command }) => {
-      const result = await runCommand("which", [command as string]);
+    handler: async ({ command }, ctx) => {
+      const result = await runCommand("which", [command as string], { signal: ctx?.signal });
       return {
         command,
         found: result.code === 0,
@@ -95,6 +99,7 @@ export const processTools: MiniTool[] = [
     description:
       "Terminate a process by PID or name using signals. Send SIGTERM for graceful shutdown or SIGKILL to force stop. Use to stop hung processes, restart services, or clean up runaway programs. Keywords: kill process, stop program, pkill, terminate, SIGTERM, SIGKILL, force quit, end task.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -111,20 +116,22 @@ export const processTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ pid, name, signal, force }) => {
+    handler: async ({ pid, name, signal, force }, ctx) => {
       const sig = force ? "KILL" : (signal || "TERM");
 
       if (pid) {
-        const result = await runCommand("kill", [`-${sig}`, String(pid)]);
+        const result = await runCommand("kill", [`-${sig}`, String(pid)], { signal: ctx?.signal });
         if (result.code !== 0) {
-          throw new Error(`kill failed: ${result.stderr}`);
+          throw commandFailed("kill", result);
         }
         return { success: true, pid, signal: sig };
       } else if (name) {
-        const result = await runCommand("pkill", [`-${sig}`, name as string]);
+        const result = await runCommand("pkill", [`-${sig}`, name as string], {
+          signal: ctx?.signal,
+        });
         return { success: result.code === 0, name, signal: sig };
       } else {
-        throw new Error("Either pid or name required");
+        throw new ToolError("INVALID_ARGUMENT", "Either pid or name required");
       }
     },
   },
@@ -133,6 +140,7 @@ export const processTools: MiniTool[] = [
     description:
       "List open files, network connections, and ports in use. Find which process is using a specific port, file, or show all connections for a PID. Essential for debugging port conflicts, finding file locks, or auditing network activity. Keywords: lsof, open files, port in use, file handles, network connections, who is using port, file locks.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -141,14 +149,14 @@ export const processTools: MiniTool[] = [
         pid: { type: "number", description: "List files open by this PID" },
       },
     },
-    handler: async ({ port, path, pid }) => {
+    handler: async ({ port, path, pid }, ctx) => {
       const args: string[] = [];
       if (port) args.push("-i", `:${port}`);
       else if (path) args.push(path as string);
       else if (pid) args.push("-p", String(pid));
       else args.push("-i");
 
-      const result = await runCommand("lsof", args);
+      const result = await runCommand("lsof", args, { signal: ctx?.signal });
 
       const lines = result.stdout.trim().split("\n");
       if (lines.length < 2) return { processes: [] };
@@ -173,6 +181,7 @@ export const processTools: MiniTool[] = [
     description:
       "Find the location of a command in PATH. Shows the full path to an executable, optionally listing all matches. Use to check if a tool is installed, find where binaries are located, or resolve command conflicts. Keywords: which command, find binary, command location, executable path, PATH search.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -181,9 +190,9 @@ export const processTools: MiniTool[] = [
       },
       required: ["command"],
     },
-    handler: async ({ command, all }) => {
+    handler: async ({ command, all }, ctx) => {
       const args = all ? ["-a", command as string] : [command as string];
-      const result = await runCommand("which", args);
+      const result = await runCommand("which", args, { signal: ctx?.signal });
 
       if (result.code !== 0) {
         return { found: false, command };
@@ -203,6 +212,7 @@ export const processTools: MiniTool[] = [
     description:
       "Display process tree showing parent-child relationships. Shows hierarchical view of running processes with optional CPU/memory stats. Use for understanding process relationships, finding child processes, or debugging process hierarchies. Keywords: pstree, process tree, parent child, process hierarchy, fork tree, process relationships.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -223,7 +233,7 @@ export const processTools: MiniTool[] = [
         accepts: ["highlight", "expand"],
       },
     },
-    handler: async ({ pid, showThreads }) => {
+    handler: async ({ pid, showThreads }, ctx) => {
       // TreeNode interface for the tree-viewer component
       interface TreeNode {
         id: string;
@@ -255,9 +265,9 @@ export const processTools: MiniTool[] = [
         psArgs.unshift("-T");
       }
 
-      const result = await runCommand("ps", psArgs);
+      const result = await runCommand("ps", psArgs, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`ps failed: ${result.stderr}`);
+        throw commandFailed("ps", result);
       }
 
       // Parse ps output into process map
@@ -326,12 +336,12 @@ export const processTools: MiniTool[] = [
       if (pid !== undefined && pid !== null) {
         const rootPid = pid as number;
         if (!processMap.has(rootPid)) {
-          throw new Error(`Process ${rootPid} not found`);
+          throw new ToolError("NOT_FOUND", `Process ${rootPid} not found`);
         }
 
         const tree = buildTreeNode(rootPid);
         if (!tree) {
-          throw new Error(`Failed to build tree for process ${rootPid}`);
+          throw new ToolError("UPSTREAM_ERROR", `Failed to build tree for process ${rootPid}`);
         }
 
         return {
@@ -360,7 +370,7 @@ export const processTools: MiniTool[] = [
       if (rootPids.length === 1) {
         const tree = buildTreeNode(rootPids[0]);
         if (!tree) {
-          throw new Error("Failed to build process tree");
+          throw new ToolError("UPSTREAM_ERROR", "Failed to build process tree");
         }
 
         return {
@@ -410,6 +420,7 @@ export const processTools: MiniTool[] = [
     description:
       "Get a snapshot of top processes by CPU or memory usage. Returns a point-in-time view of the most resource-intensive processes, similar to 'top' command output. Use for identifying resource-hungry processes, performance troubleshooting, or system monitoring. Keywords: top processes, cpu usage, memory usage, process snapshot, system monitor, resource hogs, high cpu, high memory.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -431,7 +442,7 @@ export const processTools: MiniTool[] = [
         accepts: ["highlight", "refresh"],
       },
     },
-    handler: async ({ sort_by = "cpu", limit = 10 }) => {
+    handler: async ({ sort_by = "cpu", limit = 10 }, ctx) => {
       const sortField = sort_by === "memory" ? "-%mem" : "-%cpu";
       const limitNum = typeof limit === "number" ? limit : 10;
 
@@ -440,10 +451,10 @@ export const processTools: MiniTool[] = [
         "aux",
         "--sort",
         sortField,
-      ]);
+      ], { signal: ctx?.signal });
 
       if (result.code !== 0) {
-        throw new Error(`ps failed: ${result.stderr}`);
+        throw commandFailed("ps", result);
       }
 
       const lines = result.stdout.trim().split("\n");
@@ -0,0 +1,123 @@
+/**
+ * Progress parsers for long-running CLI tools
+ *
+ * Each parser turns one line of a command's output into a progress update,
+ * or undefined when the line carries no progress information. Stateful
+ * parsers (docker pull, ffmpeg) are created per call.
+ *
+ * @module lib/std/tools/progress
+ */
+
+import type { ToolContext } from "./types.ts";
+
+/** One progress update derived from command output */
+export interface ProgressUpdate {
+  current: number;
+  total?: number;
+  message?: string;
+}
+
+/** Parse a line of output into a progress update */
+export type ProgressParser = (line: string) => ProgressUpdate | undefined;
+
+/**
+ * Percentage shown by wget's progress bar, e.g.
+ * `file.iso   45%[=====>      ]  1.20G  11.2MB/s  eta 60s`
+ */
+export function parsePercent(line: string): ProgressUpdate | undefined {
+  const match = line.match(/(\d{1,3})%/);
+  if (!match) return undefined;
+  const percent = Number(match[1]);
+  return percent <= 100 ? { current: percent, total: 100, message: line.trim() } : undefined;
+}
+
+/**
+ * File count from `rsync --progress`, e.g.
+ * `  1,048,576 100%  9.54MB/s  0:00:00 (xfr#3, to-chk=12/20)`.
+ * Older rsync versions spell it `to-check=`.
+ */
+export function parseRsyncProgress(line: string): ProgressUpdate | undefined {
+  const match = line.match(/to-che?c?k=(\d+)\/(\d+)/);
+  if (!match) return undefined;
+  const remaining = Number(match[1]);
+  const total = Number(match[2]);
+  return { current: total - remaining, total, message: line.trim() };
+}
+
+/**
+ * Build step from `docker build`: `Step 2/5 : RUN ...` (legacy builder) or
+ * `#6 [2/5] RUN ...` / `#6 [builder 2/5] RUN ...` (BuildKit plain output)
+ */
+export function parseBuildStep(line: string): ProgressUpdate | undefined {
+  const match = line.match(/^Step (\d+)\/(\d+) :/) ??
+    line.match(/^#\d+ \[(?:[\w.-]+ )?(\d+)\/(\d+)\]/);
+  if (!match) return undefined;
+  return { current: Number(match[1]), total: Number(match[2]), message: line.trim() };
+}
+
+/**
+ * Completed layers out of layers seen in `docker pull` output. The total
+ * grows as the pull discovers layers.
+ */
+export function createDockerPullParser(): ProgressParser {
+  const layers = new Set<string>();
+  const done = new Set<string>();
+  return (line) => {
+    const match = line.match(/^([0-9a-f]{12}): (.+)$/);
+    if (!match) return undefined;
+    const [, layer, status] = match;
+    layers.add(layer);
+    if (status === "Pull complete" || status === "Already exists") done.add(layer);
+    return { current: done.size, total: layers.size, message: `${layer}: ${status}` };
+  };
+}
+
+/**
+ * Parse `HH:MM:SS[.ms]`, `MM:SS` or plain seconds into seconds
+ */
+export function parseTimestamp(value: string): number | undefined {
+  const parts = value.trim().split(":");
+  if (parts.length > 3 || parts.some((p) => !/^\d+(\.\d+)?$/.test(p))) return undefined;
+  return parts.reduce((seconds, part) => seconds * 60 + Number(part), 0);
+}
+
+/**
+ * Seconds of media encoded by ffmpeg, read from its `time=` status lines.
+ * The total is `duration` when given, otherwise the input's `Duration:`
+ * (less `startTime`) once ffmpeg has printed it.
+ */
+export function createFfmpegParser(duration?: number, startTime = 0): ProgressParser {
+  let total = duration;
+  return (line) => {
+    const inputDuration = line.match(/^\s*Duration: (\d+:\d+:\d+(?:\.\d+)?)/);
+    if (inputDuration && total === undefined) {
+      const seconds = parseTimestamp(inputDuration[1]);
+      if (seconds !== undefined) total = Math.max(seconds - startTime, 0);
+      return undefined;
+    }
+    const time = line.match(/time=\s*(\d+:\d+:\d+(?:\.\d+)?)/);
+    const current = time ? parseTimestamp(time[1]) : undefined;
+    if (current === undefined) return undefined;
+    return {
+      current: total !== undefined ? Math.min(current, total) : current,
+      total,
+      message: `time=${time![1]}`,
+    };
+  };
+}
+
+/**
+ * Build a runCommand `onLine` callback that reports each parsed line as
+ * progress. Returns undefined when nobody asked for progress, so output
+ * is only buffered.
+ */
+export function reportLines(
+  parse: ProgressParser,
+  ctx: ToolContext | undefined,
+): ((line: string) => void) | undefined {
+  if (!ctx?.progressRequested) return undefined;
+  return (line) => {
+    const update = parse(line);
+    if (update) ctx.reportProgress(update.current, update.total, update.message);
+  };
+}
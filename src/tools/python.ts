@@ -12,10 +12,12 @@
  * @module lib/std/python
  */
 
+import { DESTRUCTIVE, DESTRUCTIVE_OPEN_WORLD, READ_ONLY } from "./annotations.ts";
+import { abortError, ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 /**
- * Execute a command with timeout
+ * Execute a command with timeout, killing it if `signal` aborts
  */
 async function execWithTimeout(
   cmd: string[],
@@ -24,9 +26,14 @@ async function execWithTimeout(
     cwd?: string;
     env?: Record<string, string>;
     stdin?: string;
+    signal?: AbortSignal;
   } = {},
 ): Promise<{ stdout: string; stderr: string; code: number }> {
   const timeout = options.timeout ?? 30000;
+  const signal = options.signal;
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
 
   const command = new Deno.Command(cmd[0], {
     args: cmd.slice(1),
@@ -46,20 +53,35 @@ async function execWithTimeout(
     await writer.close();
   }
 
-  // Create timeout promise
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => {
+  // Kill the process on timeout or abort
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  const stopPromise = new Promise<never>((_, reject) => {
+    const stop = (error: ToolError) => {
       try {
         process.kill("SIGKILL");
       } catch {
         // Process may have already exited
       }
-      reject(new Error(`Python execution timed out after ${timeout}ms`));
+      reject(error);
+    };
+    timer = setTimeout(() => {
+      stop(new ToolError("TIMEOUT", `Python execution timed out after ${timeout}ms`));
     }, timeout);
+    if (signal) {
+      onAbort = () => stop(abortError(signal));
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
   });
 
-  // Race between process completion and timeout
-  const result = await Promise.race([process.output(), timeoutPromise]);
+  // Race between process completion and timeout/abort
+  let result: Deno.CommandOutput;
+  try {
+    result = await Promise.race([process.output(), stopPromise]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+  }
 
   const decoder = new TextDecoder();
   return {
@@ -135,7 +157,8 @@ async function findPython(): Promise<string> {
       // Continue to next option
     }
   }
-  throw new Error(
+  throw new ToolError(
+    "COMMAND_MISSING",
     `Python ${MIN_PYTHON_VERSION.major}.${MIN_PYTHON_VERSION.minor}+ not found. ` +
       `Install Python or set PYTHON_PATH env var.`,
   );
@@ -149,6 +172,7 @@ export const pythonTools: MiniTool[] = [
   {
     name: "python_exec",
     category: "python",
+    annotations: DESTRUCTIVE,
     description:
       "Execute Python code in an isolated subprocess. Returns stdout, stderr, and exit code. " +
       "Use for running scripts, data processing, or any Python operation. " +
@@ -171,38 +195,33 @@ export const pythonTools: MiniTool[] = [
       },
       required: ["code"],
     },
-    handler: async (args: Record<string, unknown>) => {
+    handler: async (args: Record<string, unknown>, ctx) => {
       const code = args.code as string;
       const timeout = (args.timeout as number) ?? 30000;
       const cwd = args.cwd as string | undefined;
 
-      try {
-        const python = await findPython();
-        const result = await execWithTimeout([python, "-c", code], {
-          timeout,
-          cwd,
-        });
-
-        return {
-          stdout: result.stdout,
-          stderr: result.stderr,
-          exitCode: result.code,
-          success: result.code === 0,
-        };
-      } catch (error) {
-        return {
-          stdout: "",
-          stderr: error instanceof Error ? error.message : String(error),
-          exitCode: 1,
-          success: false,
-        };
-      }
+      // A non-zero exit is the script's own result; failing to find or run
+      // Python propagates as a ToolError
+      const python = await findPython();
+      const result = await execWithTimeout([python, "-c", code], {
+        timeout,
+        cwd,
+        signal: ctx?.signal,
+      });
+
+      return {
+        stdout: result.stdout,
+        stderr: result.stderr,
+        exitCode: result.code,
+        success: result.code === 0,
+      };
     },
   },
 
   {
     name: "python_eval",
     category: "python",
+    annotations: DESTRUCTIVE,
     description: "Evaluate a Python expression and return the result as JSON. " +
       "Use for calculations, data transformations, or getting values. " +
       "Keywords: python, eval, evaluate, expression, calculate, compute, math, py.",
@@ -225,7 +244,7 @@ export const pythonTools: MiniTool[] = [
       },
       required: ["expression"],
     },
-    handler: async (args: Record<string, unknown>) => {
+    handler: async (args: Record<string, unknown>, ctx) => {
       const expression = args.expression as string;
       const timeout = (args.timeout as number) ?? 10000;
       const imports = (args.imports as string[]) ?? [];
@@ -239,29 +258,21 @@ result = ${expression}
 print(json.dumps(result))
 `.trim();
 
-      try {
-        const python = await findPython();
-        const result = await execWithTimeout([python, "-c", code], { timeout });
-
-        if (result.code !== 0) {
-          return {
-            success: false,
-            error: result.stderr || "Python evaluation failed",
-          };
-        }
+      const python = await findPython();
+      const result = await execWithTimeout([python, "-c", code], { timeout, signal: ctx?.signal });
 
-        try {
-          const value = JSON.parse(result.stdout.trim());
-          return { success: true, result: value };
-        } catch {
-          // If not valid JSON, return as string
-          return { success: true, result: result.stdout.trim() };
-        }
-      } catch (error) {
-        return {
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-        };
+      if (result.code !== 0) {
+        throw new ToolError("UPSTREAM_ERROR", result.stderr || "Python evaluation failed", {
+          details: { exitCode: result.code },
+        });
+      }
+
+      try {
+        const value = JSON.parse(result.stdout.trim());
+        return { success: true, result: value };
+      } catch {
+        // If not valid JSON, return as string
+        return { success: true, result: result.stdout.trim() };
       }
     },
   },
@@ -269,6 +280,7 @@ print(json.dumps(result))
   {
     name: "python_pip",
     category: "python",
+    annotations: DESTRUCTIVE_OPEN_WORLD,
     description:
       "Install Python packages using pip. Use before running code that requires external packages. " +
       "Keywords: python, pip, install, package, dependency, library, module, requirements, py.",
@@ -291,41 +303,40 @@ print(json.dumps(result))
       },
       required: ["packages"],
     },
-    handler: async (args: Record<string, unknown>) => {
+    handler: async (args: Record<string, unknown>, ctx) => {
       const packages = args.packages as string[];
       const upgrade = (args.upgrade as boolean) ?? false;
       const timeout = (args.timeout as number) ?? 120000;
 
       if (!packages || packages.length === 0) {
-        return { success: false, error: "No packages specified" };
+        throw new ToolError("INVALID_ARGUMENT", "No packages specified");
       }
 
-      try {
-        const python = await findPython();
-        const pipArgs = ["-m", "pip", "install", "--user"];
-        if (upgrade) pipArgs.push("--upgrade");
-        pipArgs.push(...packages);
-
-        const result = await execWithTimeout([python, ...pipArgs], { timeout });
-
-        return {
-          success: result.code === 0,
-          packages,
-          stdout: result.stdout,
-          stderr: result.stderr,
-        };
-      } catch (error) {
-        return {
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-        };
+      const python = await findPython();
+      const pipArgs = ["-m", "pip", "install", "--user"];
+      if (upgrade) pipArgs.push("--upgrade");
+      pipArgs.push(...packages);
+
+      const result = await execWithTimeout([python, ...pipArgs], { timeout, signal: ctx?.signal });
+      if (result.code !== 0) {
+        throw new ToolError("UPSTREAM_ERROR", `pip install failed: ${result.stderr}`, {
+          details: { exitCode: result.code, packages, stdout: result.stdout },
+        });
       }
+
+      return {
+        success: true,
+        packages,
+        stdout: result.stdout,
+        stderr: result.stderr,
+      };
     },
   },
 
   {
     name: "python_script",
     category: "python",
+    annotations: DESTRUCTIVE,
     description: "Execute a Python script file. Optionally pass arguments and stdin data. " +
       "Keywords: python, script, file, run, execute, .py, arguments, stdin, py.",
     inputSchema: {
@@ -355,56 +366,49 @@ print(json.dumps(result))
       },
       required: ["path"],
     },
-    handler: async (args: Record<string, unknown>) => {
+    handler: async (args: Record<string, unknown>, ctx) => {
       const path = args.path as string;
       const scriptArgs = (args.args as string[]) ?? [];
       const stdin = args.stdin as string | undefined;
       const timeout = (args.timeout as number) ?? 60000;
       const cwd = args.cwd as string | undefined;
 
-      try {
-        const python = await findPython();
-        const result = await execWithTimeout([python, path, ...scriptArgs], {
-          timeout,
-          cwd,
-          stdin,
-        });
-
-        return {
-          stdout: result.stdout,
-          stderr: result.stderr,
-          exitCode: result.code,
-          success: result.code === 0,
-        };
-      } catch (error) {
-        return {
-          stdout: "",
-          stderr: error instanceof Error ? error.message : String(error),
-          exitCode: 1,
-          success: false,
-        };
-      }
+      const python = await findPython();
+      const result = await execWithTimeout([python, path, ...scriptArgs], {
+        timeout,
+        cwd,
+        stdin,
+        signal: ctx?.signal,
+      });
+
+      return {
+        stdout: result.stdout,
+        stderr: result.stderr,
+        exitCode: result.code,
+        success: result.code === 0,
+      };
     },
   },
 
   {
     name: "python_version",
     category: "python",
+    annotations: READ_ONLY,
     description: "Get Python version and installation info. " +
       "Keywords: python, version, info, installation, path, executable, py.",
     inputSchema: {
       type: "object" as const,
       properties: {},
     },
-    handler: async () => {
-      try {
-        const python = await findPython();
-        const versionResult = await execWithTimeout([python, "--version"], {
-          timeout: 5000,
-        });
-
-        // Get more detailed info
-        const infoCode = `
+    handler: async (_args, ctx) => {
+      const python = await findPython();
+      const versionResult = await execWithTimeout([python, "--version"], {
+        timeout: 5000,
+        signal: ctx?.signal,
+      });
+
+      // Get more detailed info
+      const infoCode = `
 import sys
 import json
 print(json.dumps({
@@ -414,29 +418,24 @@ print(json.dumps({
     "prefix": sys.prefix
 }))
 `;
-        const infoResult = await execWithTimeout([python, "-c", infoCode], {
-          timeout: 5000,
-        });
-
-        let info = {};
-        try {
-          info = JSON.parse(infoResult.stdout.trim());
-        } catch {
-          // Fallback to basic version
-        }
+      const infoResult = await execWithTimeout([python, "-c", infoCode], {
+        timeout: 5000,
+        signal: ctx?.signal,
+      });
 
-        return {
-          success: true,
-          python,
-          version: versionResult.stdout.trim(),
-          ...info,
-        };
-      } catch (error) {
-        return {
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-        };
+      let info = {};
+      try {
+        info = JSON.parse(infoResult.stdout.trim());
+      } catch {
+        // Fallback to basic version
       }
+
+      return {
+        success: true,
+        python,
+        version: versionResult.stdout.trim(),
+        ...info,
+      };
     },
   },
 ];
@@ -7,6 +7,8 @@
  * @module lib/std/qrcode
  */
 
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 // EAN-13/UPC checksum calculation
@@ -32,6 +34,7 @@ export const qrcodeTools: MiniTool[] = [
     description:
       "Generate QR code as data URL or SVG string. Create scannable QR codes for URLs, text, or data. Returns base64 data URL for embedding in HTML/images. Use for sharing links, contact info, or app deep links. Keywords: QR code, generate QR, QR URL, scannable code, data URL, embed QR.",
     category: "qrcode",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -188,6 +191,7 @@ export const qrcodeTools: MiniTool[] = [
     description:
       "Generate EAN-13 barcode data with checksum. Calculate and validate 13-digit European Article Numbers. Returns barcode digits and checksum. Use for product codes, retail, or inventory. Keywords: EAN-13, barcode, product code, UPC, retail barcode, checksum.",
     category: "qrcode",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -227,7 +231,7 @@ export const qrcodeTools: MiniTool[] = [
         };
       }
 
-      return { error: "EAN-13 requires 12 digits (for generation) or 13 digits (for validation)" };
+      throw new ToolError("INVALID_ARGUMENT", "EAN-13 requires 12 digits (for generation) or 13 digits (for validation)");
     },
   },
   {
@@ -235,6 +239,7 @@ export const qrcodeTools: MiniTool[] = [
     description:
       "Generate UPC-A barcode data with checksum. Calculate and validate 12-digit Universal Product Codes for US/Canada retail. Returns barcode digits and checksum. Use for product codes, retail, or inventory. Keywords: UPC-A, barcode, product code, retail barcode, universal product code.",
     category: "qrcode",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -284,7 +289,7 @@ export const qrcodeTools: MiniTool[] = [
         };
       }
 
-      return { error: "UPC-A requires 11 digits (for generation) or 12 digits (for validation)" };
+      throw new ToolError("INVALID_ARGUMENT", "UPC-A requires 11 digits (for generation) or 12 digits (for validation)");
     },
   },
   {
@@ -292,6 +297,7 @@ export const qrcodeTools: MiniTool[] = [
     description:
       "Encode text for Code 39 barcode. Convert alphanumeric text to Code 39 format with start/stop characters. Supports 0-9, A-Z, -, ., space, $, /, +, %. Use for industrial, logistics, or ID barcodes. Keywords: Code 39, alphanumeric barcode, industrial barcode, encode text, logistics.",
     category: "qrcode",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -312,10 +318,11 @@ export const qrcodeTools: MiniTool[] = [
       // Validate characters
       const invalidChars = t.split("").filter((c) => !CODE39_CHARS.includes(c));
       if (invalidChars.length > 0) {
-        return {
-          error: `Invalid characters for Code 39: ${invalidChars.join(", ")}`,
-          validCharacters: CODE39_CHARS,
-        };
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          `Invalid characters for Code 39: ${invalidChars.join(", ")}`,
+          { details: { validCharacters: CODE39_CHARS } },
+        );
       }
 
       let encoded = t;
@@ -346,6 +353,7 @@ export const qrcodeTools: MiniTool[] = [
     description:
       "Encode text for Code 128 barcode. Convert any ASCII text to Code 128 format with checksum. High-density barcode for shipping, packaging. Use for logistics, shipping labels, or GS1-128. Keywords: Code 128, high density barcode, shipping barcode, GS1-128, ASCII barcode.",
     category: "qrcode",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -363,7 +371,7 @@ export const qrcodeTools: MiniTool[] = [
       for (let i = 0; i < t.length; i++) {
         const charCode = t.charCodeAt(i);
         if (charCode < 32 || charCode > 127) {
-          return { error: `Character at position ${i} is outside ASCII 32-127 range` };
+          throw new ToolError("INVALID_ARGUMENT", `Character at position ${i} is outside ASCII 32-127 range`);
         }
         const value = charCode - 32;
         values.push(value);
@@ -388,6 +396,7 @@ export const qrcodeTools: MiniTool[] = [
     description:
       "Validate and convert ISBN (International Standard Book Number). Check ISBN-10 or ISBN-13 format, calculate checksums, convert between formats. Use for book databases, library systems, or publishing. Keywords: ISBN, book number, ISBN-10, ISBN-13, book identifier, publishing.",
     category: "qrcode",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -468,7 +477,7 @@ export const qrcodeTools: MiniTool[] = [
         };
       }
 
-      return { error: "ISBN must be 10 or 13 digits" };
+      throw new ToolError("INVALID_ARGUMENT", "ISBN must be 10 or 13 digits");
     },
   },
   {
@@ -476,6 +485,7 @@ export const qrcodeTools: MiniTool[] = [
     description:
       "Generate WiFi QR code data string. Create QR code content for automatic WiFi connection. Supports WPA, WPA2, WEP, and open networks. Use for guest WiFi, hotel rooms, or network sharing. Keywords: WiFi QR, network QR, connect WiFi, wireless QR, SSID QR, password share.",
     category: "qrcode",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -520,6 +530,7 @@ export const qrcodeTools: MiniTool[] = [
     description:
       "Generate vCard QR code data for contact information. Create QR code content for business cards with name, phone, email, address. Use for networking, contact sharing, or digital business cards. Keywords: vCard QR, contact QR, business card, phone QR, email QR, digital card.",
     category: "qrcode",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -575,6 +586,7 @@ export const qrcodeTools: MiniTool[] = [
     description:
       "Generate SMS QR code data for pre-filled text messages. Create QR code that opens SMS app with recipient and message. Use for customer feedback, support requests, or quick messaging. Keywords: SMS QR, text message QR, pre-filled SMS, message QR, phone text.",
     category: "qrcode",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -599,6 +611,7 @@ export const qrcodeTools: MiniTool[] = [
     description:
       "Generate email QR code data for pre-filled email composition. Create QR code that opens email client with recipient, subject, and body. Use for feedback forms, support requests, or contact. Keywords: email QR, mailto QR, pre-filled email, email link, contact email.",
     category: "qrcode",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
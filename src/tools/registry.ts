@@ -0,0 +1,81 @@
+/**
+ * Tool registry checks
+ *
+ * Tool names must be unique: MCP clients address tools by name only, so a
+ * second definition would either be unreachable or silently replace the
+ * first in the server's handler map.
+ *
+ * @module lib/std/tools/registry
+ */
+
+import type { MiniTool } from "./types.ts";
+
+/** A tool name defined by more than one tool */
+export interface ToolNameCollision {
+  name: string;
+  /** Categories of the conflicting definitions, in registration order */
+  categories: string[];
+}
+
+/**
+ * Thrown when a tool set contains duplicate names
+ */
+export class ToolRegistryError extends Error {
+  readonly collisions: ToolNameCollision[];
+
+  constructor(collisions: ToolNameCollision[]) {
+    super(
+      `Duplicate tool names: ${
+        collisions.map((c) => `${c.name} (${c.categories.join(", ")})`).join("; ")
+      }`,
+    );
+    this.name = "ToolRegistryError";
+    this.collisions = collisions;
+  }
+}
+
+/** List every name that more than one tool uses */
+export function findDuplicateTools(tools: MiniTool[]): ToolNameCollision[] {
+  const byName = new Map<string, MiniTool[]>();
+  for (const tool of tools) {
+    const group = byName.get(tool.name);
+    if (group) {
+      group.push(tool);
+    } else {
+      byName.set(tool.name, [tool]);
+    }
+  }
+  return [...byName.entries()]
+    .filter(([, group]) => group.length > 1)
+    .map(([name, group]) => ({ name, categories: group.map((t) => t.category) }));
+}
+
+/**
+ * Check that every tool name is unique.
+ *
+ * @throws ToolRegistryError listing each collision
+ */
+export function assertUniqueToolNames(tools: MiniTool[]): void {
+  const collisions = findDuplicateTools(tools);
+  if (collisions.length > 0) {
+    throw new ToolRegistryError(collisions);
+  }
+}
+
+/**
+ * Rename colliding tools to `<category>_<name>`, leaving unique names as-is.
+ *
+ * Returns copies for renamed tools; the originals are not modified.
+ *
+ * @throws ToolRegistryError if names still collide after renaming
+ */
+export function namespaceDuplicates(tools: MiniTool[]): MiniTool[] {
+  const duplicated = new Set(findDuplicateTools(tools).map((c) => c.name));
+  if (duplicated.size === 0) return tools;
+
+  const renamed = tools.map((tool) =>
+    duplicated.has(tool.name) ? { ...tool, name: `${tool.category}_${tool.name}` } : tool
+  );
+  assertUniqueToolNames(renamed);
+  return renamed;
+}
@@ -6,6 +6,7 @@
  * @module lib/std/resilience
  */
 
+import { READ_ONLY } from "./annotations.ts";
 import type { MiniTool } from "./types.ts";
 
 export const resilienceTools: MiniTool[] = [
@@ -14,6 +15,7 @@ export const resilienceTools: MiniTool[] = [
     description:
       "Calculate exponential backoff delay for retries. Get wait time before retry attempt with optional jitter. Prevents thundering herd and cascading failures. Use for API retries, connection attempts, or queue processing. Keywords: exponential backoff, retry delay, backoff jitter, retry strategy, wait time, throttle.",
     category: "resilience",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -73,6 +75,7 @@ export const resilienceTools: MiniTool[] = [
     description:
       "Generate complete retry schedule with delays. Plan all retry attempts upfront with total time estimation. Visualize backoff pattern before implementation. Use for retry planning, SLA estimation, or debugging. Keywords: retry schedule, backoff plan, retry timing, delay sequence, attempt schedule.",
     category: "resilience",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -146,6 +149,7 @@ export const resilienceTools: MiniTool[] = [
     description:
       "Check if request is within rate limit using token bucket. Track requests against limits with burst capacity. Returns whether request is allowed and tokens remaining. Use for API rate limiting, request throttling, or quota management. Keywords: rate limit, token bucket, throttle, request quota, API limit, burst capacity.",
     category: "resilience",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -214,6 +218,7 @@ export const resilienceTools: MiniTool[] = [
     description:
       "Calculate circuit breaker state from failure metrics. Determine if circuit should be open, closed, or half-open based on failure rate. Prevents cascading failures by stopping requests to failing services. Use for service resilience, fault tolerance, or microservices. Keywords: circuit breaker, failure rate, service health, fault tolerance, trip threshold, half-open.",
     category: "resilience",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -318,6 +323,7 @@ export const resilienceTools: MiniTool[] = [
     description:
       "Calculate metrics over a sliding time window. Track request counts, error rates, and latencies within rolling window. Use for rate limiting, health monitoring, or SLA tracking. Keywords: sliding window, rolling window, time window, request metrics, window counter, rate calculation.",
     category: "resilience",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -400,6 +406,7 @@ export const resilienceTools: MiniTool[] = [
     description:
       "Calculate remaining time until deadline. Check if deadline has passed and compute time remaining or overdue. Use for timeout management, SLA tracking, or task scheduling. Keywords: deadline, timeout, time remaining, SLA, due time, expiration.",
     category: "resilience",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -439,6 +446,7 @@ export const resilienceTools: MiniTool[] = [
     description:
       "Check bulkhead pattern capacity for request isolation. Limit concurrent requests to protect resources and prevent cascading failures. Use for resource protection, connection pooling, or thread limiting. Keywords: bulkhead, concurrency limit, isolation, resource pool, connection limit, capacity.",
     category: "resilience",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -494,6 +502,7 @@ export const resilienceTools: MiniTool[] = [
     description:
       "Calculate composite health score from multiple metrics. Combine error rate, latency, and availability into single 0-100 score. Use for dashboards, alerting, or service discovery. Keywords: health score, service health, composite metric, availability, SLI, health check.",
     category: "resilience",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
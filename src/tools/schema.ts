@@ -7,6 +7,7 @@
  * @module lib/std/schema
  */
 
+import { READ_ONLY } from "./annotations.ts";
 import type { MiniTool } from "./types.ts";
 
 // JSON Schema type
@@ -59,6 +60,7 @@ export const schemaTools: MiniTool[] = [
     description:
       "Infer JSON Schema from sample data. Analyze data structure to generate a JSON Schema definition with types, required fields, and formats. Use for API documentation, data validation setup, or schema generation. Keywords: infer schema, JSON schema, generate schema, data schema, type inference, schema from data.",
     category: "schema",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -174,6 +176,7 @@ export const schemaTools: MiniTool[] = [
     description:
       "Generate TypeScript type/interface from JSON Schema or data. Convert schema definitions to TypeScript for type-safe code. Use for API client generation, type definitions, or codegen. Keywords: TypeScript types, schema to type, generate interface, type codegen, JSON to TypeScript.",
     category: "schema",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -295,6 +298,7 @@ export const schemaTools: MiniTool[] = [
     description:
       "Merge multiple JSON Schemas into one combined schema. Combine schemas from different data samples to create a comprehensive type. Use for evolving APIs, data aggregation, or schema unification. Keywords: merge schema, combine schemas, union schema, aggregate types, schema union.",
     category: "schema",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -390,6 +394,7 @@ export const schemaTools: MiniTool[] = [
     description:
       "Compare two JSON Schemas and show differences. Identify added, removed, or changed properties and types. Use for schema versioning, API evolution, or migration planning. Keywords: schema diff, compare schemas, schema changes, type diff, API changes, version diff.",
     category: "schema",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -497,6 +502,7 @@ export const schemaTools: MiniTool[] = [
     description:
       "Analyze JSON data structure and provide statistics. Get depth, property counts, type distribution, and complexity metrics. Use for data exploration, documentation, or optimization. Keywords: analyze data, data stats, structure analysis, type distribution, complexity, data profiling.",
     category: "schema",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -576,6 +582,7 @@ export const schemaTools: MiniTool[] = [
     description:
       "Generate sample data from JSON Schema. Create example values that conform to schema definition. Use for API mocking, test data, or documentation examples. Keywords: sample data, mock data, schema example, generate sample, test data, fixture.",
     category: "schema",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -7,6 +7,7 @@
  * @module lib/std/security
  */
 
+import { READ_ONLY } from "./annotations.ts";
 import type { MiniTool } from "./types.ts";
 
 // Helper: Base64URL encode (URL-safe base64)
@@ -50,6 +51,7 @@ export const securityTools: MiniTool[] = [
     description:
       "Generate a JSON Web Token (JWT) with custom payload. Uses HMAC-SHA256 (HS256) algorithm with Deno native crypto. Set expiration, issuer, audience, and custom claims. Keywords: JWT create, generate token, HS256, JSON Web Token, auth token, sign JWT.",
     category: "security",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -123,6 +125,7 @@ export const securityTools: MiniTool[] = [
     description:
       "Verify and decode a JWT token. Checks signature validity and expiration. Uses HMAC-SHA256 (HS256). Returns decoded payload if valid. Keywords: JWT verify, validate token, check JWT, decode token, verify signature.",
     category: "security",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -146,7 +149,7 @@ export const securityTools: MiniTool[] = [
       try {
         const parts = (token as string).split(".");
         if (parts.length !== 3) {
-          return { valid: false, error: "Invalid JWT format" };
+          return { valid: false, reason: "Invalid JWT format" };
         }
 
         const [encodedHeader, encodedPayload, encodedSignature] = parts;
@@ -157,7 +160,7 @@ export const securityTools: MiniTool[] = [
 
         // Check algorithm
         if (header.alg !== "HS256") {
-          return { valid: false, error: `Unsupported algorithm: ${header.alg}` };
+          return { valid: false, reason: `Unsupported algorithm: ${header.alg}` };
         }
 
         // Verify signature
@@ -179,7 +182,7 @@ export const securityTools: MiniTool[] = [
         const isValid = await crypto.subtle.verify("HMAC", key, new Uint8Array(signatureBytes), messageData);
 
         if (!isValid) {
-          return { valid: false, error: "Invalid signature" };
+          return { valid: false, reason: "Invalid signature" };
         }
 
         // Check expiration
@@ -188,7 +191,7 @@ export const securityTools: MiniTool[] = [
           if (payload.exp < now) {
             return {
               valid: false,
-              error: "Token expired",
+              reason: "Token expired",
               expiredAt: new Date(payload.exp * 1000).toISOString(),
               header,
               payload,
@@ -203,7 +206,7 @@ export const securityTools: MiniTool[] = [
           expiresAt: payload.exp ? new Date(payload.exp * 1000).toISOString() : null,
         };
       } catch (e) {
-        return { valid: false, error: (e as Error).message };
+        return { valid: false, reason: (e as Error).message };
       }
     },
   },
@@ -212,6 +215,7 @@ export const securityTools: MiniTool[] = [
     description:
       "Analyze password strength and provide detailed feedback. Checks length, character variety, common patterns, and entropy. Returns score 0-100 and recommendations. Keywords: password strength, check password, password security, password score, entropy.",
     category: "security",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -319,6 +323,7 @@ export const securityTools: MiniTool[] = [
     description:
       "Calculate various checksums and hashes using Deno native crypto. Supports SHA-1, SHA-256, SHA-384, SHA-512, and MD5. Use for file integrity, data verification. Keywords: checksum, hash, SHA256, MD5, file hash, integrity check.",
     category: "security",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -369,6 +374,7 @@ export const securityTools: MiniTool[] = [
     description:
       "Calculate CRC32 checksum of data. Common checksum for file integrity and data validation. Returns 32-bit checksum. Keywords: CRC32, checksum, file integrity, data checksum, error detection.",
     category: "security",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -412,6 +418,7 @@ export const securityTools: MiniTool[] = [
     description:
       "Generate cryptographically secure random bytes using Deno native crypto. Output as hex, base64, or array. Use for tokens, keys, nonces. Keywords: random bytes, secure random, crypto random, generate token, random key.",
     category: "security",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
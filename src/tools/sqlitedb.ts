@@ -0,0 +1,269 @@
+/**
+ * Embedded SQLite (node:sqlite) behind the sqlite_* tools
+ *
+ * Statements run one by one, so several statements in one call share a
+ * transaction: they all commit or all roll back. Values such as table names
+ * and imported cells are bound as parameters, never spliced into SQL. Rows
+ * keep SQLite's types (integers and reals as numbers, NULL as null, BLOBs
+ * as base64) and come with the declared column types.
+ *
+ * @module lib/std/sqlitedb
+ */
+
+import { DatabaseSync, type SQLOutputValue } from "node:sqlite";
+import type { SqlStatement } from "./database.ts";
+import { ToolError } from "./errors.ts";
+import { toCsv } from "./transform.ts";
+import { encodeBase64 } from "./vfstree.ts";
+
+/** A result column and its declared type (null for expressions) */
+export interface SqliteColumn {
+  name: string;
+  type: string | null;
+}
+
+/** What a batch of statements produced */
+export interface SqliteResult {
+  /** Rows of the last statement that returned any (SELECT, PRAGMA, ... RETURNING) */
+  rows: Record<string, unknown>[];
+  columns: SqliteColumn[];
+  /** Rows changed by the writes, in total */
+  changes: number;
+  /** Rowid of the last inserted row */
+  lastInsertRowid?: number;
+}
+
+// Commands that manage the transaction themselves
+const TRANSACTION_COMMANDS = new Set(["BEGIN", "COMMIT", "END", "ROLLBACK"]);
+
+/**
+ * Open a database file (or `:memory:`)
+ *
+ * A missing file is created unless `readOnly` is set.
+ *
+ * @throws ToolError NOT_FOUND if `readOnly` and the file does not exist
+ */
+export function openSqlite(path: string, options: { readOnly?: boolean } = {}): DatabaseSync {
+  if (options.readOnly && path !== ":memory:") {
+    try {
+      Deno.statSync(path);
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) {
+        throw new ToolError("NOT_FOUND", `Database not found: ${path}`, { cause: e });
+      }
+      throw e;
+    }
+  }
+  return sqliteCall(() => {
+    const db = new DatabaseSync(path, { readOnly: options.readOnly ?? false });
+    db.exec("PRAGMA busy_timeout = 5000");
+    return db;
+  });
+}
+
+/**
+ * Run statements in order, inside one transaction when there are several
+ * and they do not manage transactions themselves; `params` are bound to
+ * the ? placeholders of each
+ *
+ * @throws ToolError UPSTREAM_ERROR (PERMISSION_DENIED for read-only files) on SQLite errors
+ */
+export function runSqlite(
+  db: DatabaseSync,
+  statements: SqlStatement[],
+  params: unknown[] = [],
+): SqliteResult {
+  const result: SqliteResult = { rows: [], columns: [], changes: 0 };
+  const values = params.map(bindValue);
+  const wrap = statements.length > 1 && !db.isTransaction &&
+    !statements.some((s) => TRANSACTION_COMMANDS.has(s.command));
+
+  const run = (statement: SqlStatement, index: number) => {
+    const where = statements.length > 1 ? `statement ${index + 1} of ${statements.length}` : "";
+    const prepared = sqliteCall(() => db.prepare(statement.sql), where);
+    const columns = prepared.columns();
+    if (columns.length > 0) {
+      result.rows = sqliteCall(() => prepared.all(...values), where).map(toRow);
+      result.columns = columns.map((c) => ({ name: c.name, type: c.type }));
+    } else {
+      const { changes, lastInsertRowid } = sqliteCall(() => prepared.run(...values), where);
+      result.changes += Number(changes);
+      if (Number(changes) > 0) result.lastInsertRowid = Number(lastInsertRowid);
+    }
+  };
+
+  if (!wrap) {
+    statements.forEach(run);
+    return result;
+  }
+  db.exec("BEGIN");
+  try {
+    statements.forEach(run);
+    db.exec("COMMIT");
+  } catch (e) {
+    db.exec("ROLLBACK");
+    throw e;
+  }
+  return result;
+}
+
+/**
+ * Render rows the way the sqlite3 shell's `.mode csv`, `.mode table` and
+ * `.mode line` do
+ */
+export function formatSqliteRows(
+  rows: Record<string, unknown>[],
+  columns: SqliteColumn[],
+  mode: "csv" | "table" | "line",
+): string {
+  const names = columns.map((c) => c.name);
+  const cells = rows.map((row) => names.map((name) => cellText(row[name])));
+  if (cells.length === 0) {
+    return "";
+  }
+  if (mode === "csv") {
+    return `${toCsv(cells)}\r\n`;
+  }
+  if (mode === "line") {
+    const width = Math.max(...names.map((name) => name.length));
+    return cells.map((values) =>
+      names.map((name, i) => `${name.padStart(width)} = ${values[i]}\n`).join("")
+    ).join("\n");
+  }
+  const widths = names.map((name, i) => Math.max(name.length, ...cells.map((c) => c[i].length)));
+  const rule = `+${widths.map((w) => "-".repeat(w + 2)).join("+")}+\n`;
+  const line = (values: string[]) =>
+    `| ${values.map((value, i) => value.padEnd(widths[i])).join(" | ")} |\n`;
+  return rule + line(names) + rule + cells.map(line).join("") + rule;
+}
+
+/**
+ * Insert rows into `table` in one transaction, first creating the table
+ * if it does not exist, with each column typed INTEGER, REAL or TEXT by
+ * the values it holds
+ *
+ * A column of strings is numeric only if every string reads back as the
+ * same text from its number, so codes such as 00501 or 1.50 stay TEXT.
+ * Booleans are stored as 1/0, empty strings as NULL and objects as JSON.
+ */
+export function importRows(
+  db: DatabaseSync,
+  table: string,
+  columns: string[],
+  rows: unknown[][],
+): { created: boolean; inserted: number; columns: SqliteColumn[] } {
+  const cells = rows.map((row) => columns.map((_, i) => toSqlValue(row[i])));
+  const types = columns.map((_, i) => columnType(cells.map((row) => row[i])));
+  const values = cells.map((row) => row.map((value, i) => typedValue(value, types[i])));
+  const exists =
+    sqliteCall(() =>
+      db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table)
+    ) !== undefined;
+  const names = columns.map(quoteIdentifier).join(", ");
+
+  db.exec("BEGIN");
+  try {
+    if (!exists) {
+      const definitions = columns.map((name, i) => `${quoteIdentifier(name)} ${types[i]}`);
+      sqliteCall(() =>
+        db.exec(`CREATE TABLE ${quoteIdentifier(table)} (${definitions.join(", ")})`)
+      );
+    }
+    const insert = sqliteCall(() =>
+      db.prepare(
+        `INSERT INTO ${quoteIdentifier(table)} (${names}) VALUES (${
+          columns.map(() => "?").join(", ")
+        })`,
+      )
+    );
+    values.forEach((row, i) => sqliteCall(() => insert.run(...row), `row ${i + 1}`));
+    db.exec("COMMIT");
+  } catch (e) {
+    db.exec("ROLLBACK");
+    throw e;
+  }
+  return {
+    created: !exists,
+    inserted: values.length,
+    columns: columns.map((name, i) => ({ name, type: types[i] })),
+  };
+}
+
+/** Quote an identifier for interpolation into SQL */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replaceAll('"', '""')}"`;
+}
+
+/** A row with BLOBs as base64 and 64-bit integers as numbers */
+export function toRow(row: Record<string, SQLOutputValue>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    out[key] = value instanceof Uint8Array
+      ? encodeBase64(value)
+      : typeof value === "bigint"
+      ? Number(value)
+      : value;
+  }
+  return out;
+}
+
+type SqlValue = string | number | bigint | null;
+
+/**
+ * A JSON value as SQLite stores it: booleans as 1/0, objects as JSON and
+ * integers as bigints, which bind as INTEGER where numbers bind as REAL
+ */
+function bindValue(value: unknown): SqlValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "boolean") return value ? 1n : 0n;
+  if (typeof value === "number") return Number.isSafeInteger(value) ? BigInt(value) : value;
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function toSqlValue(value: unknown): SqlValue {
+  return value === "" ? null : bindValue(value);
+}
+
+/** The number a string spells, if the number prints back as the same string */
+function numericText(value: string): number | undefined {
+  const number = Number(value);
+  return Number.isFinite(number) && String(number) === value ? number : undefined;
+}
+
+function columnType(values: SqlValue[]): string {
+  const numbers = values
+    .filter((value) => value !== null)
+    .map((value) => typeof value === "string" ? numericText(value) : value);
+  const integer = (value: unknown) => typeof value === "bigint" || Number.isSafeInteger(value);
+  if (numbers.length > 0 && numbers.every(integer)) return "INTEGER";
+  if (numbers.length > 0 && numbers.every((value) => value !== undefined)) return "REAL";
+  return "TEXT";
+}
+
+/** Bind numeric strings of an INTEGER or REAL column as numbers */
+function typedValue(value: SqlValue, type: string): SqlValue {
+  if (typeof value !== "string" || type === "TEXT") return value;
+  return type === "INTEGER" ? BigInt(value) : Number(value);
+}
+
+function cellText(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * Run `fn`, turning SQLite errors into ToolErrors; `where` says which
+ * statement or row failed
+ */
+export function sqliteCall<T>(fn: () => T, where?: string): T {
+  try {
+    return fn();
+  } catch (e) {
+    if (e instanceof ToolError || !(e instanceof Error)) throw e;
+    const code = /readonly|read-only|permission/i.test(e.message)
+      ? "PERMISSION_DENIED"
+      : "UPSTREAM_ERROR";
+    const message = `SQLite: ${e.message}${where ? ` (${where})` : ""}`;
+    throw new ToolError(code, message, { cause: e });
+  }
+}
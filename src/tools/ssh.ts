@@ -4,7 +4,9 @@
  * @module lib/std/tools/ssh
  */
 
-import { type MiniTool, runCommand } from "./common.ts";
+import { DESTRUCTIVE_IDEMPOTENT_OPEN_WORLD, DESTRUCTIVE_OPEN_WORLD } from "./annotations.ts";
+import { commandFailed, type MiniTool, runCommand } from "./common.ts";
+import { parseRsyncProgress, reportLines } from "./progress.ts";
 
 export const sshTools: MiniTool[] = [
   {
@@ -12,6 +14,7 @@ export const sshTools: MiniTool[] = [
     description:
       "Execute shell commands on remote servers via SSH. Run any command on remote hosts and capture output. Supports custom ports and identity files. Use for remote server management, automation, deployment scripts, or system administration. Keywords: ssh command, remote execution, run on server, SSH shell, remote shell, execute remotely.",
     category: "system",
+    annotations: DESTRUCTIVE_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -30,13 +33,16 @@ export const sshTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ host, command, port, identity, timeout = 30 }) => {
+    handler: async ({ host, command, port, identity, timeout = 30 }, ctx) => {
       const args = ["-o", "StrictHostKeyChecking=no", "-o", `ConnectTimeout=${timeout}`];
       if (port) args.push("-p", String(port));
       if (identity) args.push("-i", identity as string);
       args.push(host as string, command as string);
 
-      const result = await runCommand("ssh", args, { timeout: (timeout as number) * 1000 + 5000 });
+      const result = await runCommand("ssh", args, {
+        timeout: (timeout as number) * 1000 + 5000,
+        signal: ctx?.signal,
+      });
       return {
         host,
         command,
@@ -52,6 +58,7 @@ export const sshTools: MiniTool[] = [
     description:
       "Secure copy files between local and remote hosts over SSH. Transfer files to/from servers with encryption. Supports recursive directory copying and custom SSH ports. Use for deploying files, downloading from servers, or secure file transfers. Keywords: scp, secure copy, remote file transfer, upload to server, download from server, SSH file copy.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -63,16 +70,16 @@ export const sshTools: MiniTool[] = [
       },
       required: ["source", "destination"],
     },
-    handler: async ({ source, destination, recursive = false, port, identity }) => {
+    handler: async ({ source, destination, recursive = false, port, identity }, ctx) => {
       const args = ["-o", "StrictHostKeyChecking=no"];
       if (recursive) args.push("-r");
       if (port) args.push("-P", String(port));
       if (identity) args.push("-i", identity as string);
       args.push(source as string, destination as string);
 
-      const result = await runCommand("scp", args, { timeout: 300000 });
+      const result = await runCommand("scp", args, { timeout: 300000, signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`scp failed: ${result.stderr}`);
+        throw commandFailed("scp", result);
       }
       return { success: true, source, destination };
     },
@@ -82,6 +89,7 @@ export const sshTools: MiniTool[] = [
     description:
       "Efficiently synchronize files and directories locally or over SSH. Only transfers changed portions of files, ideal for backups and mirroring. Supports dry-run, delete mode, and exclude patterns. Keywords: rsync, file sync, incremental backup, mirror directory, synchronize folders, delta transfer, backup sync.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT_OPEN_WORLD,
     inputSchema: {
       type: "object",
       properties: {
@@ -100,7 +108,10 @@ export const sshTools: MiniTool[] = [
         accepts: [],
       },
     },
-    handler: async ({ source, destination, delete: del = false, dryRun = false, exclude = [] }) => {
+    handler: async (
+      { source, destination, delete: del = false, dryRun = false, exclude = [] },
+      ctx,
+    ) => {
       const args = ["-avz", "--progress"];
       if (del) args.push("--delete");
       if (dryRun) args.push("--dry-run");
@@ -109,9 +120,13 @@ export const sshTools: MiniTool[] = [
       }
       args.push(source as string, destination as string);
 
-      const result = await runCommand("rsync", args, { timeout: 600000 });
+      const result = await runCommand("rsync", args, {
+        timeout: 600000,
+        signal: ctx?.signal,
+        onLine: reportLines(parseRsyncProgress, ctx),
+      });
       if (result.code !== 0) {
-        throw new Error(`rsync failed: ${result.stderr}`);
+        throw commandFailed("rsync", result);
       }
       return { success: true, output: result.stdout, dryRun };
     },
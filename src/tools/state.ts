@@ -1,30 +1,255 @@
 /**
  * State/KV store tools
  *
- * In-memory key-value store for agent state management.
+ * Key-value store for agent state management. Entries live in memory by
+ * default; setStateBackend() switches to a persistent backend (see
+ * statestore.ts).
+ *
+ * Keys are grouped into namespaces so concurrent agents do not clobber each
+ * other: every tool takes an optional `namespace` (default "default"), and
+ * `session: true` scopes it to the calling MCP session. Each entry carries a
+ * version that goes up on every write, for optimistic updates via state_cas.
+ * Keys are also exposed as state://<namespace>/<key> MCP resources
+ * (stateResources); session namespaces are not listed.
  *
  * @module lib/std/state
  */
 
-import type { MiniTool } from "./types.ts";
+import { ADDITIVE, DESTRUCTIVE, DESTRUCTIVE_IDEMPOTENT, READ_ONLY } from "./annotations.ts";
+import { type StateChange, type StateChangeListener, StateChangeLog } from "./statelog.ts";
+import { MemoryStateBackend, type StateBackend, type StateEntry } from "./statestore.ts";
+import { ToolError } from "./errors.ts";
+import type { MiniTool, ResourceProvider, ToolContext } from "./types.ts";
+
+let stateStorage: StateBackend = new MemoryStateBackend();
+const stateChanges = new StateChangeLog();
+
+/**
+ * Replace the storage backend (called by server.ts from the `state` config).
+ * The previous backend is closed; existing entries are not copied.
+ */
+export async function setStateBackend(backend: StateBackend): Promise<void> {
+  const previous = stateStorage;
+  stateStorage = backend;
+  await previous.close();
+}
+
+const isExpired = (entry: StateEntry | undefined, now = Date.now()) =>
+  entry?.expiresAt !== undefined && entry.expiresAt < now;
+
+const toISO = (time: number | undefined) =>
+  time === undefined ? undefined : new Date(time).toISOString();
+
+const globToRegex = (pattern: string) =>
+  new RegExp(
+    "^" + pattern.replace(/\./g, "\\.").replace(/\*/g, ".*").replace(/\?/g, ".") + "$",
+  );
+
+// ============================================================================
+// Namespaces
+// ============================================================================
+
+const DEFAULT_NAMESPACE = "default";
+
+/** Session id for callers without one (stdio: one process, one session) */
+const LOCAL_SESSION = crypto.randomUUID();
+
+/** Input properties shared by every state tool */
+const SCOPE_PROPERTIES = {
+  namespace: {
+    type: "string",
+    pattern: "^[^/:]+$",
+    description: "Namespace to use (default: 'default')",
+  },
+  session: {
+    type: "boolean",
+    description: "Scope the namespace to the current MCP session (default: false)",
+  },
+};
+
+/**
+ * Resolve the namespace for a call. Backends store `<namespace>/<key>`;
+ * session namespaces use a `session:<id>:` prefix that explicit names cannot
+ * contain.
+ */
+function namespaceOf(args: Record<string, unknown>, ctx?: ToolContext): string {
+  const namespace = (args.namespace as string | undefined) ?? DEFAULT_NAMESPACE;
+  if (!args.session) return namespace;
+  const session = (ctx?.sessionId ?? LOCAL_SESSION).replaceAll("/", "_");
+  return `session:${session}:${namespace}`;
+}
+
+const storageKey = (namespace: string, key: string) => `${namespace}/${key}`;
+
+/** Live (unexpired) entries of a namespace, keyed without the namespace prefix */
+async function liveEntries(namespace: string): Promise<Array<[string, StateEntry]>> {
+  const now = Date.now();
+  const prefix = `${namespace}/`;
+  return (await stateStorage.entries())
+    .filter(([key, entry]) => key.startsWith(prefix) && !isExpired(entry, now))
+    .map(([key, entry]) => [key.slice(prefix.length), entry]);
+}
 
-// In-memory state storage
-const stateStorage = new Map<string, {
-  value: unknown;
-  createdAt: Date;
-  updatedAt: Date;
-  ttl?: number;
-  expiresAt?: Date;
-}>();
+/** Delete the expired entries of a namespace; returns the count */
+async function deleteExpiredIn(namespace: string): Promise<number> {
+  const now = Date.now();
+  const prefix = `${namespace}/`;
+  let count = 0;
+  for (const [key, entry] of await stateStorage.entries()) {
+    if (!key.startsWith(prefix) || !isExpired(entry, now)) continue;
+    // Re-check inside the update so an entry rewritten meanwhile survives
+    await stateStorage.update(key, (current) => {
+      if (!isExpired(current, now)) return current;
+      count++;
+      return undefined;
+    });
+  }
+  return count;
+}
+
+/**
+ * Write a key atomically and log the change. `fn` sees the live entry
+ * (undefined if missing or expired) and returns the new value, or undefined
+ * to leave the entry as it is. Versions keep counting up through expiry.
+ */
+async function writeEntry(
+  namespace: string,
+  key: string,
+  fn: (live: StateEntry | undefined) => { value: unknown; ttl?: number } | undefined,
+): Promise<StateEntry | undefined> {
+  let written = false;
+  const result = await stateStorage.update(storageKey(namespace, key), (entry) => {
+    const now = Date.now();
+    const live = isExpired(entry, now) ? undefined : entry;
+    const next = fn(live);
+    if (!next) return entry;
+    written = true;
+    return {
+      value: next.value,
+      version: (entry?.version ?? 0) + 1,
+      createdAt: live?.createdAt ?? now,
+      updatedAt: now,
+      ...(next.ttl && { ttl: next.ttl, expiresAt: now + next.ttl * 1000 }),
+    };
+  });
+  if (written && result) {
+    stateChanges.record({
+      op: "set",
+      namespace,
+      key,
+      value: result.value,
+      version: result.version,
+    });
+  }
+  return result;
+}
+
+/** Read a key, deleting it if it has expired */
+async function readEntry(key: string): Promise<{ entry?: StateEntry; expired?: boolean }> {
+  const entry = await stateStorage.get(key);
+  if (isExpired(entry)) {
+    await stateStorage.delete(key);
+    return { expired: true };
+  }
+  return { entry };
+}
+
+/**
+ * Listen to writes made through the state_* tools (server.ts turns them into
+ * resource-update notifications). Returns an unsubscribe function.
+ */
+export function onStateChange(listener: StateChangeListener): () => void {
+  return stateChanges.subscribe(listener);
+}
+
+/** Resource URI of a state key: state://<namespace>/<key> */
+export function stateResourceUri(namespace: string, key: string): string {
+  return `state://${encodeURIComponent(namespace)}/${encodeURIComponent(key)}`;
+}
+
+/** Session namespaces belong to one MCP session and are not exposed as resources */
+const isSessionNamespace = (namespace: string) => namespace.startsWith("session:");
+
+/**
+ * Namespace and key of a state://<namespace>/<key> resource URI
+ *
+ * @throws ToolError NOT_FOUND for other URIs and for session namespaces
+ */
+function parseStateUri(uri: string): { namespace: string; key: string } {
+  const match = /^state:\/\/([^/]+)\/(.+)$/.exec(uri);
+  if (!match) throw new ToolError("NOT_FOUND", `Not a state resource: ${uri}`);
+  let parsed: { namespace: string; key: string };
+  try {
+    parsed = { namespace: decodeURIComponent(match[1]), key: decodeURIComponent(match[2]) };
+  } catch (e) {
+    throw new ToolError("INVALID_ARGUMENT", `Malformed state resource URI: ${uri}`, { cause: e });
+  }
+  if (isSessionNamespace(parsed.namespace)) {
+    throw new ToolError("NOT_FOUND", `Session state is not exposed as a resource: ${uri}`);
+  }
+  return parsed;
+}
+
+const MAX_LISTED_RESOURCES = 1000;
+
+/** State keys as MCP resources: the value with its version and timestamps, as JSON */
+export const stateResources: ResourceProvider = {
+  category: "state",
+  uriTemplate: "state://{namespace}/{key}",
+  name: "State store",
+  description: "Keys set with the state_* tools, as JSON with their version and timestamps",
+  list: async () => {
+    const now = Date.now();
+    return (await stateStorage.entries())
+      .filter(([key, entry]) => !isSessionNamespace(key) && !isExpired(entry, now))
+      .slice(0, MAX_LISTED_RESOURCES)
+      .map(([storedKey]) => {
+        const slash = storedKey.indexOf("/");
+        const namespace = storedKey.slice(0, slash);
+        const key = storedKey.slice(slash + 1);
+        return {
+          uri: stateResourceUri(namespace, key),
+          name: `${namespace}/${key}`,
+          mimeType: "application/json",
+        };
+      });
+  },
+  read: async (uri) => {
+    const { namespace, key } = parseStateUri(uri);
+    const { entry } = await readEntry(storageKey(namespace, key));
+    if (!entry) throw new ToolError("NOT_FOUND", `Key not found: ${namespace}/${key}`);
+    const text = JSON.stringify(
+      {
+        value: entry.value,
+        version: entry.version,
+        createdAt: toISO(entry.createdAt),
+        updatedAt: toISO(entry.updatedAt),
+        expiresAt: toISO(entry.expiresAt),
+      },
+      null,
+      2,
+    );
+    return { uri, mimeType: "application/json", text };
+  },
+  watch: (listener) =>
+    onStateChange((change) => {
+      if (!isSessionNamespace(change.namespace)) {
+        listener(stateResourceUri(change.namespace, change.key));
+      }
+    }),
+};
+
+const formatChange = ({ seq, op, key, value, version, at }: StateChange) => ({
+  seq,
+  op,
+  key,
+  ...(op === "set" && { value, version }),
+  at: toISO(at),
+});
 
 // Cleanup expired entries periodically
 setInterval(() => {
-  const now = new Date();
-  for (const [key, entry] of stateStorage.entries()) {
-    if (entry.expiresAt && entry.expiresAt < now) {
-      stateStorage.delete(key);
-    }
-  }
+  stateStorage.deleteExpired(Date.now()).catch(() => {/* retried next sweep */});
 }, 60000); // Every minute
 
 export const stateTools: MiniTool[] = [
@@ -32,46 +257,46 @@ export const stateTools: MiniTool[] = [
     name: "state_set",
     description: "Set a value in the state store",
     category: "state",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
         key: { type: "string", description: "Key to set" },
         value: { description: "Value to store" },
         ttl: { type: "number", description: "Time-to-live in seconds (optional)" },
+        ...SCOPE_PROPERTIES,
       },
       required: ["key", "value"],
     },
-    handler: ({ key, value, ttl }) => {
-      const now = new Date();
-      const entry = {
-        value,
-        createdAt: stateStorage.get(key as string)?.createdAt || now,
-        updatedAt: now,
-        ttl: ttl as number | undefined,
-        expiresAt: ttl ? new Date(now.getTime() + (ttl as number) * 1000) : undefined,
-      };
-      stateStorage.set(key as string, entry);
-      return { success: true, key, expiresAt: entry.expiresAt?.toISOString() };
+    handler: async (args, ctx) => {
+      const { key, value, ttl } = args;
+      const entry = await writeEntry(
+        namespaceOf(args, ctx),
+        key as string,
+        () => ({ value, ttl: ttl as number | undefined }),
+      );
+      return { success: true, key, version: entry?.version, expiresAt: toISO(entry?.expiresAt) };
     },
   },
   {
     name: "state_get",
     description: "Get a value from the state store",
     category: "state",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
         key: { type: "string", description: "Key to get" },
         default: { description: "Default value if key not found" },
+        ...SCOPE_PROPERTIES,
       },
       required: ["key"],
     },
-    handler: ({ key, default: defaultValue }) => {
-      const entry = stateStorage.get(key as string);
+    handler: async (args, ctx) => {
+      const { key, default: defaultValue } = args;
+      const { entry, expired } = await readEntry(storageKey(namespaceOf(args, ctx), key as string));
 
-      // Check if expired
-      if (entry?.expiresAt && entry.expiresAt < new Date()) {
-        stateStorage.delete(key as string);
+      if (expired) {
         return { value: defaultValue, found: false, expired: true };
       }
 
@@ -82,25 +307,138 @@ export const stateTools: MiniTool[] = [
       return {
         value: entry.value,
         found: true,
-        createdAt: entry.createdAt.toISOString(),
-        updatedAt: entry.updatedAt.toISOString(),
-        expiresAt: entry.expiresAt?.toISOString(),
+        version: entry.version,
+        createdAt: toISO(entry.createdAt),
+        updatedAt: toISO(entry.updatedAt),
+        expiresAt: toISO(entry.expiresAt),
       };
     },
   },
+  {
+    name: "state_get_many",
+    description:
+      "Get several values from the state store in one call. Returns found keys with their values and versions, and the keys that were missing. Keywords: batch get, multi get, mget, read keys.",
+    category: "state",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        keys: { type: "array", items: { type: "string" }, description: "Keys to get" },
+        ...SCOPE_PROPERTIES,
+      },
+      required: ["keys"],
+    },
+    handler: async (args, ctx) => {
+      const namespace = namespaceOf(args, ctx);
+      const values: Record<string, { value: unknown; version: number }> = {};
+      const missing: string[] = [];
+
+      for (const key of args.keys as string[]) {
+        const { entry } = await readEntry(storageKey(namespace, key));
+        if (entry) {
+          values[key] = { value: entry.value, version: entry.version };
+        } else {
+          missing.push(key);
+        }
+      }
+
+      return { values, missing };
+    },
+  },
+  {
+    name: "state_set_many",
+    description:
+      "Set several values in the state store in one call, optionally with a shared TTL. Each key is written atomically on its own. Keywords: batch set, multi set, mset, write keys.",
+    category: "state",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        entries: {
+          type: "object",
+          additionalProperties: true,
+          description: "Map of key to value",
+        },
+        ttl: { type: "number", description: "Time-to-live in seconds for every key (optional)" },
+        ...SCOPE_PROPERTIES,
+      },
+      required: ["entries"],
+    },
+    handler: async (args, ctx) => {
+      const namespace = namespaceOf(args, ctx);
+      const versions: Record<string, number | undefined> = {};
+
+      for (const [key, value] of Object.entries(args.entries as Record<string, unknown>)) {
+        const entry = await writeEntry(
+          namespace,
+          key,
+          () => ({ value, ttl: args.ttl as number | undefined }),
+        );
+        versions[key] = entry?.version;
+      }
+
+      return { success: true, count: Object.keys(versions).length, versions };
+    },
+  },
+  {
+    name: "state_cas",
+    description:
+      "Compare-and-set: write a value only if the key is still at the expected version (0 = key must not exist). Use for safe concurrent updates: read with state_get, compute, then state_cas with the version you read; retry on conflict. Keywords: compare and swap, optimistic locking, atomic update, version check.",
+    category: "state",
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: { type: "string", description: "Key to set" },
+        expectedVersion: {
+          type: "integer",
+          minimum: 0,
+          description: "Version from state_get (0 if the key should not exist yet)",
+        },
+        value: { description: "Value to store" },
+        ttl: { type: "number", description: "Time-to-live in seconds (optional)" },
+        ...SCOPE_PROPERTIES,
+      },
+      required: ["key", "expectedVersion", "value"],
+    },
+    handler: async (args, ctx) => {
+      const { key, expectedVersion, value, ttl } = args;
+      let current: StateEntry | undefined;
+      const entry = await writeEntry(namespaceOf(args, ctx), key as string, (live) => {
+        current = live;
+        if ((live?.version ?? 0) !== expectedVersion) return undefined;
+        return { value, ttl: ttl as number | undefined };
+      });
+
+      if ((current?.version ?? 0) !== expectedVersion) {
+        return { success: false, key, version: current?.version ?? 0, value: current?.value };
+      }
+      return { success: true, key, version: entry?.version };
+    },
+  },
   {
     name: "state_delete",
     description: "Delete a key from the state store",
     category: "state",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
         key: { type: "string", description: "Key to delete" },
+        ...SCOPE_PROPERTIES,
       },
       required: ["key"],
     },
-    handler: ({ key }) => {
-      const existed = stateStorage.delete(key as string);
+    handler: async (args, ctx) => {
+      const namespace = namespaceOf(args, ctx);
+      const key = args.key as string;
+      let existed = false;
+      // An expired key is already gone as far as callers can tell: drop it quietly
+      await stateStorage.update(storageKey(namespace, key), (current) => {
+        existed = current !== undefined && !isExpired(current);
+        return undefined;
+      });
+      if (existed) stateChanges.record({ op: "delete", namespace, key });
       return { success: existed, deleted: key };
     },
   },
@@ -108,30 +446,36 @@ export const stateTools: MiniTool[] = [
     name: "state_has",
     description: "Check if a key exists in the state store",
     category: "state",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
         key: { type: "string", description: "Key to check" },
+        ...SCOPE_PROPERTIES,
       },
       required: ["key"],
     },
-    handler: ({ key }) => {
-      const entry = stateStorage.get(key as string);
-      if (entry?.expiresAt && entry.expiresAt < new Date()) {
-        stateStorage.delete(key as string);
+    handler: async (args, ctx) => {
+      const { entry, expired } = await readEntry(
+        storageKey(namespaceOf(args, ctx), args.key as string),
+      );
+      if (expired) {
         return { exists: false, expired: true };
       }
-      return { exists: stateStorage.has(key as string) };
+      return { exists: entry !== undefined };
     },
   },
   {
     name: "state_keys",
     description: "List all keys in the state store",
     category: "state",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
         pattern: { type: "string", description: "Glob pattern to filter keys" },
+        prefix: { type: "string", description: "Only keys starting with this prefix" },
+        ...SCOPE_PROPERTIES,
       },
     },
     _meta: {
@@ -141,23 +485,15 @@ export const stateTools: MiniTool[] = [
         accepts: ["filter"],
       },
     },
-    handler: ({ pattern }) => {
-      const now = new Date();
-      let keys: string[] = [];
+    handler: async (args, ctx) => {
+      const { pattern, prefix } = args;
+      let keys = (await liveEntries(namespaceOf(args, ctx))).map(([key]) => key);
 
-      for (const [key, entry] of stateStorage.entries()) {
-        if (entry.expiresAt && entry.expiresAt < now) {
-          stateStorage.delete(key);
-          continue;
-        }
-        keys.push(key);
+      if (prefix) {
+        keys = keys.filter((k) => k.startsWith(prefix as string));
       }
-
       if (pattern) {
-        const regex = new RegExp(
-          "^" + (pattern as string).replace(/\./g, "\\.").replace(/\*/g, ".*").replace(/\?/g, ".") +
-            "$",
-        );
+        const regex = globToRegex(pattern as string);
         keys = keys.filter((k) => regex.test(k));
       }
 
@@ -168,112 +504,106 @@ export const stateTools: MiniTool[] = [
     name: "state_clear",
     description: "Clear all or matching keys from the state store",
     category: "state",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
-        pattern: { type: "string", description: "Glob pattern to match (clears all if omitted)" },
+        pattern: {
+          type: "string",
+          description: "Glob pattern to match (clears the whole namespace if omitted)",
+        },
+        ...SCOPE_PROPERTIES,
       },
     },
-    handler: ({ pattern }) => {
-      if (!pattern) {
-        const count = stateStorage.size;
-        stateStorage.clear();
-        return { cleared: count };
-      }
-
-      const regex = new RegExp(
-        "^" + (pattern as string).replace(/\./g, "\\.").replace(/\*/g, ".*").replace(/\?/g, ".") +
-          "$",
-      );
-      let count = 0;
-      for (const key of stateStorage.keys()) {
-        if (regex.test(key)) {
-          stateStorage.delete(key);
-          count++;
-        }
-      }
-      return { cleared: count, pattern };
+    handler: async (args, ctx) => {
+      const { pattern } = args;
+      const namespace = namespaceOf(args, ctx);
+      const prefix = storageKey(namespace, "");
+      const regex = pattern ? globToRegex(pattern as string) : undefined;
+      const cleared: string[] = [];
+      const count = await stateStorage.clear((key) => {
+        const matches = key.startsWith(prefix) && (!regex || regex.test(key.slice(prefix.length)));
+        if (matches) cleared.push(key.slice(prefix.length));
+        return matches;
+      });
+      for (const key of cleared) stateChanges.record({ op: "delete", namespace, key });
+      return pattern ? { cleared: count, pattern } : { cleared: count };
     },
   },
   {
     name: "state_increment",
     description: "Increment a numeric value (creates if not exists)",
     category: "state",
+    annotations: ADDITIVE,
     inputSchema: {
       type: "object",
       properties: {
         key: { type: "string", description: "Key to increment" },
         amount: { type: "number", description: "Amount to add (default: 1)" },
+        ...SCOPE_PROPERTIES,
       },
       required: ["key"],
     },
-    handler: ({ key, amount = 1 }) => {
-      const k = key as string;
-      const entry = stateStorage.get(k);
-      const currentValue = typeof entry?.value === "number" ? entry.value : 0;
-      const newValue = currentValue + (amount as number);
-
-      const now = new Date();
-      stateStorage.set(k, {
-        value: newValue,
-        createdAt: entry?.createdAt || now,
-        updatedAt: now,
+    handler: async (args, ctx) => {
+      const { key, amount = 1 } = args;
+      let currentValue = 0;
+      const updated = await writeEntry(namespaceOf(args, ctx), key as string, (live) => {
+        currentValue = typeof live?.value === "number" ? live.value : 0;
+        return { value: currentValue + (amount as number) };
       });
 
-      return { value: newValue, previous: currentValue };
+      return { value: updated!.value, previous: currentValue };
     },
   },
   {
     name: "state_append",
     description: "Append to an array value (creates if not exists)",
     category: "state",
+    annotations: ADDITIVE,
     inputSchema: {
       type: "object",
       properties: {
         key: { type: "string", description: "Key of array" },
         value: { description: "Value to append" },
         maxLength: { type: "number", description: "Max array length (removes oldest)" },
+        ...SCOPE_PROPERTIES,
       },
       required: ["key", "value"],
     },
-    handler: ({ key, value, maxLength }) => {
-      const k = key as string;
+    handler: async (args, ctx) => {
+      const { key, value, maxLength } = args;
       const maxLen = maxLength as number | undefined;
-      const entry = stateStorage.get(k);
-      const currentArray = Array.isArray(entry?.value) ? entry.value : [];
-      currentArray.push(value);
+      const updated = await writeEntry(namespaceOf(args, ctx), key as string, (live) => {
+        const currentArray = Array.isArray(live?.value) ? [...live.value] : [];
+        currentArray.push(value);
 
-      if (maxLen && currentArray.length > maxLen) {
-        currentArray.splice(0, currentArray.length - maxLen);
-      }
+        if (maxLen && currentArray.length > maxLen) {
+          currentArray.splice(0, currentArray.length - maxLen);
+        }
 
-      const now = new Date();
-      stateStorage.set(k, {
-        value: currentArray,
-        createdAt: entry?.createdAt || now,
-        updatedAt: now,
+        return { value: currentArray };
       });
 
-      return { length: currentArray.length };
+      return { length: (updated!.value as unknown[]).length };
     },
   },
   {
     name: "state_merge",
     description: "Merge object into existing value",
     category: "state",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
         key: { type: "string", description: "Key to merge into" },
         value: { type: "object", description: "Object to merge" },
         deep: { type: "boolean", description: "Deep merge (default: false)" },
+        ...SCOPE_PROPERTIES,
       },
       required: ["key", "value"],
     },
-    handler: ({ key, value, deep = false }) => {
-      const k = key as string;
-      const entry = stateStorage.get(k);
-      const current = (typeof entry?.value === "object" && entry.value !== null) ? entry.value : {};
+    handler: async (args, ctx) => {
+      const { key, value, deep = false } = args;
 
       const deepMerge = (
         target: Record<string, unknown>,
@@ -296,27 +626,99 @@ export const stateTools: MiniTool[] = [
         return result;
       };
 
-      const merged = deepMerge(
-        current as Record<string, unknown>,
-        value as Record<string, unknown>,
-      );
-      const now = new Date();
-      stateStorage.set(k, {
-        value: merged,
-        createdAt: entry?.createdAt || now,
-        updatedAt: now,
+      const updated = await writeEntry(namespaceOf(args, ctx), key as string, (live) => {
+        const current = (typeof live?.value === "object" && live.value !== null) ? live.value : {};
+        return {
+          value: deepMerge(current as Record<string, unknown>, value as Record<string, unknown>),
+        };
       });
 
-      return { value: merged };
+      return { value: updated!.value };
+    },
+  },
+  {
+    name: "state_watch",
+    description:
+      "Wait until a key (or any key under a prefix) changes, instead of polling state_get. Returns as soon as a matching write or delete happens, or with changed=false after the timeout. Pass the returned seq as `since` on the next call so no change is missed in between. Keywords: watch key, wait for change, subscribe, long poll, notify.",
+    category: "state",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: { type: "string", description: "Key to watch" },
+        prefix: { type: "string", description: "Watch every key starting with this prefix" },
+        since: {
+          type: "integer",
+          minimum: 0,
+          description: "Return changes after this seq (from a previous call) right away",
+        },
+        timeout: {
+          type: "number",
+          minimum: 0,
+          maximum: 300,
+          description: "Seconds to wait (default: 30)",
+        },
+        ...SCOPE_PROPERTIES,
+      },
+    },
+    handler: async (args, ctx) => {
+      const { key, prefix, since, timeout = 30 } = args;
+      const filter = {
+        namespace: namespaceOf(args, ctx),
+        key: key as string | undefined,
+        prefix: prefix as string | undefined,
+      };
+
+      if (since !== undefined) {
+        const missed = stateChanges.since(since as number, filter);
+        if (missed.length > 0) {
+          return { changed: true, changes: missed.map(formatChange), seq: stateChanges.seq };
+        }
+      }
+
+      // Stop waiting just before the call's own deadline so it ends with a result
+      let waitMs = (timeout as number) * 1000;
+      if (ctx?.deadline) waitMs = Math.max(0, Math.min(waitMs, ctx.deadline - Date.now() - 100));
+
+      const change = await stateChanges.wait(filter, waitMs, ctx?.signal);
+      return {
+        changed: change !== undefined,
+        changes: change ? [formatChange(change)] : [],
+        seq: change?.seq ?? stateChanges.seq,
+      };
+    },
+  },
+  {
+    name: "state_history",
+    description:
+      "Show the recent changes of a key, newest first, with the value and version each write left. Covers writes made since the server started (last 1000 changes across all keys). Keywords: change log, audit, previous values, key history.",
+    category: "state",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: { type: "string", description: "Key to show" },
+        limit: { type: "number", minimum: 1, description: "Max changes to return (default: 20)" },
+        ...SCOPE_PROPERTIES,
+      },
+      required: ["key"],
+    },
+    handler: (args, ctx) => {
+      const { key, limit = 20 } = args;
+      const changes = stateChanges.history(namespaceOf(args, ctx), key as string, limit as number);
+      return { key, changes: changes.map(formatChange) };
     },
   },
   {
     name: "state_stats",
     description: "Get state store statistics",
     category: "state",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
-      properties: {},
+      properties: {
+        ...SCOPE_PROPERTIES,
+      },
     },
     _meta: {
       ui: {
@@ -325,24 +727,20 @@ export const stateTools: MiniTool[] = [
         accepts: ["refresh"],
       },
     },
-    handler: () => {
-      const now = new Date();
+    handler: async (args, ctx) => {
+      const namespace = namespaceOf(args, ctx);
+      const expiredCount = await deleteExpiredIn(namespace);
+      const entries = await liveEntries(namespace);
       let totalSize = 0;
-      let expiredCount = 0;
       let withTTL = 0;
 
-      for (const [key, entry] of stateStorage.entries()) {
-        if (entry.expiresAt && entry.expiresAt < now) {
-          expiredCount++;
-          stateStorage.delete(key);
-          continue;
-        }
+      for (const [, entry] of entries) {
         if (entry.ttl) withTTL++;
         totalSize += JSON.stringify(entry.value).length;
       }
 
       return {
-        count: stateStorage.size,
+        count: entries.length,
         withTTL,
         expiredAndCleaned: expiredCount,
         approximateSizeBytes: totalSize,
@@ -0,0 +1,142 @@
+/**
+ * Change log for the state store
+ *
+ * Every write made through the state_* tools is appended here with a
+ * sequence number. The log backs state_history (prior values of a key),
+ * state_watch (block until something changes) and the resource-update
+ * notifications server.ts sends to subscribed clients.
+ *
+ * The log lives in memory and keeps the most recent changes only; writes
+ * made by another process sharing a persistent backend are not seen.
+ *
+ * @module lib/std/statelog
+ */
+
+import { abortError } from "./errors.ts";
+
+/** One recorded write */
+export interface StateChange {
+  /** Position in the log, increasing by one per change */
+  seq: number;
+  /** "set" for writes, "delete" for deletes and clears */
+  op: "set" | "delete";
+  namespace: string;
+  key: string;
+  /** New value (set only) */
+  value?: unknown;
+  /** Version after the write (set only) */
+  version?: number;
+  /** Epoch milliseconds */
+  at: number;
+}
+
+/** Which changes a watcher is interested in */
+export interface StateChangeFilter {
+  namespace: string;
+  /** Exact key */
+  key?: string;
+  /** Key prefix (ignored when key is set) */
+  prefix?: string;
+}
+
+export type StateChangeListener = (change: StateChange) => void;
+
+const DEFAULT_MAX_CHANGES = 1000;
+
+export function matchesChange(change: StateChange, filter: StateChangeFilter): boolean {
+  if (change.namespace !== filter.namespace) return false;
+  if (filter.key !== undefined) return change.key === filter.key;
+  return change.key.startsWith(filter.prefix ?? "");
+}
+
+/**
+ * Bounded, append-only log of state changes with listeners
+ */
+export class StateChangeLog {
+  private readonly maxChanges: number;
+  private changes: StateChange[] = [];
+  private listeners = new Set<StateChangeListener>();
+  private lastSeq = 0;
+
+  constructor(maxChanges = DEFAULT_MAX_CHANGES) {
+    this.maxChanges = maxChanges;
+  }
+
+  /** Sequence number of the latest change (0 before the first) */
+  get seq(): number {
+    return this.lastSeq;
+  }
+
+  /** Append a change and notify listeners */
+  record(change: Omit<StateChange, "seq" | "at">): StateChange {
+    const recorded = { ...change, seq: ++this.lastSeq, at: Date.now() };
+    this.changes.push(recorded);
+    if (this.changes.length > this.maxChanges) {
+      this.changes.splice(0, this.changes.length - this.maxChanges);
+    }
+    for (const listener of this.listeners) {
+      try {
+        listener(recorded);
+      } catch (error) {
+        console.error(`[mcp-std] State change listener failed: ${error}`);
+      }
+    }
+    return recorded;
+  }
+
+  /** Matching changes after `seq`, oldest first */
+  since(seq: number, filter: StateChangeFilter): StateChange[] {
+    return this.changes.filter((change) => change.seq > seq && matchesChange(change, filter));
+  }
+
+  /** Changes to one key, newest first */
+  history(namespace: string, key: string, limit: number): StateChange[] {
+    const result: StateChange[] = [];
+    for (let i = this.changes.length - 1; i >= 0 && result.length < limit; i--) {
+      const change = this.changes[i];
+      if (change.namespace === namespace && change.key === key) result.push(change);
+    }
+    return result;
+  }
+
+  /** Call `listener` for every change from now on; returns an unsubscribe function */
+  subscribe(listener: StateChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Wait for the next matching change. Resolves to undefined after
+   * `timeoutMs`; rejects with a CANCELLED/TIMEOUT ToolError when `signal`
+   * aborts.
+   */
+  wait(
+    filter: StateChangeFilter,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<StateChange | undefined> {
+    if (signal?.aborted) return Promise.reject(abortError(signal));
+
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const unsubscribe = this.subscribe((change) => {
+        if (!matchesChange(change, filter)) return;
+        finish();
+        resolve(change);
+      });
+      const timer = setTimeout(() => {
+        finish();
+        resolve(undefined);
+      }, timeoutMs);
+      const onAbort = () => {
+        finish();
+        reject(abortError(signal!));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,422 @@
+/**
+ * Storage backends for the state_* tools
+ *
+ * The state tools keep their data in a StateBackend. The default is an
+ * in-memory Map; the JSON-file, SQLite and PGlite backends persist entries
+ * (including their absolute expiry time) so state and TTLs survive restarts.
+ * SQLite is the one to use when several server processes share state: every
+ * read-modify-write runs in an IMMEDIATE transaction.
+ *
+ * @module lib/std/tools/statestore
+ */
+
+import { DatabaseSync } from "node:sqlite";
+import { PGlite } from "@electric-sql/pglite";
+
+/** A stored value with its bookkeeping; times are epoch milliseconds */
+export interface StateEntry {
+  value: unknown;
+  /** Starts at 1 and goes up by one on every write */
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+  /** TTL in seconds the entry was set with */
+  ttl?: number;
+  expiresAt?: number;
+}
+
+/**
+ * Key-value storage used by the state tools. Backends store entries as-is;
+ * expiry is decided by the caller, which passes the current time.
+ */
+export interface StateBackend {
+  get(key: string): Promise<StateEntry | undefined>;
+  /**
+   * Atomically replace an entry with `fn(current)`; returning undefined
+   * deletes it. Resolves to the new entry.
+   */
+  update(
+    key: string,
+    fn: (current: StateEntry | undefined) => StateEntry | undefined,
+  ): Promise<StateEntry | undefined>;
+  delete(key: string): Promise<boolean>;
+  entries(): Promise<Array<[string, StateEntry]>>;
+  /** Delete all entries (or those whose key passes `match`); returns the count */
+  clear(match?: (key: string) => boolean): Promise<number>;
+  /** Delete entries that expired before `now`; returns the count */
+  deleteExpired(now: number): Promise<number>;
+  close(): Promise<void>;
+}
+
+/** Which backend to use and where it keeps its data */
+export interface StateBackendConfig {
+  backend: "memory" | "json" | "sqlite" | "pglite";
+  /** File (json, sqlite) or directory (pglite); required except for memory */
+  path?: string;
+}
+
+/**
+ * Create a backend from config
+ *
+ * @throws Error if a persistent backend has no path
+ */
+export async function createStateBackend(config: StateBackendConfig): Promise<StateBackend> {
+  if (config.backend === "memory") return new MemoryStateBackend();
+  if (!config.path) {
+    throw new Error(`State backend "${config.backend}" requires a path`);
+  }
+  switch (config.backend) {
+    case "json":
+      return new JsonFileStateBackend(config.path);
+    case "sqlite":
+      return new SqliteStateBackend(config.path);
+    case "pglite":
+      return await PgliteStateBackend.open(config.path);
+  }
+}
+
+// ============================================================================
+// In-memory
+// ============================================================================
+
+/**
+ * Entries in a Map; lost when the process exits
+ */
+export class MemoryStateBackend implements StateBackend {
+  protected data: Map<string, StateEntry> = new Map();
+
+  get(key: string): Promise<StateEntry | undefined> {
+    return Promise.resolve(this.data.get(key));
+  }
+
+  update(
+    key: string,
+    fn: (current: StateEntry | undefined) => StateEntry | undefined,
+  ): Promise<StateEntry | undefined> {
+    const next = fn(this.data.get(key));
+    if (next) {
+      this.data.set(key, next);
+    } else {
+      this.data.delete(key);
+    }
+    return Promise.resolve(next);
+  }
+
+  delete(key: string): Promise<boolean> {
+    return Promise.resolve(this.data.delete(key));
+  }
+
+  entries(): Promise<Array<[string, StateEntry]>> {
+    return Promise.resolve([...this.data.entries()]);
+  }
+
+  clear(match?: (key: string) => boolean): Promise<number> {
+    let count = 0;
+    for (const key of [...this.data.keys()]) {
+      if (!match || match(key)) {
+        this.data.delete(key);
+        count++;
+      }
+    }
+    return Promise.resolve(count);
+  }
+
+  deleteExpired(now: number): Promise<number> {
+    return this.clear((key) => {
+      const expiresAt = this.data.get(key)?.expiresAt;
+      return expiresAt !== undefined && expiresAt < now;
+    });
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+// ============================================================================
+// JSON file
+// ============================================================================
+
+/**
+ * Entries in a JSON file, rewritten (via a temp file and rename) after each
+ * change and re-read when another process has modified it
+ */
+export class JsonFileStateBackend extends MemoryStateBackend {
+  private mtime: number | null | undefined;
+
+  constructor(private readonly path: string) {
+    super();
+  }
+
+  private async load(): Promise<void> {
+    let mtime: number | null;
+    try {
+      mtime = (await Deno.stat(this.path)).mtime?.getTime() ?? null;
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      this.data = new Map();
+      this.mtime = undefined;
+      return;
+    }
+    if (mtime !== null && mtime === this.mtime) return;
+    const parsed = JSON.parse(await Deno.readTextFile(this.path)) as Record<string, StateEntry>;
+    this.data = new Map(
+      Object.entries(parsed).map(([key, entry]) => [key, { ...entry, version: entry.version ?? 1 }]),
+    );
+    this.mtime = mtime;
+  }
+
+  private async save(): Promise<void> {
+    const tmp = `${this.path}.${crypto.randomUUID()}.tmp`;
+    await Deno.writeTextFile(tmp, JSON.stringify(Object.fromEntries(this.data)));
+    await Deno.rename(tmp, this.path);
+    this.mtime = (await Deno.stat(this.path)).mtime?.getTime() ?? null;
+  }
+
+  override async get(key: string): Promise<StateEntry | undefined> {
+    await this.load();
+    return super.get(key);
+  }
+
+  override async update(
+    key: string,
+    fn: (current: StateEntry | undefined) => StateEntry | undefined,
+  ): Promise<StateEntry | undefined> {
+    await this.load();
+    const next = await super.update(key, fn);
+    await this.save();
+    return next;
+  }
+
+  override async delete(key: string): Promise<boolean> {
+    await this.load();
+    const existed = await super.delete(key);
+    if (existed) await this.save();
+    return existed;
+  }
+
+  override async entries(): Promise<Array<[string, StateEntry]>> {
+    await this.load();
+    return super.entries();
+  }
+
+  override async clear(match?: (key: string) => boolean): Promise<number> {
+    await this.load();
+    const count = await super.clear(match);
+    if (count > 0) await this.save();
+    return count;
+  }
+}
+
+// ============================================================================
+// SQLite
+// ============================================================================
+
+interface StateRow {
+  key: string;
+  value: string;
+  version: number;
+  created_at: number;
+  updated_at: number;
+  ttl: number | null;
+  expires_at: number | null;
+}
+
+function fromRow(row: StateRow): StateEntry {
+  return {
+    value: JSON.parse(row.value),
+    version: Number(row.version),
+    createdAt: Number(row.created_at),
+    updatedAt: Number(row.updated_at),
+    ...(row.ttl !== null && { ttl: Number(row.ttl) }),
+    ...(row.expires_at !== null && { expiresAt: Number(row.expires_at) }),
+  };
+}
+
+function toParams(key: string, entry: StateEntry) {
+  return [
+    key,
+    JSON.stringify(entry.value ?? null),
+    entry.version,
+    entry.createdAt,
+    entry.updatedAt,
+    entry.ttl ?? null,
+    entry.expiresAt ?? null,
+  ] as const;
+}
+
+const COLUMNS = "(key, value, version, created_at, updated_at, ttl, expires_at)";
+
+const CREATE_TABLE = `CREATE TABLE IF NOT EXISTS state (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  version BIGINT NOT NULL DEFAULT 1,
+  created_at BIGINT NOT NULL,
+  updated_at BIGINT NOT NULL,
+  ttl BIGINT,
+  expires_at BIGINT
+)`;
+
+/**
+ * Entries in a SQLite database (WAL mode), safe to share between processes
+ */
+export class SqliteStateBackend implements StateBackend {
+  private db: DatabaseSync;
+
+  constructor(path: string) {
+    this.db = new DatabaseSync(path);
+    this.db.exec("PRAGMA journal_mode = WAL; PRAGMA busy_timeout = 5000;");
+    this.db.exec(CREATE_TABLE);
+    // Tables created before versioning lack the column
+    const columns = this.db.prepare("PRAGMA table_info(state)").all() as Array<{ name: string }>;
+    if (!columns.some((column) => column.name === "version")) {
+      this.db.exec("ALTER TABLE state ADD COLUMN version BIGINT NOT NULL DEFAULT 1");
+    }
+  }
+
+  private select(key: string): StateEntry | undefined {
+    const row = this.db.prepare("SELECT * FROM state WHERE key = ?").get(key);
+    return row ? fromRow(row as unknown as StateRow) : undefined;
+  }
+
+  get(key: string): Promise<StateEntry | undefined> {
+    return Promise.resolve(this.select(key));
+  }
+
+  update(
+    key: string,
+    fn: (current: StateEntry | undefined) => StateEntry | undefined,
+  ): Promise<StateEntry | undefined> {
+    this.db.exec("BEGIN IMMEDIATE");
+    try {
+      const next = fn(this.select(key));
+      if (next) {
+        this.db.prepare(`INSERT OR REPLACE INTO state ${COLUMNS} VALUES (?, ?, ?, ?, ?, ?, ?)`)
+          .run(...toParams(key, next));
+      } else {
+        this.db.prepare("DELETE FROM state WHERE key = ?").run(key);
+      }
+      this.db.exec("COMMIT");
+      return Promise.resolve(next);
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      return Promise.reject(error);
+    }
+  }
+
+  delete(key: string): Promise<boolean> {
+    const { changes } = this.db.prepare("DELETE FROM state WHERE key = ?").run(key);
+    return Promise.resolve(Number(changes) > 0);
+  }
+
+  entries(): Promise<Array<[string, StateEntry]>> {
+    const rows = this.db.prepare("SELECT * FROM state ORDER BY key").all() as unknown as StateRow[];
+    return Promise.resolve(rows.map((row) => [row.key, fromRow(row)]));
+  }
+
+  clear(match?: (key: string) => boolean): Promise<number> {
+    if (!match) {
+      const { changes } = this.db.prepare("DELETE FROM state").run();
+      return Promise.resolve(Number(changes));
+    }
+    const keys = (this.db.prepare("SELECT key FROM state").all() as unknown as StateRow[])
+      .map((row) => row.key)
+      .filter(match);
+    const remove = this.db.prepare("DELETE FROM state WHERE key = ?");
+    for (const key of keys) remove.run(key);
+    return Promise.resolve(keys.length);
+  }
+
+  deleteExpired(now: number): Promise<number> {
+    const { changes } = this.db.prepare("DELETE FROM state WHERE expires_at < ?").run(now);
+    return Promise.resolve(Number(changes));
+  }
+
+  close(): Promise<void> {
+    this.db.close();
+    return Promise.resolve();
+  }
+}
+
+// ============================================================================
+// PGlite
+// ============================================================================
+
+/**
+ * Entries in an embedded PGlite (PostgreSQL) database directory
+ */
+export class PgliteStateBackend implements StateBackend {
+  private constructor(private readonly db: PGlite) {}
+
+  /** Open (creating if needed) the database at `path` ("memory://" for in-memory) */
+  static async open(path: string): Promise<PgliteStateBackend> {
+    const db = new PGlite(path === ":memory:" ? "memory://" : path);
+    await db.exec(CREATE_TABLE);
+    await db.exec("ALTER TABLE state ADD COLUMN IF NOT EXISTS version BIGINT NOT NULL DEFAULT 1");
+    return new PgliteStateBackend(db);
+  }
+
+  async get(key: string): Promise<StateEntry | undefined> {
+    const { rows } = await this.db.query<StateRow>("SELECT * FROM state WHERE key = $1", [key]);
+    return rows[0] ? fromRow(rows[0]) : undefined;
+  }
+
+  update(
+    key: string,
+    fn: (current: StateEntry | undefined) => StateEntry | undefined,
+  ): Promise<StateEntry | undefined> {
+    return this.db.transaction(async (tx) => {
+      const { rows } = await tx.query<StateRow>(
+        "SELECT * FROM state WHERE key = $1 FOR UPDATE",
+        [key],
+      );
+      const next = fn(rows[0] ? fromRow(rows[0]) : undefined);
+      if (next) {
+        await tx.query(
+          `INSERT INTO state ${COLUMNS} VALUES ($1, $2, $3, $4, $5, $6, $7)
+           ON CONFLICT (key) DO UPDATE SET value = $2, version = $3, created_at = $4,
+             updated_at = $5, ttl = $6, expires_at = $7`,
+          [...toParams(key, next)],
+        );
+      } else {
+        await tx.query("DELETE FROM state WHERE key = $1", [key]);
+      }
+      return next;
+    });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const { affectedRows } = await this.db.query("DELETE FROM state WHERE key = $1", [key]);
+    return (affectedRows ?? 0) > 0;
+  }
+
+  async entries(): Promise<Array<[string, StateEntry]>> {
+    const { rows } = await this.db.query<StateRow>("SELECT * FROM state ORDER BY key");
+    return rows.map((row) => [row.key, fromRow(row)]);
+  }
+
+  async clear(match?: (key: string) => boolean): Promise<number> {
+    if (!match) {
+      const { affectedRows } = await this.db.query("DELETE FROM state");
+      return affectedRows ?? 0;
+    }
+    const { rows } = await this.db.query<{ key: string }>("SELECT key FROM state");
+    const keys = rows.map((row) => row.key).filter(match);
+    if (keys.length > 0) {
+      await this.db.query("DELETE FROM state WHERE key = ANY($1)", [keys]);
+    }
+    return keys.length;
+  }
+
+  async deleteExpired(now: number): Promise<number> {
+    const { affectedRows } = await this.db.query(
+      "DELETE FROM state WHERE expires_at < $1",
+      [now],
+    );
+    return affectedRows ?? 0;
+  }
+
+  close(): Promise<void> {
+    return this.db.close();
+  }
+}
@@ -6,6 +6,7 @@
  * @module lib/std/string
  */
 
+import { READ_ONLY } from "./annotations.ts";
 import type { MiniTool } from "./types.ts";
 
 export const stringTools: MiniTool[] = [
@@ -14,6 +15,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Convert text to URL-friendly slug. Transforms titles, names, or any text into lowercase hyphenated format safe for URLs. Handles unicode, removes special characters, collapses whitespace. Use for URL generation, file naming, or ID creation. Keywords: slugify, URL slug, hyphenate, permalink, SEO URL, clean URL, kebab-case URL.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -47,6 +49,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Convert text to camelCase format. Transform any string format (snake_case, kebab-case, spaces) to camelCase for JavaScript/TypeScript variables. Use for code generation, API response transformation, or naming conventions. Keywords: camelCase, convert case, variable naming, JS naming, lowerCamelCase.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -65,6 +68,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Convert text to PascalCase format. Transform any string format to PascalCase for class names, type definitions, or component names. Use for code generation, type naming, or React components. Keywords: PascalCase, UpperCamelCase, class naming, type naming, convert case.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -83,6 +87,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Convert text to snake_case format. Transform any string format to lowercase underscore-separated words for Python variables, database columns, or config keys. Use for code generation, database naming, or API formatting. Keywords: snake_case, underscore case, Python naming, database column, convert case.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -109,6 +114,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Convert text to kebab-case format. Transform any string format to lowercase hyphen-separated words for CSS classes, HTML attributes, or URL paths. Use for CSS naming, HTML attributes, or file naming. Keywords: kebab-case, hyphen case, CSS naming, HTML attribute, dash case, convert case.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -128,6 +134,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Convert text to CONSTANT_CASE format. Transform any string format to uppercase underscore-separated words for constants, environment variables, or enum values. Use for constant naming, env vars, or config keys. Keywords: CONSTANT_CASE, SCREAMING_SNAKE_CASE, constant naming, env variable, uppercase underscore.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -147,6 +154,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Convert text to Title Case with proper capitalization. Capitalize first letter of each word, handle common articles and prepositions. Use for headings, titles, or display formatting. Keywords: Title Case, capitalize words, heading format, proper case, word capitalize.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -193,6 +201,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Calculate Levenshtein edit distance between two strings. Measure minimum single-character edits (insertions, deletions, substitutions) to transform one string into another. Use for fuzzy matching, spell checking, or similarity detection. Keywords: Levenshtein distance, edit distance, string similarity, fuzzy match, spell check, string diff.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -238,6 +247,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Calculate Jaro-Winkler similarity score between two strings. Measure string similarity with emphasis on matching prefixes, returns value between 0-1. Better for short strings and names than Levenshtein. Use for name matching, deduplication, or record linkage. Keywords: Jaro-Winkler, string similarity, name matching, fuzzy compare, record linkage, dedupe.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -312,6 +322,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Extract all email addresses from text using regex. Find and return array of valid email addresses embedded in any text content. Use for data extraction, contact scraping, or text parsing. Keywords: extract emails, find emails, email regex, parse emails, scrape contacts, email pattern.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -335,6 +346,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Extract all URLs from text using regex. Find and return array of HTTP/HTTPS URLs embedded in any text content. Use for link extraction, web scraping, or content analysis. Keywords: extract URLs, find links, URL regex, parse URLs, scrape links, HTTP pattern.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -367,6 +379,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Extract phone numbers from text using pattern matching. Find various phone number formats including international, US, and local formats. Use for contact extraction, data parsing, or text analysis. Keywords: extract phones, find phone numbers, phone regex, parse phones, contact extraction.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -398,6 +411,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Extract hashtags from text. Find all #hashtag patterns in social media posts, comments, or any text. Use for social media analysis, content tagging, or trend detection. Keywords: extract hashtags, find hashtags, hashtag regex, parse tags, social media, Twitter tags.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -427,6 +441,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Extract @mentions from text. Find all @username patterns in social media posts, comments, or any text. Use for social media analysis, user tagging, or notification systems. Keywords: extract mentions, find mentions, @ symbol, parse usernames, social media, Twitter mentions.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -456,6 +471,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Truncate string to specified length with customizable ellipsis. Shorten text for previews, summaries, or UI display while preserving word boundaries optionally. Use for text previews, UI truncation, or content summaries. Keywords: truncate string, shorten text, ellipsis, text preview, word boundary, clip text.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -493,6 +509,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Count words, characters, sentences, and paragraphs in text. Comprehensive text statistics for content analysis, word limits, or readability assessment. Use for content analysis, word counters, or text metrics. Keywords: word count, character count, text statistics, sentence count, paragraph count, text length.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -524,6 +541,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Reverse a string character by character. Handle unicode characters properly with grapheme support. Use for palindrome checking, text effects, or encoding. Keywords: reverse string, string reverse, flip text, mirror text, backwards text.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -541,6 +559,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Repeat a string multiple times with optional separator. Generate repeated patterns, padding, or separators. Use for text generation, padding, or pattern creation. Keywords: repeat string, string repeat, duplicate text, multiply string, pattern generate.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -563,6 +582,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Pad string to target length with specified character. Add padding to start, end, or both sides for alignment or formatting. Use for text alignment, number formatting, or table display. Keywords: pad string, string padding, left pad, right pad, center align, text align.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -604,6 +624,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Escape HTML special characters to prevent XSS. Convert <, >, &, \", ' to their HTML entity equivalents. Use for sanitizing user input, preventing XSS, or safe HTML rendering. Keywords: escape HTML, HTML entities, XSS prevention, sanitize HTML, encode HTML, security.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -628,6 +649,7 @@ export const stringTools: MiniTool[] = [
     description:
       "Unescape HTML entities back to characters. Convert HTML entities like &lt; &gt; &amp; back to their original characters. Use for decoding HTML content, parsing HTML text, or display. Keywords: unescape HTML, decode HTML, HTML entities, parse HTML, HTML decode.",
     category: "string",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -4,7 +4,9 @@
  * @module lib/std/tools/sysinfo
  */
 
-import { type MiniTool, runCommand } from "./common.ts";
+import { DESTRUCTIVE_IDEMPOTENT, READ_ONLY } from "./annotations.ts";
+import { commandFailed, type MiniTool, runCommand } from "./common.ts";
+import { ToolError } from "./errors.ts";
 
 export const sysinfoTools: MiniTool[] = [
   {
@@ -12,6 +14,7 @@ export const sysinfoTools: MiniTool[] = [
     description:
       "Get the value of an environment variable. Check PATH, HOME, USER, or any custom env var. Returns whether the variable exists and its value. Use for configuration reading, debugging environment issues, or accessing system settings. Keywords: environment variable, env var, getenv, PATH HOME USER, config value.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -29,6 +32,7 @@ export const sysinfoTools: MiniTool[] = [
     description:
       "List environment variables with optional filtering. View complete environment configuration, debug shell settings, or find specific variables. Supports filtering by prefix or pattern (glob/regex), optional value masking for sensitive data (PASSWORD, SECRET, KEY, TOKEN, CREDENTIAL), and grouping by common prefix. Use for auditing environment, debugging path issues, security review, or configuration management. Keywords: list env, all environment variables, printenv, show environment, filter env vars, mask secrets, env audit.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -124,6 +128,7 @@ export const sysinfoTools: MiniTool[] = [
     description:
       "Change file or directory permissions using octal modes (755, 644) or symbolic notation (+x, u+rw). Set read, write, execute permissions for user, group, others. Essential for security, making scripts executable, or fixing permission errors. Keywords: chmod, file permissions, make executable, permission mode, rwx, access rights.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -133,14 +138,14 @@ export const sysinfoTools: MiniTool[] = [
       },
       required: ["path", "mode"],
     },
-    handler: async ({ path, mode, recursive }) => {
+    handler: async ({ path, mode, recursive }, ctx) => {
       const args = [];
       if (recursive) args.push("-R");
       args.push(mode as string, path as string);
 
-      const result = await runCommand("chmod", args);
+      const result = await runCommand("chmod", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`chmod failed: ${result.stderr}`);
+        throw commandFailed("chmod", result);
       }
       return { success: true, path, mode };
     },
@@ -150,6 +155,7 @@ export const sysinfoTools: MiniTool[] = [
     description:
       "Change file or directory ownership to different user and/or group. Transfer file ownership, fix permission issues, or set up correct access for services. Supports recursive operation for directories. Keywords: chown, change owner, file ownership, user group, owner permission, transfer ownership.",
     category: "system",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -159,14 +165,14 @@ export const sysinfoTools: MiniTool[] = [
       },
       required: ["path", "owner"],
     },
-    handler: async ({ path, owner, recursive }) => {
+    handler: async ({ path, owner, recursive }, ctx) => {
       const args = [];
       if (recursive) args.push("-R");
       args.push(owner as string, path as string);
 
-      const result = await runCommand("chown", args);
+      const result = await runCommand("chown", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`chown failed: ${result.stderr}`);
+        throw commandFailed("chown", result);
       }
       return { success: true, path, owner };
     },
@@ -176,6 +182,7 @@ export const sysinfoTools: MiniTool[] = [
     description:
       "Show disk space usage for all mounted filesystems. View total size, used space, available space, and usage percentage per mount point. Essential for monitoring disk capacity, finding full disks, or capacity planning. Keywords: df, disk space, disk usage, free space, filesystem size, storage capacity, mount point.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -190,15 +197,15 @@ export const sysinfoTools: MiniTool[] = [
         accepts: ["refresh"],
       },
     },
-    handler: async ({ path, human = true }) => {
+    handler: async ({ path, human = true }, ctx) => {
       const args = [];
       if (human) args.push("-h");
       args.push("-P");
       if (path) args.push(path as string);
 
-      const result = await runCommand("df", args);
+      const result = await runCommand("df", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`df failed: ${result.stderr}`);
+        throw commandFailed("df", result);
       }
 
       const lines = result.stdout.trim().split("\n");
@@ -222,6 +229,7 @@ export const sysinfoTools: MiniTool[] = [
     description:
       "Calculate disk usage of files and directories. Find what's consuming space, get folder sizes, or audit storage usage. Can show totals, limit depth, or include all subdirectories. Essential for cleaning up disk space. Keywords: du, directory size, folder size, disk usage, space consumed, file size, storage audit.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -239,16 +247,16 @@ export const sysinfoTools: MiniTool[] = [
         accepts: ["highlight", "expand"],
       },
     },
-    handler: async ({ path, depth, human = true, summarize }) => {
+    handler: async ({ path, depth, human = true, summarize }, ctx) => {
       const args = [];
       if (human) args.push("-h");
       if (summarize) args.push("-s");
       else if (depth !== undefined) args.push("-d", String(depth));
       args.push(path as string);
 
-      const result = await runCommand("du", args);
+      const result = await runCommand("du", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`du failed: ${result.stderr}`);
+        throw commandFailed("du", result);
       }
 
       const lines = result.stdout.trim().split("\n");
@@ -265,6 +273,7 @@ export const sysinfoTools: MiniTool[] = [
     description:
       "Display system memory usage including RAM and swap. Shows total, used, free, cached, and available memory. Essential for performance monitoring, detecting memory pressure, or capacity planning. Keywords: free memory, RAM usage, memory available, swap usage, system memory, memory stats, memory monitoring.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -278,13 +287,13 @@ export const sysinfoTools: MiniTool[] = [
         accepts: ["refresh"],
       },
     },
-    handler: async ({ human = true }) => {
+    handler: async ({ human = true }, ctx) => {
       const args = [];
       if (human) args.push("-h");
 
-      const result = await runCommand("free", args);
+      const result = await runCommand("free", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`free failed: ${result.stderr}`);
+        throw commandFailed("free", result);
       }
 
       const lines = result.stdout.trim().split("\n");
@@ -315,12 +324,13 @@ export const sysinfoTools: MiniTool[] = [
     description:
       "Get the current logged-in username. Quick way to identify which user account is running commands. Use for scripts, debugging permission issues, or verifying user context. Keywords: whoami, current user, username, logged in user, user identity.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {},
     },
-    handler: async () => {
-      const result = await runCommand("whoami", []);
+    handler: async (_args, ctx) => {
+      const result = await runCommand("whoami", [], { signal: ctx?.signal });
       return { username: result.stdout.trim() };
     },
   },
@@ -329,17 +339,18 @@ export const sysinfoTools: MiniTool[] = [
     description:
       "Get user ID (UID), group ID (GID), and all group memberships for a user. Shows numeric IDs and names. Use for debugging permission issues, checking group membership, or security auditing. Keywords: user id, uid gid, group membership, user groups, user info, id command.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
         user: { type: "string", description: "User to check (default: current)" },
       },
     },
-    handler: async ({ user }) => {
+    handler: async ({ user }, ctx) => {
       const args = user ? [user as string] : [];
-      const result = await runCommand("id", args);
+      const result = await runCommand("id", args, { signal: ctx?.signal });
       if (result.code !== 0) {
-        throw new Error(`id failed: ${result.stderr}`);
+        throw commandFailed("id", result);
       }
 
       const output = result.stdout.trim();
@@ -361,15 +372,16 @@ export const sysinfoTools: MiniTool[] = [
     description:
       "Get the system hostname or fully qualified domain name (FQDN). Identify the machine name in network context. Use for logging, debugging, or multi-server environments. Keywords: hostname, system name, machine name, FQDN, server name, host identity.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
         fqdn: { type: "boolean", description: "Get fully qualified domain name" },
       },
     },
-    handler: async ({ fqdn }) => {
+    handler: async ({ fqdn }, ctx) => {
       const args = fqdn ? ["-f"] : [];
-      const result = await runCommand("hostname", args);
+      const result = await runCommand("hostname", args, { signal: ctx?.signal });
       return { hostname: result.stdout.trim() };
     },
   },
@@ -378,6 +390,7 @@ export const sysinfoTools: MiniTool[] = [
     description:
       "Get system uptime and load averages. Shows how long the system has been running and CPU load for 1, 5, and 15 minute intervals. Essential for monitoring server health and identifying overloaded systems. Keywords: uptime, system uptime, load average, how long running, server load, cpu load.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {},
@@ -389,11 +402,11 @@ export const sysinfoTools: MiniTool[] = [
         accepts: ["refresh"],
       },
     },
-    handler: async () => {
-      const result = await runCommand("uptime", ["-p"]);
+    handler: async (_args, ctx) => {
+      const result = await runCommand("uptime", ["-p"], { signal: ctx?.signal });
       const uptime = result.stdout.trim();
 
-      const loadResult = await runCommand("uptime", []);
+      const loadResult = await runCommand("uptime", [], { signal: ctx?.signal });
       const loadMatch = loadResult.stdout.match(/load average: ([\d.]+), ([\d.]+), ([\d.]+)/);
 
       return {
@@ -413,12 +426,13 @@ export const sysinfoTools: MiniTool[] = [
     description:
       "Get system kernel and OS information. Shows kernel name, hostname, kernel version, machine architecture (x86_64, arm64). Use for system identification, compatibility checks, or debugging. Keywords: uname, kernel version, os info, system architecture, linux version, machine type, platform info.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {},
     },
-    handler: async () => {
-      const result = await runCommand("uname", ["-a"]);
+    handler: async (_args, ctx) => {
+      const result = await runCommand("uname", ["-a"], { signal: ctx?.signal });
       const parts = result.stdout.trim().split(" ");
 
       return {
@@ -436,6 +450,7 @@ export const sysinfoTools: MiniTool[] = [
     description:
       "Get detailed system memory information. Returns total, available, free, cached, and buffer memory stats with both raw values and percentages. On Linux reads from /proc/meminfo, providing comprehensive memory metrics. Use for memory monitoring, capacity planning, or diagnosing memory pressure. Keywords: memory info, RAM stats, meminfo, system memory, available memory, cached memory, memory metrics, memory monitoring.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {},
@@ -447,7 +462,7 @@ export const sysinfoTools: MiniTool[] = [
         accepts: ["refresh"],
       },
     },
-    handler: async () => {
+    handler: async (_args, ctx) => {
       // Try reading /proc/meminfo on Linux
       try {
         const content = await Deno.readTextFile("/proc/meminfo");
@@ -504,9 +519,9 @@ export const sysinfoTools: MiniTool[] = [
         };
       } catch {
         // Fallback to 'free' command for non-Linux or permission issues
-        const result = await runCommand("free", ["-b"]);
+        const result = await runCommand("free", ["-b"], { signal: ctx?.signal });
         if (result.code !== 0) {
-          throw new Error(`Failed to get memory info: ${result.stderr}`);
+          throw new ToolError("UPSTREAM_ERROR", `Failed to get memory info: ${result.stderr}`);
         }
 
         const lines = result.stdout.trim().split("\n");
@@ -1,11 +1,55 @@
 /**
  * Text processing tools - sed, awk, jq, sort, etc.
  *
+ * sed, awk, jq, wc, sort_lines, uniq and cut run in-process (see textsed.ts,
+ * textawk.ts, textjq.ts and textlines.ts for the supported subsets); pass
+ * `binary: true` to run the host binary instead.
+ *
  * @module lib/std/tools/text
  */
 
+import { DESTRUCTIVE, READ_ONLY } from "./annotations.ts";
 import type { MiniTool } from "./types.ts";
-import { runCommand } from "./common.ts";
+import { FOLLOW_PROPERTIES, type FollowArgs, followCommand, runCommand } from "./common.ts";
+import { ToolError } from "./errors.ts";
+import { runAwk } from "./textawk.ts";
+import { formatJqOutput, parseJsonInputs, runJq } from "./textjq.ts";
+import { countText, cutLines, sortLines, uniqLines } from "./textlines.ts";
+import { runSed } from "./textsed.ts";
+
+const binaryProperty = (binary: string) => ({
+  type: "boolean",
+  description: `Run the host ${binary} binary instead of the built-in implementation`,
+});
+
+/** The `input` text, or else the contents of `file` */
+async function readInput(input: unknown, file: unknown, signal?: AbortSignal): Promise<string> {
+  if (input) return input as string;
+  if (file) return await Deno.readTextFile(file as string, { signal });
+  throw new ToolError("INVALID_ARGUMENT", "Either input or file required");
+}
+
+/** Run a host binary on `input` (as stdin) or on `file` */
+function runBinary(
+  cmd: string,
+  args: string[],
+  input: unknown,
+  file: unknown,
+  signal?: AbortSignal,
+): Promise<{ stdout: string; stderr: string; code: number }> {
+  if (input) return runCommand(cmd, args, { input: input as string, signal });
+  if (file) return runCommand(cmd, [...args, file as string], { signal });
+  throw new ToolError("INVALID_ARGUMENT", "Either input or file required");
+}
+
+/** jq output as a parsed result when it is a single JSON value, else as text */
+function jqResult(output: string, stderr?: string) {
+  try {
+    return { result: JSON.parse(output) };
+  } catch {
+    return { output, stderr: stderr || undefined };
+  }
+}
 
 export const textTools: MiniTool[] = [
   {
@@ -13,6 +57,7 @@ export const textTools: MiniTool[] = [
     description:
       "Stream editor for find-and-replace text transformations. Use regex patterns like 's/old/new/g' to substitute text, delete lines, or transform content. Can modify files in-place or process input streams. Essential for text manipulation and batch editing. Keywords: sed, find replace, text substitution, regex replace, stream editor, pattern matching, text transform.",
     category: "system",
+    annotations: DESTRUCTIVE,
     inputSchema: {
       type: "object",
       properties: {
@@ -20,35 +65,31 @@ export const textTools: MiniTool[] = [
         file: { type: "string", description: "Or input file path" },
         expression: { type: "string", description: "sed expression (e.g., 's/old/new/g')" },
         inPlace: { type: "boolean", description: "Modify file in place" },
+        quiet: { type: "boolean", description: "Only print lines printed by the script (-n)" },
+        extended: { type: "boolean", description: "Use extended regular expressions (-E)" },
+        binary: binaryProperty("sed"),
       },
       required: ["expression"],
     },
-    handler: async ({ input, file, expression, inPlace }) => {
-      if (input) {
-        const cmd = new Deno.Command("sed", {
-          args: [expression as string],
-          stdin: "piped",
-          stdout: "piped",
-          stderr: "piped",
-        });
-        const process = cmd.spawn();
-        const writer = process.stdin.getWriter();
-        await writer.write(new TextEncoder().encode(input as string));
-        await writer.close();
-        const { stdout, stderr } = await process.output();
-        return {
-          output: new TextDecoder().decode(stdout),
-          stderr: new TextDecoder().decode(stderr),
-        };
-      } else if (file) {
-        const args = inPlace
-          ? ["-i", expression as string, file as string]
-          : [expression as string, file as string];
-        const result = await runCommand("sed", args);
+    handler: async ({ input, file, expression, inPlace, quiet, extended, binary }, ctx) => {
+      if (binary) {
+        const args = [...(quiet ? ["-n"] : []), ...(extended ? ["-E"] : []), expression as string];
+        if (inPlace && !input) args.unshift("-i");
+        const result = await runBinary("sed", args, input, file, ctx?.signal);
         return { output: result.stdout, stderr: result.stderr };
-      } else {
-        throw new Error("Either input or file required");
       }
+      const text = await readInput(input, file, ctx?.signal);
+      const output = runSed(expression as string, text, {
+        quiet: Boolean(quiet),
+        extended: Boolean(extended),
+        signal: ctx?.signal,
+        deadline: ctx?.deadline,
+      });
+      if (inPlace && !input) {
+        await Deno.writeTextFile(file as string, output, { signal: ctx?.signal });
+        return { output: "" };
+      }
+      return { output };
     },
   },
   {
@@ -56,6 +97,7 @@ export const textTools: MiniTool[] = [
     description:
       "Powerful text processing tool for column extraction and data manipulation. Process fields in structured text, calculate sums, filter rows by patterns. Use custom field separators for CSV, TSV, or log files. Keywords: awk, column extraction, field processing, text columns, data manipulation, csv processing, log parsing.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -63,37 +105,33 @@ export const textTools: MiniTool[] = [
         file: { type: "string", description: "Or input file path" },
         program: { type: "string", description: "awk program (e.g., '{print $1}')" },
         fieldSeparator: { type: "string", description: "Field separator (default: whitespace)" },
+        variables: {
+          type: "object",
+          additionalProperties: { type: ["string", "number"] },
+          description: "Variables to set before the program runs (-v name=value)",
+        },
+        binary: binaryProperty("awk"),
       },
       required: ["program"],
     },
-    handler: async ({ input, file, program, fieldSeparator }) => {
-      const args: string[] = [];
-      if (fieldSeparator) args.push("-F", fieldSeparator as string);
-      args.push(program as string);
-
-      if (input) {
-        const cmd = new Deno.Command("awk", {
-          args,
-          stdin: "piped",
-          stdout: "piped",
-          stderr: "piped",
-        });
-        const process = cmd.spawn();
-        const writer = process.stdin.getWriter();
-        await writer.write(new TextEncoder().encode(input as string));
-        await writer.close();
-        const { stdout, stderr } = await process.output();
-        return {
-          output: new TextDecoder().decode(stdout),
-          stderr: new TextDecoder().decode(stderr),
-        };
-      } else if (file) {
-        args.push(file as string);
-        const result = await runCommand("awk", args);
+    handler: async ({ input, file, program, fieldSeparator, variables, binary }, ctx) => {
+      const vars = (variables ?? {}) as Record<string, string | number>;
+      if (binary) {
+        const args: string[] = [];
+        if (fieldSeparator) args.push("-F", fieldSeparator as string);
+        for (const [name, value] of Object.entries(vars)) args.push("-v", `${name}=${value}`);
+        args.push(program as string);
+        const result = await runBinary("awk", args, input, file, ctx?.signal);
         return { output: result.stdout, stderr: result.stderr };
-      } else {
-        throw new Error("Either input or file required");
       }
+      const text = await readInput(input, file, ctx?.signal);
+      const { output, exitCode } = runAwk(program as string, text, {
+        fieldSeparator: (fieldSeparator as string) || undefined,
+        variables: vars,
+        signal: ctx?.signal,
+        deadline: ctx?.deadline,
+      });
+      return exitCode ? { output, exitCode } : { output };
     },
   },
   {
@@ -101,6 +139,7 @@ export const textTools: MiniTool[] = [
     description:
       "Command-line JSON processor for querying, filtering, and transforming JSON data. Extract values with path expressions (.key, .[0]), filter arrays, reshape objects. Essential for working with APIs and JSON files. Keywords: jq, json query, json filter, json transform, json path, parse json, json extract.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -108,44 +147,22 @@ export const textTools: MiniTool[] = [
         file: { type: "string", description: "Or JSON file path" },
         filter: { type: "string", description: "jq filter (e.g., '.name', '.[0]')" },
         raw: { type: "boolean", description: "Raw output (no quotes on strings)" },
+        binary: binaryProperty("jq"),
       },
       required: ["filter"],
     },
-    handler: async ({ input, file, filter, raw }) => {
-      const args: string[] = [];
-      if (raw) args.push("-r");
-      args.push(filter as string);
-
-      if (input) {
-        const cmd = new Deno.Command("jq", {
-          args,
-          stdin: "piped",
-          stdout: "piped",
-          stderr: "piped",
-        });
-        const process = cmd.spawn();
-        const writer = process.stdin.getWriter();
-        await writer.write(new TextEncoder().encode(input as string));
-        await writer.close();
-        const { stdout, stderr } = await process.output();
-        const output = new TextDecoder().decode(stdout);
-        const stderrStr = new TextDecoder().decode(stderr);
-        try {
-          return { result: JSON.parse(output) };
-        } catch {
-          return { output, stderr: stderrStr || undefined };
-        }
-      } else if (file) {
-        args.push(file as string);
-        const result = await runCommand("jq", args);
-        try {
-          return { result: JSON.parse(result.stdout) };
-        } catch {
-          return { output: result.stdout, stderr: result.stderr || undefined };
-        }
-      } else {
-        throw new Error("Either input or file required");
+    handler: async ({ input, file, filter, raw, binary }, ctx) => {
+      if (binary) {
+        const args = raw ? ["-r", filter as string] : [filter as string];
+        const result = await runBinary("jq", args, input, file, ctx?.signal);
+        return jqResult(result.stdout, result.stderr);
       }
+      const text = await readInput(input, file, ctx?.signal);
+      const results = runJq(filter as string, parseJsonInputs(text), {
+        signal: ctx?.signal,
+        deadline: ctx?.deadline,
+      });
+      return jqResult(formatJqOutput(results, Boolean(raw)));
     },
   },
   {
@@ -153,6 +170,7 @@ export const textTools: MiniTool[] = [
     description:
       "Count lines, words, characters, or bytes in text or files. Get line count for files, word counts for documents, or byte sizes. Essential for text statistics and file analysis. Keywords: wc, word count, line count, character count, count lines, file statistics, text length.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -163,57 +181,39 @@ export const textTools: MiniTool[] = [
           enum: ["all", "lines", "words", "chars", "bytes"],
           description: "Count mode (default: all)",
         },
+        binary: binaryProperty("wc"),
       },
     },
-    handler: async ({ input, file, mode = "all" }) => {
-      const args: string[] = [];
-      switch (mode) {
-        case "lines":
-          args.push("-l");
-          break;
-        case "words":
-          args.push("-w");
-          break;
-        case "chars":
-          args.push("-m");
-          break;
-        case "bytes":
-          args.push("-c");
-          break;
-      }
-
-      if (input) {
-        const cmd = new Deno.Command("wc", {
-          args,
-          stdin: "piped",
-          stdout: "piped",
-        });
-        const process = cmd.spawn();
-        const writer = process.stdin.getWriter();
-        await writer.write(new TextEncoder().encode(input as string));
-        await writer.close();
-        const { stdout } = await process.output();
-        const output = new TextDecoder().decode(stdout).trim();
-        const parts = output.split(/\s+/).map((n) => parseInt(n)).filter((n) => !isNaN(n));
-
-        if (mode === "all") {
-          return { lines: parts[0], words: parts[1], bytes: parts[2] };
-        }
-        return { count: parts[0] };
-      } else if (file) {
-        args.push(file as string);
-        const result = await runCommand("wc", args);
-        const parts = result.stdout.trim().split(/\s+/).map((n) => parseInt(n)).filter((n) =>
-          !isNaN(n)
-        );
-
-        if (mode === "all") {
-          return { lines: parts[0], words: parts[1], bytes: parts[2], file };
-        }
-        return { count: parts[0], file };
+    handler: async ({ input, file, mode = "all", binary }, ctx) => {
+      let counts: number[];
+      if (binary) {
+        const flags: Record<string, string[]> = {
+          all: [],
+          lines: ["-l"],
+          words: ["-w"],
+          chars: ["-m"],
+          bytes: ["-c"],
+        };
+        const result = await runBinary("wc", flags[mode as string], input, file, ctx?.signal);
+        counts = result.stdout.trim().split(/\s+/).map((n) => parseInt(n)).filter((n) => !isNaN(n));
       } else {
-        throw new Error("Either input or file required");
+        const { lines, words, chars, bytes } = countText(
+          await readInput(input, file, ctx?.signal),
+        );
+        const byMode: Record<string, number[]> = {
+          all: [lines, words, bytes],
+          lines: [lines],
+          words: [words],
+          chars: [chars],
+          bytes: [bytes],
+        };
+        counts = byMode[mode as string];
+      }
+      const source = input ? {} : { file };
+      if (mode === "all") {
+        return { lines: counts[0], words: counts[1], bytes: counts[2], ...source };
       }
+      return { count: counts[0], ...source };
     },
   },
   {
@@ -221,6 +221,7 @@ export const textTools: MiniTool[] = [
     description:
       "Get the first N lines from a file or text. Preview file contents, check file headers, or limit output. Default shows first 10 lines. Use for quick file inspection or sampling. Keywords: head, first lines, file preview, top lines, file start, beginning of file.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -229,15 +230,17 @@ export const textTools: MiniTool[] = [
         lines: { type: "number", description: "Number of lines (default: 10)" },
       },
     },
-    handler: async ({ file, input, lines = 10 }) => {
+    handler: async ({ file, input, lines = 10 }, ctx) => {
       if (input) {
         const allLines = (input as string).split("\n");
         return { output: allLines.slice(0, lines as number).join("\n") };
       } else if (file) {
-        const result = await runCommand("head", ["-n", String(lines), file as string]);
+        const result = await runCommand("head", ["-n", String(lines), file as string], {
+          signal: ctx?.signal,
+        });
         return { output: result.stdout };
       } else {
-        throw new Error("Either file or input required");
+        throw new ToolError("INVALID_ARGUMENT", "Either file or input required");
       }
     },
   },
@@ -246,23 +249,38 @@ export const textTools: MiniTool[] = [
     description:
       "Get the last N lines from a file or text. View recent log entries, check file endings, or monitor growing files. Default shows last 10 lines. Essential for log file analysis. Keywords: tail, last lines, file end, recent lines, end of file, log tail.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
         file: { type: "string", description: "File path" },
         input: { type: "string", description: "Or input text" },
         lines: { type: "number", description: "Number of lines (default: 10)" },
+        follow: { type: "boolean", description: "Follow a file as it grows (file only)" },
+        ...FOLLOW_PROPERTIES,
       },
     },
-    handler: async ({ file, input, lines = 10 }) => {
+    handler: async ({ file, input, lines = 10, follow, ...followArgs }, ctx) => {
+      if (follow) {
+        if (!file) {
+          throw new ToolError("INVALID_ARGUMENT", "follow requires file");
+        }
+        const args = ["-n", String(lines), "-F", file as string];
+        return await followCommand("tail", args, followArgs as FollowArgs, ctx, {
+          label: "tail",
+          outputKey: "output",
+        });
+      }
       if (input) {
         const allLines = (input as string).split("\n");
         return { output: allLines.slice(-(lines as number)).join("\n") };
       } else if (file) {
-        const result = await runCommand("tail", ["-n", String(lines), file as string]);
+        const result = await runCommand("tail", ["-n", String(lines), file as string], {
+          signal: ctx?.signal,
+        });
         return { output: result.stdout };
       } else {
-        throw new Error("Either file or input required");
+        throw new ToolError("INVALID_ARGUMENT", "Either file or input required");
       }
     },
   },
@@ -271,6 +289,7 @@ export const textTools: MiniTool[] = [
     description:
       "Sort lines of text alphabetically, numerically, or in reverse order. Remove duplicates with unique flag. Process text from input or files. Essential for ordering data, removing duplicates, or preparing for uniq. Keywords: sort, sort lines, alphabetical sort, numeric sort, remove duplicates, order text.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -279,33 +298,26 @@ export const textTools: MiniTool[] = [
         reverse: { type: "boolean", description: "Reverse order" },
         numeric: { type: "boolean", description: "Numeric sort" },
         unique: { type: "boolean", description: "Remove duplicates" },
+        binary: binaryProperty("sort"),
       },
     },
-    handler: async ({ input, file, reverse, numeric, unique }) => {
-      const args: string[] = [];
-      if (reverse) args.push("-r");
-      if (numeric) args.push("-n");
-      if (unique) args.push("-u");
-
-      if (input) {
-        const cmd = new Deno.Command("sort", {
-          args,
-          stdin: "piped",
-          stdout: "piped",
-        });
-        const process = cmd.spawn();
-        const writer = process.stdin.getWriter();
-        await writer.write(new TextEncoder().encode(input as string));
-        await writer.close();
-        const { stdout } = await process.output();
-        return { output: new TextDecoder().decode(stdout) };
-      } else if (file) {
-        args.push(file as string);
-        const result = await runCommand("sort", args);
+    handler: async ({ input, file, reverse, numeric, unique, binary }, ctx) => {
+      if (binary) {
+        const args: string[] = [];
+        if (reverse) args.push("-r");
+        if (numeric) args.push("-n");
+        if (unique) args.push("-u");
+        const result = await runBinary("sort", args, input, file, ctx?.signal);
         return { output: result.stdout };
-      } else {
-        throw new Error("Either input or file required");
       }
+      const text = await readInput(input, file, ctx?.signal);
+      return {
+        output: sortLines(text, {
+          reverse: Boolean(reverse),
+          numeric: Boolean(numeric),
+          unique: Boolean(unique),
+        }),
+      };
     },
   },
   {
@@ -313,6 +325,7 @@ export const textTools: MiniTool[] = [
     description:
       "Filter unique or duplicate lines from sorted input. Count occurrences, show only duplicates, or remove consecutive duplicates. Note: input should be sorted first. Use for deduplication or frequency analysis. Keywords: uniq, unique lines, remove duplicates, count occurrences, filter duplicates, deduplicate.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -320,32 +333,21 @@ export const textTools: MiniTool[] = [
         file: { type: "string", description: "Or file path" },
         count: { type: "boolean", description: "Prefix lines with count" },
         duplicatesOnly: { type: "boolean", description: "Only show duplicates" },
+        binary: binaryProperty("uniq"),
       },
     },
-    handler: async ({ input, file, count, duplicatesOnly }) => {
-      const args: string[] = [];
-      if (count) args.push("-c");
-      if (duplicatesOnly) args.push("-d");
-
-      if (input) {
-        const cmd = new Deno.Command("uniq", {
-          args,
-          stdin: "piped",
-          stdout: "piped",
-        });
-        const process = cmd.spawn();
-        const writer = process.stdin.getWriter();
-        await writer.write(new TextEncoder().encode(input as string));
-        await writer.close();
-        const { stdout } = await process.output();
-        return { output: new TextDecoder().decode(stdout) };
-      } else if (file) {
-        args.push(file as string);
-        const result = await runCommand("uniq", args);
+    handler: async ({ input, file, count, duplicatesOnly, binary }, ctx) => {
+      if (binary) {
+        const args: string[] = [];
+        if (count) args.push("-c");
+        if (duplicatesOnly) args.push("-d");
+        const result = await runBinary("uniq", args, input, file, ctx?.signal);
         return { output: result.stdout };
-      } else {
-        throw new Error("Either input or file required");
       }
+      const text = await readInput(input, file, ctx?.signal);
+      return {
+        output: uniqLines(text, { count: Boolean(count), duplicatesOnly: Boolean(duplicatesOnly) }),
+      };
     },
   },
   {
@@ -353,6 +355,7 @@ export const textTools: MiniTool[] = [
     description:
       "Extract specific columns or character ranges from text. Select fields by delimiter (CSV, TSV) or character positions. Use for parsing structured text, extracting specific columns, or trimming output. Keywords: cut, extract columns, select fields, column extraction, csv columns, delimiter split.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -361,33 +364,26 @@ export const textTools: MiniTool[] = [
         delimiter: { type: "string", description: "Field delimiter (default: tab)" },
         fields: { type: "string", description: "Fields to extract (e.g., '1,3' or '2-4')" },
         characters: { type: "string", description: "Character positions (e.g., '1-10')" },
+        binary: binaryProperty("cut"),
       },
     },
-    handler: async ({ input, file, delimiter, fields, characters }) => {
-      const args: string[] = [];
-      if (delimiter) args.push("-d", delimiter as string);
-      if (fields) args.push("-f", fields as string);
-      if (characters) args.push("-c", characters as string);
-
-      if (input) {
-        const cmd = new Deno.Command("cut", {
-          args,
-          stdin: "piped",
-          stdout: "piped",
-        });
-        const process = cmd.spawn();
-        const writer = process.stdin.getWriter();
-        await writer.write(new TextEncoder().encode(input as string));
-        await writer.close();
-        const { stdout } = await process.output();
-        return { output: new TextDecoder().decode(stdout) };
-      } else if (file) {
-        args.push(file as string);
-        const result = await runCommand("cut", args);
+    handler: async ({ input, file, delimiter, fields, characters, binary }, ctx) => {
+      if (binary) {
+        const args: string[] = [];
+        if (delimiter) args.push("-d", delimiter as string);
+        if (fields) args.push("-f", fields as string);
+        if (characters) args.push("-c", characters as string);
+        const result = await runBinary("cut", args, input, file, ctx?.signal);
         return { output: result.stdout };
-      } else {
-        throw new Error("Either input or file required");
       }
+      const text = await readInput(input, file, ctx?.signal);
+      return {
+        output: cutLines(text, {
+          delimiter: (delimiter as string) || undefined,
+          fields: fields as string | undefined,
+          characters: characters as string | undefined,
+        }),
+      };
     },
   },
   {
@@ -395,6 +391,7 @@ export const textTools: MiniTool[] = [
     description:
       "Compare two files and show differences line by line. Output unified diff format showing additions, deletions, and context. Essential for code review, finding changes, or generating patches. Keywords: diff, compare files, file differences, unified diff, text comparison, show changes, patch format.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -405,12 +402,12 @@ export const textTools: MiniTool[] = [
       },
       required: ["file1", "file2"],
     },
-    handler: async ({ file1, file2, unified = true, context = 3 }) => {
+    handler: async ({ file1, file2, unified = true, context = 3 }, ctx) => {
       const args: string[] = [];
       if (unified) args.push("-u", `-U${context}`);
       args.push(file1 as string, file2 as string);
 
-      const result = await runCommand("diff", args);
+      const result = await runCommand("diff", args, { signal: ctx?.signal });
       return {
         identical: result.code === 0,
         diff: result.stdout,
@@ -422,6 +419,7 @@ export const textTools: MiniTool[] = [
     description:
       "Test a regular expression against a string and return all matches with details. Validates regex syntax, finds all matches with their positions and capture groups, and provides a basic explanation of the pattern. Use for regex debugging, pattern testing, or text extraction. Keywords: regex test, regular expression, pattern match, regex validate, capture groups, regex debug, pattern testing.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -525,6 +523,7 @@ export const textTools: MiniTool[] = [
     description:
       "Analyze Unicode characters in a string. Returns detailed information about each character including code point, official Unicode name, category, visibility status, and UTF-8 byte representation. Useful for debugging encoding issues, finding invisible characters, or understanding text composition. Keywords: unicode, character analysis, code point, utf8, invisible characters, zero width, encoding, text inspection.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -620,67 +619,12 @@ export const textTools: MiniTool[] = [
       };
     },
   },
-  {
-    name: "semver_parse",
-    description:
-      "Parse and analyze a semantic version string according to semver.org specification. Extracts major, minor, patch numbers, prerelease identifiers, and build metadata. Validates syntax and provides normalized form. Use for version validation, comparing versions, or extracting version components. Keywords: semver, semantic version, version parse, version validate, version components, major minor patch, prerelease, build metadata.",
-    category: "system",
-    inputSchema: {
-      type: "object",
-      properties: {
-        version: {
-          type: "string",
-          description: "Semantic version string (e.g., '1.2.3-beta.1+build.456')",
-        },
-      },
-      required: ["version"],
-    },
-    _meta: {
-      ui: {
-        resourceUri: "ui://mcp-std/json-viewer",
-        emits: [],
-        accepts: [],
-      },
-    },
-    handler: ({ version }) => {
-      return parseSemver(version as string);
-    },
-  },
-  {
-    name: "semver_compare",
-    description:
-      "Compare two semantic versions according to semver.org specification. Returns -1 if version1 < version2, 0 if equal, 1 if version1 > version2. Compares major, minor, patch in order, then prerelease identifiers. Build metadata is ignored in comparison. Use for version ordering, dependency resolution, or upgrade checks. Keywords: semver compare, version compare, version order, version difference, semver sort, version newer older.",
-    category: "system",
-    inputSchema: {
-      type: "object",
-      properties: {
-        version1: {
-          type: "string",
-          description: "First semantic version string",
-        },
-        version2: {
-          type: "string",
-          description: "Second semantic version string",
-        },
-      },
-      required: ["version1", "version2"],
-    },
-    _meta: {
-      ui: {
-        resourceUri: "ui://mcp-std/diff-viewer",
-        emits: [],
-        accepts: [],
-      },
-    },
-    handler: ({ version1, version2 }) => {
-      return compareSemver(version1 as string, version2 as string);
-    },
-  },
   {
     name: "text_diff",
     description:
       "Compare two texts and generate a unified diff showing additions, deletions, and changes. Uses LCS (Longest Common Subsequence) algorithm to compute the optimal diff. Returns statistics (additions, deletions, changes), structured hunks with line-by-line details, and a unified diff string. Essential for code review, comparing versions, or tracking text changes. Keywords: text diff, compare text, unified diff, text comparison, additions deletions, change detection, diff algorithm, LCS.",
     category: "system",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -715,6 +659,7 @@ export const textTools: MiniTool[] = [
     description:
       "Render Markdown text with syntax highlighting preview. Parse and display markdown content including headers, lists, code blocks, links, and formatting. Useful for documentation preview, README display, or content rendering. Keywords: markdown, render, preview, documentation, README, formatted text.",
     category: "text",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -761,352 +706,6 @@ export const textTools: MiniTool[] = [
   },
 ];
 
-/**
- * Semver parsing types
- */
-interface SemverParsed {
-  valid: boolean;
-  raw: string;
-  major: number;
-  minor: number;
-  patch: number;
-  prerelease: string[];
-  build: string[];
-  isPrerelease: boolean;
-  isStable: boolean;
-  normalized: string;
-  error?: string;
-}
-
-/**
- * Parse a semantic version string according to semver.org spec
- * https://semver.org/
- */
-function parseSemver(version: string): SemverParsed {
-  const raw = version;
-  const invalid = (error: string): SemverParsed => ({
-    valid: false,
-    raw,
-    major: 0,
-    minor: 0,
-    patch: 0,
-    prerelease: [],
-    build: [],
-    isPrerelease: false,
-    isStable: false,
-    normalized: "",
-    error,
-  });
-
-  if (!version || typeof version !== "string") {
-    return invalid("Version must be a non-empty string");
-  }
-
-  // Trim leading 'v' or 'V' prefix (common but not part of semver spec)
-  let v = version.trim();
-  if (v.startsWith("v") || v.startsWith("V")) {
-    v = v.slice(1);
-  }
-
-  // Semver regex according to spec (simplified but accurate)
-  // Format: MAJOR.MINOR.PATCH[-PRERELEASE][+BUILD]
-  // MAJOR, MINOR, PATCH are non-negative integers without leading zeros (except 0 itself)
-  // PRERELEASE and BUILD are dot-separated identifiers
-
-  // Split off build metadata first (everything after +)
-  let buildStr = "";
-  const plusIdx = v.indexOf("+");
-  if (plusIdx !== -1) {
-    buildStr = v.slice(plusIdx + 1);
-    v = v.slice(0, plusIdx);
-  }
-
-  // Split off prerelease (everything after first -)
-  let prereleaseStr = "";
-  const hyphenIdx = v.indexOf("-");
-  if (hyphenIdx !== -1) {
-    prereleaseStr = v.slice(hyphenIdx + 1);
-    v = v.slice(0, hyphenIdx);
-  }
-
-  // Parse core version (MAJOR.MINOR.PATCH)
-  const coreParts = v.split(".");
-  if (coreParts.length !== 3) {
-    return invalid(`Invalid version format: expected MAJOR.MINOR.PATCH, got '${v}'`);
-  }
-
-  const [majorStr, minorStr, patchStr] = coreParts;
-
-  // Validate numeric identifiers (no leading zeros except for 0 itself)
-  const validateNumeric = (str: string, name: string): number | string => {
-    if (!/^\d+$/.test(str)) {
-      return `${name} must be a non-negative integer, got '${str}'`;
-    }
-    if (str.length > 1 && str.startsWith("0")) {
-      return `${name} must not have leading zeros, got '${str}'`;
-    }
-    const num = parseInt(str, 10);
-    if (!Number.isSafeInteger(num) || num < 0) {
-      return `${name} is out of range: '${str}'`;
-    }
-    return num;
-  };
-
-  const majorResult = validateNumeric(majorStr, "Major version");
-  if (typeof majorResult === "string") {
-    return invalid(majorResult);
-  }
-  const major = majorResult;
-
-  const minorResult = validateNumeric(minorStr, "Minor version");
-  if (typeof minorResult === "string") {
-    return invalid(minorResult);
-  }
-  const minor = minorResult;
-
-  const patchResult = validateNumeric(patchStr, "Patch version");
-  if (typeof patchResult === "string") {
-    return invalid(patchResult);
-  }
-  const patch = patchResult;
-
-  // Parse prerelease identifiers
-  const prerelease: string[] = [];
-  if (prereleaseStr) {
-    const preParts = prereleaseStr.split(".");
-    for (const part of preParts) {
-      if (part === "") {
-        return invalid("Prerelease identifier cannot be empty");
-      }
-      // Prerelease identifiers can be alphanumeric or numeric
-      // Numeric identifiers must not have leading zeros
-      if (/^\d+$/.test(part)) {
-        if (part.length > 1 && part.startsWith("0")) {
-          return invalid(`Numeric prerelease identifier must not have leading zeros: '${part}'`);
-        }
-      } else if (!/^[0-9A-Za-z-]+$/.test(part)) {
-        return invalid(`Invalid prerelease identifier: '${part}' (must be alphanumeric or hyphens)`);
-      }
-      prerelease.push(part);
-    }
-  }
-
-  // Parse build metadata identifiers
-  const build: string[] = [];
-  if (buildStr) {
-    const buildParts = buildStr.split(".");
-    for (const part of buildParts) {
-      if (part === "") {
-        return invalid("Build metadata identifier cannot be empty");
-      }
-      if (!/^[0-9A-Za-z-]+$/.test(part)) {
-        return invalid(`Invalid build metadata identifier: '${part}' (must be alphanumeric or hyphens)`);
-      }
-      build.push(part);
-    }
-  }
-
-  // Build normalized string (without build metadata as per spec)
-  let normalized = `${major}.${minor}.${patch}`;
-  if (prerelease.length > 0) {
-    normalized += `-${prerelease.join(".")}`;
-  }
-
-  const isPrerelease = prerelease.length > 0;
-  const isStable = major >= 1 && !isPrerelease;
-
-  return {
-    valid: true,
-    raw,
-    major,
-    minor,
-    patch,
-    prerelease,
-    build,
-    isPrerelease,
-    isStable,
-    normalized,
-  };
-}
-
-/**
- * Compare two semantic versions according to semver.org spec
- */
-function compareSemver(version1: string, version2: string): {
-  result: -1 | 0 | 1;
-  comparison: "older" | "equal" | "newer";
-  version1: SemverParsed;
-  version2: SemverParsed;
-  diff: "major" | "minor" | "patch" | "prerelease" | "none";
-} {
-  const v1 = parseSemver(version1);
-  const v2 = parseSemver(version2);
-
-  // If either is invalid, we can still compare but note it
-  if (!v1.valid || !v2.valid) {
-    return {
-      result: 0,
-      comparison: "equal",
-      version1: v1,
-      version2: v2,
-      diff: "none",
-    };
-  }
-
-  // Compare major, minor, patch
-  if (v1.major !== v2.major) {
-    const result = v1.major > v2.major ? 1 : -1;
-    return {
-      result,
-      comparison: result === 1 ? "newer" : "older",
-      version1: v1,
-      version2: v2,
-      diff: "major",
-    };
-  }
-
-  if (v1.minor !== v2.minor) {
-    const result = v1.minor > v2.minor ? 1 : -1;
-    return {
-      result,
-      comparison: result === 1 ? "newer" : "older",
-      version1: v1,
-      version2: v2,
-      diff: "minor",
-    };
-  }
-
-  if (v1.patch !== v2.patch) {
-    const result = v1.patch > v2.patch ? 1 : -1;
-    return {
-      result,
-      comparison: result === 1 ? "newer" : "older",
-      version1: v1,
-      version2: v2,
-      diff: "patch",
-    };
-  }
-
-  // Compare prerelease
-  // A version without prerelease has higher precedence than one with prerelease
-  if (v1.prerelease.length === 0 && v2.prerelease.length === 0) {
-    return {
-      result: 0,
-      comparison: "equal",
-      version1: v1,
-      version2: v2,
-      diff: "none",
-    };
-  }
-
-  if (v1.prerelease.length === 0) {
-    // v1 is release, v2 is prerelease -> v1 > v2
-    return {
-      result: 1,
-      comparison: "newer",
-      version1: v1,
-      version2: v2,
-      diff: "prerelease",
-    };
-  }
-
-  if (v2.prerelease.length === 0) {
-    // v1 is prerelease, v2 is release -> v1 < v2
-    return {
-      result: -1,
-      comparison: "older",
-      version1: v1,
-      version2: v2,
-      diff: "prerelease",
-    };
-  }
-
-  // Both have prerelease - compare identifier by identifier
-  const maxLen = Math.max(v1.prerelease.length, v2.prerelease.length);
-  for (let i = 0; i < maxLen; i++) {
-    const id1 = v1.prerelease[i];
-    const id2 = v2.prerelease[i];
-
-    // Fewer identifiers = lower precedence
-    if (id1 === undefined) {
-      return {
-        result: -1,
-        comparison: "older",
-        version1: v1,
-        version2: v2,
-        diff: "prerelease",
-      };
-    }
-    if (id2 === undefined) {
-      return {
-        result: 1,
-        comparison: "newer",
-        version1: v1,
-        version2: v2,
-        diff: "prerelease",
-      };
-    }
-
-    const isNum1 = /^\d+$/.test(id1);
-    const isNum2 = /^\d+$/.test(id2);
-
-    if (isNum1 && isNum2) {
-      // Both numeric - compare as integers
-      const num1 = parseInt(id1, 10);
-      const num2 = parseInt(id2, 10);
-      if (num1 !== num2) {
-        const result = num1 > num2 ? 1 : -1;
-        return {
-          result,
-          comparison: result === 1 ? "newer" : "older",
-          version1: v1,
-          version2: v2,
-          diff: "prerelease",
-        };
-      }
-    } else if (isNum1) {
-      // Numeric identifiers have lower precedence than alphanumeric
-      return {
-        result: -1,
-        comparison: "older",
-        version1: v1,
-        version2: v2,
-        diff: "prerelease",
-      };
-    } else if (isNum2) {
-      // Alphanumeric has higher precedence than numeric
-      return {
-        result: 1,
-        comparison: "newer",
-        version1: v1,
-        version2: v2,
-        diff: "prerelease",
-      };
-    } else {
-      // Both alphanumeric - compare lexically
-      if (id1 !== id2) {
-        const result = id1 > id2 ? 1 : -1;
-        return {
-          result,
-          comparison: result === 1 ? "newer" : "older",
-          version1: v1,
-          version2: v2,
-          diff: "prerelease",
-        };
-      }
-    }
-  }
-
-  // All prerelease identifiers are equal
-  return {
-    result: 0,
-    comparison: "equal",
-    version1: v1,
-    version2: v2,
-    diff: "none",
-  };
-}
-
 /**
  * Text diff types
  */
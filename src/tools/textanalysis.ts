@@ -7,6 +7,7 @@
  * @module lib/std/textanalysis
  */
 
+import { READ_ONLY } from "./annotations.ts";
 import type { MiniTool } from "./types.ts";
 
 // Helper: Count syllables in a word (English approximation)
@@ -68,6 +69,7 @@ export const textanalysisTools: MiniTool[] = [
     description:
       "Calculate readability scores for text. Returns Flesch-Kincaid Grade, Flesch Reading Ease, Gunning Fog, SMOG, Coleman-Liau, and ARI. Use to assess content difficulty. Keywords: readability score, Flesch-Kincaid, reading level, text difficulty, grade level.",
     category: "textanalysis",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -160,6 +162,7 @@ export const textanalysisTools: MiniTool[] = [
     description:
       "Get detailed statistics about text. Character counts, word counts, sentence counts, paragraph counts, reading time, readability scores (Flesch-Kincaid, Flesch Reading Ease), word frequency for word clouds, and sentence analysis. Keywords: text stats, word count, character count, reading time, text analysis, readability, word cloud, Flesch-Kincaid.",
     category: "textanalysis",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -343,6 +346,7 @@ export const textanalysisTools: MiniTool[] = [
     description:
       "Analyze word frequency in text. Get most common words, word cloud data, and n-gram analysis. Use for content analysis or keyword extraction. Keywords: word frequency, common words, word count, term frequency, text mining.",
     category: "textanalysis",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -426,6 +430,7 @@ export const textanalysisTools: MiniTool[] = [
     description:
       "Simple sentiment analysis using word lists. Returns positive/negative score and overall sentiment. Basic analysis without ML. Keywords: sentiment analysis, positive negative, text sentiment, opinion mining, emotion detect.",
     category: "textanalysis",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -546,6 +551,7 @@ export const textanalysisTools: MiniTool[] = [
     description:
       "Generate word frequency data for word cloud visualization. Analyze text to extract most common words with counts, excluding common stop words. Useful for content analysis, keyword extraction, or text summarization. Keywords: word cloud, frequency, keywords, text analysis, word count, tag cloud.",
     category: "textanalysis",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -0,0 +1,1424 @@
+/**
+ * In-process awk
+ *
+ * Supported subset (POSIX awk):
+ * - `pattern { action }` items with BEGIN, END, expression, /regex/ and
+ *   range (`p1, p2`) patterns; a pattern without an action prints $0
+ * - statements: print, printf, if/else, while, do/while, for, for (k in a),
+ *   break, continue, next, exit, delete, `{ ... }` blocks
+ * - expressions: fields ($0, $NF, assignment rebuilds $0), variables,
+ *   associative arrays (`(i, j) in a`), arithmetic, string concatenation,
+ *   comparisons, ~ and !~, && || !, ?:, assignment operators, ++ and --
+ * - variables NR, NF, FNR, FS, OFS, ORS, RS (one character, or "" for
+ *   paragraphs), SUBSEP, RSTART, RLENGTH, CONVFMT, OFMT
+ * - functions length, substr, index, split, sub, gsub, match, sprintf,
+ *   tolower, toupper, int, sqrt, exp, log, sin, cos, atan2, rand, srand
+ *
+ * User-defined functions, getline, output redirection and system() are not
+ * supported; use the host binary for those.
+ *
+ * @module lib/std/textawk
+ */
+
+import { ToolError } from "./errors.ts";
+import {
+  bracketExpression,
+  checkLimits,
+  compileRegex,
+  type EngineLimits,
+  LIMIT_CHECK_STEPS,
+  MAX_TEXT_LENGTH,
+} from "./textlines.ts";
+
+const fail = (message: string) => new ToolError("INVALID_ARGUMENT", `awk: ${message}`);
+const unsupported = (feature: string) => fail(`${feature} is not supported (use binary: true)`);
+
+// ============================================================================
+// Values
+// ============================================================================
+
+/**
+ * A string from input (fields, split() elements, -v values): compares as a
+ * number when it looks like one
+ */
+class StrNum {
+  constructor(readonly text: string) {}
+}
+
+/** undefined is an uninitialized variable: "" or 0 */
+type Value = number | string | StrNum | undefined;
+
+const NUMERIC = /^\s*[+-]?(\d+\.?\d*([eE][+-]?\d+)?|\.\d+([eE][+-]?\d+)?)\s*$/;
+const LEADING_NUMBER = /^\s*[+-]?(\d+\.?\d*([eE][+-]?\d+)?|\.\d+([eE][+-]?\d+)?)/;
+
+const looksNumeric = (v: Value) =>
+  typeof v === "number" || v === undefined || (v instanceof StrNum && NUMERIC.test(v.text));
+
+function toNum(v: Value): number {
+  if (typeof v === "number") return v;
+  if (v === undefined) return 0;
+  const match = LEADING_NUMBER.exec(v instanceof StrNum ? v.text : v);
+  return match ? parseFloat(match[0]) : 0;
+}
+
+function truthy(v: Value): boolean {
+  if (typeof v === "number") return v !== 0;
+  if (v === undefined) return false;
+  if (v instanceof StrNum) return NUMERIC.test(v.text) ? toNum(v) !== 0 : v.text !== "";
+  return v !== "";
+}
+
+/** Process the escapes of an awk string literal (also used for -F and -v values) */
+export function unescapeAwk(text: string): string {
+  const map: Record<string, string> = {
+    n: "\n",
+    t: "\t",
+    r: "\r",
+    "\\": "\\",
+    '"': '"',
+    "/": "/",
+    a: "\x07",
+    b: "\b",
+    f: "\f",
+    v: "\v",
+  };
+  return text.replace(/\\([0-7]{1,3}|.)/gs, (whole, c: string) => {
+    if (/^[0-7]/.test(c)) return String.fromCharCode(parseInt(c, 8));
+    return map[c] ?? whole;
+  });
+}
+
+// ============================================================================
+// printf
+// ============================================================================
+
+/** C-style %g */
+function formatG(n: number, precision: number, alternate: boolean): string {
+  const p = precision === 0 ? 1 : precision;
+  if (n === 0) return alternate ? (0).toFixed(p - 1) : "0";
+  const exponent = Number(n.toExponential(p - 1).split("e")[1]);
+  const text = exponent < -4 || exponent >= p
+    ? n.toExponential(p - 1)
+    : n.toFixed(Math.max(0, p - 1 - exponent));
+  if (alternate) return text;
+  // Without #, trailing zeros of the fraction are dropped
+  const [mantissa, exp] = text.split("e");
+  const trimmed = mantissa.includes(".") ? mantissa.replace(/\.?0+$/, "") : mantissa;
+  return exp === undefined ? trimmed : `${trimmed}e${exp}`;
+}
+
+/** C-style exponent: at least two digits */
+const cExponent = (text: string) => text.replace(/e([+-])(\d)$/, "e$10$2");
+
+function nonFinite(n: number): string | undefined {
+  if (Number.isNaN(n)) return "nan";
+  if (!Number.isFinite(n)) return n < 0 ? "-inf" : "inf";
+  return undefined;
+}
+
+/** sprintf: %d %i %o %x %X %u %c %s %e %E %f %F %g %G %% with flags, width and precision */
+function sprintf(format: string, args: Value[], toStr: (v: Value) => string): string {
+  let next = 0;
+  const arg = () => args[next++];
+  return format.replace(
+    /%([-+ #0]*)(\*|\d+)?(?:\.(\*|\d*))?([diouxXeEfFgGcs%])/g,
+    (_, flags: string, widthSpec?: string, precisionSpec?: string, conversion?: string) => {
+      if (conversion === "%") return "%";
+      let width = widthSpec === "*" ? toNum(arg()) : Number(widthSpec ?? 0);
+      let left = flags.includes("-");
+      if (width < 0) {
+        left = true;
+        width = -width;
+      }
+      const precision = precisionSpec === undefined
+        ? undefined
+        : precisionSpec === "*"
+        ? toNum(arg())
+        : Number(precisionSpec || 0);
+      const value = arg();
+      let text: string;
+      let numeric = true;
+      const sign = (n: number, body: string) =>
+        (n < 0 ? "-" : flags.includes("+") ? "+" : flags.includes(" ") ? " " : "") + body;
+
+      switch (conversion) {
+        case "d":
+        case "i": {
+          const n = Math.trunc(toNum(value));
+          text = nonFinite(n) ??
+            sign(n, BigInt(Math.abs(n)).toString().padStart(precision ?? 1, "0"));
+          break;
+        }
+        case "o":
+        case "x":
+        case "X":
+        case "u": {
+          const n = Math.trunc(toNum(value));
+          const base = conversion === "o" ? 8 : conversion === "u" ? 10 : 16;
+          // Negative values wrap like a 64-bit unsigned integer
+          let body = (n < 0 ? BigInt.asUintN(64, BigInt(n)) : BigInt(n)).toString(base);
+          if (conversion === "X") body = body.toUpperCase();
+          body = body.padStart(precision ?? 1, "0");
+          if (flags.includes("#") && n !== 0) {
+            body = conversion === "o"
+              ? "0" + body
+              : conversion === "x"
+              ? "0x" + body
+              : conversion === "X"
+              ? "0X" + body
+              : body;
+          }
+          text = body;
+          break;
+        }
+        case "e":
+        case "E": {
+          const n = toNum(value);
+          text = nonFinite(n) ?? sign(n, cExponent(Math.abs(n).toExponential(precision ?? 6)));
+          if (conversion === "E") text = text.toUpperCase();
+          break;
+        }
+        case "f":
+        case "F": {
+          const n = toNum(value);
+          text = nonFinite(n) ?? sign(n, Math.abs(n).toFixed(precision ?? 6));
+          break;
+        }
+        case "g":
+        case "G": {
+          const n = toNum(value);
+          text = nonFinite(n) ??
+            sign(n, cExponent(formatG(Math.abs(n), precision ?? 6, flags.includes("#"))));
+          if (conversion === "G") text = text.toUpperCase();
+          break;
+        }
+        case "c":
+          numeric = false;
+          text = typeof value === "number"
+            ? String.fromCodePoint(Math.trunc(value))
+            : [...toStr(value)][0] ?? "";
+          break;
+        default:
+          numeric = false;
+          text = toStr(value);
+          if (precision !== undefined) text = text.slice(0, precision);
+      }
+
+      if (text.length >= width) return text;
+      if (left) return text.padEnd(width);
+      // The 0 flag pads numbers after their sign; integer conversions ignore it with a precision
+      const integer = "diouxX".includes(conversion!);
+      const zeroPad = flags.includes("0") && !(integer && precision !== undefined);
+      if (numeric && zeroPad && /^[-+ ]?\d/.test(text)) {
+        const signChar = /^[-+ ]/.test(text) ? text[0] : "";
+        return signChar + text.slice(signChar.length).padStart(width - signChar.length, "0");
+      }
+      return text.padStart(width);
+    },
+  );
+}
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+type TokenType =
+  | "number"
+  | "string"
+  | "regex"
+  | "name"
+  | "builtin"
+  | "keyword"
+  | "op"
+  | "newline"
+  | "eof";
+
+interface Token {
+  type: TokenType;
+  value: string;
+}
+
+const KEYWORDS = new Set([
+  "BEGIN",
+  "END",
+  "if",
+  "else",
+  "while",
+  "for",
+  "do",
+  "break",
+  "continue",
+  "next",
+  "nextfile",
+  "exit",
+  "print",
+  "printf",
+  "delete",
+  "in",
+  "getline",
+  "function",
+  "func",
+  "return",
+]);
+
+const BUILTINS = new Set([
+  "length",
+  "substr",
+  "index",
+  "split",
+  "sub",
+  "gsub",
+  "match",
+  "sprintf",
+  "tolower",
+  "toupper",
+  "int",
+  "sqrt",
+  "exp",
+  "log",
+  "sin",
+  "cos",
+  "atan2",
+  "rand",
+  "srand",
+  "system",
+  "close",
+  "fflush",
+]);
+
+const OPERATORS = [
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "^=",
+  "==",
+  "<=",
+  ">=",
+  "!=",
+  "++",
+  "--",
+  "&&",
+  "||",
+  ">>",
+  "!~",
+  "**",
+];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  // A "/" starts a regex unless it follows something that can end an operand
+  const regexAllowed = () => {
+    const last = tokens[tokens.length - 1];
+    if (!last) return true;
+    if (["number", "string", "regex", "name", "builtin"].includes(last.type)) return false;
+    return !(last.type === "op" && [")", "]", "$", "++", "--"].includes(last.value));
+  };
+
+  while (i < source.length) {
+    const c = source[i];
+    if (c === " " || c === "\t" || c === "\r") {
+      i++;
+    } else if (c === "\\" && source[i + 1] === "\n") {
+      i += 2;
+    } else if (c === "#") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (c === "\n") {
+      tokens.push({ type: "newline", value: "\n" });
+      i++;
+    } else if (/[0-9]/.test(c) || (c === "." && /[0-9]/.test(source[i + 1] ?? ""))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: "number", value: match[0] });
+      i += match[0].length;
+    } else if (c === '"') {
+      let j = i + 1;
+      let raw = "";
+      while (j < source.length && source[j] !== '"') {
+        if (source[j] === "\\" && j + 1 < source.length) {
+          raw += source.slice(j, j + 2);
+          j += 2;
+        } else {
+          if (source[j] === "\n") throw fail("newline in string");
+          raw += source[j++];
+        }
+      }
+      if (j >= source.length) throw fail("unterminated string");
+      tokens.push({ type: "string", value: unescapeAwk(raw) });
+      i = j + 1;
+    } else if (c === "/" && regexAllowed()) {
+      let j = i + 1;
+      let raw = "";
+      let inBracket = false;
+      while (j < source.length && (source[j] !== "/" || inBracket)) {
+        if (source[j] === "\n") throw fail("newline in regex");
+        if (source[j] === "\\" && j + 1 < source.length) {
+          raw += source[j + 1] === "/" ? "/" : source.slice(j, j + 2);
+          j += 2;
+          continue;
+        }
+        if (source[j] === "[" && !inBracket) {
+          inBracket = true;
+          raw += source[j++];
+          if (source[j] === "^") raw += source[j++];
+          if (source[j] === "]") raw += source[j++];
+          continue;
+        }
+        if (source[j] === "]") inBracket = false;
+        raw += source[j++];
+      }
+      if (j >= source.length) throw fail("unterminated regex");
+      tokens.push({ type: "regex", value: raw });
+      i = j + 1;
+    } else if (/[A-Za-z_]/.test(c)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))![0];
+      tokens.push({
+        type: KEYWORDS.has(name) ? "keyword" : BUILTINS.has(name) ? "builtin" : "name",
+        value: name,
+      });
+      i += name.length;
+    } else {
+      const op = OPERATORS.find((o) => source.startsWith(o, i)) ??
+        ("{}()[];,+-*/%^!><|?:~$=".includes(c) ? c : undefined);
+      if (!op) throw fail(`unexpected character '${c}'`);
+      tokens.push({ type: "op", value: op === "**" ? "^" : op });
+      i += op.length;
+    }
+  }
+  tokens.push({ type: "eof", value: "" });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+type Expr =
+  | { k: "num"; v: number }
+  | { k: "str"; v: string }
+  | { k: "regex"; re: RegExp }
+  | { k: "var"; name: string }
+  | { k: "index"; name: string; subs: Expr[] }
+  | { k: "field"; e: Expr }
+  | { k: "group"; list: Expr[] }
+  | { k: "assign"; op: string; target: Expr; value: Expr }
+  | { k: "cond"; c: Expr; a: Expr; b: Expr }
+  | { k: "and" | "or"; a: Expr; b: Expr }
+  | { k: "in"; subs: Expr[]; name: string }
+  | { k: "match"; negate: boolean; a: Expr; re: Expr }
+  | { k: "binary"; op: string; a: Expr; b: Expr }
+  | { k: "concat"; a: Expr; b: Expr }
+  | { k: "unary"; op: string; e: Expr }
+  | { k: "incdec"; op: string; prefix: boolean; target: Expr }
+  | { k: "call"; name: string; args: Expr[] };
+
+type Stmt =
+  | { k: "print"; args: Expr[]; printf: boolean }
+  | { k: "expr"; e: Expr }
+  | { k: "if"; c: Expr; then: Stmt; else?: Stmt }
+  | { k: "while"; c: Expr; body: Stmt }
+  | { k: "do"; body: Stmt; c: Expr }
+  | { k: "for"; init?: Expr; c?: Expr; step?: Expr; body: Stmt }
+  | { k: "forin"; name: string; array: string; body: Stmt }
+  | { k: "block"; body: Stmt[] }
+  | { k: "next" | "break" | "continue" }
+  | { k: "exit"; e?: Expr }
+  | { k: "delete"; name: string; subs?: Expr[] };
+
+interface Item {
+  pattern?: Expr;
+  /** Second pattern of a range */
+  end?: Expr;
+  action?: Stmt[];
+}
+
+interface Program {
+  begin: Stmt[][];
+  items: Item[];
+  end: Stmt[][];
+}
+
+/** Translate an awk (POSIX extended) regex to JavaScript syntax */
+function translateRegex(source: string): string {
+  let out = "";
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "[") {
+      const [cls, next] = bracketExpression(source, i);
+      out += cls;
+      i = next - 1;
+    } else if (source[i] === "\\") {
+      out += source.slice(i, i + 2);
+      i++;
+    } else {
+      out += source[i];
+    }
+  }
+  return out;
+}
+
+const regexCache = new Map<string, RegExp>();
+
+/** Compiled regex for an awk regex source, cached */
+function awkRegex(source: string): RegExp {
+  let regex = regexCache.get(source);
+  if (!regex) {
+    regex = compileRegex(translateRegex(source), "", "awk");
+    if (regexCache.size > 1000) regexCache.clear();
+    regexCache.set(source, regex);
+  }
+  return regex;
+}
+
+const isLvalue = (e: Expr) => e.k === "var" || e.k === "index" || e.k === "field";
+
+class Parser {
+  private pos = 0;
+  /** Inside print arguments a bare ">" is an output redirection, not a comparison */
+  private noGt = false;
+
+  constructor(private tokens: Token[]) {}
+
+  private get token(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private is(value: string, type: TokenType = "op"): boolean {
+    return this.token.type === type && this.token.value === value;
+  }
+
+  private accept(value: string, type: TokenType = "op"): boolean {
+    if (!this.is(value, type)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(value: string, type: TokenType = "op"): void {
+    if (!this.accept(value, type)) {
+      throw fail(`syntax error: expected '${value}' near '${this.token.value || "end"}'`);
+    }
+  }
+
+  private newlines(): void {
+    while (this.token.type === "newline") this.pos++;
+  }
+
+  /** Skip statement terminators: newlines and semicolons */
+  private terminators(): void {
+    while (this.token.type === "newline" || this.is(";")) this.pos++;
+  }
+
+  program(): Program {
+    const program: Program = { begin: [], items: [], end: [] };
+    this.terminators();
+    while (this.token.type !== "eof") {
+      if (this.accept("BEGIN", "keyword")) {
+        this.newlines();
+        program.begin.push(this.block());
+      } else if (this.accept("END", "keyword")) {
+        this.newlines();
+        program.end.push(this.block());
+      } else if (this.is("function", "keyword") || this.is("func", "keyword")) {
+        throw unsupported("function definition");
+      } else {
+        const item: Item = {};
+        if (!this.is("{")) {
+          item.pattern = this.expr();
+          if (this.accept(",")) {
+            this.newlines();
+            item.end = this.expr();
+          }
+        }
+        if (this.is("{")) item.action = this.block();
+        program.items.push(item);
+      }
+      this.terminators();
+    }
+    return program;
+  }
+
+  private block(): Stmt[] {
+    this.expect("{");
+    const body: Stmt[] = [];
+    this.terminators();
+    while (!this.accept("}")) {
+      if (this.token.type === "eof") throw fail("syntax error: missing }");
+      body.push(this.statement());
+      this.terminators();
+    }
+    return body;
+  }
+
+  /** A statement body after if/while/for: a statement, or ";" for none */
+  private body(): Stmt {
+    this.newlines();
+    if (this.accept(";")) return { k: "block", body: [] };
+    return this.statement();
+  }
+
+  private statement(): Stmt {
+    if (this.is("{")) return { k: "block", body: this.block() };
+    const { type, value } = this.token;
+    if (type === "keyword") {
+      switch (value) {
+        case "if": {
+          this.pos++;
+          this.expect("(");
+          const c = this.expr();
+          this.expect(")");
+          const then = this.body();
+          // "else" may follow on a later line or after a ";"
+          const save = this.pos;
+          this.terminators();
+          if (this.accept("else", "keyword")) return { k: "if", c, then, else: this.body() };
+          this.pos = save;
+          return { k: "if", c, then };
+        }
+        case "while": {
+          this.pos++;
+          this.expect("(");
+          const c = this.expr();
+          this.expect(")");
+          return { k: "while", c, body: this.body() };
+        }
+        case "do": {
+          this.pos++;
+          const body = this.body();
+          this.terminators();
+          this.expect("while", "keyword");
+          this.expect("(");
+          const c = this.expr();
+          this.expect(")");
+          return { k: "do", body, c };
+        }
+        case "for":
+          return this.forStatement();
+        case "next":
+        case "break":
+        case "continue":
+          this.pos++;
+          return { k: value };
+        case "exit": {
+          this.pos++;
+          const atEnd = this.token.type === "newline" || this.token.type === "eof" ||
+            this.is(";") || this.is("}");
+          return { k: "exit", e: atEnd ? undefined : this.expr() };
+        }
+        case "delete": {
+          this.pos++;
+          const name = this.name();
+          if (!this.accept("[")) return { k: "delete", name };
+          const subs = this.exprList("]");
+          return { k: "delete", name, subs };
+        }
+        case "print":
+        case "printf":
+          return this.print();
+        case "getline":
+          throw unsupported("getline");
+        case "return":
+          throw unsupported("return");
+        case "nextfile":
+          throw unsupported("nextfile");
+      }
+    }
+    return { k: "expr", e: this.expr() };
+  }
+
+  private name(): string {
+    if (this.token.type !== "name") {
+      throw fail(`syntax error: expected a name near '${this.token.value || "end"}'`);
+    }
+    return this.tokens[this.pos++].value;
+  }
+
+  private forStatement(): Stmt {
+    this.pos++;
+    this.expect("(");
+    const t = this.tokens;
+    const p = this.pos;
+    if (
+      t[p].type === "name" && t[p + 1]?.value === "in" && t[p + 2]?.type === "name" &&
+      t[p + 3]?.value === ")"
+    ) {
+      this.pos += 4;
+      return { k: "forin", name: t[p].value, array: t[p + 2].value, body: this.body() };
+    }
+    const init = this.is(";") ? undefined : this.expr();
+    this.expect(";");
+    this.newlines();
+    const c = this.is(";") ? undefined : this.expr();
+    this.expect(";");
+    this.newlines();
+    const step = this.is(")") ? undefined : this.expr();
+    this.expect(")");
+    return { k: "for", init, c, step, body: this.body() };
+  }
+
+  private print(): Stmt {
+    const printf = this.tokens[this.pos++].value === "printf";
+    let args: Expr[] = [];
+    const end = () =>
+      this.token.type === "newline" || this.token.type === "eof" || this.is(";") || this.is("}") ||
+      this.is(">") || this.is(">>") || this.is("|");
+    if (!end()) {
+      this.noGt = true;
+      args = [this.expr()];
+      while (this.accept(",")) {
+        this.newlines();
+        args.push(this.expr());
+      }
+      this.noGt = false;
+    }
+    if (this.is(">") || this.is(">>") || this.is("|")) throw unsupported("output redirection");
+    // print (a, b) prints both
+    if (args.length === 1 && args[0].k === "group") args = args[0].list;
+    if (printf && args.length === 0) throw fail("printf: no format");
+    return { k: "print", args, printf };
+  }
+
+  private exprList(close: string): Expr[] {
+    const saved = this.noGt;
+    this.noGt = false;
+    const list: Expr[] = [];
+    this.newlines();
+    if (!this.accept(close)) {
+      do {
+        this.newlines();
+        list.push(this.expr());
+        this.newlines();
+      } while (this.accept(","));
+      this.expect(close);
+    }
+    this.noGt = saved;
+    return list;
+  }
+
+  expr(): Expr {
+    const left = this.ternary();
+    const op = this.token.value;
+    if (
+      this.token.type === "op" && ["=", "+=", "-=", "*=", "/=", "%=", "^="].includes(op) &&
+      isLvalue(left)
+    ) {
+      this.pos++;
+      this.newlines();
+      return { k: "assign", op, target: left, value: this.expr() };
+    }
+    return left;
+  }
+
+  private ternary(): Expr {
+    const c = this.or();
+    if (!this.accept("?")) return c;
+    this.newlines();
+    const a = this.expr();
+    this.newlines();
+    this.expect(":");
+    this.newlines();
+    return { k: "cond", c, a, b: this.expr() };
+  }
+
+  private or(): Expr {
+    let a = this.and();
+    while (this.accept("||")) {
+      this.newlines();
+      a = { k: "or", a, b: this.and() };
+    }
+    return a;
+  }
+
+  private and(): Expr {
+    let a = this.inExpr();
+    while (this.accept("&&")) {
+      this.newlines();
+      a = { k: "and", a, b: this.inExpr() };
+    }
+    return a;
+  }
+
+  private inExpr(): Expr {
+    let a = this.matchExpr();
+    while (this.accept("in", "keyword")) {
+      a = { k: "in", subs: a.k === "group" ? a.list : [a], name: this.name() };
+    }
+    return a;
+  }
+
+  private matchExpr(): Expr {
+    let a = this.relational();
+    while (this.is("~") || this.is("!~")) {
+      const negate = this.tokens[this.pos++].value === "!~";
+      a = { k: "match", negate, a, re: this.relational() };
+    }
+    return a;
+  }
+
+  private relational(): Expr {
+    const a = this.concat();
+    const op = this.token.value;
+    if (this.token.type === "op" && ["<", "<=", "!=", "==", ">=", ">"].includes(op)) {
+      if (op === ">" && this.noGt) return a;
+      this.pos++;
+      return { k: "binary", op, a, b: this.concat() };
+    }
+    return a;
+  }
+
+  /** Whether the current token can start the right operand of a concatenation */
+  private startsOperand(): boolean {
+    const { type, value } = this.token;
+    if (["number", "string", "regex", "name", "builtin"].includes(type)) return true;
+    return type === "op" && ["$", "(", "++", "--"].includes(value);
+  }
+
+  private concat(): Expr {
+    let a = this.additive();
+    while (this.startsOperand()) a = { k: "concat", a, b: this.additive() };
+    return a;
+  }
+
+  private additive(): Expr {
+    let a = this.multiplicative();
+    while (this.is("+") || this.is("-")) {
+      const op = this.tokens[this.pos++].value;
+      a = { k: "binary", op, a, b: this.multiplicative() };
+    }
+    return a;
+  }
+
+  private multiplicative(): Expr {
+    let a = this.unary();
+    while (this.is("*") || this.is("/") || this.is("%")) {
+      const op = this.tokens[this.pos++].value;
+      a = { k: "binary", op, a, b: this.unary() };
+    }
+    return a;
+  }
+
+  private unary(): Expr {
+    if (this.is("!") || this.is("-") || this.is("+")) {
+      const op = this.tokens[this.pos++].value;
+      return { k: "unary", op, e: this.unary() };
+    }
+    return this.power();
+  }
+
+  private power(): Expr {
+    const a = this.postfix();
+    if (this.accept("^")) return { k: "binary", op: "^", a, b: this.unary() };
+    return a;
+  }
+
+  private postfix(): Expr {
+    if (this.is("++") || this.is("--")) {
+      const op = this.tokens[this.pos++].value;
+      const target = this.postfix();
+      if (!isLvalue(target)) throw fail(`syntax error: ${op} needs a variable`);
+      return { k: "incdec", op, prefix: true, target };
+    }
+    const e = this.primary();
+    if (isLvalue(e) && (this.is("++") || this.is("--"))) {
+      return { k: "incdec", op: this.tokens[this.pos++].value, prefix: false, target: e };
+    }
+    return e;
+  }
+
+  private primary(): Expr {
+    const token = this.tokens[this.pos++];
+    switch (token.type) {
+      case "number":
+        return { k: "num", v: Number(token.value) };
+      case "string":
+        return { k: "str", v: token.value };
+      case "regex":
+        return { k: "regex", re: awkRegex(token.value) };
+      case "name":
+        if (this.accept("[")) return { k: "index", name: token.value, subs: this.exprList("]") };
+        return { k: "var", name: token.value };
+      case "builtin": {
+        if (["system", "close", "fflush"].includes(token.value)) {
+          throw unsupported(`${token.value}()`);
+        }
+        const args = this.accept("(") ? this.exprList(")") : [];
+        return { k: "call", name: token.value, args };
+      }
+      case "op":
+        if (token.value === "$") {
+          return {
+            k: "field",
+            e: this.is("++") || this.is("--") ? this.postfix() : this.primary(),
+          };
+        }
+        if (token.value === "(") {
+          const list = this.exprList(")");
+          if (list.length === 0) throw fail("syntax error: empty ()");
+          return list.length === 1 ? list[0] : { k: "group", list };
+        }
+        break;
+      case "keyword":
+        if (token.value === "getline") throw unsupported("getline");
+        break;
+    }
+    throw fail(`syntax error near '${token.value || "end of program"}'`);
+  }
+}
+
+// ============================================================================
+// Interpreter
+// ============================================================================
+
+class Jump {
+  constructor(readonly kind: "next" | "exit" | "break" | "continue") {}
+}
+
+/**
+ * Upper bound on executed statements and loop iterations; sub() and gsub()
+ * also cost a step per 256 characters
+ */
+const MAX_STEPS = 10_000_000;
+
+class Interpreter {
+  private vars = new Map<string, Value>();
+  private arrays = new Map<string, Map<string, Value>>();
+  private record = "";
+  private fields: string[] | null = [];
+  private out: string[] = [];
+  private outLength = 0;
+  private steps = 0;
+  private nextCheck = 0;
+  private seed = 0;
+  exitCode = 0;
+  private random = mulberry32(0);
+
+  constructor(private limits: EngineLimits = {}) {
+    for (
+      const [name, value] of Object.entries({
+        FS: " ",
+        OFS: " ",
+        ORS: "\n",
+        RS: "\n",
+        SUBSEP: "\x1c",
+        CONVFMT: "%.6g",
+        OFMT: "%.6g",
+        NR: 0,
+        FNR: 0,
+        RSTART: 0,
+        RLENGTH: -1,
+        FILENAME: "",
+      })
+    ) this.vars.set(name, value);
+  }
+
+  setVariable(name: string, value: string): void {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) throw fail(`invalid variable name: ${name}`);
+    this.vars.set(name, new StrNum(unescapeAwk(value)));
+  }
+
+  output(): string {
+    return this.out.join("");
+  }
+
+  private tick(cost = 1): void {
+    this.steps += cost;
+    if (this.steps > MAX_STEPS) throw fail("program exceeded the step limit");
+    if (this.steps >= this.nextCheck) {
+      checkLimits(this.limits, "awk");
+      this.nextCheck = this.steps + LIMIT_CHECK_STEPS;
+    }
+  }
+
+  private emit(text: string): void {
+    this.outLength += text.length;
+    if (this.outLength > MAX_TEXT_LENGTH) throw fail("output exceeded the size limit");
+    this.out.push(text);
+  }
+
+  /** `text`, unless it is longer than MAX_TEXT_LENGTH */
+  private sized(text: string): string {
+    if (text.length > MAX_TEXT_LENGTH) throw fail("string exceeded the size limit");
+    return text;
+  }
+
+  // --- conversions ---------------------------------------------------------
+
+  private str(v: Value, format = "CONVFMT"): string {
+    if (typeof v === "string") return v;
+    if (v === undefined) return "";
+    if (v instanceof StrNum) return v.text;
+    // Integral values print as integers whatever CONVFMT/OFMT say, like gawk's %d
+    if (Number.isInteger(v) && Math.abs(v) < 1e30) return BigInt(v).toString();
+    return nonFinite(v) ?? sprintf(this.str(this.vars.get(format)), [v], (x) => this.str(x));
+  }
+
+  private compare(a: Value, b: Value): number {
+    if (looksNumeric(a) && looksNumeric(b)) return toNum(a) - toNum(b);
+    const x = this.str(a);
+    const y = this.str(b);
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+
+  private regexOf(e: Expr): RegExp {
+    return e.k === "regex" ? e.re : awkRegex(this.str(this.eval(e)));
+  }
+
+  // --- records and fields --------------------------------------------------
+
+  setRecord(record: string): void {
+    this.record = record;
+    this.fields = null;
+  }
+
+  private splitFields(): string[] {
+    if (this.fields === null) this.fields = this.split(this.record, this.str(this.vars.get("FS")));
+    return this.fields;
+  }
+
+  private split(text: string, separator: string | RegExp): string[] {
+    if (text === "") return [];
+    if (separator === " ") {
+      // Default splitting: runs of blanks and newlines, ignoring leading and trailing ones
+      const trimmed = text.replace(/^[ \t\n]+|[ \t\n]+$/g, "");
+      return trimmed === "" ? [] : trimmed.split(/[ \t\n]+/);
+    }
+    if (typeof separator === "string") {
+      if (separator === "") return [...text];
+      if (separator.length === 1 && separator !== "\\") return text.split(separator);
+      separator = awkRegex(separator);
+    }
+    return text.split(separator);
+  }
+
+  private getField(i: number): Value {
+    if (i < 0) throw fail(`attempt to access field ${i}`);
+    if (i === 0) return new StrNum(this.record);
+    const field = this.splitFields()[i - 1];
+    return field === undefined ? undefined : new StrNum(field);
+  }
+
+  private setField(i: number, value: string): void {
+    if (i < 0) throw fail(`attempt to access field ${i}`);
+    if (i === 0) return this.setRecord(value);
+    const fields = this.splitFields();
+    while (fields.length < i) fields.push("");
+    fields[i - 1] = value;
+    this.record = fields.join(this.str(this.vars.get("OFS")));
+  }
+
+  private setNF(n: number): void {
+    const fields = this.splitFields();
+    fields.length = Math.max(0, Math.trunc(n));
+    for (let i = 0; i < fields.length; i++) fields[i] ??= "";
+    this.record = fields.join(this.str(this.vars.get("OFS")));
+  }
+
+  // --- lvalues -------------------------------------------------------------
+
+  private array(name: string): Map<string, Value> {
+    if (this.vars.get(name) !== undefined) throw fail(`can't use scalar ${name} as an array`);
+    let array = this.arrays.get(name);
+    if (!array) this.arrays.set(name, array = new Map());
+    return array;
+  }
+
+  private key(subs: Expr[]): string {
+    return subs.map((e) => this.str(this.eval(e))).join(this.str(this.vars.get("SUBSEP")));
+  }
+
+  private get(target: Expr): Value {
+    switch (target.k) {
+      case "var":
+        if (target.name === "NF") return this.splitFields().length;
+        if (this.arrays.has(target.name)) throw fail(`can't use array ${target.name} as a scalar`);
+        return this.vars.get(target.name);
+      case "index": {
+        const array = this.array(target.name);
+        const key = this.key(target.subs);
+        if (!array.has(key)) array.set(key, undefined);
+        return array.get(key);
+      }
+      case "field":
+        return this.getField(Math.trunc(toNum(this.eval(target.e))));
+    }
+    throw fail("not a variable");
+  }
+
+  private set(target: Expr, value: Value): Value {
+    switch (target.k) {
+      case "var":
+        if (this.arrays.has(target.name)) throw fail(`can't assign to array ${target.name}`);
+        if (target.name === "NF") this.setNF(toNum(value));
+        else this.vars.set(target.name, value);
+        return value;
+      case "index":
+        this.array(target.name).set(this.key(target.subs), value);
+        return value;
+      case "field":
+        this.setField(Math.trunc(toNum(this.eval(target.e))), this.str(value));
+        return value;
+    }
+    throw fail("not a variable");
+  }
+
+  // --- expressions ---------------------------------------------------------
+
+  private arithmetic(op: string, a: number, b: number): number {
+    switch (op) {
+      case "+":
+        return a + b;
+      case "-":
+        return a - b;
+      case "*":
+        return a * b;
+      case "/":
+        if (b === 0) throw fail("division by zero");
+        return a / b;
+      case "%":
+        if (b === 0) throw fail("division by zero in %");
+        return a % b;
+      default:
+        return a ** b;
+    }
+  }
+
+  eval(e: Expr): Value {
+    switch (e.k) {
+      case "num":
+        return e.v;
+      case "str":
+        return e.v;
+      case "regex":
+        return e.re.test(this.record) ? 1 : 0;
+      case "var":
+      case "index":
+      case "field":
+        return this.get(e);
+      case "group":
+        return this.key(e.list);
+      case "assign": {
+        if (e.op === "=") return this.set(e.target, this.eval(e.value));
+        const value = toNum(this.eval(e.value));
+        return this.set(e.target, this.arithmetic(e.op[0], toNum(this.get(e.target)), value));
+      }
+      case "cond":
+        return truthy(this.eval(e.c)) ? this.eval(e.a) : this.eval(e.b);
+      case "and":
+        return truthy(this.eval(e.a)) && truthy(this.eval(e.b)) ? 1 : 0;
+      case "or":
+        return truthy(this.eval(e.a)) || truthy(this.eval(e.b)) ? 1 : 0;
+      case "in":
+        return this.array(e.name).has(this.key(e.subs)) ? 1 : 0;
+      case "match": {
+        const text = this.str(this.eval(e.a));
+        return this.regexOf(e.re).test(text) !== e.negate ? 1 : 0;
+      }
+      case "binary": {
+        const a = this.eval(e.a);
+        const b = this.eval(e.b);
+        switch (e.op) {
+          case "<":
+            return this.compare(a, b) < 0 ? 1 : 0;
+          case "<=":
+            return this.compare(a, b) <= 0 ? 1 : 0;
+          case ">":
+            return this.compare(a, b) > 0 ? 1 : 0;
+          case ">=":
+            return this.compare(a, b) >= 0 ? 1 : 0;
+          case "==":
+            return this.compare(a, b) === 0 ? 1 : 0;
+          case "!=":
+            return this.compare(a, b) !== 0 ? 1 : 0;
+        }
+        return this.arithmetic(e.op, toNum(a), toNum(b));
+      }
+      case "concat":
+        return this.sized(this.str(this.eval(e.a)) + this.str(this.eval(e.b)));
+      case "unary": {
+        const value = this.eval(e.e);
+        if (e.op === "!") return truthy(value) ? 0 : 1;
+        return e.op === "-" ? -toNum(value) : toNum(value);
+      }
+      case "incdec": {
+        const old = toNum(this.get(e.target));
+        const value = e.op === "++" ? old + 1 : old - 1;
+        this.set(e.target, value);
+        return e.prefix ? value : old;
+      }
+      case "call":
+        return this.call(e.name, e.args);
+    }
+  }
+
+  private call(name: string, args: Expr[]): Value {
+    const num = (i: number) => toNum(this.eval(args[i]));
+    const text = (i: number) => this.str(this.eval(args[i]));
+    switch (name) {
+      case "length": {
+        if (args.length === 0) return this.record.length;
+        const arg = args[0];
+        if (arg.k === "var" && this.arrays.has(arg.name)) return this.arrays.get(arg.name)!.size;
+        return text(0).length;
+      }
+      case "substr": {
+        const s = text(0);
+        let start = Math.round(num(1));
+        let end = args.length > 2 ? start + Math.round(num(2)) : Infinity;
+        if (Number.isNaN(start) || Number.isNaN(end)) return "";
+        start = Math.max(start, 1);
+        end = Math.min(end, s.length + 1);
+        return end > start ? s.slice(start - 1, end - 1) : "";
+      }
+      case "index":
+        return text(0).indexOf(text(1)) + 1;
+      case "split": {
+        const arg = args[1];
+        if (arg?.k !== "var") throw fail("split: second argument must be an array name");
+        const separator = args[2]?.k === "regex"
+          ? args[2].re
+          : args.length > 2
+          ? text(2)
+          : this.str(this.vars.get("FS"));
+        const parts = this.split(text(0), separator);
+        const array = this.array(arg.name);
+        array.clear();
+        parts.forEach((part, i) => array.set(String(i + 1), new StrNum(part)));
+        return parts.length;
+      }
+      case "sub":
+      case "gsub": {
+        const target: Expr = args[2] ?? { k: "field", e: { k: "num", v: 0 } };
+        if (!isLvalue(target)) throw fail(`${name}: third argument must be a variable`);
+        const regex = new RegExp(this.regexOf(args[0]).source, "g");
+        const replacement = text(1);
+        const subject = this.str(this.get(target));
+        this.tick(subject.length >> 8);
+        let count = 0;
+        let result = "";
+        let last = 0;
+        let previousEnd = -1;
+        for (let match = regex.exec(subject); match; match = regex.exec(subject)) {
+          if (match[0] === "") regex.lastIndex++;
+          if (match[0] === "" && match.index === previousEnd) continue;
+          previousEnd = match.index + match[0].length;
+          count++;
+          const expanded = replacement.replace(
+            /\\\\|\\&|&/g,
+            (token) => token === "&" ? match![0] : token === "\\&" ? "&" : "\\",
+          );
+          result = this.sized(result + subject.slice(last, match.index) + expanded);
+          last = previousEnd;
+          if (name === "sub") break;
+        }
+        if (count > 0) this.set(target, result + subject.slice(last));
+        return count;
+      }
+      case "match": {
+        const match = this.regexOf(args[1]).exec(text(0));
+        this.vars.set("RSTART", match ? match.index + 1 : 0);
+        this.vars.set("RLENGTH", match ? match[0].length : -1);
+        return match ? match.index + 1 : 0;
+      }
+      case "sprintf":
+        if (args.length === 0) throw fail("sprintf: no format");
+        return sprintf(text(0), args.slice(1).map((a) => this.eval(a)), (v) => this.str(v));
+      case "tolower":
+        return text(0).toLowerCase();
+      case "toupper":
+        return text(0).toUpperCase();
+      case "int":
+        return Math.trunc(num(0));
+      case "sqrt":
+        return Math.sqrt(num(0));
+      case "exp":
+        return Math.exp(num(0));
+      case "log":
+        return Math.log(num(0));
+      case "sin":
+        return Math.sin(num(0));
+      case "cos":
+        return Math.cos(num(0));
+      case "atan2":
+        return Math.atan2(num(0), num(1));
+      case "rand":
+        return this.random();
+      case "srand": {
+        const previous = this.seed;
+        this.seed = args.length > 0 ? num(0) : Math.floor(Date.now() / 1000);
+        this.random = mulberry32(this.seed);
+        return previous;
+      }
+    }
+    throw unsupported(`${name}()`);
+  }
+
+  // --- statements ----------------------------------------------------------
+
+  run(body: Stmt[]): void {
+    for (const stmt of body) this.exec(stmt);
+  }
+
+  private loopBody(body: Stmt): boolean {
+    this.tick();
+    try {
+      this.exec(body);
+    } catch (e) {
+      if (e instanceof Jump && e.kind === "break") return false;
+      if (!(e instanceof Jump && e.kind === "continue")) throw e;
+    }
+    return true;
+  }
+
+  private exec(stmt: Stmt): void {
+    this.tick();
+    switch (stmt.k) {
+      case "print": {
+        if (stmt.printf) {
+          const [format, ...rest] = stmt.args.map((a) => this.eval(a));
+          this.emit(sprintf(this.str(format), rest, (v) => this.str(v)));
+          break;
+        }
+        const values = stmt.args.length === 0
+          ? [this.record]
+          : stmt.args.map((a) => this.str(this.eval(a), "OFMT"));
+        this.emit(values.join(this.str(this.vars.get("OFS"))) + this.str(this.vars.get("ORS")));
+        break;
+      }
+      case "expr":
+        this.eval(stmt.e);
+        break;
+      case "if":
+        if (truthy(this.eval(stmt.c))) this.exec(stmt.then);
+        else if (stmt.else) this.exec(stmt.else);
+        break;
+      case "while":
+        while (truthy(this.eval(stmt.c)) && this.loopBody(stmt.body));
+        break;
+      case "do":
+        while (this.loopBody(stmt.body) && truthy(this.eval(stmt.c)));
+        break;
+      case "for":
+        if (stmt.init) this.eval(stmt.init);
+        while (!stmt.c || truthy(this.eval(stmt.c))) {
+          if (!this.loopBody(stmt.body)) break;
+          if (stmt.step) this.eval(stmt.step);
+        }
+        break;
+      case "forin":
+        for (const key of [...this.array(stmt.array).keys()]) {
+          this.vars.set(stmt.name, key);
+          if (!this.loopBody(stmt.body)) break;
+        }
+        break;
+      case "block":
+        this.run(stmt.body);
+        break;
+      case "next":
+      case "break":
+      case "continue":
+        throw new Jump(stmt.k);
+      case "exit":
+        if (stmt.e) this.exitCode = Math.trunc(toNum(this.eval(stmt.e)));
+        throw new Jump("exit");
+      case "delete":
+        if (stmt.subs) this.array(stmt.name).delete(this.key(stmt.subs));
+        else this.array(stmt.name).clear();
+        break;
+    }
+  }
+
+  // --- main loop -----------------------------------------------------------
+
+  private records(input: string): string[] {
+    const rs = this.str(this.vars.get("RS"));
+    if (rs === "") {
+      // Paragraph mode: blank lines separate records
+      return input.replace(/^\n+|\n+$/g, "").split(/\n\n+/).filter((r) => r !== "");
+    }
+    const records = input.split(rs.length === 1 ? rs : awkRegex(rs));
+    if (records[records.length - 1] === "") records.pop();
+    return records;
+  }
+
+  execute(program: Program, input: string): void {
+    try {
+      for (const body of program.begin) this.run(body);
+      if (program.items.length === 0 && program.end.length === 0) return;
+
+      const inRange = new Set<Item>();
+      for (const record of this.records(input)) {
+        this.vars.set("NR", toNum(this.vars.get("NR")) + 1);
+        this.vars.set("FNR", toNum(this.vars.get("FNR")) + 1);
+        this.setRecord(record);
+        try {
+          for (const item of program.items) {
+            if (!this.selects(item, inRange)) continue;
+            if (item.action) this.run(item.action);
+            else this.emit(this.record + this.str(this.vars.get("ORS")));
+          }
+        } catch (e) {
+          if (!(e instanceof Jump && e.kind === "next")) throw e;
+        }
+      }
+    } catch (e) {
+      if (!(e instanceof Jump && e.kind === "exit")) throw this.stray(e);
+    }
+    try {
+      for (const body of program.end) this.run(body);
+    } catch (e) {
+      if (!(e instanceof Jump && e.kind === "exit")) throw this.stray(e);
+    }
+  }
+
+  /** break/continue outside a loop and next in BEGIN/END are errors */
+  private stray(e: unknown): unknown {
+    return e instanceof Jump ? fail(`${e.kind} used outside its context`) : e;
+  }
+
+  private selects(item: Item, inRange: Set<Item>): boolean {
+    if (!item.pattern) return true;
+    if (!item.end) return truthy(this.eval(item.pattern));
+    if (inRange.has(item) || truthy(this.eval(item.pattern))) {
+      if (truthy(this.eval(item.end))) inRange.delete(item);
+      else inRange.add(item);
+      return true;
+    }
+    return false;
+  }
+}
+
+/** Small seeded PRNG so rand() repeats for a given srand() seed, as in awk */
+function mulberry32(seed: number): () => number {
+  let state = Math.trunc(seed) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Run an awk program over `input` and return what awk would print
+ *
+ * Stops with TIMEOUT or CANCELLED once `signal` or `deadline` says so,
+ * and with INVALID_ARGUMENT past the step limit or when a string or the
+ * output grows beyond MAX_TEXT_LENGTH.
+ */
+export function runAwk(
+  program: string,
+  input: string,
+  { fieldSeparator, variables = {}, ...limits }: {
+    fieldSeparator?: string;
+    variables?: Record<string, string | number>;
+  } & EngineLimits = {},
+): { output: string; exitCode: number } {
+  const parsed = new Parser(tokenize(program)).program();
+  const interpreter = new Interpreter(limits);
+  if (fieldSeparator !== undefined) interpreter.setVariable("FS", fieldSeparator);
+  for (const [name, value] of Object.entries(variables)) {
+    interpreter.setVariable(name, String(value));
+  }
+  interpreter.execute(parsed, input);
+  return { output: interpreter.output(), exitCode: interpreter.exitCode };
+}
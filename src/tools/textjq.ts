@@ -0,0 +1,2089 @@
+/**
+ * In-process jq
+ *
+ * Supported subset of the jq language:
+ * - paths `.`, `..`, `.foo`, `."foo"`, `.[e]`, `.[a:b]`, `.[]`, `?`
+ * - pipes, `,`, literals, string interpolation `"\(e)"`, `[...]`, `{...}`
+ *   (with `{a}`, `{$x}` and `{(e): v}` keys), `$var`, `e as $x | ...`
+ * - operators `+ - * / %`, comparisons, `and`/`or`, `//`, assignments
+ *   `= |= += -= *= /= %= //=`, `if/elif/else/end`, `try/catch`, `reduce`,
+ *   `foreach`, `def f(g; $x): ...;`
+ * - formats `@base64`, `@base64d`, `@csv`, `@tsv`, `@html`, `@uri`, `@sh`,
+ *   `@json`, `@text` (alone or before an interpolated string)
+ * - the common builtins: length, keys, has, map, select, sort_by, group_by,
+ *   unique_by, min_by, to_entries, with_entries, paths, getpath, setpath,
+ *   del, test/match/capture/sub/gsub/split, join, range, limit, first,
+ *   any/all, walk, tostring/tonumber/tojson/fromjson, ...
+ *
+ * Not supported: `label`/`break`, modules, `input`/`inputs`, `$ENV`, date
+ * functions, streaming (`tostream`) and SQL-style builtins; use the host
+ * binary for those.
+ *
+ * @module lib/std/textjq
+ */
+
+import { ToolError } from "./errors.ts";
+import { checkLimits, type EngineLimits, LIMIT_CHECK_STEPS, MAX_TEXT_LENGTH } from "./textlines.ts";
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+type JsonObject = { [key: string]: Json };
+
+/** Path element: object key, array index or array slice */
+type PathKey = string | number | { start: Json; end: Json };
+type Path = PathKey[];
+
+const fail = (message: string) => new ToolError("INVALID_ARGUMENT", `jq: ${message}`);
+
+/** Refuse to build a string longer than MAX_TEXT_LENGTH */
+function checkLength(length: number): void {
+  if (length > MAX_TEXT_LENGTH) throw fail("string exceeded the size limit");
+}
+
+/** A jq runtime error, which try/catch can intercept */
+class JqError extends Error {
+  constructor(readonly value: Json) {
+    super(typeof value === "string" ? value : JSON.stringify(value));
+  }
+}
+
+// ============================================================================
+// Values
+// ============================================================================
+
+/** JSON text as jq prints it: infinities as the largest finite doubles, NaN as null */
+function stringify(v: Json, indent?: number): string {
+  return JSON.stringify(v, (_, x) => {
+    if (typeof x !== "number" || Number.isFinite(x)) return x;
+    return Number.isNaN(x) ? null : Math.sign(x) * Number.MAX_VALUE;
+  }, indent);
+}
+
+const isObject = (v: Json): v is JsonObject =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+function typeName(v: Json): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  return typeof v;
+}
+
+/** Short description of a value for error messages, like jq's */
+function describe(v: Json): string {
+  const text = JSON.stringify(v) ?? "null";
+  return `${typeName(v)} (${text.length > 11 ? text.slice(0, 10) + "..." : text})`;
+}
+
+const getKey = (object: JsonObject, key: string): Json =>
+  Object.hasOwn(object, key) ? object[key] : null;
+
+const ORDER: Record<string, number> = {
+  null: 0,
+  false: 1,
+  true: 2,
+  number: 3,
+  string: 4,
+  array: 5,
+  object: 6,
+};
+
+const rank = (v: Json) => ORDER[typeof v === "boolean" ? String(v) : typeName(v)];
+const sortedKeys = (o: JsonObject) => Object.keys(o).sort(compareStrings);
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** jq ordering: null < false < true < numbers < strings < arrays < objects */
+function compare(a: Json, b: Json): number {
+  const diff = rank(a) - rank(b);
+  if (diff !== 0) return Math.sign(diff);
+  if (typeof a === "number") return Math.sign(a - (b as number));
+  if (typeof a === "string") return compareStrings(a, b as string);
+  if (Array.isArray(a)) {
+    const other = b as Json[];
+    for (let i = 0; i < Math.min(a.length, other.length); i++) {
+      const c = compare(a[i], other[i]);
+      if (c !== 0) return c;
+    }
+    return Math.sign(a.length - other.length);
+  }
+  if (isObject(a)) {
+    const other = b as JsonObject;
+    const keys = compare(sortedKeys(a), sortedKeys(other));
+    if (keys !== 0) return keys;
+    for (const key of sortedKeys(a)) {
+      const c = compare(a[key], other[key]);
+      if (c !== 0) return c;
+    }
+  }
+  return 0;
+}
+
+const truthy = (v: Json) => v !== null && v !== false;
+
+function add(a: Json, b: Json): Json {
+  if (a === null) return b;
+  if (b === null) return a;
+  if (typeof a === "number" && typeof b === "number") return a + b;
+  if (typeof a === "string" && typeof b === "string") {
+    checkLength(a.length + b.length);
+    return a + b;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) return [...a, ...b];
+  if (isObject(a) && isObject(b)) return { ...a, ...b };
+  throw new JqError(`${describe(a)} and ${describe(b)} cannot be added`);
+}
+
+function deepMerge(a: JsonObject, b: JsonObject): JsonObject {
+  return Object.fromEntries([
+    ...Object.entries(a),
+    ...Object.entries(b).map(([key, value]) => {
+      const current = getKey(a, key);
+      return [key, isObject(current) && isObject(value) ? deepMerge(current, value) : value];
+    }),
+  ]);
+}
+
+function arithmetic(op: string, a: Json, b: Json): Json {
+  switch (op) {
+    case "+":
+      return add(a, b);
+    case "-":
+      if (typeof a === "number" && typeof b === "number") return a - b;
+      if (Array.isArray(a) && Array.isArray(b)) {
+        return a.filter((x) => !b.some((y) => compare(x, y) === 0));
+      }
+      throw new JqError(`${describe(a)} and ${describe(b)} cannot be subtracted`);
+    case "*":
+      if (typeof a === "number" && typeof b === "number") return a * b;
+      if (typeof a === "string" && typeof b === "number") {
+        const times = Math.trunc(b);
+        if (times <= 0) return null;
+        checkLength(a.length * times);
+        return a.repeat(times);
+      }
+      if (typeof b === "string" && typeof a === "number") return arithmetic("*", b, a);
+      if (isObject(a) && isObject(b)) return deepMerge(a, b);
+      throw new JqError(`${describe(a)} and ${describe(b)} cannot be multiplied`);
+    case "/":
+      if (typeof a === "number" && typeof b === "number") {
+        if (b === 0) {
+          throw new JqError(
+            `${describe(a)} and ${describe(b)} cannot be divided because the divisor is zero`,
+          );
+        }
+        return a / b;
+      }
+      if (typeof a === "string" && typeof b === "string") return splitString(a, b);
+      throw new JqError(`${describe(a)} and ${describe(b)} cannot be divided`);
+    default: {
+      if (typeof a !== "number" || typeof b !== "number") {
+        throw new JqError(`${describe(a)} and ${describe(b)} cannot be divided`);
+      }
+      if (Math.trunc(b) === 0) {
+        throw new JqError(
+          `${describe(a)} and ${describe(b)} cannot be divided because the divisor is zero`,
+        );
+      }
+      return Math.trunc(a) % Math.trunc(b);
+    }
+  }
+}
+
+function splitString(text: string, separator: string): Json[] {
+  if (text === "") return [];
+  return separator === "" ? [...text] : text.split(separator);
+}
+
+// ============================================================================
+// Indexing and paths
+// ============================================================================
+
+/** Clamp slice bounds like jq */
+function sliceBounds(length: number, start: Json, end: Json): [number, number] {
+  const bound = (v: Json, fallback: number) => {
+    if (v === null) return fallback;
+    if (typeof v !== "number") {
+      throw new JqError("Start and end indices of an array slice must be numbers");
+    }
+    const n = v < 0 ? length + v : v;
+    return Math.min(length, Math.max(0, Math.floor(n)));
+  };
+  const from = bound(start, 0);
+  return [from, Math.max(from, bound(end, length))];
+}
+
+function index(value: Json, key: PathKey): Json {
+  if (typeof key === "object") {
+    if (value === null) return null;
+    if (typeof value === "string") {
+      const chars = [...value];
+      const [from, to] = sliceBounds(chars.length, key.start, key.end);
+      return chars.slice(from, to).join("");
+    }
+    if (!Array.isArray(value)) throw new JqError(`Cannot index ${typeName(value)} with object`);
+    const [from, to] = sliceBounds(value.length, key.start, key.end);
+    return value.slice(from, to);
+  }
+  if (value === null) return null;
+  if (typeof key === "string") {
+    if (!isObject(value)) throw new JqError(`Cannot index ${typeName(value)} with "${key}"`);
+    return getKey(value, key);
+  }
+  if (!Array.isArray(value)) throw new JqError(`Cannot index ${typeName(value)} with number`);
+  const i = Math.floor(key < 0 ? value.length + key : key);
+  return i >= 0 && i < value.length ? value[i] : null;
+}
+
+/** Turn the value of `.[e]` into a path key */
+function toPathKey(container: Json, key: Json): PathKey {
+  if (typeof key === "string" || typeof key === "number") return key;
+  if (isObject(key) && ("start" in key || "end" in key)) {
+    return { start: getKey(key, "start"), end: getKey(key, "end") };
+  }
+  if (key === null && isObject(container)) throw new JqError(`Cannot index object with null`);
+  throw new JqError(`Cannot index ${typeName(container)} with ${typeName(key)}`);
+}
+
+function getPath(value: Json, path: Path): Json {
+  let current = value;
+  for (const key of path) {
+    if (current === null) return null;
+    current = index(current, key);
+  }
+  return current;
+}
+
+function setPath(value: Json, path: Path, replacement: Json, i = 0): Json {
+  if (i === path.length) return replacement;
+  const key = path[i];
+  if (typeof key === "string") {
+    if (value !== null && !isObject(value)) {
+      throw new JqError(`Cannot index ${typeName(value)} with "${key}"`);
+    }
+    const object = value ?? {};
+    return { ...object, [key]: setPath(getKey(object, key), path, replacement, i + 1) };
+  }
+  if (value !== null && !Array.isArray(value)) {
+    throw new JqError(`Cannot update field at object index of ${typeName(value)}`);
+  }
+  const array = [...(value ?? [])];
+  if (typeof key === "number") {
+    const at = Math.floor(key < 0 ? array.length + key : key);
+    if (at < 0) throw new JqError("Out of bounds negative array index");
+    while (array.length < at) array.push(null);
+    array[at] = setPath(array[at] ?? null, path, replacement, i + 1);
+    return array;
+  }
+  const [from, to] = sliceBounds(array.length, key.start, key.end);
+  const slice = setPath(array.slice(from, to), path, replacement, i + 1);
+  if (!Array.isArray(slice)) {
+    throw new JqError("A slice of an array can only be assigned another array");
+  }
+  return [...array.slice(0, from), ...slice, ...array.slice(to)];
+}
+
+function deletePath(value: Json, path: Path): Json {
+  if (value === null || path.length === 0) return path.length === 0 ? null : value;
+  const [key, ...rest] = path;
+  if (rest.length > 0) {
+    const child = index(value, key);
+    return child === null ? value : setPath(value, [key], deletePath(child, rest));
+  }
+  if (typeof key === "string") {
+    if (!isObject(value)) {
+      throw new JqError(`Cannot delete field at object index of ${typeName(value)}`);
+    }
+    return Object.fromEntries(Object.entries(value).filter(([k]) => k !== key));
+  }
+  if (!Array.isArray(value)) {
+    throw new JqError(`Cannot delete field at index of ${typeName(value)}`);
+  }
+  if (typeof key === "number") {
+    const at = Math.floor(key < 0 ? value.length + key : key);
+    return value.filter((_, i) => i !== at);
+  }
+  const [from, to] = sliceBounds(value.length, key.start, key.end);
+  return [...value.slice(0, from), ...value.slice(to)];
+}
+
+function deletePaths(value: Json, paths: Path[]): Json {
+  // Longest and last paths first, so earlier deletions do not shift later ones
+  const sorted = [...paths].sort((a, b) => compare(b as Json, a as Json));
+  return sorted.reduce((current, path) => deletePath(current, path), value);
+}
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+type Node =
+  | { k: "identity" }
+  | { k: "recurse" }
+  | { k: "literal"; value: Json }
+  | { k: "string"; parts: Array<string | Node>; format?: string }
+  | { k: "format"; name: string }
+  | { k: "index"; target: Node; key: Node }
+  | { k: "slice"; target: Node; from?: Node; to?: Node }
+  | { k: "iterate"; target: Node }
+  | { k: "try"; body: Node; handler?: Node }
+  | { k: "array"; body?: Node }
+  | { k: "object"; entries: Array<{ key: Node; value: Node }> }
+  | { k: "pipe"; left: Node; right: Node }
+  | { k: "comma"; left: Node; right: Node }
+  | { k: "neg"; body: Node }
+  | { k: "binary"; op: string; left: Node; right: Node }
+  | { k: "and" | "or" | "alt"; left: Node; right: Node }
+  | { k: "assign"; op: string; left: Node; right: Node }
+  | { k: "if"; cond: Node; then: Node; else?: Node }
+  | { k: "reduce"; source: Node; name: string; init: Node; update: Node }
+  | { k: "foreach"; source: Node; name: string; init: Node; update: Node; extract?: Node }
+  | { k: "as"; source: Node; name: string; body: Node }
+  | { k: "var"; name: string }
+  | { k: "call"; name: string; args: Node[] }
+  | { k: "def"; name: string; params: string[]; body: Node; rest: Node };
+
+type Token =
+  | { t: "num"; v: number }
+  | { t: "str"; parts: Array<string | { source: string }> }
+  | { t: "field" | "var" | "format" | "ident" | "keyword" | "op"; v: string }
+  | { t: "eof" };
+
+const KEYWORDS = new Set([
+  "def",
+  "if",
+  "then",
+  "elif",
+  "else",
+  "end",
+  "as",
+  "reduce",
+  "foreach",
+  "try",
+  "catch",
+  "label",
+  "import",
+  "include",
+  "and",
+  "or",
+]);
+
+const OPERATORS = ["//=", "|=", "+=", "-=", "*=", "/=", "%=", "==", "!=", "<=", ">=", "//", ".."];
+
+/** Index just past the ")" that closes an interpolation starting at `start` */
+function interpolationEnd(source: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < source.length; i++) {
+    const c = source[i];
+    if (c === '"') {
+      // Skip a nested string, including its own interpolations
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === "\\") {
+          if (source[i + 1] === "(") {
+            i = interpolationEnd(source, i + 2) - 1;
+          } else i++;
+        }
+        i++;
+      }
+    } else if (c === "(") depth++;
+    else if (c === ")" && --depth === 0) return i + 1;
+  }
+  throw fail("syntax error: unterminated string interpolation");
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    const rest = source.slice(i);
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "#") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (/[0-9]/.test(c) || (c === "." && /[0-9]/.test(source[i + 1] ?? ""))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(rest)!;
+      tokens.push({ t: "num", v: Number(match[0]) });
+      i += match[0].length;
+    } else if (c === '"') {
+      const parts: Array<string | { source: string }> = [];
+      let text = "";
+      i++;
+      for (;;) {
+        if (i >= source.length) throw fail("syntax error: unterminated string");
+        const ch = source[i];
+        if (ch === '"') break;
+        if (ch !== "\\") {
+          text += ch;
+          i++;
+          continue;
+        }
+        const e = source[i + 1];
+        if (e === "(") {
+          const end = interpolationEnd(source, i + 2);
+          if (text) parts.push(text);
+          text = "";
+          parts.push({ source: source.slice(i + 2, end - 1) });
+          i = end;
+          continue;
+        }
+        if (e === "u") {
+          const hex = source.slice(i + 2, i + 6);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) throw fail("syntax error: invalid \\u escape");
+          text += String.fromCharCode(parseInt(hex, 16));
+          i += 6;
+          continue;
+        }
+        const escapes: Record<string, string> = {
+          '"': '"',
+          "\\": "\\",
+          "/": "/",
+          b: "\b",
+          f: "\f",
+          n: "\n",
+          r: "\r",
+          t: "\t",
+        };
+        if (!(e in escapes)) throw fail(`syntax error: invalid escape \\${e}`);
+        text += escapes[e];
+        i += 2;
+      }
+      if (text || parts.length === 0) parts.push(text);
+      tokens.push({ t: "str", parts });
+      i++;
+    } else if (c === "." && /[A-Za-z_]/.test(source[i + 1] ?? "")) {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i + 1))![0];
+      tokens.push({ t: "field", v: name });
+      i += name.length + 1;
+    } else if ((c === "$" || c === "@") && /[A-Za-z_]/.test(source[i + 1] ?? "")) {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i + 1))![0];
+      tokens.push({ t: c === "$" ? "var" : "format", v: name });
+      i += name.length + 1;
+    } else if (/[A-Za-z_]/.test(c)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*(::[A-Za-z_][A-Za-z0-9_]*)*/.exec(rest)![0];
+      tokens.push({ t: KEYWORDS.has(name) ? "keyword" : "ident", v: name });
+      i += name.length;
+    } else {
+      const op = OPERATORS.find((o) => rest.startsWith(o)) ??
+        (".[]{}()|,:;=<>+-*/%?".includes(c) ? c : undefined);
+      if (!op) throw fail(`syntax error: unexpected character '${c}'`);
+      tokens.push({ t: "op", v: op });
+      i += op.length;
+    }
+  }
+  tokens.push({ t: "eof" });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const ASSIGN_OPS = ["=", "|=", "+=", "-=", "*=", "/=", "%=", "//="];
+
+class Parser {
+  private pos = 0;
+  private tokens: Token[];
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parseProgram(): Node {
+    const node = this.pipe();
+    if (this.token.t !== "eof") throw this.unexpected();
+    return node;
+  }
+
+  private get token(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private is(v: string, t = "op", ahead = 0): boolean {
+    const token = this.tokens[this.pos + ahead];
+    return token.t === t && (token as { v: string }).v === v;
+  }
+
+  private accept(v: string, t = "op"): boolean {
+    if (!this.is(v, t)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(v: string, t = "op"): void {
+    if (!this.accept(v, t)) throw this.unexpected(`expected '${v}'`);
+  }
+
+  private unexpected(detail = ""): ToolError {
+    const token = this.token;
+    const text = token.t === "eof"
+      ? "end of filter"
+      : token.t === "num"
+      ? String(token.v)
+      : token.t === "str"
+      ? "string"
+      : token.v;
+    return fail(`syntax error: unexpected ${text}${detail ? ` (${detail})` : ""}`);
+  }
+
+  private variable(): string {
+    const token = this.token;
+    if (token.t !== "var") throw this.unexpected("expected $name");
+    this.pos++;
+    return token.v;
+  }
+
+  pipe(): Node {
+    if (this.accept("def", "keyword")) {
+      const token = this.token;
+      if (token.t !== "ident" && token.t !== "keyword") throw this.unexpected("expected a name");
+      this.pos++;
+      const params: string[] = [];
+      if (this.accept("(")) {
+        do {
+          const param = this.token;
+          if (param.t !== "ident" && param.t !== "var") {
+            throw this.unexpected("expected a parameter");
+          }
+          this.pos++;
+          params.push((param.t === "var" ? "$" : "") + param.v);
+        } while (this.accept(";"));
+        this.expect(")");
+      }
+      this.expect(":");
+      let body = this.pipe();
+      this.expect(";");
+      // def f($a): body  is  def f(a): a as $a | body
+      const names = params.map((p) => p.replace(/^\$/, ""));
+      for (const param of [...params].reverse()) {
+        if (param.startsWith("$")) {
+          const name = param.slice(1);
+          body = { k: "as", source: { k: "call", name, args: [] }, name, body };
+        }
+      }
+      return { k: "def", name: (token as { v: string }).v, params: names, body, rest: this.pipe() };
+    }
+    if (this.is("label", "keyword")) throw fail("label/break is not supported (use binary: true)");
+
+    const left = this.comma();
+    if (this.accept("|")) return { k: "pipe", left, right: this.pipe() };
+    return left;
+  }
+
+  private comma(): Node {
+    let left = this.alternative();
+    while (this.accept(",")) left = { k: "comma", left, right: this.alternative() };
+    return left;
+  }
+
+  private alternative(): Node {
+    const left = this.assignment();
+    if (this.accept("//")) return { k: "alt", left, right: this.alternative() };
+    return left;
+  }
+
+  private assignment(): Node {
+    const left = this.or();
+    const token = this.token;
+    if (token.t === "op" && ASSIGN_OPS.includes(token.v)) {
+      this.pos++;
+      return { k: "assign", op: token.v, left, right: this.or() };
+    }
+    return left;
+  }
+
+  private or(): Node {
+    let left = this.and();
+    while (this.accept("or", "keyword")) left = { k: "or", left, right: this.and() };
+    return left;
+  }
+
+  private and(): Node {
+    let left = this.comparison();
+    while (this.accept("and", "keyword")) left = { k: "and", left, right: this.comparison() };
+    return left;
+  }
+
+  private comparison(): Node {
+    const left = this.additive();
+    const token = this.token;
+    if (token.t === "op" && ["==", "!=", "<", "<=", ">", ">="].includes(token.v)) {
+      this.pos++;
+      return { k: "binary", op: token.v, left, right: this.additive() };
+    }
+    return left;
+  }
+
+  private additive(): Node {
+    let left = this.multiplicative();
+    for (;;) {
+      const token = this.token;
+      if (token.t !== "op" || (token.v !== "+" && token.v !== "-")) return left;
+      this.pos++;
+      left = { k: "binary", op: token.v, left, right: this.multiplicative() };
+    }
+  }
+
+  private multiplicative(): Node {
+    let left = this.unary();
+    for (;;) {
+      const token = this.token;
+      if (token.t !== "op" || !["*", "/", "%"].includes(token.v)) return left;
+      this.pos++;
+      left = { k: "binary", op: token.v, left, right: this.unary() };
+    }
+  }
+
+  private unary(): Node {
+    if (this.accept("-")) return { k: "neg", body: this.unary() };
+    const source = this.postfix();
+    // "Term as $x | body" binds $x for the rest of the pipe
+    if (!this.accept("as", "keyword")) return source;
+    if (this.is("[") || this.is("{")) {
+      throw fail("destructuring patterns are not supported (use binary: true)");
+    }
+    const name = this.variable();
+    this.expect("|");
+    return { k: "as", source, name, body: this.pipe() };
+  }
+
+  private postfix(): Node {
+    let node = this.primary();
+    for (;;) {
+      const token = this.token;
+      if (token.t === "field") {
+        this.pos++;
+        node = { k: "index", target: node, key: { k: "literal", value: token.v } };
+      } else if (this.is(".") && this.tokens[this.pos + 1].t === "str") {
+        this.pos++;
+        node = { k: "index", target: node, key: this.primary() };
+      } else if (this.is("[") || (this.is(".") && this.is("[", "op", 1))) {
+        this.accept(".");
+        node = this.bracket(node);
+      } else if (this.accept("?")) {
+        node = { k: "try", body: node };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  /** `[]`, `[e]` or `[a:b]` after `target` */
+  private bracket(target: Node): Node {
+    this.expect("[");
+    if (this.accept("]")) return { k: "iterate", target };
+    if (this.accept(":")) {
+      const to = this.pipe();
+      this.expect("]");
+      return { k: "slice", target, to };
+    }
+    const key = this.pipe();
+    if (this.accept(":")) {
+      const to = this.is("]") ? undefined : this.pipe();
+      this.expect("]");
+      return { k: "slice", target, from: key, to };
+    }
+    this.expect("]");
+    return { k: "index", target, key };
+  }
+
+  private string(token: Extract<Token, { t: "str" }>, format?: string): Node {
+    const parts = token.parts.map((part) =>
+      typeof part === "string" ? part : new Parser(part.source).parseProgram()
+    );
+    if (parts.length === 1 && typeof parts[0] === "string" && !format) {
+      return { k: "literal", value: parts[0] };
+    }
+    return { k: "string", parts, format };
+  }
+
+  private primary(): Node {
+    const token = this.token;
+    this.pos++;
+    switch (token.t) {
+      case "num":
+        return { k: "literal", value: token.v };
+      case "str":
+        return this.string(token);
+      case "format": {
+        const next = this.token;
+        if (next.t === "str") {
+          this.pos++;
+          return this.string(next, token.v);
+        }
+        return { k: "format", name: token.v };
+      }
+      case "field":
+        return { k: "index", target: { k: "identity" }, key: { k: "literal", value: token.v } };
+      case "var":
+        if (token.v === "__loc__" || token.v === "ENV") {
+          throw fail(`$${token.v} is not supported (use binary: true)`);
+        }
+        return { k: "var", name: token.v };
+      case "ident": {
+        const constants: Record<string, Json> = { true: true, false: false, null: null };
+        if (token.v in constants) return { k: "literal", value: constants[token.v] };
+        const args: Node[] = [];
+        if (this.accept("(")) {
+          do args.push(this.pipe()); while (this.accept(";"));
+          this.expect(")");
+        }
+        return { k: "call", name: token.v, args };
+      }
+      case "keyword":
+        return this.keyword(token.v);
+      case "op":
+        switch (token.v) {
+          case ".":
+            if (this.token.t === "str") {
+              const key = this.primary();
+              return { k: "index", target: { k: "identity" }, key };
+            }
+            if (this.is("[")) return this.bracket({ k: "identity" });
+            return { k: "identity" };
+          case "..":
+            return { k: "recurse" };
+          case "(": {
+            const body = this.pipe();
+            this.expect(")");
+            return body;
+          }
+          case "[": {
+            if (this.accept("]")) return { k: "array" };
+            const body = this.pipe();
+            this.expect("]");
+            return { k: "array", body };
+          }
+          case "{":
+            return this.object();
+        }
+    }
+    this.pos--;
+    throw this.unexpected();
+  }
+
+  private keyword(name: string): Node {
+    switch (name) {
+      case "if": {
+        const cond = this.pipe();
+        this.expect("then", "keyword");
+        const then = this.pipe();
+        if (this.accept("elif", "keyword")) {
+          return { k: "if", cond, then, else: this.keyword("if") };
+        }
+        const otherwise = this.accept("else", "keyword") ? this.pipe() : undefined;
+        this.expect("end", "keyword");
+        return { k: "if", cond, then, else: otherwise };
+      }
+      case "try": {
+        const body = this.postfix();
+        const handler = this.accept("catch", "keyword") ? this.postfix() : undefined;
+        return { k: "try", body, handler };
+      }
+      case "reduce":
+      case "foreach": {
+        const source = this.postfix();
+        this.expect("as", "keyword");
+        const variable = this.variable();
+        this.expect("(");
+        const init = this.pipe();
+        this.expect(";");
+        const update = this.pipe();
+        let extract: Node | undefined;
+        if (name === "foreach" && this.accept(";")) extract = this.pipe();
+        this.expect(")");
+        return name === "reduce"
+          ? { k: "reduce", source, name: variable, init, update }
+          : { k: "foreach", source, name: variable, init, update, extract };
+      }
+      case "def":
+        this.pos--;
+        return this.pipe();
+    }
+    this.pos--;
+    throw name === "import" || name === "include" || name === "label"
+      ? fail(`${name} is not supported (use binary: true)`)
+      : this.unexpected();
+  }
+
+  private object(): Node {
+    const entries: Array<{ key: Node; value: Node }> = [];
+    if (this.accept("}")) return { k: "object", entries };
+    do {
+      const token = this.token;
+      let key: Node;
+      let value: Node | undefined;
+      this.pos++;
+      if (token.t === "var") {
+        key = { k: "literal", value: token.v };
+        value = { k: "var", name: token.v };
+      } else if (token.t === "ident" || token.t === "keyword") {
+        key = { k: "literal", value: token.v };
+      } else if (token.t === "str") {
+        key = this.string(token);
+      } else if (token.t === "format") {
+        const next = this.token;
+        if (next.t !== "str") throw this.unexpected();
+        this.pos++;
+        key = this.string(next, token.v);
+      } else if (token.t === "num") {
+        throw fail("syntax error: object keys must be strings");
+      } else if (token.t === "op" && token.v === "(") {
+        key = this.pipe();
+        this.expect(")");
+      } else {
+        this.pos--;
+        throw this.unexpected();
+      }
+      if (this.accept(":")) {
+        value = this.objectValue();
+      } else if (!value) {
+        // {a} is {a: .a}
+        value = { k: "index", target: { k: "identity" }, key };
+      }
+      entries.push({ key, value });
+    } while (this.accept(","));
+    this.expect("}");
+    return { k: "object", entries };
+  }
+
+  /** Object values may use pipes but not commas */
+  private objectValue(): Node {
+    let value = this.alternative();
+    while (this.accept("|")) value = { k: "pipe", left: value, right: this.alternative() };
+    return value;
+  }
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+interface Closure {
+  node: Node;
+  env: Env;
+}
+
+interface FunctionDef {
+  params: string[];
+  body: Node;
+  env: Env;
+}
+
+/** Lexical scope: variables and functions (by name/arity) */
+class Env {
+  constructor(
+    readonly parent: Env | null,
+    private vars = new Map<string, Json>(),
+    private funcs = new Map<string, FunctionDef | Closure>(),
+  ) {}
+
+  withVar(name: string, value: Json): Env {
+    return new Env(this, new Map([[name, value]]));
+  }
+
+  withFunctions(funcs: Map<string, FunctionDef | Closure>): Env {
+    return new Env(this, new Map(), funcs);
+  }
+
+  variable(name: string): Json {
+    if (this.vars.has(name)) return this.vars.get(name)!;
+    if (!this.parent) throw fail(`$${name} is not defined`);
+    return this.parent.variable(name);
+  }
+
+  function(key: string): FunctionDef | Closure | undefined {
+    return this.funcs.get(key) ?? this.parent?.function(key);
+  }
+}
+
+/** Builtins written in jq itself */
+const PRELUDE = `
+def map(f): [.[] | f];
+def select(f): if f then . else empty end;
+def recurse(f): def r: ., (f | r); r;
+def recurse(f; cond): def r: ., (f | select(cond) | r); r;
+def recurse: recurse(.[]?);
+def values: select(. != null);
+def nulls: select(. == null);
+def booleans: select(type == "boolean");
+def numbers: select(type == "number");
+def strings: select(type == "string");
+def arrays: select(type == "array");
+def objects: select(type == "object");
+def iterables: select(type == "array" or type == "object");
+def scalars: select(type != "array" and type != "object");
+def with_entries(f): to_entries | map(f) | from_entries;
+def map_values(f): .[] |= f;
+def add(f): reduce f as $x (null; . + $x);
+def any: reduce .[] as $x (false; . or $x);
+def all: reduce .[] as $x (true; . and $x);
+def any(f): reduce (.[] | f) as $x (false; . or $x);
+def all(f): reduce (.[] | f) as $x (true; . and $x);
+def isempty(g): first((g | false), true);
+def any(g; cond): isempty(first(g | cond or empty)) | not;
+def all(g; cond): isempty(first(g | cond and empty));
+def in(xs): . as $x | xs | has($x);
+def inside(xs): . as $x | xs | contains($x);
+def del(f): delpaths([path(f)]);
+def paths: path(..) | select(length > 0);
+def paths(node_filter): . as $dot | paths | select(. as $p | $dot | getpath($p) | node_filter);
+def leaf_paths: paths(scalars);
+def pick(pathexps): . as $top | reduce path(pathexps) as $p (null; setpath($p; $top | getpath($p)));
+def to_entries: [keys_unsorted[] as $k | {key: $k, value: .[$k]}];
+def walk(f): def w: if type == "object" then map_values(w) elif type == "array" then map(w) else . end | f; w;
+def first: .[0];
+def last: .[-1];
+def nth($n): .[$n];
+def nth($n; f): if $n < 0 then error("Out of bounds negative array index") else last(limit($n + 1; f)) end;
+def last(f): reduce f as $x (null; $x);
+def until(cond; update): def _until: if cond then . else (update | _until) end; _until;
+def while(cond; update): def _while: if cond then ., (update | _while) else empty end; _while;
+def repeat(f): def _repeat: ., (f | _repeat); _repeat;
+def range($x): range(0; $x);
+def index($i): indices($i) | .[0];
+def rindex($i): indices($i) | .[-1:][0];
+def transpose: [range(0; map(length) | max // 0) as $i | [.[][$i]]];
+def combinations: if length == 0 then [] else .[0][] as $x | (.[1:] | combinations) as $w | [$x] + $w end;
+def combinations(n): . as $dot | [range(n)] | map($dot) | combinations;
+def splits($re): splits($re; null);
+def splits($re; flags): split($re; flags) | .[];
+def finites: select(isinfinite or isnan | not);
+def normals: select(isnormal);
+def debug: .;
+def stderr: .;
+def input_filename: null;
+`;
+
+/** Upper bound on evaluation steps */
+const MAX_STEPS = 10_000_000;
+
+let preludeEnv: Env | undefined;
+
+/** Environment holding the PRELUDE definitions, which can all see each other (parsed once) */
+function prelude(): Env {
+  if (!preludeEnv) {
+    const funcs = new Map<string, FunctionDef>();
+    const env = new Env(null).withFunctions(funcs);
+    for (let node = new Parser(PRELUDE + ".").parseProgram(); node.k === "def"; node = node.rest) {
+      funcs.set(`${node.name}/${node.params.length}`, {
+        params: node.params,
+        body: node.body,
+        env,
+      });
+    }
+    preludeEnv = env;
+  }
+  return preludeEnv;
+}
+
+const FORMATS: Record<string, (v: Json) => string> = {
+  text: (v) => toText(v),
+  json: (v) => stringify(v),
+  html: (v) =>
+    toText(v).replace(
+      /[<>&'"]/g,
+      (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "'": "&#39;", '"': "&quot;" })[c]!,
+    ),
+  uri: (v) =>
+    [...new TextEncoder().encode(toText(v))].map((byte) => {
+      const c = String.fromCharCode(byte);
+      return /[A-Za-z0-9\-_.~]/.test(c)
+        ? c
+        : "%" + byte.toString(16).toUpperCase().padStart(2, "0");
+    }).join(""),
+  csv: (v) => {
+    if (!Array.isArray(v)) {
+      throw new JqError(`${describe(v)} cannot be csv-formatted, only an array can be`);
+    }
+    return v.map((x) => {
+      if (typeof x === "string") return `"${x.replace(/"/g, '""')}"`;
+      if (typeof x === "number" || typeof x === "boolean") return String(x);
+      if (x === null) return "";
+      throw new JqError(`${describe(x)} is not valid in a csv row`);
+    }).join(",");
+  },
+  tsv: (v) => {
+    if (!Array.isArray(v)) {
+      throw new JqError(`${describe(v)} cannot be tsv-formatted, only an array can be`);
+    }
+    return v.map((x) => {
+      if (typeof x === "string") {
+        return x.replace(
+          /[\\\t\n\r]/g,
+          (c) => ({ "\\": "\\\\", "\t": "\\t", "\n": "\\n", "\r": "\\r" })[c]!,
+        );
+      }
+      if (typeof x === "number" || typeof x === "boolean") return String(x);
+      if (x === null) return "";
+      throw new JqError(`${describe(x)} is not valid in a tsv row`);
+    }).join("\t");
+  },
+  sh: (v) => {
+    const quote = (x: Json) => {
+      if (typeof x === "string") return `'${x.replace(/'/g, "'\\''")}'`;
+      if (isObject(x) || Array.isArray(x)) {
+        throw new JqError(`${describe(x)} can not be escaped for shell`);
+      }
+      return String(x);
+    };
+    return Array.isArray(v) ? v.map(quote).join(" ") : quote(v);
+  },
+  base64: (v) => {
+    let binary = "";
+    for (const byte of new TextEncoder().encode(toText(v))) binary += String.fromCharCode(byte);
+    return btoa(binary);
+  },
+  base64d: (v) => {
+    const text = toText(v);
+    let binary: string;
+    try {
+      binary = atob(text.replace(/=+$/, ""));
+    } catch {
+      throw new JqError(`${describe(v)} is not valid base64 data`);
+    }
+    return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+  },
+};
+
+/** tostring: strings as they are, anything else as JSON */
+function toText(v: Json): string {
+  return typeof v === "string" ? v : stringify(v);
+}
+
+function length(v: Json): number {
+  if (v === null) return 0;
+  if (typeof v === "boolean") throw new JqError(`${describe(v)} has no length`);
+  if (typeof v === "number") return Math.abs(v);
+  if (typeof v === "string") return [...v].length;
+  return Array.isArray(v) ? v.length : Object.keys(v).length;
+}
+
+function keys(v: Json, sorted: boolean): Json[] {
+  if (Array.isArray(v)) return v.map((_, i) => i);
+  if (!isObject(v)) throw new JqError(`${describe(v)} has no keys`);
+  return sorted ? sortedKeys(v) : Object.keys(v);
+}
+
+function contains(a: Json, b: Json): boolean {
+  if (typeName(a) !== typeName(b)) {
+    throw new JqError(`${describe(a)} and ${describe(b)} cannot have their containment checked`);
+  }
+  if (typeof a === "string") return a.includes(b as string);
+  if (Array.isArray(a)) {
+    return (b as Json[]).every((y) => a.some((x) => typeName(x) === typeName(y) && contains(x, y)));
+  }
+  if (isObject(a)) {
+    return Object.entries(b as JsonObject).every(([key, value]) =>
+      Object.hasOwn(a, key) && typeName(a[key]) === typeName(value) && contains(a[key], value)
+    );
+  }
+  return compare(a, b) === 0;
+}
+
+function flatten(v: Json, depth: number): Json[] {
+  if (!Array.isArray(v)) throw new JqError(`Cannot iterate over ${describe(v)}`);
+  if (depth < 0) throw new JqError("flatten depth must not be negative");
+  return v.flatMap((x) => (Array.isArray(x) && depth > 0 ? flatten(x, depth - 1) : [x]));
+}
+
+function indices(v: Json, i: Json): Json {
+  if (v === null) return null;
+  const out: number[] = [];
+  if (typeof v === "string" && typeof i === "string") {
+    if (i === "") return null;
+    for (let at = v.indexOf(i); at !== -1; at = v.indexOf(i, at + 1)) out.push(at);
+    return out;
+  }
+  if (!Array.isArray(v)) throw new JqError(`Cannot determine indices in ${describe(v)}`);
+  const needle = Array.isArray(i) ? i : [i];
+  if (needle.length === 0) return null;
+  for (let at = 0; at + needle.length <= v.length; at++) {
+    if (needle.every((x, j) => compare(v[at + j], x) === 0)) out.push(at);
+  }
+  return out;
+}
+
+function fromEntries(v: Json): Json {
+  if (!Array.isArray(v)) throw new JqError(`Cannot iterate over ${describe(v)}`);
+  return Object.fromEntries(v.map((entry) => {
+    if (!isObject(entry)) throw new JqError(`Cannot index ${typeName(entry)} with "key"`);
+    const key = ["key", "k", "name", "Name", "K", "Key"].map((k) => getKey(entry, k))
+      .find((k) => k !== null && k !== false) ?? null;
+    const value = ["value", "v", "Value"].map((k) => getKey(entry, k)).find((x) => x !== null) ??
+      null;
+    if (
+      typeof key !== "string" && typeof key !== "number" && typeof key !== "boolean" && key !== null
+    ) {
+      throw new JqError(`Cannot use ${describe(key)} as object key`);
+    }
+    return [String(key), value];
+  }));
+}
+
+/** A jq regex (Oniguruma syntax is close enough to JavaScript's for common patterns) */
+function regex(re: Json, flags: Json): { regex: RegExp; global: boolean; skipEmpty: boolean } {
+  if (typeof re !== "string") {
+    throw new JqError(`${describe(re)} cannot be matched, as it is not a string`);
+  }
+  const flagText = flags === null ? "" : flags;
+  if (typeof flagText !== "string") throw new JqError(`${describe(flags)} is not a string`);
+  if (flagText.includes("x")) throw fail("the x regex flag is not supported (use binary: true)");
+  if (/[^gilnps]/.test(flagText)) throw new JqError(`${flagText} is not a valid modifier string`);
+  // JavaScript anchors already behave like Oniguruma's single line mode (s)
+  const js = "du" + (flagText.includes("i") ? "i" : "") + (flagText.includes("p") ? "s" : "");
+  try {
+    return {
+      regex: new RegExp(re, js + "g"),
+      global: flagText.includes("g"),
+      skipEmpty: flagText.includes("n"),
+    };
+  } catch (e) {
+    throw new JqError(`${re} (at offset 0) is not a valid regex: ${(e as Error).message}`);
+  }
+}
+
+/** Name of each capture group (null when unnamed), numbered by opening parenthesis */
+function captureNames(source: string): Array<string | null> {
+  const names: Array<string | null> = [];
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (c === "\\") {
+      i++;
+    } else if (c === "[") {
+      // Skip a character class, where parentheses are literal
+      for (i++; i < source.length && source[i] !== "]"; i++) if (source[i] === "\\") i++;
+    } else if (c === "(") {
+      const named = /^\(\?<([A-Za-z_][A-Za-z0-9_]*)>/.exec(source.slice(i));
+      if (named) names.push(named[1]);
+      else if (source[i + 1] !== "?") names.push(null);
+    }
+  }
+  return names;
+}
+
+/** match objects for a string, like jq's match() */
+function matches(input: Json, re: Json, flags: Json, forceGlobal = false): JsonObject[] {
+  if (typeof input !== "string") {
+    throw new JqError(`${describe(input)} cannot be matched, as it is not a string`);
+  }
+  const { regex: compiled, global, skipEmpty } = regex(re, flags);
+  const groupNames = captureNames(compiled.source);
+  const out: JsonObject[] = [];
+  for (let m = compiled.exec(input); m; m = compiled.exec(input)) {
+    if (m[0] === "") compiled.lastIndex++;
+    if (!(skipEmpty && m[0] === "")) {
+      out.push({
+        offset: m.index,
+        length: m[0].length,
+        string: m[0],
+        captures: m.slice(1).map((text, i) => ({
+          offset: m!.indices?.[i + 1]?.[0] ?? -1,
+          length: text === undefined ? 0 : text.length,
+          string: text ?? null,
+          name: groupNames[i] ?? null,
+        })),
+      });
+    }
+    if (!global && !forceGlobal) break;
+  }
+  return out;
+}
+
+/** Outputs of match, capture and scan: one per match */
+function regexOutputs(name: string, input: Json, re: Json, flags: Json): Json[] {
+  if (name === "match") return matches(input, re, flags);
+  if (name === "capture") return matches(input, re, flags).map(captureObject);
+  // scan is always global and yields the captures if there are any, else the whole match
+  return matches(input, re, flags, true).map((m) => {
+    const captures = m.captures as JsonObject[];
+    return captures.length > 0 ? captures.map((c) => c.string) : m.string;
+  });
+}
+
+const captureObject = (match: JsonObject): JsonObject =>
+  Object.fromEntries(
+    (match.captures as JsonObject[]).filter((c) => c.name !== null).map((
+      c,
+    ) => [c.name as string, c.string]),
+  );
+
+class Evaluator {
+  private steps = 0;
+  private nextCheck = 0;
+
+  constructor(private limits: EngineLimits = {}) {}
+
+  private tick(): void {
+    if (++this.steps > MAX_STEPS) throw fail("filter exceeded the step limit");
+    if (this.steps >= this.nextCheck) {
+      checkLimits(this.limits, "jq");
+      this.nextCheck = this.steps + LIMIT_CHECK_STEPS;
+    }
+  }
+
+  *run(node: Node, input: Json, env: Env): Generator<Json> {
+    this.tick();
+    switch (node.k) {
+      case "identity":
+        yield input;
+        return;
+      case "recurse":
+        yield* this.call({ k: "call", name: "recurse", args: [] }, input, env);
+        return;
+      case "literal":
+        yield node.value;
+        return;
+      case "string":
+        yield* this.interpolate(node.parts, input, env, node.format);
+        return;
+      case "format": {
+        const format = FORMATS[node.name];
+        if (!format) throw fail(`${node.name} is not a valid format`);
+        yield format(input);
+        return;
+      }
+      case "index":
+        for (const target of this.run(node.target, input, env)) {
+          for (const key of this.run(node.key, input, env)) {
+            if (Array.isArray(target) && Array.isArray(key)) yield indices(target, key);
+            else yield index(target, toPathKey(target, key));
+          }
+        }
+        return;
+      case "slice":
+        for (const target of this.run(node.target, input, env)) {
+          for (const from of node.from ? this.run(node.from, input, env) : [null]) {
+            for (const to of node.to ? this.run(node.to, input, env) : [null]) {
+              yield index(target, { start: from, end: to });
+            }
+          }
+        }
+        return;
+      case "iterate":
+        for (const target of this.run(node.target, input, env)) {
+          if (Array.isArray(target)) yield* target;
+          else if (isObject(target)) yield* Object.values(target);
+          else throw new JqError(`Cannot iterate over ${describe(target)}`);
+        }
+        return;
+      case "try":
+        try {
+          for (const value of this.run(node.body, input, env)) yield value;
+        } catch (e) {
+          if (!(e instanceof JqError)) throw e;
+          if (node.handler) yield* this.run(node.handler, e.value, env);
+        }
+        return;
+      case "array":
+        yield node.body ? [...this.run(node.body, input, env)] : [];
+        return;
+      case "object":
+        yield* this.object(node.entries, 0, {}, input, env);
+        return;
+      case "pipe":
+        for (const value of this.run(node.left, input, env)) {
+          yield* this.run(node.right, value, env);
+        }
+        return;
+      case "comma":
+        yield* this.run(node.left, input, env);
+        yield* this.run(node.right, input, env);
+        return;
+      case "neg":
+        for (const value of this.run(node.body, input, env)) {
+          if (typeof value !== "number") throw new JqError(`${describe(value)} cannot be negated`);
+          yield -value;
+        }
+        return;
+      case "binary":
+        for (const right of this.run(node.right, input, env)) {
+          for (const left of this.run(node.left, input, env)) {
+            switch (node.op) {
+              case "==":
+                yield compare(left, right) === 0;
+                break;
+              case "!=":
+                yield compare(left, right) !== 0;
+                break;
+              case "<":
+                yield compare(left, right) < 0;
+                break;
+              case "<=":
+                yield compare(left, right) <= 0;
+                break;
+              case ">":
+                yield compare(left, right) > 0;
+                break;
+              case ">=":
+                yield compare(left, right) >= 0;
+                break;
+              default:
+                yield arithmetic(node.op, left, right);
+            }
+          }
+        }
+        return;
+      case "and":
+      case "or":
+        for (const left of this.run(node.left, input, env)) {
+          if (node.k === "and" ? !truthy(left) : truthy(left)) {
+            yield node.k === "or";
+            continue;
+          }
+          for (const right of this.run(node.right, input, env)) yield truthy(right);
+        }
+        return;
+      case "alt": {
+        let any = false;
+        try {
+          for (const value of this.run(node.left, input, env)) {
+            if (truthy(value)) {
+              any = true;
+              yield value;
+            }
+          }
+        } catch (e) {
+          if (!(e instanceof JqError)) throw e;
+        }
+        if (!any) yield* this.run(node.right, input, env);
+        return;
+      }
+      case "assign":
+        yield* this.assign(node, input, env);
+        return;
+      case "if":
+        for (const cond of this.run(node.cond, input, env)) {
+          if (truthy(cond)) yield* this.run(node.then, input, env);
+          else if (node.else) yield* this.run(node.else, input, env);
+          else yield input;
+        }
+        return;
+      case "reduce":
+        for (const init of this.run(node.init, input, env)) {
+          let acc: Json = init;
+          for (const item of this.run(node.source, input, env)) {
+            let last: Json = null;
+            for (const value of this.run(node.update, acc, env.withVar(node.name, item))) {
+              last = value;
+            }
+            acc = last;
+          }
+          yield acc;
+        }
+        return;
+      case "foreach":
+        for (const init of this.run(node.init, input, env)) {
+          let acc: Json = init;
+          for (const item of this.run(node.source, input, env)) {
+            const scope = env.withVar(node.name, item);
+            for (const value of this.run(node.update, acc, scope)) {
+              acc = value;
+              if (node.extract) yield* this.run(node.extract, value, scope);
+              else yield value;
+            }
+          }
+        }
+        return;
+      case "as":
+        for (const value of this.run(node.source, input, env)) {
+          yield* this.run(node.body, input, env.withVar(node.name, value));
+        }
+        return;
+      case "var":
+        yield env.variable(node.name);
+        return;
+      case "call":
+        yield* this.call(node, input, env);
+        return;
+      case "def": {
+        const funcs = new Map<string, FunctionDef>();
+        const scope = env.withFunctions(funcs);
+        funcs.set(`${node.name}/${node.params.length}`, {
+          params: node.params,
+          body: node.body,
+          env: scope,
+        });
+        yield* this.run(node.rest, input, scope);
+        return;
+      }
+    }
+  }
+
+  private *interpolate(
+    parts: Array<string | Node>,
+    input: Json,
+    env: Env,
+    format?: string,
+    i = 0,
+    prefix = "",
+  ): Generator<Json> {
+    if (i === parts.length) {
+      yield prefix;
+      return;
+    }
+    const part = parts[i];
+    if (typeof part === "string") {
+      yield* this.interpolate(parts, input, env, format, i + 1, prefix + part);
+      return;
+    }
+    const formatter = format ? FORMATS[format] : toText;
+    if (!formatter) throw fail(`${format} is not a valid format`);
+    for (const value of this.run(part, input, env)) {
+      yield* this.interpolate(parts, input, env, format, i + 1, prefix + formatter(value));
+    }
+  }
+
+  private *object(
+    entries: Array<{ key: Node; value: Node }>,
+    i: number,
+    acc: JsonObject,
+    input: Json,
+    env: Env,
+  ): Generator<Json> {
+    if (i === entries.length) {
+      yield acc;
+      return;
+    }
+    for (const key of this.run(entries[i].key, input, env)) {
+      if (typeof key !== "string") throw new JqError(`Object keys must be strings`);
+      for (const value of this.run(entries[i].value, input, env)) {
+        yield* this.object(entries, i + 1, { ...acc, [key]: value }, input, env);
+      }
+    }
+  }
+
+  // --- paths ---------------------------------------------------------------
+
+  /** Paths (with their values) selected by a path expression such as .a[0] or .[] | select(f) */
+  *paths(node: Node, input: Json, env: Env, path: Path = []): Generator<[Path, Json]> {
+    this.tick();
+    switch (node.k) {
+      case "identity":
+        yield [path, input];
+        return;
+      case "recurse":
+        yield* this.paths({ k: "call", name: "recurse", args: [] }, input, env, path);
+        return;
+      case "index":
+        for (const [p, value] of this.paths(node.target, input, env, path)) {
+          for (const key of this.run(node.key, input, env)) {
+            const pathKey = toPathKey(value, key);
+            yield [[...p, pathKey], index(value, pathKey)];
+          }
+        }
+        return;
+      case "slice":
+        for (const [p, value] of this.paths(node.target, input, env, path)) {
+          for (const from of node.from ? this.run(node.from, input, env) : [null]) {
+            for (const to of node.to ? this.run(node.to, input, env) : [null]) {
+              const key = { start: from, end: to };
+              yield [[...p, key], index(value, key)];
+            }
+          }
+        }
+        return;
+      case "iterate":
+        for (const [p, value] of this.paths(node.target, input, env, path)) {
+          if (Array.isArray(value)) yield* value.map((v, i) => [[...p, i], v] as [Path, Json]);
+          else if (isObject(value)) {
+            yield* Object.entries(value).map(([k, v]) => [[...p, k], v] as [Path, Json]);
+          } else if (value !== null) throw new JqError(`Cannot iterate over ${describe(value)}`);
+        }
+        return;
+      case "try":
+        try {
+          for (const result of this.paths(node.body, input, env, path)) yield result;
+        } catch (e) {
+          if (!(e instanceof JqError)) throw e;
+          if (node.handler) throw fail("try/catch in a path expression is not supported");
+        }
+        return;
+      case "pipe":
+        for (const [p, value] of this.paths(node.left, input, env, path)) {
+          yield* this.paths(node.right, value, env, p);
+        }
+        return;
+      case "comma":
+        yield* this.paths(node.left, input, env, path);
+        yield* this.paths(node.right, input, env, path);
+        return;
+      case "alt": {
+        let any = false;
+        for (const result of this.paths(node.left, input, env, path)) {
+          if (truthy(result[1])) {
+            any = true;
+            yield result;
+          }
+        }
+        if (!any) yield* this.paths(node.right, input, env, path);
+        return;
+      }
+      case "if":
+        for (const cond of this.run(node.cond, input, env)) {
+          if (truthy(cond)) yield* this.paths(node.then, input, env, path);
+          else if (node.else) yield* this.paths(node.else, input, env, path);
+          else yield [path, input];
+        }
+        return;
+      case "as":
+        for (const value of this.run(node.source, input, env)) {
+          yield* this.paths(node.body, input, env.withVar(node.name, value), path);
+        }
+        return;
+      case "reduce":
+      case "foreach":
+        throw fail(`${node.k} in a path expression is not supported`);
+      case "def": {
+        const funcs = new Map<string, FunctionDef>();
+        const scope = env.withFunctions(funcs);
+        funcs.set(`${node.name}/${node.params.length}`, {
+          params: node.params,
+          body: node.body,
+          env: scope,
+        });
+        yield* this.paths(node.rest, input, scope, path);
+        return;
+      }
+      case "call":
+        yield* this.callPaths(node, input, env, path);
+        return;
+      case "literal":
+        if (node.value === null) {
+          // path(null) is the empty path, as in jq
+          yield [path, null];
+          return;
+        }
+    }
+    const [value] = this.run(node, input, env);
+    throw new JqError(`Invalid path expression with result ${JSON.stringify(value ?? null)}`);
+  }
+
+  private *callPaths(
+    node: Extract<Node, { k: "call" }>,
+    input: Json,
+    env: Env,
+    path: Path,
+  ): Generator<[Path, Json]> {
+    const key = `${node.name}/${node.args.length}`;
+    const found = env.function(key);
+    if (found) {
+      if ("node" in found) {
+        yield* this.paths(found.node, input, found.env, path);
+      } else {
+        yield* this.paths(found.body, input, this.bind(found, node.args, env), path);
+      }
+      return;
+    }
+    switch (key) {
+      case "empty/0":
+        return;
+      case "error/0":
+      case "error/1":
+        // Raises the error
+        this.run(node, input, env).next();
+        return;
+      case "getpath/1":
+        for (const p of this.run(node.args[0], input, env)) {
+          if (!Array.isArray(p)) throw new JqError("Path must be specified as an array");
+          yield [[...path, ...(p as Path)], getPath(input, p as Path)];
+        }
+        return;
+      case "first/1":
+        for (const result of this.paths(node.args[0], input, env, path)) {
+          yield result;
+          return;
+        }
+        return;
+      case "limit/2":
+        for (const n of this.run(node.args[0], input, env)) {
+          let count = 0;
+          if (typeof n !== "number" || n <= 0) continue;
+          for (const result of this.paths(node.args[1], input, env, path)) {
+            yield result;
+            if (++count >= n) break;
+          }
+        }
+        return;
+    }
+    const [value] = this.run(node, input, env);
+    throw new JqError(`Invalid path expression with result ${JSON.stringify(value ?? null)}`);
+  }
+
+  private *assign(node: Extract<Node, { k: "assign" }>, input: Json, env: Env): Generator<Json> {
+    const paths = () => [...this.paths(node.left, input, env)].map(([p]) => p);
+    if (node.op === "|=") {
+      let result = input;
+      const removed: Path[] = [];
+      for (const path of paths()) {
+        // The first output replaces the value; no output deletes the path
+        const [value] = this.run(node.right, getPath(result, path), env);
+        if (value === undefined) removed.push(path);
+        else result = setPath(result, path, value);
+      }
+      yield removed.length > 0 ? deletePaths(result, removed) : result;
+      return;
+    }
+    for (const value of this.run(node.right, input, env)) {
+      let result = input;
+      for (const path of paths()) {
+        const current = getPath(result, path);
+        let updated: Json;
+        if (node.op === "=") updated = value;
+        else if (node.op === "//=") updated = truthy(current) ? current : value;
+        else updated = arithmetic(node.op[0], current, value);
+        result = setPath(result, path, updated);
+      }
+      yield result;
+    }
+  }
+
+  // --- calls ---------------------------------------------------------------
+
+  /** Scope for a call to a jq-defined function: parameters bound to the argument closures */
+  private bind(def: FunctionDef, args: Node[], callerEnv: Env): Env {
+    const funcs = new Map<string, FunctionDef | Closure>();
+    def.params.forEach((param, i) => funcs.set(`${param}/0`, { node: args[i], env: callerEnv }));
+    return def.env.withFunctions(funcs);
+  }
+
+  /** Every combination of the argument values (for builtins taking $values) */
+  private *values(args: Node[], input: Json, env: Env, i = 0, acc: Json[] = []): Generator<Json[]> {
+    if (i === args.length) {
+      yield acc;
+      return;
+    }
+    for (const value of this.run(args[i], input, env)) {
+      yield* this.values(args, input, env, i + 1, [...acc, value]);
+    }
+  }
+
+  private *call(node: Extract<Node, { k: "call" }>, input: Json, env: Env): Generator<Json> {
+    const key = `${node.name}/${node.args.length}`;
+    const found = env.function(key);
+    if (found) {
+      if ("node" in found) yield* this.run(found.node, input, found.env);
+      else yield* this.run(found.body, input, this.bind(found, node.args, env));
+      return;
+    }
+    const [f, g] = node.args;
+    switch (key) {
+      case "empty/0":
+        return;
+      case "not/0":
+        yield !truthy(input);
+        return;
+      case "error/0":
+        throw new JqError(input);
+      case "path/1":
+        for (const [path] of this.paths(f, input, env)) yield path as Json;
+        return;
+      case "first/1":
+        for (const value of this.run(f, input, env)) {
+          yield value;
+          return;
+        }
+        return;
+      case "limit/2":
+        for (const n of this.run(f, input, env)) {
+          if (typeof n !== "number") throw new JqError("Invalid limit: must be a number");
+          let count = 0;
+          if (n <= 0) continue;
+          for (const value of this.run(g, input, env)) {
+            yield value;
+            if (++count >= n) break;
+          }
+        }
+        return;
+      case "range/2":
+      case "range/3":
+        for (const [from, upto, by = 1] of this.values(node.args, input, env)) {
+          if (typeof from !== "number" || typeof upto !== "number" || typeof by !== "number") {
+            throw new JqError("Range bounds must be numeric");
+          }
+          // A zero step repeats `from` forever, as in jq
+          for (let i = from; by > 0 ? i < upto : by < 0 ? i > upto : from < upto; i += by) {
+            this.tick();
+            yield i;
+          }
+        }
+        return;
+      case "sort_by/1":
+      case "group_by/1":
+      case "min_by/1":
+      case "max_by/1":
+      case "unique_by/1": {
+        if (!Array.isArray(input)) throw new JqError(`Cannot index ${typeName(input)} with number`);
+        const keyed = input.map((value, i) => ({
+          value,
+          key: [...this.run(f, value, env)] as Json,
+          i,
+        }));
+        keyed.sort((a, b) => compare(a.key, b.key) || a.i - b.i);
+        if (key === "sort_by/1") yield keyed.map((x) => x.value);
+        else if (key === "min_by/1") yield keyed[0]?.value ?? null;
+        else if (key === "max_by/1") {
+          // The last of equal maxima, like jq
+          yield keyed.length ? keyed[keyed.length - 1].value : null;
+        } else {
+          const groups: Json[][] = [];
+          keyed.forEach((x, i) => {
+            if (i === 0 || compare(keyed[i - 1].key, x.key) !== 0) groups.push([]);
+            groups[groups.length - 1].push(x.value);
+          });
+          yield key === "group_by/1" ? groups : groups.map((group) => group[0]);
+        }
+        return;
+      }
+      case "match/1":
+      case "match/2":
+      case "capture/1":
+      case "capture/2":
+      case "scan/1":
+      case "scan/2":
+        for (const [re, flags = null] of this.values(node.args, input, env)) {
+          yield* regexOutputs(node.name, input, re, flags);
+        }
+        return;
+      case "sub/2":
+      case "sub/3":
+      case "gsub/2":
+      case "gsub/3":
+        for (
+          const [re, flags = null] of this.values(node.args.filter((_, i) => i !== 1), input, env)
+        ) {
+          const global = node.name === "gsub";
+          const found = matches(input, re, flags, global);
+          let result = "";
+          let last = 0;
+          const text = input as string;
+          for (const match of found) {
+            const [replacement] = this.run(g, captureObject(match), env);
+            if (typeof replacement !== "string") {
+              throw new JqError(`${describe(replacement ?? null)} cannot be added to a string`);
+            }
+            result += text.slice(last, match.offset as number) + replacement;
+            last = (match.offset as number) + (match.length as number);
+          }
+          yield result + text.slice(last);
+        }
+        return;
+    }
+
+    // Builtins of values: evaluated once per combination of argument values
+    for (const args of this.values(node.args, input, env)) yield this.builtin(key, input, args);
+  }
+
+  private builtin(key: string, input: Json, args: Json[]): Json {
+    const [a, b] = args;
+    const string = (name: string) => {
+      if (typeof input !== "string") throw new JqError(`${describe(input)} cannot be ${name}`);
+      return input;
+    };
+    const number = (name: string) => {
+      if (typeof input !== "number") {
+        throw new JqError(`${describe(input)} number required for ${name}`);
+      }
+      return input;
+    };
+    switch (key) {
+      case "error/1":
+        throw new JqError(a);
+      case "length/0":
+        return length(input);
+      case "utf8bytelength/0":
+        return new TextEncoder().encode(string("measured in UTF-8 bytes")).length;
+      case "keys/0":
+        return keys(input, true);
+      case "keys_unsorted/0":
+        return keys(input, false);
+      case "has/1":
+        if (isObject(input) && typeof a === "string") return Object.hasOwn(input, a);
+        if (Array.isArray(input) && typeof a === "number") return a >= 0 && a < input.length;
+        throw new JqError(`Cannot check whether ${typeName(input)} has a ${typeName(a)} key`);
+      case "contains/1":
+        return contains(input, a);
+      case "add/0":
+        if (isObject(input)) return Object.values(input).reduce(add, null);
+        if (!Array.isArray(input)) throw new JqError(`Cannot iterate over ${describe(input)}`);
+        return input.reduce(add, null);
+      case "type/0":
+        return typeName(input);
+      case "tostring/0":
+        return toText(input);
+      case "tojson/0":
+        return stringify(input);
+      case "fromjson/0":
+        try {
+          return JSON.parse(string("parsed as JSON"));
+        } catch {
+          throw new JqError(`${input} (while parsing '${input}')`);
+        }
+      case "tonumber/0":
+        if (typeof input === "number") return input;
+        if (typeof input === "string" && input.trim() !== "" && !Number.isNaN(Number(input))) {
+          return Number(input);
+        }
+        throw new JqError(`Cannot parse ${describe(input)} as a number`);
+      case "explode/0":
+        return [...string("exploded")].map((c) => c.codePointAt(0)!);
+      case "implode/0":
+        if (!Array.isArray(input) || !input.every((c) => typeof c === "number")) {
+          throw new JqError("Implode input must be an array of codepoints");
+        }
+        return String.fromCodePoint(...(input as number[]));
+      case "ltrimstr/1":
+        return typeof input === "string" && typeof a === "string" && input.startsWith(a)
+          ? input.slice(a.length)
+          : input;
+      case "rtrimstr/1":
+        return typeof input === "string" && typeof a === "string" && a !== "" && input.endsWith(a)
+          ? input.slice(0, -a.length)
+          : input;
+      case "startswith/1":
+        if (typeof input !== "string" || typeof a !== "string") {
+          throw new JqError("startswith() requires string inputs");
+        }
+        return input.startsWith(a);
+      case "endswith/1":
+        if (typeof input !== "string" || typeof a !== "string") {
+          throw new JqError("endswith() requires string inputs");
+        }
+        return input.endsWith(a);
+      case "trim/0":
+        return string("trimmed").trim();
+      case "ltrim/0":
+        return string("trimmed").trimStart();
+      case "rtrim/0":
+        return string("trimmed").trimEnd();
+      case "split/1":
+        if (typeof input !== "string" || typeof a !== "string") {
+          throw new JqError("split input and separator must be strings");
+        }
+        return splitString(input, a);
+      case "split/2": {
+        const found = matches(input, a, b, true);
+        const out: Json[] = [];
+        let last = 0;
+        for (const match of found) {
+          out.push((input as string).slice(last, match.offset as number));
+          last = (match.offset as number) + (match.length as number);
+        }
+        out.push((input as string).slice(last));
+        return out;
+      }
+      case "join/1": {
+        if (!Array.isArray(input)) throw new JqError(`Cannot iterate over ${describe(input)}`);
+        if (typeof a !== "string") throw new JqError(`${describe(a)} is not a string separator`);
+        return input.map((x) => {
+          if (x === null) return "";
+          if (typeof x === "object") throw new JqError(`Cannot join with ${typeName(x)}`);
+          return String(x);
+        }).join(a);
+      }
+      case "test/1":
+      case "test/2":
+        return matches(input, a, b ?? null).length > 0;
+      case "ascii_downcase/0":
+      case "ascii_upcase/0":
+        return key === "ascii_downcase/0"
+          ? string("lowercased").replace(/[A-Z]/g, (c) => c.toLowerCase())
+          : string("uppercased").replace(/[a-z]/g, (c) => c.toUpperCase());
+      case "reverse/0":
+        if (input === null) return [];
+        if (typeof input === "string") return [...input].reverse().join("");
+        if (!Array.isArray(input)) throw new JqError(`Cannot reverse ${describe(input)}`);
+        return [...input].reverse();
+      case "sort/0":
+        if (!Array.isArray(input)) {
+          throw new JqError(`${describe(input)} cannot be sorted, as it is not an array`);
+        }
+        return [...input].sort(compare);
+      case "unique/0":
+        if (!Array.isArray(input)) {
+          throw new JqError(`${describe(input)} cannot be sorted, as it is not an array`);
+        }
+        return [...input].sort(compare).filter((x, i, all) =>
+          i === 0 || compare(all[i - 1], x) !== 0
+        );
+      case "min/0":
+      case "max/0": {
+        if (!Array.isArray(input)) {
+          throw new JqError(`${describe(input)} cannot be sorted, as it is not an array`);
+        }
+        if (input.length === 0) return null;
+        const sorted = [...input].sort(compare);
+        return key === "min/0" ? sorted[0] : sorted[sorted.length - 1];
+      }
+      case "flatten/0":
+        return flatten(input, 1e9);
+      case "flatten/1":
+        if (typeof a !== "number") throw new JqError("flatten depth must not be negative");
+        return flatten(input, a);
+      case "indices/1":
+        return indices(input, a);
+      case "from_entries/0":
+        return fromEntries(input);
+      case "getpath/1":
+        if (!Array.isArray(a)) throw new JqError("Path must be specified as an array");
+        return getPath(input, a as Path);
+      case "setpath/2":
+        if (!Array.isArray(a)) throw new JqError("Path must be specified as an array");
+        return setPath(input, a as Path, b);
+      case "delpaths/1":
+        if (!Array.isArray(a) || !a.every(Array.isArray)) {
+          throw new JqError("Paths must be specified as an array of arrays");
+        }
+        return deletePaths(input, a as Path[]);
+      case "floor/0":
+        return Math.floor(number("floor"));
+      case "ceil/0":
+        return Math.ceil(number("ceil"));
+      case "round/0":
+        // Halves round away from zero, like C's round()
+        return Math.sign(number("round")) * Math.round(Math.abs(input as number));
+      case "sqrt/0":
+        return Math.sqrt(number("sqrt"));
+      case "fabs/0":
+      case "abs/0":
+        return Math.abs(number("abs"));
+      case "log/0":
+        return Math.log(number("log"));
+      case "log2/0":
+        return Math.log2(number("log2"));
+      case "log10/0":
+        return Math.log10(number("log10"));
+      case "exp/0":
+        return Math.exp(number("exp"));
+      case "exp2/0":
+        return 2 ** number("exp2");
+      case "exp10/0":
+        return 10 ** number("exp10");
+      case "pow/2":
+        if (typeof a !== "number" || typeof b !== "number") {
+          throw new JqError("pow requires numbers");
+        }
+        return a ** b;
+      case "infinite/0":
+        return Infinity;
+      case "nan/0":
+        return NaN;
+      case "isinfinite/0":
+        return !Number.isFinite(number("isinfinite")) && !Number.isNaN(input);
+      case "isnan/0":
+        return Number.isNaN(number("isnan"));
+      case "isnormal/0": {
+        const n = number("isnormal");
+        return Number.isFinite(n) && n !== 0 && Math.abs(n) >= 2.2250738585072014e-308;
+      }
+      case "tostream/0":
+      case "input/0":
+      case "inputs/0":
+      case "env/0":
+      case "now/0":
+      case "halt/0":
+      case "halt_error/0":
+      case "halt_error/1":
+        throw fail(`${key.split("/")[0]} is not supported (use binary: true)`);
+    }
+    throw fail(`${key} is not defined`);
+  }
+}
+
+/**
+ * Run a jq filter over one or more JSON inputs and return every output
+ *
+ * Stops with TIMEOUT or CANCELLED once `signal` or `deadline` says so,
+ * and with INVALID_ARGUMENT past the step limit or when a string grows
+ * beyond MAX_TEXT_LENGTH.
+ */
+export function runJq(filter: string, inputs: Json[], limits: EngineLimits = {}): Json[] {
+  const program = new Parser(filter).parseProgram();
+  const evaluator = new Evaluator(limits);
+  const results: Json[] = [];
+  try {
+    for (const input of inputs) {
+      for (const value of evaluator.run(program, input, prelude())) results.push(value);
+    }
+  } catch (e) {
+    if (e instanceof JqError) {
+      throw fail(
+        typeof e.value === "string" ? `error: ${e.value}` : `error (not a string): ${e.message}`,
+      );
+    }
+    if (e instanceof RangeError) throw fail("filter recursed too deeply");
+    throw e;
+  }
+  return results;
+}
+
+/** Index just past the JSON value that starts at `start` (not validated, only delimited) */
+function scanJsonValue(text: string, start: number): number {
+  const first = text[start];
+  if (first !== "{" && first !== "[" && first !== '"') {
+    // Number or literal: runs until whitespace or the start of another value
+    let i = start;
+    while (i < text.length && !/[\s{}[\]",]/.test(text[i])) i++;
+    return Math.max(i, start + 1);
+  }
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') {
+        inString = false;
+        if (depth === 0) return i + 1;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      if (--depth === 0) return i + 1;
+    }
+  }
+  throw fail("input is not valid JSON (unterminated value)");
+}
+
+/**
+ * Parse jq input: a stream of JSON values separated by optional whitespace,
+ * as the host jq accepts (`1 2`, `[1] [2]`, `{"a":1}{"b":2}`, JSON lines)
+ */
+export function parseJsonInputs(text: string): Json[] {
+  try {
+    return [JSON.parse(text)];
+  } catch {
+    // Several values: delimit each one and parse it on its own
+  }
+  const values: Json[] = [];
+  let i = 0;
+  while (true) {
+    while (i < text.length && /\s/.test(text[i])) i++;
+    if (i >= text.length) return values;
+    const end = scanJsonValue(text, i);
+    try {
+      values.push(JSON.parse(text.slice(i, end)));
+    } catch {
+      throw fail("input is not valid JSON");
+    }
+    i = end;
+  }
+}
+
+/**
+ * jq's text output: each result pretty-printed (or raw strings), one per line
+ *
+ * @throws ToolError INVALID_ARGUMENT if the output exceeds MAX_TEXT_LENGTH
+ */
+export function formatJqOutput(results: Json[], raw = false): string {
+  let length = 0;
+  return results.map((v) => {
+    const line = (raw && typeof v === "string" ? v : stringify(v, 2)) + "\n";
+    length += line.length;
+    if (length > MAX_TEXT_LENGTH) throw fail("output exceeded the size limit");
+    return line;
+  }).join("");
+}
@@ -0,0 +1,218 @@
+/**
+ * In-process sort, uniq, cut and wc, plus the line and regex helpers shared
+ * with the sed and awk engines, and the run limits shared with those and jq
+ *
+ * These follow the GNU tools in the C locale: sort compares UTF-16 code
+ * units rather than using collation rules, and every output line ends with
+ * a newline.
+ *
+ * @module lib/std/textlines
+ */
+
+import { abortError, ToolError } from "./errors.ts";
+
+/** Lines of `text`; a final newline ends the last line rather than starting an empty one */
+export function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/** Lines joined back into text, each ending with a newline */
+export function joinLines(lines: string[]): string {
+  return lines.map((line) => line + "\n").join("");
+}
+
+const POSIX_CLASSES: Record<string, string> = {
+  alnum: "a-zA-Z0-9",
+  alpha: "a-zA-Z",
+  blank: " \\t",
+  cntrl: "\\x00-\\x1f\\x7f",
+  digit: "0-9",
+  graph: "!-~",
+  lower: "a-z",
+  print: " -~",
+  punct: "!-\\/:-@\\[-`{-~",
+  space: " \\t\\n\\r\\f\\v",
+  upper: "A-Z",
+  xdigit: "0-9A-Fa-f",
+};
+
+/**
+ * Copy the bracket expression starting at `source[start]` ("[") as a
+ * JavaScript character class, expanding POSIX classes like [:alpha:].
+ * Returns the class and the index after its closing "]".
+ */
+export function bracketExpression(source: string, start: number): [string, number] {
+  let i = start + 1;
+  let out = "[";
+  if (source[i] === "^") {
+    out += "^";
+    i++;
+  }
+  // A "]" right after the opening bracket is a literal
+  if (source[i] === "]") {
+    out += "\\]";
+    i++;
+  }
+  while (i < source.length && source[i] !== "]") {
+    if (source.startsWith("[:", i)) {
+      const end = source.indexOf(":]", i + 2);
+      const name = end === -1 ? "" : source.slice(i + 2, end);
+      if (!(name in POSIX_CLASSES)) {
+        throw new ToolError("INVALID_ARGUMENT", `Unknown character class [:${name}:]`);
+      }
+      out += POSIX_CLASSES[name];
+      i = end + 2;
+    } else if (source[i] === "\\") {
+      out += source.slice(i, i + 2);
+      i += 2;
+    } else {
+      out += source[i] === "[" ? "\\[" : source[i];
+      i++;
+    }
+  }
+  if (i >= source.length) throw new ToolError("INVALID_ARGUMENT", "Unterminated [ in regex");
+  return [out + "]", i + 1];
+}
+
+/** Build a RegExp, reporting invalid patterns as INVALID_ARGUMENT */
+export function compileRegex(source: string, flags: string, label: string): RegExp {
+  try {
+    return new RegExp(source, flags);
+  } catch (e) {
+    throw new ToolError("INVALID_ARGUMENT", `${label}: invalid regex: ${(e as Error).message}`, {
+      cause: e,
+    });
+  }
+}
+
+/** When a sed, awk or jq run must stop early: the signal and deadline of its call */
+export interface EngineLimits {
+  signal?: AbortSignal;
+  /** Epoch milliseconds after which the run fails with TIMEOUT */
+  deadline?: number;
+}
+
+/** Longest pattern space, string or output the engines build */
+export const MAX_TEXT_LENGTH = 64 * 1024 * 1024;
+
+/** Engine steps between two checkLimits() calls */
+export const LIMIT_CHECK_STEPS = 1024;
+
+/**
+ * Throw CANCELLED or TIMEOUT once `limits` says to stop. The engines run
+ * synchronously, so the timer that aborts the signal cannot fire while
+ * they run: the deadline is compared with the clock instead.
+ */
+export function checkLimits({ signal, deadline }: EngineLimits, label: string): void {
+  if (signal?.aborted) throw abortError(signal);
+  if (deadline !== undefined && Date.now() >= deadline) {
+    throw new ToolError("TIMEOUT", `${label}: timed out`);
+  }
+}
+
+/** Leading number of a line as `sort -n` reads it (0 when there is none) */
+function numericKey(line: string): number {
+  const match = /^\s*-?(\d+\.?\d*|\.\d+)/.exec(line);
+  return match ? parseFloat(match[0]) : 0;
+}
+
+const compareText = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+/** sort: lexicographic or numeric, with equal keys ordered by the whole line */
+export function sortLines(
+  text: string,
+  { reverse = false, numeric = false, unique = false } = {},
+): string {
+  const keyCompare = numeric
+    ? (a: string, b: string) => numericKey(a) - numericKey(b)
+    : compareText;
+  const sign = reverse ? -1 : 1;
+  const lines = splitLines(text).sort((a, b) =>
+    sign * (keyCompare(a, b) || (numeric ? compareText(a, b) : 0))
+  );
+  // -u keeps the first line of each run of equal keys
+  const kept = unique
+    ? lines.filter((line, i) => i === 0 || keyCompare(lines[i - 1], line))
+    : lines;
+  return joinLines(kept);
+}
+
+/** uniq: collapse adjacent duplicate lines */
+export function uniqLines(text: string, { count = false, duplicatesOnly = false } = {}): string {
+  const out: string[] = [];
+  const lines = splitLines(text);
+  for (let i = 0; i < lines.length;) {
+    let j = i + 1;
+    while (j < lines.length && lines[j] === lines[i]) j++;
+    if (!duplicatesOnly || j - i > 1) {
+      out.push(count ? `${String(j - i).padStart(7)} ${lines[i]}` : lines[i]);
+    }
+    i = j;
+  }
+  return joinLines(out);
+}
+
+/** Parse a cut list such as "1,3" or "2-4,7-" into 1-based inclusive ranges */
+function parseCutList(list: string): Array<[number, number]> {
+  return list.split(",").map((part) => {
+    const match = /^(\d*)(-?)(\d*)$/.exec(part.trim());
+    if (!match || (!match[1] && !match[3])) {
+      throw new ToolError("INVALID_ARGUMENT", `cut: invalid list: ${list}`);
+    }
+    const from = match[1] ? Number(match[1]) : 1;
+    const to = match[2] ? (match[3] ? Number(match[3]) : Infinity) : from;
+    if (from < 1 || to < from) {
+      throw new ToolError("INVALID_ARGUMENT", `cut: invalid list: ${list}`);
+    }
+    return [from, to];
+  });
+}
+
+const inRanges = (ranges: Array<[number, number]>, n: number) =>
+  ranges.some(([from, to]) => n >= from && n <= to);
+
+/** cut: select fields (lines without the delimiter pass through whole) or characters */
+export function cutLines(
+  text: string,
+  { delimiter = "\t", fields, characters }: {
+    delimiter?: string;
+    fields?: string;
+    characters?: string;
+  },
+): string {
+  if (fields && characters) {
+    throw new ToolError("INVALID_ARGUMENT", "cut: pass fields or characters, not both");
+  }
+  if (!fields && !characters) {
+    throw new ToolError("INVALID_ARGUMENT", "cut: fields or characters required");
+  }
+  if (fields && [...delimiter].length !== 1) {
+    throw new ToolError("INVALID_ARGUMENT", "cut: the delimiter must be a single character");
+  }
+  const ranges = parseCutList((fields ?? characters)!);
+  return joinLines(
+    splitLines(text).map((line) => {
+      if (characters) return [...line].filter((_, i) => inRanges(ranges, i + 1)).join("");
+      if (!line.includes(delimiter)) return line;
+      return line.split(delimiter).filter((_, i) => inRanges(ranges, i + 1)).join(delimiter);
+    }),
+  );
+}
+
+/** wc: newline, word, character (code point) and byte counts */
+export function countText(text: string): {
+  lines: number;
+  words: number;
+  chars: number;
+  bytes: number;
+} {
+  return {
+    lines: text.split("\n").length - 1,
+    words: text.split(/\s+/).filter(Boolean).length,
+    chars: [...text].length,
+    bytes: new TextEncoder().encode(text).length,
+  };
+}
@@ -0,0 +1,614 @@
+/**
+ * In-process sed
+ *
+ * Supported subset (GNU syntax):
+ * - addresses: `N`, `$`, `/re/` (or `\cREc`), `first~step`, ranges `a1,a2`
+ *   and `a1,+N`, negated with `!`
+ * - commands: `s` (flags g, p, i/I, m/M and a number), `y`, `d`, `D`, `p`,
+ *   `P`, `n`, `N`, `q`, `Q`, `=`, `a`/`i`/`c` (one-line GNU form or with
+ *   `\` and a newline), `h`/`H`/`g`/`G`/`x`, `b`/`t`/`T` with `:labels`,
+ *   `{ ... }` blocks and `#` comments
+ * - basic regular expressions (the GNU `\+`, `\?`, `\|` extensions, `\n`,
+ *   `\t`, `\<`, `\>` and POSIX classes), or extended ones with `extended`
+ *
+ * File commands (`r`, `w`, `e`, ...) are not supported; use the host
+ * binary for those.
+ *
+ * @module lib/std/textsed
+ */
+
+import { ToolError } from "./errors.ts";
+import {
+  bracketExpression,
+  checkLimits,
+  compileRegex,
+  type EngineLimits,
+  LIMIT_CHECK_STEPS,
+  MAX_TEXT_LENGTH,
+  splitLines,
+} from "./textlines.ts";
+
+type Address =
+  | { type: "line"; line: number }
+  | { type: "last" }
+  | { type: "regex"; regex: RegExp | null }
+  | { type: "step"; first: number; step: number };
+
+interface Command {
+  name: string;
+  address1?: Address;
+  /** Second address of a range; `plus` for the GNU `addr1,+N` form */
+  address2?: Address | { type: "plus"; count: number };
+  negate: boolean;
+  // Command arguments
+  regex?: RegExp | null;
+  replacement?: string;
+  global?: boolean;
+  occurrence?: number;
+  print?: boolean;
+  text?: string;
+  label?: string;
+  from?: string[];
+  to?: string[];
+  /** Index of the matching "}" for "{", or of the label for branches */
+  target?: number;
+}
+
+const fail = (message: string) => new ToolError("INVALID_ARGUMENT", `sed: ${message}`);
+
+/** Translate a sed regex (basic, or extended with `extended`) to JavaScript syntax */
+function translateRegex(source: string, extended: boolean): string {
+  let out = "";
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (c === "[") {
+      const [cls, next] = bracketExpression(source, i);
+      out += cls;
+      i = next - 1;
+    } else if (c === "\\") {
+      const e = source[++i];
+      if (e === undefined) throw fail("trailing backslash in regex");
+      if (e === "n") out += "\\n";
+      else if (e === "t") out += "\\t";
+      else if (e === "<" || e === ">") out += "\\b";
+      else if (/[1-9wWsSbB]/.test(e)) out += "\\" + e;
+      else if (!extended && "(){}|+?".includes(e)) out += e;
+      else out += /[\^$.*+?()[\]{}|\\/-]/.test(e) ? "\\" + e : e;
+    } else if (!extended && "(){}|+?".includes(c)) {
+      out += "\\" + c;
+    } else {
+      out += c;
+    }
+  }
+  return out;
+}
+
+/** Expand the escapes of a replacement or a/i/c text, except those s/// handles itself */
+function unescapeText(text: string): string {
+  return text.replace(/\\(.)/gs, (_, c: string) => (c === "n" ? "\n" : c === "t" ? "\t" : c));
+}
+
+class Parser {
+  private pos = 0;
+  readonly commands: Command[] = [];
+
+  constructor(private script: string, private extended: boolean) {}
+
+  parse(): Command[] {
+    const blocks: number[] = [];
+    for (;;) {
+      this.skip(" \t\n;");
+      if (this.pos >= this.script.length) break;
+      if (this.peek() === "#") {
+        this.readUntil("\n");
+        continue;
+      }
+      const command = this.command();
+      if (command.name === "{") blocks.push(this.commands.length);
+      if (command.name === "}") {
+        const open = blocks.pop();
+        if (open === undefined) throw fail("unexpected }");
+        this.commands[open].target = this.commands.length;
+      }
+      this.commands.push(command);
+    }
+    if (blocks.length > 0) throw fail("unmatched {");
+
+    const labels = new Map<string, number>();
+    this.commands.forEach((c, i) => c.name === ":" && labels.set(c.label!, i));
+    for (const c of this.commands) {
+      if ("btT".includes(c.name) && c.label) {
+        if (!labels.has(c.label)) throw fail(`can't find label for jump to '${c.label}'`);
+        c.target = labels.get(c.label);
+      }
+    }
+    return this.commands;
+  }
+
+  private peek(): string {
+    return this.script[this.pos];
+  }
+
+  private skip(chars: string): void {
+    while (this.pos < this.script.length && chars.includes(this.script[this.pos])) this.pos++;
+  }
+
+  private readUntil(end: string): string {
+    const start = this.pos;
+    while (this.pos < this.script.length && !end.includes(this.script[this.pos])) this.pos++;
+    return this.script.slice(start, this.pos);
+  }
+
+  private number(): number {
+    const digits = /^\d+/.exec(this.script.slice(this.pos));
+    if (!digits) throw fail("expected a number");
+    this.pos += digits[0].length;
+    return Number(digits[0]);
+  }
+
+  /** Read up to the unescaped `delimiter`, turning `\delimiter` into the delimiter itself */
+  private delimited(delimiter: string): string {
+    let out = "";
+    for (;;) {
+      const c = this.script[this.pos++];
+      if (c === undefined) throw fail(`unterminated ${delimiter}...${delimiter}`);
+      if (c === delimiter) return out;
+      if (c === "\\") {
+        const e = this.script[this.pos++];
+        if (e === undefined) throw fail("trailing backslash");
+        out += e === delimiter ? delimiter : "\\" + e;
+      } else if (c === "\n" && delimiter !== "\n") {
+        out += "\\n";
+      } else {
+        out += c;
+      }
+    }
+  }
+
+  /** Compile a regex; an empty one means "the last regex used" */
+  private regex(source: string, flags = ""): RegExp | null {
+    if (source === "") return null;
+    return compileRegex(translateRegex(source, this.extended), flags, "sed");
+  }
+
+  private address(): Address | undefined {
+    const c = this.peek();
+    if (c === "$") {
+      this.pos++;
+      return { type: "last" };
+    }
+    if (/\d/.test(c)) {
+      const first = this.number();
+      if (this.peek() === "~") {
+        this.pos++;
+        return { type: "step", first, step: this.number() };
+      }
+      return { type: "line", line: first };
+    }
+    if (c === "/" || c === "\\") {
+      this.pos++;
+      const delimiter = c === "/" ? "/" : this.script[this.pos++];
+      const source = this.delimited(delimiter);
+      let flags = "";
+      while (this.peek() === "I" || this.peek() === "M") {
+        flags += this.script[this.pos++] === "I" ? "i" : "m";
+      }
+      return { type: "regex", regex: this.regex(source, flags) };
+    }
+    return undefined;
+  }
+
+  /** Text argument of a, i and c: `a text`, or `a\` followed by lines ending in `\` */
+  private text(): string {
+    this.skip(" \t");
+    if (this.peek() === "\\") {
+      this.pos++;
+      this.skip(" \t");
+      if (this.peek() === "\n") this.pos++;
+    }
+    let text = "";
+    for (;;) {
+      const c = this.script[this.pos++];
+      if (c === undefined || c === "\n") break;
+      if (c === "\\" && this.pos < this.script.length) text += "\\" + this.script[this.pos++];
+      else text += c;
+    }
+    return unescapeText(text);
+  }
+
+  private command(): Command {
+    const command: Command = { name: "", negate: false };
+    command.address1 = this.address();
+    if (command.address1 && this.peek() === ",") {
+      this.pos++;
+      if (this.peek() === "+") {
+        this.pos++;
+        command.address2 = { type: "plus", count: this.number() };
+      } else {
+        command.address2 = this.address();
+        if (!command.address2) throw fail("unexpected ,");
+      }
+    }
+    this.skip(" \t");
+    if (this.peek() === "!") {
+      command.negate = true;
+      this.pos++;
+      this.skip(" \t");
+    }
+
+    const name = this.script[this.pos++];
+    command.name = name;
+    switch (name) {
+      case "{":
+      case "}":
+      case "=":
+      case "d":
+      case "D":
+      case "p":
+      case "P":
+      case "n":
+      case "N":
+      case "h":
+      case "H":
+      case "g":
+      case "G":
+      case "x":
+        break;
+      case "q":
+      case "Q":
+        this.skip(" \t");
+        if (/\d/.test(this.peek() ?? "")) this.number();
+        break;
+      case ":": {
+        if (command.address1) throw fail(": doesn't want any addresses");
+        this.skip(" \t");
+        command.label = this.readUntil("\n;").trim();
+        if (!command.label) throw fail('":" lacks a label');
+        break;
+      }
+      case "b":
+      case "t":
+      case "T":
+        this.skip(" \t");
+        command.label = this.readUntil("\n;}").trim() || undefined;
+        break;
+      case "a":
+      case "i":
+      case "c":
+        command.text = this.text();
+        break;
+      case "s": {
+        const delimiter = this.script[this.pos++];
+        if (!delimiter || delimiter === "\n" || delimiter === "\\") {
+          throw fail("unterminated `s' command");
+        }
+        const source = this.delimited(delimiter);
+        command.replacement = this.delimited(delimiter);
+        let flags = "";
+        for (;;) {
+          const f = this.peek();
+          if (f === "g") command.global = true;
+          else if (f === "p") command.print = true;
+          else if (f === "i" || f === "I") flags += "i";
+          else if (f === "m" || f === "M") flags += "m";
+          else if (f !== undefined && /\d/.test(f)) {
+            command.occurrence = this.number();
+            continue;
+          } else if (f === "w" || f === "e") {
+            throw fail(`the ${f} flag of s is not supported (use binary: true)`);
+          } else break;
+          this.pos++;
+        }
+        command.regex = this.regex(source, flags);
+        break;
+      }
+      case "y": {
+        const delimiter = this.script[this.pos++];
+        const from = [...unescapeText(this.delimited(delimiter))];
+        const to = [...unescapeText(this.delimited(delimiter))];
+        if (from.length !== to.length) {
+          throw fail("strings for `y' command are different lengths");
+        }
+        Object.assign(command, { from, to });
+        break;
+      }
+      case undefined:
+        throw fail("missing command");
+      default:
+        throw fail(`unsupported command: ${name} (use binary: true)`);
+    }
+    // Only whitespace, a separator, a comment or a closing brace may follow
+    this.skip(" \t");
+    const next = this.peek();
+    if (next !== undefined && !"\n;}#".includes(next) && !"{aic:btT".includes(name)) {
+      throw fail(`extra characters after command ${name}`);
+    }
+    return command;
+  }
+}
+
+/**
+ * Build the replacement for one match: & is the match, \1-\9 groups, \n a
+ * newline; the GNU \U, \L (until \E) and \u, \l (next character) change case
+ */
+function expandReplacement(replacement: string, match: RegExpExecArray): string {
+  let out = "";
+  let mode = "";
+  let next = "";
+  const add = (text: string) => {
+    for (const c of text) {
+      let char = mode === "U" ? c.toUpperCase() : mode === "L" ? c.toLowerCase() : c;
+      if (next) {
+        char = next === "u" ? char.toUpperCase() : char.toLowerCase();
+        next = "";
+      }
+      out += char;
+    }
+  };
+  for (let i = 0; i < replacement.length; i++) {
+    const c = replacement[i];
+    if (c === "&") {
+      add(match[0]);
+    } else if (c === "\\" && i + 1 < replacement.length) {
+      const e = replacement[++i];
+      if (/[0-9]/.test(e)) add(match[Number(e)] ?? "");
+      else if (e === "U" || e === "L") mode = e;
+      else if (e === "E") mode = "";
+      else if (e === "u" || e === "l") next = e;
+      else add(e === "n" ? "\n" : e === "t" ? "\t" : e);
+    } else {
+      add(c);
+    }
+  }
+  return out;
+}
+
+/** Upper bound on executed commands; a substitution also costs a step per 256 characters */
+const MAX_STEPS = 10_000_000;
+
+/**
+ * Run a sed script over `input` and return what sed would print
+ *
+ * Stops with TIMEOUT or CANCELLED once `signal` or `deadline` says so,
+ * and with INVALID_ARGUMENT past the step limit or when the pattern
+ * space, hold space or output grows beyond MAX_TEXT_LENGTH.
+ */
+export function runSed(
+  script: string,
+  input: string,
+  { quiet = false, extended = false, ...limits }: {
+    quiet?: boolean;
+    extended?: boolean;
+  } & EngineLimits = {},
+): string {
+  const commands = new Parser(script, extended).parse();
+  const lines = splitLines(input);
+  const out: string[] = [];
+  const activeRanges = new Map<number, number>(); // command index -> range end line (or Infinity)
+  let lastRegex: RegExp | null = null;
+  let hold = "";
+  let lineNo = 0;
+  let steps = 0;
+  let nextCheck = 0;
+  let outLength = 0;
+
+  const step = (cost: number) => {
+    steps += cost;
+    if (steps > MAX_STEPS) throw fail("script exceeded the step limit");
+    if (steps >= nextCheck) {
+      checkLimits(limits, "sed");
+      nextCheck = steps + LIMIT_CHECK_STEPS;
+    }
+  };
+  const emit = (text: string) => {
+    outLength += text.length;
+    if (outLength > MAX_TEXT_LENGTH) throw fail("output exceeded the size limit");
+    out.push(text);
+  };
+
+  const useRegex = (regex: RegExp | null | undefined) => {
+    if (regex) lastRegex = regex;
+    if (!lastRegex) throw fail("no previous regular expression");
+    return lastRegex;
+  };
+  const matchesOne = (address: Address, space: string) => {
+    switch (address.type) {
+      case "line":
+        return lineNo === address.line;
+      case "last":
+        return lineNo === lines.length;
+      case "step":
+        return address.step <= 0
+          ? lineNo === address.first
+          : lineNo >= address.first && (lineNo - address.first) % address.step === 0;
+      case "regex":
+        return useRegex(address.regex).test(space);
+    }
+  };
+  const selects = (command: Command, index: number, space: string): boolean => {
+    const { address1, address2 } = command;
+    let selected: boolean;
+    if (!address1) selected = true;
+    else if (!address2) selected = matchesOne(address1, space);
+    else if (activeRanges.has(index)) {
+      const end = activeRanges.get(index)!;
+      const done = end !== Infinity
+        ? lineNo >= end
+        : address2.type === "plus" || matchesOne(address2, space);
+      if (done) activeRanges.delete(index);
+      selected = true;
+    } else if (matchesOne(address1, space)) {
+      selected = true;
+      // A line number at or before the start line ends the range at once
+      if (address2.type === "plus") {
+        if (address2.count > 0) activeRanges.set(index, lineNo + address2.count);
+      } else if (address2.type === "line") {
+        if (address2.line > lineNo) activeRanges.set(index, address2.line);
+      } else {
+        activeRanges.set(index, Infinity);
+      }
+    } else {
+      selected = false;
+    }
+    return selected !== command.negate;
+  };
+
+  let space = "";
+  let quit = false;
+  let restart = false;
+  while (!quit && (restart || lineNo < lines.length)) {
+    if (!restart) space = lines[lineNo++];
+    restart = false;
+    const appended: string[] = [];
+    let autoprint = !quiet;
+    let substituted = false;
+
+    for (let pc = 0; pc < commands.length; pc++) {
+      step(1);
+      const command = commands[pc];
+      if (command.name === "}" || command.name === ":") continue;
+      if (!selects(command, pc, space)) {
+        if (command.name === "{") pc = command.target!;
+        continue;
+      }
+      let endCycle = false;
+      switch (command.name) {
+        case "=":
+          emit(`${lineNo}\n`);
+          break;
+        case "p":
+          emit(space + "\n");
+          break;
+        case "P":
+          emit(space.split("\n")[0] + "\n");
+          break;
+        case "d":
+          autoprint = false;
+          endCycle = true;
+          break;
+        case "D": {
+          const newline = space.indexOf("\n");
+          autoprint = false;
+          endCycle = true;
+          if (newline !== -1) {
+            space = space.slice(newline + 1);
+            restart = true;
+          }
+          break;
+        }
+        case "n":
+        case "N":
+          if (lineNo >= lines.length) {
+            // No next line: GNU sed prints the pattern space and stops
+            quit = true;
+            endCycle = true;
+            break;
+          }
+          if (command.name === "n") {
+            if (!quiet) emit(space + "\n");
+            space = lines[lineNo++];
+          } else {
+            space += "\n" + lines[lineNo++];
+          }
+          break;
+        case "q":
+          quit = true;
+          endCycle = true;
+          break;
+        case "Q":
+          quit = true;
+          autoprint = false;
+          endCycle = true;
+          break;
+        case "a":
+          appended.push(command.text + "\n");
+          break;
+        case "i":
+          emit(command.text + "\n");
+          break;
+        case "c":
+          // With a range, the text replaces the whole range: print it at the end
+          if (!command.address2 || command.negate || !activeRanges.has(pc)) {
+            emit(command.text + "\n");
+          }
+          autoprint = false;
+          endCycle = true;
+          break;
+        case "h":
+          hold = space;
+          break;
+        case "H":
+          hold += "\n" + space;
+          break;
+        case "g":
+          space = hold;
+          break;
+        case "G":
+          space += "\n" + hold;
+          break;
+        case "x":
+          [space, hold] = [hold, space];
+          break;
+        case "y":
+          space = [...space].map((c) => {
+            const i = command.from!.indexOf(c);
+            return i === -1 ? c : command.to![i];
+          }).join("");
+          break;
+        case "b":
+          pc = command.target ?? commands.length;
+          break;
+        case "t":
+        case "T":
+          // Either branch resets the flag that a substitution was made
+          if (substituted === (command.name === "t")) pc = command.target ?? commands.length;
+          substituted = false;
+          break;
+        case "s": {
+          step(space.length >> 8);
+          const source = useRegex(command.regex);
+          const regex = new RegExp(source.source, source.flags + "g");
+          const nth = command.occurrence ?? 1;
+          let count = 0;
+          let replaced = false;
+          let result = "";
+          let last = 0;
+          let previousEnd = -1;
+          for (let match = regex.exec(space); match; match = regex.exec(space)) {
+            if (match[0] === "") regex.lastIndex++;
+            // An empty match right after the previous match does not count
+            if (match[0] === "" && match.index === previousEnd) continue;
+            previousEnd = match.index + match[0].length;
+            count++;
+            if (count < nth) continue;
+            result += space.slice(last, match.index) +
+              expandReplacement(command.replacement!, match);
+            if (result.length > MAX_TEXT_LENGTH) {
+              throw fail("pattern or hold space exceeded the size limit");
+            }
+            last = match.index + match[0].length;
+            replaced = true;
+            if (!command.global) break;
+          }
+          if (replaced) {
+            space = result + space.slice(last);
+            substituted = true;
+            if (command.print) emit(space + "\n");
+          }
+          break;
+        }
+      }
+      if (space.length > MAX_TEXT_LENGTH || hold.length > MAX_TEXT_LENGTH) {
+        throw fail("pattern or hold space exceeded the size limit");
+      }
+      if (endCycle) break;
+    }
+
+    if (autoprint) emit(space + "\n");
+    appended.forEach(emit);
+  }
+
+  const output = out.join("");
+  // Like GNU sed, keep a missing final newline missing
+  return !input.endsWith("\n") && output.endsWith("\n") ? output.slice(0, -1) : output;
+}
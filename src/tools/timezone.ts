@@ -7,6 +7,8 @@
  * @module lib/std/timezone
  */
 
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 // Common timezones with their IANA names
@@ -79,6 +81,7 @@ export const timezoneTools: MiniTool[] = [
     description:
       "Convert time between timezones using native Intl API. Supports IANA timezone names and common abbreviations. Keywords: timezone convert, time zone, convert time, world clock, time difference.",
     category: "timezone",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -110,7 +113,7 @@ export const timezoneTools: MiniTool[] = [
         } else {
           date = new Date(time as string);
           if (isNaN(date.getTime())) {
-            return { error: "Invalid date format" };
+            throw new ToolError("INVALID_ARGUMENT", "Invalid date format");
           }
         }
 
@@ -188,7 +191,7 @@ export const timezoneTools: MiniTool[] = [
           utc: date.toISOString(),
         };
       } catch (e) {
-        return { error: (e as Error).message };
+        throw new ToolError("INVALID_ARGUMENT", (e as Error).message, { cause: e });
       }
     },
   },
@@ -197,6 +200,7 @@ export const timezoneTools: MiniTool[] = [
     description:
       "Show current time in multiple timezones around the world. Get a quick overview of global times. Use for scheduling across timezones. Keywords: world clock, global time, multiple timezones, time around world.",
     category: "timezone",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -299,6 +303,7 @@ export const timezoneTools: MiniTool[] = [
     description:
       "Get UTC offset for a timezone at a specific time. Handles daylight saving time automatically. Keywords: timezone offset, UTC offset, DST, daylight saving, time difference.",
     category: "timezone",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -312,7 +317,7 @@ export const timezoneTools: MiniTool[] = [
       const targetDate = date ? new Date(date as string) : new Date();
 
       if (isNaN(targetDate.getTime())) {
-        return { error: "Invalid date" };
+        throw new ToolError("INVALID_ARGUMENT", "Invalid date");
       }
 
       try {
@@ -363,7 +368,7 @@ export const timezoneTools: MiniTool[] = [
           isDstActive: isDst,
         };
       } catch (e) {
-        return { error: (e as Error).message };
+        throw new ToolError("INVALID_ARGUMENT", (e as Error).message, { cause: e });
       }
     },
   },
@@ -372,6 +377,7 @@ export const timezoneTools: MiniTool[] = [
     description:
       "List available timezones, optionally filtered by region. Get IANA timezone names for use in other tools. Keywords: timezone list, IANA timezones, available timezones, timezone names.",
     category: "timezone",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -427,6 +433,7 @@ export const timezoneTools: MiniTool[] = [
     description:
       "Find suitable meeting times across multiple timezones. Suggest times that work for all participants within working hours. Keywords: meeting planner, schedule meeting, working hours, cross-timezone, best time.",
     category: "timezone",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -1,20 +1,51 @@
 /**
  * Data transformation tools
  *
- * Uses papaparse for CSV operations.
+ * Uses papaparse for CSV operations; parseCsv and toCsv are shared with the
+ * sqlite_import_csv and sqlite_export tools.
  *
  * @module lib/std/transform
  */
 
 import Papa from "papaparse";
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
+/** Options for parseCsv */
+export interface CsvParseOptions {
+  /** First row is the header (default: true) */
+  header?: boolean;
+  /** Field delimiter (default: detected) */
+  delimiter?: string;
+  /** Skip empty lines (default: true) */
+  skipEmptyLines?: boolean;
+  /** Convert numbers and booleans (default: true) */
+  dynamicTyping?: boolean;
+}
+
+/**
+ * Parse CSV text (header row and number/boolean conversion on by default,
+ * empty lines skipped)
+ */
+export function parseCsv(csv: string, options: CsvParseOptions = {}): Papa.ParseResult<unknown> {
+  return Papa.parse(csv, { header: true, dynamicTyping: true, skipEmptyLines: true, ...options });
+}
+
+/**
+ * Write rows (objects, or arrays with `columns` as the header) as CSV
+ */
+export function toCsv(data: unknown[], options: Papa.UnparseConfig = {}): string {
+  return Papa.unparse(data, options);
+}
+
 export const transformTools: MiniTool[] = [
   {
     name: "transform_csv_parse",
     description:
       "Parse CSV string into array of objects with automatic type conversion. Supports custom delimiters, header detection, and empty line handling. Use for importing spreadsheet data, processing exports, or data ingestion. Keywords: parse CSV, CSV to JSON, read CSV, import spreadsheet, CSV parser, comma separated.",
     category: "transform",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/table-viewer",
@@ -36,7 +67,7 @@ export const transformTools: MiniTool[] = [
     handler: (
       { csv, header = true, delimiter = ",", skipEmptyLines = true, dynamicTyping = true },
     ) => {
-      const result = Papa.parse(csv as string, {
+      const result = parseCsv(csv as string, {
         header: header as boolean,
         delimiter: delimiter as string,
         skipEmptyLines: skipEmptyLines as boolean,
@@ -55,6 +86,7 @@ export const transformTools: MiniTool[] = [
     description:
       "Convert array of objects to CSV string with configurable options. Control headers, delimiters, column selection, and quoting. Use for data export, report generation, or spreadsheet creation. Keywords: to CSV, export CSV, array to CSV, generate CSV, create spreadsheet, CSV writer.",
     category: "transform",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -78,7 +110,7 @@ export const transformTools: MiniTool[] = [
       required: ["data"],
     },
     handler: ({ data, header = true, delimiter = ",", columns, quotes = false }) => {
-      const result = Papa.unparse(data as unknown[], {
+      const result = toCsv(data as unknown[], {
         header: header as boolean,
         delimiter: delimiter as string,
         columns: columns as string[] | undefined,
@@ -92,6 +124,7 @@ export const transformTools: MiniTool[] = [
     description:
       "Convert JSON array to CSV with optional nested object flattening. Transforms complex JSON data into flat CSV format. Use for exporting API data, generating reports, or data interchange. Keywords: JSON to CSV, export JSON, flatten to CSV, convert JSON, data export, JSON CSV.",
     category: "transform",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/table-viewer",
@@ -135,7 +168,7 @@ export const transformTools: MiniTool[] = [
         );
       }
 
-      return Papa.unparse(data as unknown[], { delimiter: delimiter as string });
+      return toCsv(data as unknown[], { delimiter: delimiter as string });
     },
   },
   {
@@ -143,6 +176,7 @@ export const transformTools: MiniTool[] = [
     description:
       "Convert CSV to JSON array with automatic type detection (numbers, booleans). Parse spreadsheet data into structured objects. Use for data import, processing CSV files, or ETL pipelines. Keywords: CSV to JSON, parse CSV, import CSV, CSV parser, spreadsheet to JSON, data import.",
     category: "transform",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -159,12 +193,7 @@ export const transformTools: MiniTool[] = [
       required: ["csv"],
     },
     handler: ({ csv, header = true }) => {
-      const result = Papa.parse(csv as string, {
-        header: header as boolean,
-        dynamicTyping: true,
-        skipEmptyLines: true,
-      });
-      return result.data;
+      return parseCsv(csv as string, { header: header as boolean }).data;
     },
   },
   {
@@ -172,6 +201,7 @@ export const transformTools: MiniTool[] = [
     description:
       "Convert XML to JSON object structure. Parse XML elements, attributes, and text content into nested objects. Handles basic XML structures for data extraction. Use for API integration, config parsing, or legacy data. Keywords: XML to JSON, parse XML, XML parser, convert XML, read XML, XML object.",
     category: "transform",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -238,7 +268,7 @@ export const transformTools: MiniTool[] = [
       try {
         return parseNode(xml as string);
       } catch (e) {
-        return { error: (e as Error).message };
+        throw new ToolError("INVALID_ARGUMENT", (e as Error).message, { cause: e });
       }
     },
   },
@@ -247,6 +277,7 @@ export const transformTools: MiniTool[] = [
     description:
       "Convert JSON object to XML string with proper formatting. Handles nested objects, arrays, and attributes (@-prefixed keys). Configurable root element and indentation. Use for API output, config generation, or data export. Keywords: JSON to XML, generate XML, create XML, convert to XML, XML output, build XML.",
     category: "transform",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/xml-viewer",
@@ -317,6 +348,7 @@ export const transformTools: MiniTool[] = [
     description:
       "Encode or decode base64 strings. Convert binary data or text to base64 for transmission, or decode base64 back to original. Use for data URI creation, API payloads, or embedded content. Keywords: base64 encode, base64 decode, btoa atob, binary to text, encode string, data URI.",
     category: "transform",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
@@ -344,6 +376,7 @@ export const transformTools: MiniTool[] = [
     description:
       "Simple template string replacement using {{placeholder}} syntax. Replace placeholders with values from a data object. Use for email templates, dynamic content, or string interpolation. Keywords: template replace, string interpolation, placeholder, mustache, variable substitution, template engine.",
     category: "transform",
+    annotations: READ_ONLY,
     _meta: {
       ui: {
         resourceUri: "ui://mcp-std/json-viewer",
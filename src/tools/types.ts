@@ -10,11 +10,31 @@ import type { McpUiToolMeta, MCPToolMeta } from "@casys/mcp-server";
 // Re-export for convenience
 export type { McpUiToolMeta, MCPToolMeta };
 
+/**
+ * MCP tool annotations
+ *
+ * Behavioural hints clients use to decide how carefully to gate a call.
+ * Hints are advisory and describe the worst case across all arguments.
+ */
+export interface ToolAnnotations {
+  /** Human-readable title */
+  title?: string;
+  /** The tool does not modify its environment */
+  readOnlyHint?: boolean;
+  /** The tool may delete or overwrite existing data (only meaningful when not read-only) */
+  destructiveHint?: boolean;
+  /** Repeating a call with the same arguments has no additional effect */
+  idempotentHint?: boolean;
+  /** The tool interacts with external systems (network, remote hosts, clusters) */
+  openWorldHint?: boolean;
+}
+
 /** MCP Tool definition */
 export interface MCPTool {
   name: string;
   description: string;
   inputSchema: Record<string, unknown>;
+  annotations?: ToolAnnotations;
   _meta?: MCPToolMeta;
 }
 
@@ -33,6 +53,7 @@ export interface MCPToolWireFormat {
   name: string;
   description: string;
   inputSchema: Record<string, unknown>;
+  annotations?: ToolAnnotations;
   _meta?: {
     ui?: {
       resourceUri: string;
@@ -99,8 +120,40 @@ export type ToolCategory =
   | "textanalysis"
   | "timezone";
 
+/** Per-call context passed to tool handlers */
+export interface ToolContext {
+  /**
+   * Aborted when the caller cancels the call or its timeout elapses.
+   * Handlers pass it on to runCommand, fetch and other long operations.
+   */
+  signal: AbortSignal;
+  /** Epoch milliseconds at which the call times out, if it has a timeout */
+  deadline?: number;
+  /**
+   * Report how far a long-running call has got. Updates that do not move
+   * `current` forward are dropped, so handlers can report freely.
+   */
+  reportProgress: ProgressReporter;
+  /**
+   * Whether anyone listens to reportProgress(). Handlers skip work done only
+   * to measure progress (extra command output, counting inputs) when false.
+   */
+  progressRequested: boolean;
+  /** MCP session the call came from, when the transport has sessions */
+  sessionId?: string;
+}
+
+/**
+ * Progress callback: `current` out of `total` (omitted when unknown), in
+ * whatever unit the tool counts — bytes, layers, files, seconds of media.
+ */
+export type ProgressReporter = (current: number, total?: number, message?: string) => void;
+
 /** Mini tool handler function type */
-export type MiniToolHandler = (args: Record<string, unknown>) => Promise<unknown> | unknown;
+export type MiniToolHandler = (
+  args: Record<string, unknown>,
+  ctx?: ToolContext,
+) => Promise<unknown> | unknown;
 
 /** Mini tool result type */
 export type MiniToolResult = unknown;
@@ -112,20 +165,60 @@ export interface MiniTool {
   category: ToolCategory;
   inputSchema: Record<string, unknown>;
   handler: MiniToolHandler;
+  /** Behavioural hints (read-only, destructive, idempotent, open world) */
+  annotations?: ToolAnnotations;
   /** MCP Apps metadata for UI association (SEP-1865) */
   _meta?: MCPToolMeta;
 }
 
+/** A concrete resource, as advertised in resources/list */
+export interface ResourceInfo {
+  uri: string;
+  name: string;
+  mimeType?: string;
+}
+
+/** Contents of a resource: `text`, or base64 `blob` for binary data */
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * Data a tool category also exposes as MCP resources under its own URI
+ * scheme (e.g. vfs:// for the vfs_* tools)
+ */
+export interface ResourceProvider {
+  /** Only exposed when tools of this category are loaded */
+  category: ToolCategory;
+  /** RFC 6570 URI template, e.g. "vfs:///{+path}" */
+  uriTemplate: string;
+  name: string;
+  description: string;
+  /** Resources to advertise in resources/list */
+  list(): Promise<ResourceInfo[]> | ResourceInfo[];
+  /** Read one resource; throws a NOT_FOUND ToolError for unknown URIs */
+  read(uri: string): Promise<ResourceContents> | ResourceContents;
+  /** Call `listener` with the URI of every resource that changes; returns an unsubscribe function */
+  watch(listener: (uri: string) => void): () => void;
+}
+
 /** Helper to create a tool with type safety */
 export function defineTool(
   name: string,
   description: string,
   category: ToolCategory,
   inputSchema: Record<string, unknown>,
-  handler: (args: Record<string, unknown>) => Promise<unknown> | unknown,
+  handler: MiniToolHandler,
   meta?: MCPToolMeta,
+  annotations?: ToolAnnotations,
 ): MiniTool {
   const tool: MiniTool = { name, description, category, inputSchema, handler };
+  if (annotations) {
+    tool.annotations = annotations;
+  }
   if (meta) {
     tool._meta = meta;
   }
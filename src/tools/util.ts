@@ -7,6 +7,8 @@
  * @module lib/std/util
  */
 
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 // HTTP Status codes reference
@@ -399,11 +401,18 @@ const MIME_TYPES: Record<string, { mime: string; description: string; binary: bo
   wasm: { mime: "application/wasm", description: "WebAssembly binary", binary: true },
 };
 
+/** MIME type for a file name or extension, if known (also used for vfs:// resources) */
+export function lookupMimeType(nameOrExt: string): string | undefined {
+  const ext = nameOrExt.slice(nameOrExt.lastIndexOf(".") + 1).toLowerCase();
+  return MIME_TYPES[ext]?.mime;
+}
+
 export const utilTools: MiniTool[] = [
   {
     name: "util_http_status",
     description: "Look up HTTP status code information",
     category: "util",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -433,6 +442,7 @@ export const utilTools: MiniTool[] = [
     name: "util_http_status_list",
     description: "List all HTTP status codes, optionally filtered by category",
     category: "util",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -459,6 +469,7 @@ export const utilTools: MiniTool[] = [
     name: "util_mime_type",
     description: "Look up MIME type by file extension",
     category: "util",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -492,6 +503,7 @@ export const utilTools: MiniTool[] = [
     name: "util_mime_reverse",
     description: "Find file extensions for a MIME type",
     category: "util",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -516,6 +528,7 @@ export const utilTools: MiniTool[] = [
     name: "util_rem_px",
     description: "Convert between REM and PX units",
     category: "util",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -541,6 +554,7 @@ export const utilTools: MiniTool[] = [
     name: "util_format_css",
     description: "Format or minify CSS code",
     category: "util",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -587,6 +601,7 @@ export const utilTools: MiniTool[] = [
     name: "util_normalize_email",
     description: "Normalize email address (lowercase, remove dots in gmail, etc.)",
     category: "util",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -606,7 +621,7 @@ export const utilTools: MiniTool[] = [
       const original = email as string;
       const parts = original.toLowerCase().split("@");
       if (parts.length !== 2) {
-        throw new Error(`Invalid email: ${email}`);
+        throw new ToolError("INVALID_ARGUMENT", `Invalid email: ${email}`);
       }
 
       let [local, domain] = parts;
@@ -638,6 +653,7 @@ export const utilTools: MiniTool[] = [
     name: "util_port_numbers",
     description: "Look up common port numbers or find port by service name",
     category: "util",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -744,6 +760,7 @@ export const utilTools: MiniTool[] = [
     name: "util_file_signature",
     description: "Identify file type from magic bytes / file signature (hex)",
     category: "util",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -930,7 +947,7 @@ export const utilTools: MiniTool[] = [
       }
 
       if (!hexString) {
-        throw new Error("Provide either 'hex' or 'base64' parameter");
+        throw new ToolError("INVALID_ARGUMENT", "Provide either 'hex' or 'base64' parameter");
       }
 
       // Find matching signatures
@@ -961,6 +978,7 @@ export const utilTools: MiniTool[] = [
     name: "util_user_agent_parse",
     description: "Parse a User-Agent string to extract browser, OS, and device info",
     category: "util",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -1049,6 +1067,7 @@ export const utilTools: MiniTool[] = [
     name: "util_slugify",
     description: "Convert text to URL-safe slug",
     category: "util",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
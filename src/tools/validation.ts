@@ -8,6 +8,8 @@
 
 import { z } from "zod";
 import validator from "validator";
+import { READ_ONLY } from "./annotations.ts";
+import { ToolError } from "./errors.ts";
 import type { MiniTool } from "./types.ts";
 
 export const validationTools: MiniTool[] = [
@@ -16,6 +18,7 @@ export const validationTools: MiniTool[] = [
     description:
       "Validate email address format and normalize. Check if email follows RFC standards, normalize domain case and gmail dots. Use for form validation, user registration, or data cleaning. Keywords: validate email, email format, check email, email validator, email regex, normalize email.",
     category: "validation",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -40,6 +43,7 @@ export const validationTools: MiniTool[] = [
     description:
       "Validate URL format with configurable protocol requirements. Check if string is a valid URL, specify allowed protocols (http, https, ftp). Use for link validation, form inputs, or security checks. Keywords: validate URL, URL format, check URL, URL validator, valid link, protocol check.",
     category: "validation",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -72,6 +76,7 @@ export const validationTools: MiniTool[] = [
     description:
       "Validate UUID format with optional version check (v1-v5). Verify UUIDs from databases, APIs, or user input. Use for ID validation, data integrity, or input sanitization. Keywords: validate UUID, UUID format, check UUID, GUID validate, UUID version, unique identifier.",
     category: "validation",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -96,6 +101,7 @@ export const validationTools: MiniTool[] = [
     description:
       "Validate credit card number using Luhn algorithm. Check if card number has valid checksum without knowing the issuer. Use for payment form validation or data verification. Keywords: credit card validate, Luhn algorithm, card number check, payment validation, checksum verify.",
     category: "validation",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -119,6 +125,7 @@ export const validationTools: MiniTool[] = [
     description:
       "Validate IP address format for IPv4 or IPv6. Check if string is valid IP address, detect version automatically. Use for network configuration, firewall rules, or access control. Keywords: validate IP, IP address, IPv4 IPv6, IP format, check IP, network address.",
     category: "validation",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -145,6 +152,7 @@ export const validationTools: MiniTool[] = [
     description:
       "Validate JSON string syntax and parse. Check if string is valid JSON, returns parsed object on success or error details on failure. Use for API input validation, config file checking, or data import. Keywords: validate JSON, parse JSON, JSON syntax, check JSON, valid JSON, JSON error.",
     category: "validation",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -164,7 +172,7 @@ export const validationTools: MiniTool[] = [
         const parsed = JSON.parse(json as string);
         return { valid: true, parsed };
       } catch (e) {
-        return { valid: false, error: (e as Error).message };
+        return { valid: false, reason: (e as Error).message };
       }
     },
   },
@@ -173,6 +181,7 @@ export const validationTools: MiniTool[] = [
     description:
       "Validate data against a Zod-compatible schema definition. Define expected types, constraints (min/max, patterns), and required fields. Get detailed error messages with paths. Use for API validation, form validation, or data contracts. Keywords: schema validation, Zod validate, type checking, data validation, contract validation, input schema.",
     category: "validation",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -254,7 +263,9 @@ export const validationTools: MiniTool[] = [
           })),
         };
       } catch (e) {
-        return { valid: false, error: (e as Error).message };
+        throw new ToolError("INVALID_ARGUMENT", `Invalid schema: ${(e as Error).message}`, {
+          cause: e,
+        });
       }
     },
   },
@@ -263,6 +274,7 @@ export const validationTools: MiniTool[] = [
     description:
       "Validate mobile phone number format with locale support. Check if number matches expected format for specific countries or any locale. Use for contact form validation or international phone numbers. Keywords: validate phone, phone number, mobile number, phone format, international phone, locale phone.",
     category: "validation",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -290,6 +302,7 @@ export const validationTools: MiniTool[] = [
     description:
       "Validate date string format against ISO8601 or custom format. Check if date string is properly formatted and represents valid date. Use for form validation, data import, or date parsing. Keywords: validate date, date format, ISO8601, check date, date string, parse date.",
     category: "validation",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -318,6 +331,7 @@ export const validationTools: MiniTool[] = [
     description:
       "Validate IBAN (International Bank Account Number) with checksum verification. Supports 90+ countries, validates length, format, and mod-97 checksum. Returns country code, BBAN, and formatted display. Use for banking, payments, or financial forms. Keywords: IBAN validate, bank account, checksum, international bank, BBAN, payment validation.",
     category: "validation",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -338,12 +352,12 @@ export const validationTools: MiniTool[] = [
 
       // IBAN must be at least 15 characters
       if (cleaned.length < 15 || cleaned.length > 34) {
-        return { valid: false, error: "Invalid IBAN length" };
+        return { valid: false, reason: "Invalid IBAN length" };
       }
 
       // Check format: 2 letters + 2 digits + alphanumeric
       if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(cleaned)) {
-        return { valid: false, error: "Invalid IBAN format" };
+        return { valid: false, reason: "Invalid IBAN format" };
       }
 
       // Country code lengths
@@ -433,7 +447,7 @@ export const validationTools: MiniTool[] = [
       if (expectedLength && cleaned.length !== expectedLength) {
         return {
           valid: false,
-          error:
+          reason:
             `Invalid length for ${countryCode}: expected ${expectedLength}, got ${cleaned.length}`,
         };
       }
@@ -474,6 +488,7 @@ export const validationTools: MiniTool[] = [
     description:
       "Validate credit card with Luhn algorithm and detect card type (Visa, Mastercard, Amex, Discover, Diners, JCB). Returns card type, last 4 digits, and masked number. Use for payment forms, card identification, or checkout flows. Keywords: credit card type, Visa Mastercard, card detect, payment card, card validation, card brand.",
     category: "validation",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -492,7 +507,7 @@ export const validationTools: MiniTool[] = [
       const cleaned = (number as string).replace(/[\s-]/g, "");
 
       if (!/^\d{13,19}$/.test(cleaned)) {
-        return { valid: false, error: "Invalid card number format" };
+        return { valid: false, reason: "Invalid card number format" };
       }
 
       // Luhn algorithm
@@ -535,6 +550,7 @@ export const validationTools: MiniTool[] = [
     description:
       "Generate and display a form from a JSON Schema definition. Render interactive form fields based on schema properties, types, and validation rules. Useful for dynamic forms, settings pages, or data entry UIs. Keywords: form, schema, JSON Schema, form generator, dynamic form, input fields.",
     category: "validation",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -1,72 +1,202 @@
 /**
  * Virtual Filesystem (VFS) tools
  *
- * In-memory file operations for sandboxed environments.
+ * In-memory file operations for sandboxed environments. Files live in a
+ * directory tree (see vfstree.ts) with binary content, Unix-style modes and
+ * size quotas. vfs_import/vfs_export move files to and from allowed host
+ * directories (see vfshost.ts); vfs_snapshot/vfs_restore keep in-memory
+ * checkpoints of the whole tree. Files are also exposed as vfs:///<path>
+ * MCP resources (vfsResources).
  *
  * @module lib/std/vfs
  */
 
-import type { MiniTool } from "./types.ts";
+import {
+  ADDITIVE_IDEMPOTENT,
+  DESTRUCTIVE,
+  DESTRUCTIVE_IDEMPOTENT,
+  READ_ONLY,
+} from "./annotations.ts";
+import { ToolError } from "./errors.ts";
+import type { MiniTool, ResourceProvider } from "./types.ts";
+import { lookupMimeType } from "./util.ts";
+import {
+  checkHostPath,
+  detectHostFormat,
+  exportToHost,
+  type HostFormat,
+  importFromHost,
+} from "./vfshost.ts";
+import {
+  decodeBase64,
+  encodeBase64,
+  normalizeVfsPath,
+  vfsGlobToRegex,
+  type VfsLimits,
+  VirtualFileSystem,
+} from "./vfstree.ts";
 
 // In-memory virtual filesystem storage
-const vfsStorage = new Map<string, { content: string; createdAt: Date; updatedAt: Date }>();
+const vfsStorage = new VirtualFileSystem();
+
+/** Change the vfs size quotas (called by server.ts from the `vfs` config) */
+export function setVfsLimits(limits: Partial<VfsLimits>): void {
+  vfsStorage.setLimits(limits);
+}
+
+/** Named checkpoints taken by vfs_snapshot, oldest first */
+const checkpoints = new Map<string, { fs: VirtualFileSystem; createdAt: Date }>();
+const MAX_CHECKPOINTS = 20;
+
+const utf8 = new TextDecoder("utf-8", { fatal: true });
+
+/** Decode content given as text or base64 */
+function toBytes(content: string, encoding: unknown): Uint8Array {
+  return encoding === "base64" ? decodeBase64(content) : new TextEncoder().encode(content);
+}
+
+/** Content as UTF-8 text, or base64 when asked for or when it is not valid UTF-8 */
+function fromBytes(data: Uint8Array, encoding: unknown): { content: string; encoding: string } {
+  if (encoding !== "base64") {
+    try {
+      return { content: utf8.decode(data), encoding: "utf8" };
+    } catch (e) {
+      if (encoding === "utf8") {
+        throw new ToolError("INVALID_ARGUMENT", "File is not valid UTF-8; read it as base64", {
+          cause: e,
+        });
+      }
+    }
+  }
+  return { content: encodeBase64(data), encoding: "base64" };
+}
+
+/** Parse a mode given as an octal string ("644") or a number */
+function parseMode(mode: unknown): number | undefined {
+  if (mode === undefined) return undefined;
+  const parsed = typeof mode === "number" ? mode : parseInt(String(mode), 8);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > 0o777) {
+    throw new ToolError("INVALID_ARGUMENT", `Invalid mode: ${mode} (expected octal like "644")`);
+  }
+  return parsed;
+}
+
+const FORMAT_PROPERTY = {
+  type: "string",
+  enum: ["directory", "tar", "zip", "json"],
+  description: "Host format (default: from the extension: .tar/.tar.gz/.tgz, .zip, .json, " +
+    "else directory)",
+};
+
+const MODE_PROPERTY = {
+  type: ["string", "number"],
+  description: "Permissions as an octal string, e.g. '644' (read-only: '444')",
+};
+
+/** Resource URI of a vfs path: vfs:///<path> with each segment percent-encoded */
+export function vfsResourceUri(path: string): string {
+  return "vfs://" + normalizeVfsPath(path).split("/").map(encodeURIComponent).join("/");
+}
+
+/** Vfs path of a vfs:/// resource URI */
+function vfsPathOf(uri: string): string {
+  if (!uri.startsWith("vfs://")) {
+    throw new ToolError("NOT_FOUND", `Not a vfs resource: ${uri}`);
+  }
+  try {
+    return normalizeVfsPath(
+      uri.slice("vfs://".length).split("/").map(decodeURIComponent).join("/"),
+    );
+  } catch (e) {
+    throw new ToolError("INVALID_ARGUMENT", `Malformed vfs resource URI: ${uri}`, { cause: e });
+  }
+}
+
+const MAX_LISTED_RESOURCES = 1000;
+
+/** Vfs files as MCP resources; directories read as a JSON listing */
+export const vfsResources: ResourceProvider = {
+  category: "vfs",
+  uriTemplate: "vfs:///{+path}",
+  name: "Virtual filesystem",
+  description: "Files written with the vfs_* tools",
+  list: () =>
+    [...vfsStorage.walk("/")]
+      .filter(([, node]) => node.type === "file")
+      .slice(0, MAX_LISTED_RESOURCES)
+      .map(([path]) => ({
+        uri: vfsResourceUri(path),
+        name: path,
+        mimeType: lookupMimeType(path) ?? "application/octet-stream",
+      })),
+  read: (uri) => {
+    const path = vfsPathOf(uri);
+    const stat = vfsStorage.stat(path);
+    if (!stat) throw new ToolError("NOT_FOUND", `File not found: ${path}`);
+    if (stat.type === "directory") {
+      const entries = vfsStorage.list(path);
+      return { uri, mimeType: "application/json", text: JSON.stringify(entries, null, 2) };
+    }
+    const { content, encoding } = fromBytes(vfsStorage.readFile(path), "auto");
+    if (encoding === "utf8") {
+      return { uri, mimeType: lookupMimeType(path) ?? "text/plain", text: content };
+    }
+    return { uri, mimeType: lookupMimeType(path) ?? "application/octet-stream", blob: content };
+  },
+  watch: (listener) => vfsStorage.watch((path) => listener(vfsResourceUri(path))),
+};
 
 export const vfsTools: MiniTool[] = [
   {
     name: "vfs_write",
     description:
-      "Write content to a virtual file in memory. Create or overwrite files in sandboxed storage with optional append mode. Use for temporary storage, testing, or environments without filesystem access. Keywords: virtual file, in-memory write, sandbox file, temp storage, create file, append file.",
+      "Write content to a virtual file in memory. Create or overwrite files in sandboxed storage with optional append mode; parent directories are created as needed. Binary content can be passed as base64. Use for temporary storage, testing, or environments without filesystem access. Keywords: virtual file, in-memory write, sandbox file, temp storage, create file, append file, binary upload.",
     category: "vfs",
+    annotations: DESTRUCTIVE,
     inputSchema: {
       type: "object",
       properties: {
         path: { type: "string", description: "Virtual file path" },
         content: { type: "string", description: "Content to write" },
+        encoding: {
+          type: "string",
+          enum: ["utf8", "base64"],
+          description: "How content is encoded (default: utf8)",
+        },
         append: { type: "boolean", description: "Append instead of overwrite (default: false)" },
+        mode: MODE_PROPERTY,
       },
       required: ["path", "content"],
     },
-    handler: ({ path, content, append = false }) => {
-      const p = path as string;
-      const c = content as string;
-      const now = new Date();
-
-      if (append && vfsStorage.has(p)) {
-        const existing = vfsStorage.get(p)!;
-        vfsStorage.set(p, {
-          content: existing.content + c,
-          createdAt: existing.createdAt,
-          updatedAt: now,
-        });
-      } else {
-        vfsStorage.set(p, {
-          content: c,
-          createdAt: vfsStorage.get(p)?.createdAt || now,
-          updatedAt: now,
-        });
-      }
-      return { success: true, path: p, size: vfsStorage.get(p)!.content.length };
+    handler: ({ path, content, encoding, append = false, mode }) => {
+      const stat = vfsStorage.writeFile(path as string, toBytes(content as string, encoding), {
+        append: append as boolean,
+        mode: parseMode(mode),
+      });
+      return { success: true, path: stat.path, size: stat.size };
     },
   },
   {
     name: "vfs_read",
     description:
-      "Read content from a virtual file in memory. Retrieve previously stored data from sandboxed storage. Returns content and file size if exists. Use for accessing temp data, reading cached content, or sandbox testing. Keywords: virtual file read, in-memory read, get file, sandbox read, temp file, retrieve content.",
+      "Read content from a virtual file in memory. Retrieve previously stored data from sandboxed storage. Returns text, or base64 for binary files. Use for accessing temp data, reading cached content, or sandbox testing. Keywords: virtual file read, in-memory read, get file, sandbox read, temp file, retrieve content, binary download.",
     category: "vfs",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
         path: { type: "string", description: "Virtual file path" },
+        encoding: {
+          type: "string",
+          enum: ["auto", "utf8", "base64"],
+          description: "Text, base64, or auto: text unless the file is binary (default: auto)",
+        },
       },
       required: ["path"],
     },
-    handler: ({ path }) => {
-      const p = path as string;
-      const file = vfsStorage.get(p);
-      if (!file) {
-        return { error: `File not found: ${p}`, exists: false };
-      }
-      return { content: file.content, exists: true, size: file.content.length };
+    handler: ({ path, encoding = "auto" }) => {
+      const data = vfsStorage.readFile(path as string);
+      return { ...fromBytes(data, encoding), exists: true, size: data.length };
     },
   },
   {
@@ -74,6 +204,7 @@ export const vfsTools: MiniTool[] = [
     description:
       "Delete a virtual file from memory storage. Remove files from sandboxed filesystem permanently. Returns success status indicating if file existed. Use for cleanup, freeing memory, or resetting state. Keywords: virtual file delete, remove file, sandbox delete, clear temp, file cleanup, unlink.",
     category: "vfs",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -82,45 +213,86 @@ export const vfsTools: MiniTool[] = [
       required: ["path"],
     },
     handler: ({ path }) => {
-      const p = path as string;
-      const existed = vfsStorage.delete(p);
+      const p = normalizeVfsPath(path as string);
+      const existed = vfsStorage.unlink(p);
       return { success: existed, deleted: p };
     },
   },
   {
     name: "vfs_list",
     description:
-      "List virtual files in memory with optional glob pattern filtering. Shows file paths, sizes, and timestamps. Use for directory listing, finding files, or inventory of virtual storage. Keywords: list files, virtual directory, glob pattern, file listing, sandbox ls, enumerate files.",
+      "List a virtual directory: files and subdirectories with type, size, mode and timestamps. Optionally recursive or filtered by glob pattern. Use for directory listing, finding files, or inventory of virtual storage. Keywords: list files, virtual directory, glob pattern, file listing, sandbox ls, enumerate files.",
     category: "vfs",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
-        pattern: { type: "string", description: "Glob pattern (e.g., '*.txt', 'dir/*')" },
+        path: { type: "string", description: "Directory to list (default: /)" },
+        recursive: { type: "boolean", description: "Include all subdirectories (default: false)" },
+        pattern: {
+          type: "string",
+          description: "Only entries whose name matches this glob (e.g., '*.txt')",
+        },
       },
     },
-    handler: ({ pattern }) => {
-      const files = Array.from(vfsStorage.entries()).map(([path, meta]) => ({
-        path,
-        size: meta.content.length,
-        createdAt: meta.createdAt.toISOString(),
-        updatedAt: meta.updatedAt.toISOString(),
-      }));
-
-      if (!pattern) return files;
+    handler: ({ path = "/", recursive = false, pattern }) => {
+      const entries = vfsStorage.list(path as string, { recursive: recursive as boolean });
+      if (!pattern) return entries;
 
-      // Simple glob matching
-      const p = pattern as string;
-      const regex = new RegExp(
-        "^" + p.replace(/\./g, "\\.").replace(/\*/g, ".*").replace(/\?/g, ".") + "$",
-      );
-      return files.filter((f) => regex.test(f.path));
+      const regex = vfsGlobToRegex(pattern as string);
+      return entries.filter((entry) => regex.test(`/${entry.path.split("/").pop()}`));
+    },
+  },
+  {
+    name: "vfs_glob",
+    description:
+      "Find virtual files and directories by glob pattern over full paths: '*' and '?' match within a directory, '**' across any depth (e.g., '/src/**/*.ts'). Keywords: glob, find files, search paths, wildcard, recursive match.",
+    category: "vfs",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        pattern: { type: "string", description: "Glob pattern, e.g. '**/*.json'" },
+        type: {
+          type: "string",
+          enum: ["file", "directory"],
+          description: "Only return entries of this type",
+        },
+      },
+      required: ["pattern"],
+    },
+    handler: ({ pattern, type }) => {
+      const matches = vfsStorage.glob(pattern as string);
+      return type ? matches.filter((entry) => entry.type === type) : matches;
+    },
+  },
+  {
+    name: "vfs_stat",
+    description:
+      "Get metadata of a virtual file or directory: type, size in bytes (entry count for directories), permission mode and timestamps. Keywords: stat, file info, metadata, file size, permissions, modified time.",
+    category: "vfs",
+    annotations: READ_ONLY,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Virtual path" },
+      },
+      required: ["path"],
+    },
+    handler: ({ path }) => {
+      const stat = vfsStorage.stat(path as string);
+      if (!stat) {
+        throw new ToolError("NOT_FOUND", `Not found: ${normalizeVfsPath(path as string)}`);
+      }
+      return stat;
     },
   },
   {
     name: "vfs_exists",
     description:
-      "Check if a virtual file exists in memory storage. Quick existence check without reading content. Use for conditional logic, validation before read, or file guards. Keywords: file exists, check file, virtual exists, sandbox stat, file test, path exists.",
+      "Check if a virtual file or directory exists in memory storage. Quick existence check without reading content. Use for conditional logic, validation before read, or file guards. Keywords: file exists, check file, virtual exists, sandbox stat, file test, path exists.",
     category: "vfs",
+    annotations: READ_ONLY,
     inputSchema: {
       type: "object",
       properties: {
@@ -128,45 +300,104 @@ export const vfsTools: MiniTool[] = [
       },
       required: ["path"],
     },
-    handler: ({ path }) => ({
-      exists: vfsStorage.has(path as string),
-      path,
-    }),
+    handler: ({ path }) => {
+      const node = vfsStorage.get(path as string);
+      return {
+        exists: node !== undefined,
+        path: normalizeVfsPath(path as string),
+        type: node?.type,
+      };
+    },
+  },
+  {
+    name: "vfs_mkdir",
+    description:
+      "Create a virtual directory. With parents, missing parent directories are created and an existing directory is not an error (like mkdir -p). Keywords: mkdir, create directory, make folder, new folder.",
+    category: "vfs",
+    annotations: ADDITIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Directory path" },
+        parents: {
+          type: "boolean",
+          description: "Create missing parents, succeed if it exists (default: false)",
+        },
+        mode: MODE_PROPERTY,
+      },
+      required: ["path"],
+    },
+    handler: ({ path, parents = false, mode }) => {
+      const created = vfsStorage.mkdir(path as string, {
+        parents: parents as boolean,
+        mode: parseMode(mode),
+      });
+      return { success: true, path: normalizeVfsPath(path as string), created };
+    },
+  },
+  {
+    name: "vfs_rmdir",
+    description:
+      "Remove a virtual directory. Fails if it is not empty unless recursive is set, which deletes everything below it. Keywords: rmdir, remove directory, delete folder, rm -r.",
+    category: "vfs",
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Directory path" },
+        recursive: { type: "boolean", description: "Delete contents too (default: false)" },
+      },
+      required: ["path"],
+    },
+    handler: ({ path, recursive = false }) => {
+      const filesRemoved = vfsStorage.rmdir(path as string, { recursive: recursive as boolean });
+      return { success: true, deleted: normalizeVfsPath(path as string), filesRemoved };
+    },
+  },
+  {
+    name: "vfs_chmod",
+    description:
+      "Change permissions of a virtual file or directory. Owner bits are enforced: without write ('444') a file cannot be changed or a directory's entries added/removed; without read it cannot be read or listed. Keywords: chmod, permissions, read-only, lock file, file mode.",
+    category: "vfs",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Virtual path" },
+        mode: MODE_PROPERTY,
+      },
+      required: ["path", "mode"],
+    },
+    handler: ({ path, mode }) => vfsStorage.chmod(path as string, parseMode(mode)!),
   },
   {
     name: "vfs_copy",
     description:
-      "Copy a virtual file to a new path in memory storage. Duplicate file content to another location without modifying source. Use for backups, file duplication, or creating variations. Keywords: copy file, duplicate, virtual copy, sandbox cp, file clone, replicate.",
+      "Copy a virtual file, or a directory tree with recursive, to a new path in memory storage. Duplicate content to another location without modifying source. Use for backups, file duplication, or creating variations. Keywords: copy file, duplicate, virtual copy, sandbox cp, file clone, replicate, cp -r.",
     category: "vfs",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
         source: { type: "string", description: "Source path" },
         destination: { type: "string", description: "Destination path" },
+        recursive: { type: "boolean", description: "Copy directories (default: false)" },
       },
       required: ["source", "destination"],
     },
-    handler: ({ source, destination }) => {
-      const src = source as string;
-      const dest = destination as string;
-      const file = vfsStorage.get(src);
-      if (!file) {
-        return { error: `Source not found: ${src}`, success: false };
-      }
-      const now = new Date();
-      vfsStorage.set(dest, {
-        content: file.content,
-        createdAt: now,
-        updatedAt: now,
-      });
-      return { success: true, source: src, destination: dest };
+    handler: ({ source, destination, recursive = false }) => {
+      const src = normalizeVfsPath(source as string);
+      const dest = normalizeVfsPath(destination as string);
+      const files = vfsStorage.copy(src, dest, { recursive: recursive as boolean });
+      return { success: true, source: src, destination: dest, files };
     },
   },
   {
     name: "vfs_move",
     description:
-      "Move or rename a virtual file in memory storage. Relocate file to new path, removing from original location. Use for file reorganization, renaming, or path changes. Keywords: move file, rename file, virtual mv, sandbox move, relocate, file rename.",
+      "Move or rename a virtual file or directory in memory storage. Relocate to a new path, removing from original location; directories move with their contents. Use for file reorganization, renaming, or path changes. Keywords: move file, rename file, rename directory, virtual mv, sandbox move, relocate.",
     category: "vfs",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
@@ -176,46 +407,168 @@ export const vfsTools: MiniTool[] = [
       required: ["source", "destination"],
     },
     handler: ({ source, destination }) => {
-      const src = source as string;
-      const dest = destination as string;
-      const file = vfsStorage.get(src);
-      if (!file) {
-        return { error: `Source not found: ${src}`, success: false };
-      }
-      vfsStorage.set(dest, file);
-      vfsStorage.delete(src);
+      const src = normalizeVfsPath(source as string);
+      const dest = normalizeVfsPath(destination as string);
+      vfsStorage.rename(src, dest);
       return { success: true, source: src, destination: dest };
     },
   },
+  {
+    name: "vfs_usage",
+    description:
+      "Show how much of the virtual filesystem quota is used: file and directory counts, total bytes, and the limits. Keywords: disk usage, df, quota, storage used, space left.",
+    category: "vfs",
+    annotations: READ_ONLY,
+    inputSchema: { type: "object", properties: {} },
+    handler: () => vfsStorage.usage(),
+  },
+  {
+    name: "vfs_import",
+    description:
+      "Import files from the host into the virtual filesystem: a directory, a tar/zip archive, or a JSON snapshot written by vfs_export. Host paths must be inside the allowed roots. Existing files are replaced; nothing is imported if any file fails (e.g. over quota). Use to seed the sandbox from fixtures. Keywords: import files, load fixture, upload directory, extract archive into sandbox, restore from disk.",
+    category: "vfs",
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: "object",
+      properties: {
+        source: { type: "string", description: "Host directory, archive or .json snapshot" },
+        destination: {
+          type: "string",
+          description: "Virtual directory to import into (default: /)",
+        },
+        format: FORMAT_PROPERTY,
+      },
+      required: ["source"],
+    },
+    handler: async ({ source, destination = "/", format }, ctx) => {
+      const hostPath = await checkHostPath(source as string);
+      const hostFormat = (format as HostFormat | undefined) ?? detectHostFormat(hostPath);
+      const apply = await importFromHost(
+        hostPath,
+        normalizeVfsPath(destination as string),
+        hostFormat,
+        ctx?.signal,
+      );
+      // Apply to a copy so a failure halfway leaves the tree unchanged. Nothing
+      // is awaited in between, so writes made while the host was read survive.
+      const staged = vfsStorage.clone();
+      const result = apply(staged);
+      vfsStorage.replaceWith(staged);
+      return {
+        success: true,
+        source: hostPath,
+        destination: normalizeVfsPath(destination as string),
+        format: hostFormat,
+        ...result,
+      };
+    },
+  },
+  {
+    name: "vfs_export",
+    description:
+      "Export a virtual directory (default: everything) to the host: as a directory, a tar/zip archive, or a JSON snapshot that vfs_import can load back. Host paths must be inside the allowed roots. Use to persist files an agent built in the sandbox. Keywords: export files, save to disk, download directory, archive sandbox, persist vfs.",
+    category: "vfs",
+    annotations: DESTRUCTIVE,
+    inputSchema: {
+      type: "object",
+      properties: {
+        destination: { type: "string", description: "Host directory, archive or .json path" },
+        source: { type: "string", description: "Virtual directory to export (default: /)" },
+        format: FORMAT_PROPERTY,
+      },
+      required: ["destination"],
+    },
+    handler: async ({ destination, source = "/", format }, ctx) => {
+      const from = normalizeVfsPath(source as string);
+      const stat = vfsStorage.stat(from);
+      if (stat?.type !== "directory") {
+        throw new ToolError("NOT_FOUND", `Directory not found: ${from}`);
+      }
+      const hostPath = await checkHostPath(destination as string);
+      const hostFormat = (format as HostFormat | undefined) ?? detectHostFormat(hostPath);
+      const result = await exportToHost(vfsStorage, from, hostPath, hostFormat, ctx?.signal);
+      return { success: true, source: from, destination: hostPath, format: hostFormat, ...result };
+    },
+  },
+  {
+    name: "vfs_snapshot",
+    description:
+      `Checkpoint the whole virtual filesystem in memory under a name, to roll back with vfs_restore (e.g. before a risky agent step). Taking a snapshot with an existing name replaces it; the oldest is dropped beyond ${MAX_CHECKPOINTS}. Without a name, lists the snapshots. Keywords: checkpoint, snapshot, save state, backup sandbox, undo point.`,
+    category: "vfs",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1, description: "Snapshot name" },
+      },
+    },
+    handler: ({ name }) => {
+      if (name === undefined) {
+        return [...checkpoints].map(([name, { fs, createdAt }]) => ({
+          name,
+          createdAt: createdAt.toISOString(),
+          files: fs.usage().files,
+          bytes: fs.usage().bytes,
+        }));
+      }
+
+      const snapshotName = name as string;
+      checkpoints.delete(snapshotName);
+      checkpoints.set(snapshotName, { fs: vfsStorage.clone(), createdAt: new Date() });
+      if (checkpoints.size > MAX_CHECKPOINTS) {
+        checkpoints.delete(checkpoints.keys().next().value!);
+      }
+      const { files, bytes } = vfsStorage.usage();
+      return { success: true, name: snapshotName, files, bytes };
+    },
+  },
+  {
+    name: "vfs_restore",
+    description:
+      "Roll the whole virtual filesystem back to a snapshot taken with vfs_snapshot. Everything written since is discarded; the snapshot itself is kept, so it can be restored again. Keywords: restore checkpoint, rollback, undo changes, reset sandbox.",
+    category: "vfs",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Snapshot name" },
+      },
+      required: ["name"],
+    },
+    handler: ({ name }) => {
+      const checkpoint = checkpoints.get(name as string);
+      if (!checkpoint) {
+        throw new ToolError("NOT_FOUND", `Snapshot not found: ${name}`, {
+          details: { available: [...checkpoints.keys()] },
+        });
+      }
+      vfsStorage.replaceWith(checkpoint.fs);
+      const { files, bytes } = vfsStorage.usage();
+      return { success: true, name, files, bytes };
+    },
+  },
   {
     name: "vfs_clear",
     description:
       "Clear all virtual files or files matching a pattern from memory. Bulk delete with optional glob filtering. Returns count of cleared files. Use for cleanup, resetting storage, or selective purge. Keywords: clear files, bulk delete, virtual clear, sandbox reset, purge files, wipe storage.",
     category: "vfs",
+    annotations: DESTRUCTIVE_IDEMPOTENT,
     inputSchema: {
       type: "object",
       properties: {
-        pattern: { type: "string", description: "Glob pattern to match (clears all if omitted)" },
+        pattern: {
+          type: "string",
+          description: "Glob pattern to match, e.g. '/tmp/**' (clears everything if omitted)",
+        },
       },
     },
     handler: ({ pattern }) => {
       if (!pattern) {
-        const count = vfsStorage.size;
-        vfsStorage.clear();
-        return { cleared: count };
+        return { cleared: vfsStorage.clear() };
       }
       const p = pattern as string;
-      const regex = new RegExp(
-        "^" + p.replace(/\./g, "\\.").replace(/\*/g, ".*").replace(/\?/g, ".") + "$",
-      );
-      let count = 0;
-      for (const path of vfsStorage.keys()) {
-        if (regex.test(path)) {
-          vfsStorage.delete(path);
-          count++;
-        }
-      }
-      return { cleared: count, pattern: p };
+      const regex = vfsGlobToRegex(p);
+      return { cleared: vfsStorage.clear((path) => regex.test(path)), pattern: p };
     },
   },
 ];
@@ -0,0 +1,278 @@
+/**
+ * Moving files between the vfs and the host
+ *
+ * vfs_import and vfs_export only touch host paths inside the allowed roots
+ * (the `vfs.hostRoots` config, default: the server's working directory).
+ * Paths are checked after resolving symlinks. Symlinks found while
+ * importing (including inside archives) are skipped, and exports refuse to
+ * write through a symlink already at the destination, so nothing outside
+ * a root can be read or written through them.
+ *
+ * Archives are handled with the host `tar`, `zip` and `unzip` binaries via
+ * a temporary directory.
+ *
+ * @module lib/std/vfshost
+ */
+
+import { basename, dirname, isAbsolute, join, relative, resolve } from "node:path";
+import { commandFailed, runCommand } from "./common.ts";
+import { ToolError } from "./errors.ts";
+import {
+  normalizeVfsPath,
+  type VfsFile,
+  type VfsSnapshot,
+  type VirtualFileSystem,
+} from "./vfstree.ts";
+
+/** What a host path holds */
+export type HostFormat = "directory" | "tar" | "zip" | "json";
+
+/** Counts reported by imports and exports */
+export interface TransferResult {
+  files: number;
+  bytes: number;
+}
+
+let hostRoots: string[] | undefined;
+
+/** Restrict vfs_import/vfs_export to these host directories */
+export function setVfsHostRoots(roots: string[]): void {
+  hostRoots = roots.map((root) => resolve(root));
+}
+
+/** Format of a host path from its extension; anything else is a directory */
+export function detectHostFormat(path: string): HostFormat {
+  if (/\.(tar|tar\.gz|tgz|tar\.bz2|tbz2|tar\.xz|txz)$/i.test(path)) return "tar";
+  if (/\.zip$/i.test(path)) return "zip";
+  if (/\.json$/i.test(path)) return "json";
+  return "directory";
+}
+
+/** Real path of `path`, resolving symlinks in the part that exists */
+async function realHostPath(path: string): Promise<string> {
+  let existing = resolve(path);
+  const missing: string[] = [];
+  while (true) {
+    try {
+      return join(await Deno.realPath(existing), ...missing);
+    } catch (e) {
+      if (!(e instanceof Deno.errors.NotFound) || dirname(existing) === existing) throw e;
+      missing.unshift(basename(existing));
+      existing = dirname(existing);
+    }
+  }
+}
+
+/**
+ * Resolve a host path, throwing PERMISSION_DENIED unless it lies inside one
+ * of the allowed roots
+ */
+export async function checkHostPath(path: string): Promise<string> {
+  const real = await realHostPath(path);
+  const roots = hostRoots ?? [Deno.cwd()];
+  for (const root of roots) {
+    const rel = relative(await realHostPath(root), real);
+    if (!rel.startsWith("..") && !isAbsolute(rel)) return real;
+  }
+  throw new ToolError("PERMISSION_DENIED", `Host path is outside the allowed roots: ${path}`, {
+    details: { roots },
+  });
+}
+
+/** Host files read for an import, by path relative to the destination */
+interface HostEntries {
+  directories: string[];
+  files: Array<[string, Uint8Array]>;
+}
+
+/** Read a host directory (without following symlinks) into memory */
+async function readDirectory(
+  hostDir: string,
+  signal?: AbortSignal,
+  prefix = "",
+  entries: HostEntries = { directories: [], files: [] },
+): Promise<HostEntries> {
+  for await (const entry of Deno.readDir(hostDir)) {
+    signal?.throwIfAborted();
+    const source = join(hostDir, entry.name);
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory) {
+      entries.directories.push(path);
+      await readDirectory(source, signal, path, entries);
+    } else if (entry.isFile) {
+      entries.files.push([path, await Deno.readFile(source, { signal })]);
+    }
+  }
+  return entries;
+}
+
+/** Write entries read by readDirectory() below `destination` */
+function writeEntries(
+  fs: VirtualFileSystem,
+  { directories, files }: HostEntries,
+  destination: string,
+): TransferResult {
+  fs.mkdir(destination, { parents: true });
+  for (const path of directories) {
+    fs.mkdir(normalizeVfsPath(`${destination}/${path}`), { parents: true });
+  }
+  let bytes = 0;
+  for (const [path, data] of files) {
+    fs.writeFile(normalizeVfsPath(`${destination}/${path}`), data);
+    bytes += data.length;
+  }
+  return { files: files.length, bytes };
+}
+
+/** Throw PERMISSION_DENIED if `path` exists and is a symlink */
+async function refuseSymlink(path: string): Promise<void> {
+  let info: Deno.FileInfo;
+  try {
+    info = await Deno.lstat(path);
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return;
+    throw e;
+  }
+  if (info.isSymlink) {
+    throw new ToolError("PERMISSION_DENIED", `Refusing to write through a symlink: ${path}`, {
+      details: { path },
+    });
+  }
+}
+
+/**
+ * Write the vfs subtree at `source` to a host directory. Every target is
+ * checked before it is created or written; the walk yields directories
+ * before their contents, so each parent has been checked too.
+ */
+async function exportDirectory(
+  fs: VirtualFileSystem,
+  source: string,
+  hostDir: string,
+): Promise<TransferResult> {
+  const base = normalizeVfsPath(source);
+  const result = { files: 0, bytes: 0 };
+  await Deno.mkdir(hostDir, { recursive: true });
+  for (const [path, node] of fs.walk(base)) {
+    const target = join(hostDir, path.slice(base.length));
+    await refuseSymlink(target);
+    if (node.type === "directory") {
+      await Deno.mkdir(target, { recursive: true });
+    } else {
+      const data = fs.readFile(path);
+      await Deno.writeFile(target, data, { mode: node.mode });
+      result.files++;
+      result.bytes += data.length;
+    }
+  }
+  return result;
+}
+
+/** Run `fn` with a temporary host directory that is removed afterwards */
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await Deno.makeTempDir({ prefix: "mcp-std-vfs-" });
+  try {
+    return await fn(dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true }).catch(() => {});
+  }
+}
+
+/** tar flag for the compression implied by the archive name */
+function tarCompression(path: string): string[] {
+  if (/\.(gz|tgz)$/i.test(path)) return ["-z"];
+  if (/\.(bz2|tbz2)$/i.test(path)) return ["-j"];
+  if (/\.(xz|txz)$/i.test(path)) return ["-J"];
+  return [];
+}
+
+/**
+ * Read a host directory, archive or JSON snapshot. The returned function
+ * writes it below `destination` without awaiting anything, so a caller can
+ * apply it to the live tree in one step. `hostPath` must already have
+ * passed checkHostPath().
+ */
+export async function importFromHost(
+  hostPath: string,
+  destination: string,
+  format: HostFormat,
+  signal?: AbortSignal,
+): Promise<(fs: VirtualFileSystem) => TransferResult> {
+  switch (format) {
+    case "directory": {
+      const entries = await readDirectory(hostPath, signal);
+      return (fs) => writeEntries(fs, entries, destination);
+    }
+    case "json": {
+      const text = await Deno.readTextFile(hostPath, { signal });
+      let snapshot: VfsSnapshot;
+      try {
+        snapshot = JSON.parse(text);
+      } catch (e) {
+        throw new ToolError("INVALID_ARGUMENT", `Not a JSON snapshot: ${hostPath}`, { cause: e });
+      }
+      return (fs) => fs.loadSnapshot(snapshot, destination);
+    }
+    case "tar":
+    case "zip":
+      return withTempDir(async (dir) => {
+        const result = format === "tar"
+          ? await runCommand("tar", ["-xf", hostPath, "-C", dir], { signal })
+          : await runCommand("unzip", ["-q", "-o", hostPath, "-d", dir], { signal });
+        if (result.code !== 0) {
+          throw commandFailed(format === "tar" ? "tar extract" : "unzip", result);
+        }
+        const entries = await readDirectory(dir, signal);
+        return (fs) => writeEntries(fs, entries, destination);
+      });
+  }
+}
+
+/**
+ * Export the vfs subtree at `source` to a host directory, archive or JSON
+ * snapshot. `hostPath` must already have passed checkHostPath().
+ */
+export async function exportToHost(
+  fs: VirtualFileSystem,
+  source: string,
+  hostPath: string,
+  format: HostFormat,
+  signal?: AbortSignal,
+): Promise<TransferResult> {
+  switch (format) {
+    case "directory":
+      return exportDirectory(fs, source, hostPath);
+    case "json": {
+      const snapshot = fs.toSnapshot(source);
+      await Deno.mkdir(dirname(hostPath), { recursive: true });
+      await Deno.writeTextFile(hostPath, JSON.stringify(snapshot, null, 2), { signal });
+      const files = [...fs.walk(source)].map(([, node]) => node).filter((n) => n.type === "file");
+      return {
+        files: files.length,
+        bytes: files.reduce((n, file) => n + (file as VfsFile).data.length, 0),
+      };
+    }
+    case "tar":
+    case "zip":
+      return withTempDir(async (dir) => {
+        const transferred = await exportDirectory(fs, source, dir);
+        await Deno.mkdir(dirname(hostPath), { recursive: true });
+        await Deno.remove(hostPath).catch(() => {});
+        const result = format === "tar"
+          ? await runCommand("tar", [
+            "-c",
+            ...tarCompression(hostPath),
+            "-f",
+            hostPath,
+            "-C",
+            dir,
+            ".",
+          ], {
+            signal,
+          })
+          : await runCommand("zip", ["-q", "-r", hostPath, "."], { cwd: dir, signal });
+        if (result.code !== 0) throw commandFailed(format, result);
+        return transferred;
+      });
+  }
+}
@@ -0,0 +1,695 @@
+/**
+ * In-memory file tree behind the vfs_* tools
+ *
+ * Paths are POSIX-style and always absolute: "notes/a.txt", "/notes/a.txt"
+ * and "/notes/./x/../a.txt" all name the same file, and ".." never climbs
+ * above "/". File content is stored as bytes, so binary data round-trips.
+ *
+ * Each node has a Unix-style mode; only the owner bits are enforced (read
+ * to read a file or list a directory, write to change a file or the entries
+ * of a directory). The tree as a whole is bounded by VfsLimits.
+ *
+ * @module lib/std/vfstree
+ */
+
+import { ToolError } from "./errors.ts";
+import { normalizePath } from "./path.ts";
+
+/** Size limits for the whole tree */
+export interface VfsLimits {
+  /** Total bytes across all files */
+  maxBytes: number;
+  /** Number of files */
+  maxFiles: number;
+  /** Number of directories, not counting "/" */
+  maxDirectories: number;
+  /** Bytes in a single file */
+  maxFileBytes: number;
+}
+
+export const DEFAULT_VFS_LIMITS: VfsLimits = {
+  maxBytes: 64 * 1024 * 1024,
+  maxFiles: 10000,
+  maxDirectories: 10000,
+  maxFileBytes: 16 * 1024 * 1024,
+};
+
+export interface VfsFile {
+  type: "file";
+  data: Uint8Array;
+  mode: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface VfsDirectory {
+  type: "directory";
+  children: Map<string, VfsNode>;
+  mode: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type VfsNode = VfsFile | VfsDirectory;
+
+/** Metadata of a file or directory, as returned by the tools */
+export interface VfsStat {
+  path: string;
+  type: "file" | "directory";
+  /** Bytes for files, number of entries for directories */
+  size: number;
+  /** Octal permission string, e.g. "644" */
+  mode: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Portable copy of a (sub)tree, as written by vfs_export to .json files.
+ * Paths are relative to the exported directory; content is base64.
+ */
+export interface VfsSnapshot {
+  format: "mcp-std-vfs";
+  version: 1;
+  createdAt: string;
+  entries: Array<{
+    path: string;
+    type: "file" | "directory";
+    mode: string;
+    createdAt: string;
+    updatedAt: string;
+    content?: string;
+  }>;
+}
+
+export const DEFAULT_FILE_MODE = 0o644;
+export const DEFAULT_DIRECTORY_MODE = 0o755;
+
+const READ = 0o400;
+const WRITE = 0o200;
+
+/** Normalize a vfs path to its absolute form ("/" for the root) */
+export function normalizeVfsPath(path: string): string {
+  return normalizePath(`/${path}`, "/");
+}
+
+/** Base64 of `bytes` (chunked so large files do not overflow the call stack) */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function decodeBase64(text: string): Uint8Array {
+  try {
+    return Uint8Array.from(atob(text.replace(/\s/g, "")), (c) => c.charCodeAt(0));
+  } catch (e) {
+    throw new ToolError("INVALID_ARGUMENT", "Content is not valid base64", { cause: e });
+  }
+}
+
+const parseDate = (value: unknown) => {
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const parentOf = (path: string) => path.slice(0, path.lastIndexOf("/")) || "/";
+const nameOf = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+const joinPath = (dir: string, name: string) => dir === "/" ? `/${name}` : `${dir}/${name}`;
+
+/**
+ * Glob to RegExp over absolute paths: `*` and `?` stay within one path
+ * segment, `**` spans any number of directories.
+ */
+export function vfsGlobToRegex(pattern: string): RegExp {
+  const glob = pattern.startsWith("/") ? pattern : `/${pattern}`;
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" also matches no directory at all
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function checkAccess(node: VfsNode, path: string, bit: number): void {
+  if ((node.mode & bit) === 0) {
+    const access = bit === READ ? "read" : "write";
+    throw new ToolError("PERMISSION_DENIED", `No ${access} permission: ${path}`, {
+      details: { path, mode: node.mode.toString(8) },
+    });
+  }
+}
+
+/** Result of resolving a directory path that may not fully exist yet */
+interface ResolvedDirectory {
+  /** Deepest existing directory */
+  dir: VfsDirectory;
+  /** Its path */
+  path: string;
+  /** Names to create below it, outermost first */
+  missing: string[];
+}
+
+const newDirectory = (mode = DEFAULT_DIRECTORY_MODE): VfsDirectory => {
+  const now = new Date();
+  return { type: "directory", children: new Map(), mode, createdAt: now, updatedAt: now };
+};
+
+/**
+ * Hierarchical in-memory filesystem
+ */
+export class VirtualFileSystem {
+  private root: VfsDirectory = newDirectory();
+  private limits: VfsLimits;
+  private totalBytes = 0;
+  private fileCount = 0;
+  private directoryCount = 0;
+  private listeners = new Set<(path: string) => void>();
+
+  constructor(limits: Partial<VfsLimits> = {}) {
+    this.limits = { ...DEFAULT_VFS_LIMITS, ...limits };
+  }
+
+  /** Change the size limits; existing content above a new limit stays */
+  setLimits(limits: Partial<VfsLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+  }
+
+  /** Current totals and limits */
+  usage(): { files: number; directories: number; bytes: number; limits: VfsLimits } {
+    return {
+      files: this.fileCount,
+      directories: this.directoryCount,
+      bytes: this.totalBytes,
+      limits: { ...this.limits },
+    };
+  }
+
+  /** Node at `path`, or undefined */
+  get(path: string): VfsNode | undefined {
+    let node: VfsNode = this.root;
+    for (const name of normalizeVfsPath(path).split("/").filter(Boolean)) {
+      if (node.type !== "directory") return undefined;
+      const child: VfsNode | undefined = node.children.get(name);
+      if (!child) return undefined;
+      node = child;
+    }
+    return node;
+  }
+
+  stat(path: string): VfsStat | undefined {
+    const normalized = normalizeVfsPath(path);
+    const node = this.get(normalized);
+    return node && this.toStat(normalized, node);
+  }
+
+  readFile(path: string): Uint8Array {
+    const normalized = normalizeVfsPath(path);
+    const node = this.get(normalized);
+    if (!node) throw new ToolError("NOT_FOUND", `File not found: ${normalized}`);
+    if (node.type !== "file") {
+      throw new ToolError("INVALID_ARGUMENT", `Is a directory: ${normalized}`);
+    }
+    checkAccess(node, normalized, READ);
+    return node.data;
+  }
+
+  /**
+   * Create or replace a file. Missing parent directories are created unless
+   * `parents` is false.
+   */
+  writeFile(
+    path: string,
+    data: Uint8Array,
+    options: { append?: boolean; parents?: boolean; mode?: number } = {},
+  ): VfsStat {
+    const normalized = normalizeVfsPath(path);
+    if (normalized === "/") throw new ToolError("INVALID_ARGUMENT", "Cannot write to /");
+    const parent = this.resolveDirectory(parentOf(normalized), options.parents ?? true);
+    const name = nameOf(normalized);
+    const existing = parent.missing.length === 0 ? parent.dir.children.get(name) : undefined;
+    if (existing?.type === "directory") {
+      throw new ToolError("INVALID_ARGUMENT", `Is a directory: ${normalized}`);
+    }
+
+    let content = data;
+    if (existing) {
+      checkAccess(existing, normalized, WRITE);
+      if (options.append) {
+        content = new Uint8Array(existing.data.length + data.length);
+        content.set(existing.data);
+        content.set(data, existing.data.length);
+      }
+    } else {
+      checkAccess(parent.dir, parent.path, WRITE);
+    }
+    this.reserve(normalized, content.length - (existing?.data.length ?? 0), existing ? 0 : 1);
+    this.reserveDirectories(normalized, parent.missing.length);
+    if (content.length > this.limits.maxFileBytes) {
+      this.quotaExceeded(normalized, "maxFileBytes");
+    }
+    const dir = this.createMissing(parent);
+
+    const now = new Date();
+    const file: VfsFile = {
+      type: "file",
+      data: content,
+      mode: options.mode ?? existing?.mode ?? DEFAULT_FILE_MODE,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.totalBytes += content.length - (existing?.data.length ?? 0);
+    if (!existing) {
+      this.fileCount++;
+      dir.updatedAt = now;
+    }
+    dir.children.set(name, file);
+    this.changed([normalized]);
+    return this.toStat(normalized, file);
+  }
+
+  /**
+   * Create a directory. With `parents`, missing ancestors are created and an
+   * existing directory is not an error. Returns false if it already existed.
+   */
+  mkdir(path: string, options: { parents?: boolean; mode?: number } = {}): boolean {
+    const normalized = normalizeVfsPath(path);
+    const existing = this.get(normalized);
+    if (existing) {
+      if (existing.type === "directory" && options.parents) return false;
+      throw new ToolError("INVALID_ARGUMENT", `Already exists: ${normalized}`);
+    }
+    const resolved = this.resolveDirectory(parentOf(normalized), options.parents ?? false);
+    checkAccess(resolved.dir, resolved.path, WRITE);
+    this.reserveDirectories(normalized, resolved.missing.length + 1);
+    const parent = this.createMissing(resolved);
+    parent.children.set(nameOf(normalized), newDirectory(options.mode));
+    parent.updatedAt = new Date();
+    this.directoryCount++;
+    this.changed([normalized]);
+    return true;
+  }
+
+  /** Delete a file. Returns false if nothing was there. */
+  unlink(path: string): boolean {
+    const normalized = normalizeVfsPath(path);
+    const node = this.get(normalized);
+    if (!node) return false;
+    if (node.type === "directory") {
+      throw new ToolError("INVALID_ARGUMENT", `Is a directory (use vfs_rmdir): ${normalized}`);
+    }
+    this.detach(normalized);
+    return true;
+  }
+
+  /**
+   * Delete a directory; non-empty ones need `recursive`. Returns the number
+   * of files removed with it.
+   */
+  rmdir(path: string, options: { recursive?: boolean } = {}): number {
+    const normalized = normalizeVfsPath(path);
+    const node = this.get(normalized);
+    if (!node) throw new ToolError("NOT_FOUND", `Directory not found: ${normalized}`);
+    if (node.type !== "directory") {
+      throw new ToolError("INVALID_ARGUMENT", `Not a directory: ${normalized}`);
+    }
+    if (normalized === "/") throw new ToolError("INVALID_ARGUMENT", "Cannot remove /");
+    if (node.children.size > 0 && !options.recursive) {
+      throw new ToolError("INVALID_ARGUMENT", `Directory not empty: ${normalized}`, {
+        details: { entries: node.children.size },
+      });
+    }
+    return this.detach(normalized);
+  }
+
+  /**
+   * Move a file or directory to `destination` (the new path, not the
+   * directory to move into). An existing file at the destination is
+   * replaced by a file; an existing directory, or a directory moved over
+   * a file, is an error.
+   */
+  rename(source: string, destination: string): void {
+    const from = normalizeVfsPath(source);
+    const to = normalizeVfsPath(destination);
+    const node = this.get(from);
+    if (!node) throw new ToolError("NOT_FOUND", `Source not found: ${from}`);
+    if (from === to) return;
+    if (from === "/" || to.startsWith(`${from}/`)) {
+      throw new ToolError("INVALID_ARGUMENT", `Cannot move ${from} into itself`);
+    }
+    const target = this.get(to);
+    if (target?.type === "directory") {
+      throw new ToolError("INVALID_ARGUMENT", `Destination is a directory: ${to}`);
+    }
+    if (target && node.type === "directory") {
+      throw new ToolError("INVALID_ARGUMENT", `Not a directory: ${to}`);
+    }
+
+    const resolved = this.resolveDirectory(parentOf(to), true);
+    checkAccess(resolved.dir, resolved.path, WRITE);
+    checkAccess(this.get(parentOf(from))!, parentOf(from), WRITE);
+    this.reserveDirectories(to, resolved.missing.length);
+    const dir = this.createMissing(resolved);
+    if (target) this.detach(to);
+    const moved = [...this.walk(from)].map(([path]) => path);
+    (this.get(parentOf(from)) as VfsDirectory).children.delete(nameOf(from));
+    dir.children.set(nameOf(to), node);
+    dir.updatedAt = new Date();
+    this.changed([...moved, ...moved.map((path) => to + path.slice(from.length))]);
+  }
+
+  /**
+   * Copy a file, or a directory tree with `recursive`. Returns the number of
+   * files copied.
+   */
+  copy(source: string, destination: string, options: { recursive?: boolean } = {}): number {
+    const from = normalizeVfsPath(source);
+    const to = normalizeVfsPath(destination);
+    const node = this.get(from);
+    if (!node) throw new ToolError("NOT_FOUND", `Source not found: ${from}`);
+    if (node.type === "file") {
+      this.writeFile(to, this.readFile(from).slice());
+      return 1;
+    }
+    if (!options.recursive) {
+      throw new ToolError("INVALID_ARGUMENT", `Is a directory (pass recursive): ${from}`);
+    }
+    if (to === from || to.startsWith(`${from}/`)) {
+      throw new ToolError("INVALID_ARGUMENT", `Cannot copy ${from} into itself`);
+    }
+
+    let copied = 0;
+    for (const [path, child] of [...this.walk(from)]) {
+      const target = to + path.slice(from.length);
+      if (child.type === "directory") {
+        this.mkdir(target, { parents: true, mode: child.mode });
+      } else {
+        checkAccess(child, path, READ);
+        this.writeFile(target, child.data.slice(), { mode: child.mode });
+        copied++;
+      }
+    }
+    return copied;
+  }
+
+  chmod(path: string, mode: number): VfsStat {
+    const normalized = normalizeVfsPath(path);
+    const node = this.get(normalized);
+    if (!node) throw new ToolError("NOT_FOUND", `Not found: ${normalized}`);
+    node.mode = mode & 0o777;
+    this.changed([normalized]);
+    return this.toStat(normalized, node);
+  }
+
+  /** Entries of a directory, or of the whole subtree with `recursive` */
+  list(path: string, options: { recursive?: boolean } = {}): VfsStat[] {
+    const normalized = normalizeVfsPath(path);
+    const node = this.get(normalized);
+    if (!node) throw new ToolError("NOT_FOUND", `Directory not found: ${normalized}`);
+    if (node.type !== "directory") return [this.toStat(normalized, node)];
+    checkAccess(node, normalized, READ);
+
+    if (options.recursive) {
+      return [...this.walk(normalized)]
+        .filter(([child]) => child !== normalized)
+        .map(([child, childNode]) => this.toStat(child, childNode));
+    }
+    return [...node.children].map(([name, child]) =>
+      this.toStat(joinPath(normalized, name), child)
+    );
+  }
+
+  /** Files and directories whose absolute path matches `pattern` */
+  glob(pattern: string): VfsStat[] {
+    const regex = vfsGlobToRegex(pattern);
+    return [...this.walk("/")]
+      .filter(([path]) => path !== "/" && regex.test(path))
+      .map(([path, node]) => this.toStat(path, node));
+  }
+
+  /** Depth-first walk of `path` and everything below it, parents first */
+  *walk(path: string): Generator<[string, VfsNode]> {
+    const normalized = normalizeVfsPath(path);
+    const node = this.get(normalized);
+    if (!node) return;
+    yield [normalized, node];
+    if (node.type === "directory") {
+      for (const name of [...node.children.keys()].sort()) {
+        yield* this.walk(joinPath(normalized, name));
+      }
+    }
+  }
+
+  /**
+   * Delete every file (or those whose path satisfies `match`), keeping
+   * directories unless the whole tree is cleared. Returns the files removed.
+   */
+  clear(match?: (path: string) => boolean): number {
+    if (!match) {
+      const count = this.fileCount;
+      const removed = [...this.walk("/")].map(([path]) => path);
+      this.root = newDirectory();
+      this.totalBytes = 0;
+      this.fileCount = 0;
+      this.directoryCount = 0;
+      this.changed(removed);
+      return count;
+    }
+    const paths = [...this.walk("/")]
+      .filter(([path, node]) => node.type === "file" && match(path))
+      .map(([path]) => path);
+    for (const path of paths) this.detach(path);
+    return paths.length;
+  }
+
+  /**
+   * Independent copy of the whole tree. File contents are shared: they are
+   * never modified in place, only replaced.
+   */
+  clone(): VirtualFileSystem {
+    const copy = new VirtualFileSystem(this.limits);
+    const cloneNode = (node: VfsNode): VfsNode =>
+      node.type === "file" ? { ...node } : {
+        ...node,
+        children: new Map([...node.children].map(([name, child]) => [name, cloneNode(child)])),
+      };
+    copy.root = cloneNode(this.root) as VfsDirectory;
+    copy.totalBytes = this.totalBytes;
+    copy.fileCount = this.fileCount;
+    copy.directoryCount = this.directoryCount;
+    return copy;
+  }
+
+  /** Take over the contents of `other` (used to restore a checkpoint) */
+  replaceWith(other: VirtualFileSystem): void {
+    const copy = other.clone();
+    const before = [...this.walk("/")].map(([path]) => path);
+    this.root = copy.root;
+    this.totalBytes = copy.totalBytes;
+    this.fileCount = copy.fileCount;
+    this.directoryCount = copy.directoryCount;
+    this.changed(new Set([...before, ...[...this.walk("/")].map(([path]) => path)]));
+  }
+
+  /**
+   * Call `listener` with the path of every file or directory that is
+   * created, changed or removed. Returns an unsubscribe function.
+   */
+  watch(listener: (path: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Serialize `path` and everything below it */
+  toSnapshot(path = "/"): VfsSnapshot {
+    const base = normalizeVfsPath(path);
+    const entries: VfsSnapshot["entries"] = [];
+    for (const [child, node] of this.walk(base)) {
+      if (child === base) continue;
+      if (node.type === "file") checkAccess(node, child, READ);
+      entries.push({
+        path: child.slice(base === "/" ? 1 : base.length + 1),
+        type: node.type,
+        mode: node.mode.toString(8),
+        createdAt: node.createdAt.toISOString(),
+        updatedAt: node.updatedAt.toISOString(),
+        ...(node.type === "file" && { content: encodeBase64(node.data) }),
+      });
+    }
+    return {
+      format: "mcp-std-vfs",
+      version: 1,
+      createdAt: new Date().toISOString(),
+      entries,
+    };
+  }
+
+  /**
+   * Write the entries of a snapshot below `destination`, replacing files
+   * that already exist. Returns the files and bytes written.
+   */
+  loadSnapshot(snapshot: VfsSnapshot, destination = "/"): { files: number; bytes: number } {
+    if (snapshot?.format !== "mcp-std-vfs" || !Array.isArray(snapshot.entries)) {
+      throw new ToolError("INVALID_ARGUMENT", "Not an mcp-std vfs snapshot");
+    }
+    const base = normalizeVfsPath(destination);
+    const inside = base === "/" ? "/" : `${base}/`;
+    // Check every path before writing, so a bad entry leaves the tree untouched
+    const paths = snapshot.entries.map((entry) => {
+      const path = normalizeVfsPath(`${base}/${entry.path}`);
+      if (path !== base && !path.startsWith(inside)) {
+        throw new ToolError("INVALID_ARGUMENT", `Snapshot entry escapes ${base}: ${entry.path}`);
+      }
+      return path;
+    });
+    const written: Array<[VfsNode, VfsSnapshot["entries"][number]]> = [];
+    for (const [i, entry] of snapshot.entries.entries()) {
+      const path = paths[i];
+      if (entry.type === "directory") {
+        this.mkdir(path, { parents: true });
+      } else {
+        this.writeFile(path, decodeBase64(entry.content ?? ""));
+      }
+      written.push([this.get(path)!, entry]);
+    }
+
+    // Modes and timestamps last, so read-only directories can still be filled
+    for (const [node, entry] of written) {
+      const mode = parseInt(entry.mode, 8);
+      if (Number.isInteger(mode)) node.mode = mode & 0o777;
+      node.createdAt = parseDate(entry.createdAt) ?? node.createdAt;
+      node.updatedAt = parseDate(entry.updatedAt) ?? node.updatedAt;
+    }
+    const files = written.map(([node]) => node).filter((node) => node.type === "file");
+    return { files: files.length, bytes: files.reduce((n, file) => n + file.data.length, 0) };
+  }
+
+  toStat(path: string, node: VfsNode): VfsStat {
+    return {
+      path,
+      type: node.type,
+      size: node.type === "file" ? node.data.length : node.children.size,
+      mode: node.mode.toString(8),
+      createdAt: node.createdAt.toISOString(),
+      updatedAt: node.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Deepest existing directory on the way to `path` and the names still
+   * missing below it. Nothing is created, so callers can check quotas
+   * first; missing names are an error unless `create` is set.
+   */
+  private resolveDirectory(path: string, create: boolean): ResolvedDirectory {
+    let dir = this.root;
+    let current = "";
+    const names = path.split("/").filter(Boolean);
+    for (const [i, name] of names.entries()) {
+      const child = dir.children.get(name);
+      if (!child) {
+        const missingPath = `${current}/${name}`;
+        if (!create) throw new ToolError("NOT_FOUND", `Directory not found: ${missingPath}`);
+        checkAccess(dir, current || "/", WRITE);
+        return { dir, path: current || "/", missing: names.slice(i) };
+      }
+      current += `/${name}`;
+      if (child.type !== "directory") {
+        throw new ToolError("INVALID_ARGUMENT", `Not a directory: ${current}`);
+      }
+      dir = child;
+    }
+    return { dir, path: current || "/", missing: [] };
+  }
+
+  /** Create the missing directories of a resolved path; returns the last one */
+  private createMissing({ dir, path, missing }: ResolvedDirectory): VfsDirectory {
+    let current = path;
+    for (const name of missing) {
+      current = joinPath(current, name);
+      const child = newDirectory();
+      dir.children.set(name, child);
+      dir.updatedAt = child.createdAt;
+      this.directoryCount++;
+      this.changed([current]);
+      dir = child;
+    }
+    return dir;
+  }
+
+  /** Remove a node from its parent and update the totals; returns files removed */
+  private detach(path: string): number {
+    const parent = this.get(parentOf(path)) as VfsDirectory;
+    checkAccess(parent, parentOf(path), WRITE);
+    let files = 0;
+    const removed: string[] = [];
+    for (const [child, node] of this.walk(path)) {
+      removed.push(child);
+      if (node.type === "file") {
+        files++;
+        this.totalBytes -= node.data.length;
+      } else {
+        this.directoryCount--;
+      }
+    }
+    this.fileCount -= files;
+    parent.children.delete(nameOf(path));
+    parent.updatedAt = new Date();
+    this.changed(removed);
+    return files;
+  }
+
+  private changed(paths: Iterable<string>): void {
+    if (this.listeners.size === 0) return;
+    for (const path of paths) {
+      for (const listener of this.listeners) {
+        try {
+          listener(path);
+        } catch (error) {
+          console.error(`[mcp-std] VFS change listener failed: ${error}`);
+        }
+      }
+    }
+  }
+
+  /** Throw if adding `bytes` and `files` would go over the limits */
+  private reserve(path: string, bytes: number, files: number): void {
+    if (this.totalBytes + bytes > this.limits.maxBytes) this.quotaExceeded(path, "maxBytes");
+    if (this.fileCount + files > this.limits.maxFiles) this.quotaExceeded(path, "maxFiles");
+  }
+
+  /** Throw if creating `directories` more would go over maxDirectories */
+  private reserveDirectories(path: string, directories: number): void {
+    if (this.directoryCount + directories > this.limits.maxDirectories) {
+      this.quotaExceeded(path, "maxDirectories");
+    }
+  }
+
+  private quotaExceeded(path: string, limit: keyof VfsLimits): never {
+    throw new ToolError("INVALID_ARGUMENT", `VFS quota exceeded (${limit}): ${path}`, {
+      details: {
+        limit,
+        value: this.limits[limit],
+        bytes: this.totalBytes,
+        files: this.fileCount,
+        directories: this.directoryCount,
+      },
+    });
+  }
+}
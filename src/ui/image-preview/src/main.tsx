@@ -31,7 +31,7 @@ interface ImageData {
   height?: number;
   size: number;
   dataUri: string;
-  error?: string;
+  reason?: string;
 }
 
 // ============================================================================
@@ -168,7 +168,7 @@ function ImagePreview() {
     );
   }
 
-  if (!imageData.valid || imageData.error) {
+  if (!imageData.valid || imageData.reason) {
     return (
       <div className="p-4 font-sans text-sm text-fg-default bg-bg-canvas min-h-[200px]">
         <div className="flex flex-col gap-2 items-center p-6 bg-red-50 dark:bg-red-950 rounded-lg text-center">
@@ -179,7 +179,7 @@ function ImagePreview() {
             Invalid Image
           </div>
           <div className="text-sm text-red-600 dark:text-red-400">
-            {imageData.error || "Unknown error"}
+            {imageData.reason || "Unknown error"}
           </div>
         </div>
       </div>
@@ -31,7 +31,7 @@ interface JwtData {
   isExpired: boolean;
   expiresAt?: string;
   issuedAt?: string;
-  error?: string;
+  reason?: string;
 }
 
 interface ContentItem {
@@ -580,10 +580,10 @@ function JwtViewer() {
   }
 
   // Handle invalid JWT from the tool
-  if (!data.valid && data.error) {
+  if (!data.valid && data.reason) {
     return (
       <div className="flex flex-col gap-4 p-4 font-sans text-sm text-fg-default bg-bg-canvas min-h-[200px]">
-        <ErrorDisplay error={data.error} />
+        <ErrorDisplay error={data.reason} />
       </div>
     );
   }
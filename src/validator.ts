@@ -0,0 +1,131 @@
+/**
+ * Input Validation
+ *
+ * Validates tool arguments against each tool's `inputSchema` before the
+ * handler runs. Schemas are compiled once per tool and cached; schema
+ * defaults are applied to the validated arguments.
+ *
+ * @module lib/std/src/validator
+ */
+
+import { Ajv, type ErrorObject, type ValidateFunction } from "ajv";
+import { ToolError } from "./tools/errors.ts";
+import type { MiniTool } from "./tools/types.ts";
+
+/** A single argument that failed validation */
+export interface ValidationIssue {
+  /** Argument path (e.g. "lines", "options.depth", "items[2]") */
+  field: string;
+  /** Human-readable reason */
+  message: string;
+  /** JSON Schema keyword that failed (e.g. "type", "required", "enum") */
+  keyword: string;
+}
+
+/**
+ * Thrown when tool arguments do not match the tool's input schema
+ */
+export class ToolValidationError extends ToolError {
+  readonly toolName: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(toolName: string, issues: ValidationIssue[]) {
+    super(
+      "INVALID_ARGUMENT",
+      `Invalid arguments for ${toolName}: ${
+        issues.map((i) => `${i.field || "(root)"} ${i.message}`).join("; ")
+      }`,
+      { details: { tool: toolName, issues } },
+    );
+    this.name = "ToolValidationError";
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
+/** Convert an ajv instance path ("/items/2/name") to "items[2].name" */
+function toFieldPath(instancePath: string, child?: string): string {
+  const segments = instancePath.split("/").slice(1);
+  if (child !== undefined) segments.push(child);
+
+  let path = "";
+  for (const raw of segments) {
+    const segment = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (/^\d+$/.test(segment)) {
+      path += `[${segment}]`;
+    } else {
+      path += path ? `.${segment}` : segment;
+    }
+  }
+  return path;
+}
+
+/** Convert an ajv error to a ValidationIssue */
+export function toValidationIssue(error: ErrorObject): ValidationIssue {
+  const params = error.params as Record<string, unknown>;
+  switch (error.keyword) {
+    case "required":
+      return {
+        field: toFieldPath(error.instancePath, params.missingProperty as string),
+        message: "is required",
+        keyword: error.keyword,
+      };
+    case "additionalProperties":
+      return {
+        field: toFieldPath(error.instancePath, params.additionalProperty as string),
+        message: "is not a recognized argument",
+        keyword: error.keyword,
+      };
+    case "enum":
+      return {
+        field: toFieldPath(error.instancePath),
+        message: `must be one of: ${(params.allowedValues as unknown[]).join(", ")}`,
+        keyword: error.keyword,
+      };
+    default:
+      return {
+        field: toFieldPath(error.instancePath),
+        message: error.message ?? "is invalid",
+        keyword: error.keyword,
+      };
+  }
+}
+
+/**
+ * Compiles and caches validators for tool input schemas
+ */
+export class InputValidator {
+  private ajv: Ajv;
+  private compiled = new WeakMap<MiniTool, ValidateFunction>();
+
+  constructor() {
+    // Tool schemas are hand-written and use descriptive extras, so strict
+    // mode is disabled; defaults are filled in on the validated copy.
+    this.ajv = new Ajv({ strict: false, allErrors: true, useDefaults: true });
+  }
+
+  /**
+   * Validate arguments for a tool.
+   *
+   * Returns a copy of `args` with schema defaults applied, or throws
+   * ToolValidationError listing every failing argument.
+   */
+  validate(tool: MiniTool, args: Record<string, unknown> | undefined): Record<string, unknown> {
+    const validate = this.getValidator(tool);
+    const data = args ? structuredClone(args) : {};
+
+    if (!validate(data)) {
+      throw new ToolValidationError(tool.name, (validate.errors ?? []).map(toValidationIssue));
+    }
+    return data;
+  }
+
+  private getValidator(tool: MiniTool): ValidateFunction {
+    let validate = this.compiled.get(tool);
+    if (!validate) {
+      validate = this.ajv.compile(tool.inputSchema);
+      this.compiled.set(tool, validate);
+    }
+    return validate;
+  }
+}
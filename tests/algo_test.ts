@@ -0,0 +1,286 @@
+/**
+ * Unit tests for the algo_* instance store: snapshots, limits and inspection
+ *
+ * @module lib/std/tests/algo_test
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { MiniToolsClient, ToolError } from "../src/client.ts";
+import { AlgoStore } from "../src/tools/algostore.ts";
+
+const client = new MiniToolsClient({ categories: ["algo"] });
+const call = (name: string, args: Record<string, unknown> = {}) =>
+  client.execute(name, args) as Promise<Record<string, unknown>>;
+
+Deno.test("algo tools - snapshot and restore every structure kind", async () => {
+  await call("algo_heap_create", { id: "h", type: "max", items: [3, 9, 1] });
+  await call("algo_trie_create", { id: "t", words: ["car", "cart", "dog"] });
+  await call("algo_lru_create", { id: "l", capacity: 2 });
+  await call("algo_lru_set", { id: "l", key: "a", value: 1 });
+  await call("algo_lru_set", { id: "l", key: "b", value: 2 });
+  await call("algo_lru_get", { id: "l", key: "a" });
+  await call("algo_bloom_create", { id: "b", capacity: 100 });
+  await call("algo_bloom_add", { id: "b", items: ["x", "y"] });
+  await call("algo_circular_create", { id: "c", capacity: 2 });
+  await call("algo_circular_push", { id: "c", items: [1, 2, 3] });
+  await call("algo_unionfind_create", { id: "u", size: 4 });
+  await call("algo_unionfind_union", { id: "u", a: 0, b: 3 });
+
+  const snapshot = JSON.parse(JSON.stringify(await call("algo_snapshot")));
+  for (const id of ["h", "t", "l", "b", "c", "u"]) await call("algo_delete", { id });
+  assertEquals((await call("algo_restore", { snapshot })).restored, ["h", "t", "l", "b", "c", "u"]);
+
+  assertEquals((await call("algo_heap_pop", { id: "h", count: 3 })).items, [9, 3, 1]);
+  assertEquals((await call("algo_trie_find", { id: "t", prefix: "car" })).matches, ["car", "cart"]);
+  // "a" was used last, so adding "c" evicts "b"
+  await call("algo_lru_set", { id: "l", key: "c", value: 3 });
+  assertEquals((await call("algo_lru_get", { id: "l", key: "b" })).found, false);
+  assertEquals((await call("algo_bloom_test", { id: "b", item: "x" })).mightExist, true);
+  assertEquals((await call("algo_circular_toArray", { id: "c" })).items, [2, 3]);
+  assertEquals((await call("algo_unionfind_connected", { id: "u", a: 3, b: 0 })).connected, true);
+});
+
+Deno.test("algo tools - inspect gives a type-aware view", async () => {
+  await call("algo_heap_create", { id: "scores", type: "min", items: [5, 2, 8, 1] });
+  const heap = await call("algo_inspect", { id: "scores", top: 2 });
+  assertEquals([heap.kind, heap.type, heap.size, heap.top], ["heap", "min", 4, [1, 2]]);
+
+  await call("algo_trie_create", { id: "words", words: ["to", "tea", "ten"] });
+  const trie = await call("algo_inspect", { id: "words" });
+  assertEquals([trie.words, trie.nodes, trie.maxDepth], [3, 5, 3]);
+
+  await call("algo_bloom_create", { id: "seen", capacity: 1000 });
+  await call("algo_bloom_add", { id: "seen", items: ["a", "b", "c", "d", "e"] });
+  const bloom = await call("algo_inspect", { id: "seen" });
+  assertEquals(Math.abs((bloom.estimatedItems as number) - 5) <= 1, true);
+  assertEquals((bloom.falsePositiveRate as number) < 1e-6, true);
+
+  const missing = await assertRejects(() => call("algo_inspect", { id: "nope" }), ToolError);
+  assertEquals(missing.code, "NOT_FOUND");
+});
+
+Deno.test("algo tools - a structure of the wrong kind is refused", async () => {
+  await call("algo_trie_create", { id: "mixed" });
+  const error = await assertRejects(
+    () => call("algo_heap_push", { id: "mixed", items: [1] }),
+    ToolError,
+    "is a trie, not a heap",
+  );
+  assertEquals(error.code, "INVALID_ARGUMENT");
+});
+
+Deno.test("AlgoStore - enforces instance and item limits", () => {
+  const store = new AlgoStore({ maxInstances: 1, maxItems: 3 });
+  store.checkItems("big", "lru", 3);
+  assertThrows(() => store.checkItems("big", "lru", 4), ToolError, "maxItems");
+
+  const trie = store.restore({
+    format: "mcp-std-algo",
+    version: 1,
+    createdAt: new Date().toISOString(),
+    instances: [{ id: "t", kind: "trie", data: { words: ["a", "b"] } }],
+  });
+  assertEquals(trie, ["t"]);
+  store.get("t", "trie", 1);
+  assertThrows(() => store.get("t", "trie", 2), ToolError, "maxItems");
+
+  assertThrows(
+    () =>
+      store.restore({
+        ...store.snapshot(),
+        instances: [{ id: "u", kind: "trie", data: { words: [] } }],
+      }),
+    ToolError,
+    "maxInstances",
+  );
+  assertEquals(store.ids(), ["t"]);
+});
+
+Deno.test("AlgoStore - evicts instances left idle", () => {
+  const store = new AlgoStore({ idleTimeout: 1000 });
+  store.restore({
+    format: "mcp-std-algo",
+    version: 1,
+    createdAt: new Date().toISOString(),
+    instances: [{ id: "old", kind: "heap", data: { type: "min", items: [] } }],
+  });
+
+  assertEquals(store.evictIdle(Date.now() + 500), []);
+  assertEquals(store.evictIdle(Date.now() + 1500), ["old"]);
+  assertThrows(() => store.get("old", "heap"), ToolError, "Heap not found");
+});
+
+Deno.test("algo tools - queue pop blocks until an item is pushed", async () => {
+  await call("algo_queue_create", { id: "jobs" });
+
+  const started = Date.now();
+  assertEquals((await call("algo_queue_pop", { id: "jobs", timeout: 0.05 })).items, []);
+  assertEquals(Date.now() - started >= 40, true);
+
+  const popped = call("algo_queue_pop", { id: "jobs", timeout: 5 });
+  await call("algo_queue_push", { id: "jobs", items: ["build", "test"] });
+  assertEquals(await popped, { items: ["build"], remaining: 1 });
+
+  await call("algo_stack_create", { id: "undo", items: [1, 2] });
+  await call("algo_stack_push", { id: "undo", items: [3] });
+  assertEquals((await call("algo_stack_pop", { id: "undo", count: 2 })).items, [3, 2]);
+
+  const snapshot = JSON.parse(
+    JSON.stringify(await call("algo_snapshot", { ids: ["jobs", "undo"] })),
+  );
+  await call("algo_restore", { snapshot });
+  assertEquals((await call("algo_queue_peek", { id: "jobs" })).items, ["test"]);
+  assertEquals((await call("algo_stack_peek", { id: "undo" })).items, [1]);
+});
+
+Deno.test("algo tools - a blocked pop is cancelled with the call", async () => {
+  await call("algo_queue_create", { id: "idle" });
+  const controller = new AbortController();
+  const popped = client.execute("algo_queue_pop", { id: "idle", timeout: 60 }, {
+    signal: controller.signal,
+  });
+  controller.abort();
+  const error = await assertRejects(() => popped, ToolError);
+  assertEquals(error.code, "CANCELLED");
+});
+
+Deno.test("algo tools - multiset top-k and bimap lookups", async () => {
+  await call("algo_multiset_create", { id: "words", items: ["a", "b", "a", "c", "a", "b"] });
+  await call("algo_multiset_remove", { id: "words", items: ["c"] });
+  assertEquals((await call("algo_multiset_top", { id: "words", k: 5 })).top, [
+    { item: "a", count: 3 },
+    { item: "b", count: 2 },
+  ]);
+  assertEquals((await call("algo_multiset_count", { id: "words", item: "b" })).count, 2);
+
+  await call("algo_bimap_create", { id: "codes", entries: { fr: "France", de: "Germany" } });
+  await call("algo_bimap_set", { id: "codes", entries: { fra: "France" } });
+  assertEquals((await call("algo_bimap_get", { id: "codes", value: "France" })).key, "fra");
+  assertEquals((await call("algo_bimap_get", { id: "codes", key: "fr" })).found, false);
+
+  const snapshot = JSON.parse(
+    JSON.stringify(await call("algo_snapshot", { ids: ["words", "codes"] })),
+  );
+  await call("algo_restore", { snapshot });
+  assertEquals((await call("algo_multiset_top", { id: "words", k: 1 })).top, [{
+    item: "a",
+    count: 3,
+  }]);
+  assertEquals((await call("algo_bimap_get", { id: "codes", key: "de" })).value, "Germany");
+});
+
+Deno.test("algo tools - suffix array search matches a linear scan", async () => {
+  const text = "abracadabra, abracadabra! cadabra?";
+  await call("algo_suffix_create", { id: "doc", text });
+
+  for (const pattern of ["abra", "cad", "a", "ra!", "zz", "abracadabra, abracadabra! cadabra?"]) {
+    const expected: number[] = [];
+    for (let i = text.indexOf(pattern); i !== -1; i = text.indexOf(pattern, i + 1)) {
+      expected.push(i);
+    }
+    const result = await call("algo_suffix_search", { id: "doc", pattern, context: 0 });
+    const matches = result.matches as Array<{ position: number; context: string }>;
+    assertEquals(matches.map((m) => m.position), expected, pattern);
+    assertEquals(matches.every((m) => m.context === pattern), true);
+  }
+
+  const snapshot = JSON.parse(JSON.stringify(await call("algo_snapshot", { ids: ["doc"] })));
+  await call("algo_restore", { snapshot });
+  assertEquals((await call("algo_suffix_search", { id: "doc", pattern: "abra" })).count, 5);
+});
+
+Deno.test("algo tools - graph sort, paths, components and ranks", async () => {
+  await call("algo_graph_create", {
+    id: "build",
+    edges: [["lib", "app"], ["util", "lib"], { from: "util", to: "app" }, ["docs", "docs2"]],
+  });
+  assertEquals((await call("algo_graph_toposort", { id: "build" })).order, [
+    "util",
+    "docs",
+    "lib",
+    "docs2",
+    "app",
+  ]);
+  await call("algo_graph_add", { id: "build", edges: [["app", "util"]] });
+  const cyclic = await call("algo_graph_toposort", { id: "build" });
+  assertEquals([cyclic.sorted, cyclic.order, cyclic.cycles], [false, ["docs", "docs2"], [[
+    "lib",
+    "app",
+    "util",
+  ]]]);
+  assertEquals((await call("algo_graph_components", { id: "build", strong: true })).count, 3);
+  assertEquals((await call("algo_graph_components", { id: "build" })).components, [
+    ["lib", "app", "util"],
+    ["docs", "docs2"],
+  ]);
+
+  await call("algo_graph_create", {
+    id: "roads",
+    directed: false,
+    edges: [["a", "b", 4], ["a", "c", 1], ["c", "b", 2], ["b", "d", 5], ["c", "d", 8]],
+  });
+  const dijkstra = await call("algo_graph_shortest_path", { id: "roads", from: "a", to: "d" });
+  assertEquals([dijkstra.path, dijkstra.distance], [["a", "c", "b", "d"], 8]);
+  const astar = await call("algo_graph_shortest_path", {
+    id: "roads",
+    from: "a",
+    to: "d",
+    positions: { a: [0, 0], b: [2, 0], c: [1, 0], d: [6, 0] },
+  });
+  assertEquals([astar.algorithm, astar.path, astar.distance], ["astar", dijkstra.path, 8]);
+  const mst = await call("algo_graph_mst", { id: "roads" });
+  assertEquals([mst.weight, mst.trees], [8, 1]);
+
+  await call("algo_graph_create", { id: "web", edges: [["a", "hub"], ["b", "hub"], ["hub", "a"]] });
+  const ranked = await call("algo_graph_pagerank", { id: "web" });
+  const ranks = ranked.ranks as Array<{ node: string; rank: number }>;
+  assertEquals(ranks[0].node, "hub");
+  assertEquals(Math.abs(ranks.reduce((sum, { rank }) => sum + rank, 0) - 1) < 1e-9, true);
+
+  const snapshot = JSON.parse(JSON.stringify(await call("algo_snapshot", { ids: ["roads"] })));
+  await call("algo_restore", { snapshot });
+  assertEquals((await call("algo_graph_mst", { id: "roads" })).weight, 8);
+});
+
+Deno.test("algo tools - graphs from psql_erd, git_graph and dependency_analyze", async () => {
+  await call("algo_graph_create", {
+    id: "erd",
+    data: {
+      tables: [{ name: "users" }, { name: "orders" }, { name: "audit" }],
+      relationships: [{ name: "fk", fromTable: "orders", fromColumn: "user_id", toTable: "users" }],
+    },
+  });
+  assertEquals((await call("algo_inspect", { id: "erd" })).edges, 1);
+  assertEquals(
+    (await call("algo_graph_export", { id: "erd" })).content,
+    'digraph "erd" {\n  "audit";\n  "orders" -> "users";\n}',
+  );
+
+  await call("algo_graph_create", {
+    id: "history",
+    data: {
+      commits: [
+        { hash: "c3", shortHash: "C", parents: ["a1", "b2"] },
+        { hash: "b2", shortHash: "B", parents: ["a1"] },
+        { hash: "a1", shortHash: "A", parents: [] },
+      ],
+    },
+  });
+  assertEquals(
+    (await call("algo_graph_export", { id: "history", format: "mermaid" })).content,
+    'flowchart LR\n  n0["C"]\n  n1["B"]\n  n2["A"]\n  n0 --> n2\n  n0 --> n1\n  n1 --> n2',
+  );
+
+  await call("algo_graph_create", {
+    id: "deps",
+    data: { name: "app", dependencies: [{ name: "std", version: "1.0.0", depth: 0 }] },
+  });
+  assertEquals((await call("algo_graph_toposort", { id: "deps" })).order, ["app", "std"]);
+
+  const error = await assertRejects(
+    () => call("algo_graph_create", { id: "bad", data: { rows: [] } }),
+    ToolError,
+    "Unrecognized graph data",
+  );
+  assertEquals(error.code, "INVALID_ARGUMENT");
+});
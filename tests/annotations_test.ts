@@ -0,0 +1,49 @@
+/**
+ * Unit tests for tool annotations
+ *
+ * @module lib/std/tests/annotations_test
+ */
+
+import { assertEquals } from "@std/assert";
+import { allTools, MiniToolsClient } from "../src/client.ts";
+
+const HINTS = ["readOnlyHint", "destructiveHint", "idempotentHint", "openWorldHint"] as const;
+
+Deno.test("annotations - every tool declares all four hints", () => {
+  const missing = allTools
+    .filter((tool) => HINTS.some((hint) => typeof tool.annotations?.[hint] !== "boolean"))
+    .map((tool) => tool.name);
+
+  assertEquals(missing, [], `Tools without complete annotations: ${missing.join(", ")}`);
+});
+
+Deno.test("annotations - read-only tools are never destructive", () => {
+  const conflicting = allTools
+    .filter((tool) => tool.annotations?.readOnlyHint && tool.annotations.destructiveHint)
+    .map((tool) => tool.name);
+
+  assertEquals(conflicting, []);
+});
+
+Deno.test("annotations - classifies representative tools", () => {
+  const byName = new Map(allTools.map((tool) => [tool.name, tool.annotations]));
+
+  assertEquals(byName.get("string_slugify")?.readOnlyHint, true);
+  assertEquals(byName.get("docker_rm")?.destructiveHint, true);
+  assertEquals(byName.get("kill_process")?.destructiveHint, true);
+  assertEquals(byName.get("kubectl_apply")?.destructiveHint, true);
+  assertEquals(byName.get("kubectl_apply")?.openWorldHint, true);
+  assertEquals(byName.get("state_increment")?.idempotentHint, false);
+});
+
+Deno.test("toMCPFormat - emits annotations", () => {
+  const client = new MiniToolsClient({ categories: ["docker"] });
+  const rm = client.toMCPFormat().find((t) => t.name === "docker_rm");
+
+  assertEquals(rm?.annotations, {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for execute timeouts and cancellation
+ *
+ * @module lib/std/tests/cancellation_test
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { MiniToolsClient, ToolError } from "../src/client.ts";
+import { networkTools } from "../src/tools/network.ts";
+import { defineTool, type ToolContext } from "../src/tools/types.ts";
+
+/** Client whose only tool waits until its signal aborts, recording the context */
+function waitingClient() {
+  const seen: ToolContext[] = [];
+  const client = new MiniToolsClient({ categories: ["util"], validateInput: false });
+  client.listTools().push(
+    defineTool("util_wait", "Waits for abort", "util", { type: "object" }, (_args, ctx) => {
+      seen.push(ctx!);
+      return new Promise((_, reject) => {
+        ctx!.signal.addEventListener("abort", () => reject(new Error("aborted")));
+      });
+    }),
+  );
+  return { client, seen };
+}
+
+Deno.test("execute - timeout aborts the handler signal and rejects with TIMEOUT", async () => {
+  const { client, seen } = waitingClient();
+  const before = Date.now();
+
+  const error = await assertRejects(
+    () => client.execute("util_wait", {}, { timeout: 20 }),
+    ToolError,
+  );
+
+  assertEquals(error.code, "TIMEOUT");
+  assertEquals(seen[0].signal.aborted, true);
+  assertEquals(seen[0].deadline! >= before + 20, true);
+});
+
+Deno.test("execute - caller signal cancels with CANCELLED", async () => {
+  const { client, seen } = waitingClient();
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 10);
+
+  const error = await assertRejects(
+    () => client.execute("util_wait", {}, { signal: controller.signal }),
+    ToolError,
+  );
+
+  assertEquals(error.code, "CANCELLED");
+  assertEquals(seen[0].deadline, undefined);
+});
+
+Deno.test("execute - already aborted signal does not run the handler", async () => {
+  const { client, seen } = waitingClient();
+  const controller = new AbortController();
+  controller.abort();
+
+  await assertRejects(
+    () => client.execute("util_wait", {}, { signal: controller.signal }),
+    ToolError,
+  );
+  assertEquals(seen.length, 0);
+});
+
+Deno.test("execute - handlers receive a live signal without a timeout", async () => {
+  const client = new MiniToolsClient({ categories: ["util"] });
+  let ctx: ToolContext | undefined;
+  client.listTools().push(
+    defineTool("util_ctx", "Returns", "util", { type: "object" }, (_args, c) => {
+      ctx = c;
+      return "ok";
+    }),
+  );
+
+  assertEquals(await client.execute("util_ctx", {}), "ok");
+  assertEquals(ctx?.signal.aborted, false);
+});
+
+Deno.test("port_scan - stops scanning once its signal aborts", async () => {
+  const portScan = networkTools.find((t) => t.name === "port_scan")!;
+  const controller = new AbortController();
+  const ctx: ToolContext = {
+    signal: controller.signal,
+    reportProgress: () => {},
+    progressRequested: false,
+  };
+  setTimeout(() => controller.abort(), 50);
+
+  const error = await assertRejects(
+    async () => await portScan.handler({ host: "127.0.0.1", ports: "1-65535", timeout: 200 }, ctx),
+    ToolError,
+  );
+  assertEquals(error.code, "CANCELLED");
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for server configuration loading
+ *
+ * @module lib/std/tests/config_test
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { applyEnvDefaults, ConfigError, loadConfig, parseConfig } from "../src/config.ts";
+import { MiniToolsClient, ToolError } from "../src/client.ts";
+import { defineTool } from "../src/tools/types.ts";
+
+Deno.test("loadConfig - reads YAML", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".yaml" });
+  try {
+    await Deno.writeTextFile(
+      path,
+      [
+        "categories: [git, docker]",
+        "deny: ['*_rm']",
+        "maxConcurrent: 20",
+        "toolTimeouts:",
+        "  docker_build: 600000",
+        "http:",
+        "  port: 4000",
+        "  cors: false",
+      ].join("\n"),
+    );
+    const config = await loadConfig(path);
+
+    assertEquals(config.categories, ["git", "docker"]);
+    assertEquals(config.deny, ["*_rm"]);
+    assertEquals(config.maxConcurrent, 20);
+    assertEquals(config.toolTimeouts, { docker_build: 600000 });
+    assertEquals(config.http, { port: 4000, cors: false });
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("loadConfig - reads JSON", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  try {
+    await Deno.writeTextFile(path, JSON.stringify({ readOnly: true, env: { FOO: "bar" } }));
+    assertEquals(await loadConfig(path), { readOnly: true, env: { FOO: "bar" } });
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("loadConfig - missing file throws ConfigError", async () => {
+  const error = await assertRejects(() => loadConfig("/nonexistent/mcp-std.yaml"), ConfigError);
+
+  assertEquals(error.message.includes("file not found"), true);
+});
+
+Deno.test("parseConfig - reports every invalid field", () => {
+  const error = assertThrows(
+    () =>
+      parseConfig(
+        { maxConcurent: 5, http: { port: 70000 }, toolTimeouts: { docker_build: "slow" } },
+        "bad.yaml",
+      ),
+    ConfigError,
+  );
+
+  assertEquals(error.path, "bad.yaml");
+  assertEquals(error.issues.map((i) => i.field).sort(), [
+    "http.port",
+    "maxConcurent",
+    "toolTimeouts.docker_build",
+  ]);
+  assertEquals(error.message.includes("maxConcurent is not a recognized option"), true);
+});
+
+Deno.test("parseConfig - empty document is an empty config", () => {
+  assertEquals(parseConfig(null), {});
+});
+
+Deno.test("applyEnvDefaults - does not override existing variables", () => {
+  Deno.env.set("MCP_STD_TEST_SET", "original");
+  try {
+    const applied = applyEnvDefaults({ MCP_STD_TEST_SET: "config", MCP_STD_TEST_UNSET: "config" });
+
+    assertEquals(applied, ["MCP_STD_TEST_UNSET"]);
+    assertEquals(Deno.env.get("MCP_STD_TEST_SET"), "original");
+    assertEquals(Deno.env.get("MCP_STD_TEST_UNSET"), "config");
+  } finally {
+    Deno.env.delete("MCP_STD_TEST_SET");
+    Deno.env.delete("MCP_STD_TEST_UNSET");
+  }
+});
+
+Deno.test("MiniToolsClient - per-tool timeout rejects with TIMEOUT", async () => {
+  const client = new MiniToolsClient({
+    categories: ["util"],
+    timeouts: { "util_*": 10, util_slugify: 5000 },
+  });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const slow = defineTool(
+    "util_slow",
+    "Slow tool",
+    "util",
+    { type: "object" },
+    () => new Promise((resolve) => timer = setTimeout(resolve, 1000)),
+  );
+  // listTools() returns the client's own (category-filtered) array
+  client.listTools().push(slow);
+
+  try {
+    const error = await assertRejects(() => client.execute("util_slow", {}), ToolError);
+    assertEquals(error.code, "TIMEOUT");
+    assertEquals(error.details, { timeoutMs: 10 });
+  } finally {
+    clearTimeout(timer);
+  }
+});
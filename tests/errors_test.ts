@@ -0,0 +1,99 @@
+/**
+ * Unit tests for structured tool errors
+ *
+ * @module lib/std/tests/errors_test
+ */
+
+import { assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
+import { abortError, isToolError, ToolError, toToolError } from "../src/tools/errors.ts";
+import { commandFailed, runCommand } from "../src/tools/common.ts";
+
+Deno.test("ToolError - serializes code, message and details", () => {
+  const error = new ToolError("NOT_FOUND", "Heap not found", { details: { id: "h1" } });
+
+  assertEquals(error.toJSON(), {
+    code: "NOT_FOUND",
+    message: "Heap not found",
+    details: { id: "h1" },
+  });
+  assertEquals(isToolError(error), true);
+});
+
+Deno.test("ToolError - omits details when not provided", () => {
+  const error = new ToolError("TIMEOUT", "Command timed out");
+
+  assertEquals(error.toJSON(), { code: "TIMEOUT", message: "Command timed out" });
+});
+
+Deno.test("toToolError - passes ToolError through unchanged", () => {
+  const error = new ToolError("INVALID_ARGUMENT", "bad");
+
+  assertEquals(toToolError(error), error);
+});
+
+Deno.test("toToolError - maps Deno runtime errors", () => {
+  assertEquals(toToolError(new Deno.errors.NotFound("missing")).code, "NOT_FOUND");
+  assertEquals(toToolError(new Deno.errors.PermissionDenied("denied")).code, "PERMISSION_DENIED");
+  assertEquals(toToolError(new Deno.errors.TimedOut("slow")).code, "TIMEOUT");
+});
+
+Deno.test("toToolError - maps database errors to UPSTREAM_ERROR", () => {
+  const dbError = Object.assign(new Error('relation "users" does not exist'), { code: "42P01" });
+  const error = toToolError(dbError);
+
+  assertEquals(error.code, "UPSTREAM_ERROR");
+  assertEquals(error.details, { sqlState: "42P01" });
+});
+
+Deno.test("toToolError - wraps unknown errors as INTERNAL", () => {
+  const error = toToolError("boom");
+
+  assertInstanceOf(error, ToolError);
+  assertEquals(error.code, "INTERNAL");
+  assertEquals(error.message, "boom");
+});
+
+Deno.test("commandFailed - classifies permission errors", () => {
+  const denied = commandFailed("docker ps", {
+    stderr: "permission denied while trying to connect to the Docker daemon socket",
+    code: 1,
+  });
+  const failed = commandFailed("git log", { stderr: "fatal: not a git repository", code: 128 });
+
+  assertEquals(denied.code, "PERMISSION_DENIED");
+  assertEquals(failed.code, "UPSTREAM_ERROR");
+  assertEquals(failed.details, { exitCode: 128, stderr: "fatal: not a git repository" });
+});
+
+Deno.test("runCommand - missing binary throws COMMAND_MISSING", async () => {
+  const error = await assertRejects(() => runCommand("mcp-std-no-such-binary", []), ToolError);
+
+  assertEquals(error.code, "COMMAND_MISSING");
+});
+
+Deno.test("abortError - maps abort reasons", () => {
+  const cancelled = new AbortController();
+  cancelled.abort();
+  const timedOut = new AbortController();
+  timedOut.abort(new DOMException("slow", "TimeoutError"));
+  const custom = new AbortController();
+  custom.abort(new ToolError("TIMEOUT", "deadline"));
+
+  assertEquals(abortError(cancelled.signal).code, "CANCELLED");
+  assertEquals(abortError(timedOut.signal).code, "TIMEOUT");
+  assertEquals(abortError(custom.signal), custom.signal.reason);
+});
+
+Deno.test("runCommand - abort kills the process with CANCELLED", async () => {
+  const controller = new AbortController();
+  const started = Date.now();
+  setTimeout(() => controller.abort(), 50);
+
+  const error = await assertRejects(
+    () => runCommand("sleep", ["5"], { signal: controller.signal }),
+    ToolError,
+  );
+
+  assertEquals(error.code, "CANCELLED");
+  assertEquals(Date.now() - started < 4000, true);
+});
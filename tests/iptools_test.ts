@@ -4,7 +4,8 @@
  * @module lib/std/tests/iptools_test
  */
 
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertThrows } from "@std/assert";
+import { ToolError } from "../src/tools/errors.ts";
 import { iptoolsTools } from "../src/tools/iptools.ts";
 
 // Helper to get tool handler
@@ -54,9 +55,13 @@ Deno.test("cidr_calculate - detects private network", () => {
 
 Deno.test("cidr_calculate - invalid IP", () => {
   const handler = getHandler("cidr_calculate");
-  const result = handler({ cidr: "999.999.999.999/24" }) as { error: string };
+  const error = assertThrows(
+    () => handler({ cidr: "999.999.999.999/24" }),
+    ToolError,
+    "Invalid IPv4 address",
+  );
 
-  assertEquals(result.error, "Invalid IPv4 address");
+  assertEquals(error.code, "INVALID_ARGUMENT");
 });
 
 // CIDR contains tests
@@ -209,7 +214,11 @@ Deno.test("ip_range - single IP", () => {
 
 Deno.test("ip_range - error on reversed range", () => {
   const handler = getHandler("ip_range");
-  const result = handler({ start: "192.168.1.255", end: "192.168.1.0" }) as { error: string };
+  const error = assertThrows(
+    () => handler({ start: "192.168.1.255", end: "192.168.1.0" }),
+    ToolError,
+    "Start IP must be less than or equal to end IP",
+  );
 
-  assertEquals(result.error, "Start IP must be less than or equal to end IP");
+  assertEquals(error.code, "INVALID_ARGUMENT");
 });
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for the db_migrate_* tools, run against PGlite in memory
+ *
+ * @module lib/std/tests/migrations_test
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { databaseTools } from "../src/tools/database.ts";
+import { ToolError } from "../src/tools/errors.ts";
+import { closePgliteConnection, pgliteTools } from "../src/tools/pglite.ts";
+
+const call = async (name: string, args: Record<string, unknown>) => {
+  const tool = [...databaseTools, ...pgliteTools].find((t) => t.name === name)!;
+  const result = await tool.handler({ pglite: true, dbPath: ":memory:", ...args });
+  return result as Record<string, unknown>;
+};
+
+async function withMigrations(
+  files: Record<string, string>,
+  fn: (dir: string) => Promise<void>,
+) {
+  const dir = await Deno.makeTempDir();
+  try {
+    for (const [name, sql] of Object.entries(files)) {
+      await Deno.writeTextFile(`${dir}/${name}`, sql);
+    }
+    await fn(dir);
+  } finally {
+    await closePgliteConnection();
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+const FILES = {
+  "0001_users.up.sql": "CREATE TABLE users (id serial PRIMARY KEY, name text);",
+  "0001_users.down.sql": "DROP TABLE users;",
+  "0002_email.up.sql": "ALTER TABLE users ADD COLUMN email text;\nCREATE INDEX ON users (email);",
+  "0002_email.down.sql": "ALTER TABLE users DROP COLUMN email;",
+  "README.md": "not a migration",
+};
+
+const states = async (dir: string) =>
+  ((await call("db_migrate_status", { dir })).migrations as Record<string, unknown>[])
+    .map((m) => `${m.version}:${m.state}`);
+
+Deno.test("db_migrate_up - dry run, apply and status", async () => {
+  await withMigrations(FILES, async (dir) => {
+    assertEquals(await states(dir), ["0001:pending", "0002:pending"]);
+
+    const plan = await call("db_migrate_up", { dir, dryRun: true });
+    assertEquals(plan, {
+      dryRun: true,
+      migrations: [
+        { version: "0001", name: "users", sql: FILES["0001_users.up.sql"] },
+        { version: "0002", name: "email", sql: FILES["0002_email.up.sql"] },
+      ],
+    });
+    // Neither a dry run nor a run with nothing to apply creates schema_migrations
+    assertEquals((await call("db_migrate_up", { dir, to: "0000" })).count, 0);
+    assertEquals(
+      (await call("pglite_query", { query: "SELECT to_regclass('schema_migrations')::text AS t" }))
+        .rows,
+      [{ t: null }],
+    );
+
+    assertEquals(await call("db_migrate_up", { dir, to: "0001" }), {
+      applied: [{ version: "0001", name: "users" }],
+      count: 1,
+    });
+    assertEquals(await states(dir), ["0001:applied", "0002:pending"]);
+    assertEquals((await call("db_migrate_up", { dir })).count, 1);
+    assertEquals((await call("db_migrate_up", { dir })).count, 0);
+    await call("pglite_query", { query: "INSERT INTO users (name, email) VALUES ('a', 'a@b.c')" });
+  });
+});
+
+Deno.test("db_migrate_down - rolls back newest first, with confirm", async () => {
+  await withMigrations(FILES, async (dir) => {
+    await call("db_migrate_up", { dir });
+
+    const error = await assertRejects(() => call("db_migrate_down", { dir }), ToolError);
+    assertEquals(error.code, "INVALID_ARGUMENT");
+    assertEquals(error.message.includes("confirm"), true);
+
+    assertEquals((await call("db_migrate_down", { dir, dryRun: true, to: "0000" })).migrations, [
+      { version: "0002", name: "email", sql: FILES["0002_email.down.sql"] },
+      { version: "0001", name: "users", sql: FILES["0001_users.down.sql"] },
+    ]);
+    assertEquals(await call("db_migrate_down", { dir, confirm: true }), {
+      rolledBack: [{ version: "0002", name: "email" }],
+      count: 1,
+    });
+    assertEquals(await states(dir), ["0001:applied", "0002:pending"]);
+    assertEquals((await call("db_migrate_down", { dir, steps: 5, confirm: true })).count, 1);
+    assertEquals(await states(dir), ["0001:pending", "0002:pending"]);
+  });
+});
+
+Deno.test("db_migrate_up - a failing migration leaves no trace", async () => {
+  await withMigrations({
+    "1_ok.up.sql": "CREATE TABLE a (id int);",
+    "2_bad.up.sql": "CREATE TABLE b (id int);\nINSERT INTO nope VALUES (1);",
+  }, async (dir) => {
+    const error = await assertRejects(() => call("db_migrate_up", { dir }), ToolError);
+    assertEquals(error.code, "UPSTREAM_ERROR");
+    assertEquals(error.message.startsWith("Migration 2_bad (up) failed"), true);
+    assertEquals(await states(dir), ["1:applied", "2:pending"]);
+    assertEquals(
+      (await call("pglite_query", { query: "SELECT to_regclass('b')::text AS t" })).rows,
+      [{ t: null }],
+    );
+  });
+});
+
+Deno.test("db_migrate_up - changed and missing migrations", async () => {
+  await withMigrations(FILES, async (dir) => {
+    await call("db_migrate_up", { dir });
+    await Deno.writeTextFile(`${dir}/0001_users.up.sql`, "CREATE TABLE users (id int);");
+    await Deno.remove(`${dir}/0002_email.up.sql`);
+    await Deno.remove(`${dir}/0002_email.down.sql`);
+    await Deno.writeTextFile(`${dir}/0003_more.up.sql`, "SELECT 1;");
+
+    const status = await call("db_migrate_status", { dir });
+    assertEquals(await states(dir), ["0001:changed", "0002:missing", "0003:pending"]);
+    assertEquals([status.applied, status.pending, status.changed, status.missing], [0, 1, 1, 1]);
+    await assertRejects(
+      () => call("db_migrate_up", { dir }),
+      ToolError,
+      "changed since they ran: 0001_users",
+    );
+    await assertRejects(
+      () => call("db_migrate_down", { dir, confirm: true }),
+      ToolError,
+      "0002 was applied but its files are missing",
+    );
+  });
+});
+
+Deno.test("db_migrate_status - bad directories and arguments", async () => {
+  await withMigrations({ "1_a.down.sql": "SELECT 1;" }, async (dir) => {
+    await assertRejects(() => call("db_migrate_status", { dir }), ToolError, "has no up migration");
+    await assertRejects(
+      () => call("db_migrate_status", { dir: `${dir}/nope` }),
+      ToolError,
+      "Migrations directory not found",
+    );
+    await assertRejects(
+      () => call("db_migrate_up", { dir, to: "v2" }),
+      ToolError,
+      "Invalid migration version",
+    );
+  });
+});
+
+Deno.test("db_migrate_up/down - read-only connections only allow dry runs", async () => {
+  await call("db_connect", {
+    name: "replica",
+    url: "postgres://reader@db.example.com/app",
+    readOnly: true,
+    pglite: false,
+  });
+  try {
+    for (const name of ["db_migrate_up", "db_migrate_down"]) {
+      const error = await assertRejects(
+        () => call(name, { connection: "replica", pglite: false, dir: "./migrations" }),
+        ToolError,
+        "Read-only connection",
+      );
+      assertEquals(error.code, "PERMISSION_DENIED");
+    }
+  } finally {
+    await call("db_disconnect", { name: "replica", pglite: false });
+  }
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for result pagination
+ *
+ * @module lib/std/tests/pagination_test
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { MiniToolsClient, type PageInfo, ResultPager, ToolError } from "../src/client.ts";
+import { defineTool } from "../src/tools/types.ts";
+
+type Paged = Record<string, unknown> & { _page: PageInfo };
+
+Deno.test("ResultPager - leaves results within budget unchanged", () => {
+  const pager = new ResultPager({ maxBytes: 1000 });
+  const result = { commits: [{ hash: "abc" }], count: 1 };
+
+  assertEquals(pager.page(result), result);
+});
+
+Deno.test("ResultPager - pages the largest array property and follows cursors", () => {
+  const pager = new ResultPager({ maxBytes: 1000, maxItems: 40 });
+  const rows = Array.from({ length: 100 }, (_, i) => ({ id: i }));
+
+  const first = pager.page({ rows, rowCount: 100 }) as Paged;
+  assertEquals(first.rowCount, 100);
+  assertEquals(first._page.field, "rows");
+  assertEquals(first._page.offset, 0);
+  assertEquals(first._page.total, 100);
+
+  const seen = [...(first.rows as unknown[])];
+  let cursor = first._page.nextCursor;
+  while (cursor) {
+    const page = pager.next(cursor) as Paged;
+    assertEquals(page._page.offset, seen.length);
+    seen.push(...(page.rows as unknown[]));
+    cursor = page._page.nextCursor;
+  }
+  assertEquals(seen, rows);
+});
+
+Deno.test("ResultPager - pages text by bytes, ending on line breaks", () => {
+  const pager = new ResultPager({ maxBytes: 600 });
+  const logs = Array.from({ length: 100 }, (_, i) => `line ${i}`).join("\n");
+
+  const first = pager.page({ logs }) as Paged;
+  const text = first.logs as string;
+  assertEquals(text.endsWith("\n"), true);
+  assertEquals(new TextEncoder().encode(JSON.stringify(first)).length <= 600, true);
+
+  let joined = text;
+  let cursor = first._page.nextCursor;
+  while (cursor) {
+    const page = pager.next(cursor) as Paged;
+    joined += page.logs as string;
+    cursor = page._page.nextCursor;
+  }
+  assertEquals(joined, logs);
+});
+
+Deno.test("ResultPager - wraps top-level arrays in items", () => {
+  const pager = new ResultPager({ maxBytes: 10000, maxItems: 3 });
+
+  const page = pager.page([1, 2, 3, 4, 5]) as Paged;
+
+  assertEquals(page.items, [1, 2, 3]);
+  assertEquals(page._page.truncated, true);
+});
+
+Deno.test("ResultPager - rejects malformed and evicted cursors", () => {
+  const pager = new ResultPager({ maxBytes: 10000, maxItems: 1, maxStored: 1 });
+  const first = (pager.page([1, 2]) as Paged)._page.nextCursor!;
+  pager.page([3, 4]);
+
+  assertEquals(assertThrows(() => pager.next("nope"), ToolError).code, "INVALID_ARGUMENT");
+  assertEquals(assertThrows(() => pager.next(first), ToolError).code, "NOT_FOUND");
+});
+
+Deno.test("ResultPager - rejects cursors with an out-of-range offset", () => {
+  const pager = new ResultPager({ maxBytes: 10000, maxItems: 1 });
+  const cursor = (pager.page([1, 2]) as Paged)._page.nextCursor!;
+  const { id } = JSON.parse(atob(cursor));
+  const forge = (offset: unknown) => btoa(JSON.stringify({ id, offset }));
+
+  for (const offset of [-1, 1.5, 2, 1e9]) {
+    assertEquals(assertThrows(() => pager.next(forge(offset)), ToolError).code, "INVALID_ARGUMENT");
+  }
+  assertEquals((pager.next(forge(1)) as Paged).items, [2]);
+});
+
+Deno.test("ResultPager - pages arrays nested in objects", () => {
+  const pager = new ResultPager({ maxBytes: 1000 });
+  const rows = Array.from({ length: 100 }, (_, i) => ({ id: i }));
+
+  const first = pager.page({ status: "ok", data: { rows, total: 100 } }) as Paged;
+  const data = first.data as Record<string, unknown>;
+  assertEquals(first.status, "ok");
+  assertEquals(data.total, 100);
+  assertEquals(first._page.field, "data.rows");
+  assertEquals(new TextEncoder().encode(JSON.stringify(first)).length <= 1000, true);
+
+  const seen = [...(data.rows as unknown[])];
+  let cursor = first._page.nextCursor;
+  while (cursor) {
+    const page = pager.next(cursor) as Paged;
+    seen.push(...((page.data as Record<string, unknown>).rows as unknown[]));
+    cursor = page._page.nextCursor;
+  }
+  assertEquals(seen, rows);
+});
+
+Deno.test("MiniToolsClient - maxResultBytes pages results and adds result_page", async () => {
+  const client = new MiniToolsClient({
+    categories: ["util"],
+    validateInput: false,
+    maxResultItems: 10,
+    maxResultBytes: 100000,
+  });
+  client.listTools().push(
+    defineTool(
+      "util_many",
+      "Returns many items",
+      "util",
+      { type: "object" },
+      () => Array.from({ length: 25 }, (_, i) => i),
+    ),
+  );
+
+  const first = await client.execute("util_many", {}) as Paged;
+  assertEquals(first.items, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+  const second = await client.execute("result_page", { cursor: first._page.nextCursor }) as Paged;
+  assertEquals(second.items, [10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
+  assertEquals(second._page.offset, 10);
+});
+
+Deno.test("MiniToolsClient - no result_page tool without a budget", async () => {
+  const client = new MiniToolsClient({ categories: ["util"] });
+
+  const error = await assertRejects(
+    () => client.execute("result_page", { cursor: "x" }),
+    ToolError,
+  );
+  assertEquals(error.code, "NOT_FOUND");
+});
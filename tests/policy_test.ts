@@ -0,0 +1,64 @@
+/**
+ * Unit tests for tool policy filtering
+ *
+ * @module lib/std/tests/policy_test
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { applyToolPolicy, globToRegExp } from "../src/policy.ts";
+import { allTools, MiniToolsClient, MiniToolsMCP, ToolError } from "../src/client.ts";
+
+const names = (tools: { name: string }[]) => tools.map((t) => t.name).sort();
+
+Deno.test("globToRegExp - matches * and ? against whole names", () => {
+  assertEquals(globToRegExp("git_*").test("git_status"), true);
+  assertEquals(globToRegExp("git_*").test("digit_sum"), false);
+  assertEquals(globToRegExp("*_rm").test("docker_rm"), true);
+  assertEquals(globToRegExp("which?").test("which_"), true);
+  assertEquals(globToRegExp("which?").test("which"), false);
+});
+
+Deno.test("applyToolPolicy - allow keeps only matching tools", () => {
+  const tools = applyToolPolicy(allTools, { allow: ["git_*", "docker_ps"] });
+
+  assertEquals(tools.length > 1, true);
+  assertEquals(tools.every((t) => t.name.startsWith("git_") || t.name === "docker_ps"), true);
+});
+
+Deno.test("applyToolPolicy - deny wins over allow", () => {
+  const tools = applyToolPolicy(allTools, { allow: ["docker_*"], deny: ["*_rm", "docker_prune"] });
+
+  assertEquals(names(tools).includes("docker_ps"), true);
+  assertEquals(names(tools).includes("docker_rm"), false);
+  assertEquals(names(tools).includes("docker_prune"), false);
+});
+
+Deno.test("applyToolPolicy - readOnly removes tools that modify anything", () => {
+  const tools = applyToolPolicy(allTools, { readOnly: true });
+
+  assertEquals(tools.every((t) => t.annotations?.readOnlyHint === true), true);
+  assertEquals(names(tools).includes("kill_process"), false);
+  assertEquals(names(tools).includes("string_slugify"), true);
+});
+
+Deno.test("MiniToolsClient - policy narrows categories and blocks execution", async () => {
+  const unfiltered = new MiniToolsClient({ categories: ["state"] });
+  const client = new MiniToolsClient({ categories: ["state"], deny: ["state_clear"] });
+
+  assertEquals(names(client.listTools()).includes("state_clear"), false);
+  assertEquals(
+    names(client.listTools()),
+    names(unfiltered.listTools()).filter((name) => name !== "state_clear"),
+  );
+
+  const error = await assertRejects(() => client.execute("state_clear", {}), ToolError);
+  assertEquals(error.code, "PERMISSION_DENIED");
+});
+
+Deno.test("MiniToolsMCP - accepts client options", async () => {
+  const mcp = new MiniToolsMCP({ categories: ["process"], readOnly: true });
+  const tools = await mcp.listTools();
+
+  assertEquals(names(tools).includes("kill_process"), false);
+  assertEquals(names(tools).includes("ps_list"), true);
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for progress reporting and CLI progress parsers
+ *
+ * @module lib/std/tests/progress_test
+ */
+
+import { assertEquals } from "@std/assert";
+import { MiniToolsClient } from "../src/client.ts";
+import { runCommand } from "../src/tools/common.ts";
+import {
+  createDockerPullParser,
+  createFfmpegParser,
+  parseBuildStep,
+  parsePercent,
+  parseRsyncProgress,
+  parseTimestamp,
+} from "../src/tools/progress.ts";
+import { defineTool } from "../src/tools/types.ts";
+
+Deno.test("parsePercent - reads wget's progress bar", () => {
+  const update = parsePercent("file.iso   45%[=====>       ]  1.20G  11.2MB/s  eta 60s");
+
+  assertEquals(update?.current, 45);
+  assertEquals(update?.total, 100);
+  assertEquals(parsePercent("Resolving example.com..."), undefined);
+});
+
+Deno.test("parseRsyncProgress - counts checked files", () => {
+  const update = parseRsyncProgress("  1,048,576 100%  9.54MB/s  0:00:00 (xfr#3, to-chk=12/20)");
+
+  assertEquals([update?.current, update?.total], [8, 20]);
+  assertEquals(parseRsyncProgress("sent 1,234 bytes  received 56 bytes")?.current, undefined);
+});
+
+Deno.test("parseBuildStep - legacy and BuildKit output", () => {
+  assertEquals(parseBuildStep("Step 2/5 : RUN npm ci")?.current, 2);
+  assertEquals(parseBuildStep("#6 [3/5] COPY . .")?.total, 5);
+  assertEquals(parseBuildStep("#9 [builder 4/7] RUN make")?.current, 4);
+  assertEquals(parseBuildStep("#6 DONE 0.4s"), undefined);
+});
+
+Deno.test("createDockerPullParser - completed layers out of layers seen", () => {
+  const parse = createDockerPullParser();
+  parse("a1b2c3d4e5f6: Pulling fs layer");
+  parse("0123456789ab: Already exists");
+  const update = parse("a1b2c3d4e5f6: Pull complete");
+
+  assertEquals([update?.current, update?.total], [2, 2]);
+  assertEquals(parse("Digest: sha256:abc"), undefined);
+});
+
+Deno.test("createFfmpegParser - time= against input duration", () => {
+  const parse = createFfmpegParser(undefined, 10);
+  assertEquals(parse("  Duration: 00:01:10.00, start: 0.000000, bitrate: 1205 kb/s"), undefined);
+  const update = parse(
+    "frame=  750 fps=250 q=28.0 size=  1024kB time=00:00:30.00 bitrate=279.6kbits/s",
+  );
+
+  assertEquals([update?.current, update?.total], [30, 60]);
+  assertEquals(parseTimestamp("01:02:03.5"), 3723.5);
+  assertEquals(parseTimestamp("90"), 90);
+  assertEquals(parseTimestamp("abc"), undefined);
+});
+
+Deno.test("runCommand - onLine sees each line, split on \\r and \\n", async () => {
+  const script = "printf '10%%\\r50%%\\r100%%\\ndone\\n'; echo err >&2";
+  const lines: string[] = [];
+  const result = await runCommand("sh", ["-c", script], {
+    onLine: (line, stream) => lines.push(`${stream}:${line}`),
+  });
+
+  assertEquals(result.code, 0);
+  assertEquals(result.stdout, "10%\r50%\r100%\ndone\n");
+  assertEquals(lines.sort(), [
+    "stderr:err",
+    "stdout:10%",
+    "stdout:100%",
+    "stdout:50%",
+    "stdout:done",
+  ]);
+});
+
+Deno.test("execute - onProgress only receives updates that move forward", async () => {
+  const client = new MiniToolsClient({ categories: ["util"], validateInput: false });
+  client.listTools().push(
+    defineTool("util_steps", "Reports progress", "util", { type: "object" }, (_args, ctx) => {
+      ctx!.reportProgress(1, 3, "one");
+      ctx!.reportProgress(1, 3, "one again");
+      ctx!.reportProgress(3, 3, "three");
+      ctx!.reportProgress(2, 3, "two");
+      return "ok";
+    }),
+  );
+  const updates: unknown[] = [];
+
+  await client.execute("util_steps", {}, {
+    onProgress: (current, total, message) => updates.push([current, total, message]),
+  });
+
+  assertEquals(updates, [[1, 3, "one"], [3, 3, "three"]]);
+});
+
+Deno.test("execute - reportProgress is a no-op without a listener", async () => {
+  const client = new MiniToolsClient({ categories: ["util"], validateInput: false });
+  client.listTools().push(
+    defineTool("util_report", "Reports progress", "util", { type: "object" }, (_args, ctx) => {
+      ctx!.reportProgress(1);
+      return "ok";
+    }),
+  );
+
+  assertEquals(await client.execute("util_report", {}), "ok");
+});
+
+Deno.test("execute - progressRequested reflects whether a listener is attached", async () => {
+  const client = new MiniToolsClient({ categories: ["util"], validateInput: false });
+  client.listTools().push(
+    defineTool("util_requested", "Reads the flag", "util", { type: "object" }, (_args, ctx) => {
+      return ctx!.progressRequested;
+    }),
+  );
+
+  assertEquals(await client.execute("util_requested", {}), false);
+  assertEquals(await client.execute("util_requested", {}, { onProgress: () => {} }), true);
+});
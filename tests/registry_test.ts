@@ -0,0 +1,47 @@
+/**
+ * Unit tests for tool name uniqueness
+ *
+ * @module lib/std/tests/registry_test
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  allTools,
+  findDuplicateTools,
+  MiniToolsClient,
+  namespaceDuplicates,
+  ToolRegistryError,
+  validateRegistry,
+} from "../src/client.ts";
+import { defineTool, type ToolCategory } from "../src/tools/types.ts";
+
+const stub = (name: string, category: ToolCategory) =>
+  defineTool(name, "Stub", category, { type: "object" }, () => null);
+
+Deno.test("validateRegistry - shipped tools have unique names", () => {
+  assertEquals(findDuplicateTools(allTools), []);
+  validateRegistry();
+});
+
+Deno.test("validateRegistry - reports each collision with its categories", () => {
+  const tools = [stub("semver_parse", "text"), stub("semver_parse", "devtools"), stub("x", "util")];
+  const error = assertThrows(() => validateRegistry(tools), ToolRegistryError);
+
+  assertEquals(error.collisions, [{ name: "semver_parse", categories: ["text", "devtools"] }]);
+  assertEquals(error.message, "Duplicate tool names: semver_parse (text, devtools)");
+});
+
+Deno.test("namespaceDuplicates - renames only colliding tools", () => {
+  const tools = [stub("semver_parse", "text"), stub("semver_parse", "devtools"), stub("x", "util")];
+  const renamed = namespaceDuplicates(tools);
+
+  assertEquals(renamed.map((t) => t.name), ["text_semver_parse", "devtools_semver_parse", "x"]);
+  assertEquals(tools[0].name, "semver_parse");
+  assertEquals(renamed[2], tools[2]);
+});
+
+Deno.test("MiniToolsClient - repeated categories do not create duplicates", () => {
+  const client = new MiniToolsClient({ categories: ["devtools", "devtools"] });
+
+  assertEquals(client.count, new MiniToolsClient({ categories: ["devtools"] }).count);
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the vfs:// and state:// resources and subscriptions
+ *
+ * @module lib/std/tests/resources_test
+ */
+
+import { assertEquals, assertRejects, assertStringIncludes } from "@std/assert";
+import { MiniToolsClient, ToolError } from "../src/client.ts";
+import { registerResourceProviders, ResourceSubscriptions } from "../src/resources.ts";
+import { stateResources, stateResourceUri } from "../src/tools/state.ts";
+import { vfsResources } from "../src/tools/vfs.ts";
+
+const client = new MiniToolsClient({ categories: ["vfs", "state"] });
+
+Deno.test("resources - providers follow the loaded categories", () => {
+  assertEquals(client.listResourceProviders().map((p) => p.uriTemplate), [
+    "vfs:///{+path}",
+    "state://{namespace}/{key}",
+  ]);
+  assertEquals(new MiniToolsClient({ categories: ["math"] }).listResourceProviders(), []);
+});
+
+Deno.test("resources - vfs files list and read as text or blob", async () => {
+  await client.execute("vfs_clear", {});
+  await client.execute("vfs_write", { path: "/docs/read me.md", content: "# hi" });
+  await client.execute("vfs_write", { path: "/bin/raw", content: "AP8=", encoding: "base64" });
+
+  assertEquals(await vfsResources.list(), [
+    { uri: "vfs:///bin/raw", name: "/bin/raw", mimeType: "application/octet-stream" },
+    { uri: "vfs:///docs/read%20me.md", name: "/docs/read me.md", mimeType: "text/markdown" },
+  ]);
+  assertEquals(await vfsResources.read("vfs:///docs/read%20me.md"), {
+    uri: "vfs:///docs/read%20me.md",
+    mimeType: "text/markdown",
+    text: "# hi",
+  });
+  assertEquals((await vfsResources.read("vfs:///bin/raw")).blob, "AP8=");
+  assertEquals(
+    JSON.parse((await vfsResources.read("vfs:///docs")).text!)[0].path,
+    "/docs/read me.md",
+  );
+
+  const error = await assertRejects(async () => await vfsResources.read("vfs:///nope"), ToolError);
+  assertEquals(error.code, "NOT_FOUND");
+});
+
+Deno.test("resources - state keys read as JSON; session namespaces are not listed", async () => {
+  await client.execute("state_clear", {});
+  await client.execute("state_set", { key: "config/theme", value: "dark", namespace: "ui" });
+  await client.execute("state_set", { key: "scratch", value: 1, session: true }, {
+    sessionId: "s1",
+  });
+
+  assertEquals(await stateResources.list(), [
+    { uri: "state://ui/config%2Ftheme", name: "ui/config/theme", mimeType: "application/json" },
+  ]);
+  const contents = await stateResources.read("state://ui/config%2Ftheme");
+  assertEquals(contents.mimeType, "application/json");
+  const { value, version } = JSON.parse(contents.text!);
+  assertEquals([value, version], ["dark", 1]);
+
+  const error = await assertRejects(
+    async () => await stateResources.read("state://ui/x"),
+    ToolError,
+  );
+  assertEquals(error.code, "NOT_FOUND");
+
+  // Session keys cannot be read by URI either
+  await assertRejects(
+    async () => await stateResources.read(stateResourceUri("session:s1:default", "scratch")),
+    ToolError,
+    "Session state",
+  );
+});
+
+Deno.test("resources - vfs_write and state_set report changed URIs", async () => {
+  const changed: string[] = [];
+  const stops = [vfsResources, stateResources].map((p) => p.watch((uri) => changed.push(uri)));
+  try {
+    await client.execute("vfs_write", { path: "/new/file.txt", content: "x" });
+    await client.execute("state_set", { key: "k", value: true });
+  } finally {
+    stops.forEach((stop) => stop());
+  }
+  assertEquals(changed, ["vfs:///new", "vfs:///new/file.txt", "state://default/k"]);
+});
+
+Deno.test("ResourceSubscriptions - covers subscribed URIs and their descendants", () => {
+  const subscriptions = new ResourceSubscriptions();
+  subscriptions.subscribe("vfs:///docs");
+  subscriptions.subscribe("state://ui/theme");
+
+  assertEquals(subscriptions.covers("vfs:///docs"), true);
+  assertEquals(subscriptions.covers("vfs:///docs/a/b.txt"), true);
+  assertEquals(subscriptions.covers("vfs:///docsx"), false);
+  assertEquals(subscriptions.covers("state://ui/theme"), true);
+  assertEquals(subscriptions.covers("state://ui/other"), false);
+
+  subscriptions.subscribe("vfs:///docs");
+  subscriptions.unsubscribe("vfs:///docs");
+  assertEquals(subscriptions.covers("vfs:///docs/a"), true);
+  subscriptions.unsubscribe("vfs:///docs");
+  assertEquals(subscriptions.covers("vfs:///docs/a"), false);
+
+  subscriptions.subscribe("vfs:///");
+  assertEquals(subscriptions.covers("vfs:///anything"), true);
+});
+
+Deno.test("registerResourceProviders - announces only subscribed changes", async () => {
+  const templates: string[] = [];
+  const updated: string[] = [];
+  let subscriptions: { subscribe: (uri: string) => void } | undefined;
+  const host = {
+    registerResourceTemplate: (template: { uriTemplate: string }) => {
+      templates.push(template.uriTemplate);
+    },
+    onResourceSubscription: (handlers: { subscribe: (uri: string) => void }) => {
+      subscriptions = handlers;
+    },
+    sendResourceUpdated: ({ uri }: { uri: string }) => {
+      updated.push(uri);
+      return Promise.resolve();
+    },
+  };
+
+  registerResourceProviders(host, [vfsResources]);
+  subscriptions!.subscribe("vfs:///watched");
+  await client.execute("vfs_write", { path: "/watched/a.txt", content: "x" });
+  await client.execute("vfs_write", { path: "/ignored.txt", content: "x" });
+
+  assertEquals(templates, ["vfs:///{+path}"]);
+  assertEquals(updated, ["vfs:///watched", "vfs:///watched/a.txt"]);
+});
+
+Deno.test("registerResourceProviders - skips resources without the framework hooks", () => {
+  const templates: string[] = [];
+  const host = {
+    registerResourceTemplate: (template: { uriTemplate: string }) => {
+      templates.push(template.uriTemplate);
+    },
+  };
+  const warnings: string[] = [];
+  const error = console.error;
+  console.error = (message: string) => warnings.push(message);
+
+  try {
+    registerResourceProviders(host, [vfsResources]);
+  } finally {
+    console.error = error;
+  }
+  assertEquals(templates, []);
+  assertEquals(warnings.length, 1);
+  assertStringIncludes(warnings[0], "missing: onResourceSubscription, sendResourceUpdated");
+});
@@ -84,10 +84,10 @@ Deno.test("jwt_verify - rejects invalid signature", async () => {
   const result = await verifyHandler({
     token: generated.token,
     secret: "wrong-secret-key-32-chars-longggg",
-  }) as { valid: boolean; error: string };
+  }) as { valid: boolean; reason: string };
 
   assertEquals(result.valid, false);
-  assertEquals(result.error, "Invalid signature");
+  assertEquals(result.reason, "Invalid signature");
 });
 
 Deno.test("jwt_verify - rejects malformed token", async () => {
@@ -95,7 +95,7 @@ Deno.test("jwt_verify - rejects malformed token", async () => {
   const result = await handler({
     token: "not.a.valid.jwt.token",
     secret: "secret",
-  }) as { valid: boolean; error: string };
+  }) as { valid: boolean; reason: string };
 
   assertEquals(result.valid, false);
 });
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for the SQL statement classifier and the readOnly/confirm guard
+ *
+ * @module lib/std/tests/sqlguard_test
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { classifySql, guardSql } from "../src/tools/database.ts";
+import { ToolError } from "../src/tools/errors.ts";
+import { closePgliteConnection, pgliteTools } from "../src/tools/pglite.ts";
+
+const labels = (sql: string, dialect?: "postgres" | "mysql" | "sqlite") =>
+  classifySql(sql, dialect).map((s) => [s.command, s.kind, s.destructive]);
+
+Deno.test("classifySql - labels statements by kind", () => {
+  assertEquals(
+    labels("SELECT 1; INSERT INTO t VALUES (1); CREATE UNIQUE INDEX i ON t (a); BEGIN"),
+    [
+      ["SELECT", "read", false],
+      ["INSERT", "write", false],
+      ["CREATE INDEX", "ddl", false],
+      ["BEGIN", "other", false],
+    ],
+  );
+  assertEquals(labels("WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d"), [
+    ["WITH DELETE", "write", true],
+  ]);
+  assertEquals(labels("WITH x AS (SELECT 1) SELECT * FROM x FOR UPDATE"), [[
+    "SELECT",
+    "read",
+    false,
+  ]]);
+  assertEquals(labels("EXPLAIN SELECT 1; EXPLAIN ANALYZE DELETE FROM t"), [
+    ["EXPLAIN", "read", false],
+    ["EXPLAIN ANALYZE DELETE", "write", true],
+  ]);
+  assertEquals(labels("SELECT * INTO copy FROM t"), [["SELECT INTO", "write", false]]);
+  assertEquals(labels("PRAGMA table_info(t); PRAGMA journal_mode = WAL", "sqlite"), [
+    ["PRAGMA", "read", false],
+    ["PRAGMA", "other", false],
+  ]);
+});
+
+Deno.test("classifySql - destructive statements", () => {
+  assertEquals(labels("DROP TABLE IF EXISTS t; TRUNCATE t; ALTER TABLE t DROP COLUMN a"), [
+    ["DROP TABLE", "ddl", true],
+    ["TRUNCATE", "ddl", true],
+    ["ALTER TABLE", "ddl", true],
+  ]);
+  assertEquals(labels("DELETE FROM t; DELETE FROM t WHERE id = 1"), [
+    ["DELETE", "write", true],
+    ["DELETE", "write", false],
+  ]);
+  // A WHERE inside a subquery does not count
+  assertEquals(labels("UPDATE t SET a = (SELECT max(b) FROM u WHERE u.id = 1)"), [
+    ["UPDATE", "write", true],
+  ]);
+});
+
+Deno.test("classifySql - skips strings, comments and quoted identifiers", () => {
+  assertEquals(labels("SELECT 'a; DROP TABLE t' -- ; DROP\n/* ; DROP /* nested */ */"), [
+    ["SELECT", "read", false],
+  ]);
+  assertEquals(labels('SELECT $body$ ; DROP TABLE t; $body$, "drop;"'), [[
+    "SELECT",
+    "read",
+    false,
+  ]]);
+  // Backslashes only escape in PostgreSQL E'' strings, but always in MySQL
+  assertEquals(labels("SELECT 'a\\'; DROP TABLE t; --'").length, 2);
+  assertEquals(labels("SELECT E'a\\'; DROP TABLE t; --'").length, 1);
+  assertEquals(labels("SELECT 'a\\'; DROP TABLE t; -- '", "mysql").length, 1);
+  // MySQL needs whitespace after -- for a comment
+  assertEquals(labels("SELECT 1 --1; DROP TABLE t", "mysql"), [
+    ["SELECT", "read", false],
+    ["DROP TABLE", "ddl", true],
+  ]);
+  assertEquals(labels("SELECT 1 --\tx; DROP TABLE t", "mysql"), [["SELECT", "read", false]]);
+  assertEquals(labels("SELECT 1 --", "mysql"), [["SELECT", "read", false]]);
+  // MySQL runs the contents of /*! */ comments
+  assertEquals(labels("SELECT 1 /*! ; DROP TABLE t */", "mysql")[1], ["DROP TABLE", "ddl", true]);
+  // Trigger bodies stay in one statement
+  assertEquals(
+    labels("CREATE TRIGGER tr AFTER INSERT ON t BEGIN DELETE FROM u; END; SELECT 1", "sqlite"),
+    [["CREATE TRIGGER", "ddl", false], ["SELECT", "read", false]],
+  );
+  assertEquals(labels("  ; -- nothing\n"), []);
+});
+
+Deno.test("guardSql - readOnly and confirm", () => {
+  assertEquals(guardSql("SELECT 1", { readOnly: true }).length, 1);
+  const denied = assertThrows(
+    () => guardSql("SELECT 1; SET TRANSACTION READ WRITE", { readOnly: true }),
+    ToolError,
+  );
+  assertEquals(denied.code, "PERMISSION_DENIED");
+  const unconfirmed = assertThrows(() => guardSql("DROP TABLE t; DROP TABLE u", {}), ToolError);
+  assertEquals(unconfirmed.code, "INVALID_ARGUMENT");
+  assertEquals(unconfirmed.message, "DROP TABLE is destructive; pass confirm: true to run it");
+  assertEquals(guardSql("DROP TABLE t", { confirm: true }).length, 1);
+});
+
+Deno.test("pglite_query - readOnly and confirm", async () => {
+  const call = async (name: string, args: Record<string, unknown>) => {
+    const tool = pgliteTools.find((t) => t.name === name)!;
+    return (await tool.handler({ dbPath: ":memory:", ...args })) as Record<string, unknown>;
+  };
+  try {
+    await call("pglite_exec", { sql: "CREATE TABLE items (id int)" });
+    await call("pglite_exec", { sql: "INSERT INTO items VALUES (1), (2)" });
+    await call("pglite_exec", { sql: "CREATE SEQUENCE s" });
+
+    await assertRejects(
+      () => call("pglite_query", { query: "DELETE FROM items", readOnly: true }),
+      ToolError,
+      "Read-only mode",
+    );
+    // Side effects the classifier cannot see are stopped by the read-only transaction
+    await assertRejects(
+      () => call("pglite_query", { query: "SELECT nextval('s')", readOnly: true }),
+      Error,
+      "read-only transaction",
+    );
+    assertEquals((await call("pglite_query", { query: "SELECT nextval('s')::int AS n" })).rows, [
+      { n: 1 },
+    ]);
+    assertEquals(
+      (await call("pglite_query", {
+        query: "SELECT count(*)::int AS n FROM items",
+        readOnly: true,
+      }))
+        .rows,
+      [{ n: 2 }],
+    );
+
+    await assertRejects(
+      () => call("pglite_exec", { sql: "DELETE FROM items" }),
+      ToolError,
+      "confirm",
+    );
+    await call("pglite_exec", { sql: "DELETE FROM items", confirm: true });
+    assertEquals((await call("pglite_query", { query: "SELECT * FROM items" })).rows, []);
+  } finally {
+    await closePgliteConnection();
+  }
+});
@@ -0,0 +1,212 @@
+/**
+ * Unit tests for the embedded SQLite tools
+ *
+ * @module lib/std/tests/sqlite_test
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { databaseTools } from "../src/tools/database.ts";
+import { ToolError } from "../src/tools/errors.ts";
+
+const call = async (name: string, args: Record<string, unknown>) => {
+  const tool = databaseTools.find((t) => t.name === name);
+  if (!tool) throw new Error(`Tool ${name} not found`);
+  return (await tool.handler(args)) as Record<string, unknown>;
+};
+
+async function withDatabase(fn: (database: string) => Promise<void>) {
+  const dir = await Deno.makeTempDir();
+  try {
+    await fn(`${dir}/test.db`);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("sqlite_query - typed rows, columns and changes", async () => {
+  await withDatabase(async (database) => {
+    const created = await call("sqlite_query", {
+      database,
+      query: "CREATE TABLE t (id INTEGER PRIMARY KEY, name TEXT, score REAL, data BLOB);" +
+        "INSERT INTO t (name, score, data) VALUES ('ann', 1.5, x'0102'), ('bob', NULL, NULL)",
+    });
+    assertEquals(created, { results: [], columns: [], changes: 2, lastInsertRowid: 2 });
+
+    const result = await call("sqlite_query", { database, query: "SELECT * FROM t ORDER BY id" });
+    assertEquals(result.results, [
+      { id: 1, name: "ann", score: 1.5, data: "AQI=" },
+      { id: 2, name: "bob", score: null, data: null },
+    ]);
+    assertEquals(result.columns, [
+      { name: "id", type: "INTEGER" },
+      { name: "name", type: "TEXT" },
+      { name: "score", type: "REAL" },
+      { name: "data", type: "BLOB" },
+    ]);
+  });
+});
+
+Deno.test("sqlite_query - a failing statement rolls back the whole call", async () => {
+  await withDatabase(async (database) => {
+    await call("sqlite_query", { database, query: "CREATE TABLE t (id INTEGER UNIQUE)" });
+    const error = await assertRejects(
+      () =>
+        call("sqlite_query", {
+          database,
+          query: "INSERT INTO t VALUES (1); INSERT INTO t VALUES (1)",
+        }),
+      ToolError,
+    );
+    assertEquals(error.code, "UPSTREAM_ERROR");
+    assertEquals(error.message.includes("statement 2 of 2"), true);
+    const { results } = await call("sqlite_query", {
+      database,
+      query: "SELECT count(*) AS n FROM t",
+    });
+    assertEquals(results, [{ n: 0 }]);
+  });
+});
+
+Deno.test("sqlite_query - csv, table and line output", async () => {
+  await withDatabase(async (database) => {
+    await call("sqlite_query", {
+      database,
+      query: "CREATE TABLE t (a, b); INSERT INTO t VALUES (1, 'x,y'), (22, NULL)",
+    });
+    const output = async (mode: string) =>
+      (await call("sqlite_query", { database, query: "SELECT a, b FROM t", mode })).output;
+    assertEquals(await output("csv"), '1,"x,y"\r\n22,\r\n');
+    assertEquals(
+      await output("table"),
+      "+----+-----+\n| a  | b   |\n+----+-----+\n| 1  | x,y |\n| 22 |     |\n+----+-----+\n",
+    );
+    assertEquals(await output("line"), "a = 1\nb = x,y\n\na = 22\nb = \n");
+  });
+});
+
+Deno.test("sqlite_query - readOnly refuses writes and missing files", async () => {
+  await withDatabase(async (database) => {
+    await call("sqlite_query", { database, query: "CREATE TABLE t (a)" });
+    const denied = await assertRejects(
+      () => call("sqlite_query", { database, query: "INSERT INTO t VALUES (1)", readOnly: true }),
+      ToolError,
+    );
+    assertEquals(denied.code, "PERMISSION_DENIED");
+    const missing = await assertRejects(
+      () => call("sqlite_query", { database: `${database}.x`, query: "SELECT 1", readOnly: true }),
+      ToolError,
+    );
+    assertEquals(missing.code, "NOT_FOUND");
+  });
+});
+
+Deno.test("sqlite_tables, sqlite_schema and sqlite_info", async () => {
+  await withDatabase(async (database) => {
+    await call("sqlite_query", {
+      database,
+      query:
+        "CREATE TABLE t (id INTEGER PRIMARY KEY, name TEXT NOT NULL); CREATE INDEX i ON t (name)",
+    });
+    assertEquals((await call("sqlite_tables", { database })).tables, [{
+      name: "t",
+      type: "table",
+    }]);
+    assertEquals(
+      (await call("sqlite_schema", { database, table: "t" })).schema,
+      "CREATE TABLE t (id INTEGER PRIMARY KEY, name TEXT NOT NULL);\nCREATE INDEX i ON t (name);",
+    );
+    const info = await call("sqlite_info", { database, table: "t" });
+    assertEquals(
+      (info.columns as Record<string, unknown>[]).map((c) => [c.name, c.type, c.notnull, c.pk]),
+      [["id", "INTEGER", 0, 1], ["name", "TEXT", 1, 0]],
+    );
+    for (const name of ["sqlite_schema", "sqlite_info"]) {
+      const error = await assertRejects(
+        () => call(name, { database, table: "nope" }),
+        ToolError,
+      );
+      assertEquals(error.code, "NOT_FOUND");
+    }
+  });
+});
+
+Deno.test("sqlite_import_csv and sqlite_export - round trip", async () => {
+  await withDatabase(async (database) => {
+    const imported = await call("sqlite_import_csv", {
+      database,
+      table: "people",
+      csv: "name,age,height\nann,31,1.7\nbob,,1.8\n",
+    });
+    assertEquals(imported, {
+      table: "people",
+      created: true,
+      inserted: 2,
+      columns: [
+        { name: "name", type: "TEXT" },
+        { name: "age", type: "INTEGER" },
+        { name: "height", type: "REAL" },
+      ],
+    });
+    const appended = await call("sqlite_import_csv", {
+      database,
+      table: "people",
+      csv: "cy;40;1.6",
+      delimiter: ";",
+      header: false,
+      columns: ["name", "age", "height"],
+    });
+    assertEquals([appended.created, appended.inserted], [false, 1]);
+
+    assertEquals(
+      (await call("sqlite_export", { database, table: "people" })).output,
+      "name,age,height\r\nann,31,1.7\r\nbob,,1.8\r\ncy,40,1.6",
+    );
+    assertEquals(
+      (await call("sqlite_export", {
+        database,
+        query: "SELECT name FROM people WHERE age > 30 ORDER BY age DESC",
+        format: "json",
+      })).rows,
+      [{ name: "cy" }, { name: "ann" }],
+    );
+
+    const file = `${database}.csv`;
+    const written = await call("sqlite_export", { database, table: "people", file, header: false });
+    assertEquals(written.rowCount, 3);
+    assertEquals(await Deno.readTextFile(file), "ann,31,1.7\r\nbob,,1.8\r\ncy,40,1.6");
+  });
+});
+
+Deno.test("sqlite_import_csv - keeps values as written", async () => {
+  await withDatabase(async (database) => {
+    const imported = await call("sqlite_import_csv", {
+      database,
+      table: "places",
+      csv: "zip,price,flag,count\n00501,1.50,true,7\n10001,2.25,false,8\n",
+    });
+    assertEquals(imported.columns, [
+      { name: "zip", type: "TEXT" },
+      { name: "price", type: "TEXT" },
+      { name: "flag", type: "TEXT" },
+      { name: "count", type: "INTEGER" },
+    ]);
+    assertEquals(
+      (await call("sqlite_export", { database, table: "places", format: "json" })).rows,
+      [
+        { zip: "00501", price: "1.50", flag: "true", count: 7 },
+        { zip: "10001", price: "2.25", flag: "false", count: 8 },
+      ],
+    );
+  });
+});
+
+Deno.test("sqlite_export - only reads", async () => {
+  await withDatabase(async (database) => {
+    await call("sqlite_query", { database, query: "CREATE TABLE t (a)" });
+    const error = await assertRejects(
+      () => call("sqlite_export", { database, query: "DELETE FROM t" }),
+      ToolError,
+    );
+    assertEquals(error.code, "PERMISSION_DENIED");
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for bind parameters on the SQL tools, run against PGlite in memory
+ *
+ * @module lib/std/tests/sqlparams_test
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { bindSql, databaseTools } from "../src/tools/database.ts";
+import { ToolError } from "../src/tools/errors.ts";
+import { closePgliteConnection, pgliteTools } from "../src/tools/pglite.ts";
+
+const pglite = async (name: string, args: Record<string, unknown>) => {
+  const tool = pgliteTools.find((t) => t.name === name)!;
+  return (await tool.handler({ dbPath: ":memory:", ...args })) as Record<string, unknown>;
+};
+
+const sqlite = async (args: Record<string, unknown>) => {
+  const tool = databaseTools.find((t) => t.name === "sqlite_query")!;
+  return (await tool.handler({ database: ":memory:", ...args })) as Record<string, unknown>;
+};
+
+Deno.test("bindSql - rewrites :name placeholders per dialect", () => {
+  const sql = "SELECT * FROM t WHERE a = :a AND b = :b OR a = :a";
+  assertEquals(bindSql(sql, { namedParams: { a: 1, b: "x" } }), {
+    sql: "SELECT * FROM t WHERE a = $1 AND b = $2 OR a = $1",
+    params: [1, "x"],
+  });
+  assertEquals(bindSql(sql, { dialect: "mysql", namedParams: { a: 1, b: "x" } }), {
+    sql: "SELECT * FROM t WHERE a = ? AND b = ? OR a = ?",
+    params: [1, "x", 1],
+  });
+  // Casts, strings and comments are not placeholders
+  assertEquals(
+    bindSql("SELECT :v::text, ':no', $$:no$$ -- :no\n", { namedParams: { v: 1 } }).sql,
+    "SELECT $1::text, ':no', $$:no$$ -- :no\n",
+  );
+  // Array slices are not placeholders, but an index can be one
+  assertEquals(
+    bindSql("SELECT arr[1:n], arr[lo:hi], arr[:i] FROM t WHERE id = :id", {
+      namedParams: { i: 2, id: 7 },
+    }),
+    { sql: "SELECT arr[1:n], arr[lo:hi], arr[$1] FROM t WHERE id = $2", params: [2, 7] },
+  );
+  assertEquals(bindSql("SELECT $1", { params: [1] }), { sql: "SELECT $1", params: [1] });
+  assertEquals(bindSql("SELECT 1; SELECT 2", {}), { sql: "SELECT 1; SELECT 2", params: [] });
+});
+
+Deno.test("bindSql - rejects ambiguous or incomplete bindings", () => {
+  assertThrows(
+    () => bindSql("SELECT :a", { namedParams: {} }),
+    ToolError,
+    "Missing named parameter: a",
+  );
+  assertThrows(
+    () => bindSql("SELECT $1", { params: [1], namedParams: { a: 1 } }),
+    ToolError,
+    "not both",
+  );
+  assertThrows(
+    () => bindSql("SELECT $1; SELECT $1", { params: [1] }),
+    ToolError,
+    "single statement",
+  );
+});
+
+Deno.test("pglite_query - params and namedParams bind values", async () => {
+  try {
+    await pglite("pglite_exec", {
+      sql: "CREATE TABLE users (id int, name text, tags jsonb)",
+    });
+    const hostile = "x'); DROP TABLE users; --";
+    await pglite("pglite_query", {
+      query: "INSERT INTO users VALUES ($1, $2, $3)",
+      params: [1, hostile, JSON.stringify(["a"])],
+    });
+    assertEquals(
+      await pglite("pglite_exec", {
+        sql: "INSERT INTO users VALUES (:id, :name, :tags)",
+        namedParams: { id: 2, name: "bob", tags: JSON.stringify([]) },
+      }),
+      { success: true, affectedRows: 1, command: "INSERT" },
+    );
+
+    assertEquals(
+      (await pglite("pglite_query", {
+        query: "SELECT id, tags FROM users WHERE name = :name",
+        namedParams: { name: hostile },
+      })).rows,
+      [{ id: 1, tags: ["a"] }],
+    );
+    assertEquals(
+      (await pglite("pglite_query", {
+        query: "SELECT name FROM users WHERE id = ANY($1::int[]) ORDER BY id",
+        params: [[1, 2]],
+      })).rows,
+      [{ name: hostile }, { name: "bob" }],
+    );
+    await assertRejects(
+      () =>
+        pglite("pglite_query", {
+          query: "SELECT * FROM users WHERE id = :id",
+          namedParams: { name: "bob" },
+        }),
+      ToolError,
+      "Missing named parameter: id",
+    );
+  } finally {
+    await closePgliteConnection();
+  }
+});
+
+Deno.test("sqlite_query - params and namedParams bind values", async () => {
+  const query = "SELECT :a AS a, :b AS b, :a || :b AS ab";
+  assertEquals((await sqlite({ query, namedParams: { a: "x", b: true } })).results, [
+    { a: "x", b: 1, ab: "x1" },
+  ]);
+  assertEquals(
+    (await sqlite({ query: "SELECT ? AS n, ? AS o", params: [2.5, { k: 1 }] })).results,
+    [
+      { n: 2.5, o: '{"k":1}' },
+    ],
+  );
+  await assertRejects(
+    () => sqlite({ query: "SELECT ?; SELECT ?", params: [1] }),
+    ToolError,
+    "single statement",
+  );
+});
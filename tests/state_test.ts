@@ -0,0 +1,265 @@
+/**
+ * Unit tests for the state tools and their storage backends
+ *
+ * @module lib/std/tests/state_test
+ */
+
+import { assertEquals } from "@std/assert";
+import { MiniToolsClient } from "../src/client.ts";
+import { onStateChange, setStateBackend, stateResourceUri } from "../src/tools/state.ts";
+import {
+  createStateBackend,
+  MemoryStateBackend,
+  type StateBackendConfig,
+} from "../src/tools/statestore.ts";
+
+const client = new MiniToolsClient({ categories: ["state"] });
+const call = (name: string, args: Record<string, unknown> = {}) =>
+  client.execute(name, args) as Promise<Record<string, unknown>>;
+
+Deno.test("state tools - set, increment, append, merge and keys", async () => {
+  await setStateBackend(new MemoryStateBackend());
+
+  await call("state_set", { key: "user:1", value: { name: "Ada" } });
+  await call("state_merge", { key: "user:1", value: { role: "admin" } });
+  assertEquals((await call("state_get", { key: "user:1" })).value, { name: "Ada", role: "admin" });
+
+  assertEquals(await call("state_increment", { key: "hits", amount: 2 }), {
+    value: 2,
+    previous: 0,
+  });
+  assertEquals(await call("state_increment", { key: "hits" }), { value: 3, previous: 2 });
+
+  await call("state_append", { key: "log", value: "a" });
+  assertEquals(await call("state_append", { key: "log", value: "b", maxLength: 1 }), { length: 1 });
+
+  assertEquals(await client.execute("state_keys", { pattern: "user:*" }), ["user:1"]);
+  assertEquals(await call("state_clear", { pattern: "h*" }), { cleared: 1, pattern: "h*" });
+  assertEquals((await call("state_stats")).count, 2);
+});
+
+Deno.test("state tools - expired entries read as missing", async () => {
+  const backend = new MemoryStateBackend();
+  await setStateBackend(backend);
+  await backend.update("default/old", () => ({
+    value: 1,
+    version: 1,
+    createdAt: 0,
+    updatedAt: 0,
+    ttl: 1,
+    expiresAt: Date.now() - 1000,
+  }));
+
+  assertEquals(await call("state_get", { key: "old", default: "none" }), {
+    value: "none",
+    found: false,
+    expired: true,
+  });
+  assertEquals(await call("state_has", { key: "old" }), { exists: false });
+});
+
+Deno.test("state tools - deleting or listing around expired entries", async () => {
+  const backend = new MemoryStateBackend();
+  await setStateBackend(backend);
+  const expired = () => ({
+    value: 1,
+    version: 1,
+    createdAt: 0,
+    updatedAt: 0,
+    ttl: 1,
+    expiresAt: Date.now() - 1000,
+  });
+  await backend.update("default/old", expired);
+  await backend.update("other/old", expired);
+  const deleted: string[] = [];
+  const unsubscribe = onStateChange((change) => {
+    if (change.op === "delete") deleted.push(change.key);
+  });
+
+  try {
+    assertEquals(await call("state_delete", { key: "old" }), { success: false, deleted: "old" });
+    assertEquals(deleted, []);
+    assertEquals(await backend.get("default/old"), undefined);
+
+    // Listing one namespace leaves the expired entries of others alone
+    assertEquals(await client.execute("state_keys", { namespace: "default" }), []);
+    assertEquals((await backend.get("other/old")) !== undefined, true);
+  } finally {
+    unsubscribe();
+  }
+});
+
+Deno.test("state tools - state_stats only cleans the namespace it reports on", async () => {
+  const backend = new MemoryStateBackend();
+  await setStateBackend(backend);
+  const expired = () => ({
+    value: 1,
+    version: 1,
+    createdAt: 0,
+    updatedAt: 0,
+    ttl: 1,
+    expiresAt: Date.now() - 1000,
+  });
+  await backend.update("default/old", expired);
+  await backend.update("other/old", expired);
+
+  assertEquals((await call("state_stats", { namespace: "other" })).expiredAndCleaned, 1);
+  assertEquals((await backend.get("default/old")) !== undefined, true);
+  assertEquals((await call("state_stats")).expiredAndCleaned, 1);
+});
+
+Deno.test("state tools - namespaces and sessions are isolated", async () => {
+  await setStateBackend(new MemoryStateBackend());
+
+  await call("state_set", { key: "task", value: "a" });
+  await call("state_set", { key: "task", value: "b", namespace: "agent-2" });
+  await client.execute("state_set", { key: "task", value: "c", session: true }, {
+    sessionId: "s1",
+  });
+
+  assertEquals((await call("state_get", { key: "task" })).value, "a");
+  assertEquals((await call("state_get", { key: "task", namespace: "agent-2" })).value, "b");
+  const own = await client.execute("state_get", { key: "task", session: true }, {
+    sessionId: "s1",
+  }) as Record<string, unknown>;
+  assertEquals(own.value, "c");
+  const other = await client.execute("state_get", { key: "task", session: true }, {
+    sessionId: "s2",
+  }) as Record<string, unknown>;
+  assertEquals(other.found, false);
+
+  assertEquals(await call("state_clear", { namespace: "agent-2" }), { cleared: 1 });
+  assertEquals(await client.execute("state_keys", {}), ["task"]);
+});
+
+Deno.test("state tools - compare-and-set follows versions", async () => {
+  await setStateBackend(new MemoryStateBackend());
+
+  assertEquals(await call("state_cas", { key: "lock", expectedVersion: 0, value: "me" }), {
+    success: true,
+    key: "lock",
+    version: 1,
+  });
+  assertEquals(await call("state_cas", { key: "lock", expectedVersion: 0, value: "you" }), {
+    success: false,
+    key: "lock",
+    version: 1,
+    value: "me",
+  });
+
+  await call("state_set", { key: "lock", value: "me" });
+  const current = await call("state_get", { key: "lock" });
+  assertEquals(current.version, 2);
+  assertEquals(
+    (await call("state_cas", { key: "lock", expectedVersion: 2, value: null })).version,
+    3,
+  );
+});
+
+Deno.test("state tools - batch get/set and prefix listing", async () => {
+  await setStateBackend(new MemoryStateBackend());
+
+  const set = await call("state_set_many", {
+    entries: { "job:1": "queued", "job:2": "done", "worker:1": "idle" },
+    namespace: "jobs",
+  });
+  assertEquals(set.count, 3);
+
+  assertEquals(await call("state_get_many", { keys: ["job:1", "job:9"], namespace: "jobs" }), {
+    values: { "job:1": { value: "queued", version: 1 } },
+    missing: ["job:9"],
+  });
+  const keys = await client.execute("state_keys", { prefix: "job:", namespace: "jobs" });
+  assertEquals((keys as string[]).sort(), ["job:1", "job:2"]);
+  assertEquals(await client.execute("state_keys", { pattern: "*:1", namespace: "jobs" }), [
+    "job:1",
+    "worker:1",
+  ]);
+  assertEquals(await client.execute("state_keys", {}), []);
+});
+
+Deno.test("state tools - history lists prior values newest first", async () => {
+  await setStateBackend(new MemoryStateBackend());
+  await call("state_set", { key: "status", value: "draft", namespace: "hist" });
+  await call("state_set", { key: "status", value: "review", namespace: "hist" });
+  await call("state_delete", { key: "status", namespace: "hist" });
+
+  const { changes } = await call("state_history", { key: "status", namespace: "hist" }) as {
+    changes: Array<Record<string, unknown>>;
+  };
+
+  assertEquals(changes.map((c) => [c.op, c.value, c.version]), [
+    ["delete", undefined, undefined],
+    ["set", "review", 2],
+    ["set", "draft", 1],
+  ]);
+});
+
+Deno.test("state tools - watch wakes on a matching write", async () => {
+  await setStateBackend(new MemoryStateBackend());
+  const seen: string[] = [];
+  const unsubscribe = onStateChange((change) => {
+    seen.push(stateResourceUri(change.namespace, change.key));
+  });
+
+  try {
+    const watching = call("state_watch", { prefix: "job:", namespace: "w", timeout: 5 });
+    await call("state_set", { key: "other", value: 1, namespace: "w" });
+    await call("state_set", { key: "job:7", value: "done", namespace: "w" });
+    const result = await watching;
+
+    assertEquals(result.changed, true);
+    const [change] = result.changes as Array<Record<string, unknown>>;
+    assertEquals([change.key, change.value], ["job:7", "done"]);
+    assertEquals(seen, ["state://w/other", "state://w/job%3A7"]);
+
+    // Changes made between two watches are returned right away via `since`
+    await call("state_set", { key: "job:8", value: "done", namespace: "w" });
+    const missed = await call("state_watch", { prefix: "job:", namespace: "w", since: result.seq });
+    assertEquals((missed.changes as Array<Record<string, unknown>>).map((c) => c.key), ["job:8"]);
+
+    assertEquals(await call("state_watch", { key: "idle", namespace: "w", timeout: 0 }), {
+      changed: false,
+      changes: [],
+      seq: missed.seq,
+    });
+  } finally {
+    unsubscribe();
+  }
+});
+
+for (const backend of ["json", "sqlite", "pglite"] as const) {
+  Deno.test(`${backend} backend - entries and TTLs survive reopening`, async () => {
+    const dir = await Deno.makeTempDir();
+    const config: StateBackendConfig = { backend, path: `${dir}/state` };
+    try {
+      await setStateBackend(await createStateBackend(config));
+      await call("state_set", { key: "session", value: { step: 3 }, ttl: 3600 });
+      await call("state_set", { key: "flag", value: true });
+      await call("state_increment", { key: "counter", amount: 5 });
+      await call("state_set", { key: "flag", value: false, namespace: "other" });
+      const before = await call("state_get", { key: "session" });
+
+      // Reopen from disk, as after a restart
+      await setStateBackend(await createStateBackend(config));
+      const after = await call("state_get", { key: "session" });
+
+      assertEquals(after.value, { step: 3 });
+      assertEquals(after.expiresAt, before.expiresAt);
+      assertEquals(after.version, 1);
+      assertEquals((await call("state_get", { key: "flag", namespace: "other" })).version, 1);
+      const keys = await client.execute("state_keys", {}) as string[];
+      assertEquals(keys.sort(), ["counter", "flag", "session"]);
+      assertEquals(await call("state_increment", { key: "counter" }), { value: 6, previous: 5 });
+      assertEquals(await call("state_cas", { key: "counter", expectedVersion: 2, value: 0 }), {
+        success: true,
+        key: "counter",
+        version: 3,
+      });
+      assertEquals(await call("state_clear", {}), { cleared: 3 });
+    } finally {
+      await setStateBackend(new MemoryStateBackend());
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+}
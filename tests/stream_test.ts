@@ -0,0 +1,111 @@
+/**
+ * Unit tests for streamed command output and follow mode
+ *
+ * @module lib/std/tests/stream_test
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { MiniToolsClient, ToolError } from "../src/client.ts";
+import { streamCommand } from "../src/tools/common.ts";
+
+Deno.test("streamCommand - runs to exit and keeps the last maxLines", async () => {
+  const seen: string[] = [];
+  const result = await streamCommand("sh", ["-c", "for i in 1 2 3 4 5; do echo $i; done"], {
+    duration: 5000,
+    maxLines: 2,
+    onLine: (line) => seen.push(line),
+  });
+
+  assertEquals(seen, ["1", "2", "3", "4", "5"]);
+  assertEquals(result.lines, ["4", "5"]);
+  assertEquals(result.lineCount, 5);
+  assertEquals(result.truncated, true);
+  assertEquals(result.stoppedBy, "exit");
+  assertEquals(result.code, 0);
+});
+
+Deno.test("streamCommand - stops after duration", async () => {
+  const result = await streamCommand("sh", ["-c", "echo started; exec sleep 5"], { duration: 100 });
+
+  assertEquals(result.lines, ["started"]);
+  assertEquals(result.stoppedBy, "duration");
+  assertEquals(result.code, null);
+});
+
+Deno.test("streamCommand - stops at the first line matching until", async () => {
+  const result = await streamCommand(
+    "sh",
+    ["-c", "echo booting; echo ready on :8080; exec sleep 5"],
+    { duration: 5000, until: /ready/ },
+  );
+
+  assertEquals(result.stoppedBy, "pattern");
+  assertEquals(result.match, "ready on :8080");
+  assertEquals(result.lines, ["booting", "ready on :8080"]);
+});
+
+Deno.test("streamCommand - abort rejects with CANCELLED", async () => {
+  const controller = new AbortController();
+  const pending = streamCommand("sleep", ["5"], { duration: 5000, signal: controller.signal });
+  setTimeout(() => controller.abort(), 20);
+
+  const error = await assertRejects(() => pending, ToolError);
+  assertEquals(error.code, "CANCELLED");
+});
+
+Deno.test("tail - follow reports new lines and stops on until", async () => {
+  const path = await Deno.makeTempFile();
+  const client = new MiniToolsClient({ categories: ["text"], allow: ["tail"] });
+  const progress: string[] = [];
+  const writer = setTimeout(
+    () => Deno.writeTextFile(path, "second\nDONE\n", { append: true }),
+    100,
+  );
+  try {
+    await Deno.writeTextFile(path, "first\n");
+    const result = await client.execute(
+      "tail",
+      { file: path, follow: true, followSeconds: 5, until: "^DONE$" },
+      { onProgress: (_current, _total, message) => progress.push(message!) },
+    ) as Record<string, unknown>;
+
+    assertEquals(result.output, "first\nsecond\nDONE");
+    assertEquals(result.stoppedBy, "pattern");
+    assertEquals(progress, ["first", "second", "DONE"]);
+  } finally {
+    clearTimeout(writer);
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("tail - follow rejects an invalid until pattern", async () => {
+  const client = new MiniToolsClient({ categories: ["text"], allow: ["tail"] });
+
+  const error = await assertRejects(
+    () => client.execute("tail", { file: "/dev/null", follow: true, until: "(" }),
+    ToolError,
+  );
+  assertEquals(error.code, "INVALID_ARGUMENT");
+});
+
+Deno.test("tail - follow stops before the call's deadline", async () => {
+  const client = new MiniToolsClient({ categories: ["text"], allow: ["tail"] });
+
+  const result = await client.execute(
+    "tail",
+    { file: "/dev/null", follow: true, followSeconds: 60 },
+    { timeout: 1000 },
+  ) as Record<string, unknown>;
+
+  assertEquals(result.stoppedBy, "duration");
+});
+
+Deno.test("tail - followSeconds is capped by the schema", async () => {
+  const client = new MiniToolsClient({ categories: ["text"], allow: ["tail"] });
+
+  const error = await assertRejects(
+    () => client.execute("tail", { file: "/dev/null", follow: true, followSeconds: 3600 }),
+    ToolError,
+  );
+  assertEquals(error.code, "INVALID_ARGUMENT");
+});
@@ -0,0 +1,231 @@
+/**
+ * Unit tests for the in-process sed, awk, jq, sort, uniq, cut and wc
+ *
+ * @module lib/std/tests/text_test
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { ToolError } from "../src/tools/errors.ts";
+import { textTools } from "../src/tools/text.ts";
+import { runSed } from "../src/tools/textsed.ts";
+import type { ToolContext } from "../src/tools/types.ts";
+
+const call = async (name: string, args: Record<string, unknown>, ctx?: ToolContext) => {
+  const tool = textTools.find((t) => t.name === name);
+  if (!tool) throw new Error(`Tool ${name} not found`);
+  return (await tool.handler(args, ctx)) as Record<string, unknown>;
+};
+
+Deno.test("sed - substitutions, addresses and hold space", async () => {
+  const input = "alpha 1\nbeta 2\ngamma 3\n";
+  assertEquals(
+    (await call("sed", { input, expression: "s/\\([a-z]*\\) \\([0-9]\\)/\\2:\\U\\1/" })).output,
+    "1:ALPHA\n2:BETA\n3:GAMMA\n",
+  );
+  assertEquals(
+    (await call("sed", { input, expression: "2d;s/a/A/2g" })).output,
+    "alphA 1\ngammA 3\n",
+  );
+  assertEquals(
+    (await call("sed", { input, expression: "/beta/,$p", quiet: true })).output,
+    "beta 2\ngamma 3\n",
+  );
+  assertEquals(
+    (await call("sed", { input, expression: "s/(\\w+) ([0-9])/\\2 \\1/", extended: true })).output,
+    "1 alpha\n2 beta\n3 gamma\n",
+  );
+  // tac
+  assertEquals(
+    (await call("sed", { input, expression: "1!G;h;$!d" })).output,
+    "gamma 3\nbeta 2\nalpha 1\n",
+  );
+  // A missing final newline is kept missing
+  assertEquals((await call("sed", { input: "a\nb", expression: "s/b/c/" })).output, "a\nc");
+});
+
+Deno.test("sed - edits a file in place", async () => {
+  const file = await Deno.makeTempFile();
+  try {
+    await Deno.writeTextFile(file, "one\ntwo\n");
+    await call("sed", { file, expression: "s/one/1/", inPlace: true });
+    assertEquals(await Deno.readTextFile(file), "1\ntwo\n");
+  } finally {
+    await Deno.remove(file);
+  }
+});
+
+Deno.test("sed - unsupported commands point at the binary", async () => {
+  const error = await assertRejects(
+    () => call("sed", { input: "x\n", expression: "w out.txt" }),
+    ToolError,
+  );
+  assertEquals(error.code, "INVALID_ARGUMENT");
+  assertEquals(error.message.includes("binary: true"), true);
+});
+
+Deno.test("awk - fields, patterns, arrays and printf", async () => {
+  const input = "ann 31 eng\nbob 25 ops\ncy 40 eng\n";
+  const awk = async (program: string, args: Record<string, unknown> = {}) =>
+    (await call("awk", { input, program, ...args })).output;
+
+  assertEquals(await awk("$2 > 30 { print $1 }"), "ann\ncy\n");
+  assertEquals(
+    await awk(
+      '{ n[$3]++; s[$3] += $2 } END { for (k in n) printf "%s %d %.1f\\n", k, n[k], s[k] / n[k] }',
+    ),
+    "eng 2 35.5\nops 1 25.0\n",
+  );
+  assertEquals(
+    await awk('{ $2 = "X"; print; print NF }', { input: "a,b,c\n", fieldSeparator: "," }),
+    "a X c\n3\n",
+  );
+  assertEquals(await awk("NR == 1 { print min + $2 }", { variables: { min: 10 } }), "41\n");
+  assertEquals(
+    await awk("NR == 1 { print 2^53; print 1e20; print 0.5 }"),
+    "9007199254740992\n100000000000000000000\n0.5\n",
+  );
+  assertEquals(
+    await call("awk", { input, program: "{ print toupper(substr($1, 1, 1)) } NR == 2 { exit 3 }" }),
+    { output: "A\nB\n", exitCode: 3 },
+  );
+});
+
+Deno.test("jq - paths, filters and reshaping", async () => {
+  const input = JSON.stringify({
+    users: [{ name: "ann", age: 31 }, { name: "bob", age: 25 }, { name: "cy", age: 40 }],
+  });
+  assertEquals((await call("jq", { input, filter: ".users[0].name" })).result, "ann");
+  assertEquals(
+    (await call("jq", { input, filter: "[.users[] | select(.age > 30) | .name]" })).result,
+    ["ann", "cy"],
+  );
+  assertEquals(
+    (await call("jq", { input, filter: ".users | map({(.name): .age}) | add" })).result,
+    { ann: 31, bob: 25, cy: 40 },
+  );
+  assertEquals(
+    (await call("jq", { input, filter: "reduce .users[] as $u (0; . + $u.age)" })).result,
+    96,
+  );
+  assertEquals(
+    (await call("jq", { input, filter: ".users[].age |= . + 1 | [.users[].age]" })).result,
+    [32, 26, 41],
+  );
+  assertEquals(
+    (await call("jq", { input, filter: '.users[] | "\\(.name)=\\(.age)"', raw: true })).output,
+    "ann=31\nbob=25\ncy=40\n",
+  );
+  assertEquals(
+    (await call("jq", { input, filter: ".users[] | [.name, .age] | @csv", raw: true })).output,
+    '"ann",31\n"bob",25\n"cy",40\n',
+  );
+  assertEquals(
+    (await call("jq", { input: '"2024-05-06"', filter: 'capture("(?<y>\\\\d+)-(?<m>\\\\d+)")' }))
+      .result,
+    { y: "2024", m: "05" },
+  );
+  assertEquals(
+    (await call("jq", { input: '{"a":1}\n{"a":2}\n', filter: ".a" })).output,
+    "1\n2\n",
+  );
+});
+
+Deno.test("jq - values separated by spaces or nothing at all", async () => {
+  const outputs = async (input: string) => (await call("jq", { input, filter: "." })).output;
+
+  assertEquals(await outputs("1 2"), "1\n2\n");
+  assertEquals(await outputs("[1] [2]"), "[\n  1\n]\n[\n  2\n]\n");
+  assertEquals(
+    await outputs('{"a":"}"}{"b":2}'),
+    '{\n  "a": "}"\n}\n{\n  "b": 2\n}\n',
+  );
+  assertEquals(await outputs('"x" true null'), '"x"\ntrue\nnull\n');
+  await assertRejects(() => call("jq", { input: "[1] [2", filter: "." }), ToolError, "not valid");
+  await assertRejects(() => call("jq", { input: "1 nope", filter: "." }), ToolError, "not valid");
+});
+
+Deno.test("jq - errors and try/catch", async () => {
+  assertEquals(
+    (await call("jq", { input: "[1]", filter: 'try error("boom") catch .' })).result,
+    "boom",
+  );
+  assertEquals((await call("jq", { input: '[1, "x"]', filter: "[.[] | numbers]" })).result, [1]);
+  const error = await assertRejects(
+    () => call("jq", { input: "5", filter: ".a" }),
+    ToolError,
+  );
+  assertEquals(error.message, 'jq: error: Cannot index number with "a"');
+  await assertRejects(() => call("jq", { input: "1", filter: "[.[" }), ToolError, "syntax error");
+});
+
+Deno.test("sed, awk and jq - runaway programs stop", async () => {
+  const context = (limits: { signal?: AbortSignal; deadline?: number }): ToolContext => ({
+    signal: limits.signal ?? new AbortController().signal,
+    deadline: limits.deadline,
+    reportProgress: () => {},
+    progressRequested: false,
+  });
+  const runaway = [
+    ["sed", { input: "a\n", expression: ":a;ba" }],
+    ["awk", { input: "a\n", program: "BEGIN { while (1) n++ }" }],
+    ["jq", { input: "0", filter: "reduce range(1e12) as $i (0; . + 1)" }],
+  ] as const;
+
+  for (const [name, args] of runaway) {
+    const timedOut = await assertRejects(
+      () => call(name, args, context({ deadline: Date.now() + 10 })),
+      ToolError,
+    );
+    assertEquals(timedOut.code, "TIMEOUT");
+    const cancelled = await assertRejects(
+      () => call(name, args, context({ signal: AbortSignal.abort() })),
+      ToolError,
+    );
+    assertEquals(cancelled.code, "CANCELLED");
+  }
+
+  // Growing buffers hit a limit quickly, deadline or not
+  assertThrows(() => runSed(":a;s/^/x/;ba", "a\n"), ToolError, "step limit");
+  await assertRejects(
+    () => call("awk", { input: "a\n", program: 'BEGIN { s = "x"; while (1) s = s s }' }),
+    ToolError,
+    "size limit",
+  );
+  await assertRejects(
+    () => call("jq", { input: '"x"', filter: ". * 1e12" }),
+    ToolError,
+    "size limit",
+  );
+});
+
+Deno.test("sort_lines, uniq, cut and wc", async () => {
+  assertEquals(
+    (await call("sort_lines", { input: "10\n9\n100\n9\n", numeric: true, unique: true })).output,
+    "9\n10\n100\n",
+  );
+  assertEquals(
+    (await call("sort_lines", { input: "b\nB\na\n", reverse: true })).output,
+    "b\na\nB\n",
+  );
+  assertEquals(
+    (await call("uniq", { input: "a\na\nb\nc\nc\nc\n", count: true })).output,
+    "      2 a\n      1 b\n      3 c\n",
+  );
+  assertEquals((await call("uniq", { input: "a\na\nb\n", duplicatesOnly: true })).output, "a\n");
+  assertEquals(
+    (await call("cut", { input: "a:b:c\nno delimiter\n", delimiter: ":", fields: "1,3" })).output,
+    "a:c\nno delimiter\n",
+  );
+  assertEquals((await call("cut", { input: "héllo\n", characters: "2-3" })).output, "él\n");
+  assertEquals(await call("wc", { input: "one two\nthree é\n" }), {
+    lines: 2,
+    words: 4,
+    bytes: 17,
+  });
+  assertEquals(await call("wc", { input: "one two\nthree é\n", mode: "chars" }), { count: 16 });
+});
+
+Deno.test("binary: true runs the host tool", async () => {
+  const result = await call("sort_lines", { input: "b\na\n", binary: true });
+  assertEquals(result.output, "a\nb\n");
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for tool input validation
+ *
+ * @module lib/std/tests/validator_test
+ */
+
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import { InputValidator, ToolValidationError } from "../src/validator.ts";
+import { defineTool } from "../src/tools/types.ts";
+
+const tool = defineTool(
+  "test_lines",
+  "Test tool",
+  "text",
+  {
+    type: "object",
+    properties: {
+      text: { type: "string" },
+      lines: { type: "number", default: 10 },
+      mode: { type: "string", enum: ["head", "tail"] },
+      options: {
+        type: "object",
+        properties: { trim: { type: "boolean" } },
+      },
+    },
+    required: ["text"],
+  },
+  (args) => args,
+);
+
+Deno.test("InputValidator - accepts valid args and applies defaults", () => {
+  const validator = new InputValidator();
+  const result = validator.validate(tool, { text: "hello" });
+
+  assertEquals(result, { text: "hello", lines: 10 });
+});
+
+Deno.test("InputValidator - does not mutate caller args", () => {
+  const validator = new InputValidator();
+  const args = { text: "hello" };
+  validator.validate(tool, args);
+
+  assertEquals(args, { text: "hello" });
+});
+
+Deno.test("InputValidator - reports every failing field", () => {
+  const validator = new InputValidator();
+  const error = assertThrows(
+    () => validator.validate(tool, { lines: "ten", mode: "middle", options: { trim: 1 } }),
+    ToolValidationError,
+  );
+
+  assertEquals(error.toolName, "test_lines");
+  assertEquals(error.issues.map((i) => [i.field, i.keyword]).sort(), [
+    ["lines", "type"],
+    ["mode", "enum"],
+    ["options.trim", "type"],
+    ["text", "required"],
+  ]);
+});
+
+Deno.test("InputValidator - treats missing args as empty object", () => {
+  const validator = new InputValidator();
+  const error = assertThrows(() => validator.validate(tool, undefined));
+
+  assertInstanceOf(error, ToolValidationError);
+  assertEquals(error.issues[0].field, "text");
+});
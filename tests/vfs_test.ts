@@ -0,0 +1,332 @@
+/**
+ * Unit tests for the virtual filesystem tools
+ *
+ * @module lib/std/tests/vfs_test
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { MiniToolsClient, ToolError } from "../src/client.ts";
+import { setVfsLimits } from "../src/tools/vfs.ts";
+import { setVfsHostRoots } from "../src/tools/vfshost.ts";
+import { DEFAULT_VFS_LIMITS, VirtualFileSystem } from "../src/tools/vfstree.ts";
+
+const client = new MiniToolsClient({ categories: ["vfs"] });
+const call = (name: string, args: Record<string, unknown> = {}) =>
+  client.execute(name, args) as Promise<Record<string, unknown>>;
+const paths = (entries: unknown) => (entries as Array<{ path: string }>).map((e) => e.path);
+
+Deno.test("vfs tools - paths are normalized and parents created", async () => {
+  await call("vfs_clear");
+
+  assertEquals(await call("vfs_write", { path: "docs/./draft/../notes.txt", content: "hi" }), {
+    success: true,
+    path: "/docs/notes.txt",
+    size: 2,
+  });
+  assertEquals((await call("vfs_read", { path: "/docs//notes.txt" })).content, "hi");
+  assertEquals((await call("vfs_read", { path: "../../docs/notes.txt" })).content, "hi");
+  assertEquals((await call("vfs_stat", { path: "docs" })).type, "directory");
+  assertEquals(paths(await client.execute("vfs_list", {})), ["/docs"]);
+});
+
+Deno.test("vfs tools - binary content round-trips as base64", async () => {
+  await call("vfs_clear");
+  const bytes = new Uint8Array([0, 255, 128, 10]);
+  const content = btoa(String.fromCharCode(...bytes));
+
+  await call("vfs_write", { path: "/bin/blob", content, encoding: "base64" });
+
+  assertEquals(await call("vfs_read", { path: "/bin/blob" }), {
+    content,
+    encoding: "base64",
+    exists: true,
+    size: 4,
+  });
+  const error = await assertRejects(
+    () => call("vfs_read", { path: "/bin/blob", encoding: "utf8" }),
+    ToolError,
+  );
+  assertEquals(error.code, "INVALID_ARGUMENT");
+});
+
+Deno.test("vfs tools - directories: mkdir, rmdir, move and copy", async () => {
+  await call("vfs_clear");
+  await call("vfs_mkdir", { path: "/a/b", parents: true });
+  await call("vfs_write", { path: "/a/b/one.txt", content: "1" });
+  await call("vfs_write", { path: "/a/two.txt", content: "2" });
+
+  const notEmpty = await assertRejects(() => call("vfs_rmdir", { path: "/a" }), ToolError);
+  assertEquals(notEmpty.code, "INVALID_ARGUMENT");
+
+  await call("vfs_move", { source: "/a", destination: "/z" });
+  assertEquals(paths(await client.execute("vfs_list", { path: "/z", recursive: true })), [
+    "/z/b",
+    "/z/b/one.txt",
+    "/z/two.txt",
+  ]);
+
+  assertEquals(
+    (await call("vfs_copy", { source: "/z", destination: "/y", recursive: true })).files,
+    2,
+  );
+  assertEquals((await call("vfs_read", { path: "/y/b/one.txt" })).content, "1");
+
+  assertEquals(await call("vfs_rmdir", { path: "/z", recursive: true }), {
+    success: true,
+    deleted: "/z",
+    filesRemoved: 2,
+  });
+  assertEquals((await call("vfs_usage")).files, 2);
+});
+
+Deno.test("vfs tools - glob matches within and across directories", async () => {
+  await call("vfs_clear");
+  for (const path of ["/src/main.ts", "/src/lib/util.ts", "/src/lib/data.json", "/README.md"]) {
+    await call("vfs_write", { path, content: "" });
+  }
+
+  assertEquals(paths(await client.execute("vfs_glob", { pattern: "/src/*.ts" })), ["/src/main.ts"]);
+  assertEquals(paths(await client.execute("vfs_glob", { pattern: "**/*.ts" })), [
+    "/src/lib/util.ts",
+    "/src/main.ts",
+  ]);
+  assertEquals(await call("vfs_clear", { pattern: "/src/lib/**" }), {
+    cleared: 2,
+    pattern: "/src/lib/**",
+  });
+});
+
+Deno.test("vfs tools - read-only files refuse writes", async () => {
+  await call("vfs_clear");
+  await call("vfs_write", { path: "/locked.txt", content: "v1", mode: "444" });
+
+  const error = await assertRejects(
+    () => call("vfs_write", { path: "/locked.txt", content: "v2" }),
+    ToolError,
+  );
+  assertEquals(error.code, "PERMISSION_DENIED");
+
+  await call("vfs_chmod", { path: "/locked.txt", mode: "644" });
+  await call("vfs_write", { path: "/locked.txt", content: "v2" });
+  assertEquals((await call("vfs_read", { path: "/locked.txt" })).content, "v2");
+});
+
+Deno.test("VirtualFileSystem - enforces quotas", () => {
+  const fs = new VirtualFileSystem({ maxBytes: 10, maxFiles: 2, maxFileBytes: 8 });
+  const bytes = (n: number) => new Uint8Array(n);
+
+  fs.writeFile("/a", bytes(6));
+  assertEquals(
+    assertThrows(() => fs.writeFile("/b", bytes(9)), ToolError).code,
+    "INVALID_ARGUMENT",
+  );
+  assertThrows(() => fs.writeFile("/b", bytes(5)), ToolError, "maxBytes");
+  fs.writeFile("/b", bytes(4));
+  assertThrows(() => fs.writeFile("/c", bytes(0)), ToolError, "maxFiles");
+
+  // Overwriting frees the old size first
+  fs.writeFile("/a", bytes(2));
+  assertEquals(fs.usage().bytes, 6);
+  fs.unlink("/b");
+  assertEquals(fs.usage().files, 1);
+});
+
+Deno.test("VirtualFileSystem - counts directories and leaves none behind on a rejected write", () => {
+  const fs = new VirtualFileSystem({ maxDirectories: 2, maxFileBytes: 4 });
+  const changed: string[] = [];
+  fs.watch((path) => changed.push(path));
+
+  assertThrows(() => fs.writeFile("/a/b/big", new Uint8Array(5)), ToolError, "maxFileBytes");
+  assertThrows(() => fs.writeFile("/a/b/c/f", new Uint8Array(1)), ToolError, "maxDirectories");
+  assertThrows(() => fs.mkdir("/x/y/z", { parents: true }), ToolError, "maxDirectories");
+  assertEquals(fs.get("/a"), undefined);
+  assertEquals(changed, []);
+
+  fs.writeFile("/a/b/f", new Uint8Array(1));
+  assertEquals(fs.usage().directories, 2);
+  assertThrows(() => fs.mkdir("/c"), ToolError, "maxDirectories");
+  fs.rmdir("/a", { recursive: true });
+  assertEquals(fs.usage().directories, 0);
+});
+
+Deno.test("VirtualFileSystem - refuses snapshot entries outside the destination", () => {
+  const fs = new VirtualFileSystem();
+  const entry = (path: string) => ({
+    path,
+    type: "file" as const,
+    mode: "644",
+    createdAt: "",
+    updatedAt: "",
+    content: "",
+  });
+  const snapshot = (...paths: string[]) => ({
+    format: "mcp-std-vfs" as const,
+    version: 1 as const,
+    createdAt: "",
+    entries: paths.map(entry),
+  });
+
+  assertThrows(
+    () => fs.loadSnapshot(snapshot("ok.txt", "../../etc/x"), "/data/in"),
+    ToolError,
+    "escapes /data/in",
+  );
+  assertThrows(() => fs.loadSnapshot(snapshot("../in2/x"), "/data/in"), ToolError, "escapes");
+  assertEquals(fs.get("/data"), undefined);
+  assertEquals(fs.loadSnapshot(snapshot("a/../b.txt"), "/data/in").files, 1);
+  assertEquals(fs.get("/data/in/b.txt")?.type, "file");
+});
+
+Deno.test("VirtualFileSystem - a directory cannot replace a file", () => {
+  const fs = new VirtualFileSystem();
+  fs.mkdir("/dir");
+  fs.writeFile("/dir/inner.txt", new Uint8Array(1));
+  fs.writeFile("/file.txt", new Uint8Array(1));
+
+  assertThrows(() => fs.rename("/dir", "/file.txt"), ToolError, "Not a directory");
+  assertEquals(fs.get("/file.txt")?.type, "file");
+  assertEquals(fs.get("/dir/inner.txt")?.type, "file");
+});
+
+Deno.test("vfs tools - snapshot and restore roll back later changes", async () => {
+  await call("vfs_clear");
+  await call("vfs_write", { path: "/plan.md", content: "v1" });
+  await call("vfs_snapshot", { name: "before" });
+
+  await call("vfs_write", { path: "/plan.md", content: "v2" });
+  await call("vfs_write", { path: "/scratch/tmp.txt", content: "x" });
+  assertEquals(await call("vfs_restore", { name: "before" }), {
+    success: true,
+    name: "before",
+    files: 1,
+    bytes: 2,
+  });
+
+  assertEquals((await call("vfs_read", { path: "/plan.md" })).content, "v1");
+  assertEquals((await call("vfs_exists", { path: "/scratch" })).exists, false);
+  const missing = await assertRejects(() => call("vfs_restore", { name: "nope" }), ToolError);
+  assertEquals(missing.code, "NOT_FOUND");
+});
+
+Deno.test("vfs tools - export and import through the host", async () => {
+  const root = await Deno.makeTempDir();
+  setVfsHostRoots([root]);
+  try {
+    await call("vfs_clear");
+    await call("vfs_write", { path: "/app/main.ts", content: "export {};" });
+    await call("vfs_write", { path: "/app/logo.bin", content: "AP8=", encoding: "base64" });
+
+    for (const target of ["out", "app.tar.gz", "app.zip", "app.json"]) {
+      const exported = await call("vfs_export", {
+        source: "/app",
+        destination: `${root}/${target}`,
+      });
+      assertEquals([exported.files, exported.bytes], [2, 12]);
+
+      await call("vfs_import", { source: `${root}/${target}`, destination: `/copy/${target}` });
+      assertEquals(
+        (await call("vfs_read", { path: `/copy/${target}/main.ts` })).content,
+        "export {};",
+      );
+      assertEquals((await call("vfs_read", { path: `/copy/${target}/logo.bin` })).content, "AP8=");
+    }
+
+    // Symlinks are not followed on import
+    await Deno.symlink("/etc/hostname", `${root}/out/link`);
+    await call("vfs_import", { source: `${root}/out`, destination: "/again" });
+    assertEquals((await call("vfs_exists", { path: "/again/link" })).exists, false);
+  } finally {
+    setVfsHostRoots([Deno.cwd()]);
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("vfs tools - host paths outside the allowed roots are refused", async () => {
+  const root = await Deno.makeTempDir();
+  setVfsHostRoots([root]);
+  try {
+    await Deno.symlink("/etc", `${root}/escape`);
+
+    for (const source of ["/etc", `${root}/../`, `${root}/escape`]) {
+      const error = await assertRejects(() => call("vfs_import", { source }), ToolError);
+      assertEquals(error.code, "PERMISSION_DENIED");
+    }
+  } finally {
+    setVfsHostRoots([Deno.cwd()]);
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("vfs tools - export does not write through symlinks at the destination", async () => {
+  const root = await Deno.makeTempDir();
+  const outside = await Deno.makeTempDir();
+  setVfsHostRoots([root]);
+  try {
+    await call("vfs_clear");
+    await call("vfs_write", { path: "/app/sub/escaped", content: "x" });
+    await call("vfs_write", { path: "/app/file", content: "x" });
+    await Deno.mkdir(`${root}/out`);
+    await Deno.symlink(outside, `${root}/out/sub`);
+    await Deno.symlink(`${outside}/file`, `${root}/out/file`);
+
+    const error = await assertRejects(
+      () => call("vfs_export", { source: "/app", destination: `${root}/out` }),
+      ToolError,
+    );
+    assertEquals(error.code, "PERMISSION_DENIED");
+    assertEquals([...Deno.readDirSync(outside)], []);
+  } finally {
+    setVfsHostRoots([Deno.cwd()]);
+    await Deno.remove(root, { recursive: true });
+    await Deno.remove(outside, { recursive: true });
+  }
+});
+
+Deno.test("vfs tools - a failed import leaves the tree unchanged", async () => {
+  const root = await Deno.makeTempDir();
+  setVfsHostRoots([root]);
+  try {
+    await call("vfs_clear");
+    await Deno.writeTextFile(`${root}/a.txt`, "fine");
+    await Deno.writeTextFile(`${root}/b.txt`, "over quota");
+    setVfsLimits({ maxFiles: 1 });
+
+    await assertRejects(() => call("vfs_import", { source: root }), ToolError, "maxFiles");
+    assertEquals((await call("vfs_usage")).files, 0);
+  } finally {
+    setVfsLimits({ maxFiles: DEFAULT_VFS_LIMITS.maxFiles });
+    setVfsHostRoots([Deno.cwd()]);
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("vfs tools - writes made during a slow import are kept", async () => {
+  const root = await Deno.makeTempDir();
+  setVfsHostRoots([root]);
+  try {
+    await call("vfs_clear");
+    // Reading a FIFO blocks until something writes to it
+    const fifo = `${root}/slow.json`;
+    await new Deno.Command("mkfifo", { args: [fifo] }).output();
+    const importing = call("vfs_import", { source: fifo, destination: "/in" });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await call("vfs_write", { path: "/during.txt", content: "kept" });
+    await Deno.writeTextFile(
+      fifo,
+      JSON.stringify({
+        format: "mcp-std-vfs",
+        version: 1,
+        createdAt: new Date().toISOString(),
+        entries: [{ path: "a.txt", type: "file", mode: "644", content: "YQ==" }],
+      }),
+    );
+
+    assertEquals((await importing).files, 1);
+    assertEquals((await call("vfs_read", { path: "/during.txt" })).content, "kept");
+    assertEquals((await call("vfs_read", { path: "/in/a.txt" })).content, "a");
+  } finally {
+    setVfsHostRoots([Deno.cwd()]);
+    await Deno.remove(root, { recursive: true });
+  }
+});